@@ -1,13 +1,46 @@
 import mongoose from 'mongoose';
 
+// Payout runs, prepayments and investor merges write several collections in one
+// transaction, which MongoDB only supports on a replica set or a sharded cluster. A single server
+// can run as a one-member replica set: start mongod with --replSet rs0 and run rs.initiate() once.
+export class TransactionsUnavailableError extends Error {
+  constructor(action) {
+    super(`${action} needs MongoDB to run as a replica set; the connected server is standalone`);
+    this.name = 'TransactionsUnavailableError';
+    this.statusCode = 503;
+    this.code = 'TRANSACTIONS_UNAVAILABLE';
+  }
+}
+
+let transactionSupport;
+
+export const supportsTransactions = async () => {
+  if (transactionSupport === undefined) {
+    const { setName, msg } = await mongoose.connection.db.admin().command({ hello: 1 });
+    transactionSupport = Boolean(setName) || msg === 'isdbgrid';
+  }
+  return transactionSupport;
+};
+
+// Run `work(session)` in a transaction, refusing up front when the server cannot
+export const runInTransaction = async (action, work) => {
+  if (!(await supportsTransactions())) {
+    throw new TransactionsUnavailableError(action);
+  }
+  return mongoose.connection.transaction(work);
+};
+
 const connectDB = async () => {
   try {
     const conn = await mongoose.connect(process.env.MONGODB_URI);
     console.log(`✅ MongoDB Connected: ${conn.connection.host}`);
+    if (!(await supportsTransactions())) {
+      console.warn('⚠️ MongoDB is not a replica set: payout runs, prepayments and investor merges are unavailable (start mongod with --replSet and run rs.initiate())');
+    }
   } catch (error) {
     console.error('❌ Database connection error:', error.message);
     process.exit(1);
   }
 };
 
-export default connectDB;
\ No newline at end of file
+export default connectDB;
@@ -0,0 +1,5 @@
+// backend/jobs/fieldKeyRotation.js - Weekly re-sealing of encrypted identifiers
+// Picks up a rotated FIELD_ENCRYPTION_KEYS and any identifiers still stored in plain text.
+import { resealSensitiveFields } from '../services/sensitiveData.js';
+
+export const fieldKeyRotation = async () => resealSensitiveFields();
@@ -0,0 +1,38 @@
+// backend/jobs/index.js - Background job registry
+import { fieldKeyRotation } from './fieldKeyRotation.js';
+import { kycExpiry } from './kycExpiry.js';
+import { ledgerAccruals } from './ledgerAccruals.js';
+import { overdueSweep } from './overdueSweep.js';
+import { statementEmails } from './statementEmails.js';
+
+export const registerJobs = (runner) => {
+  runner.register('overdue-sweep', {
+    schedule: process.env.OVERDUE_SWEEP_CRON || '30 0 * * *',
+    description: 'Marks overdue payouts, accrues late fees and closes out defaulted or completed investments',
+    handler: overdueSweep
+  });
+
+  runner.register('statement-emails', {
+    schedule: process.env.STATEMENT_EMAIL_CRON || '0 6 * * *',
+    description: 'Emails monthly or quarterly account statements to investors who have opted in',
+    handler: statementEmails
+  });
+
+  runner.register('ledger-accruals', {
+    schedule: process.env.LEDGER_ACCRUAL_CRON || '0 1 * * *',
+    description: 'Accrues interest due in the ledger, journals anything missing and corrects drifted investor and plan totals',
+    handler: ledgerAccruals
+  });
+
+  runner.register('kyc-expiry', {
+    schedule: process.env.KYC_EXPIRY_CRON || '15 0 * * *',
+    description: 'Lapses verified KYC past its re-KYC date so the investor is sent back for re-KYC',
+    handler: kycExpiry
+  });
+
+  runner.register('field-key-rotation', {
+    schedule: process.env.FIELD_KEY_ROTATION_CRON || '30 2 * * 0',
+    description: 'Re-encrypts PAN, Aadhaar and account numbers under the active key after a key rotation, including any stored unencrypted',
+    handler: fieldKeyRotation
+  });
+};
@@ -0,0 +1,12 @@
+// backend/jobs/kycExpiry.js - Daily re-KYC check
+// Verified KYC past its re-KYC date lapses to expired, which stops new investments for the
+// investor until fresh documents are submitted and approved.
+import { expireKyc } from '../services/kyc.js';
+
+export const kycExpiry = async ({ now = new Date() } = {}) => {
+  const expired = await expireKyc({ now });
+
+  return {
+    expired
+  };
+};
@@ -0,0 +1,16 @@
+// backend/jobs/ledgerAccruals.js - Nightly ledger upkeep
+// Accrues interest on payouts that fell due, journals any investment or payment the ledger
+// is missing, then corrects investor and plan counters that have drifted from the ledger.
+import { backfillLedger, reconcileCounters } from '../services/ledger.js';
+
+export const ledgerAccruals = async ({ now = new Date(), triggeredBy = null } = {}) => {
+  const { investments, entriesPosted } = await backfillLedger({ asOf: now, postedBy: triggeredBy });
+  const { drifts, corrected } = await reconcileCounters({ apply: true });
+
+  return {
+    investmentsScanned: investments,
+    entriesPosted,
+    driftsFound: drifts.length,
+    countersCorrected: corrected
+  };
+};
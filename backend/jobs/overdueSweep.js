@@ -0,0 +1,102 @@
+// backend/jobs/overdueSweep.js - Nightly sweep of active investments
+// Flags payouts whose due date has passed, accrues late fees, and closes out
+// investments by the rules in Settings.financial (defaultAfterDays, autoCompleteMatured).
+import Investment from '../models/Investment.js';
+import Settings from '../models/Settings.js';
+import { daysLate, resolveLateFeePolicy } from '../utils/lateFees.js';
+import { roundCurrency } from '../../shared/scheduleEngine.js';
+import { refreshInvestorCounters } from '../services/ledger.js';
+
+const formatDate = (date) => new Date(date).toISOString().split('T')[0];
+
+// Status the rules move an active investment to, if any
+const resolveClosingStatus = (investment, rules, now) => {
+  if (rules.defaultAfterDays > 0) {
+    const longOverdue = investment.schedule.some(row =>
+      (row.status === 'overdue' || row.status === 'partial') && daysLate(row, now) > rules.defaultAfterDays
+    );
+    if (longOverdue) return 'defaulted';
+  }
+
+  if (rules.autoCompleteMatured && investment.maturityDate <= now && investment.schedule.every(row => row.status === 'paid')) {
+    return 'completed';
+  }
+
+  return null;
+};
+
+export const overdueSweep = async ({ now = new Date(), triggeredBy = null } = {}) => {
+  const [rules, lateFeeSettings] = await Promise.all([
+    Settings.getOverdueRules(),
+    Settings.getLateFeeSettings()
+  ]);
+
+  const summary = {
+    investmentsScanned: 0,
+    rowsMarkedOverdue: 0,
+    lateFeesAccrued: 0,
+    investmentsDefaulted: 0,
+    investmentsCompleted: 0
+  };
+
+  const cursor = Investment.find({ status: 'active' }).cursor();
+
+  for await (const investment of cursor) {
+    summary.investmentsScanned += 1;
+    const performedBy = triggeredBy || investment.createdBy;
+
+    const newlyOverdue = investment.markOverdueRows(now);
+    newlyOverdue.forEach(row => {
+      const amountDue = roundCurrency(row.totalAmount - (row.paidAmount || 0));
+      investment.timeline.push({
+        type: 'payment_overdue',
+        description: `Payout #${row.period ?? row.month} (Month ${row.month}) due ${formatDate(row.dueDate)} is overdue`,
+        amount: amountDue,
+        performedBy,
+        metadata: {
+          scheduleMonth: row.month,
+          dueDate: row.dueDate,
+          amountDue,
+          sweptAt: now
+        }
+      });
+    });
+    summary.rowsMarkedOverdue += newlyOverdue.length;
+
+    const feesBefore = investment.schedule.reduce((sum, row) => sum + (row.penaltyAccrued || 0), 0);
+    investment.accrueLateFees(resolveLateFeePolicy(investment, lateFeeSettings), now);
+    const feesAfter = investment.schedule.reduce((sum, row) => sum + (row.penaltyAccrued || 0), 0);
+    summary.lateFeesAccrued = roundCurrency(summary.lateFeesAccrued + feesAfter - feesBefore);
+
+    investment.updatePaymentStatus();
+
+    const closingStatus = investment.status === 'active' ? resolveClosingStatus(investment, rules, now) : null;
+    if (closingStatus) {
+      investment.status = closingStatus;
+      investment.timeline.push({
+        type: 'status_changed',
+        description: closingStatus === 'defaulted'
+          ? `Investment marked defaulted: a payout has been overdue for more than ${rules.defaultAfterDays} days`
+          : 'Investment completed: matured with every payout settled',
+        performedBy,
+        metadata: {
+          oldStatus: 'active',
+          newStatus: closingStatus,
+          rule: closingStatus === 'defaulted' ? 'defaultAfterDays' : 'autoCompleteMatured'
+        }
+      });
+    }
+
+    if (investment.isModified()) {
+      await investment.save();
+    }
+
+    if (investment.status !== 'active') {
+      if (investment.status === 'defaulted') summary.investmentsDefaulted += 1;
+      if (investment.status === 'completed') summary.investmentsCompleted += 1;
+      await refreshInvestorCounters(investment.investor);
+    }
+  }
+
+  return summary;
+};
@@ -0,0 +1,47 @@
+// backend/jobs/statementEmails.js - Scheduled account statement emails
+// Investors opted in through statementDelivery.frequency get a statement for the last complete
+// month or quarter. lastPeriodEnd records what was sent, so a missed run catches up on the next
+// one and a rerun on the same day sends nothing twice.
+import Investor from '../models/Investor.js';
+import {
+  buildAccountStatement,
+  emailAccountStatement,
+  previousStatementPeriod
+} from '../services/accountStatements.js';
+
+export const statementEmails = async ({ now = new Date() } = {}) => {
+  const summary = {
+    investorsDue: 0,
+    sent: 0,
+    failed: 0
+  };
+
+  const cursor = Investor.find({
+    status: 'active',
+    'statementDelivery.frequency': { $in: ['monthly', 'quarterly'] }
+  }).select('investorId statementDelivery').cursor();
+
+  for await (const investor of cursor) {
+    const period = previousStatementPeriod(investor.statementDelivery.frequency, now);
+    const lastSent = investor.statementDelivery.lastPeriodEnd;
+    if (lastSent && lastSent >= period.to) continue;
+
+    summary.investorsDue += 1;
+    try {
+      const statement = await buildAccountStatement({ investorId: investor._id, ...period });
+      const result = await emailAccountStatement(statement);
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+
+      investor.statementDelivery.lastPeriodEnd = period.to;
+      await investor.save();
+      summary.sent += 1;
+    } catch (error) {
+      summary.failed += 1;
+      console.error(`Statement email failed for investor ${investor.investorId}:`, error.message);
+    }
+  }
+
+  return summary;
+};
@@ -45,6 +45,20 @@ const FILE_CONFIGS = {
     allowedTypes: ['.jpg', '.jpeg', '.png', '.svg'],
     maxSize: 5 * 1024 * 1024, // 5MB
     mimeTypes: ['image/jpeg', 'image/jpg', 'image/png', 'image/svg+xml']
+  },
+  // Bank statements for reconciliation; browsers report these text formats inconsistently
+  statements: {
+    allowedTypes: ['.csv', '.ofx', '.qfx', '.sta', '.mt940', '.txt'],
+    maxSize: 5 * 1024 * 1024, // 5MB
+    mimeTypes: [
+      'text/csv',
+      'text/plain',
+      'application/csv',
+      'application/vnd.ms-excel',
+      'application/x-ofx',
+      'application/ofx',
+      'application/octet-stream'
+    ]
   }
 };
 
@@ -55,6 +69,7 @@ const uploadPaths = {
   receipts: path.join(__dirname, '../uploads/receipts'),
   agreements: path.join(__dirname, '../uploads/agreements'),
   company: path.join(__dirname, '../uploads/company'),
+  statements: path.join(__dirname, '../uploads/statements'),
   temp: path.join(__dirname, '../uploads/temp')
 };
 
@@ -76,7 +91,8 @@ const getUploadTypeFromFieldname = (fieldname) => {
     'receipt': 'receipts',
     'agreement': 'agreements',
     'logo': 'company',
-    'company': 'company'
+    'company': 'company',
+    'statement': 'statements'
   };
   
   return typeMap[fieldname] || 'documents';
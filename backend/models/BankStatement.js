@@ -0,0 +1,148 @@
+// backend/models/BankStatement.js - Imported bank statements and their reconciliation state
+import mongoose from 'mongoose';
+
+const statementLineSchema = new mongoose.Schema({
+  lineNo: {
+    type: Number,
+    required: true
+  },
+  date: {
+    type: Date,
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  direction: {
+    type: String,
+    enum: ['credit', 'debit'],
+    required: true
+  },
+  description: {
+    type: String,
+    default: ''
+  },
+  reference: {
+    type: String,
+    default: ''
+  },
+  accountNumber: {
+    type: String,
+    default: ''
+  },
+  // proposed -> matched on confirmation; unmatched lines form the exceptions queue
+  status: {
+    type: String,
+    enum: ['proposed', 'unmatched', 'matched', 'ignored'],
+    default: 'unmatched'
+  },
+  // Debits pay out a scheduled due (schedule) or settle a recorded payment (payment); credits
+  // bring in an investment's principal (investment) or a payout the bank sent back (return)
+  match: {
+    kind: {
+      type: String,
+      enum: ['schedule', 'payment', 'investment', 'return']
+    },
+    investment: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Investment'
+    },
+    investor: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Investor'
+    },
+    scheduleMonth: Number,
+    payment: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Payment'
+    },
+    confidence: Number,
+    reasons: [String],
+    manual: {
+      type: Boolean,
+      default: false
+    }
+  },
+  // Payment created or linked when the line was confirmed (the returned one for a return)
+  payment: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Payment',
+    default: null
+  },
+  note: {
+    type: String,
+    maxlength: 500
+  },
+  resolvedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  resolvedAt: Date
+});
+
+const bankStatementSchema = new mongoose.Schema({
+  statementId: {
+    type: String,
+    unique: true
+  },
+  originalName: {
+    type: String,
+    required: true
+  },
+  fileName: String,
+  format: {
+    type: String,
+    enum: ['csv', 'ofx', 'mt940'],
+    required: true
+  },
+  accountNumber: {
+    type: String,
+    default: ''
+  },
+  periodStart: Date,
+  periodEnd: Date,
+  dateWindowDays: {
+    type: Number,
+    default: 5,
+    min: 0,
+    max: 30
+  },
+  lines: [statementLineSchema],
+  // Line counts by status, kept in step with `lines` on save
+  summary: {
+    total: { type: Number, default: 0 },
+    proposed: { type: Number, default: 0 },
+    unmatched: { type: Number, default: 0 },
+    matched: { type: Number, default: 0 },
+    ignored: { type: Number, default: 0 }
+  },
+  uploadedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Generate statement ID before saving
+bankStatementSchema.pre('save', async function(next) {
+  if (!this.statementId) {
+    const count = await mongoose.models.BankStatement.countDocuments();
+    this.statementId = `STM${String(count + 1).padStart(6, '0')}`;
+  }
+
+  this.summary = { total: this.lines.length, proposed: 0, unmatched: 0, matched: 0, ignored: 0 };
+  this.lines.forEach(line => {
+    this.summary[line.status] += 1;
+  });
+
+  next();
+});
+
+bankStatementSchema.index({ createdAt: -1 });
+bankStatementSchema.index({ 'lines.status': 1 });
+
+export default mongoose.model('BankStatement', bankStatementSchema);
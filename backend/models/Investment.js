@@ -1,12 +1,28 @@
 // backend/models/Investment.js - Simplified Investment Model
 import mongoose from 'mongoose';
+import { buildSchedule, roundCurrency } from '../../shared/scheduleEngine.js';
+import { restructureSchedule } from '../utils/scheduleRestructure.js';
+import { accruedLateFee, LATE_FEE_TYPES } from '../utils/lateFees.js';
+import { ALLOCATION_COMPONENTS, ALLOCATION_STRATEGIES } from '../utils/paymentAllocation.js';
+import { MODES_OF_OPERATION } from '../../shared/holdingRules.js';
+import { DAY_COUNT_CONVENTIONS } from '../../shared/interestAccrual.js';
 
 const scheduleSchema = new mongoose.Schema({
+  // Payout index (1-based); rows are emitted on the plan's payout frequency
+  period: {
+    type: Number,
+    min: 1
+  },
+  // Last month covered by this row - payments reference rows by this value
   month: {
     type: Number,
     required: true,
     min: 1
   },
+  periodStartMonth: {
+    type: Number,
+    min: 1
+  },
   dueDate: {
     type: Date,
     required: true
@@ -44,6 +60,119 @@ const scheduleSchema = new mongoose.Schema({
   paidDate: {
     type: Date,
     default: null
+  },
+  // Late fees (see utils/lateFees.js); paid and waived amounts are tracked apart from paidAmount
+  penaltyAccrued: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  penaltyPaid: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  penaltyWaived: {
+    type: Number,
+    default: 0,
+    min: 0
+  }
+});
+
+// Payout cadence copied from the plan at creation (see shared/scheduleEngine.js)
+const payoutTermsSchema = new mongoose.Schema({
+  frequency: {
+    type: String,
+    enum: ['monthly', 'quarterly', 'half-yearly', 'yearly', 'others']
+  },
+  interestCadenceMonths: {
+    type: Number,
+    min: 1
+  },
+  principalCadenceMonths: {
+    type: Number,
+    min: 1
+  },
+  principalRepaymentOption: {
+    type: String,
+    enum: ['fixed', 'flexible']
+  },
+  withdrawalAfterPercentage: {
+    type: Number,
+    min: 0,
+    max: 100
+  },
+  principalSettlementTerm: {
+    type: Number,
+    min: 1
+  },
+  principalRepaymentPercentage: {
+    type: Number,
+    min: 0,
+    max: 100
+  }
+}, { _id: false });
+
+// Schedule restructure request - takes effect only once an admin approves it
+const restructureSchema = new mongoose.Schema({
+  // First accrual month the revised terms apply to
+  effectiveFromMonth: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  interestRate: {
+    type: Number,
+    min: 0
+  },
+  rateBasis: {
+    type: String,
+    enum: ['monthly', 'annual_nominal', 'annual_effective']
+  },
+  interestType: {
+    type: String,
+    enum: ['flat', 'reducing']
+  },
+  tenure: {
+    type: Number,
+    min: 1
+  },
+  moratoriumMonths: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  holidayMonths: [{
+    type: Number,
+    min: 1
+  }],
+  reason: {
+    type: String,
+    required: true,
+    maxlength: 500
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'approved', 'rejected'],
+    default: 'pending'
+  },
+  requestedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  requestedAt: {
+    type: Date,
+    default: Date.now
+  },
+  reviewedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reviewedAt: Date,
+  reviewNotes: {
+    type: String,
+    maxlength: 500
   }
 });
 
@@ -55,7 +184,7 @@ const timelineSchema = new mongoose.Schema({
   },
   type: {
     type: String,
-    enum: ['investment_created', 'payment_received', 'payment_overdue', 'document_uploaded', 'status_changed', 'note_added', 'schedule_updated'],
+    enum: ['investment_created', 'payment_received', 'payment_reversed', 'payment_overdue', 'document_uploaded', 'status_changed', 'note_added', 'schedule_updated'],
     required: true
   },
   description: {
@@ -123,6 +252,96 @@ const documentSchema = new mongoose.Schema({
   }
 });
 
+// Joint holder: another investor (with their own KYC) named on the investment
+const jointHolderSchema = new mongoose.Schema({
+  investor: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Investor',
+    required: true
+  },
+  relationship: {
+    type: String,
+    trim: true,
+    maxlength: 50
+  }
+}, { _id: false });
+
+// Nominee: receives the investment by share when no holder survives
+const nomineeSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  relationship: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 50
+  },
+  dateOfBirth: {
+    type: Date,
+    required: true
+  },
+  sharePercent: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 100
+  },
+  phone: String,
+  address: {
+    type: String,
+    maxlength: 300
+  },
+  // Required while the nominee is a minor (see shared/holdingRules.js)
+  guardian: {
+    name: String,
+    relationship: String,
+    phone: String,
+    address: {
+      type: String,
+      maxlength: 300
+    }
+  }
+});
+
+// How a closure after a holder's death was settled (see services/holdings.js)
+const deathClaimSchema = new mongoose.Schema({
+  deceased: [{
+    investor: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Investor'
+    },
+    name: String,
+    dateOfDeath: Date
+  }],
+  claimants: [{
+    role: {
+      type: String,
+      enum: ['surviving_holder', 'nominee']
+    },
+    investor: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Investor'
+    },
+    name: String,
+    sharePercent: Number,
+    amount: Number,
+    payTo: String
+  }],
+  paymentIds: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Payment'
+  }],
+  settledAt: Date,
+  settledBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, { _id: false });
+
 const investmentSchema = new mongoose.Schema({
   investmentId: {
     type: String,
@@ -138,6 +357,25 @@ const investmentSchema = new mongoose.Schema({
     ref: 'Plan',
     required: [true, 'Plan is required']
   },
+
+  // Holding: the investor above is the primary holder
+  jointHolders: {
+    type: [jointHolderSchema],
+    default: []
+  },
+  modeOfOperation: {
+    type: String,
+    enum: MODES_OF_OPERATION,
+    default: 'single'
+  },
+  nominees: {
+    type: [nomineeSchema],
+    default: []
+  },
+  deathClaim: {
+    type: deathClaimSchema,
+    default: null
+  },
   
   // Basic Investment Details
   principalAmount: {
@@ -166,6 +404,11 @@ const investmentSchema = new mongoose.Schema({
     required: true,
     min: 0
   },
+  rateBasis: {
+    type: String,
+    enum: ['monthly', 'annual_nominal', 'annual_effective'],
+    default: 'monthly'
+  },
   interestType: {
     type: String,
     enum: ['flat', 'reducing'],
@@ -181,6 +424,48 @@ const investmentSchema = new mongoose.Schema({
     enum: ['interest', 'interestWithPrincipal'],
     required: true
   },
+  payoutTerms: payoutTermsSchema,
+  // Accrual convention used to build the schedule; absent on investments created
+  // before conventions were recorded (those accrue a full month per anniversary)
+  dayCountConvention: {
+    type: String,
+    enum: DAY_COUNT_CONVENTIONS
+  },
+  prematureWithdrawalPenalty: {
+    type: Number,
+    min: 0,
+    max: 100
+  },
+  // Late fee override copied from the plan; a null rate uses the company default
+  lateFeeType: {
+    type: String,
+    enum: LATE_FEE_TYPES,
+    default: null
+  },
+  lateFeeRate: {
+    type: Number,
+    default: null,
+    min: 0
+  },
+  // Payment allocation waterfall copied from the plan; absent on older investments
+  allocationOrder: {
+    type: [{ type: String, enum: ALLOCATION_COMPONENTS }],
+    default: undefined
+  },
+  allocationStrategy: {
+    type: String,
+    enum: ALLOCATION_STRATEGIES
+  },
+  // Principal withdrawn ahead of schedule; flat interest runs on what is left
+  prepaidPrincipal: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  closureDate: {
+    type: Date,
+    default: null
+  },
   
   // Calculated Fields
   totalExpectedReturns: {
@@ -213,9 +498,24 @@ const investmentSchema = new mongoose.Schema({
     required: true,
     min: 0
   },
+
+  // Bank statement credit line the invested principal was reconciled against
+  bankReconciliation: {
+    statement: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'BankStatement'
+    },
+    lineId: mongoose.Schema.Types.ObjectId,
+    reconciledAt: Date,
+    reconciledBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    }
+  },
   
   // Payment Schedule
   schedule: [scheduleSchema],
+  restructures: [restructureSchema],
   
   // Document management
   documents: [documentSchema],
@@ -273,98 +573,91 @@ investmentSchema.pre('save', async function(next) {
   next();
 });
 
-// Generate payment schedule based on plan configuration
+// Generate payment schedule based on the payout terms and accrual convention copied from the plan
 investmentSchema.methods.generateSchedule = function() {
-  const schedule = [];
-  let remainingPrincipal = this.principalAmount;
-  const startDate = new Date(this.investmentDate);
-  const monthlyRate = this.interestRate / 100;
-
-  if (this.paymentType === 'interest') {
-    return this.generateInterestSchedule(startDate, monthlyRate);
-  } else {
-    return this.generateInterestWithPrincipalSchedule(startDate, monthlyRate);
-  }
+  return buildSchedule(this, this.principalAmount, this.investmentDate, this.dayCountConvention);
 };
 
-// Generate interest-only schedule
-investmentSchema.methods.generateInterestSchedule = function(startDate, monthlyRate) {
-  const schedule = [];
-  let remainingPrincipal = this.principalAmount;
-  
-  for (let month = 1; month <= this.tenure; month++) {
-    const dueDate = new Date(startDate);
-    dueDate.setMonth(dueDate.getMonth() + month);
-    
-    let interestAmount = 0;
-    let principalAmount = 0;
-    
-    if (this.interestType === 'flat') {
-      interestAmount = this.principalAmount * monthlyRate;
-    } else {
-      interestAmount = remainingPrincipal * monthlyRate;
-    }
-    
-    // Principal repayment logic would be based on plan configuration
-    // For simplicity, principal at the end
-    if (month === this.tenure) {
-      principalAmount = remainingPrincipal;
-      remainingPrincipal = 0;
+// Apply an approved restructure request: paid rows are kept, future rows rebuilt
+investmentSchema.methods.applyRestructure = function(request, approvedBy) {
+  const { schedule, terms, diff } = restructureSchedule(this, request);
+
+  this.schedule = schedule;
+  this.interestRate = terms.interestRate;
+  this.rateBasis = terms.rateBasis;
+  this.interestType = terms.interestType;
+  this.tenure = terms.tenure;
+  this.maturityDate = terms.maturityDate;
+  this.totalInterestExpected = terms.totalInterestExpected;
+  this.totalExpectedReturns = terms.totalExpectedReturns;
+
+  request.status = 'approved';
+  request.reviewedBy = approvedBy;
+  request.reviewedAt = new Date();
+
+  this.updatePaymentStatus();
+  this.timeline.push({
+    type: 'schedule_updated',
+    description: `Schedule restructured from month ${request.effectiveFromMonth}: ${request.reason}`,
+    performedBy: approvedBy,
+    metadata: {
+      restructureId: request._id,
+      requestedBy: request.requestedBy,
+      ...diff
     }
-    
-    schedule.push({
-      month,
-      dueDate,
-      interestAmount: Math.round(interestAmount * 100) / 100,
-      principalAmount: Math.round(principalAmount * 100) / 100,
-      totalAmount: Math.round((interestAmount + principalAmount) * 100) / 100,
-      remainingPrincipal: Math.round(remainingPrincipal * 100) / 100,
-      status: 'pending',
-      paidAmount: 0,
-      paidDate: null
-    });
-  }
-  
-  return schedule;
+  });
+
+  return diff;
 };
 
-// Generate interest with principal schedule
-investmentSchema.methods.generateInterestWithPrincipalSchedule = function(startDate, monthlyRate) {
-  const schedule = [];
-  let remainingPrincipal = this.principalAmount;
-  
-  // Simplified: equal principal + interest each month
-  const monthlyPrincipal = this.principalAmount / this.tenure;
-  
-  for (let month = 1; month <= this.tenure; month++) {
-    const dueDate = new Date(startDate);
-    dueDate.setMonth(dueDate.getMonth() + month);
-    
-    let interestAmount = 0;
-    let principalAmount = monthlyPrincipal;
-    
-    if (this.interestType === 'flat') {
-      interestAmount = this.principalAmount * monthlyRate;
-    } else {
-      interestAmount = remainingPrincipal * monthlyRate;
-    }
-    
-    remainingPrincipal -= principalAmount;
-    
-    schedule.push({
-      month,
-      dueDate,
-      interestAmount: Math.round(interestAmount * 100) / 100,
-      principalAmount: Math.round(principalAmount * 100) / 100,
-      totalAmount: Math.round((interestAmount + principalAmount) * 100) / 100,
-      remainingPrincipal: Math.round(Math.max(0, remainingPrincipal) * 100) / 100,
-      status: 'pending',
-      paidAmount: 0,
-      paidDate: null
-    });
+// Apply a prepayment or premature closure (see utils/prepayment.js)
+investmentSchema.methods.applyPrepayment = function(settlement, { foreclose, mode }, performedBy, paymentIds = []) {
+  const oldStatus = this.status;
+  const before = {
+    tenure: this.tenure,
+    maturityDate: this.maturityDate,
+    totalInterestExpected: this.totalInterestExpected,
+    totalExpectedReturns: this.totalExpectedReturns
+  };
+
+  this.schedule = settlement.schedule;
+  this.tenure = settlement.terms.tenure;
+  this.maturityDate = settlement.terms.maturityDate;
+  this.totalInterestExpected = settlement.terms.totalInterestExpected;
+  this.totalExpectedReturns = settlement.terms.totalExpectedReturns;
+  this.prepaidPrincipal = (this.prepaidPrincipal || 0) + settlement.principal;
+
+  if (foreclose) {
+    this.status = 'closed';
+    this.closureDate = settlement.settlementDate;
   }
-  
-  return schedule;
+  this.updatePaymentStatus();
+
+  this.timeline.push({
+    type: foreclose ? 'status_changed' : 'schedule_updated',
+    description: foreclose
+      ? `Investment closed before maturity: principal ${settlement.principal}, interest ${settlement.interest}, penalty ${settlement.penalty}`
+      : `Principal prepayment of ${settlement.principal} (${mode === 'reduce_tenure' ? 'tenure reduced' : 'payouts reduced'})`,
+    amount: settlement.principal,
+    performedBy,
+    metadata: {
+      paymentIds,
+      settlementDate: settlement.settlementDate,
+      principal: settlement.principal,
+      interest: settlement.interest,
+      penalty: settlement.penalty,
+      netPayout: settlement.netPayout,
+      mode: foreclose ? 'closure' : mode,
+      ...(foreclose && { oldStatus, newStatus: this.status }),
+      before,
+      after: {
+        tenure: this.tenure,
+        maturityDate: this.maturityDate,
+        totalInterestExpected: this.totalInterestExpected,
+        totalExpectedReturns: this.totalExpectedReturns
+      }
+    }
+  });
 };
 
 // Add document method
@@ -408,17 +701,78 @@ investmentSchema.methods.getDocumentsByCategory = function(category) {
   return this.documents.filter(doc => doc.category === category && doc.isActive);
 };
 
+// Apply a payment's allocations (see utils/paymentAllocation.js) to the schedule rows.
+// Late fees go to penaltyPaid; everything else counts towards the row's paidAmount.
+investmentSchema.methods.applyAllocations = function(allocations, paymentDate) {
+  return allocations.map(allocation => {
+    const row = this.schedule.find(item => item.month === allocation.scheduleMonth);
+    const oldStatus = row.status;
+
+    row.paidAmount = roundCurrency((row.paidAmount || 0) + allocation.amount - allocation.penaltyAmount);
+    row.penaltyPaid = roundCurrency((row.penaltyPaid || 0) + allocation.penaltyAmount);
+
+    if (row.paidAmount >= row.totalAmount) {
+      row.status = 'paid';
+      row.paidDate = paymentDate;
+    } else if (row.paidAmount > 0) {
+      row.status = 'partial';
+    }
+
+    return { scheduleMonth: row.month, oldStatus, newStatus: row.status };
+  });
+};
+
+// Undo a payment's allocations; rows fall back to partial, overdue or pending
+investmentSchema.methods.reverseAllocations = function(allocations, now = new Date()) {
+  return allocations.map(allocation => {
+    const row = this.schedule.find(item => item.month === allocation.scheduleMonth);
+    const oldStatus = row.status;
+
+    row.paidAmount = roundCurrency(Math.max(0, (row.paidAmount || 0) - (allocation.amount - allocation.penaltyAmount)));
+    row.penaltyPaid = roundCurrency(Math.max(0, (row.penaltyPaid || 0) - allocation.penaltyAmount));
+
+    if (row.paidAmount < row.totalAmount) {
+      row.paidDate = null;
+      if (row.paidAmount > 0) {
+        row.status = 'partial';
+      } else {
+        row.status = row.dueDate < now ? 'overdue' : 'pending';
+      }
+    }
+
+    return { scheduleMonth: row.month, oldStatus, newStatus: row.status };
+  });
+};
+
+// Flag pending rows whose due date has passed; returns the rows that changed
+investmentSchema.methods.markOverdueRows = function(now = new Date()) {
+  const newlyOverdue = this.schedule.filter(row => row.status === 'pending' && row.dueDate < now);
+  newlyOverdue.forEach(row => {
+    row.status = 'overdue';
+  });
+  return newlyOverdue;
+};
+
+// Accrue late fees on unpaid rows as of `asOf`; returns the total fee still outstanding
+investmentSchema.methods.accrueLateFees = function(policy, asOf = new Date()) {
+  let outstanding = 0;
+
+  this.schedule.forEach(row => {
+    row.penaltyAccrued = accruedLateFee(row, policy, asOf);
+    outstanding += Math.max(0, row.penaltyAccrued - (row.penaltyPaid || 0) - (row.penaltyWaived || 0));
+  });
+
+  return outstanding;
+};
+
 // Update payment status method
+// Overdue rows are flagged by the nightly sweep (jobs/overdueSweep.js), not here
 investmentSchema.methods.updatePaymentStatus = function() {
-  const now = new Date();
   let totalPaid = 0;
   let totalInterestPaid = 0;
   let totalPrincipalPaid = 0;
-  let statusChanged = false;
 
   this.schedule.forEach(payment => {
-    const oldStatus = payment.status;
-    
     if (payment.status === 'paid') {
       totalPaid += payment.paidAmount;
       totalInterestPaid += Math.min(payment.paidAmount, payment.interestAmount);
@@ -428,12 +782,6 @@ investmentSchema.methods.updatePaymentStatus = function() {
       totalInterestPaid += Math.min(payment.paidAmount, payment.interestAmount);
       totalPrincipalPaid += Math.max(0, payment.paidAmount - payment.interestAmount);
     }
-
-    // Update overdue status
-    if (payment.status === 'pending' && payment.dueDate < now) {
-      payment.status = 'overdue';
-      statusChanged = true;
-    }
   });
 
   this.totalPaidAmount = totalPaid;
@@ -443,12 +791,12 @@ investmentSchema.methods.updatePaymentStatus = function() {
 
   // Update investment status
   const oldInvestmentStatus = this.status;
-  if (this.remainingAmount <= 0) {
+  if (this.remainingAmount <= 0 && this.status === 'active') {
     this.status = 'completed';
   }
   
   // Add timeline entry for status changes
-  if (statusChanged || oldInvestmentStatus !== this.status) {
+  if (oldInvestmentStatus !== this.status) {
     this.timeline.push({
       type: 'status_changed',
       description: `Investment status updated to ${this.status}`,
@@ -463,6 +811,7 @@ investmentSchema.methods.updatePaymentStatus = function() {
 
 // Index for better performance
 investmentSchema.index({ investor: 1 });
+investmentSchema.index({ 'jointHolders.investor': 1 });
 investmentSchema.index({ plan: 1 });
 investmentSchema.index({ status: 1 });
 investmentSchema.index({ investmentDate: 1 });
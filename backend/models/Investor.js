@@ -1,28 +1,76 @@
 // backend/models/Investor.js - UPDATED WITH UTILITY METHODS
 import mongoose from 'mongoose';
+import {
+  PAN_PATTERN,
+  AADHAAR_PATTERN,
+  IFSC_PATTERN,
+  PINCODE_PATTERN,
+  IDENTITY_MESSAGES
+} from '../../shared/identityValidation.js';
+import { blindIndex, encryptedString } from '../utils/fieldEncryption.js';
+import { maskKycIdentity } from '../utils/masking.js';
 
-const kycSchema = new mongoose.Schema({
-  panNumber: {
+const kycFileSchema = new mongoose.Schema({
+  // Checklist key, e.g. panCard
+  type: {
     type: String,
-    required: [true, 'PAN number is required'],
-    uppercase: true,
-    match: [/^[A-Z]{5}[0-9]{4}[A-Z]{1}$/, 'Please enter a valid PAN number']
+    required: true
   },
-  aadharNumber: {
+  fileName: {
     type: String,
-    required: [true, 'Aadhar number is required'],
-    match: [/^\d{12}$/, 'Please enter a valid 12-digit Aadhar number']
+    required: true
+  },
+  originalName: {
+    type: String,
+    required: true
+  },
+  filePath: {
+    type: String,
+    required: true
+  },
+  fileSize: Number,
+  mimeType: String,
+  // Review round the file was uploaded for
+  cycle: {
+    type: Number,
+    default: 1
   },
+  uploadedAt: {
+    type: Date,
+    default: Date.now
+  },
+  uploadedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+});
+
+// PAN, Aadhaar and account number are encrypted at rest (utils/fieldEncryption.js) and masked
+// whenever the document is serialised; the *Hash fields are blind indexes for exact lookups
+const kycSchema = new mongoose.Schema({
+  panNumber: encryptedString({
+    required: [true, 'PAN number is required'],
+    normalize: value => value.toUpperCase(),
+    pattern: PAN_PATTERN,
+    message: IDENTITY_MESSAGES.panFormat
+  }),
+  aadharNumber: encryptedString({
+    required: [true, 'Aadhar number is required'],
+    pattern: AADHAAR_PATTERN,
+    message: IDENTITY_MESSAGES.aadhaarFormat
+  }),
+  panHash: String,
+  aadharHash: String,
+  accountHash: String,
   bankDetails: {
-    accountNumber: {
-      type: String,
+    accountNumber: encryptedString({
       required: [true, 'Account number is required']
-    },
+    }),
     ifscCode: {
       type: String,
       required: [true, 'IFSC code is required'],
       uppercase: true,
-      match: [/^[A-Z]{4}0[A-Z0-9]{6}$/, 'Please enter a valid IFSC code']
+      match: [IFSC_PATTERN, IDENTITY_MESSAGES.ifscFormat]
     },
     bankName: {
       type: String,
@@ -33,21 +81,65 @@ const kycSchema = new mongoose.Schema({
       required: [true, 'Branch name is required']
     }
   },
+  // Latest file path per standard document (kept in step with files below)
   documents: {
     panCard: String,
     aadharCard: String,
     bankStatement: String,
     signature: String
   },
+  // Every KYC upload, keyed by the checklist in Settings.kyc.requiredDocuments
+  files: [kycFileSchema],
+  // pending: awaiting documents or review (submittedAt set once sent for review);
+  // expired: was verified but is past its re-KYC date
   verificationStatus: {
     type: String,
-    enum: ['pending', 'verified', 'rejected'],
+    enum: ['pending', 'verified', 'rejected', 'expired'],
     default: 'pending'
   },
+  // Review round; a rejected or expired KYC starts a new one when resubmitted
+  cycle: {
+    type: Number,
+    default: 1,
+    min: 1
+  },
+  submittedAt: Date,
   verifiedAt: Date,
   verifiedBy: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User'
+  },
+  // Re-KYC date; a verified KYC lapses to expired after this
+  expiresAt: Date,
+  rejectionReason: String,
+  reviewHistory: [{
+    cycle: Number,
+    action: {
+      type: String,
+      enum: ['submitted', 'approved', 'rejected', 'expired', 'reopened']
+    },
+    reason: String,
+    performedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    performedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }]
+}, {
+  toJSON: {
+    transform: (doc, ret) => {
+      const masked = maskKycIdentity(doc);
+      ret.panNumber = masked.panNumber;
+      ret.aadharNumber = masked.aadharNumber;
+      if (ret.bankDetails) ret.bankDetails.accountNumber = masked.bankDetails.accountNumber;
+      delete ret.panHash;
+      delete ret.aadharHash;
+      delete ret.accountHash;
+      return ret;
+    }
   }
 });
 
@@ -79,7 +171,7 @@ const investorSchema = new mongoose.Schema({
     state: String,
     pincode: {
       type: String,
-      match: [/^\d{6}$/, 'Please enter a valid 6-digit pincode']
+      match: [PINCODE_PATTERN, IDENTITY_MESSAGES.pincodeFormat]
     },
     country: {
       type: String,
@@ -119,11 +211,28 @@ const investorSchema = new mongoose.Schema({
     default: 0,
     min: [0, 'Total returns cannot be negative']
   },
+  // merged: folded into mergedInto as a duplicate; kept so its history still resolves
   status: {
     type: String,
-    enum: ['active', 'inactive', 'blocked'],
+    enum: ['active', 'inactive', 'blocked', 'merged'],
     default: 'active'
   },
+  mergedInto: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Investor',
+    default: null
+  },
+  mergedAt: Date,
+  // Set by POST /api/investors/:id/death; closures of their investments go to survivors or nominees
+  deceased: {
+    dateOfDeath: Date,
+    reference: String,
+    recordedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    recordedAt: Date
+  },
   userId: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User',
@@ -156,9 +265,96 @@ const investorSchema = new mongoose.Schema({
   },
   tags: [String],
   lastContactDate: Date,
-  nextFollowUpDate: Date
+  nextFollowUpDate: Date,
+  // Form 15G (under 60) / 15H (60 and over) declarations: no TDS on interest for that financial year
+  taxExemptions: [{
+    form: {
+      type: String,
+      enum: ['15G', '15H'],
+      required: true
+    },
+    financialYear: {
+      type: String,
+      required: true,
+      match: [/^\d{4}(-\d{2})?$/, 'Financial year must look like 2026 or 2026-27']
+    },
+    submittedAt: {
+      type: Date,
+      required: true
+    },
+    notes: {
+      type: String,
+      maxlength: [500, 'Notes cannot exceed 500 characters']
+    },
+    recordedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    recordedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  // Scheduled account statement emails; lastPeriodEnd is the end of the last period sent
+  statementDelivery: {
+    frequency: {
+      type: String,
+      enum: ['none', 'monthly', 'quarterly'],
+      default: 'none'
+    },
+    lastPeriodEnd: Date
+  },
+  // Every admin reveal of a masked identifier (see POST /api/investors/:id/reveal)
+  sensitiveAccessLog: [{
+    field: {
+      type: String,
+      enum: ['panNumber', 'aadharNumber', 'accountNumber']
+    },
+    reason: String,
+    performedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    performedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  // Duplicate records merged into this one (see POST /api/investors/:id/merge)
+  mergeHistory: [{
+    investor: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Investor'
+    },
+    investorId: String,
+    name: String,
+    reason: String,
+    moved: {
+      investments: Number,
+      payments: Number,
+      documents: Number,
+      userAccount: {
+        type: String,
+        enum: ['none', 'moved', 'deactivated']
+      }
+    },
+    performedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    performedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }]
 }, {
-  timestamps: true
+  timestamps: true,
+  toJSON: {
+    transform: (doc, ret) => {
+      delete ret.sensitiveAccessLog;
+      return ret;
+    }
+  }
 });
 
 // Generate investor ID before saving
@@ -170,6 +366,16 @@ investorSchema.pre('save', async function(next) {
   next();
 });
 
+// Keep the blind indexes in step with the encrypted identifiers
+investorSchema.pre('save', function(next) {
+  if (this.kyc) {
+    this.kyc.panHash = blindIndex(this.kyc.panNumber);
+    this.kyc.aadharHash = blindIndex(this.kyc.aadharNumber);
+    this.kyc.accountHash = blindIndex(this.kyc.bankDetails?.accountNumber);
+  }
+  next();
+});
+
 // UTILITY METHODS
 
 // Calculate total ROI for investor
@@ -245,6 +451,7 @@ investorSchema.methods.getOverduePayments = async function() {
           (scheduleItem.status === 'pending' && scheduleItem.dueDate < now)) {
         overduePayments.push({
           investmentId: investment.investmentId,
+          period: scheduleItem.period,
           month: scheduleItem.month,
           dueDate: scheduleItem.dueDate,
           amount: scheduleItem.totalAmount,
@@ -276,6 +483,7 @@ investorSchema.methods.getUpcomingPayments = async function(days = 30) {
           scheduleItem.dueDate <= futureDate) {
         upcomingPayments.push({
           investmentId: investment.investmentId,
+          period: scheduleItem.period,
           month: scheduleItem.month,
           dueDate: scheduleItem.dueDate,
           amount: scheduleItem.totalAmount,
@@ -337,16 +545,17 @@ investorSchema.methods.needsFollowUp = function() {
 // Update statistics
 investorSchema.methods.updateStatistics = async function() {
   const Investment = mongoose.model('Investment');
-  const Payment = mongoose.model('Payment');
+  const JournalEntry = mongoose.model('JournalEntry');
   
-  const [investments, payments] = await Promise.all([
-    Investment.find({ investor: this._id }),
-    Payment.find({ investor: this._id, status: 'completed' })
+  // Money totals come from the general ledger
+  const [activeInvestments, totals] = await Promise.all([
+    Investment.countDocuments({ investor: this._id, status: 'active' }),
+    JournalEntry.investorTotals([this._id])
   ]);
   
-  this.totalInvestment = investments.reduce((sum, inv) => sum + inv.principalAmount, 0);
-  this.activeInvestments = investments.filter(inv => inv.status === 'active').length;
-  this.totalReturns = payments.reduce((sum, pay) => sum + pay.amount, 0);
+  this.totalInvestment = totals.get(String(this._id))?.totalInvestment || 0;
+  this.activeInvestments = activeInvestments;
+  this.totalReturns = totals.get(String(this._id))?.totalReturns || 0;
   
   return this.save();
 };
@@ -407,11 +616,14 @@ investorSchema.statics.searchInvestors = function(searchTerm) {
 
 // INDEXES FOR PERFORMANCE
 investorSchema.index({ email: 1 });
-investorSchema.index({ 'kyc.panNumber': 1 });
-investorSchema.index({ 'kyc.aadharNumber': 1 });
+investorSchema.index({ 'kyc.panHash': 1 });
+investorSchema.index({ 'kyc.aadharHash': 1 });
+investorSchema.index({ 'kyc.accountHash': 1 });
 investorSchema.index({ status: 1 });
 investorSchema.index({ investorId: 1 });
 investorSchema.index({ userId: 1 });
+investorSchema.index({ mergedInto: 1 });
+investorSchema.index({ phone: 1 });
 investorSchema.index({ createdAt: -1 });
 investorSchema.index({ totalInvestment: -1 });
 investorSchema.index({ riskProfile: 1 });
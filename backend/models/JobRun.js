@@ -0,0 +1,51 @@
+// backend/models/JobRun.js - History of background job runs
+import mongoose from 'mongoose';
+
+const jobRunSchema = new mongoose.Schema({
+  job: {
+    type: String,
+    required: true
+  },
+  trigger: {
+    type: String,
+    enum: ['schedule', 'manual'],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['running', 'succeeded', 'failed'],
+    default: 'running'
+  },
+  startedAt: {
+    type: Date,
+    required: true
+  },
+  finishedAt: {
+    type: Date,
+    default: null
+  },
+  durationMs: {
+    type: Number,
+    default: null
+  },
+  // Job-specific counters returned by the handler
+  summary: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  },
+  error: {
+    type: String,
+    default: null
+  },
+  triggeredBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+jobRunSchema.index({ job: 1, startedAt: -1 });
+
+export default mongoose.model('JobRun', jobRunSchema);
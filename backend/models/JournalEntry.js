@@ -0,0 +1,161 @@
+// backend/models/JournalEntry.js - Append-only double-entry journal behind investments and payments
+import mongoose from 'mongoose';
+import { ACCOUNT_CODES, ACCOUNTS } from '../utils/chartOfAccounts.js';
+
+const journalLineSchema = new mongoose.Schema({
+  account: {
+    type: String,
+    enum: ACCOUNT_CODES,
+    required: true
+  },
+  debit: {
+    type: Number,
+    default: 0,
+    min: [0, 'Debit cannot be negative']
+  },
+  credit: {
+    type: Number,
+    default: 0,
+    min: [0, 'Credit cannot be negative']
+  }
+}, { _id: false });
+
+const journalEntrySchema = new mongoose.Schema({
+  entryNumber: {
+    type: String,
+    unique: true
+  },
+  date: {
+    type: Date,
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['investment', 'interest_accrual', 'payment', 'reversal', 'prepayment_penalty'],
+    required: true
+  },
+  description: {
+    type: String,
+    required: true,
+    maxlength: 500
+  },
+  // Identifies the business event posted, so posting the same event twice is a no-op
+  sourceKey: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  investor: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Investor'
+  },
+  investment: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Investment'
+  },
+  payment: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Payment'
+  },
+  // Schedule row an interest accrual belongs to
+  scheduleMonth: Number,
+  // Entry this one cancels out
+  reverses: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'JournalEntry'
+  },
+  lines: {
+    type: [journalLineSchema],
+    validate: [
+      {
+        validator: lines => lines.length >= 2,
+        message: 'A journal entry needs at least two lines'
+      },
+      {
+        validator: lines => {
+          const debits = lines.reduce((sum, line) => sum + line.debit, 0);
+          const credits = lines.reduce((sum, line) => sum + line.credit, 0);
+          return Math.abs(debits - credits) < 0.005;
+        },
+        message: 'Journal entry debits and credits must balance'
+      }
+    ]
+  },
+  postedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+const APPEND_ONLY_MESSAGE = 'Journal entries are append-only; post a reversing entry instead';
+
+// Number new entries; posted entries are never changed
+journalEntrySchema.pre('save', async function(next) {
+  if (!this.isNew) {
+    return next(new Error(APPEND_ONLY_MESSAGE));
+  }
+  if (!this.entryNumber) {
+    const count = await mongoose.models.JournalEntry.countDocuments().session(this.$session());
+    this.entryNumber = `JE${String(count + 1).padStart(8, '0')}`;
+  }
+  next();
+});
+
+journalEntrySchema.pre([
+  'updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace',
+  'deleteOne', 'deleteMany', 'findOneAndDelete'
+], function(next) {
+  next(new Error(APPEND_ONLY_MESSAGE));
+});
+
+// Ledger figures behind an investor's counters: principal invested (credits to investor
+// principal on investment entries) and gross amount paid out (cash plus TDS on payments,
+// net of reversals). Returns a Map of investor id -> { totalInvestment, totalReturns }.
+journalEntrySchema.statics.investorTotals = async function(investorIds, session = null) {
+  const rows = await this.aggregate([
+    { $match: { investor: { $in: investorIds.map(id => new mongoose.Types.ObjectId(String(id))) } } },
+    { $unwind: '$lines' },
+    {
+      $group: {
+        _id: '$investor',
+        totalInvestment: {
+          $sum: {
+            $cond: [
+              { $and: [{ $eq: ['$type', 'investment'] }, { $eq: ['$lines.account', ACCOUNTS.INVESTOR_PRINCIPAL] }] },
+              { $subtract: ['$lines.credit', '$lines.debit'] },
+              0
+            ]
+          }
+        },
+        totalReturns: {
+          $sum: {
+            $cond: [
+              {
+                $and: [
+                  { $in: ['$type', ['payment', 'reversal']] },
+                  { $in: ['$lines.account', [ACCOUNTS.CASH, ACCOUNTS.TDS_PAYABLE]] }
+                ]
+              },
+              { $subtract: ['$lines.credit', '$lines.debit'] },
+              0
+            ]
+          }
+        }
+      }
+    }
+  ]).session(session);
+
+  return new Map(rows.map(row => [String(row._id), {
+    totalInvestment: Math.round(row.totalInvestment * 100) / 100,
+    totalReturns: Math.round(row.totalReturns * 100) / 100
+  }]));
+};
+
+journalEntrySchema.index({ date: 1 });
+journalEntrySchema.index({ 'lines.account': 1, date: 1 });
+journalEntrySchema.index({ investor: 1 });
+journalEntrySchema.index({ investment: 1, type: 1 });
+
+export default mongoose.model('JournalEntry', journalEntrySchema);
@@ -40,9 +40,60 @@ const paymentDocumentSchema = new mongoose.Schema({
   description: {
     type: String,
     maxlength: 500
+  },
+  // Rendered by the system (services/paymentReceipts.js) rather than uploaded
+  generated: {
+    type: Boolean,
+    default: false
   }
 });
 
+// Prepayment or closure a settlement payment records, kept while it awaits verification
+// so the checker's approval can apply it (see services/prepayments.js)
+const prepaymentInputSchema = new mongoose.Schema({
+  foreclose: {
+    type: Boolean,
+    default: false
+  },
+  amount: Number,
+  date: Date,
+  mode: String,
+  penaltyPercentage: Number
+}, { _id: false });
+
+// Share of a payment applied to one schedule row; lump-sum payments span several rows
+const paymentAllocationSchema = new mongoose.Schema({
+  scheduleMonth: {
+    type: Number,
+    required: true
+  },
+  penaltyAmount: {
+    type: Number,
+    default: 0
+  },
+  interestAmount: {
+    type: Number,
+    default: 0
+  },
+  principalAmount: {
+    type: Number,
+    default: 0
+  },
+  bonusAmount: {
+    type: Number,
+    default: 0
+  },
+  amount: {
+    type: Number,
+    required: true
+  }
+}, { _id: false });
+
+// Reversal entries carry the negated amounts of the payment they reverse
+const matchesEntrySign = function(value) {
+  return this.reversalOf ? value <= 0 : value >= 0;
+};
+
 const paymentSchema = new mongoose.Schema({
   paymentId: {
     type: String,
@@ -63,10 +114,20 @@ const paymentSchema = new mongoose.Schema({
     required: [true, 'Schedule month is required'],
     min: 1
   },
+  // Per-row split; scheduleMonth above is the first row covered
+  allocations: {
+    type: [paymentAllocationSchema],
+    default: []
+  },
   amount: {
     type: Number,
     required: [true, 'Payment amount is required'],
-    min: [0.01, 'Payment amount must be greater than 0']
+    validate: {
+      validator: function(value) {
+        return this.reversalOf ? value < 0 : value >= 0.01;
+      },
+      message: 'Payment amount must be greater than 0'
+    }
   },
   paymentDate: {
     type: Date,
@@ -84,38 +145,99 @@ const paymentSchema = new mongoose.Schema({
   },
   status: {
     type: String,
-    enum: ['pending', 'completed', 'failed', 'cancelled'],
+    enum: ['pending', 'completed', 'failed', 'cancelled', 'reversed'],
     default: 'completed'
   },
   type: {
     type: String,
-    enum: ['interest', 'principal', 'mixed', 'penalty', 'bonus'],
+    enum: ['interest', 'principal', 'mixed', 'penalty', 'bonus', 'reversal'],
     default: 'mixed'
   },
   interestAmount: {
     type: Number,
     default: 0,
-    min: 0
+    validate: [matchesEntrySign, 'Interest amount cannot be negative']
   },
   principalAmount: {
     type: Number,
     default: 0,
-    min: 0
+    validate: [matchesEntrySign, 'Principal amount cannot be negative']
   },
   penaltyAmount: {
     type: Number,
     default: 0,
-    min: 0
+    validate: [matchesEntrySign, 'Penalty amount cannot be negative']
   },
   bonusAmount: {
+    type: Number,
+    default: 0,
+    validate: [matchesEntrySign, 'Bonus amount cannot be negative']
+  },
+  // Late fee written off when this payment was recorded (not part of `amount`)
+  penaltyWaived: {
     type: Number,
     default: 0,
     min: 0
   },
+  // Tax withheld from the interest (services/tds.js); `amount` stays the gross settled against
+  // the schedule and the investor receives amount - tdsAmount
+  tdsAmount: {
+    type: Number,
+    default: 0,
+    validate: [matchesEntrySign, 'TDS amount cannot be negative']
+  },
+  tds: {
+    financialYear: String,
+    quarter: {
+      type: Number,
+      min: 1,
+      max: 4
+    },
+    section: String,
+    rate: Number,
+    // standard rate, higher no-PAN rate, Form 15G/15H on file, or year's interest under the threshold
+    basis: {
+      type: String,
+      enum: ['standard', 'no_pan', 'exempt', 'below_threshold']
+    },
+    exemptionForm: {
+      type: String,
+      enum: ['15G', '15H']
+    }
+  },
   notes: {
     type: String,
     maxlength: [500, 'Notes cannot be more than 500 characters']
   },
+  // Set on the compensating entry created when a payment is reversed
+  reversalOf: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Payment',
+    default: null
+  },
+  // Set on a prepayment or closure penalty: the settlement payment it was kept back from
+  deductedFrom: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Payment',
+    default: null
+  },
+  // Set on the original payment once it has been reversed
+  reversal: {
+    kind: {
+      type: String,
+      enum: ['reversal', 'cancellation', 'refund']
+    },
+    reason: String,
+    reversedAt: Date,
+    reversedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    reversalPayment: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Payment'
+    }
+  },
   // Enhanced document support - multiple documents per payment
   documents: [paymentDocumentSchema],
   
@@ -143,6 +265,47 @@ const paymentSchema = new mongoose.Schema({
     type: Date,
     default: null
   },
+  // Recorded under maker-checker; schedule and totals are only updated once verified
+  awaitingVerification: {
+    type: Boolean,
+    default: false
+  },
+  // Payout run that recorded this payment (see PayoutBatch)
+  batchId: {
+    type: String,
+    default: null
+  },
+  // Bank statement line this payment was reconciled against
+  bankReconciliation: {
+    statement: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'BankStatement'
+    },
+    lineId: mongoose.Schema.Types.ObjectId,
+    reconciledAt: Date,
+    reconciledBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    }
+  },
+  // Bank statement credit line on which the bank sent this payout back
+  bankReturn: {
+    statement: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'BankStatement'
+    },
+    lineId: mongoose.Schema.Types.ObjectId,
+    reconciledAt: Date,
+    reconciledBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    }
+  },
+  // Set on the settlement payment of a prepayment or premature closure
+  prepayment: {
+    type: prepaymentInputSchema,
+    default: null
+  },
   
   // Additional tracking fields
   lastModifiedBy: {
@@ -157,7 +320,7 @@ const paymentSchema = new mongoose.Schema({
   auditLog: [{
     action: {
       type: String,
-      enum: ['created', 'updated', 'verified', 'document_added', 'document_removed', 'status_changed']
+      enum: ['created', 'updated', 'verified', 'document_added', 'document_removed', 'status_changed', 'penalty_waived', 'reversed', 'receipt_emailed']
     },
     performedBy: {
       type: mongoose.Schema.Types.ObjectId,
@@ -178,7 +341,7 @@ const paymentSchema = new mongoose.Schema({
 // Generate payment ID before saving
 paymentSchema.pre('save', async function(next) {
   if (!this.paymentId) {
-    const count = await mongoose.models.Payment.countDocuments();
+    const count = await mongoose.models.Payment.countDocuments().session(this.$session());
     this.paymentId = `PAY${String(count + 1).padStart(8, '0')}`;
   }
   
@@ -270,6 +433,63 @@ paymentSchema.methods.updateStatus = function(newStatus, updatedBy, reason) {
   return this.save();
 };
 
+// Method to record a maker-checker decision on a payment awaiting verification
+paymentSchema.methods.recordVerificationDecision = function(decision, decidedBy, notes) {
+  const oldStatus = this.status;
+  this.status = decision === 'approve' ? 'completed' : 'cancelled';
+  this.awaitingVerification = false;
+  this.lastModifiedBy = decidedBy;
+  this.lastModifiedAt = new Date();
+
+  if (decision === 'approve') {
+    this.verifiedBy = decidedBy;
+    this.verifiedAt = new Date();
+  }
+
+  // Add to audit log
+  this.auditLog.push({
+    action: 'verified',
+    performedBy: decidedBy,
+    details: {
+      decision: decision === 'approve' ? 'approved' : 'rejected',
+      oldStatus,
+      newStatus: this.status,
+      notes
+    }
+  });
+
+  return this.save();
+};
+
+// Method to mark payment reversed; the compensating entry is created by the caller
+paymentSchema.methods.markReversed = function({ kind, reason, reversalPayment }, reversedBy) {
+  const oldStatus = this.status;
+  this.status = 'reversed';
+  this.reversal = {
+    kind,
+    reason,
+    reversedAt: new Date(),
+    reversedBy,
+    reversalPayment: reversalPayment._id
+  };
+  this.lastModifiedBy = reversedBy;
+  this.lastModifiedAt = new Date();
+
+  // Add to audit log
+  this.auditLog.push({
+    action: 'reversed',
+    performedBy: reversedBy,
+    details: {
+      kind,
+      reason,
+      oldStatus,
+      reversalPaymentId: reversalPayment.paymentId
+    }
+  });
+
+  return this.save();
+};
+
 // Method to verify payment
 paymentSchema.methods.verifyPayment = function(verifiedBy, notes) {
   this.verifiedBy = verifiedBy;
@@ -330,6 +550,11 @@ paymentSchema.virtual('hasRequiredDocuments').get(function() {
   );
 });
 
+// Cash actually paid to the investor once TDS is withheld
+paymentSchema.virtual('netAmount').get(function() {
+  return this.amount - (this.tdsAmount || 0);
+});
+
 // Virtual to get payment summary
 paymentSchema.virtual('paymentSummary').get(function() {
   return {
@@ -409,5 +634,9 @@ paymentSchema.index({ scheduleMonth: 1 });
 paymentSchema.index({ paymentMethod: 1 });
 paymentSchema.index({ 'documents.category': 1 });
 paymentSchema.index({ createdAt: -1 });
+paymentSchema.index({ reversalOf: 1 });
+paymentSchema.index({ awaitingVerification: 1 });
+paymentSchema.index({ 'bankReconciliation.statement': 1 });
+paymentSchema.index({ batchId: 1 });
 
 export default mongoose.model('Payment', paymentSchema);
\ No newline at end of file
@@ -0,0 +1,85 @@
+// backend/models/PayoutBatch.js - Payout runs: payments recorded together for a range of due dates
+import mongoose from 'mongoose';
+
+const payoutBatchSchema = new mongoose.Schema({
+  batchId: {
+    type: String,
+    unique: true
+  },
+  dueFrom: {
+    type: Date,
+    required: true
+  },
+  dueTo: {
+    type: Date,
+    required: true
+  },
+  paymentDate: {
+    type: Date,
+    required: true
+  },
+  paymentMethod: {
+    type: String,
+    enum: ['cash', 'cheque', 'bank_transfer', 'upi', 'card', 'other'],
+    required: true
+  },
+  referenceNumber: {
+    type: String,
+    trim: true
+  },
+  notes: {
+    type: String,
+    maxlength: 500
+  },
+  status: {
+    type: String,
+    enum: ['posted', 'rolled_back'],
+    default: 'posted'
+  },
+  payments: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Payment'
+  }],
+  // Due rows in the range left out of the run
+  excludedCount: {
+    type: Number,
+    default: 0
+  },
+  totals: {
+    count: { type: Number, default: 0 },
+    amount: { type: Number, default: 0 },
+    interest: { type: Number, default: 0 },
+    principal: { type: Number, default: 0 },
+    penalty: { type: Number, default: 0 },
+    awaitingVerification: { type: Number, default: 0 }
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  rollback: {
+    reason: String,
+    rolledBackAt: Date,
+    rolledBackBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    }
+  }
+}, {
+  timestamps: true
+});
+
+// Generate batch ID before saving
+payoutBatchSchema.pre('save', async function(next) {
+  if (!this.batchId) {
+    const count = await mongoose.models.PayoutBatch.countDocuments().session(this.$session());
+    this.batchId = `BAT${String(count + 1).padStart(6, '0')}`;
+  }
+  next();
+});
+
+payoutBatchSchema.index({ createdAt: -1 });
+payoutBatchSchema.index({ status: 1 });
+
+export default mongoose.model('PayoutBatch', payoutBatchSchema);
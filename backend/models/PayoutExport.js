@@ -0,0 +1,117 @@
+// backend/models/PayoutExport.js - Bank bulk-payment files generated from due schedule rows
+import mongoose from 'mongoose';
+import { encryptedString } from '../utils/fieldEncryption.js';
+import { maskAccount } from '../utils/masking.js';
+
+const payoutExportRowSchema = new mongoose.Schema({
+  // Written into the bank file so the statement line can be matched back (see utils/reconciliation.js)
+  reference: {
+    type: String,
+    required: true
+  },
+  investment: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Investment',
+    required: true
+  },
+  investor: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Investor',
+    required: true
+  },
+  investmentId: String,
+  investorId: String,
+  scheduleMonth: {
+    type: Number,
+    required: true
+  },
+  dueDate: Date,
+  // Amount transferred: the due amount less tdsAmount withheld from its interest
+  amount: {
+    type: Number,
+    required: true
+  },
+  tdsAmount: {
+    type: Number,
+    default: 0
+  },
+  beneficiaryName: String,
+  // Encrypted like the investor's own account number; only the bank file carries it in full
+  accountNumber: encryptedString(),
+  ifscCode: String,
+  bankName: String,
+  transferMode: {
+    type: String,
+    enum: ['NEFT', 'RTGS', 'IMPS']
+  }
+}, {
+  _id: false,
+  toJSON: {
+    transform: (doc, ret) => {
+      ret.accountNumber = maskAccount(doc.accountNumber);
+      return ret;
+    }
+  }
+});
+
+const payoutExportSchema = new mongoose.Schema({
+  exportId: {
+    type: String,
+    unique: true
+  },
+  format: {
+    type: String,
+    required: true
+  },
+  fileName: String,
+  dueFrom: {
+    type: Date,
+    required: true
+  },
+  dueTo: {
+    type: Date,
+    required: true
+  },
+  paymentDate: {
+    type: Date,
+    required: true
+  },
+  transferMode: {
+    type: String,
+    enum: ['auto', 'NEFT', 'RTGS', 'IMPS'],
+    default: 'auto'
+  },
+  debitAccount: String,
+  rows: [payoutExportRowSchema],
+  // Due rows in the range left out of the file
+  excludedCount: {
+    type: Number,
+    default: 0
+  },
+  totals: {
+    count: { type: Number, default: 0 },
+    amount: { type: Number, default: 0 }
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Generate export ID before saving
+payoutExportSchema.pre('save', async function(next) {
+  if (!this.exportId) {
+    const count = await mongoose.models.PayoutExport.countDocuments();
+    this.exportId = `PEX${String(count + 1).padStart(6, '0')}`;
+  }
+  next();
+});
+
+payoutExportSchema.index({ createdAt: -1 });
+payoutExportSchema.index({ 'rows.investment': 1, 'rows.scheduleMonth': 1 });
+payoutExportSchema.index({ 'rows.reference': 1 });
+
+export default mongoose.model('PayoutExport', payoutExportSchema);
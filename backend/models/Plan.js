@@ -1,5 +1,8 @@
 // backend/models/Plan.js - Simplified Plan Model matching HTML form
 import mongoose from 'mongoose';
+import { buildSchedule, resolvePayoutTerms, summarizeReturns } from '../../shared/scheduleEngine.js';
+import { DAY_COUNT_CONVENTIONS, resolveDayCountConvention } from '../../shared/interestAccrual.js';
+import { ALLOCATION_COMPONENTS, ALLOCATION_STRATEGIES, isValidAllocationOrder } from '../utils/paymentAllocation.js';
 
 const planSchema = new mongoose.Schema({
   planId: {
@@ -24,6 +27,12 @@ const planSchema = new mongoose.Schema({
     min: [0, 'Interest rate cannot be negative'],
     max: [100, 'Interest rate cannot exceed 100%']
   },
+  // How interestRate is quoted; the schedule engine converts it to a monthly rate
+  rateBasis: {
+    type: String,
+    enum: ['monthly', 'annual_nominal', 'annual_effective'],
+    default: 'monthly'
+  },
   interestType: {
     type: String,
     enum: ['flat', 'reducing'],
@@ -51,6 +60,50 @@ const planSchema = new mongoose.Schema({
     }
   },
   
+  // Percentage of the principal withdrawn that is retained on early withdrawal or closure
+  prematureWithdrawalPenalty: {
+    type: Number,
+    default: 0,
+    min: [0, 'Premature withdrawal penalty cannot be negative'],
+    max: [100, 'Premature withdrawal penalty cannot exceed 100%']
+  },
+  
+  // Late fee on payouts left unpaid past the grace period, charged per month late:
+  // a flat amount or a percentage of the amount due. A null rate falls back to
+  // Settings.financial.defaultLateFee (percentage)
+  lateFeeType: {
+    type: String,
+    enum: ['flat', 'percentage'],
+    default: null
+  },
+  lateFeeRate: {
+    type: Number,
+    default: null,
+    min: [0, 'Late fee cannot be negative']
+  },
+  
+  // Payment allocation waterfall for lump-sum payments (see utils/paymentAllocation.js)
+  allocationOrder: {
+    type: [{ type: String, enum: ALLOCATION_COMPONENTS }],
+    default: () => [...ALLOCATION_COMPONENTS],
+    validate: {
+      validator: isValidAllocationOrder,
+      message: 'Allocation order must list penalty, interest and principal exactly once'
+    }
+  },
+  allocationStrategy: {
+    type: String,
+    enum: ALLOCATION_STRATEGIES,
+    default: 'component_first'
+  },
+  
+  // Overrides the company day-count convention (Settings.financial) when set
+  dayCountConvention: {
+    type: String,
+    enum: DAY_COUNT_CONVENTIONS,
+    default: null
+  },
+  
   // Payment Type Selection (matches HTML form)
   paymentType: {
     type: String,
@@ -179,206 +232,25 @@ planSchema.pre('save', async function(next) {
   next();
 });
 
-// Calculate expected returns method
-planSchema.methods.calculateExpectedReturns = function(principalAmount) {
-  const monthlyRate = this.interestRate / 100;
-  let totalInterest = 0;
-  
-  if (this.paymentType === 'interest') {
-    return this.calculateInterestOnlyReturns(principalAmount, monthlyRate);
-  } else {
-    return this.calculateInterestWithPrincipalReturns(principalAmount, monthlyRate);
-  }
+// Resolved payout cadences for this plan (copied onto investments for historical record)
+planSchema.methods.getPayoutTerms = function() {
+  return resolvePayoutTerms(this);
 };
 
-// Interest-only calculation
-planSchema.methods.calculateInterestOnlyReturns = function(principalAmount, monthlyRate) {
-  let totalInterest = 0;
-  
-  if (this.interestType === 'flat') {
-    totalInterest = principalAmount * monthlyRate * this.tenure;
-  } else {
-    // Reducing balance
-    let remainingPrincipal = principalAmount;
-    
-    if (this.interestPayment.principalRepaymentOption === 'fixed') {
-      // Principal repaid at the end
-      totalInterest = principalAmount * monthlyRate * this.tenure;
-    } else {
-      // Flexible withdrawal
-      const settlementStartMonth = Math.ceil(this.tenure * this.interestPayment.withdrawalAfterPercentage / 100);
-      const monthlyPrincipalRepayment = principalAmount / this.interestPayment.principalSettlementTerm;
-      
-      for (let month = 1; month <= this.tenure; month++) {
-        totalInterest += remainingPrincipal * monthlyRate;
-        
-        if (month >= settlementStartMonth) {
-          remainingPrincipal -= monthlyPrincipalRepayment;
-          remainingPrincipal = Math.max(0, remainingPrincipal);
-        }
-      }
-    }
-  }
-  
-  return {
-    totalInterest: Math.round(totalInterest * 100) / 100,
-    totalReturns: Math.round((principalAmount + totalInterest) * 100) / 100,
-    effectiveRate: Math.round((totalInterest / principalAmount) * 100 * 100) / 100,
-    paymentType: 'interest'
-  };
+// Day-count convention for new investments - the plan override wins over the company default
+planSchema.methods.getDayCountConvention = function(companyConvention) {
+  return this.dayCountConvention || companyConvention || resolveDayCountConvention();
 };
 
-// Interest with principal calculation
-planSchema.methods.calculateInterestWithPrincipalReturns = function(principalAmount, monthlyRate) {
-  const principalPercentage = this.interestWithPrincipalPayment.principalRepaymentPercentage / 100;
-  let totalInterest = 0;
-  let remainingPrincipal = principalAmount;
-  
-  // Calculate payment frequency
-  let frequencyMonths = 1;
-  switch (this.interestWithPrincipalPayment.paymentFrequency) {
-    case 'quarterly': frequencyMonths = 3; break;
-    case 'half-yearly': frequencyMonths = 6; break;
-    case 'yearly': frequencyMonths = 12; break;
-    case 'others': frequencyMonths = 1; break;
-  }
-  
-  const totalPaymentPeriods = Math.ceil(this.tenure / frequencyMonths);
-  const principalPerPayment = (principalAmount * principalPercentage) / totalPaymentPeriods;
-  
-  for (let month = 1; month <= this.tenure; month++) {
-    if (this.interestType === 'flat') {
-      totalInterest += principalAmount * monthlyRate;
-    } else {
-      totalInterest += remainingPrincipal * monthlyRate;
-    }
-    
-    // Reduce principal at payment intervals
-    if (month % frequencyMonths === 0) {
-      remainingPrincipal -= principalPerPayment;
-      remainingPrincipal = Math.max(0, remainingPrincipal);
-    }
-  }
-  
-  return {
-    totalInterest: Math.round(totalInterest * 100) / 100,
-    totalReturns: Math.round((principalAmount + totalInterest) * 100) / 100,
-    effectiveRate: Math.round((totalInterest / principalAmount) * 100 * 100) / 100,
-    paymentType: 'interestWithPrincipal'
-  };
+// Calculate expected returns method - totals are derived from the payout schedule
+planSchema.methods.calculateExpectedReturns = function(principalAmount, investmentDate = new Date(), dayCountConvention) {
+  const schedule = this.generateSchedule(principalAmount, investmentDate, dayCountConvention);
+  return summarizeReturns(schedule, principalAmount, this, investmentDate);
 };
 
-// Generate payment schedule
-planSchema.methods.generateSchedule = function(principalAmount, investmentDate) {
-  const schedule = [];
-  let remainingPrincipal = principalAmount;
-  const startDate = new Date(investmentDate);
-  const monthlyRate = this.interestRate / 100;
-
-  if (this.paymentType === 'interest') {
-    return this.generateInterestSchedule(principalAmount, startDate, monthlyRate);
-  } else {
-    return this.generateInterestWithPrincipalSchedule(principalAmount, startDate, monthlyRate);
-  }
-};
-
-planSchema.methods.generateInterestSchedule = function(principalAmount, startDate, monthlyRate) {
-  const schedule = [];
-  let remainingPrincipal = principalAmount;
-  
-  for (let month = 1; month <= this.tenure; month++) {
-    const dueDate = new Date(startDate);
-    dueDate.setMonth(dueDate.getMonth() + month);
-    
-    let interestAmount = 0;
-    let principalAmount = 0;
-    
-    if (this.interestType === 'flat') {
-      interestAmount = principalAmount * monthlyRate;
-    } else {
-      interestAmount = remainingPrincipal * monthlyRate;
-    }
-    
-    // Handle principal repayment
-    if (this.interestPayment.principalRepaymentOption === 'fixed' && month === this.tenure) {
-      principalAmount = remainingPrincipal;
-      remainingPrincipal = 0;
-    } else if (this.interestPayment.principalRepaymentOption === 'flexible') {
-      const settlementStartMonth = Math.ceil(this.tenure * this.interestPayment.withdrawalAfterPercentage / 100);
-      if (month >= settlementStartMonth) {
-        const monthlyPrincipal = principalAmount / this.interestPayment.principalSettlementTerm;
-        principalAmount = Math.min(monthlyPrincipal, remainingPrincipal);
-        remainingPrincipal -= principalAmount;
-      }
-    }
-    
-    schedule.push({
-      month,
-      dueDate,
-      interestAmount: Math.round(interestAmount * 100) / 100,
-      principalAmount: Math.round(principalAmount * 100) / 100,
-      totalAmount: Math.round((interestAmount + principalAmount) * 100) / 100,
-      remainingPrincipal: Math.round(remainingPrincipal * 100) / 100,
-      status: 'pending',
-      paidAmount: 0,
-      paidDate: null
-    });
-  }
-  
-  return schedule;
-};
-
-planSchema.methods.generateInterestWithPrincipalSchedule = function(principalAmount, startDate, monthlyRate) {
-  const schedule = [];
-  let remainingPrincipal = principalAmount;
-  const principalPercentage = this.interestWithPrincipalPayment.principalRepaymentPercentage / 100;
-  
-  // Calculate payment frequency
-  let frequencyMonths = 1;
-  switch (this.interestWithPrincipalPayment.paymentFrequency) {
-    case 'quarterly': frequencyMonths = 3; break;
-    case 'half-yearly': frequencyMonths = 6; break;
-    case 'yearly': frequencyMonths = 12; break;
-    case 'others': frequencyMonths = 1; break;
-  }
-  
-  const totalPaymentPeriods = Math.ceil(this.tenure / frequencyMonths);
-  const principalPerPayment = (principalAmount * principalPercentage) / totalPaymentPeriods;
-  
-  for (let month = 1; month <= this.tenure; month++) {
-    const dueDate = new Date(startDate);
-    dueDate.setMonth(dueDate.getMonth() + month);
-    
-    let interestAmount = 0;
-    let principalAmount = 0;
-    
-    // Calculate interest
-    if (this.interestType === 'flat') {
-      interestAmount = principalAmount * monthlyRate;
-    } else {
-      interestAmount = remainingPrincipal * monthlyRate;
-    }
-    
-    // Calculate principal payment at frequency intervals
-    if (month % frequencyMonths === 0 || month === this.tenure) {
-      principalAmount = Math.min(principalPerPayment, remainingPrincipal);
-      remainingPrincipal -= principalAmount;
-    }
-    
-    schedule.push({
-      month,
-      dueDate,
-      interestAmount: Math.round(interestAmount * 100) / 100,
-      principalAmount: Math.round(principalAmount * 100) / 100,
-      totalAmount: Math.round((interestAmount + principalAmount) * 100) / 100,
-      remainingPrincipal: Math.round(remainingPrincipal * 100) / 100,
-      status: 'pending',
-      paidAmount: 0,
-      paidDate: null
-    });
-  }
-  
-  return schedule;
+// Generate payment schedule - interest accrues per day-count convention, rows follow the payout frequency
+planSchema.methods.generateSchedule = function(principalAmount, investmentDate, dayCountConvention) {
+  return buildSchedule(this, principalAmount, investmentDate, dayCountConvention || this.getDayCountConvention());
 };
 
 // Index for better performance
@@ -1,4 +1,14 @@
 import mongoose from 'mongoose';
+import { CHART_OF_ACCOUNTS } from '../utils/chartOfAccounts.js';
+import { DAY_COUNT_CONVENTIONS, resolveDayCountConvention } from '../../shared/interestAccrual.js';
+
+// Keys match Investor.kyc.documents so the standard uploads fill those paths too
+const DEFAULT_KYC_DOCUMENTS = [
+  { key: 'panCard', label: 'PAN Card' },
+  { key: 'aadharCard', label: 'Aadhaar Card' },
+  { key: 'bankStatement', label: 'Bank Statement / Cancelled Cheque' },
+  { key: 'signature', label: 'Signature' }
+];
 
 const settingsSchema = new mongoose.Schema({
   company: {
@@ -48,11 +58,18 @@ const settingsSchema = new mongoose.Schema({
       default: 'April',
       enum: ['January', 'April', 'July', 'October']
     },
+    // daily = Actual/365, monthly = rate per month, yearly = Actual/Actual
     interestCalculationMethod: {
       type: String,
       default: 'daily',
       enum: ['daily', 'monthly', 'yearly']
     },
+    // Chosen day-count convention; when unset, the one interestCalculationMethod implies
+    dayCountConvention: {
+      type: String,
+      enum: DAY_COUNT_CONVENTIONS,
+      default: null
+    },
     defaultLateFee: {
       type: Number,
       default: 2,
@@ -64,6 +81,126 @@ const settingsSchema = new mongoose.Schema({
       default: 7,
       min: 0,
       max: 30
+    },
+    // Overdue sweep rules: days a payout may stay overdue before the investment is
+    // marked defaulted (0 = never), and whether fully paid matured investments complete
+    defaultAfterDays: {
+      type: Number,
+      default: 90,
+      min: 0,
+      max: 365
+    },
+    autoCompleteMatured: {
+      type: Boolean,
+      default: true
+    },
+    // Maker-checker: payments above the threshold wait for a second user to verify them
+    makerCheckerEnabled: {
+      type: Boolean,
+      default: false
+    },
+    verificationThreshold: {
+      type: Number,
+      default: 0,
+      min: 0
+    }
+  },
+  // TDS on interest payouts (services/tds.js); rates are set per financial year
+  tax: {
+    tdsEnabled: {
+      type: Boolean,
+      default: false
+    },
+    tdsSection: {
+      type: String,
+      default: '194A'
+    },
+    tdsRates: [{
+      _id: false,
+      // Label from utils/financialYear.js, e.g. "2026-27"
+      financialYear: {
+        type: String,
+        required: true,
+        match: [/^\d{4}(-\d{2})?$/, 'Financial year must look like 2026 or 2026-27']
+      },
+      rate: {
+        type: Number,
+        required: true,
+        min: 0,
+        max: 100
+      },
+      // Applied when the investor's PAN is missing or not yet verified (section 206AA)
+      noPanRate: {
+        type: Number,
+        required: true,
+        min: 0,
+        max: 100
+      },
+      // Nothing is withheld until the year's interest to an investor exceeds this
+      threshold: {
+        type: Number,
+        default: 0,
+        min: 0
+      }
+    }]
+  },
+  // Journal exports for the accounting package (services/accountingExport.js)
+  accounting: {
+    // Company the Tally import goes into; blank imports into whichever company is open
+    tallyCompanyName: {
+      type: String,
+      trim: true,
+      default: ''
+    },
+    // Ledger name for each chart of accounts entry; blank uses the account's own name
+    ledgerNames: Object.fromEntries(CHART_OF_ACCOUNTS.map(account => [account.key, {
+      type: String,
+      trim: true,
+      default: ''
+    }])),
+    // Post investor principal to a ledger per investor instead of the single principal ledger
+    perInvestorLedgers: {
+      type: Boolean,
+      default: false
+    },
+    // Tally group the per-investor ledgers are created under
+    investorLedgerGroup: {
+      type: String,
+      trim: true,
+      default: 'Unsecured Loans'
+    }
+  },
+  // KYC verification workflow (services/kyc.js)
+  kyc: {
+    // Documents an investor must upload before KYC can be sent for review
+    requiredDocuments: {
+      type: [{
+        _id: false,
+        // Stable key stored on uploads, e.g. panCard
+        key: {
+          type: String,
+          required: true,
+          trim: true,
+          match: [/^[a-zA-Z][a-zA-Z0-9_]*$/, 'Document key must be letters, digits or underscores']
+        },
+        label: {
+          type: String,
+          required: true,
+          trim: true
+        }
+      }],
+      default: () => DEFAULT_KYC_DOCUMENTS.map(document => ({ ...document }))
+    },
+    // Months a verified KYC stays valid before re-KYC is due; 0 never expires
+    validityMonths: {
+      type: Number,
+      default: 24,
+      min: 0
+    },
+    // Only investors with verified KYC can take new investments
+    requireVerifiedForInvestment: {
+      type: Boolean,
+      default: true
     }
   },
   notifications: {
@@ -190,4 +327,76 @@ settingsSchema.statics.getSingleton = async function() {
   return settings;
 };
 
+// Company-wide day-count convention for new investments
+settingsSchema.statics.getDayCountConvention = async function() {
+  const settings = await this.findOne().select('financial.interestCalculationMethod financial.dayCountConvention');
+  return resolveDayCountConvention(settings?.financial);
+};
+
+// Company-wide late fee and grace period used by utils/lateFees.js
+settingsSchema.statics.getLateFeeSettings = async function() {
+  const settings = await this.findOne().select('financial.defaultLateFee financial.gracePeriodDays');
+  return {
+    defaultLateFee: settings?.financial?.defaultLateFee ?? 2,
+    gracePeriodDays: settings?.financial?.gracePeriodDays ?? 7
+  };
+};
+
+// Rules applied by the overdue sweep job
+settingsSchema.statics.getOverdueRules = async function() {
+  const settings = await this.findOne().select('financial.defaultAfterDays financial.autoCompleteMatured');
+  return {
+    defaultAfterDays: settings?.financial?.defaultAfterDays ?? 90,
+    autoCompleteMatured: settings?.financial?.autoCompleteMatured ?? true
+  };
+};
+
+// Maker-checker rules applied when a payment is recorded
+settingsSchema.statics.getVerificationRules = async function() {
+  const settings = await this.findOne().select('financial.makerCheckerEnabled financial.verificationThreshold');
+  return {
+    makerCheckerEnabled: settings?.financial?.makerCheckerEnabled ?? false,
+    verificationThreshold: settings?.financial?.verificationThreshold ?? 0
+  };
+};
+
+// TDS configuration with the financial year start it is keyed by
+settingsSchema.statics.getTaxSettings = async function() {
+  const settings = await this.findOne().select('financial.financialYearStart tax');
+  return {
+    financialYearStart: settings?.financial?.financialYearStart || 'April',
+    tdsEnabled: settings?.tax?.tdsEnabled ?? false,
+    tdsSection: settings?.tax?.tdsSection || '194A',
+    tdsRates: settings?.tax?.tdsRates || []
+  };
+};
+
+// KYC checklist and validity, falling back to the standard four documents
+settingsSchema.statics.getKycSettings = async function() {
+  const settings = await this.findOne().select('kyc');
+  const kyc = settings?.kyc;
+  return {
+    requiredDocuments: kyc?.requiredDocuments?.length
+      ? kyc.requiredDocuments.map(({ key, label }) => ({ key, label }))
+      : DEFAULT_KYC_DOCUMENTS,
+    validityMonths: kyc?.validityMonths ?? 24,
+    requireVerifiedForInvestment: kyc?.requireVerifiedForInvestment ?? true
+  };
+};
+
+// Ledger names and Tally options for journal exports, with every account's name filled in
+settingsSchema.statics.getAccountingSettings = async function() {
+  const settings = await this.findOne().select('accounting');
+  const accounting = settings?.accounting;
+  return {
+    tallyCompanyName: accounting?.tallyCompanyName || '',
+    ledgerNames: Object.fromEntries(CHART_OF_ACCOUNTS.map(account => [
+      account.code,
+      accounting?.ledgerNames?.[account.key] || account.name
+    ])),
+    perInvestorLedgers: accounting?.perInvestorLedgers ?? false,
+    investorLedgerGroup: accounting?.investorLedgerGroup || 'Unsecured Loans'
+  };
+};
+
 export default mongoose.model('Settings', settingsSchema);
\ No newline at end of file
@@ -0,0 +1,99 @@
+// backend/routes/certificates.js - Annual interest certificates (on screen, PDF, bulk zip)
+import express from 'express';
+import { query, validationResult } from 'express-validator';
+import Investor from '../models/Investor.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import {
+  CertificateError,
+  buildCertificateArchive,
+  buildCertificatePdf,
+  buildInterestCertificate,
+  certificateFileName
+} from '../services/interestCertificates.js';
+
+const router = express.Router();
+
+// @route   GET /api/certificates/interest
+// @desc    Interest certificate for an investor and financial year (default: the last completed year)
+// @access  Private (investors see only their own)
+router.get('/interest', authenticate, [
+  query('investor').optional().isMongoId().withMessage('Invalid investor ID'),
+  query('financialYear').optional().matches(/^\d{4}(-\d{2})?$/).withMessage('Financial year must look like 2026 or 2026-27'),
+  query('format').optional().isIn(['json', 'pdf']).withMessage('Format must be json or pdf')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+
+  let investorId = req.query.investor;
+  if (req.user.role === 'investor') {
+    const investor = await Investor.findOne({ userId: req.user._id });
+    if (!investor) {
+      return res.status(404).json({ message: 'Investor profile not found' });
+    }
+    investorId = investor._id;
+  } else if (!investorId) {
+    return res.status(400).json({ message: 'Investor is required' });
+  }
+
+  let certificate;
+  try {
+    certificate = await buildInterestCertificate({
+      investorId,
+      financialYear: req.query.financialYear
+    });
+  } catch (error) {
+    if (error instanceof CertificateError) {
+      return res.status(400).json({ message: error.message });
+    }
+    throw error;
+  }
+
+  if (req.query.format === 'pdf') {
+    const content = await buildCertificatePdf(certificate);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename=${certificateFileName(certificate)}`);
+    return res.send(content);
+  }
+
+  res.json({
+    success: true,
+    data: certificate
+  });
+}));
+
+// @route   GET /api/certificates/interest/archive
+// @desc    Zip of every investor's interest certificate for a financial year
+// @access  Private (Admin, Finance Manager)
+router.get('/interest/archive', authenticate, authorize('admin', 'finance_manager'), [
+  query('financialYear').optional().matches(/^\d{4}(-\d{2})?$/).withMessage('Financial year must look like 2026 or 2026-27')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+
+  let archive;
+  try {
+    archive = await buildCertificateArchive({ financialYear: req.query.financialYear });
+  } catch (error) {
+    if (error instanceof CertificateError) {
+      return res.status(400).json({ message: error.message });
+    }
+    throw error;
+  }
+
+  res.setHeader('Content-Type', 'application/zip');
+  res.setHeader('Content-Disposition', `attachment; filename=${archive.fileName}`);
+  res.send(archive.content);
+}));
+
+export default router;
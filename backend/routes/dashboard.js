@@ -673,8 +673,8 @@ async function getSystemAlertsData(params = {}) {
       { $unwind: '$schedule' },
       {
         $match: {
-          'schedule.status': { $in: ['pending', 'overdue'] },
-          'schedule.dueDate': { $lt: now },
+          // Rows are flagged overdue by the nightly sweep (jobs/overdueSweep.js)
+          'schedule.status': 'overdue',
           status: 'active'
         }
       },
@@ -985,8 +985,7 @@ async function getOverdueItemsData() {
       { $unwind: '$schedule' },
       {
         $match: {
-          'schedule.status': { $in: ['pending', 'overdue'] },
-          'schedule.dueDate': { $lt: new Date() },
+          'schedule.status': 'overdue',
           status: 'active'
         }
       },
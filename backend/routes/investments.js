@@ -4,9 +4,35 @@ import { body, validationResult, query } from 'express-validator';
 import Investment from '../models/Investment.js';
 import Investor from '../models/Investor.js';
 import Plan from '../models/Plan.js';
+import Settings from '../models/Settings.js';
+import Payment from '../models/Payment.js';
+import { restructureSchedule, validateRestructure } from '../utils/scheduleRestructure.js';
+import { PREPAYMENT_MODES, calculatePrepayment, validatePrepayment } from '../utils/prepayment.js';
+import { resolveLateFeePolicy, summarizeLateFee } from '../utils/lateFees.js';
 import { authenticate, authorize } from '../middleware/auth.js';
 import { asyncHandler } from '../middleware/errorHandler.js';
+import { runInTransaction } from '../config/database.js';
+import { roundCurrency } from '../../shared/scheduleEngine.js';
+import { addMonths } from '../../shared/interestAccrual.js';
 import { uploadMultiple, handleUploadError } from '../middleware/upload.js';
+import { withholdingForPayment } from '../services/tds.js';
+import { KycError, assertKycVerified } from '../services/kyc.js';
+import {
+  HoldingError,
+  deceasedHolders,
+  holdingInput,
+  loadHolders,
+  validateHolding
+} from '../services/holdings.js';
+import { PrepaymentError, prepaymentLabel, resolveDeathClaim, resolvePrepaymentInput, settlePrepayment } from '../services/prepayments.js';
+import { attachReceipts } from '../services/paymentReceipts.js';
+import { agreementFileName, buildAgreementPdf, buildInvestmentAgreement } from '../services/investmentAgreements.js';
+import { MODES_OF_OPERATION } from '../../shared/holdingRules.js';
+import {
+  postInvestment,
+  refreshInvestorCounters,
+  refreshPlanCounters
+} from '../services/ledger.js';
 
 const router = express.Router();
 
@@ -77,7 +103,8 @@ router.get('/', authenticate, [
   const [investments, total] = await Promise.all([
     Investment.find(query)
       .populate('investor', 'investorId name email phone')
-      .populate('plan', 'planId name paymentType interestType interestRate tenure')
+      .populate('jointHolders.investor', 'investorId name deceased')
+      .populate('plan', 'planId name paymentType interestType interestRate rateBasis tenure')
       .populate('createdBy', 'name email')
       .sort({ createdAt: -1 })
       .skip(skip)
@@ -103,18 +130,19 @@ router.get('/', authenticate, [
 router.get('/:id', authenticate, asyncHandler(async (req, res) => {
   let query = { _id: req.params.id };
 
-  // If user is investor role, ensure they can only see their investments
+  // If user is investor role, ensure they can only see investments they hold
   if (req.user.role === 'investor') {
     const investor = await Investor.findOne({ userId: req.user._id });
     if (investor) {
-      query.investor = investor._id;
+      query.$or = [{ investor: investor._id }, { 'jointHolders.investor': investor._id }];
     } else {
       return res.status(404).json({ message: 'Investment not found' });
     }
   }
 
   const investment = await Investment.findOne(query)
-    .populate('investor', 'investorId name email phone address')
+    .populate('investor', 'investorId name email phone address status deceased')
+    .populate('jointHolders.investor', 'investorId name email phone status deceased')
     .populate('plan')
     .populate('createdBy', 'name email')
     .populate('documents.uploadedBy', 'name email')
@@ -134,6 +162,16 @@ router.get('/:id', authenticate, asyncHandler(async (req, res) => {
   });
 }));
 
+// Shape only; the holding rules themselves are in shared/holdingRules.js
+const holdingValidation = [
+  body('jointHolders').optional().isArray().withMessage('Joint holders must be a list'),
+  body('jointHolders.*.investor').optional().isMongoId().withMessage('Invalid joint holder'),
+  body('modeOfOperation').optional().isIn(MODES_OF_OPERATION).withMessage('Invalid mode of operation'),
+  body('nominees').optional().isArray().withMessage('Nominees must be a list'),
+  body('nominees.*.dateOfBirth').optional().isISO8601().withMessage('Invalid nominee date of birth'),
+  body('nominees.*.sharePercent').optional().isFloat({ min: 0, max: 100 }).withMessage('Nominee share must be between 0 and 100')
+];
+
 // @route   POST /api/investments/calculate
 // @desc    Calculate investment returns with specific plan
 // @access  Private (Admin, Finance Manager)
@@ -163,11 +201,14 @@ router.post('/calculate', authenticate, authorize('admin', 'finance_manager'), [
     });
   }
 
+  const dayCountConvention = plan.getDayCountConvention(await Settings.getDayCountConvention());
+  const invDate = new Date();
+
   // Calculate returns using plan's method
-  const returns = plan.calculateExpectedReturns(principalAmount);
+  const returns = plan.calculateExpectedReturns(principalAmount, invDate, dayCountConvention);
 
   // Generate sample schedule
-  const sampleSchedule = plan.generateSchedule(principalAmount, new Date());
+  const sampleSchedule = plan.generateSchedule(principalAmount, invDate, dayCountConvention);
 
   res.json({
     success: true,
@@ -178,7 +219,9 @@ router.post('/calculate', authenticate, authorize('admin', 'finance_manager'), [
         paymentType: plan.paymentType,
         interestType: plan.interestType,
         interestRate: plan.interestRate,
-        tenure: plan.tenure
+        rateBasis: plan.rateBasis,
+        tenure: plan.tenure,
+        dayCountConvention
       },
       principalAmount,
       calculations: returns,
@@ -195,7 +238,8 @@ router.post('/', authenticate, authorize('admin', 'finance_manager'), [
   body('plan').isMongoId().withMessage('Valid plan ID is required'),
   body('principalAmount').isFloat({ min: 1 }).withMessage('Principal amount must be greater than 0'),
   body('investmentDate').optional().isISO8601().withMessage('Invalid investment date'),
-  body('notes').optional().trim()
+  body('notes').optional().trim(),
+  ...holdingValidation
 ], asyncHandler(async (req, res) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
@@ -223,6 +267,18 @@ router.post('/', authenticate, authorize('admin', 'finance_manager'), [
     return res.status(400).json({ message: 'Cannot create investment for inactive investor' });
   }
 
+  // Joint holders need verified KYC of their own, like the primary holder
+  const holding = holdingInput(req.body);
+  try {
+    await assertKycVerified(investor);
+    await validateHolding(investorId, holding);
+  } catch (error) {
+    if (error instanceof KycError || error instanceof HoldingError) {
+      return res.status(400).json({ message: error.message });
+    }
+    throw error;
+  }
+
   // Verify plan exists and is active
   const plan = await Plan.findById(planId);
   if (!plan) {
@@ -240,27 +296,38 @@ router.post('/', authenticate, authorize('admin', 'finance_manager'), [
     });
   }
 
-  // Calculate expected returns using plan's method
-  const returns = plan.calculateExpectedReturns(principalAmount);
-  
   // Set investment date and maturity
   const invDate = investmentDate ? new Date(investmentDate) : new Date();
-  const maturityDate = new Date(invDate);
-  maturityDate.setMonth(maturityDate.getMonth() + plan.tenure);
+
+  // Accrual convention is fixed at creation so the schedule stays reproducible
+  const dayCountConvention = plan.getDayCountConvention(await Settings.getDayCountConvention());
+
+  // Calculate expected returns using plan's method
+  const returns = plan.calculateExpectedReturns(principalAmount, invDate, dayCountConvention);
+  const maturityDate = addMonths(invDate, plan.tenure);
 
   // Create investment
   const investment = new Investment({
     investor: investorId,
     plan: planId,
+    ...holding,
     principalAmount,
     investmentDate: invDate,
     maturityDate,
     
     // Copy plan details for historical record
     interestRate: plan.interestRate,
+    rateBasis: plan.rateBasis,
     interestType: plan.interestType,
     tenure: plan.tenure,
     paymentType: plan.paymentType,
+    payoutTerms: plan.getPayoutTerms(),
+    dayCountConvention,
+    prematureWithdrawalPenalty: plan.prematureWithdrawalPenalty,
+    lateFeeType: plan.lateFeeType,
+    lateFeeRate: plan.lateFeeRate,
+    allocationOrder: plan.allocationOrder,
+    allocationStrategy: plan.allocationStrategy,
     
     // Calculated values
     totalExpectedReturns: returns.totalReturns,
@@ -274,26 +341,17 @@ router.post('/', authenticate, authorize('admin', 'finance_manager'), [
   investment.schedule = investment.generateSchedule();
   await investment.save();
 
-  // Update investor and plan statistics
+  // Journal the principal received, then rederive investor and plan statistics from the ledger
+  await postInvestment(investment, { postedBy: req.user._id });
   await Promise.all([
-    Investor.findByIdAndUpdate(investorId, {
-      $inc: { 
-        totalInvestment: principalAmount,
-        activeInvestments: 1
-      }
-    }),
-    Plan.findByIdAndUpdate(planId, {
-      $inc: { 
-        totalInvestors: 1,
-        totalInvestment: principalAmount
-      }
-    })
+    refreshInvestorCounters(investorId),
+    refreshPlanCounters(planId)
   ]);
 
   // Populate for response
   await investment.populate([
     { path: 'investor', select: 'investorId name email phone' },
-    { path: 'plan', select: 'planId name paymentType interestType interestRate tenure' },
+    { path: 'plan', select: 'planId name paymentType interestType interestRate rateBasis tenure' },
     { path: 'createdBy', select: 'name email' }
   ]);
 
@@ -346,20 +404,12 @@ router.put('/:id', authenticate, authorize('admin', 'finance_manager'), [
 
   // Update investor statistics if status changed
   if (status && status !== oldStatus) {
-    const investor = await Investor.findById(investment.investor);
-    if (investor) {
-      if (oldStatus === 'active' && status !== 'active') {
-        investor.activeInvestments = Math.max(0, investor.activeInvestments - 1);
-      } else if (oldStatus !== 'active' && status === 'active') {
-        investor.activeInvestments += 1;
-      }
-      await investor.save();
-    }
+    await refreshInvestorCounters(investment.investor);
   }
 
   await investment.populate([
     { path: 'investor', select: 'investorId name email phone' },
-    { path: 'plan', select: 'planId name paymentType interestType interestRate tenure' },
+    { path: 'plan', select: 'planId name paymentType interestType interestRate rateBasis tenure' },
     { path: 'createdBy', select: 'name email' }
   ]);
 
@@ -370,6 +420,98 @@ router.put('/:id', authenticate, authorize('admin', 'finance_manager'), [
   });
 }));
 
+// @route   PUT /api/investments/:id/holding
+// @desc    Change the joint holders, mode of operation and nominees of an active investment
+// @access  Private (Admin, Finance Manager)
+router.put('/:id/holding', authenticate, authorize('admin', 'finance_manager'), [
+  ...holdingValidation,
+  body('reason').optional().trim().isLength({ max: 500 }).withMessage('Reason cannot exceed 500 characters')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ 
+      message: 'Validation failed', 
+      errors: errors.array() 
+    });
+  }
+
+  const investment = await Investment.findById(req.params.id);
+  if (!investment) {
+    return res.status(404).json({ message: 'Investment not found' });
+  }
+
+  if (investment.status !== 'active') {
+    return res.status(400).json({ message: `The holding of a ${investment.status} investment cannot be changed` });
+  }
+
+  // A claim is settled against the holding at the time of death
+  const holders = await loadHolders(investment);
+  if (deceasedHolders(holders).length > 0) {
+    return res.status(400).json({ message: 'A holder is recorded as deceased; settle the claim before changing the holding' });
+  }
+
+  const holding = holdingInput(req.body);
+  try {
+    await validateHolding(investment.investor, holding);
+  } catch (error) {
+    if (error instanceof KycError || error instanceof HoldingError) {
+      return res.status(400).json({ message: error.message });
+    }
+    throw error;
+  }
+
+  const before = {
+    jointHolders: investment.jointHolders.map(holder => holder.investor),
+    modeOfOperation: investment.modeOfOperation,
+    nominees: investment.nominees.map(nominee => `${nominee.name} (${nominee.sharePercent}%)`)
+  };
+  investment.jointHolders = holding.jointHolders;
+  investment.modeOfOperation = holding.modeOfOperation;
+  investment.nominees = holding.nominees;
+  investment.timeline.push({
+    type: 'note_added',
+    description: `Holding updated: ${holding.jointHolders.length} joint holder(s), ${holding.nominees.length} nominee(s)${req.body.reason ? ` - ${req.body.reason}` : ''}`,
+    performedBy: req.user._id,
+    metadata: {
+      before,
+      after: {
+        jointHolders: holding.jointHolders.map(holder => holder.investor),
+        modeOfOperation: holding.modeOfOperation,
+        nominees: holding.nominees.map(nominee => `${nominee.name} (${nominee.sharePercent}%)`)
+      }
+    }
+  });
+  await investment.save();
+
+  await investment.populate([
+    { path: 'investor', select: 'investorId name email phone' },
+    { path: 'jointHolders.investor', select: 'investorId name email phone status deceased' },
+    { path: 'plan', select: 'planId name paymentType interestType interestRate rateBasis tenure' },
+    { path: 'createdBy', select: 'name email' }
+  ]);
+
+  res.json({
+    success: true,
+    message: 'Holding updated successfully',
+    data: investment
+  });
+}));
+
+// @route   GET /api/investments/:id/agreement
+// @desc    Investment agreement PDF naming the holders, mode of operation and nominees
+// @access  Private (Admin, Finance Manager)
+router.get('/:id/agreement', authenticate, authorize('admin', 'finance_manager'), asyncHandler(async (req, res) => {
+  const agreement = await buildInvestmentAgreement(req.params.id);
+  if (!agreement) {
+    return res.status(404).json({ message: 'Investment not found' });
+  }
+
+  const content = await buildAgreementPdf(agreement);
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename=${agreementFileName(agreement)}`);
+  res.send(content);
+}));
+
 // @route   POST /api/investments/:id/documents
 // @desc    Upload documents for investment
 // @access  Private (Admin, Finance Manager)
@@ -641,6 +783,471 @@ router.get('/:id/schedule', authenticate, asyncHandler(async (req, res) => {
   });
 }));
 
+// @route   GET /api/investments/:id/late-fees
+// @desc    Late fees accrued on the schedule as of a date (nothing is saved)
+// @access  Private
+router.get('/:id/late-fees', authenticate, [
+  query('asOf').optional().isISO8601().withMessage('Invalid date format')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ 
+      message: 'Validation failed', 
+      errors: errors.array() 
+    });
+  }
+
+  let query = { _id: req.params.id };
+
+  // If user is investor role, ensure they can only see their investments
+  if (req.user.role === 'investor') {
+    const investor = await Investor.findOne({ userId: req.user._id });
+    if (investor) {
+      query.investor = investor._id;
+    } else {
+      return res.status(404).json({ message: 'Investment not found' });
+    }
+  }
+
+  const investment = await Investment.findOne(query).select('schedule lateFeeType lateFeeRate');
+  if (!investment) {
+    return res.status(404).json({ message: 'Investment not found' });
+  }
+
+  const asOf = req.query.asOf ? new Date(req.query.asOf) : new Date();
+  const policy = resolveLateFeePolicy(investment, await Settings.getLateFeeSettings());
+  const rows = investment.schedule.map(row => summarizeLateFee(row, policy, asOf));
+
+  res.json({
+    success: true,
+    data: {
+      asOf,
+      policy,
+      rows,
+      totalOutstanding: roundCurrency(rows.reduce((sum, row) => sum + row.outstanding, 0))
+    }
+  });
+}));
+
+const restructureValidation = [
+  body('effectiveFromMonth').isInt({ min: 1 }).withMessage('Effective month must be a positive integer'),
+  body('interestRate').optional().isFloat({ min: 0, max: 100 }).withMessage('Interest rate must be between 0 and 100'),
+  body('rateBasis').optional().isIn(['monthly', 'annual_nominal', 'annual_effective']).withMessage('Invalid rate basis'),
+  body('interestType').optional().isIn(['flat', 'reducing']).withMessage('Invalid interest type'),
+  body('tenure').optional().isInt({ min: 1, max: 240 }).withMessage('Tenure must be between 1 and 240 months'),
+  body('moratoriumMonths').optional().isInt({ min: 0, max: 24 }).withMessage('Moratorium must be between 0 and 24 months'),
+  body('holidayMonths').optional().isArray().withMessage('Holiday months must be an array'),
+  body('holidayMonths.*').isInt({ min: 1 }).withMessage('Holiday months must be positive integers').toInt()
+];
+
+const pickRestructureChanges = (body) => ({
+  effectiveFromMonth: parseInt(body.effectiveFromMonth),
+  interestRate: body.interestRate !== undefined ? parseFloat(body.interestRate) : undefined,
+  rateBasis: body.rateBasis,
+  interestType: body.interestType,
+  tenure: body.tenure !== undefined ? parseInt(body.tenure) : undefined,
+  moratoriumMonths: body.moratoriumMonths !== undefined ? parseInt(body.moratoriumMonths) : 0,
+  holidayMonths: body.holidayMonths || []
+});
+
+// @route   POST /api/investments/:id/schedule/preview
+// @desc    Preview a schedule restructure without saving it
+// @access  Private (Admin, Finance Manager)
+router.post('/:id/schedule/preview', authenticate, authorize('admin', 'finance_manager'), restructureValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ 
+      message: 'Validation failed', 
+      errors: errors.array() 
+    });
+  }
+
+  const investment = await Investment.findById(req.params.id);
+  if (!investment) {
+    return res.status(404).json({ message: 'Investment not found' });
+  }
+
+  const changes = pickRestructureChanges(req.body);
+  const restructureError = validateRestructure(investment, changes);
+  if (restructureError) {
+    return res.status(400).json({ message: restructureError });
+  }
+
+  const { schedule, diff } = restructureSchedule(investment, changes);
+
+  res.json({
+    success: true,
+    data: { schedule, diff }
+  });
+}));
+
+// @route   PUT /api/investments/:id/schedule
+// @desc    Request a schedule restructure (rate, tenure, moratorium, holidays, flat to reducing)
+// @access  Private (Admin, Finance Manager)
+router.put('/:id/schedule', authenticate, authorize('admin', 'finance_manager'), [
+  ...restructureValidation,
+  body('reason').trim().notEmpty().withMessage('Reason is required')
+    .isLength({ max: 500 }).withMessage('Reason cannot exceed 500 characters')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ 
+      message: 'Validation failed', 
+      errors: errors.array() 
+    });
+  }
+
+  const investment = await Investment.findById(req.params.id);
+  if (!investment) {
+    return res.status(404).json({ message: 'Investment not found' });
+  }
+
+  if (investment.restructures.some(request => request.status === 'pending')) {
+    return res.status(400).json({ message: 'A restructure request is already awaiting approval' });
+  }
+
+  const changes = pickRestructureChanges(req.body);
+  const restructureError = validateRestructure(investment, changes);
+  if (restructureError) {
+    return res.status(400).json({ message: restructureError });
+  }
+
+  const { diff } = restructureSchedule(investment, changes);
+
+  investment.restructures.push({
+    ...changes,
+    reason: req.body.reason,
+    requestedBy: req.user._id
+  });
+  await investment.save();
+
+  res.status(201).json({
+    success: true,
+    message: 'Restructure request submitted for approval',
+    data: {
+      request: investment.restructures[investment.restructures.length - 1],
+      diff
+    }
+  });
+}));
+
+// @route   GET /api/investments/:id/restructures
+// @desc    Get schedule restructure requests for an investment
+// @access  Private (Admin, Finance Manager)
+router.get('/:id/restructures', authenticate, authorize('admin', 'finance_manager'), asyncHandler(async (req, res) => {
+  const investment = await Investment.findById(req.params.id)
+    .select('investmentId restructures')
+    .populate('restructures.requestedBy', 'name email')
+    .populate('restructures.reviewedBy', 'name email');
+
+  if (!investment) {
+    return res.status(404).json({ message: 'Investment not found' });
+  }
+
+  const restructures = [...investment.restructures].sort((a, b) => new Date(b.requestedAt) - new Date(a.requestedAt));
+
+  res.json({
+    success: true,
+    data: restructures
+  });
+}));
+
+// @route   POST /api/investments/:id/restructures/:requestId/approve
+// @desc    Approve a restructure request and apply it to the schedule
+// @access  Private (Admin)
+router.post('/:id/restructures/:requestId/approve', authenticate, authorize('admin'), asyncHandler(async (req, res) => {
+  const investment = await Investment.findById(req.params.id);
+  if (!investment) {
+    return res.status(404).json({ message: 'Investment not found' });
+  }
+
+  const request = investment.restructures.id(req.params.requestId);
+  if (!request) {
+    return res.status(404).json({ message: 'Restructure request not found' });
+  }
+
+  if (request.status !== 'pending') {
+    return res.status(400).json({ message: `Restructure request has already been ${request.status}` });
+  }
+
+  if (request.requestedBy.equals(req.user._id)) {
+    return res.status(403).json({ message: 'A restructure must be approved by an admin other than the one who requested it' });
+  }
+
+  // Payments may have been recorded since the request was raised
+  const restructureError = validateRestructure(investment, request);
+  if (restructureError) {
+    return res.status(400).json({ message: restructureError });
+  }
+
+  const diff = investment.applyRestructure(request, req.user._id);
+  await investment.save();
+
+  await investment.populate([
+    { path: 'investor', select: 'investorId name email phone' },
+    { path: 'plan', select: 'planId name paymentType interestType interestRate rateBasis tenure' },
+    { path: 'createdBy', select: 'name email' }
+  ]);
+
+  res.json({
+    success: true,
+    message: 'Schedule restructured successfully',
+    data: {
+      investment,
+      diff
+    }
+  });
+}));
+
+// @route   POST /api/investments/:id/restructures/:requestId/reject
+// @desc    Reject a restructure request
+// @access  Private (Admin)
+router.post('/:id/restructures/:requestId/reject', authenticate, authorize('admin'), [
+  body('reviewNotes').optional().trim().isLength({ max: 500 }).withMessage('Notes cannot exceed 500 characters')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ 
+      message: 'Validation failed', 
+      errors: errors.array() 
+    });
+  }
+
+  const investment = await Investment.findById(req.params.id);
+  if (!investment) {
+    return res.status(404).json({ message: 'Investment not found' });
+  }
+
+  const request = investment.restructures.id(req.params.requestId);
+  if (!request) {
+    return res.status(404).json({ message: 'Restructure request not found' });
+  }
+
+  if (request.status !== 'pending') {
+    return res.status(400).json({ message: `Restructure request has already been ${request.status}` });
+  }
+
+  request.status = 'rejected';
+  request.reviewedBy = req.user._id;
+  request.reviewedAt = new Date();
+  request.reviewNotes = req.body.reviewNotes;
+
+  investment.timeline.push({
+    type: 'note_added',
+    description: `Schedule restructure request rejected${req.body.reviewNotes ? `: ${req.body.reviewNotes}` : ''}`,
+    performedBy: req.user._id,
+    metadata: { restructureId: request._id }
+  });
+  await investment.save();
+
+  res.json({
+    success: true,
+    message: 'Restructure request rejected',
+    data: request
+  });
+}));
+
+const prepaymentValidation = [
+  body('foreclose').optional().isBoolean().withMessage('Foreclose must be true or false').toBoolean(),
+  body('amount').if(body('foreclose').not().equals('true')).isFloat({ min: 0.01 }).withMessage('Prepayment amount must be greater than 0'),
+  body('date').optional().isISO8601().withMessage('Invalid prepayment date'),
+  body('mode').optional().isIn(PREPAYMENT_MODES).withMessage('Invalid prepayment mode'),
+  body('waivePenalty').optional().isBoolean().withMessage('Waive penalty must be true or false').toBoolean()
+];
+
+const summarizePrepayment = (settlement, input) => ({
+  foreclose: input.foreclose,
+  mode: input.mode,
+  scheduleMonth: settlement.scheduleMonth,
+  settlementDate: settlement.settlementDate,
+  principal: settlement.principal,
+  interest: settlement.interest,
+  penalty: settlement.penalty,
+  penaltyPercentage: input.penaltyPercentage,
+  netPayout: settlement.netPayout,
+  remainingPrincipal: settlement.remainingPrincipal,
+  terms: settlement.terms,
+  removedRows: settlement.removedRows,
+  addedRows: settlement.addedRows
+});
+
+// @route   POST /api/investments/:id/prepayment/quote
+// @desc    Quote a partial prepayment or premature closure without recording it
+// @access  Private (Admin, Finance Manager)
+router.post('/:id/prepayment/quote', authenticate, authorize('admin', 'finance_manager'), prepaymentValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ 
+      message: 'Validation failed', 
+      errors: errors.array() 
+    });
+  }
+
+  const investment = await Investment.findById(req.params.id);
+  if (!investment) {
+    return res.status(404).json({ message: 'Investment not found' });
+  }
+
+  const holders = await loadHolders(investment);
+  const input = await resolvePrepaymentInput(investment, req.body, holders);
+  const prepaymentError = validatePrepayment(investment, input);
+  if (prepaymentError) {
+    return res.status(400).json({ message: prepaymentError });
+  }
+
+  const settlement = calculatePrepayment(investment, input);
+
+  // Split before TDS, which is only worked out when the closure is recorded
+  let claim;
+  try {
+    claim = resolveDeathClaim(investment, holders, input, settlement.netPayout);
+  } catch (error) {
+    if (error instanceof HoldingError) {
+      return res.status(400).json({ message: error.message });
+    }
+    throw error;
+  }
+
+  res.json({
+    success: true,
+    data: {
+      ...summarizePrepayment(settlement, input),
+      deathClaim: claim,
+      schedule: settlement.schedule
+    }
+  });
+}));
+
+// @route   POST /api/investments/:id/prepayment
+// @desc    Record a partial principal prepayment or premature closure
+// @access  Private (Admin, Finance Manager)
+router.post('/:id/prepayment', authenticate, authorize('admin', 'finance_manager'), [
+  ...prepaymentValidation,
+  body('paymentMethod').isIn(['cash', 'cheque', 'bank_transfer', 'upi', 'card', 'other']).withMessage('Invalid payment method'),
+  body('referenceNumber').optional().trim(),
+  body('notes').optional().trim().isLength({ max: 500 }).withMessage('Notes cannot exceed 500 characters')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ 
+      message: 'Validation failed', 
+      errors: errors.array() 
+    });
+  }
+
+  const investment = await Investment.findById(req.params.id);
+  if (!investment) {
+    return res.status(404).json({ message: 'Investment not found' });
+  }
+
+  const holders = await loadHolders(investment);
+  const input = await resolvePrepaymentInput(investment, req.body, holders);
+  const prepaymentError = validatePrepayment(investment, input);
+  if (prepaymentError) {
+    return res.status(400).json({ message: prepaymentError });
+  }
+
+  const settlement = calculatePrepayment(investment, input);
+  const { paymentMethod, referenceNumber, notes } = req.body;
+  // Checked before anything is recorded; split again once TDS is known
+  try {
+    resolveDeathClaim(investment, holders, input, settlement.netPayout);
+  } catch (error) {
+    if (error instanceof HoldingError) {
+      return res.status(400).json({ message: error.message });
+    }
+    throw error;
+  }
+
+  const pendingPrepayment = await Payment.exists({
+    investment: investment._id,
+    awaitingVerification: true,
+    prepayment: { $ne: null }
+  });
+  if (pendingPrepayment) {
+    return res.status(409).json({ message: 'A prepayment on this investment is already awaiting verification' });
+  }
+
+  // Settlement is paid out as principal plus interest to date; the penalty is recorded separately
+  const settlementAmount = roundCurrency(settlement.principal + settlement.interest);
+  const verificationRules = await Settings.getVerificationRules();
+  const awaitingVerification = verificationRules.makerCheckerEnabled &&
+    settlementAmount > verificationRules.verificationThreshold;
+
+  const withholding = await withholdingForPayment({
+    investor: investment.investor,
+    interestAmount: settlement.interest,
+    paymentDate: settlement.settlementDate,
+    amount: settlementAmount
+  });
+  const claim = resolveDeathClaim(investment, holders, input, roundCurrency(settlementAmount - (withholding.tdsAmount || 0)));
+  const label = prepaymentLabel(input, claim);
+  const paymentFields = {
+    investment: investment._id,
+    investor: investment.investor,
+    scheduleMonth: settlement.scheduleMonth,
+    amount: settlementAmount,
+    paymentDate: settlement.settlementDate,
+    paymentMethod,
+    referenceNumber,
+    type: 'principal',
+    status: awaitingVerification ? 'pending' : 'completed',
+    awaitingVerification,
+    interestAmount: settlement.interest,
+    principalAmount: settlement.principal,
+    ...withholding,
+    prepayment: input,
+    // A death claim's payees can push the notes past the 500 character limit
+    notes: (notes ? `${label}: ${notes}` : label).slice(0, 500),
+    processedBy: req.user._id
+  };
+
+  // Under maker-checker the schedule is re-cut and the penalty charged once a second user approves
+  let payments;
+  if (awaitingVerification) {
+    payments = [await Payment.create(paymentFields)];
+  } else {
+    // Recorded and settled together, so a settlement refused now leaves no payment behind
+    try {
+      await runInTransaction('Settling a prepayment', async (session) => {
+        investment.$session(session);
+        const [payment] = await Payment.create([paymentFields], { session });
+        const result = await settlePrepayment(payment, investment, holders, req.user._id);
+        if (result.status) {
+          throw new PrepaymentError(result.message, result.status);
+        }
+        ({ payments } = result);
+      });
+    } catch (error) {
+      if (error instanceof PrepaymentError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      throw error;
+    } finally {
+      investment.$session(null);
+    }
+    await attachReceipts(payments.map(payment => payment._id), req.user._id);
+  }
+
+  await investment.populate([
+    { path: 'investor', select: 'investorId name email phone' },
+    { path: 'plan', select: 'planId name paymentType interestType interestRate rateBasis tenure' },
+    { path: 'createdBy', select: 'name email' }
+  ]);
+
+  res.status(201).json({
+    success: true,
+    message: awaitingVerification
+      ? `${input.foreclose ? 'Closure' : 'Prepayment'} recorded and awaiting verification`
+      : input.foreclose ? 'Investment closed successfully' : 'Prepayment recorded successfully',
+    data: {
+      investment,
+      settlement: summarizePrepayment(settlement, input),
+      payments
+    }
+  });
+}));
+
 // @route   GET /api/investments/stats/overview
 // @desc    Get investments overview stats
 // @access  Private (Admin, Finance Manager)
@@ -747,6 +1354,7 @@ router.get('/due/upcoming', authenticate, authorize('admin', 'finance_manager'),
         investmentId: 1,
         investor: { $arrayElemAt: ['$investorInfo', 0] },
         plan: { $arrayElemAt: ['$planInfo', 0] },
+        period: '$schedule.period',
         month: '$schedule.month',
         dueDate: '$schedule.dueDate',
         totalAmount: '$schedule.totalAmount',
@@ -772,6 +1380,7 @@ router.get('/due/upcoming', authenticate, authorize('admin', 'finance_manager'),
         id: payment.plan._id,
         name: payment.plan.name
       },
+      period: payment.period,
       month: payment.month,
       dueDate: payment.dueDate,
       totalAmount: payment.totalAmount,
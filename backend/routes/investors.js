@@ -1,6 +1,6 @@
 // backend/routes/investors.js - Enhanced with User Account Creation
 import express from 'express';
-import { body, validationResult, query } from 'express-validator';
+import { body, param, validationResult, query } from 'express-validator';
 import Investor from '../models/Investor.js';
 import User from '../models/User.js';
 import Investment from '../models/Investment.js';
@@ -9,9 +9,103 @@ import { authenticate, authorize } from '../middleware/auth.js';
 import { asyncHandler } from '../middleware/errorHandler.js';
 import { uploadMultiple, handleUploadError } from '../middleware/upload.js';
 import emailService from '../services/emailService.js';
+import {
+  panError,
+  aadhaarError,
+  ifscError,
+  bankAccountError,
+  pincodeError,
+  stateForPincode
+} from '../../shared/identityValidation.js';
+import { dropMaskedValues } from '../utils/masking.js';
+import { reopenKyc } from '../services/kyc.js';
+import {
+  findDuplicates,
+  duplicateGroups,
+  mergeInvestors,
+  InvestorMergeError
+} from '../services/investorDuplicates.js';
 
 const router = express.Router();
 
+// Wraps a shared identity check (returns a message or null) as an express-validator custom check
+const identityCheck = (check) => (value, { req }) => {
+  const error = check(value, req);
+  if (error) throw new Error(error);
+  return true;
+};
+
+// Fields PUT /api/investors/:id copies from the request; identity and bank details are handled apart
+const EDITABLE_FIELDS = [
+  'name',
+  'email',
+  'phone',
+  'address',
+  'status',
+  'riskProfile',
+  'investmentExperience',
+  'preferredContactMethod',
+  'notes',
+  'tags',
+  'lastContactDate',
+  'nextFollowUpDate'
+];
+
+// Details a KYC review vouches for; changing any of them reopens a verified KYC
+const REVIEWED_FIELD_LABELS = {
+  panNumber: 'PAN',
+  aadharNumber: 'Aadhaar',
+  accountNumber: 'bank account number',
+  ifscCode: 'IFSC'
+};
+
+// Checks the identity numbers an update changes, against the name the investor will end up with.
+// Unchanged values are left alone so records created before these checks stay editable.
+const identityUpdateError = (investor, body) => {
+  const kyc = body.kyc || {};
+  const nameChanged = body.name !== undefined && body.name !== investor.name;
+  if (kyc.panNumber !== undefined && (kyc.panNumber !== investor.kyc.panNumber || nameChanged)) {
+    const error = panError(kyc.panNumber, body.name || investor.name);
+    if (error) return error;
+  }
+  if (kyc.aadharNumber !== undefined && kyc.aadharNumber !== investor.kyc.aadharNumber) {
+    const error = aadhaarError(kyc.aadharNumber);
+    if (error) return error;
+  }
+  const bank = kyc.bankDetails || {};
+  if (bank.accountNumber !== undefined && bank.accountNumber !== investor.kyc.bankDetails?.accountNumber) {
+    const error = bankAccountError(bank.accountNumber);
+    if (error) return error;
+  }
+  if (bank.ifscCode !== undefined && bank.ifscCode !== investor.kyc.bankDetails?.ifscCode) {
+    const error = ifscError(bank.ifscCode);
+    if (error) return error;
+  }
+  return pincodeError(body.address?.pincode);
+};
+
+// Fills a blank address state from the pincode
+const withPincodeState = (address) => {
+  if (!address || address.state || !address.pincode) return address;
+  const state = stateForPincode(address.pincode);
+  return state ? { ...address, state } : address;
+};
+
+// 409 body when a save would duplicate other investors, or null to go ahead. Exact matches
+// always block; likely ones (similar name and phone) pass once the user confirms them.
+const duplicateConflict = (duplicates, confirmed) => {
+  if (duplicates.length === 0) return null;
+  const blocking = duplicates.some(duplicate => duplicate.blocking);
+  if (!blocking && confirmed) return null;
+  return {
+    message: blocking
+      ? 'Another investor already has this PAN, Aadhaar number or email'
+      : 'This investor may already exist',
+    duplicates,
+    canConfirm: !blocking
+  };
+};
+
 // @route   GET /api/investors
 // @desc    Get all investors with pagination and search
 // @access  Private (Admin, Finance Manager)
@@ -19,7 +113,7 @@ router.get('/', authenticate, authorize('admin', 'finance_manager'), [
   query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
   query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
   query('search').optional().trim(),
-  query('status').optional().isIn(['active', 'inactive', 'blocked'])
+  query('status').optional().isIn(['active', 'inactive', 'blocked', 'merged'])
 ], asyncHandler(async (req, res) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
@@ -73,6 +167,18 @@ router.get('/', authenticate, authorize('admin', 'finance_manager'), [
   });
 }));
 
+// @route   GET /api/investors/duplicates
+// @desc    Possible duplicates report: groups of investors that look like the same person
+// @access  Private (Admin, Finance Manager)
+router.get('/duplicates', authenticate, authorize('admin', 'finance_manager'), asyncHandler(async (req, res) => {
+  const groups = await duplicateGroups();
+
+  res.json({
+    success: true,
+    data: groups
+  });
+}));
+
 // @route   GET /api/investors/:id
 // @desc    Get single investor
 // @access  Private (Admin, Finance Manager)
@@ -85,10 +191,15 @@ router.get('/:id', authenticate, authorize('admin', 'finance_manager'), asyncHan
     return res.status(404).json({ message: 'Investor not found' });
   }
 
-  // Get investments and payments summary
-  const [investments, totalPayments] = await Promise.all([
+  // Get investments (own and held jointly) and payments summary
+  const [investments, jointHoldings, totalPayments] = await Promise.all([
     Investment.find({ investor: investor._id })
       .populate('plan', 'name interestRate')
+      .populate('jointHolders.investor', 'investorId name status deceased')
+      .sort({ createdAt: -1 }),
+    Investment.find({ 'jointHolders.investor': investor._id })
+      .select('investmentId investor principalAmount status modeOfOperation investmentDate maturityDate')
+      .populate('investor', 'investorId name')
       .sort({ createdAt: -1 }),
     Payment.aggregate([
       { $match: { investor: investor._id } },
@@ -107,8 +218,9 @@ router.get('/:id', authenticate, authorize('admin', 'finance_manager'), asyncHan
   res.json({
     success: true,
     data: {
-      ...investor.toObject(),
+      ...investor.toJSON(),
       investments,
+      jointHoldings,
       paymentSummary: totalPayments[0] || {
         totalAmount: 0,
         totalInterest: 0,
@@ -129,11 +241,11 @@ router.post('/', authenticate, authorize('admin', 'finance_manager'), [
   body('address.street').optional().trim(),
   body('address.city').optional().trim(),
   body('address.state').optional().trim(),
-  body('address.pincode').optional().matches(/^\d{6}$/).withMessage('Please enter a valid 6-digit pincode'),
-  body('kyc.panNumber').matches(/^[A-Z]{5}[0-9]{4}[A-Z]{1}$/).withMessage('Please enter a valid PAN number'),
-  body('kyc.aadharNumber').matches(/^\d{12}$/).withMessage('Please enter a valid 12-digit Aadhar number'),
-  body('kyc.bankDetails.accountNumber').notEmpty().withMessage('Account number is required'),
-  body('kyc.bankDetails.ifscCode').matches(/^[A-Z]{4}0[A-Z0-9]{6}$/).withMessage('Please enter a valid IFSC code'),
+  body('address.pincode').optional().trim().custom(identityCheck(pincodeError)),
+  body('kyc.panNumber').trim().toUpperCase().custom(identityCheck((value, req) => panError(value, req.body.name))),
+  body('kyc.aadharNumber').trim().custom(identityCheck(aadhaarError)),
+  body('kyc.bankDetails.accountNumber').trim().custom(identityCheck(bankAccountError)),
+  body('kyc.bankDetails.ifscCode').trim().toUpperCase().custom(identityCheck(ifscError)),
   body('kyc.bankDetails.bankName').notEmpty().withMessage('Bank name is required'),
   body('kyc.bankDetails.branchName').notEmpty().withMessage('Branch name is required'),
   // NEW: User account creation validation
@@ -146,7 +258,8 @@ router.post('/', authenticate, authorize('admin', 'finance_manager'), [
     return true;
   }),
   body('userAccountDetails.sendCredentials').optional().isBoolean(),
-  body('userAccountDetails.temporaryPassword').optional().isBoolean()
+  body('userAccountDetails.temporaryPassword').optional().isBoolean(),
+  body('confirmDuplicates').optional().isBoolean()
 ], asyncHandler(async (req, res) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
@@ -163,22 +276,21 @@ router.post('/', authenticate, authorize('admin', 'finance_manager'), [
     address, 
     kyc, 
     createUserAccount, 
-    userAccountDetails 
+    userAccountDetails,
+    confirmDuplicates
   } = req.body;
 
   // Check if investor already exists
-  const existingInvestor = await Investor.findOne({
-    $or: [
-      { email },
-      { 'kyc.panNumber': kyc.panNumber },
-      { 'kyc.aadharNumber': kyc.aadharNumber }
-    ]
+  const duplicates = await findDuplicates({
+    name,
+    email,
+    phone,
+    panNumber: kyc.panNumber,
+    aadharNumber: kyc.aadharNumber
   });
-
-  if (existingInvestor) {
-    return res.status(400).json({ 
-      message: 'Investor already exists with this email, PAN, or Aadhar number' 
-    });
+  const conflict = duplicateConflict(duplicates, confirmDuplicates);
+  if (conflict) {
+    return res.status(409).json(conflict);
   }
 
   // Check if user with email already exists (if creating user account)
@@ -230,8 +342,13 @@ router.post('/', authenticate, authorize('admin', 'finance_manager'), [
       name,
       email,
       phone,
-      address,
-      kyc,
+      address: withPincodeState(address),
+      // New investors start KYC at pending; verification goes through /api/kyc
+      kyc: {
+        panNumber: kyc.panNumber,
+        aadharNumber: kyc.aadharNumber,
+        bankDetails: kyc.bankDetails
+      },
       userId, // Link to user account if created
       createdBy: req.user._id
     });
@@ -282,7 +399,8 @@ router.put('/:id', authenticate, authorize('admin', 'finance_manager'), [
   body('name').optional().trim().notEmpty().withMessage('Name cannot be empty'),
   body('email').optional().isEmail().normalizeEmail().withMessage('Please enter a valid email'),
   body('phone').optional().matches(/^[6-9]\d{9}$/).withMessage('Please enter a valid 10-digit phone number'),
-  body('status').optional().isIn(['active', 'inactive', 'blocked'])
+  body('status').optional().isIn(['active', 'inactive', 'blocked']),
+  body('confirmDuplicates').optional().isBoolean()
 ], asyncHandler(async (req, res) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
@@ -297,30 +415,31 @@ router.put('/:id', authenticate, authorize('admin', 'finance_manager'), [
     return res.status(404).json({ message: 'Investor not found' });
   }
 
-  // Check for conflicts if email, PAN, or Aadhar is being updated
-  const { email, kyc } = req.body;
-  if (email || kyc) {
-    const conflicts = {};
-    if (email && email !== investor.email) conflicts.email = email;
-    if (kyc?.panNumber && kyc.panNumber !== investor.kyc.panNumber) {
-      conflicts['kyc.panNumber'] = kyc.panNumber;
-    }
-    if (kyc?.aadharNumber && kyc.aadharNumber !== investor.kyc.aadharNumber) {
-      conflicts['kyc.aadharNumber'] = kyc.aadharNumber;
-    }
+  if (investor.status === 'merged') {
+    return res.status(400).json({ message: 'This investor has been merged into another record and cannot be edited' });
+  }
 
-    if (Object.keys(conflicts).length > 0) {
-      const existingInvestor = await Investor.findOne({
-        _id: { $ne: investor._id },
-        $or: Object.entries(conflicts).map(([key, value]) => ({ [key]: value }))
-      });
+  req.body.kyc = dropMaskedValues(req.body.kyc, investor.kyc);
+  const identityError = identityUpdateError(investor, req.body);
+  if (identityError) {
+    return res.status(400).json({ message: identityError });
+  }
 
-      if (existingInvestor) {
-        return res.status(400).json({ 
-          message: 'Another investor already exists with this email, PAN, or Aadhar number' 
-        });
-      }
-    }
+  // Check for duplicates on the identifiers being changed; a changed name or phone
+  // is checked against other investors with the same phone
+  const { email, kyc } = req.body;
+  const changed = (value, saved) => value !== undefined && value !== saved;
+  const nameOrPhoneChanged = changed(req.body.name, investor.name) || changed(req.body.phone, investor.phone);
+  const duplicates = await findDuplicates({
+    name: req.body.name || investor.name,
+    phone: nameOrPhoneChanged ? (req.body.phone || investor.phone) : undefined,
+    email: changed(email, investor.email) ? email : undefined,
+    panNumber: changed(kyc?.panNumber, investor.kyc.panNumber) ? kyc.panNumber : undefined,
+    aadharNumber: changed(kyc?.aadharNumber, investor.kyc.aadharNumber) ? kyc.aadharNumber : undefined
+  }, { excludeId: investor._id });
+  const conflict = duplicateConflict(duplicates, req.body.confirmDuplicates);
+  if (conflict) {
+    return res.status(409).json(conflict);
   }
 
   // Update linked user account if exists and email is being changed
@@ -347,14 +466,46 @@ router.put('/:id', authenticate, authorize('admin', 'finance_manager'), [
     }
   }
 
-  // Update investor
-  Object.assign(investor, req.body);
+  // Only identity and bank details are edited here; documents and verification go through /api/kyc.
+  // confirmDuplicates is a request flag, not a field.
+  const { kyc: kycUpdate, confirmDuplicates, ...updates } = req.body;
+  const reviewedChanges = [];
+  if (kycUpdate) {
+    ['panNumber', 'aadharNumber'].forEach(field => {
+      if (kycUpdate[field] !== undefined) {
+        if (changed(kycUpdate[field], investor.kyc[field])) reviewedChanges.push(REVIEWED_FIELD_LABELS[field]);
+        investor.kyc[field] = kycUpdate[field];
+      }
+    });
+    // Field by field, so an account number left masked in the form is kept
+    ['accountNumber', 'ifscCode', 'bankName', 'branchName'].forEach(field => {
+      if (kycUpdate.bankDetails?.[field] !== undefined) {
+        if (REVIEWED_FIELD_LABELS[field] && changed(kycUpdate.bankDetails[field], investor.kyc.bankDetails[field])) {
+          reviewedChanges.push(REVIEWED_FIELD_LABELS[field]);
+        }
+        investor.kyc.bankDetails[field] = kycUpdate.bankDetails[field];
+      }
+    });
+  }
+  // New identifiers or a new payout account have not been reviewed
+  const kycReopened = reviewedChanges.length > 0 &&
+    reopenKyc(investor, { changedFields: reviewedChanges, performedBy: req.user._id });
+
+  if (updates.address) updates.address = withPincodeState(updates.address);
+
+  // Update investor; audit trails, tax exemptions, death and merge records and the totals
+  // have endpoints (or jobs) of their own and are never taken from this body
+  EDITABLE_FIELDS.forEach(field => {
+    if (updates[field] !== undefined) investor[field] = updates[field];
+  });
   await investor.save();
   await investor.populate('createdBy', 'name email');
 
   res.json({
     success: true,
-    message: 'Investor updated successfully',
+    message: kycReopened
+      ? `Investor updated; KYC is pending review again after the change to ${reviewedChanges.join(', ')}`
+      : 'Investor updated successfully',
     data: investor
   });
 }));
@@ -687,4 +838,201 @@ router.get('/stats/overview', authenticate, authorize('admin', 'finance_manager'
   });
 }));
 
+// @route   POST /api/investors/:id/merge
+// @desc    Merge a duplicate investor (sourceId) into this one; the duplicate is kept, marked merged
+// @access  Private (Admin only)
+router.post('/:id/merge', authenticate, authorize('admin'), [
+  param('id').isMongoId().withMessage('Invalid investor ID'),
+  body('sourceId').isMongoId().withMessage('Choose the investor to merge'),
+  body('reason').trim().notEmpty().withMessage('Reason is required').isLength({ max: 500 }).withMessage('Reason cannot exceed 500 characters')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+
+  const [survivor, source] = await Promise.all([
+    Investor.exists({ _id: req.params.id }),
+    Investor.exists({ _id: req.body.sourceId })
+  ]);
+  if (!survivor || !source) {
+    return res.status(404).json({ message: 'Investor not found' });
+  }
+
+  try {
+    const result = await mergeInvestors(req.params.id, req.body.sourceId, {
+      reason: req.body.reason,
+      performedBy: req.user._id
+    });
+    const investor = await Investor.findById(req.params.id);
+
+    res.json({
+      success: true,
+      message: `${result.sourceInvestorId} merged into ${investor.investorId}`,
+      data: {
+        investor,
+        moved: result.moved
+      }
+    });
+  } catch (error) {
+    if (error instanceof InvestorMergeError) {
+      return res.status(400).json({ message: error.message });
+    }
+    throw error;
+  }
+}));
+
+// @route   POST /api/investors/:id/death
+// @desc    Record an investor's death: the record and login are deactivated and each active
+//          investment they hold is flagged for closure to the surviving holders or nominees
+// @access  Private (Admin only)
+router.post('/:id/death', authenticate, authorize('admin'), [
+  param('id').isMongoId().withMessage('Invalid investor ID'),
+  body('dateOfDeath').isISO8601().withMessage('Valid date of death is required')
+    .custom(value => new Date(value) <= new Date()).withMessage('Date of death cannot be in the future'),
+  body('reference').trim().notEmpty().withMessage('Death certificate reference is required').isLength({ max: 200 }).withMessage('Reference cannot exceed 200 characters')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+
+  const investor = await Investor.findById(req.params.id).select('investorId name status userId deceased');
+  if (!investor) {
+    return res.status(404).json({ message: 'Investor not found' });
+  }
+  if (investor.status === 'merged') {
+    return res.status(400).json({ message: 'Record the death on the investor this one was merged into' });
+  }
+  if (investor.deceased?.dateOfDeath) {
+    return res.status(400).json({ message: `${investor.name}'s death is already recorded` });
+  }
+
+  const dateOfDeath = new Date(req.body.dateOfDeath);
+  await Investor.updateOne({ _id: investor._id }, {
+    $set: {
+      status: 'inactive',
+      deceased: {
+        dateOfDeath,
+        reference: req.body.reference,
+        recordedBy: req.user._id,
+        recordedAt: new Date()
+      }
+    }
+  });
+  if (investor.userId) {
+    await User.updateOne({ _id: investor.userId }, { isActive: false });
+  }
+
+  const holdingQuery = {
+    status: 'active',
+    $or: [{ investor: investor._id }, { 'jointHolders.investor': investor._id }]
+  };
+  const flagged = await Investment.updateMany(holdingQuery, {
+    $push: {
+      timeline: {
+        type: 'note_added',
+        description: `Death of holder ${investor.name} (${investor.investorId}) recorded, dated ${dateOfDeath.toISOString().slice(0, 10)}`,
+        performedBy: req.user._id,
+        metadata: { deceased: investor._id, reference: req.body.reference }
+      }
+    }
+  });
+
+  res.json({
+    success: true,
+    message: `Death of ${investor.name} recorded`,
+    data: {
+      investor: await Investor.findById(investor._id),
+      investmentsFlagged: flagged.modifiedCount
+    }
+  });
+}));
+
+const REVEAL_FIELDS = {
+  panNumber: kyc => kyc.panNumber,
+  aadharNumber: kyc => kyc.aadharNumber,
+  accountNumber: kyc => kyc.bankDetails?.accountNumber
+};
+
+// @route   POST /api/investors/:id/reveal
+// @desc    Reveal a masked PAN, Aadhaar or account number; every reveal is logged with its reason
+// @access  Private (Admin only)
+router.post('/:id/reveal', authenticate, authorize('admin'), [
+  param('id').isMongoId().withMessage('Invalid investor ID'),
+  body('field').isIn(Object.keys(REVEAL_FIELDS)).withMessage(`Field must be one of: ${Object.keys(REVEAL_FIELDS).join(', ')}`),
+  body('reason').trim().notEmpty().withMessage('Reason is required').isLength({ max: 200 }).withMessage('Reason cannot exceed 200 characters')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+
+  const investor = await Investor.findById(req.params.id).select('kyc.panNumber kyc.aadharNumber kyc.bankDetails');
+  if (!investor) {
+    return res.status(404).json({ message: 'Investor not found' });
+  }
+
+  const value = REVEAL_FIELDS[req.body.field](investor.kyc);
+  if (!value) {
+    return res.status(400).json({ message: 'Nothing on record to reveal' });
+  }
+
+  // Pushed directly so a reveal never fails on validation of older records
+  await Investor.updateOne({ _id: investor._id }, {
+    $push: {
+      sensitiveAccessLog: {
+        field: req.body.field,
+        reason: req.body.reason,
+        performedBy: req.user._id,
+        performedAt: new Date()
+      }
+    }
+  });
+
+  res.json({
+    success: true,
+    data: {
+      field: req.body.field,
+      value
+    }
+  });
+}));
+
+// @route   GET /api/investors/:id/access-log
+// @desc    Reveals of the investor's masked identifiers, newest first
+// @access  Private (Admin only)
+router.get('/:id/access-log', authenticate, authorize('admin'), [
+  param('id').isMongoId().withMessage('Invalid investor ID')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+
+  const investor = await Investor.findById(req.params.id)
+    .select('sensitiveAccessLog')
+    .populate('sensitiveAccessLog.performedBy', 'name email');
+  if (!investor) {
+    return res.status(404).json({ message: 'Investor not found' });
+  }
+
+  res.json({
+    success: true,
+    data: [...investor.sensitiveAccessLog].reverse()
+  });
+}));
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,93 @@
+// backend/routes/jobs.js - Background job status, run history and manual triggers
+import express from 'express';
+import { query, validationResult } from 'express-validator';
+import JobRun from '../models/JobRun.js';
+import jobRunner from '../services/jobRunner.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+
+const router = express.Router();
+
+// @route   GET /api/jobs
+// @desc    List registered jobs with their next run and latest run
+// @access  Private (Admin only)
+router.get('/', authenticate, authorize('admin'), asyncHandler(async (req, res) => {
+  const jobs = await Promise.all(jobRunner.list().map(async (job) => ({
+    ...job,
+    lastRun: await JobRun.findOne({ job: job.name })
+      .sort({ startedAt: -1 })
+      .populate('triggeredBy', 'name email')
+  })));
+
+  res.json({
+    success: true,
+    data: jobs
+  });
+}));
+
+// @route   GET /api/jobs/runs
+// @desc    Job run history
+// @access  Private (Admin only)
+router.get('/runs', authenticate, authorize('admin'), [
+  query('job').optional().trim(),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ 
+      message: 'Validation failed', 
+      errors: errors.array() 
+    });
+  }
+
+  const page = parseInt(req.query.page) || 1;
+  const limit = parseInt(req.query.limit) || 20;
+  const skip = (page - 1) * limit;
+  const filter = req.query.job ? { job: req.query.job } : {};
+
+  const [runs, total] = await Promise.all([
+    JobRun.find(filter)
+      .populate('triggeredBy', 'name email')
+      .sort({ startedAt: -1 })
+      .skip(skip)
+      .limit(limit),
+    JobRun.countDocuments(filter)
+  ]);
+
+  res.json({
+    success: true,
+    data: runs,
+    pagination: {
+      current: page,
+      pages: Math.ceil(total / limit),
+      total,
+      limit
+    }
+  });
+}));
+
+// @route   POST /api/jobs/:name/run
+// @desc    Run a job immediately
+// @access  Private (Admin only)
+router.post('/:name/run', authenticate, authorize('admin'), asyncHandler(async (req, res) => {
+  const job = jobRunner.list().find(item => item.name === req.params.name);
+  if (!job) {
+    return res.status(404).json({ message: 'Job not found' });
+  }
+
+  if (jobRunner.isRunning(job.name)) {
+    return res.status(409).json({ message: `Job ${job.name} is already running` });
+  }
+
+  const run = await jobRunner.run(job.name, { trigger: 'manual', triggeredBy: req.user._id });
+  await run.populate('triggeredBy', 'name email');
+
+  res.json({
+    success: run.status === 'succeeded',
+    message: run.status === 'succeeded' ? 'Job completed successfully' : `Job failed: ${run.error}`,
+    data: run
+  });
+}));
+
+export default router;
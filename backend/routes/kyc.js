@@ -0,0 +1,350 @@
+// backend/routes/kyc.js - KYC review: checklist uploads, reviewer queue, approve/reject decisions
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import Investor from '../models/Investor.js';
+import Settings from '../models/Settings.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { uploadSingle, handleUploadError, cleanupUploadedFiles } from '../middleware/upload.js';
+import {
+  KycError,
+  addKycDocument,
+  approveKyc,
+  buildChecklist,
+  findKycFile,
+  rejectKyc,
+  submitKyc
+} from '../services/kyc.js';
+import { maskKycIdentity } from '../utils/masking.js';
+
+const router = express.Router();
+
+const QUEUE_STAGES = ['review', 'documents', 'rejected', 'expiring', 'expired', 'verified'];
+
+// Days ahead the "expiring" stage looks for re-KYC dates
+const EXPIRING_WITHIN_DAYS = 30;
+
+const stageQuery = (stage, now = new Date()) => {
+  switch (stage) {
+    case 'documents':
+      return { 'kyc.verificationStatus': 'pending', 'kyc.submittedAt': null };
+    case 'rejected':
+      return { 'kyc.verificationStatus': 'rejected' };
+    case 'expiring': {
+      const until = new Date(now);
+      until.setDate(until.getDate() + EXPIRING_WITHIN_DAYS);
+      return { 'kyc.verificationStatus': 'verified', 'kyc.expiresAt': { $gt: now, $lte: until } };
+    }
+    case 'expired':
+      return { 'kyc.verificationStatus': 'expired' };
+    case 'verified':
+      return { 'kyc.verificationStatus': 'verified' };
+    default:
+      return { 'kyc.verificationStatus': 'pending', 'kyc.submittedAt': { $ne: null } };
+  }
+};
+
+// Oldest submissions are reviewed first; re-KYC dates soonest first
+const STAGE_SORT = {
+  review: { 'kyc.submittedAt': 1 },
+  expiring: { 'kyc.expiresAt': 1 },
+  expired: { 'kyc.expiresAt': 1 }
+};
+
+// Upload metadata without the server path
+const fileView = (file) => file && {
+  _id: file._id,
+  type: file.type,
+  originalName: file.originalName,
+  fileSize: file.fileSize,
+  mimeType: file.mimeType,
+  cycle: file.cycle,
+  uploadedAt: file.uploadedAt
+};
+
+const kycView = async (investor) => {
+  const { requiredDocuments } = await Settings.getKycSettings();
+  const kyc = investor.kyc;
+  return {
+    investor: {
+      _id: investor._id,
+      investorId: investor.investorId,
+      name: investor.name,
+      email: investor.email,
+      phone: investor.phone,
+      ...maskKycIdentity(kyc)
+    },
+    verificationStatus: kyc.verificationStatus,
+    cycle: kyc.cycle,
+    submittedAt: kyc.submittedAt,
+    verifiedAt: kyc.verifiedAt,
+    verifiedBy: kyc.verifiedBy,
+    expiresAt: kyc.expiresAt,
+    rejectionReason: kyc.rejectionReason,
+    checklist: buildChecklist(kyc, requiredDocuments).map(item => ({ ...item, file: fileView(item.file) })),
+    files: kyc.files.map(fileView).reverse(),
+    reviewHistory: [...kyc.reviewHistory].reverse()
+  };
+};
+
+const loadInvestor = (id) => Investor.findById(id)
+  .populate('kyc.verifiedBy', 'name email')
+  .populate('kyc.reviewHistory.performedBy', 'name email');
+
+// @route   GET /api/kyc/queue
+// @desc    Investors at a KYC stage (default: submitted and awaiting review)
+// @access  Private (Admin, Finance Manager)
+router.get('/queue', authenticate, authorize('admin', 'finance_manager'), [
+  query('stage').optional().isIn(QUEUE_STAGES).withMessage(`Stage must be one of: ${QUEUE_STAGES.join(', ')}`),
+  query('search').optional().trim(),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+
+  const stage = req.query.stage || 'review';
+  const page = parseInt(req.query.page) || 1;
+  const limit = parseInt(req.query.limit) || 20;
+  const skip = (page - 1) * limit;
+
+  // Merged duplicates are only kept for history
+  const filter = { ...stageQuery(stage), status: { $ne: 'merged' } };
+  if (req.query.search) {
+    filter.$or = [
+      { name: { $regex: req.query.search, $options: 'i' } },
+      { email: { $regex: req.query.search, $options: 'i' } },
+      { investorId: { $regex: req.query.search, $options: 'i' } }
+    ];
+  }
+
+  const [investors, total, { requiredDocuments }] = await Promise.all([
+    Investor.find(filter)
+      .select('investorId name email phone kyc.verificationStatus kyc.cycle kyc.submittedAt kyc.verifiedAt kyc.expiresAt kyc.rejectionReason kyc.files.type')
+      .sort(STAGE_SORT[stage] || { createdAt: -1 })
+      .skip(skip)
+      .limit(limit),
+    Investor.countDocuments(filter),
+    Settings.getKycSettings()
+  ]);
+
+  res.json({
+    success: true,
+    data: investors.map(investor => {
+      const uploaded = new Set(investor.kyc.files.map(file => file.type));
+      return {
+        _id: investor._id,
+        investorId: investor.investorId,
+        name: investor.name,
+        email: investor.email,
+        phone: investor.phone,
+        verificationStatus: investor.kyc.verificationStatus,
+        cycle: investor.kyc.cycle,
+        submittedAt: investor.kyc.submittedAt,
+        verifiedAt: investor.kyc.verifiedAt,
+        expiresAt: investor.kyc.expiresAt,
+        rejectionReason: investor.kyc.rejectionReason,
+        documentsUploaded: requiredDocuments.filter(document => uploaded.has(document.key)).length,
+        documentsRequired: requiredDocuments.length
+      };
+    }),
+    pagination: {
+      current: page,
+      pages: Math.ceil(total / limit),
+      total,
+      limit
+    }
+  });
+}));
+
+// @route   GET /api/kyc/:investorId
+// @desc    KYC details, document checklist and review history for an investor
+// @access  Private (Admin, Finance Manager)
+router.get('/:investorId', authenticate, authorize('admin', 'finance_manager'), [
+  param('investorId').isMongoId().withMessage('Invalid investor ID')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+
+  const investor = await loadInvestor(req.params.investorId);
+  if (!investor) {
+    return res.status(404).json({ message: 'Investor not found' });
+  }
+
+  res.json({
+    success: true,
+    data: await kycView(investor)
+  });
+}));
+
+// @route   POST /api/kyc/:investorId/documents
+// @desc    Upload a document on the KYC checklist
+// @access  Private (Admin, Finance Manager)
+router.post('/:investorId/documents',
+  authenticate,
+  authorize('admin', 'finance_manager'),
+  uploadSingle('file'),
+  handleUploadError,
+  [
+    param('investorId').isMongoId().withMessage('Invalid investor ID'),
+    body('type').trim().notEmpty().withMessage('Document type is required')
+  ],
+  asyncHandler(async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      cleanupUploadedFiles(req.file);
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({ message: 'No document uploaded' });
+    }
+
+    const investor = await Investor.findById(req.params.investorId);
+    if (!investor) {
+      cleanupUploadedFiles(req.file);
+      return res.status(404).json({ message: 'Investor not found' });
+    }
+
+    try {
+      await addKycDocument(investor, {
+        type: req.body.type,
+        file: req.file,
+        uploadedBy: req.user._id
+      });
+    } catch (error) {
+      cleanupUploadedFiles(req.file);
+      if (error instanceof KycError) {
+        return res.status(400).json({ message: error.message });
+      }
+      throw error;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'KYC document uploaded',
+      data: await kycView(await loadInvestor(investor._id))
+    });
+  })
+);
+
+// @route   GET /api/kyc/:investorId/documents/:fileId
+// @desc    View an uploaded KYC document
+// @access  Private (Admin, Finance Manager)
+router.get('/:investorId/documents/:fileId', authenticate, authorize('admin', 'finance_manager'), [
+  param('investorId').isMongoId().withMessage('Invalid investor ID'),
+  param('fileId').isMongoId().withMessage('Invalid document ID')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+
+  const investor = await Investor.findById(req.params.investorId).select('kyc.files');
+  if (!investor) {
+    return res.status(404).json({ message: 'Investor not found' });
+  }
+
+  const file = findKycFile(investor, req.params.fileId);
+  if (!file) {
+    return res.status(404).json({ message: 'Document not found' });
+  }
+
+  if (file.mimeType) {
+    res.setHeader('Content-Type', file.mimeType);
+  }
+  res.setHeader('Content-Disposition', `inline; filename=${file.fileName}`);
+  res.sendFile(file.filePath);
+}));
+
+// @route   POST /api/kyc/:investorId/submit
+// @desc    Send the uploaded checklist for review
+// @access  Private (Admin, Finance Manager)
+router.post('/:investorId/submit', authenticate, authorize('admin', 'finance_manager'), [
+  param('investorId').isMongoId().withMessage('Invalid investor ID')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+
+  const investor = await Investor.findById(req.params.investorId);
+  if (!investor) {
+    return res.status(404).json({ message: 'Investor not found' });
+  }
+
+  try {
+    await submitKyc(investor, { submittedBy: req.user._id });
+  } catch (error) {
+    if (error instanceof KycError) {
+      return res.status(400).json({ message: error.message });
+    }
+    throw error;
+  }
+
+  res.json({
+    success: true,
+    message: 'KYC submitted for review',
+    data: await kycView(await loadInvestor(investor._id))
+  });
+}));
+
+// @route   PUT /api/kyc/:investorId/status
+// @desc    Approve or reject KYC awaiting review
+// @access  Private (Admin, Finance Manager)
+router.put('/:investorId/status', authenticate, authorize('admin', 'finance_manager'), [
+  param('investorId').isMongoId().withMessage('Invalid investor ID'),
+  body('status').isIn(['verified', 'rejected']).withMessage('Status must be verified or rejected'),
+  body('reason').trim().notEmpty().withMessage('A reason is required')
+    .isLength({ max: 500 }).withMessage('Reason cannot exceed 500 characters')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+
+  const investor = await Investor.findById(req.params.investorId);
+  if (!investor) {
+    return res.status(404).json({ message: 'Investor not found' });
+  }
+
+  const decide = req.body.status === 'verified' ? approveKyc : rejectKyc;
+  try {
+    await decide(investor, { reason: req.body.reason, reviewedBy: req.user._id });
+  } catch (error) {
+    if (error instanceof KycError) {
+      return res.status(400).json({ message: error.message });
+    }
+    throw error;
+  }
+
+  res.json({
+    success: true,
+    message: req.body.status === 'verified' ? 'KYC approved' : 'KYC rejected',
+    data: await kycView(await loadInvestor(investor._id))
+  });
+}));
+
+export default router;
@@ -0,0 +1,189 @@
+// backend/routes/ledger.js - General ledger: chart of accounts, trial balance, account ledgers, exports
+import express from 'express';
+import { param, query, validationResult } from 'express-validator';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { CHART_OF_ACCOUNTS } from '../utils/chartOfAccounts.js';
+import {
+  LedgerError,
+  backfillLedger,
+  getAccountLedger,
+  getTrialBalance,
+  reconcileCounters
+} from '../services/ledger.js';
+import {
+  AccountingExportError,
+  EXPORT_ENTRY_TYPES,
+  buildAccountingExport
+} from '../services/accountingExport.js';
+
+const router = express.Router();
+
+// Dates from the query cover the whole day they name
+const startOfDay = (value) => {
+  const date = new Date(value);
+  date.setUTCHours(0, 0, 0, 0);
+  return date;
+};
+
+const endOfDay = (value) => {
+  const date = new Date(value);
+  date.setUTCHours(23, 59, 59, 999);
+  return date;
+};
+
+// @route   GET /api/ledger/accounts
+// @desc    Chart of accounts
+// @access  Private (Admin, Finance Manager)
+router.get('/accounts', authenticate, authorize('admin', 'finance_manager'), asyncHandler(async (req, res) => {
+  res.json({
+    success: true,
+    data: CHART_OF_ACCOUNTS
+  });
+}));
+
+// @route   GET /api/ledger/trial-balance
+// @desc    Debit and credit balances of every account, optionally as of a date
+// @access  Private (Admin, Finance Manager)
+router.get('/trial-balance', authenticate, authorize('admin', 'finance_manager'), [
+  query('asOf').optional().isISO8601().withMessage('As-of date must be a valid date')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+
+  const trialBalance = await getTrialBalance({
+    asOf: req.query.asOf ? endOfDay(req.query.asOf) : undefined
+  });
+
+  res.json({
+    success: true,
+    data: trialBalance
+  });
+}));
+
+// @route   GET /api/ledger/accounts/:code/entries
+// @desc    Journal lines posted to one account with a running balance
+// @access  Private (Admin, Finance Manager)
+router.get('/accounts/:code/entries', authenticate, authorize('admin', 'finance_manager'), [
+  param('code').matches(/^\d{4}$/).withMessage('Invalid account code'),
+  query('from').optional().isISO8601().withMessage('From date must be a valid date'),
+  query('to').optional().isISO8601().withMessage('To date must be a valid date'),
+  query('investor').optional().isMongoId().withMessage('Invalid investor ID'),
+  query('investment').optional().isMongoId().withMessage('Invalid investment ID'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+
+  let ledger;
+  try {
+    ledger = await getAccountLedger(req.params.code, {
+      from: req.query.from ? startOfDay(req.query.from) : undefined,
+      to: req.query.to ? endOfDay(req.query.to) : undefined,
+      investor: req.query.investor,
+      investment: req.query.investment,
+      page: parseInt(req.query.page) || 1,
+      limit: parseInt(req.query.limit) || 50
+    });
+  } catch (error) {
+    if (error instanceof LedgerError) {
+      return res.status(400).json({ message: error.message });
+    }
+    throw error;
+  }
+
+  res.json({
+    success: true,
+    data: ledger
+  });
+}));
+
+// @route   GET /api/ledger/export
+// @desc    Journal entries for a period as Tally XML vouchers or a generic journal CSV
+// @access  Private (Admin, Finance Manager)
+router.get('/export', authenticate, authorize('admin', 'finance_manager'), [
+  query('from').isISO8601().withMessage('Valid start date is required'),
+  query('to').isISO8601().withMessage('Valid end date is required'),
+  query('format').isIn(['tally', 'csv']).withMessage('Format must be tally or csv'),
+  query('types').optional()
+    .custom(value => String(value).split(',').every(type => EXPORT_ENTRY_TYPES.includes(type)))
+    .withMessage(`Types must be a comma-separated list of ${EXPORT_ENTRY_TYPES.join(', ')}`)
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+
+  let file;
+  try {
+    file = await buildAccountingExport({
+      from: startOfDay(req.query.from),
+      to: endOfDay(req.query.to),
+      format: req.query.format,
+      types: req.query.types ? req.query.types.split(',') : undefined
+    });
+  } catch (error) {
+    if (error instanceof AccountingExportError) {
+      return res.status(400).json({ message: error.message });
+    }
+    throw error;
+  }
+
+  res.setHeader('Content-Type', file.contentType);
+  res.setHeader('Content-Disposition', `attachment; filename=${file.fileName}`);
+  res.send(file.content);
+}));
+
+// @route   GET /api/ledger/reconciliation
+// @desc    Investor, plan and investment counters that disagree with the ledger
+// @access  Private (Admin, Finance Manager)
+router.get('/reconciliation', authenticate, authorize('admin', 'finance_manager'), asyncHandler(async (req, res) => {
+  const result = await reconcileCounters();
+
+  res.json({
+    success: true,
+    data: result
+  });
+}));
+
+// @route   POST /api/ledger/reconciliation
+// @desc    Reset drifted investor and plan counters to the ledger figures
+// @access  Private (Admin)
+router.post('/reconciliation', authenticate, authorize('admin'), asyncHandler(async (req, res) => {
+  const result = await reconcileCounters({ apply: true });
+
+  res.json({
+    success: true,
+    message: `${result.corrected} record(s) corrected from the ledger`,
+    data: result
+  });
+}));
+
+// @route   POST /api/ledger/backfill
+// @desc    Journal investments and payments recorded before the ledger existed
+// @access  Private (Admin)
+router.post('/backfill', authenticate, authorize('admin'), asyncHandler(async (req, res) => {
+  const result = await backfillLedger({ postedBy: req.user._id });
+
+  res.json({
+    success: true,
+    message: `${result.entriesPosted} journal entries posted`,
+    data: result
+  });
+}));
+
+export default router;
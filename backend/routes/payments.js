@@ -4,9 +4,20 @@ import { body, validationResult, query } from 'express-validator';
 import Payment from '../models/Payment.js';
 import Investment from '../models/Investment.js';
 import Investor from '../models/Investor.js';
+import Settings from '../models/Settings.js';
+import PayoutBatch from '../models/PayoutBatch.js';
 import { authenticate, authorize } from '../middleware/auth.js';
 import { asyncHandler } from '../middleware/errorHandler.js';
 import { uploadMultiple, uploadSingle, handleUploadError } from '../middleware/upload.js';
+import { loadPayableInvestment, settlePayment, unwindPayment } from '../services/paymentPosting.js';
+import { approvePrepayment } from '../services/prepayments.js';
+import { loadHolders } from '../services/holdings.js';
+import { PayoutRunError, listDueRows, parseDueRange, postPayoutRun, rollbackPayoutRun } from '../services/payoutRuns.js';
+import { attachReceipts, emailPaymentReceipt, ensurePaymentReceipt, isReceiptable } from '../services/paymentReceipts.js';
+import { withholdingForPayment } from '../services/tds.js';
+import { maskAccount } from '../utils/masking.js';
+import { allocatePayment, overpaidAllocation, paymentAllocations, resolveWaterfall, rowOutstanding, totalOutstanding } from '../utils/paymentAllocation.js';
+import { roundCurrency } from '../../shared/scheduleEngine.js';
 
 const router = express.Router();
 
@@ -17,9 +28,11 @@ router.get('/', authenticate, [
   query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
   query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
   query('search').optional().trim(),
-  query('status').optional().isIn(['pending', 'completed', 'failed', 'cancelled']),
+  query('status').optional().isIn(['pending', 'completed', 'failed', 'cancelled', 'reversed']),
   query('investment').optional().isMongoId().withMessage('Invalid investment ID'),
   query('investor').optional().isMongoId().withMessage('Invalid investor ID'),
+  query('awaitingVerification').optional().isBoolean().withMessage('awaitingVerification must be true or false'),
+  query('batchId').optional().trim(),
   query('dateFrom').optional().isISO8601().withMessage('Invalid date format'),
   query('dateTo').optional().isISO8601().withMessage('Invalid date format')
 ], asyncHandler(async (req, res) => {
@@ -63,6 +76,14 @@ router.get('/', authenticate, [
     query.investor = investorId;
   }
 
+  if (req.query.awaitingVerification !== undefined) {
+    query.awaitingVerification = req.query.awaitingVerification === 'true';
+  }
+
+  if (req.query.batchId) {
+    query.batchId = req.query.batchId;
+  }
+
   if (dateFrom || dateTo) {
     query.paymentDate = {};
     if (dateFrom) query.paymentDate.$gte = new Date(dateFrom);
@@ -107,6 +128,253 @@ router.get('/', authenticate, [
   });
 }));
 
+// @route   GET /api/payments/bulk/due
+// @desc    Due schedule rows across active investments for a payout run
+// @access  Private (Admin, Finance Manager)
+router.get('/bulk/due', authenticate, authorize('admin', 'finance_manager'), [
+  query('dueFrom').isISO8601().withMessage('Valid start of due date range is required'),
+  query('dueTo').isISO8601().withMessage('Valid end of due date range is required'),
+  query('paymentDate').optional().isISO8601().withMessage('Invalid payment date')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ 
+      message: 'Validation failed', 
+      errors: errors.array() 
+    });
+  }
+
+  const { dueFrom, dueTo, paymentDate } = parseDueRange(req.query);
+  if (dueFrom > dueTo) {
+    return res.status(400).json({ message: 'Due date range ends before it starts' });
+  }
+
+  const rows = await listDueRows({ dueFrom, dueTo, paymentDate });
+
+  res.json({
+    success: true,
+    data: {
+      rows: rows.map(row => ({ ...row, investor: { ...row.investor, accountNumber: maskAccount(row.investor.accountNumber) } })),
+      totals: {
+        count: rows.length,
+        amount: roundCurrency(rows.reduce((sum, row) => sum + row.amount, 0))
+      }
+    }
+  });
+}));
+
+// @route   POST /api/payments/bulk
+// @desc    Post a payout run: record payments for the selected due rows in one transaction
+// @access  Private (Admin, Finance Manager)
+router.post('/bulk', authenticate, authorize('admin', 'finance_manager'), [
+  body('dueFrom').isISO8601().withMessage('Valid start of due date range is required'),
+  body('dueTo').isISO8601().withMessage('Valid end of due date range is required'),
+  body('paymentDate').optional().isISO8601().withMessage('Invalid payment date'),
+  body('paymentMethod').isIn(['cash', 'cheque', 'bank_transfer', 'upi', 'card', 'other']).withMessage('Invalid payment method'),
+  body('referenceNumber').optional().trim(),
+  body('notes').optional().trim().isLength({ max: 500 }).withMessage('Notes cannot exceed 500 characters'),
+  body('rows').isArray({ min: 1 }).withMessage('Select at least one due row'),
+  body('rows.*.investment').isMongoId().withMessage('Invalid investment ID'),
+  body('rows.*.scheduleMonth').isInt({ min: 1 }).withMessage('Schedule month must be a positive integer')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ 
+      message: 'Validation failed', 
+      errors: errors.array() 
+    });
+  }
+
+  const { dueFrom, dueTo, paymentDate } = parseDueRange(req.body);
+  if (dueFrom > dueTo) {
+    return res.status(400).json({ message: 'Due date range ends before it starts' });
+  }
+
+  let batch;
+  try {
+    batch = await postPayoutRun({
+      dueFrom,
+      dueTo,
+      paymentDate,
+      paymentMethod: req.body.paymentMethod,
+      referenceNumber: req.body.referenceNumber,
+      notes: req.body.notes,
+      rows: req.body.rows.map(row => ({ investment: row.investment, scheduleMonth: parseInt(row.scheduleMonth) }))
+    }, req.user._id);
+  } catch (error) {
+    if (error instanceof PayoutRunError) {
+      return res.status(400).json({ message: error.message });
+    }
+    throw error;
+  }
+
+  // Payments awaiting verification get their receipt once approved
+  const settled = await Payment.find({ _id: { $in: batch.payments }, status: 'completed' }).select('_id');
+  await attachReceipts(settled.map(payment => payment._id), req.user._id);
+
+  await batch.populate('createdBy', 'name email');
+
+  res.status(201).json({
+    success: true,
+    message: `Payout run ${batch.batchId} recorded ${batch.totals.count} payments`,
+    data: batch
+  });
+}));
+
+// @route   GET /api/payments/batches
+// @desc    List payout runs
+// @access  Private (Admin, Finance Manager)
+router.get('/batches', authenticate, authorize('admin', 'finance_manager'), [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  query('status').optional().isIn(['posted', 'rolled_back'])
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ 
+      message: 'Validation failed', 
+      errors: errors.array() 
+    });
+  }
+
+  const page = parseInt(req.query.page) || 1;
+  const limit = parseInt(req.query.limit) || 10;
+  const skip = (page - 1) * limit;
+  const filter = req.query.status ? { status: req.query.status } : {};
+
+  const [batches, total] = await Promise.all([
+    PayoutBatch.find(filter)
+      .select('-payments')
+      .populate('createdBy', 'name email')
+      .populate('rollback.rolledBackBy', 'name email')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit),
+    PayoutBatch.countDocuments(filter)
+  ]);
+
+  res.json({
+    success: true,
+    data: batches,
+    pagination: {
+      current: page,
+      pages: Math.ceil(total / limit),
+      total,
+      limit
+    }
+  });
+}));
+
+// @route   GET /api/payments/batches/:batchId
+// @desc    Payout run with its payments
+// @access  Private (Admin, Finance Manager)
+router.get('/batches/:batchId', authenticate, authorize('admin', 'finance_manager'), asyncHandler(async (req, res) => {
+  const batch = await PayoutBatch.findOne({ batchId: req.params.batchId })
+    .populate('createdBy', 'name email')
+    .populate('rollback.rolledBackBy', 'name email')
+    .populate({
+      path: 'payments',
+      select: 'paymentId investment investor scheduleMonth amount interestAmount principalAmount penaltyAmount status awaitingVerification verifiedBy',
+      populate: [
+        { path: 'investment', select: 'investmentId' },
+        { path: 'investor', select: 'investorId name' }
+      ]
+    });
+
+  if (!batch) {
+    return res.status(404).json({ message: 'Payout run not found' });
+  }
+
+  res.json({
+    success: true,
+    data: batch
+  });
+}));
+
+// @route   GET /api/payments/batches/:batchId/summary
+// @desc    Download a payout run summary (CSV format)
+// @access  Private (Admin, Finance Manager)
+router.get('/batches/:batchId/summary', authenticate, authorize('admin', 'finance_manager'), asyncHandler(async (req, res) => {
+  const batch = await PayoutBatch.findOne({ batchId: req.params.batchId })
+    .populate({
+      path: 'payments',
+      populate: [
+        { path: 'investment', select: 'investmentId' },
+        { path: 'investor', select: 'investorId name kyc.bankDetails' }
+      ]
+    });
+
+  if (!batch) {
+    return res.status(404).json({ message: 'Payout run not found' });
+  }
+
+  const toDate = (date) => date.toISOString().split('T')[0];
+
+  // Generate CSV content
+  const csvPreamble = [
+    `Payout Run,${batch.batchId}`,
+    `Status,${batch.status}`,
+    `Due Dates,${toDate(batch.dueFrom)} to ${toDate(batch.dueTo)}`,
+    `Payment Date,${toDate(batch.paymentDate)}`,
+    `Payment Method,${batch.paymentMethod}`,
+    `Reference,"${batch.referenceNumber || ''}"`,
+    `Payments,${batch.totals.count}`,
+    `Total Amount,${batch.totals.amount}`,
+    `Excluded Rows,${batch.excludedCount}`,
+    ''
+  ].join('\n');
+  const csvHeader = 'Payment ID,Investment ID,Investor ID,Investor Name,Bank Name,Account Number,IFSC Code,Schedule Month,Amount,Interest Amount,Principal Amount,Late Fee,Status\n';
+  const csvContent = batch.payments.map(payment => {
+    const bank = payment.investor.kyc?.bankDetails || {};
+    return `${payment.paymentId},${payment.investment.investmentId},${payment.investor.investorId},"${payment.investor.name}","${bank.bankName || ''}","${maskAccount(bank.accountNumber) || ''}",${bank.ifscCode || ''},${payment.scheduleMonth},${payment.amount},${payment.interestAmount},${payment.principalAmount},${payment.penaltyAmount},${payment.awaitingVerification ? 'awaiting_verification' : payment.status}`;
+  }).join('\n');
+
+  res.setHeader('Content-Type', 'text/csv');
+  res.setHeader('Content-Disposition', `attachment; filename=payout_run_${batch.batchId}.csv`);
+  res.send(`${csvPreamble}\n${csvHeader}${csvContent}`);
+}));
+
+// @route   POST /api/payments/batches/:batchId/rollback
+// @desc    Roll back a payout run whose payments are not yet verified
+// @access  Private (Admin, Finance Manager)
+router.post('/batches/:batchId/rollback', authenticate, authorize('admin', 'finance_manager'), [
+  body('reason').trim().notEmpty().withMessage('A reason is required to roll back a payout run')
+    .isLength({ max: 400 }).withMessage('Reason cannot exceed 400 characters')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ 
+      message: 'Validation failed', 
+      errors: errors.array() 
+    });
+  }
+
+  const batch = await PayoutBatch.findOne({ batchId: req.params.batchId });
+  if (!batch) {
+    return res.status(404).json({ message: 'Payout run not found' });
+  }
+
+  try {
+    await rollbackPayoutRun(batch, req.body.reason, req.user._id);
+  } catch (error) {
+    if (error instanceof PayoutRunError) {
+      return res.status(400).json({ message: error.message });
+    }
+    throw error;
+  }
+
+  await batch.populate([
+    { path: 'createdBy', select: 'name email' },
+    { path: 'rollback.rolledBackBy', select: 'name email' }
+  ]);
+
+  res.json({
+    success: true,
+    message: `Payout run ${batch.batchId} rolled back`,
+    data: batch
+  });
+}));
+
 // @route   GET /api/payments/:id
 // @desc    Get single payment with documents
 // @access  Private
@@ -140,8 +408,139 @@ router.get('/:id', authenticate, asyncHandler(async (req, res) => {
   });
 }));
 
+// Split a lump sum by the investment's waterfall; rejects amounts above what is owed
+const allocateLumpSum = (investment, amount) => {
+  const outstanding = totalOutstanding(investment.schedule);
+  if (amount - outstanding > 0.01) {
+    return { message: `Payment exceeds the total outstanding of ${outstanding}` };
+  }
+
+  return { allocation: allocatePayment(investment.schedule, amount, resolveWaterfall(investment)) };
+};
+
+// Settle an approved payment against the schedule, or apply the prepayment or closure it
+// records, and complete it. A refusal is returned before anything is written; verifiedBy is set
+// once writing starts. Otherwise returns the payments settled: the approved one and any penalty
+// kept back from it.
+const approvePayment = async (payment, user, notes) => {
+  if (payment.prepayment) {
+    const investment = await Investment.findById(payment.investment);
+    if (!investment) {
+      return { status: 404, message: 'Investment not found' };
+    }
+
+    const { status, message, payments } = await approvePrepayment(payment, investment, await loadHolders(investment), user, notes);
+    return status ? { status, message } : { payments };
+  }
+
+  const { investment, status, message } = await loadPayableInvestment(payment.investment, payment.paymentDate);
+  if (!investment) {
+    return { status, message };
+  }
+
+  const missingMonth = paymentAllocations(payment)
+    .find(allocation => !investment.schedule.some(row => row.month === allocation.scheduleMonth));
+  if (missingMonth) {
+    return { status: 409, message: `Schedule month ${missingMonth.scheduleMonth} no longer exists on this investment; reject and record the payment again` };
+  }
+
+  // Other payments may have settled the rows since this one was recorded
+  const overpaid = overpaidAllocation(investment.schedule, paymentAllocations(payment), payment);
+  if (overpaid) {
+    return { status: 409, message: `Payment ${payment.paymentId} exceeds the ${overpaid.due} now outstanding on schedule month ${overpaid.scheduleMonth}; reject and record the payment again` };
+  }
+
+  payment.verifiedBy = user._id;
+  await settlePayment(payment, investment, user._id);
+  await payment.recordVerificationDecision('approve', user._id, notes);
+  return { payments: [payment] };
+};
+
+// Approve or reject a payment awaiting verification. The checker must not be the
+// user who recorded it. The decision is claimed first, so two checkers acting at once
+// cannot both settle the payment; a refusal hands it back to the queue.
+const decideVerification = async (paymentId, decision, user, notes) => {
+  const payment = await Payment.findById(paymentId);
+  if (!payment) {
+    return { status: 404, message: 'Payment not found' };
+  }
+
+  if (!payment.awaitingVerification) {
+    return { status: 400, message: `Payment ${payment.paymentId} is not awaiting verification` };
+  }
+
+  if (payment.processedBy.equals(user._id)) {
+    return { status: 403, message: `Payment ${payment.paymentId} must be verified by someone other than the user who recorded it` };
+  }
+
+  const claim = await Payment.updateOne(
+    { _id: payment._id, awaitingVerification: true },
+    { $set: { awaitingVerification: false } }
+  );
+  if (claim.modifiedCount === 0) {
+    return { status: 409, message: `Payment ${payment.paymentId} has already been verified or rejected` };
+  }
+  const release = () => Payment.updateOne({ _id: payment._id }, { $set: { awaitingVerification: true } });
+
+  if (decision === 'approve') {
+    let result;
+    try {
+      result = await approvePayment(payment, user, notes);
+    } catch (error) {
+      // Once settlement has started writing, the payment stays claimed rather than risk a second settlement
+      if (!payment.verifiedBy) await release();
+      throw error;
+    }
+    if (result.status) {
+      await release();
+      return result;
+    }
+    return { payment, settled: result.payments };
+  }
+
+  await payment.recordVerificationDecision(decision, user._id, notes);
+  return { payment, settled: [] };
+};
+
+// @route   POST /api/payments/allocation/preview
+// @desc    Proposed split of a lump-sum payment across the schedule (nothing is saved)
+// @access  Private (Admin, Finance Manager)
+router.post('/allocation/preview', authenticate, authorize('admin', 'finance_manager'), [
+  body('investment').isMongoId().withMessage('Valid investment ID is required'),
+  body('amount').isFloat({ min: 0.01 }).withMessage('Payment amount must be greater than 0'),
+  body('paymentDate').optional().isISO8601().withMessage('Invalid payment date')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ 
+      message: 'Validation failed', 
+      errors: errors.array() 
+    });
+  }
+
+  const paymentDate = req.body.paymentDate ? new Date(req.body.paymentDate) : new Date();
+  const { investment, status, message } = await loadPayableInvestment(req.body.investment, paymentDate);
+  if (!investment) {
+    return res.status(status).json({ message });
+  }
+
+  const { allocation, message: allocationError } = allocateLumpSum(investment, parseFloat(req.body.amount));
+  if (!allocation) {
+    return res.status(400).json({ message: allocationError });
+  }
+
+  res.json({
+    success: true,
+    data: {
+      ...allocation,
+      totalOutstanding: totalOutstanding(investment.schedule)
+    }
+  });
+}));
+
 // @route   POST /api/payments
-// @desc    Record new payment with optional document upload
+// @desc    Record new payment with optional document upload. Without a scheduleMonth the
+//          amount is a lump sum allocated across the schedule by the investment's waterfall.
 // @access  Private (Admin, Finance Manager)
 router.post('/', 
   authenticate, 
@@ -150,7 +549,7 @@ router.post('/',
   handleUploadError,
   [
     body('investment').isMongoId().withMessage('Valid investment ID is required'),
-    body('scheduleMonth').isInt({ min: 1 }).withMessage('Schedule month must be a positive integer'),
+    body('scheduleMonth').optional({ checkFalsy: true }).isInt({ min: 1 }).withMessage('Schedule month must be a positive integer'),
     body('amount').isFloat({ min: 0.01 }).withMessage('Payment amount must be greater than 0'),
     body('paymentDate').optional().isISO8601().withMessage('Invalid payment date'),
     body('paymentMethod').isIn(['cash', 'cheque', 'bank_transfer', 'upi', 'card', 'other']).withMessage('Invalid payment method'),
@@ -160,6 +559,8 @@ router.post('/',
     body('principalAmount').optional().isFloat({ min: 0 }).withMessage('Principal amount must be non-negative'),
     body('penaltyAmount').optional().isFloat({ min: 0 }).withMessage('Penalty amount must be non-negative'),
     body('bonusAmount').optional().isFloat({ min: 0 }).withMessage('Bonus amount must be non-negative'),
+    body('waivePenalty').optional().toBoolean(),
+    body('penaltyWaiverReason').optional().trim().isLength({ max: 500 }).withMessage('Waiver reason cannot exceed 500 characters'),
     body('notes').optional().trim(),
     body('documentCategory').optional().isIn(['receipt', 'bank_statement', 'cheque_copy', 'upi_screenshot', 'other']),
     body('documentDescription').optional().trim()
@@ -185,90 +586,145 @@ router.post('/',
       principalAmount,
       penaltyAmount,
       bonusAmount,
+      waivePenalty,
+      penaltyWaiverReason,
       notes,
       documentCategory,
       documentDescription
     } = req.body;
 
-    // Parse scheduleMonth to ensure it's a number
-    const scheduleMonthNum = parseInt(scheduleMonth);
+    const isLumpSum = !scheduleMonth;
 
-    // Verify investment exists and is active
-    const investment = await Investment.findById(investmentId).populate('investor');
+    // Verify investment exists and is active; late fees are accrued up to the payment date
+    const effectivePaymentDate = paymentDate ? new Date(paymentDate) : new Date();
+    const { investment, status, message } = await loadPayableInvestment(investmentId, effectivePaymentDate);
     if (!investment) {
-      return res.status(404).json({ message: 'Investment not found' });
-    }
-
-    if (investment.status !== 'active') {
-      return res.status(400).json({ message: 'Cannot record payment for non-active investment' });
-    }
-
-    // Debug: Log the schedule and requested month
-    console.log('Investment schedule:', investment.schedule.map(s => ({ month: s.month, status: s.status })));
-    console.log('Requested schedule month:', scheduleMonthNum);
-
-    // Find schedule item - be more flexible with status checking
-    const scheduleItem = investment.schedule.find(s => s.month === scheduleMonthNum);
-    if (!scheduleItem) {
-      return res.status(400).json({ 
-        message: `Schedule month ${scheduleMonthNum} not found in investment schedule`,
-        availableMonths: investment.schedule.map(s => s.month),
-        debug: {
-          requestedMonth: scheduleMonthNum,
-          requestedType: typeof scheduleMonthNum,
-          scheduleMonths: investment.schedule.map(s => ({ month: s.month, type: typeof s.month, status: s.status }))
-        }
-      });
+      return res.status(status).json({ message });
     }
 
-    // Check if this schedule month can accept payments
-    // Allow payments for pending, overdue, partial, or even paid (for additional payments)
-    const allowedStatuses = ['pending', 'overdue', 'partial', 'paid'];
-    if (!allowedStatuses.includes(scheduleItem.status)) {
-      return res.status(400).json({ 
-        message: `Cannot record payment for schedule month ${scheduleMonthNum}. Status: ${scheduleItem.status}`,
-        allowedStatuses,
-        currentStatus: scheduleItem.status
-      });
-    }
-
-    // Calculate breakdown if not provided
+    let allocations;
     let finalInterestAmount = parseFloat(interestAmount) || 0;
     let finalPrincipalAmount = parseFloat(principalAmount) || 0;
     let finalPenaltyAmount = parseFloat(penaltyAmount) || 0;
     let finalBonusAmount = parseFloat(bonusAmount) || 0;
+    let penaltyWaived = 0;
+    const auditLog = [];
 
-    // Auto-calculate if breakdown not provided
-    if (!interestAmount && !principalAmount && !penaltyAmount && !bonusAmount) {
-      const remainingAmount = Math.max(0, scheduleItem.totalAmount - scheduleItem.paidAmount);
-      const remainingInterest = Math.max(0, scheduleItem.interestAmount - Math.min(scheduleItem.paidAmount, scheduleItem.interestAmount));
-      
-      finalInterestAmount = Math.min(parseFloat(amount), remainingInterest);
-      finalPrincipalAmount = Math.max(0, parseFloat(amount) - finalInterestAmount);
-    }
-
-    // Validate total breakdown matches amount
-    const totalBreakdown = finalInterestAmount + finalPrincipalAmount + finalPenaltyAmount + finalBonusAmount;
-    if (Math.abs(parseFloat(amount) - totalBreakdown) > 0.01) {
-      // Auto-adjust if small difference (rounding)
-      if (Math.abs(parseFloat(amount) - totalBreakdown) < 1) {
-        const difference = parseFloat(amount) - totalBreakdown;
-        finalInterestAmount += difference; // Add difference to interest
-      } else {
+    if (isLumpSum) {
+      if (waivePenalty === true) {
+        return res.status(400).json({ message: 'Late fees can only be waived on a payment for a single schedule month' });
+      }
+
+      const { allocation, message: allocationError } = allocateLumpSum(investment, parseFloat(amount));
+      if (!allocation) {
+        return res.status(400).json({ message: allocationError });
+      }
+
+      allocations = allocation.allocations;
+      finalInterestAmount = allocation.totals.interest;
+      finalPrincipalAmount = allocation.totals.principal;
+      finalPenaltyAmount = allocation.totals.penalty;
+      finalBonusAmount = 0;
+    } else {
+      // Parse scheduleMonth to ensure it's a number
+      const scheduleMonthNum = parseInt(scheduleMonth);
+
+      // Find schedule item - be more flexible with status checking
+      const scheduleItem = investment.schedule.find(s => s.month === scheduleMonthNum);
+      if (!scheduleItem) {
         return res.status(400).json({ 
-          message: 'Payment amount does not match breakdown total',
-          amount: parseFloat(amount),
-          breakdown: {
-            interest: finalInterestAmount,
-            principal: finalPrincipalAmount,
-            penalty: finalPenaltyAmount,
-            bonus: finalBonusAmount,
-            total: totalBreakdown
+          message: `Schedule month ${scheduleMonthNum} not found in investment schedule`,
+          availableMonths: investment.schedule.map(s => s.month)
+        });
+      }
+
+      // Check if this schedule month can accept payments
+      // Allow payments for pending, overdue, partial, or even paid (for a bonus on top)
+      const allowedStatuses = ['pending', 'overdue', 'partial', 'paid'];
+      if (!allowedStatuses.includes(scheduleItem.status)) {
+        return res.status(400).json({ 
+          message: `Cannot record payment for schedule month ${scheduleMonthNum}. Status: ${scheduleItem.status}`,
+          allowedStatuses,
+          currentStatus: scheduleItem.status
+        });
+      }
+
+      const outstandingPenalty = rowOutstanding(scheduleItem).penalty;
+
+      if (waivePenalty === true) {
+        if (!penaltyWaiverReason) {
+          return res.status(400).json({ message: 'A reason is required to waive the late fee' });
+        }
+        if (outstandingPenalty <= 0) {
+          return res.status(400).json({ message: `No late fee is outstanding on schedule month ${scheduleMonthNum}` });
+        }
+      }
+
+      // Auto-calculate if breakdown not provided
+      if (!interestAmount && !principalAmount && !penaltyAmount && !bonusAmount) {
+        const remainingInterest = Math.max(0, scheduleItem.interestAmount - Math.min(scheduleItem.paidAmount, scheduleItem.interestAmount));
+        
+        // Any late fee not being waived is settled first
+        finalPenaltyAmount = waivePenalty === true ? 0 : Math.min(parseFloat(amount), outstandingPenalty);
+        finalInterestAmount = Math.min(parseFloat(amount) - finalPenaltyAmount, remainingInterest);
+        finalPrincipalAmount = Math.max(0, parseFloat(amount) - finalPenaltyAmount - finalInterestAmount);
+      }
+
+      // Validate total breakdown matches amount
+      const totalBreakdown = finalInterestAmount + finalPrincipalAmount + finalPenaltyAmount + finalBonusAmount;
+      if (Math.abs(parseFloat(amount) - totalBreakdown) > 0.01) {
+        // Auto-adjust if small difference (rounding)
+        if (Math.abs(parseFloat(amount) - totalBreakdown) < 1) {
+          const difference = parseFloat(amount) - totalBreakdown;
+          finalInterestAmount += difference; // Add difference to interest
+        } else {
+          return res.status(400).json({ 
+            message: 'Payment amount does not match breakdown total',
+            amount: parseFloat(amount),
+            breakdown: {
+              interest: finalInterestAmount,
+              principal: finalPrincipalAmount,
+              penalty: finalPenaltyAmount,
+              bonus: finalBonusAmount,
+              total: totalBreakdown
+            }
+          });
+        }
+      }
+
+      // A waiver writes off whatever part of the late fee this payment does not cover
+      if (waivePenalty === true) {
+        penaltyWaived = roundCurrency(Math.max(0, outstandingPenalty - finalPenaltyAmount));
+        auditLog.push({
+          action: 'penalty_waived',
+          performedBy: req.user._id,
+          details: {
+            scheduleMonth: scheduleMonthNum,
+            penaltyAccrued: scheduleItem.penaltyAccrued,
+            amountWaived: penaltyWaived,
+            reason: penaltyWaiverReason
           }
         });
       }
+
+      allocations = [{
+        scheduleMonth: scheduleMonthNum,
+        penaltyAmount: finalPenaltyAmount,
+        interestAmount: finalInterestAmount,
+        principalAmount: finalPrincipalAmount,
+        bonusAmount: finalBonusAmount,
+        amount: parseFloat(amount)
+      }];
+
+      // Checked again on approval, as other payments may settle the row in the meantime
+      const overpaid = overpaidAllocation(investment.schedule, allocations, { scheduleMonth: scheduleMonthNum, penaltyWaived });
+      if (overpaid) {
+        return res.status(409).json({ message: `Payment of ${parseFloat(amount)} exceeds the ${overpaid.due} outstanding on schedule month ${scheduleMonthNum}` });
+      }
     }
 
+    const scheduleMonths = allocations.map(allocation => allocation.scheduleMonth);
+
     // Prepare documents array if files are uploaded
     const documents = [];
     if (req.files && req.files.length > 0) {
@@ -287,97 +743,49 @@ router.post('/',
       });
     }
 
+    const verificationRules = await Settings.getVerificationRules();
+    const awaitingVerification = verificationRules.makerCheckerEnabled &&
+      parseFloat(amount) > verificationRules.verificationThreshold;
+
+    const withholding = await withholdingForPayment({
+      investor: investment.investor,
+      interestAmount: finalInterestAmount,
+      paymentDate: effectivePaymentDate,
+      amount: parseFloat(amount)
+    });
+
     try {
       // Create payment record with documents
       const payment = await Payment.create({
         investment: investmentId,
         investor: investment.investor._id,
-        scheduleMonth: scheduleMonthNum,
+        scheduleMonth: scheduleMonths[0],
+        allocations,
         amount: parseFloat(amount),
-        paymentDate: paymentDate ? new Date(paymentDate) : new Date(),
+        paymentDate: effectivePaymentDate,
         paymentMethod,
         referenceNumber,
         type: type || 'mixed',
+        status: awaitingVerification ? 'pending' : 'completed',
+        awaitingVerification,
         interestAmount: finalInterestAmount,
         principalAmount: finalPrincipalAmount,
         penaltyAmount: finalPenaltyAmount,
         bonusAmount: finalBonusAmount,
+        penaltyWaived,
+        ...withholding,
         notes,
         documents,
-        processedBy: req.user._id
+        processedBy: req.user._id,
+        auditLog
       });
 
-      // Update investment schedule
-      const oldStatus = scheduleItem.status;
-      scheduleItem.paidAmount = (scheduleItem.paidAmount || 0) + parseFloat(amount);
-      
-      // Update status based on paid amount
-      if (scheduleItem.paidAmount >= scheduleItem.totalAmount) {
-        scheduleItem.status = 'paid';
-        scheduleItem.paidDate = payment.paymentDate;
-      } else if (scheduleItem.paidAmount > 0) {
-        scheduleItem.status = 'partial';
-      }
-
-      // Update investment totals
-      investment.updatePaymentStatus();
-
-      // Add automatic timeline entry - Payment Received
-      let timelineDescription = `Payment received: ${payment.paymentMethod.toUpperCase()} - Month ${scheduleMonthNum}`;
-      if (referenceNumber) timelineDescription += ` (Ref: ${referenceNumber})`;
-      if (documents.length > 0) timelineDescription += ` with ${documents.length} document(s)`;
-      
-      await investment.addTimelineEntry(
-        'payment_received',
-        timelineDescription,
-        req.user._id,
-        parseFloat(amount),
-        {
-          paymentId: payment.paymentId,
-          scheduleMonth: scheduleMonthNum,
-          paymentMethod,
-          referenceNumber,
-          documentsUploaded: documents.length,
-          documentTypes: documents.map(d => d.category),
-          interestAmount: finalInterestAmount,
-          principalAmount: finalPrincipalAmount,
-          oldScheduleStatus: oldStatus,
-          newScheduleStatus: scheduleItem.status,
-          breakdown: {
-            interest: finalInterestAmount,
-            principal: finalPrincipalAmount,
-            penalty: finalPenaltyAmount,
-            bonus: finalBonusAmount
-          }
-        }
-      );
-
-      // Add document upload timeline entries if documents were uploaded
-      if (documents.length > 0) {
-        await investment.addTimelineEntry(
-          'document_uploaded',
-          `Payment documents uploaded: ${documents.map(d => d.originalName).join(', ')}`,
-          req.user._id,
-          0,
-          {
-            paymentId: payment.paymentId,
-            documentCount: documents.length,
-            documentDetails: documents.map(d => ({
-              category: d.category,
-              fileName: d.originalName,
-              fileSize: d.fileSize
-            }))
-          }
-        );
+      // Under maker-checker the schedule and totals wait for a second user's approval
+      if (!awaitingVerification) {
+        await settlePayment(payment, investment, req.user._id);
+        await attachReceipts([payment._id], req.user._id);
       }
 
-      await investment.save();
-
-      // Update investor totals
-      await Investor.findByIdAndUpdate(investment.investor._id, {
-        $inc: { totalReturns: parseFloat(amount) }
-      });
-
       // Populate for response
       await payment.populate([
         { path: 'investment', select: 'investmentId principalAmount' },
@@ -388,7 +796,9 @@ router.post('/',
 
       res.status(201).json({
         success: true,
-        message: 'Payment recorded successfully',
+        message: awaitingVerification
+          ? 'Payment recorded and awaiting verification'
+          : 'Payment recorded successfully',
         data: payment,
         documentsUploaded: documents.length
       });
@@ -408,8 +818,12 @@ router.post('/',
 // @desc    Update payment with timeline tracking
 // @access  Private (Admin, Finance Manager)
 router.put('/:id', authenticate, authorize('admin', 'finance_manager'), [
-  body('status').optional().isIn(['pending', 'completed', 'failed', 'cancelled']),
-  body('verifiedBy').optional().isMongoId().withMessage('Invalid verifier ID'),
+  // A payment is only completed by recording or verifying it, which settles it against the schedule
+  body('status').optional().isIn(['pending', 'failed', 'cancelled'])
+    .withMessage('Status can only be set to pending, failed or cancelled; record or verify a payment to complete it'),
+  // Verification state only changes through POST /api/payments/:id/verify
+  body(['verifiedBy', 'verifiedAt', 'awaitingVerification']).not().exists()
+    .withMessage('Use POST /api/payments/:id/verify to approve or reject a payment'),
   body('notes').optional().trim(),
   body('referenceNumber').optional().trim(),
   body('paymentMethod').optional().isIn(['cash', 'cheque', 'bank_transfer', 'upi', 'card', 'other'])
@@ -430,8 +844,22 @@ router.put('/:id', authenticate, authorize('admin', 'finance_manager'), [
     return res.status(404).json({ message: 'Payment not found' });
   }
 
-  const { status, verifiedBy, notes, referenceNumber, paymentMethod } = req.body;
+  const { status, notes, referenceNumber, paymentMethod } = req.body;
   const oldStatus = payment.status;
+
+  // Reversed, cancelled and failed payments are final, and a completed payment's effect on
+  // the schedule is only undone through the reversal endpoint
+  if (status && status !== oldStatus) {
+    if (payment.awaitingVerification) {
+      return res.status(400).json({ message: 'Use POST /api/payments/:id/verify to approve or reject a payment awaiting verification' });
+    }
+    if (['reversed', 'cancelled', 'failed'].includes(oldStatus)) {
+      return res.status(400).json({ message: `The status of a ${oldStatus} payment cannot be changed` });
+    }
+    if (oldStatus === 'completed') {
+      return res.status(400).json({ message: 'Use POST /api/payments/:id/reverse to cancel or refund a completed payment' });
+    }
+  }
   const oldMethod = payment.paymentMethod;
   const oldReference = payment.referenceNumber;
 
@@ -440,11 +868,6 @@ router.put('/:id', authenticate, authorize('admin', 'finance_manager'), [
   if (notes !== undefined) payment.notes = notes;
   if (referenceNumber !== undefined) payment.referenceNumber = referenceNumber;
   if (paymentMethod) payment.paymentMethod = paymentMethod;
-  
-  if (verifiedBy) {
-    payment.verifiedBy = verifiedBy;
-    payment.verifiedAt = new Date();
-  }
 
   await payment.save();
 
@@ -462,9 +885,6 @@ router.put('/:id', authenticate, authorize('admin', 'finance_manager'), [
     if (referenceNumber !== undefined && referenceNumber !== oldReference) {
       changes.push(`reference: ${oldReference || 'none'} → ${referenceNumber || 'none'}`);
     }
-    if (payment.verifiedBy && !payment.verifiedAt) {
-      changes.push('payment verified');
-    }
 
     if (changes.length > 0) {
       const changeDescription = `Payment ${payment.paymentId} updated: ${changes.join(', ')}`;
@@ -504,6 +924,238 @@ router.put('/:id', authenticate, authorize('admin', 'finance_manager'), [
   });
 }));
 
+// @route   POST /api/payments/verification/bulk
+// @desc    Approve or reject several payments awaiting verification
+// @access  Private (Admin, Finance Manager)
+router.post('/verification/bulk', authenticate, authorize('admin', 'finance_manager'), [
+  body('paymentIds').isArray({ min: 1, max: 100 }).withMessage('Select between 1 and 100 payments'),
+  body('paymentIds.*').isMongoId().withMessage('Invalid payment ID'),
+  body('decision').isIn(['approve', 'reject']).withMessage('Decision must be approve or reject'),
+  body('notes').optional().trim().isLength({ max: 200 }).withMessage('Notes cannot exceed 200 characters')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ 
+      message: 'Validation failed', 
+      errors: errors.array() 
+    });
+  }
+
+  const { paymentIds, decision, notes } = req.body;
+  if (decision === 'reject' && !notes) {
+    return res.status(400).json({ message: 'A reason is required to reject payments' });
+  }
+
+  // Decided one at a time so each payment settles against the latest schedule
+  const succeeded = [];
+  const failed = [];
+  const approved = [];
+  for (const paymentId of paymentIds) {
+    const { payment, settled, message } = await decideVerification(paymentId, decision, req.user, notes);
+    if (payment) {
+      succeeded.push(payment.paymentId);
+      approved.push(...settled.map(item => item._id));
+    } else {
+      failed.push({ id: paymentId, message });
+    }
+  }
+
+  await attachReceipts(approved, req.user._id);
+
+  res.json({
+    success: failed.length === 0,
+    message: `${succeeded.length} payment(s) ${decision === 'approve' ? 'approved' : 'rejected'}${failed.length > 0 ? `, ${failed.length} failed` : ''}`,
+    data: { succeeded, failed }
+  });
+}));
+
+// @route   POST /api/payments/:id/verify
+// @desc    Approve or reject a payment awaiting verification (maker-checker)
+// @access  Private (Admin, Finance Manager)
+router.post('/:id/verify', authenticate, authorize('admin', 'finance_manager'), [
+  body('decision').optional().isIn(['approve', 'reject']).withMessage('Decision must be approve or reject'),
+  body('notes').optional().trim().isLength({ max: 200 }).withMessage('Notes cannot exceed 200 characters')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ 
+      message: 'Validation failed', 
+      errors: errors.array() 
+    });
+  }
+
+  const decision = req.body.decision || 'approve';
+  const { notes } = req.body;
+  if (decision === 'reject' && !notes) {
+    return res.status(400).json({ message: 'A reason is required to reject a payment' });
+  }
+
+  const { payment, settled, status, message } = await decideVerification(req.params.id, decision, req.user, notes);
+  if (!payment) {
+    return res.status(status).json({ message });
+  }
+
+  await attachReceipts(settled.map(item => item._id), req.user._id);
+
+  await payment.populate([
+    { path: 'investment', select: 'investmentId principalAmount' },
+    { path: 'investor', select: 'investorId name email phone' },
+    { path: 'processedBy', select: 'name email' },
+    { path: 'verifiedBy', select: 'name email' }
+  ]);
+
+  res.json({
+    success: true,
+    message: decision === 'approve' ? 'Payment verified successfully' : 'Payment rejected',
+    data: payment
+  });
+}));
+
+// @route   POST /api/payments/:id/reverse
+// @desc    Reverse a completed payment: records a compensating entry, unwinds the schedule
+//          rows it settled and the investment and investor totals
+// @access  Private (Admin)
+router.post('/:id/reverse', authenticate, authorize('admin'), [
+  body('reason').trim().notEmpty().withMessage('A reason is required to reverse a payment')
+    .isLength({ max: 400 }).withMessage('Reason cannot exceed 400 characters'),
+  body('kind').optional().isIn(['reversal', 'cancellation', 'refund']).withMessage('Invalid reversal type'),
+  body('referenceNumber').optional().trim()
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ 
+      message: 'Validation failed', 
+      errors: errors.array() 
+    });
+  }
+
+  const payment = await Payment.findById(req.params.id);
+  if (!payment) {
+    return res.status(404).json({ message: 'Payment not found' });
+  }
+
+  if (payment.reversalOf) {
+    return res.status(400).json({ message: 'A reversal entry cannot itself be reversed' });
+  }
+
+  if (payment.status === 'reversed') {
+    return res.status(400).json({ message: 'Payment has already been reversed' });
+  }
+
+  if (payment.status !== 'completed') {
+    return res.status(400).json({ message: `Only completed payments can be reversed. Status: ${payment.status}` });
+  }
+
+  const investment = await Investment.findById(payment.investment);
+  if (!investment) {
+    return res.status(404).json({ message: 'Investment not found' });
+  }
+
+  // Prepayment settlements re-cut the schedule, so they cannot be unwound row by row
+  const isPrepaymentSettlement = investment.timeline.some(entry => entry.metadata?.paymentIds?.includes(payment.paymentId));
+  if (isPrepaymentSettlement) {
+    return res.status(400).json({ message: 'Prepayment and closure settlements cannot be reversed' });
+  }
+
+  const allocations = paymentAllocations(payment);
+  const missingMonth = allocations.find(allocation => !investment.schedule.some(row => row.month === allocation.scheduleMonth));
+  if (missingMonth) {
+    return res.status(400).json({ message: `Schedule month ${missingMonth.scheduleMonth} no longer exists on this investment` });
+  }
+
+  const { reason, referenceNumber } = req.body;
+  const kind = req.body.kind || 'reversal';
+  const label = kind.charAt(0).toUpperCase() + kind.slice(1);
+  const negate = (value) => (value ? -value : 0);
+  const now = new Date();
+
+  // Claim the payment first, so two reversals at once cannot both unwind it
+  const claimed = await Payment.findOneAndUpdate(
+    { _id: payment._id, status: 'completed' },
+    { $set: { status: 'reversed', lastModifiedBy: req.user._id, lastModifiedAt: now } }
+  );
+  if (!claimed) {
+    return res.status(409).json({ message: 'Payment has already been reversed or changed; reload and try again' });
+  }
+
+  // Compensating entry mirrors the original with negated amounts. Should recording it fail,
+  // the payment is handed back as completed; once the unwind starts it stays claimed.
+  let reversalPayment;
+  try {
+    reversalPayment = await Payment.create({
+      investment: payment.investment,
+      investor: payment.investor,
+      scheduleMonth: payment.scheduleMonth,
+      allocations: allocations.map(allocation => ({
+        scheduleMonth: allocation.scheduleMonth,
+        penaltyAmount: negate(allocation.penaltyAmount),
+        interestAmount: negate(allocation.interestAmount),
+        principalAmount: negate(allocation.principalAmount),
+        bonusAmount: negate(allocation.bonusAmount),
+        amount: negate(allocation.amount)
+      })),
+      amount: negate(payment.amount),
+      paymentDate: now,
+      paymentMethod: payment.paymentMethod,
+      referenceNumber: referenceNumber || payment.referenceNumber,
+      type: 'reversal',
+      status: 'reversed',
+      interestAmount: negate(payment.interestAmount),
+      principalAmount: negate(payment.principalAmount),
+      penaltyAmount: negate(payment.penaltyAmount),
+      bonusAmount: negate(payment.bonusAmount),
+      // TDS withheld on the original is given back with it
+      tdsAmount: negate(payment.tdsAmount),
+      tds: payment.tds,
+      notes: `${label} of ${payment.paymentId}: ${reason}`,
+      reversalOf: payment._id,
+      processedBy: req.user._id,
+      auditLog: [{
+        action: 'created',
+        performedBy: req.user._id,
+        details: {
+          reversalOf: payment.paymentId,
+          kind,
+          reason
+        }
+      }]
+    });
+  } catch (error) {
+    await Payment.updateOne({ _id: payment._id, status: 'reversed' }, { $set: { status: 'completed' } });
+    throw error;
+  }
+
+  // Unwind the schedule rows, including any late fee waived with the payment
+  await unwindPayment(payment, investment, req.user._id, {
+    description: `${label} of payment ${payment.paymentId}: ${reason}`,
+    metadata: {
+      reversalPaymentId: reversalPayment.paymentId,
+      kind,
+      reason
+    },
+    now
+  });
+
+  await payment.markReversed({ kind, reason, reversalPayment }, req.user._id);
+  await attachReceipts([reversalPayment._id], req.user._id);
+
+  await payment.populate([
+    { path: 'investment', select: 'investmentId principalAmount' },
+    { path: 'investor', select: 'investorId name email phone' },
+    { path: 'processedBy', select: 'name email' },
+    { path: 'reversal.reversedBy', select: 'name email' }
+  ]);
+
+  res.status(201).json({
+    success: true,
+    message: 'Payment reversed successfully',
+    data: {
+      payment,
+      reversal: reversalPayment
+    }
+  });
+}));
+
 // @route   POST /api/payments/:id/documents
 // @desc    Upload additional documents to existing payment
 // @access  Private (Admin, Finance Manager)
@@ -641,6 +1293,69 @@ router.get('/:id/documents', authenticate, [
   });
 }));
 
+// @route   GET /api/payments/:id/receipt
+// @desc    Download the generated receipt (or reversal voucher) PDF, rendering it if missing
+// @access  Private
+router.get('/:id/receipt', authenticate, asyncHandler(async (req, res) => {
+  let query = { _id: req.params.id };
+
+  // If user is investor role, ensure they can only see their payments
+  if (req.user.role === 'investor') {
+    const investor = await Investor.findOne({ userId: req.user._id });
+    if (investor) {
+      query.investor = investor._id;
+    } else {
+      return res.status(404).json({ message: 'Payment not found' });
+    }
+  }
+
+  const payment = await Payment.findOne(query);
+  if (!payment) {
+    return res.status(404).json({ message: 'Payment not found' });
+  }
+
+  if (!isReceiptable(payment)) {
+    return res.status(400).json({ message: `No receipt is issued for a ${payment.awaitingVerification ? 'payment awaiting verification' : `${payment.status} payment`}` });
+  }
+
+  const receipt = await ensurePaymentReceipt(payment, req.user._id);
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename=${receipt.originalName}`);
+  res.sendFile(receipt.filePath);
+}));
+
+// @route   POST /api/payments/:id/receipt/email
+// @desc    Email the generated receipt to the investor
+// @access  Private (Admin, Finance Manager)
+router.post('/:id/receipt/email', authenticate, authorize('admin', 'finance_manager'), asyncHandler(async (req, res) => {
+  const payment = await Payment.findById(req.params.id);
+  if (!payment) {
+    return res.status(404).json({ message: 'Payment not found' });
+  }
+
+  if (!isReceiptable(payment)) {
+    return res.status(400).json({ message: `No receipt is issued for a ${payment.awaitingVerification ? 'payment awaiting verification' : `${payment.status} payment`}` });
+  }
+
+  const result = await emailPaymentReceipt(payment, req.user._id);
+  if (!result.success) {
+    return res.status(503).json({ message: result.message });
+  }
+
+  payment.auditLog.push({
+    action: 'receipt_emailed',
+    performedBy: req.user._id,
+    details: { to: payment.investor.email, messageId: result.messageId }
+  });
+  await payment.save();
+
+  res.json({
+    success: true,
+    message: `Receipt emailed to ${payment.investor.email}`
+  });
+}));
+
 // @route   DELETE /api/payments/:id/documents/:documentId
 // @desc    Delete payment document
 // @access  Private (Admin, Finance Manager)
@@ -690,6 +1405,7 @@ router.get('/stats/overview', authenticate, authorize('admin', 'finance_manager'
     totalPayments,
     completedPayments,
     pendingPayments,
+    failedPayments,
     totalAmount,
     thisMonthPayments,
     paymentsByMethod,
@@ -698,6 +1414,8 @@ router.get('/stats/overview', authenticate, authorize('admin', 'finance_manager'
     Payment.countDocuments(),
     Payment.countDocuments({ status: 'completed' }),
     Payment.countDocuments({ status: 'pending' }),
+    // Counted directly: the rest of the total also holds reversed, reversal and cancelled payments
+    Payment.countDocuments({ status: 'failed' }),
     Payment.aggregate([
       { $match: { status: 'completed' } },
       { $group: { _id: null, total: { $sum: '$amount' } } }
@@ -735,7 +1453,7 @@ router.get('/stats/overview', authenticate, authorize('admin', 'finance_manager'
       totalPayments,
       completedPayments,
       pendingPayments,
-      failedPayments: totalPayments - completedPayments - pendingPayments,
+      failedPayments,
       totalAmount: totalAmount[0]?.total || 0,
       thisMonthPayments,
       averagePayment: completedPayments > 0 ? 
@@ -0,0 +1,201 @@
+// backend/routes/payoutFiles.js - Bank bulk-payment (NEFT/RTGS) files for due schedule rows
+import express from 'express';
+import { body, query, validationResult } from 'express-validator';
+import PayoutExport from '../models/PayoutExport.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { parseDueRange } from '../services/payoutRuns.js';
+import {
+  PayoutFileError,
+  generatePayoutFile,
+  listBankFileFormats,
+  previewPayoutFile,
+  renderPayoutFile
+} from '../services/payoutFiles.js';
+import { BANK_FILE_FORMATS, TRANSFER_MODES } from '../utils/bankFileFormats.js';
+import { maskAccount } from '../utils/masking.js';
+import { roundCurrency } from '../../shared/scheduleEngine.js';
+
+const router = express.Router();
+
+// @route   GET /api/payout-files/formats
+// @desc    List the supported bank file templates
+// @access  Private (Admin, Finance Manager)
+router.get('/formats', authenticate, authorize('admin', 'finance_manager'), asyncHandler(async (req, res) => {
+  res.json({
+    success: true,
+    data: listBankFileFormats()
+  });
+}));
+
+// @route   GET /api/payout-files/preview
+// @desc    Due rows for a period with beneficiary bank details and validation errors
+// @access  Private (Admin, Finance Manager)
+router.get('/preview', authenticate, authorize('admin', 'finance_manager'), [
+  query('dueFrom').isISO8601().withMessage('Valid start of due date range is required'),
+  query('dueTo').isISO8601().withMessage('Valid end of due date range is required'),
+  query('paymentDate').optional().isISO8601().withMessage('Invalid payment date'),
+  query('transferMode').optional().isIn(['auto', ...TRANSFER_MODES]).withMessage('Invalid transfer mode')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+
+  const { dueFrom, dueTo, paymentDate } = parseDueRange(req.query);
+  if (dueFrom > dueTo) {
+    return res.status(400).json({ message: 'Due date range ends before it starts' });
+  }
+
+  const rows = await previewPayoutFile({ dueFrom, dueTo, paymentDate, transferMode: req.query.transferMode });
+  const valid = rows.filter(row => !row.errors.length);
+
+  res.json({
+    success: true,
+    data: {
+      rows: rows.map(row => ({ ...row, accountNumber: maskAccount(row.accountNumber) })),
+      totals: {
+        count: rows.length,
+        amount: roundCurrency(rows.reduce((sum, row) => sum + row.amount, 0)),
+        valid: valid.length,
+        invalid: rows.length - valid.length
+      }
+    }
+  });
+}));
+
+// @route   POST /api/payout-files
+// @desc    Generate a bank file for the selected due rows and record the export
+// @access  Private (Admin, Finance Manager)
+router.post('/', authenticate, authorize('admin', 'finance_manager'), [
+  body('dueFrom').isISO8601().withMessage('Valid start of due date range is required'),
+  body('dueTo').isISO8601().withMessage('Valid end of due date range is required'),
+  body('paymentDate').optional().isISO8601().withMessage('Invalid payment date'),
+  body('format').isIn(Object.keys(BANK_FILE_FORMATS)).withMessage('Unsupported bank file format'),
+  body('transferMode').optional().isIn(['auto', ...TRANSFER_MODES]).withMessage('Invalid transfer mode'),
+  body('debitAccount').optional().trim()
+    .matches(/^\d{9,18}$/).withMessage('Debit account must be 9 to 18 digits'),
+  body('rows').isArray({ min: 1 }).withMessage('Select at least one due row'),
+  body('rows.*.investment').isMongoId().withMessage('Invalid investment ID'),
+  body('rows.*.scheduleMonth').isInt({ min: 1 }).withMessage('Schedule month must be a positive integer')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+
+  const { dueFrom, dueTo, paymentDate } = parseDueRange(req.body);
+  if (dueFrom > dueTo) {
+    return res.status(400).json({ message: 'Due date range ends before it starts' });
+  }
+
+  let payoutExport;
+  try {
+    payoutExport = await generatePayoutFile({
+      dueFrom,
+      dueTo,
+      paymentDate,
+      format: req.body.format,
+      transferMode: req.body.transferMode,
+      debitAccount: req.body.debitAccount,
+      rows: req.body.rows.map(row => ({ investment: row.investment, scheduleMonth: parseInt(row.scheduleMonth) }))
+    }, req.user._id);
+  } catch (error) {
+    if (error instanceof PayoutFileError) {
+      return res.status(400).json({ message: error.message, errors: error.rowErrors });
+    }
+    throw error;
+  }
+
+  await payoutExport.populate('createdBy', 'name email');
+
+  res.status(201).json({
+    success: true,
+    message: `Bank file ${payoutExport.fileName} generated with ${payoutExport.totals.count} payments`,
+    data: payoutExport
+  });
+}));
+
+// @route   GET /api/payout-files
+// @desc    List generated bank files
+// @access  Private (Admin, Finance Manager)
+router.get('/', authenticate, authorize('admin', 'finance_manager'), [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+
+  const page = parseInt(req.query.page) || 1;
+  const limit = parseInt(req.query.limit) || 10;
+  const skip = (page - 1) * limit;
+
+  const [exports, total] = await Promise.all([
+    PayoutExport.find()
+      .select('-rows')
+      .populate('createdBy', 'name email')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit),
+    PayoutExport.countDocuments()
+  ]);
+
+  res.json({
+    success: true,
+    data: exports,
+    pagination: {
+      current: page,
+      pages: Math.ceil(total / limit),
+      total,
+      limit
+    }
+  });
+}));
+
+// @route   GET /api/payout-files/:exportId
+// @desc    Get a generated bank file with its rows
+// @access  Private (Admin, Finance Manager)
+router.get('/:exportId', authenticate, authorize('admin', 'finance_manager'), asyncHandler(async (req, res) => {
+  const payoutExport = await PayoutExport.findOne({ exportId: req.params.exportId })
+    .populate('createdBy', 'name email');
+
+  if (!payoutExport) {
+    return res.status(404).json({ message: 'Bank file not found' });
+  }
+
+  res.json({
+    success: true,
+    data: payoutExport
+  });
+}));
+
+// @route   GET /api/payout-files/:exportId/download
+// @desc    Download a generated bank file in its bank's upload format
+// @access  Private (Admin, Finance Manager)
+router.get('/:exportId/download', authenticate, authorize('admin', 'finance_manager'), asyncHandler(async (req, res) => {
+  const payoutExport = await PayoutExport.findOne({ exportId: req.params.exportId });
+
+  if (!payoutExport) {
+    return res.status(404).json({ message: 'Bank file not found' });
+  }
+
+  const { fileName, content } = renderPayoutFile(payoutExport);
+  const extension = BANK_FILE_FORMATS[payoutExport.format].extension;
+
+  res.setHeader('Content-Type', extension === 'csv' ? 'text/csv' : 'text/plain');
+  res.setHeader('Content-Disposition', `attachment; filename=${fileName}`);
+  res.send(content);
+}));
+
+export default router;
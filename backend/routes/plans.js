@@ -3,8 +3,11 @@ import express from 'express';
 import { body, validationResult, query } from 'express-validator';
 import Plan from '../models/Plan.js';
 import Investment from '../models/Investment.js';
+import Settings from '../models/Settings.js';
 import { authenticate, authorize } from '../middleware/auth.js';
 import { asyncHandler } from '../middleware/errorHandler.js';
+import { isValidAllocationOrder } from '../utils/paymentAllocation.js';
+import { DAY_COUNT_CONVENTIONS } from '../../shared/interestAccrual.js';
 
 const router = express.Router();
 
@@ -140,12 +143,19 @@ router.post('/', authenticate, authorize('admin', 'finance_manager'), [
   body('description').optional().trim(),
   body('interestType').isIn(['flat', 'reducing']).withMessage('Interest type must be flat or reducing'),
   body('interestRate').isFloat({ min: 0, max: 100 }).withMessage('Interest rate must be between 0 and 100'),
+  body('rateBasis').optional().isIn(['monthly', 'annual_nominal', 'annual_effective']).withMessage('Invalid rate basis'),
   body('minInvestment').isFloat({ min: 1000 }).withMessage('Minimum investment must be at least 1000'),
   body('maxInvestment').isFloat({ min: 1000 }).withMessage('Maximum investment must be at least 1000'),
   body('tenure').isInt({ min: 1, max: 240 }).withMessage('Tenure must be between 1 and 240 months'),
   body('paymentType').isIn(['interest', 'interestWithPrincipal']).withMessage('Invalid payment type'),
   body('features').optional().isArray(),
   body('riskLevel').optional().isIn(['low', 'medium', 'high']),
+  body('dayCountConvention').optional({ nullable: true }).isIn(DAY_COUNT_CONVENTIONS).withMessage('Invalid day-count convention'),
+  body('prematureWithdrawalPenalty').optional().isFloat({ min: 0, max: 100 }).withMessage('Premature withdrawal penalty must be between 0 and 100'),
+  body('lateFeeType').optional({ nullable: true }).isIn(['flat', 'percentage']).withMessage('Invalid late fee type'),
+  body('lateFeeRate').optional({ nullable: true }).isFloat({ min: 0 }).withMessage('Late fee must be non-negative'),
+  body('allocationOrder').optional().custom(isValidAllocationOrder).withMessage('Allocation order must list penalty, interest and principal exactly once'),
+  body('allocationStrategy').optional().isIn(['component_first', 'row_by_row']).withMessage('Invalid allocation strategy'),
   
   // Interest payment validation
   body('interestPayment.dateOfInvestment').optional().isISO8601().withMessage('Invalid date'),
@@ -215,13 +225,20 @@ router.put('/:id', authenticate, authorize('admin', 'finance_manager'), [
   body('description').optional().trim(),
   body('interestType').optional().isIn(['flat', 'reducing']).withMessage('Interest type must be flat or reducing'),
   body('interestRate').optional().isFloat({ min: 0, max: 100 }).withMessage('Interest rate must be between 0 and 100'),
+  body('rateBasis').optional().isIn(['monthly', 'annual_nominal', 'annual_effective']).withMessage('Invalid rate basis'),
   body('minInvestment').optional().isFloat({ min: 1000 }).withMessage('Minimum investment must be at least 1000'),
   body('maxInvestment').optional().isFloat({ min: 1000 }).withMessage('Maximum investment must be at least 1000'),
   body('tenure').optional().isInt({ min: 1, max: 240 }).withMessage('Tenure must be between 1 and 240 months'),
   body('paymentType').optional().isIn(['interest', 'interestWithPrincipal']).withMessage('Invalid payment type'),
   body('isActive').optional().isBoolean(),
   body('features').optional().isArray(),
-  body('riskLevel').optional().isIn(['low', 'medium', 'high'])
+  body('riskLevel').optional().isIn(['low', 'medium', 'high']),
+  body('dayCountConvention').optional({ nullable: true }).isIn(DAY_COUNT_CONVENTIONS).withMessage('Invalid day-count convention'),
+  body('prematureWithdrawalPenalty').optional().isFloat({ min: 0, max: 100 }).withMessage('Premature withdrawal penalty must be between 0 and 100'),
+  body('lateFeeType').optional({ nullable: true }).isIn(['flat', 'percentage']).withMessage('Invalid late fee type'),
+  body('lateFeeRate').optional({ nullable: true }).isFloat({ min: 0 }).withMessage('Late fee must be non-negative'),
+  body('allocationOrder').optional().custom(isValidAllocationOrder).withMessage('Allocation order must list penalty, interest and principal exactly once'),
+  body('allocationStrategy').optional().isIn(['component_first', 'row_by_row']).withMessage('Invalid allocation strategy')
 ], asyncHandler(async (req, res) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
@@ -254,7 +271,7 @@ router.put('/:id', authenticate, authorize('admin', 'finance_manager'), [
     status: 'active'
   });
 
-  const majorFields = ['interestType', 'interestRate', 'tenure', 'paymentType'];
+  const majorFields = ['interestType', 'interestRate', 'rateBasis', 'tenure', 'paymentType'];
   const hasMajorChanges = majorFields.some(field => updateData[field] !== undefined);
 
   if (activeInvestments > 0 && hasMajorChanges) {
@@ -328,7 +345,8 @@ router.post('/:id/calculate', authenticate, [
     });
   }
 
-  const returns = plan.calculateExpectedReturns(principalAmount);
+  const dayCountConvention = plan.getDayCountConvention(await Settings.getDayCountConvention());
+  const returns = plan.calculateExpectedReturns(principalAmount, new Date(), dayCountConvention);
 
   res.json({
     success: true,
@@ -339,7 +357,9 @@ router.post('/:id/calculate', authenticate, [
         paymentType: plan.paymentType,
         interestType: plan.interestType,
         interestRate: plan.interestRate,
-        tenure: plan.tenure
+        rateBasis: plan.rateBasis,
+        tenure: plan.tenure,
+        dayCountConvention
       },
       calculations: returns
     }
@@ -376,7 +396,8 @@ router.post('/:id/generate-schedule', authenticate, [
   }
 
   const invDate = investmentDate ? new Date(investmentDate) : new Date();
-  const schedule = plan.generateSchedule(principalAmount, invDate);
+  const dayCountConvention = plan.getDayCountConvention(await Settings.getDayCountConvention());
+  const schedule = plan.generateSchedule(principalAmount, invDate, dayCountConvention);
 
   res.json({
     success: true,
@@ -386,7 +407,9 @@ router.post('/:id/generate-schedule', authenticate, [
         paymentType: plan.paymentType,
         interestType: plan.interestType,
         interestRate: plan.interestRate,
-        tenure: plan.tenure
+        rateBasis: plan.rateBasis,
+        tenure: plan.tenure,
+        dayCountConvention
       },
       principalAmount,
       investmentDate: invDate,
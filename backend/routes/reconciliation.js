@@ -0,0 +1,698 @@
+// backend/routes/reconciliation.js - Bank statement import and reconciliation against scheduled dues
+import express from 'express';
+import fs from 'fs/promises';
+import { body, param, query, validationResult } from 'express-validator';
+import BankStatement from '../models/BankStatement.js';
+import Investment from '../models/Investment.js';
+import Payment from '../models/Payment.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { uploadSingle, handleUploadError, cleanupUploadedFiles } from '../middleware/upload.js';
+import { PAYABLE_STATUSES, recordSchedulePayment } from '../services/paymentPosting.js';
+import { attachReceipts } from '../services/paymentReceipts.js';
+import { exportReferences } from '../services/payoutFiles.js';
+import { estimateWithholding } from '../services/tds.js';
+import { rowOutstanding } from '../utils/paymentAllocation.js';
+import { DEFAULT_MATCH_OPTIONS, keptBackBySettlement, paymentCandidate, proposeMatches } from '../utils/reconciliation.js';
+import { roundCurrency } from '../../shared/scheduleEngine.js';
+import {
+  STATEMENT_FORMATS,
+  CSV_DATE_FORMATS,
+  StatementParseError,
+  detectStatementFormat,
+  parseStatement
+} from '../utils/statementParsers.js';
+
+const router = express.Router();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const populateStatement = (statement) => statement.populate([
+  { path: 'uploadedBy', select: 'name email' },
+  { path: 'lines.match.investment', select: 'investmentId' },
+  { path: 'lines.match.investor', select: 'investorId name' },
+  { path: 'lines.match.payment', select: 'paymentId amount paymentDate' },
+  { path: 'lines.payment', select: 'paymentId amount status awaitingVerification' },
+  { path: 'lines.resolvedBy', select: 'name email' }
+]);
+
+// Payouts leave the company account, so outstanding schedule rows due around the statement period
+// and recorded payments not yet tied to a statement line are matched against debits. Credits are
+// matched against investments funded in the period and bank transfers the bank may have sent back.
+const loadCandidates = async (statement) => {
+  const windowMs = statement.dateWindowDays * DAY_MS;
+  const from = new Date(statement.periodStart.getTime() - windowMs);
+  const to = new Date(statement.periodEnd.getTime() + windowMs);
+
+  const [investments, payments, fundedInvestments, transfers] = await Promise.all([
+    Investment.find({
+      status: { $in: PAYABLE_STATUSES },
+      schedule: { $elemMatch: { status: { $in: ['pending', 'overdue', 'partial'] }, dueDate: { $gte: from, $lte: to } } }
+    })
+      .select('investmentId investor schedule')
+      .populate('investor', 'investorId kyc.bankDetails.accountNumber'),
+    // Penalties are kept back rather than sent, and reversal entries move no money
+    Payment.find({
+      status: 'completed',
+      type: { $nin: ['penalty', 'reversal'] },
+      amount: { $gt: 0 },
+      paymentDate: { $gte: from, $lte: to },
+      'bankReconciliation.statement': { $exists: false }
+    })
+      .select('paymentId investment investor amount tdsAmount paymentDate referenceNumber')
+      .populate('investment', 'investmentId')
+      .populate('investor', 'investorId kyc.bankDetails.accountNumber'),
+    Investment.find({
+      status: { $in: PAYABLE_STATUSES },
+      investmentDate: { $gte: from, $lte: to },
+      'bankReconciliation.statement': { $exists: false }
+    })
+      .select('investmentId investor principalAmount investmentDate')
+      .populate('investor', 'investorId kyc.bankDetails.accountNumber'),
+    // A returned transfer may already have been reversed by the time the statement comes in
+    Payment.find({
+      status: { $in: ['completed', 'reversed'] },
+      type: { $nin: ['penalty', 'reversal'] },
+      paymentMethod: 'bank_transfer',
+      amount: { $gt: 0 },
+      paymentDate: { $gte: from, $lte: to },
+      'bankReturn.statement': { $exists: false }
+    })
+      .select('paymentId investment investor amount tdsAmount paymentDate referenceNumber')
+      .populate('investment', 'investmentId')
+      .populate('investor', 'investorId kyc.bankDetails.accountNumber')
+  ]);
+
+  // Rows sent in a bank payout file carry its reference, which the bank repeats in the narration
+  const references = await exportReferences(investments.map(investment => investment._id));
+  const candidates = [];
+
+  investments.forEach(investment => {
+    investment.schedule
+      .filter(row => ['pending', 'overdue', 'partial'].includes(row.status) && row.dueDate >= from && row.dueDate <= to)
+      .forEach(row => {
+        const owed = rowOutstanding(row);
+        const amount = roundCurrency(owed.penalty + owed.interest + owed.principal);
+        if (amount <= 0) return;
+
+        candidates.push({
+          key: `schedule:${investment._id}:${row.month}`,
+          kind: 'schedule',
+          direction: 'debit',
+          amount,
+          interestAmount: owed.interest,
+          date: row.dueDate,
+          investment: investment._id,
+          investor: investment.investor?._id,
+          scheduleMonth: row.month,
+          referenceNumber: references.get(`${investment._id}:${row.month}`)?.reference,
+          investmentId: investment.investmentId,
+          investorId: investment.investor?.investorId,
+          accountNumber: investment.investor?.kyc?.bankDetails?.accountNumber
+        });
+      });
+  });
+
+  // The bank pays out the amount less the TDS that will be withheld on it
+  const withholding = await estimateWithholding(candidates);
+  candidates.forEach((candidate, index) => {
+    candidate.amount = roundCurrency(candidate.amount - withholding[index]);
+  });
+
+  // A prepayment or closure settlement goes out less the penalty kept back from it
+  const keptBack = keptBackBySettlement(await Payment.find({
+    deductedFrom: { $in: [...payments, ...transfers].map(payment => payment._id) },
+    status: { $in: ['completed', 'reversed'] }
+  }).select('deductedFrom amount'));
+
+  payments.forEach(payment => candidates.push(paymentCandidate(payment, 'payment', 'debit', keptBack)));
+  transfers.forEach(payment => candidates.push(paymentCandidate(payment, 'return', 'credit', keptBack)));
+
+  fundedInvestments.forEach(investment => {
+    candidates.push({
+      key: `investment:${investment._id}`,
+      kind: 'investment',
+      direction: 'credit',
+      amount: investment.principalAmount,
+      date: investment.investmentDate,
+      investment: investment._id,
+      investor: investment.investor?._id,
+      investmentId: investment.investmentId,
+      investorId: investment.investor?.investorId,
+      accountNumber: investment.investor?.kyc?.bankDetails?.accountNumber
+    });
+  });
+
+  return candidates;
+};
+
+const candidateKey = (match) => {
+  if (match.kind === 'payment' || match.kind === 'return') return `${match.kind}:${match.payment}`;
+  if (match.kind === 'investment') return `investment:${match.investment}`;
+  return `schedule:${match.investment}:${match.scheduleMonth}`;
+};
+
+// Which way money moves for each kind of match
+const MATCH_DIRECTIONS = {
+  schedule: 'debit',
+  payment: 'debit',
+  investment: 'credit',
+  return: 'credit'
+};
+
+// (Re)propose matches for open lines; manual matches are kept and their targets left alone
+const runMatching = async (statement) => {
+  const openLines = statement.lines.filter(line =>
+    line.status === 'unmatched' || (line.status === 'proposed' && !line.match?.manual));
+
+  const claimed = new Set(statement.lines
+    .filter(line => line.status === 'proposed' && line.match?.manual)
+    .map(line => candidateKey(line.match)));
+
+  const candidates = (await loadCandidates(statement)).filter(candidate => !claimed.has(candidate.key));
+  const matches = proposeMatches(
+    openLines.map(line => ({
+      key: line._id.toString(),
+      date: line.date,
+      amount: line.amount,
+      direction: line.direction,
+      description: line.description,
+      reference: line.reference,
+      accountNumber: line.accountNumber
+    })),
+    candidates,
+    { ...DEFAULT_MATCH_OPTIONS, dateWindowDays: statement.dateWindowDays }
+  );
+
+  openLines.forEach(line => {
+    const proposal = matches.get(line._id.toString());
+    if (!proposal) {
+      line.status = 'unmatched';
+      line.match = undefined;
+      return;
+    }
+
+    const { candidate, confidence, reasons } = proposal;
+    line.status = 'proposed';
+    line.match = {
+      kind: candidate.kind,
+      investment: candidate.investment,
+      investor: candidate.investor,
+      scheduleMonth: candidate.scheduleMonth,
+      payment: candidate.payment,
+      confidence,
+      reasons,
+      manual: false
+    };
+  });
+};
+
+// Record or link the payment (or investment) behind a proposed line; failures send the line
+// back to the exceptions queue. A returned payout is only confirmed once the payment is reversed.
+const confirmLine = async (statement, line, user) => {
+  const bankReconciliation = {
+    statement: statement._id,
+    lineId: line._id,
+    reconciledAt: new Date(),
+    reconciledBy: user._id
+  };
+
+  let payment;
+  let investment;
+  if (line.match.kind === 'investment') {
+    investment = await Investment.findOneAndUpdate(
+      { _id: line.match.investment, 'bankReconciliation.statement': { $exists: false } },
+      { $set: { bankReconciliation } },
+      { new: true }
+    ).select('investmentId');
+    if (!investment) {
+      return { message: 'Matched investment no longer exists or is already reconciled' };
+    }
+  } else if (line.match.kind === 'return') {
+    payment = await Payment.findById(line.match.payment);
+    if (!payment) {
+      return { message: 'Matched payment no longer exists' };
+    }
+    if (payment.bankReturn?.statement) {
+      return { message: `The return of payment ${payment.paymentId} is already reconciled` };
+    }
+    if (payment.status !== 'reversed') {
+      return { message: `Payment ${payment.paymentId} came back from the bank; reverse it, then confirm this line` };
+    }
+
+    payment.bankReturn = bankReconciliation;
+    payment.auditLog.push({
+      action: 'updated',
+      performedBy: user._id,
+      details: { returned: { statementId: statement.statementId, lineNo: line.lineNo } }
+    });
+    await payment.save();
+  } else if (line.match.kind === 'payment') {
+    payment = await Payment.findById(line.match.payment);
+    if (!payment || payment.status !== 'completed') {
+      return { message: 'Matched payment is no longer completed' };
+    }
+    if (payment.bankReconciliation?.statement) {
+      return { message: `Payment ${payment.paymentId} is already reconciled` };
+    }
+
+    payment.bankReconciliation = bankReconciliation;
+    payment.auditLog.push({
+      action: 'updated',
+      performedBy: user._id,
+      details: { reconciled: { statementId: statement.statementId, lineNo: line.lineNo } }
+    });
+    await payment.save();
+  } else {
+    const result = await recordSchedulePayment({
+      investmentId: line.match.investment,
+      scheduleMonth: line.match.scheduleMonth,
+      cashAmount: line.amount,
+      paymentDate: line.date,
+      paymentMethod: 'bank_transfer',
+      referenceNumber: line.reference || undefined,
+      notes: `Reconciled from bank statement ${statement.statementId}, line ${line.lineNo}`,
+      bankReconciliation,
+      processedBy: user._id
+    });
+    if (!result.payment) {
+      return { message: result.message };
+    }
+    payment = result.payment;
+  }
+
+  line.status = 'matched';
+  line.payment = payment?._id || null;
+  line.resolvedBy = user._id;
+  line.resolvedAt = new Date();
+  return { payment, investment };
+};
+
+// @route   POST /api/reconciliation/statements
+// @desc    Import a bank statement (CSV, OFX or MT940) and propose matches
+// @access  Private (Admin, Finance Manager)
+router.post('/statements',
+  authenticate,
+  authorize('admin', 'finance_manager'),
+  uploadSingle('statement'),
+  handleUploadError,
+  [
+    body('format').optional().isIn(STATEMENT_FORMATS).withMessage(`Format must be one of: ${STATEMENT_FORMATS.join(', ')}`),
+    body('mapping').optional().isJSON().withMessage('Column mapping must be a JSON object'),
+    body('dateWindowDays').optional().isInt({ min: 0, max: 30 }).withMessage('Date window must be between 0 and 30 days')
+  ],
+  asyncHandler(async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      cleanupUploadedFiles(req.file);
+      return res.status(400).json({ 
+        message: 'Validation failed', 
+        errors: errors.array() 
+      });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({ message: 'No statement file uploaded' });
+    }
+
+    const text = await fs.readFile(req.file.path, 'utf8');
+    const format = req.body.format || detectStatementFormat(req.file.originalname, text);
+    const mapping = req.body.mapping ? JSON.parse(req.body.mapping) : {};
+
+    if (mapping.dateFormat && !CSV_DATE_FORMATS.includes(mapping.dateFormat)) {
+      cleanupUploadedFiles(req.file);
+      return res.status(400).json({ message: `Date format must be one of: ${CSV_DATE_FORMATS.join(', ')}` });
+    }
+
+    let parsed;
+    try {
+      parsed = parseStatement(text, format, mapping);
+    } catch (error) {
+      cleanupUploadedFiles(req.file);
+      if (error instanceof StatementParseError) {
+        return res.status(400).json({ message: error.message });
+      }
+      throw error;
+    }
+
+    if (parsed.lines.length === 0) {
+      cleanupUploadedFiles(req.file);
+      return res.status(400).json({ message: 'No transactions found in the statement' });
+    }
+
+    const dates = parsed.lines.map(line => line.date.getTime());
+    const statement = new BankStatement({
+      originalName: req.file.originalname,
+      fileName: req.file.filename,
+      format,
+      accountNumber: parsed.accountNumber,
+      periodStart: new Date(Math.min(...dates)),
+      periodEnd: new Date(Math.max(...dates)),
+      dateWindowDays: req.body.dateWindowDays !== undefined
+        ? parseInt(req.body.dateWindowDays)
+        : DEFAULT_MATCH_OPTIONS.dateWindowDays,
+      lines: parsed.lines,
+      uploadedBy: req.user._id
+    });
+
+    await runMatching(statement);
+    await statement.save();
+    await populateStatement(statement);
+
+    res.status(201).json({
+      success: true,
+      message: `Imported ${statement.summary.total} transactions, ${statement.summary.proposed} matched automatically`,
+      data: statement
+    });
+  })
+);
+
+// @route   GET /api/reconciliation/statements
+// @desc    List imported statements
+// @access  Private (Admin, Finance Manager)
+router.get('/statements', authenticate, authorize('admin', 'finance_manager'), [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ 
+      message: 'Validation failed', 
+      errors: errors.array() 
+    });
+  }
+
+  const page = parseInt(req.query.page) || 1;
+  const limit = parseInt(req.query.limit) || 20;
+  const skip = (page - 1) * limit;
+
+  const [statements, total] = await Promise.all([
+    BankStatement.find()
+      .select('-lines')
+      .populate('uploadedBy', 'name email')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit),
+    BankStatement.countDocuments()
+  ]);
+
+  res.json({
+    success: true,
+    data: statements,
+    pagination: {
+      current: page,
+      pages: Math.ceil(total / limit),
+      total,
+      limit
+    }
+  });
+}));
+
+// @route   GET /api/reconciliation/exceptions
+// @desc    Unmatched statement lines across all statements
+// @access  Private (Admin, Finance Manager)
+router.get('/exceptions', authenticate, authorize('admin', 'finance_manager'), [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ 
+      message: 'Validation failed', 
+      errors: errors.array() 
+    });
+  }
+
+  const page = parseInt(req.query.page) || 1;
+  const limit = parseInt(req.query.limit) || 20;
+  const skip = (page - 1) * limit;
+
+  const [result] = await BankStatement.aggregate([
+    { $match: { 'lines.status': 'unmatched' } },
+    { $unwind: '$lines' },
+    { $match: { 'lines.status': 'unmatched' } },
+    { $sort: { 'lines.date': -1, 'lines.lineNo': 1 } },
+    {
+      $facet: {
+        items: [
+          { $skip: skip },
+          { $limit: limit },
+          {
+            $project: {
+              _id: 0,
+              statement: { _id: '$_id', statementId: '$statementId', originalName: '$originalName' },
+              line: '$lines'
+            }
+          }
+        ],
+        total: [{ $count: 'count' }]
+      }
+    }
+  ]);
+
+  const total = result.total[0]?.count || 0;
+
+  res.json({
+    success: true,
+    data: result.items,
+    pagination: {
+      current: page,
+      pages: Math.ceil(total / limit),
+      total,
+      limit
+    }
+  });
+}));
+
+// @route   GET /api/reconciliation/statements/:id
+// @desc    Statement with its lines and proposed matches
+// @access  Private (Admin, Finance Manager)
+router.get('/statements/:id', authenticate, authorize('admin', 'finance_manager'), [
+  param('id').isMongoId().withMessage('Invalid statement ID')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ 
+      message: 'Validation failed', 
+      errors: errors.array() 
+    });
+  }
+
+  const statement = await BankStatement.findById(req.params.id);
+  if (!statement) {
+    return res.status(404).json({ message: 'Statement not found' });
+  }
+
+  await populateStatement(statement);
+
+  res.json({
+    success: true,
+    data: statement
+  });
+}));
+
+// @route   POST /api/reconciliation/statements/:id/rematch
+// @desc    Re-run automatic matching for open lines
+// @access  Private (Admin, Finance Manager)
+router.post('/statements/:id/rematch', authenticate, authorize('admin', 'finance_manager'), [
+  param('id').isMongoId().withMessage('Invalid statement ID')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ 
+      message: 'Validation failed', 
+      errors: errors.array() 
+    });
+  }
+
+  const statement = await BankStatement.findById(req.params.id);
+  if (!statement) {
+    return res.status(404).json({ message: 'Statement not found' });
+  }
+
+  await runMatching(statement);
+  await statement.save();
+  await populateStatement(statement);
+
+  res.json({
+    success: true,
+    message: `${statement.summary.proposed} lines matched, ${statement.summary.unmatched} left for review`,
+    data: statement
+  });
+}));
+
+// @route   POST /api/reconciliation/statements/:id/confirm
+// @desc    Confirm proposed matches, recording a payment for each matched schedule row
+// @access  Private (Admin, Finance Manager)
+router.post('/statements/:id/confirm', authenticate, authorize('admin', 'finance_manager'), [
+  param('id').isMongoId().withMessage('Invalid statement ID'),
+  body('lineIds').optional().isArray({ min: 1 }).withMessage('lineIds must be a non-empty array'),
+  body('lineIds.*').isMongoId().withMessage('Invalid line ID')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ 
+      message: 'Validation failed', 
+      errors: errors.array() 
+    });
+  }
+
+  const statement = await BankStatement.findById(req.params.id);
+  if (!statement) {
+    return res.status(404).json({ message: 'Statement not found' });
+  }
+
+  // Without lineIds every proposed line is confirmed
+  const lines = req.body.lineIds
+    ? req.body.lineIds.map(id => statement.lines.id(id)).filter(Boolean)
+    : statement.lines.filter(line => line.status === 'proposed');
+
+  const results = { confirmed: [], failed: [] };
+  const recorded = [];
+
+  // One at a time - several lines can settle rows on the same investment
+  for (const line of lines) {
+    if (line.status !== 'proposed') {
+      results.failed.push({ lineId: line._id, lineNo: line.lineNo, message: `Line is ${line.status}, not proposed` });
+      continue;
+    }
+
+    try {
+      const { payment, investment, message } = await confirmLine(statement, line, req.user);
+      if (payment || investment) {
+        results.confirmed.push({
+          lineId: line._id,
+          lineNo: line.lineNo,
+          ...(payment ? { paymentId: payment.paymentId } : { investmentId: investment.investmentId })
+        });
+        if (line.match.kind === 'schedule' && payment.status === 'completed') recorded.push(payment._id);
+        continue;
+      }
+      line.note = message;
+      results.failed.push({ lineId: line._id, lineNo: line.lineNo, message });
+    } catch (error) {
+      line.note = error.message;
+      results.failed.push({ lineId: line._id, lineNo: line.lineNo, message: error.message });
+    }
+
+    line.status = 'unmatched';
+    line.match = undefined;
+  }
+
+  await statement.save();
+  await attachReceipts(recorded, req.user._id);
+  await populateStatement(statement);
+
+  res.json({
+    success: true,
+    message: `${results.confirmed.length} confirmed, ${results.failed.length} sent to exceptions`,
+    data: { statement, results }
+  });
+}));
+
+// @route   PUT /api/reconciliation/statements/:id/lines/:lineId
+// @desc    Manually match, ignore or unmatch a statement line
+// @access  Private (Admin, Finance Manager)
+router.put('/statements/:id/lines/:lineId', authenticate, authorize('admin', 'finance_manager'), [
+  param('id').isMongoId().withMessage('Invalid statement ID'),
+  param('lineId').isMongoId().withMessage('Invalid line ID'),
+  body('action').isIn(['match', 'ignore', 'unmatch']).withMessage('Action must be match, ignore or unmatch'),
+  body('kind').if(body('action').equals('match')).isIn(['schedule', 'payment']).withMessage('Match kind must be schedule or payment'),
+  body('investment').if(body('kind').equals('schedule')).isMongoId().withMessage('Invalid investment ID'),
+  body('scheduleMonth').if(body('kind').equals('schedule')).isInt({ min: 1 }).withMessage('Schedule month must be a positive integer'),
+  body('payment').if(body('kind').equals('payment')).isMongoId().withMessage('Invalid payment ID'),
+  body('note').optional().trim().isLength({ max: 500 }).withMessage('Note cannot exceed 500 characters')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ 
+      message: 'Validation failed', 
+      errors: errors.array() 
+    });
+  }
+
+  const statement = await BankStatement.findById(req.params.id);
+  if (!statement) {
+    return res.status(404).json({ message: 'Statement not found' });
+  }
+
+  const line = statement.lines.id(req.params.lineId);
+  if (!line) {
+    return res.status(404).json({ message: 'Statement line not found' });
+  }
+
+  if (line.status === 'matched') {
+    return res.status(400).json({ message: 'Line is already reconciled; reverse the payment to undo it' });
+  }
+
+  const { action, kind, note } = req.body;
+
+  if (action === 'match') {
+    if (MATCH_DIRECTIONS[kind] !== line.direction) {
+      return res.status(400).json({ message: `A ${line.direction} line cannot be matched to a ${kind === 'schedule' ? 'scheduled due' : 'payment'}` });
+    }
+
+    if (kind === 'payment') {
+      const payment = await Payment.findById(req.body.payment);
+      if (!payment || payment.status !== 'completed') {
+        return res.status(400).json({ message: 'Only completed payments can be matched' });
+      }
+      if (payment.bankReconciliation?.statement) {
+        return res.status(400).json({ message: `Payment ${payment.paymentId} is already reconciled` });
+      }
+
+      line.match = {
+        kind,
+        investment: payment.investment,
+        investor: payment.investor,
+        payment: payment._id,
+        reasons: [],
+        manual: true
+      };
+    } else {
+      const scheduleMonth = parseInt(req.body.scheduleMonth);
+      const investment = await Investment.findById(req.body.investment).select('investor status schedule');
+      if (!investment || !PAYABLE_STATUSES.includes(investment.status)) {
+        return res.status(400).json({ message: 'Only active or defaulted investments can be matched' });
+      }
+
+      const row = investment.schedule.find(item => item.month === scheduleMonth);
+      if (!row || row.status === 'paid') {
+        return res.status(400).json({ message: `Schedule month ${scheduleMonth} has nothing outstanding` });
+      }
+
+      line.match = {
+        kind,
+        investment: investment._id,
+        investor: investment.investor,
+        scheduleMonth,
+        reasons: [],
+        manual: true
+      };
+    }
+    line.status = 'proposed';
+  } else if (action === 'ignore') {
+    line.status = 'ignored';
+    line.match = undefined;
+    line.resolvedBy = req.user._id;
+    line.resolvedAt = new Date();
+  } else {
+    line.status = 'unmatched';
+    line.match = undefined;
+  }
+
+  if (note !== undefined) {
+    line.note = note;
+  }
+
+  await statement.save();
+  await populateStatement(statement);
+
+  res.json({
+    success: true,
+    message: 'Statement line updated',
+    data: statement
+  });
+}));
+
+export default router;
@@ -6,6 +6,7 @@ import Payment from '../models/Payment.js';
 import Plan from '../models/Plan.js';
 import { authenticate, authorize } from '../middleware/auth.js';
 import { asyncHandler } from '../middleware/errorHandler.js';
+import { effectiveAnnualYield } from '../../shared/rateBasis.js';
 
 const router = express.Router();
 
@@ -307,8 +308,8 @@ router.get('/payment-analysis', authenticate, authorize('admin', 'finance_manage
       { $unwind: '$schedule' },
       {
         $match: {
-          'schedule.status': { $in: ['overdue', 'pending'] },
-          'schedule.dueDate': { $lt: new Date() }
+          'schedule.status': 'overdue',
+          status: 'active'
         }
       },
       {
@@ -323,6 +324,7 @@ router.get('/payment-analysis', authenticate, authorize('admin', 'finance_manage
         $project: {
           investmentId: 1,
           investor: { $arrayElemAt: ['$investorInfo', 0] },
+          period: '$schedule.period',
           month: '$schedule.month',
           dueDate: '$schedule.dueDate',
           totalAmount: '$schedule.totalAmount',
@@ -359,8 +361,9 @@ router.get('/overdue-payments', authenticate, authorize('admin', 'finance_manage
     { $unwind: '$schedule' },
     {
       $match: {
-        'schedule.status': { $in: ['overdue', 'pending'] },
-        'schedule.dueDate': { $lt: new Date() }
+        // Same rule as the dashboard: rows flagged by the overdue sweep
+        'schedule.status': 'overdue',
+        status: 'active'
       }
     },
     {
@@ -392,6 +395,7 @@ router.get('/overdue-payments', authenticate, authorize('admin', 'finance_manage
         plan: {
           name: { $arrayElemAt: ['$planInfo.name', 0] }
         },
+        period: '$schedule.period',
         month: '$schedule.month',
         dueDate: '$schedule.dueDate',
         totalAmount: '$schedule.totalAmount',
@@ -445,9 +449,9 @@ router.get('/export/investments', authenticate, authorize('admin', 'finance_mana
     .sort({ createdAt: -1 });
 
   // Generate CSV content
-  const csvHeader = 'Investment ID,Investor Name,Plan Name,Principal Amount,Interest Rate,Investment Date,Maturity Date,Status,Total Expected Returns,Total Paid,Remaining Amount\n';
+  const csvHeader = 'Investment ID,Investor Name,Plan Name,Principal Amount,Interest Rate,Rate Basis,Effective Annual Yield,Investment Date,Maturity Date,Status,Total Expected Returns,Total Paid,Remaining Amount\n';
   const csvContent = investments.map(investment => 
-    `${investment.investmentId},"${investment.investor.name}","${investment.plan.name}",${investment.principalAmount},${investment.interestRate}%,${investment.investmentDate.toISOString().split('T')[0]},${investment.maturityDate.toISOString().split('T')[0]},${investment.status},${investment.totalExpectedReturns},${investment.totalPaidAmount},${investment.remainingAmount}`
+    `${investment.investmentId},"${investment.investor.name}","${investment.plan.name}",${investment.principalAmount},${investment.interestRate}%,${investment.rateBasis},${effectiveAnnualYield(investment.interestRate, investment.rateBasis)}%,${investment.investmentDate.toISOString().split('T')[0]},${investment.maturityDate.toISOString().split('T')[0]},${investment.status},${investment.totalExpectedReturns},${investment.totalPaidAmount},${investment.remainingAmount}`
   ).join('\n');
 
   res.setHeader('Content-Type', 'text/csv');
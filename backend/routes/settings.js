@@ -4,6 +4,7 @@ import Settings from '../models/Settings.js';
 import { authenticate, authorize } from '../middleware/auth.js';
 import { asyncHandler } from '../middleware/errorHandler.js';
 import { uploadSingle, handleUploadError } from '../middleware/upload.js';
+import { DAY_COUNT_CONVENTIONS } from '../../shared/interestAccrual.js';
 
 const router = express.Router();
 
@@ -28,8 +29,34 @@ router.put('/', authenticate, authorize('admin'), [
   body('company.phone').optional().trim().notEmpty().withMessage('Phone cannot be empty'),
   body('financial.defaultCurrency').optional().isIn(['INR', 'USD', 'EUR']),
   body('financial.financialYearStart').optional().isIn(['January', 'April', 'July', 'October']),
+  body('financial.interestCalculationMethod').optional().isIn(['daily', 'monthly', 'yearly']),
+  body('financial.dayCountConvention').optional({ nullable: true }).isIn(DAY_COUNT_CONVENTIONS),
   body('financial.defaultLateFee').optional().isFloat({ min: 0, max: 10 }),
   body('financial.gracePeriodDays').optional().isInt({ min: 0, max: 30 }),
+  body('financial.defaultAfterDays').optional().isInt({ min: 0, max: 365 }),
+  body('financial.autoCompleteMatured').optional().isBoolean(),
+  body('financial.makerCheckerEnabled').optional().isBoolean(),
+  body('financial.verificationThreshold').optional().isFloat({ min: 0 }),
+  body('tax.tdsEnabled').optional().isBoolean(),
+  body('tax.tdsSection').optional().trim().notEmpty().withMessage('TDS section cannot be empty'),
+  body('tax.tdsRates').optional().isArray()
+    .custom(rates => new Set(rates.map(entry => entry.financialYear)).size === rates.length)
+    .withMessage('Each financial year can only have one set of TDS rates'),
+  body('tax.tdsRates.*.financialYear').matches(/^\d{4}(-\d{2})?$/).withMessage('Financial year must look like 2026 or 2026-27'),
+  body('tax.tdsRates.*.rate').isFloat({ min: 0, max: 100 }).withMessage('TDS rate must be between 0 and 100'),
+  body('tax.tdsRates.*.noPanRate').isFloat({ min: 0, max: 100 }).withMessage('No-PAN rate must be between 0 and 100'),
+  body('tax.tdsRates.*.threshold').optional().isFloat({ min: 0 }).withMessage('Threshold cannot be negative'),
+  body('accounting.tallyCompanyName').optional().trim().isLength({ max: 100 }).withMessage('Tally company name cannot exceed 100 characters'),
+  body('accounting.ledgerNames.*').optional().trim().isLength({ max: 100 }).withMessage('Ledger names cannot exceed 100 characters'),
+  body('accounting.perInvestorLedgers').optional().isBoolean(),
+  body('accounting.investorLedgerGroup').optional().trim().notEmpty().withMessage('Investor ledger group cannot be empty'),
+  body('kyc.requiredDocuments').optional().isArray({ min: 1 }).withMessage('At least one KYC document is required')
+    .custom(documents => new Set(documents.map(document => document.key)).size === documents.length)
+    .withMessage('Each KYC document needs its own key'),
+  body('kyc.requiredDocuments.*.key').matches(/^[a-zA-Z][a-zA-Z0-9_]*$/).withMessage('Document key must be letters, digits or underscores'),
+  body('kyc.requiredDocuments.*.label').trim().notEmpty().withMessage('Document label is required'),
+  body('kyc.validityMonths').optional().isInt({ min: 0, max: 120 }).withMessage('KYC validity must be between 0 and 120 months'),
+  body('kyc.requireVerifiedForInvestment').optional().isBoolean(),
   body('notifications.paymentReminders.daysBefore').optional().isInt({ min: 1, max: 30 }),
   body('notifications.overdueAlerts.frequency').optional().isIn(['daily', 'weekly', 'monthly']),
   body('notifications.investmentMaturity.daysBefore').optional().isInt({ min: 1, max: 90 }),
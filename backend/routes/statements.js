@@ -0,0 +1,159 @@
+// backend/routes/statements.js - Investor account statements (on screen, PDF, CSV, email)
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import Investor from '../models/Investor.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import {
+  STATEMENT_FREQUENCIES,
+  StatementError,
+  buildAccountStatement,
+  buildStatementPdf,
+  emailAccountStatement,
+  parseStatementPeriod,
+  renderStatementCsv,
+  statementFileName
+} from '../services/accountStatements.js';
+
+const router = express.Router();
+
+// @route   GET /api/statements
+// @desc    Account statement for an investor (optionally one investment) over a date range
+// @access  Private (investors see only their own)
+router.get('/', authenticate, [
+  query('investor').optional().isMongoId().withMessage('Invalid investor ID'),
+  query('investment').optional().isMongoId().withMessage('Invalid investment ID'),
+  query('from').isISO8601().withMessage('Valid statement start date is required'),
+  query('to').isISO8601().withMessage('Valid statement end date is required'),
+  query('format').optional().isIn(['json', 'csv', 'pdf']).withMessage('Format must be json, csv or pdf')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+
+  let investorId = req.query.investor;
+  if (req.user.role === 'investor') {
+    const investor = await Investor.findOne({ userId: req.user._id });
+    if (!investor) {
+      return res.status(404).json({ message: 'Investor profile not found' });
+    }
+    investorId = investor._id;
+  } else if (!investorId) {
+    return res.status(400).json({ message: 'Investor is required' });
+  }
+
+  let statement;
+  try {
+    statement = await buildAccountStatement({
+      investorId,
+      investmentId: req.query.investment,
+      ...parseStatementPeriod(req.query)
+    });
+  } catch (error) {
+    if (error instanceof StatementError) {
+      return res.status(400).json({ message: error.message });
+    }
+    throw error;
+  }
+
+  if (req.query.format === 'csv') {
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename=${statementFileName(statement, 'csv')}`);
+    return res.send(renderStatementCsv(statement));
+  }
+
+  if (req.query.format === 'pdf') {
+    const content = await buildStatementPdf(statement);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename=${statementFileName(statement, 'pdf')}`);
+    return res.send(content);
+  }
+
+  res.json({
+    success: true,
+    data: statement
+  });
+}));
+
+// @route   POST /api/statements/email
+// @desc    Email an account statement (PDF and CSV) to the investor
+// @access  Private (Admin, Finance Manager)
+router.post('/email', authenticate, authorize('admin', 'finance_manager'), [
+  body('investor').isMongoId().withMessage('Valid investor ID is required'),
+  body('investment').optional().isMongoId().withMessage('Invalid investment ID'),
+  body('from').isISO8601().withMessage('Valid statement start date is required'),
+  body('to').isISO8601().withMessage('Valid statement end date is required')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+
+  let statement;
+  try {
+    statement = await buildAccountStatement({
+      investorId: req.body.investor,
+      investmentId: req.body.investment,
+      ...parseStatementPeriod(req.body)
+    });
+  } catch (error) {
+    if (error instanceof StatementError) {
+      return res.status(400).json({ message: error.message });
+    }
+    throw error;
+  }
+
+  const result = await emailAccountStatement(statement);
+  if (!result.success) {
+    return res.status(503).json({ message: result.message });
+  }
+
+  res.json({
+    success: true,
+    message: `Statement emailed to ${statement.investor.email}`
+  });
+}));
+
+// @route   PUT /api/statements/delivery/:investorId
+// @desc    Set how often an investor's statement is emailed automatically
+// @access  Private (Admin, Finance Manager)
+router.put('/delivery/:investorId', authenticate, authorize('admin', 'finance_manager'), [
+  param('investorId').isMongoId().withMessage('Invalid investor ID'),
+  body('frequency').isIn(STATEMENT_FREQUENCIES).withMessage(`Frequency must be one of ${STATEMENT_FREQUENCIES.join(', ')}`)
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+
+  const investor = await Investor.findById(req.params.investorId);
+  if (!investor) {
+    return res.status(404).json({ message: 'Investor not found' });
+  }
+
+  investor.statementDelivery = {
+    frequency: req.body.frequency,
+    lastPeriodEnd: investor.statementDelivery?.lastPeriodEnd
+  };
+  await investor.save();
+
+  res.json({
+    success: true,
+    message: req.body.frequency === 'none'
+      ? 'Scheduled statements turned off'
+      : `Statements will be emailed ${req.body.frequency}`,
+    data: investor.statementDelivery
+  });
+}));
+
+export default router;
@@ -0,0 +1,174 @@
+// backend/routes/tax.js - TDS report and Form 15G/15H exemptions
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import Investor from '../models/Investor.js';
+import Settings from '../models/Settings.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import {
+  TaxError,
+  addTaxExemption,
+  buildTdsReport,
+  hasVerifiedPan,
+  removeTaxExemption,
+  renderTdsReportCsv,
+  tdsReportFileName
+} from '../services/tds.js';
+import { financialYearOf } from '../utils/financialYear.js';
+import { maskPan } from '../utils/masking.js';
+
+const router = express.Router();
+
+// @route   GET /api/tax/tds-report
+// @desc    Interest paid and TDS withheld per investor for a financial year (default: current) or quarter
+// @access  Private (Admin, Finance Manager)
+router.get('/tds-report', authenticate, authorize('admin', 'finance_manager'), [
+  query('financialYear').optional().matches(/^\d{4}(-\d{2})?$/).withMessage('Financial year must look like 2026 or 2026-27'),
+  query('quarter').optional().isInt({ min: 1, max: 4 }).withMessage('Quarter must be between 1 and 4'),
+  query('format').optional().isIn(['json', 'csv']).withMessage('Format must be json or csv')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+
+  // Defaults to the financial year in progress
+  let financialYear = req.query.financialYear;
+  if (!financialYear) {
+    const { financialYearStart } = await Settings.getTaxSettings();
+    financialYear = financialYearOf(new Date(), financialYearStart).label;
+  }
+
+  let report;
+  try {
+    report = await buildTdsReport({
+      financialYear,
+      quarter: req.query.quarter ? parseInt(req.query.quarter) : null
+    });
+  } catch (error) {
+    if (error instanceof TaxError) {
+      return res.status(400).json({ message: error.message });
+    }
+    throw error;
+  }
+
+  // The CSV is the filing export and carries full PANs; the on-screen report is masked
+  if (req.query.format === 'csv') {
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename=${tdsReportFileName(report)}`);
+    return res.send(renderTdsReportCsv(report));
+  }
+
+  res.json({
+    success: true,
+    data: {
+      ...report,
+      rows: report.rows.map(row => ({ ...row, panNumber: maskPan(row.panNumber) }))
+    }
+  });
+}));
+
+// @route   GET /api/tax/exemptions/:investorId
+// @desc    Form 15G/15H declarations on file for an investor
+// @access  Private (Admin, Finance Manager)
+router.get('/exemptions/:investorId', authenticate, authorize('admin', 'finance_manager'), [
+  param('investorId').isMongoId().withMessage('Invalid investor ID')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+
+  const investor = await Investor.findById(req.params.investorId)
+    .select('kyc.panNumber kyc.verificationStatus taxExemptions')
+    .populate('taxExemptions.recordedBy', 'name email');
+  if (!investor) {
+    return res.status(404).json({ message: 'Investor not found' });
+  }
+
+  const { financialYearStart } = await Settings.getTaxSettings();
+
+  res.json({
+    success: true,
+    data: {
+      exemptions: investor.taxExemptions,
+      panVerified: hasVerifiedPan(investor),
+      currentFinancialYear: financialYearOf(new Date(), financialYearStart).label
+    }
+  });
+}));
+
+// @route   POST /api/tax/exemptions/:investorId
+// @desc    Record a Form 15G/15H for a financial year
+// @access  Private (Admin, Finance Manager)
+router.post('/exemptions/:investorId', authenticate, authorize('admin', 'finance_manager'), [
+  param('investorId').isMongoId().withMessage('Invalid investor ID'),
+  body('form').isIn(['15G', '15H']).withMessage('Form must be 15G or 15H'),
+  body('financialYear').matches(/^\d{4}(-\d{2})?$/).withMessage('Financial year must look like 2026 or 2026-27'),
+  body('submittedAt').isISO8601().withMessage('Valid submission date is required'),
+  body('notes').optional().trim().isLength({ max: 500 }).withMessage('Notes cannot exceed 500 characters')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+
+  let exemptions;
+  try {
+    exemptions = await addTaxExemption(req.params.investorId, req.body, req.user._id);
+  } catch (error) {
+    if (error instanceof TaxError) {
+      return res.status(400).json({ message: error.message });
+    }
+    throw error;
+  }
+
+  res.status(201).json({
+    success: true,
+    message: `Form ${req.body.form} recorded for ${req.body.financialYear}`,
+    data: exemptions
+  });
+}));
+
+// @route   DELETE /api/tax/exemptions/:investorId/:exemptionId
+// @desc    Withdraw a Form 15G/15H; later interest payouts are taxed again
+// @access  Private (Admin, Finance Manager)
+router.delete('/exemptions/:investorId/:exemptionId', authenticate, authorize('admin', 'finance_manager'), [
+  param('investorId').isMongoId().withMessage('Invalid investor ID'),
+  param('exemptionId').isMongoId().withMessage('Invalid exemption ID')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+
+  let exemptions;
+  try {
+    exemptions = await removeTaxExemption(req.params.investorId, req.params.exemptionId);
+  } catch (error) {
+    if (error instanceof TaxError) {
+      return res.status(404).json({ message: error.message });
+    }
+    throw error;
+  }
+
+  res.json({
+    success: true,
+    message: 'Exemption withdrawn',
+    data: exemptions
+  });
+}));
+
+export default router;
@@ -8,6 +8,8 @@ import Plan from '../models/Plan.js';
 import Investment from '../models/Investment.js';
 import Payment from '../models/Payment.js';
 import Settings from '../models/Settings.js';
+import JournalEntry from '../models/JournalEntry.js';
+import { backfillLedger, reconcileCounters } from '../services/ledger.js';
 import connectDB from '../config/database.js';
 
 dotenv.config();
@@ -26,7 +28,9 @@ const seedData = async () => {
       Plan.deleteMany({}),
       Investment.deleteMany({}),
       Payment.deleteMany({}),
-      Settings.deleteMany({})
+      Settings.deleteMany({}),
+      // The journal refuses deletes through the model; clear the collection directly
+      JournalEntry.collection.deleteMany({})
     ]);
 
     console.log('✅ Database cleared successfully');
@@ -388,8 +392,8 @@ plans.push(dynamicGrowthPlan);
         country: 'India'
       },
       kyc: {
-        panNumber: 'ABCDE1234F',
-        aadharNumber: '123456789012',
+        panNumber: 'ABCPP1234F',
+        aadharNumber: '234567890124',
         bankDetails: {
           accountNumber: '12345678901234',
           ifscCode: 'HDFC0001234',
@@ -425,8 +429,8 @@ plans.push(dynamicGrowthPlan);
         country: 'India'
       },
       kyc: {
-        panNumber: 'FGHIJ5678K',
-        aadharNumber: '234567890123',
+        panNumber: 'FGHPC5678K',
+        aadharNumber: '345678901238',
         bankDetails: {
           accountNumber: '23456789012345',
           ifscCode: 'ICIC0002345',
@@ -462,8 +466,8 @@ plans.push(dynamicGrowthPlan);
         country: 'India'
       },
       kyc: {
-        panNumber: 'LMNOP9012Q',
-        aadharNumber: '345678901234',
+        panNumber: 'LMNPS9012Q',
+        aadharNumber: '456789012341',
         bankDetails: {
           accountNumber: '34567890123456',
           ifscCode: 'SBIN0003456',
@@ -499,11 +503,11 @@ plans.push(dynamicGrowthPlan);
         country: 'India'
       },
       kyc: {
-        panNumber: 'RSTUV3456W',
-        aadharNumber: '456789012345',
+        panNumber: 'RSTPV3456W',
+        aadharNumber: '567890123458',
         bankDetails: {
           accountNumber: '45678901234567',
-          ifscCode: 'AXIS0004567',
+          ifscCode: 'UTIB0004567',
           bankName: 'Axis Bank',
           branchName: 'Hi-Tech City Branch'
         },
@@ -536,8 +540,8 @@ plans.push(dynamicGrowthPlan);
         country: 'India'
       },
       kyc: {
-        panNumber: 'XYZAB7890C',
-        aadharNumber: '567890123456',
+        panNumber: 'XYZPR7890C',
+        aadharNumber: '678901234560',
         bankDetails: {
           accountNumber: '56789012345678',
           ifscCode: 'PUNB0005678',
@@ -577,6 +581,7 @@ plans.push(dynamicGrowthPlan);
       interestType: plans[0].interestType,
       tenure: plans[0].tenure,
       paymentType: plans[0].paymentType,
+      payoutTerms: plans[0].getPayoutTerms(),
       totalExpectedReturns: 2040000,
       totalInterestExpected: 540000,
       remainingAmount: 2040000,
@@ -643,6 +648,7 @@ plans.push(dynamicGrowthPlan);
       interestType: plans[1].interestType,
       tenure: plans[1].tenure,
       paymentType: plans[1].paymentType,
+      payoutTerms: plans[1].getPayoutTerms(),
       totalExpectedReturns: 1087500,
       totalInterestExpected: 337500,
       remainingAmount: 1087500,
@@ -684,6 +690,7 @@ plans.push(dynamicGrowthPlan);
       interestType: plans[2].interestType,
       tenure: plans[2].tenure,
       paymentType: plans[2].paymentType,
+      payoutTerms: plans[2].getPayoutTerms(),
       totalExpectedReturns: 4600000,
       totalInterestExpected: 2100000,
       remainingAmount: 4600000,
@@ -726,6 +733,7 @@ plans.push(dynamicGrowthPlan);
       interestType: plans[3].interestType,
       tenure: plans[3].tenure,
       paymentType: plans[3].paymentType,
+      payoutTerms: plans[3].getPayoutTerms(),
       totalExpectedReturns: 434000,
       totalInterestExpected: 84000,
       remainingAmount: 434000,
@@ -768,6 +776,7 @@ plans.push(dynamicGrowthPlan);
       interestType: plans[4].interestType,
       tenure: plans[4].tenure,
       paymentType: plans[4].paymentType,
+      payoutTerms: plans[4].getPayoutTerms(),
       totalExpectedReturns: 1704000,
       totalInterestExpected: 504000,
       remainingAmount: 1704000,
@@ -975,11 +984,16 @@ plans.push(dynamicGrowthPlan);
 
     console.log(`✅ Created ${payments.length} comprehensive payment records`);
 
-    // Update Investor Statistics using new methods
+    // Journal the seeded investments and payments
+    console.log('📒 POSTING LEDGER ENTRIES...');
+    const ledger = await backfillLedger({ postedBy: adminUser._id });
+    console.log(`   ${ledger.entriesPosted} journal entries posted for ${ledger.investments} investments`);
+
+    // Update Investor and Plan Statistics from the ledger
     console.log('📊 UPDATING INVESTOR STATISTICS...');
+    await reconcileCounters({ apply: true });
     for (let i = 0; i < investors.length; i++) {
       const investor = investors[i];
-      await investor.updateStatistics();
       
       // Log investor summary
       const summary = await investor.getInvestmentSummary();
@@ -989,13 +1003,7 @@ plans.push(dynamicGrowthPlan);
     // Update Plan Statistics
     console.log('📈 UPDATING PLAN STATISTICS...');
     for (let i = 0; i < plans.length; i++) {
-      const plan = plans[i];
-      const planInvestments = investments.filter(inv => inv.plan.toString() === plan._id.toString());
-      
-      plan.totalInvestors = planInvestments.length;
-      plan.totalInvestment = planInvestments.reduce((sum, inv) => sum + inv.principalAmount, 0);
-      
-      await plan.save();
+      const plan = await Plan.findById(plans[i]._id);
       console.log(`   ${plan.name}: ${plan.totalInvestors} investors, ₹${plan.totalInvestment} total`);
     }
 
@@ -23,6 +23,17 @@ import paymentRoutes from './routes/payments.js';
 import reportRoutes from './routes/reports.js';
 import settingsRoutes from './routes/settings.js';
 import dashboardRoutes from './routes/dashboard.js';
+import jobRoutes from './routes/jobs.js';
+import reconciliationRoutes from './routes/reconciliation.js';
+import payoutFileRoutes from './routes/payoutFiles.js';
+import statementRoutes from './routes/statements.js';
+import taxRoutes from './routes/tax.js';
+import certificateRoutes from './routes/certificates.js';
+import ledgerRoutes from './routes/ledger.js';
+import kycRoutes from './routes/kyc.js';
+
+import jobRunner from './services/jobRunner.js';
+import { registerJobs } from './jobs/index.js';
 
 dotenv.config();
 
@@ -144,6 +155,14 @@ app.use('/api/payments', paymentRoutes);
 app.use('/api/reports', reportRoutes);
 app.use('/api/settings', settingsRoutes);
 app.use('/api/dashboard', dashboardRoutes);
+app.use('/api/jobs', jobRoutes);
+app.use('/api/reconciliation', reconciliationRoutes);
+app.use('/api/payout-files', payoutFileRoutes);
+app.use('/api/statements', statementRoutes);
+app.use('/api/tax', taxRoutes);
+app.use('/api/certificates', certificateRoutes);
+app.use('/api/ledger', ledgerRoutes);
+app.use('/api/kyc', kycRoutes);
 
 // Test endpoint
 app.get('/api/test', (req, res) => {
@@ -171,6 +190,7 @@ app.use(errorHandler);
 // Graceful shutdown
 const gracefulShutdown = (signal) => {
   logger.info(`Received ${signal}, shutting down gracefully...`);
+  jobRunner.stop();
   server.close(() => {
     logger.info('Server closed');
     process.exit(0);
@@ -195,6 +215,12 @@ const server = app.listen(PORT, () => {
   console.log(`🔗 Backend URL: http://localhost:${PORT}`);
   console.log(`📋 Test endpoint: http://localhost:${PORT}/api/test`);
   console.log(`🏥 Health check: http://localhost:${PORT}/api/health`);
+
+  // Background jobs run in this process unless disabled (e.g. when several instances share a database)
+  if (process.env.DISABLE_JOBS !== 'true') {
+    registerJobs(jobRunner);
+    jobRunner.start();
+  }
 });
 
 server.on('error', (error) => {
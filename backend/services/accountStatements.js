@@ -0,0 +1,530 @@
+// backend/services/accountStatements.js - Investor account statements for a date range
+// The balance is what the company owes the investor: principal invested, plus interest as each
+// schedule row falls due, plus late fees and bonuses as they are charged on a payment, less every
+// payout. Reversal entries carry negated amounts, so they add back what the original took off.
+// A prepayment or closure penalty is a debit of its own, and the settlement it was kept back from
+// shows only the rest as paid out.
+// Pending, failed and cancelled payments (and those awaiting verification) are left out.
+import Investment from '../models/Investment.js';
+import Investor from '../models/Investor.js';
+import Payment from '../models/Payment.js';
+import emailService from './emailService.js';
+import { holdingSummary } from './holdings.js';
+import {
+  MARGIN,
+  RIGHT,
+  drawFooter,
+  drawLetterhead,
+  formatAmount,
+  formatDate,
+  loadCompany,
+  readLogo
+} from './documentBranding.js';
+import { createPdfDocument } from '../utils/pdfDocument.js';
+import { roundCurrency } from '../../shared/scheduleEngine.js';
+
+export class StatementError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'StatementError';
+    this.statusCode = 400;
+  }
+}
+
+export const STATEMENT_FREQUENCIES = ['none', 'monthly', 'quarterly'];
+
+// Same-day entries are listed in this order
+const ENTRY_ORDER = ['investment', 'interest_due', 'late_fee', 'bonus', 'payment', 'prepayment_penalty', 'closure_penalty', 'reversal'];
+
+const ENTRY_LABELS = {
+  investment: 'Investment',
+  interest_due: 'Interest due',
+  late_fee: 'Late fee',
+  bonus: 'Bonus',
+  payment: 'Payout',
+  prepayment_penalty: 'Prepayment penalty',
+  closure_penalty: 'Closure penalty',
+  reversal: 'Reversal'
+};
+
+// Request dates: both ends are whole days
+export const parseStatementPeriod = ({ from, to }) => {
+  const start = new Date(from);
+  start.setUTCHours(0, 0, 0, 0);
+  const end = new Date(to);
+  end.setUTCHours(23, 59, 59, 999);
+  if (start > end) {
+    throw new StatementError('Statement period ends before it starts');
+  }
+  return { from: start, to: end };
+};
+
+// The last complete month or calendar quarter before `now`, or null for 'none'
+export const previousStatementPeriod = (frequency, now = new Date()) => {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  if (frequency === 'monthly') {
+    return {
+      from: new Date(Date.UTC(year, month - 1, 1)),
+      to: new Date(Date.UTC(year, month, 0, 23, 59, 59, 999))
+    };
+  }
+  if (frequency === 'quarterly') {
+    const quarterStart = month - (month % 3);
+    return {
+      from: new Date(Date.UTC(year, quarterStart - 3, 1)),
+      to: new Date(Date.UTC(year, quarterStart, 0, 23, 59, 59, 999))
+    };
+  }
+  return null;
+};
+
+// Every movement on an investment up to `to`, in date order, without balances
+const investmentEntries = (investment, payments, to) => {
+  const entries = [{
+    date: investment.investmentDate,
+    type: 'investment',
+    investmentId: investment.investmentId,
+    reference: investment.investmentId,
+    description: `Principal invested${investment.plan?.name ? ` - ${investment.plan.name}` : ''}`,
+    credit: investment.principalAmount,
+    debit: 0,
+    principal: investment.principalAmount
+  }];
+
+  investment.schedule
+    .filter(row => row.dueDate <= to && row.interestAmount > 0)
+    .forEach(row => {
+      entries.push({
+        date: row.dueDate,
+        type: 'interest_due',
+        investmentId: investment.investmentId,
+        reference: `M${row.month}`,
+        description: `Interest for payout #${row.period ?? row.month} (month ${row.month})`,
+        credit: row.interestAmount,
+        debit: 0,
+        interest: row.interestAmount
+      });
+    });
+
+  const penalties = payments.filter(payment => payment.deductedFrom);
+  const keptBack = (payment) => roundCurrency(penalties
+    .filter(penalty => penalty.deductedFrom.equals(payment._id))
+    .reduce((total, penalty) => total + penalty.amount, 0));
+
+  payments.forEach(payment => {
+    if (payment.deductedFrom) {
+      const settlement = payments.find(item => item._id.equals(payment.deductedFrom));
+      entries.push({
+        date: payment.paymentDate,
+        type: settlement?.prepayment?.foreclose ? 'closure_penalty' : 'prepayment_penalty',
+        investmentId: investment.investmentId,
+        reference: payment.paymentId,
+        description: settlement
+          ? `${settlement.prepayment.penaltyPercentage}% of principal withdrawn, kept back from ${settlement.paymentId}`
+          : payment.notes,
+        credit: 0,
+        debit: payment.amount
+      });
+      return;
+    }
+
+    const isReversal = !!payment.reversalOf;
+    const penalty = keptBack(payment);
+    [['late_fee', payment.penaltyAmount], ['bonus', payment.bonusAmount]]
+      .filter(([, value]) => value)
+      .forEach(([type, value]) => {
+        entries.push({
+          date: payment.paymentDate,
+          type,
+          investmentId: investment.investmentId,
+          reference: payment.paymentId,
+          description: `${ENTRY_LABELS[type]} ${isReversal ? 'reversed' : 'charged'} with ${payment.paymentId}`,
+          credit: value > 0 ? value : 0,
+          debit: value < 0 ? -value : 0
+        });
+      });
+
+    entries.push({
+      date: payment.paymentDate,
+      type: isReversal ? 'reversal' : 'payment',
+      investmentId: investment.investmentId,
+      reference: payment.paymentId,
+      description: [
+        isReversal
+          ? payment.notes || `Reversal ${payment.paymentId}`
+          : `Payout ${payment.paymentMethod.replace('_', ' ')}${payment.referenceNumber ? ` ref ${payment.referenceNumber}` : ''}`,
+        payment.tdsAmount ? `(TDS ${payment.tdsAmount} ${isReversal ? 'refunded' : 'withheld'})` : null,
+        penalty ? `(penalty ${penalty} kept back)` : null
+      ].filter(Boolean).join(' '),
+      credit: payment.amount < 0 ? -payment.amount : 0,
+      debit: payment.amount > 0 ? roundCurrency(payment.amount - penalty) : 0,
+      interest: -payment.interestAmount,
+      principal: -payment.principalAmount,
+      interestPaid: payment.interestAmount,
+      principalPaid: payment.principalAmount,
+      penaltyPaid: payment.penaltyAmount,
+      tdsWithheld: payment.tdsAmount
+    });
+  });
+
+  return entries;
+};
+
+const sortEntries = (entries) => entries.sort((a, b) =>
+  a.date - b.date || ENTRY_ORDER.indexOf(a.type) - ENTRY_ORDER.indexOf(b.type));
+
+const sumBy = (entries, field) => roundCurrency(entries.reduce((total, entry) => total + (entry[field] || 0), 0));
+
+// Opening/closing figures and period movements for a set of entries
+const summarize = (entries, from) => {
+  const before = entries.filter(entry => entry.date < from);
+  const during = entries.filter(entry => entry.date >= from);
+  const balance = (list) => roundCurrency(sumBy(list, 'credit') - sumBy(list, 'debit'));
+  const principal = (list) => roundCurrency(sumBy(list, 'principal'));
+
+  return {
+    openingBalance: balance(before),
+    openingPrincipal: principal(before),
+    principalInvested: sumBy(during.filter(entry => entry.type === 'investment'), 'principal'),
+    principalRepaid: sumBy(during, 'principalPaid'),
+    interestAccrued: sumBy(during.filter(entry => entry.type === 'interest_due'), 'credit'),
+    interestPaid: sumBy(during, 'interestPaid'),
+    // Part of the payouts above, paid to the government rather than the investor
+    tdsWithheld: sumBy(during, 'tdsWithheld'),
+    lateFees: roundCurrency(sumBy(during.filter(entry => entry.type === 'late_fee'), 'credit') -
+      sumBy(during.filter(entry => entry.type === 'late_fee'), 'debit')),
+    totalPaid: roundCurrency(sumBy(during.filter(entry => ['payment', 'reversal'].includes(entry.type)), 'debit') -
+      sumBy(during.filter(entry => ['payment', 'reversal'].includes(entry.type)), 'credit')),
+    closingBalance: balance(entries),
+    closingPrincipal: principal(entries),
+    // Interest fallen due but not yet paid at the end of the period
+    interestOutstanding: roundCurrency(sumBy(entries.filter(entry => entry.type === 'interest_due'), 'credit') -
+      sumBy(entries, 'interestPaid'))
+  };
+};
+
+// Statement for an investor, or one of their investments, between from and to (inclusive)
+export const buildAccountStatement = async ({ investorId, investmentId = null, from, to }) => {
+  const investor = await Investor.findById(investorId).select('investorId name email phone address statementDelivery');
+  if (!investor) {
+    throw new StatementError('Investor not found');
+  }
+
+  const investments = await Investment.find({
+    investor: investor._id,
+    ...(investmentId ? { _id: investmentId } : {}),
+    investmentDate: { $lte: to }
+  })
+    .select('investmentId plan principalAmount investmentDate maturityDate status schedule jointHolders modeOfOperation nominees')
+    .populate('plan', 'name')
+    .populate('jointHolders.investor', 'investorId name deceased')
+    .sort({ investmentDate: 1 });
+
+  if (investmentId && investments.length === 0) {
+    throw new StatementError('Investment not found for this investor, or it starts after the statement period');
+  }
+
+  const payments = await Payment.find({
+    investment: { $in: investments.map(investment => investment._id) },
+    status: { $in: ['completed', 'reversed'] },
+    awaitingVerification: { $ne: true },
+    paymentDate: { $lte: to }
+  })
+    .select('paymentId investment amount interestAmount principalAmount penaltyAmount bonusAmount tdsAmount paymentDate paymentMethod referenceNumber notes reversalOf deductedFrom prepayment')
+    .sort({ paymentDate: 1 });
+
+  const investmentSummaries = [];
+  const allEntries = [];
+  investments.forEach(investment => {
+    const entries = sortEntries(investmentEntries(
+      investment,
+      payments.filter(payment => payment.investment.equals(investment._id)),
+      to
+    ));
+    investmentSummaries.push({
+      investment: investment._id,
+      investmentId: investment.investmentId,
+      planName: investment.plan?.name,
+      status: investment.status,
+      holding: holdingSummary(investment),
+      ...summarize(entries, from)
+    });
+    allEntries.push(...entries);
+  });
+
+  sortEntries(allEntries);
+  const summary = summarize(allEntries, from);
+
+  // Running balance through the period, starting from the opening balance
+  let balance = summary.openingBalance;
+  const entries = allEntries
+    .filter(entry => entry.date >= from)
+    .map(({ date, type, investmentId: entryInvestmentId, reference, description, credit, debit }) => {
+      balance = roundCurrency(balance + credit - debit);
+      return {
+        date,
+        type,
+        investmentId: entryInvestmentId,
+        reference,
+        description,
+        credit: roundCurrency(credit),
+        debit: roundCurrency(debit),
+        balance
+      };
+    });
+
+  return {
+    investor: {
+      _id: investor._id,
+      investorId: investor.investorId,
+      name: investor.name,
+      email: investor.email,
+      phone: investor.phone,
+      address: investor.fullAddress,
+      statementDelivery: investor.statementDelivery
+    },
+    investmentId: investmentId ? investments[0].investmentId : null,
+    period: { from, to },
+    summary,
+    investments: investmentSummaries,
+    entries,
+    generatedAt: new Date()
+  };
+};
+
+const toDate = (date) => new Date(date).toISOString().split('T')[0];
+
+// Investments held jointly or with nominees; single holdings with no nominee are left off
+const statementHoldings = (statement) => statement.investments
+  .filter(({ holding }) => holding.jointHolders.length > 0 || holding.nominees.length > 0);
+
+const holderLabel = (holder) => `${holder.name} (${holder.investorId})${holder.deceased ? ' - deceased' : ''}`;
+
+const nomineeLabel = (nominee) =>
+  `${nominee.name}, ${nominee.relationship}, ${nominee.sharePercent}%${nominee.minor ? ` (minor, guardian ${nominee.guardian})` : ''}`;
+
+const csvField = (value) => {
+  const text = String(value ?? '');
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const statementFileName = (statement, extension) =>
+  `statement_${statement.investmentId || statement.investor.investorId}_${toDate(statement.period.from)}_${toDate(statement.period.to)}.${extension}`;
+
+export const renderStatementCsv = (statement) => {
+  const { summary } = statement;
+  const preamble = [
+    `Account Statement,${csvField(statement.investor.name)}`,
+    `Investor ID,${statement.investor.investorId}`,
+    statement.investmentId ? `Investment ID,${statement.investmentId}` : null,
+    `Period,${toDate(statement.period.from)} to ${toDate(statement.period.to)}`,
+    `Opening Principal,${summary.openingPrincipal}`,
+    `Opening Balance,${summary.openingBalance}`
+  ].filter(Boolean).join('\n');
+
+  const header = 'Date,Type,Investment ID,Reference,Description,Credit,Debit,Balance';
+  const rows = statement.entries.map(entry => [
+    toDate(entry.date),
+    ENTRY_LABELS[entry.type],
+    entry.investmentId,
+    entry.reference,
+    csvField(entry.description),
+    entry.credit || '',
+    entry.debit || '',
+    entry.balance
+  ].join(','));
+
+  const totals = [
+    `Principal Invested,${summary.principalInvested}`,
+    `Principal Repaid,${summary.principalRepaid}`,
+    `Interest Accrued,${summary.interestAccrued}`,
+    `Interest Paid,${summary.interestPaid}`,
+    `Late Fees,${summary.lateFees}`,
+    `Total Paid,${summary.totalPaid}`,
+    `TDS Withheld,${summary.tdsWithheld}`,
+    `Interest Outstanding,${summary.interestOutstanding}`,
+    `Closing Principal,${summary.closingPrincipal}`,
+    `Closing Balance,${summary.closingBalance}`
+  ].join('\n');
+
+  const holdings = statementHoldings(statement);
+  const holdingSection = holdings.length === 0 ? '' : `\nInvestment ID,Mode of Operation,Joint Holders,Nominees\n${holdings.map(({ investmentId, holding }) => [
+    investmentId,
+    holding.modeLabel,
+    csvField(holding.jointHolders.map(holderLabel).join('; ')),
+    csvField(holding.nominees.map(nomineeLabel).join('; '))
+  ].join(',')).join('\n')}\n`;
+
+  return `${preamble}\n\n${header}\n${rows.join('\n')}\n\n${totals}\n${holdingSection}`;
+};
+
+const signedAmount = (value) => (value < 0 ? `-${formatAmount(value)}` : formatAmount(value));
+
+// Table columns: x is the left edge, or the right edge for right-aligned columns
+const COLUMNS = [
+  { key: 'date', label: 'Date', x: MARGIN + 4 },
+  { key: 'investmentId', label: 'Investment', x: MARGIN + 62 },
+  { key: 'description', label: 'Description', x: MARGIN + 132 },
+  { key: 'credit', label: 'Credit', x: RIGHT - 170, align: 'right' },
+  { key: 'debit', label: 'Debit', x: RIGHT - 90, align: 'right' },
+  { key: 'balance', label: 'Balance', x: RIGHT - 4, align: 'right' }
+];
+
+const ROW_HEIGHT = 16;
+const TABLE_BOTTOM = 750;
+
+export const renderStatementPdf = (statement, company, logo) => {
+  const { summary } = statement;
+  const doc = createPdfDocument({ title: `Account Statement ${statement.investor.investorId}` });
+  const periodLabel = `${formatDate(statement.period.from)} - ${formatDate(statement.period.to)}`;
+
+  const footer = () => drawFooter(doc, [
+    'This is a computer-generated statement and does not require a signature.',
+    `Generated on ${formatDate(statement.generatedAt)} | Page ${doc.pageCount()}`
+  ]);
+
+  const tableHeader = (top) => {
+    doc.rect(MARGIN, top, RIGHT - MARGIN, 18);
+    COLUMNS.forEach(column => {
+      doc.text(column.label, column.x, top + 12, { size: 8, weight: 'bold', align: column.align || 'left' });
+    });
+    return top + 18;
+  };
+
+  drawLetterhead(doc, company, logo, {
+    title: 'ACCOUNT STATEMENT',
+    details: [
+      periodLabel,
+      statement.investmentId ? `Investment ${statement.investmentId}` : `Investor ${statement.investor.investorId}`
+    ]
+  });
+
+  doc.text(statement.investor.name, MARGIN, 152, { size: 12, weight: 'bold' });
+  [
+    `Investor ID: ${statement.investor.investorId}`,
+    statement.investor.email,
+    statement.investor.address
+  ].filter(Boolean).forEach((line, index) => {
+    doc.text(line, MARGIN, 168 + index * 12, { size: 9, color: '#374151' });
+  });
+
+  // Summary block: two columns of label/value pairs
+  const summaryRows = [
+    ['Opening principal', summary.openingPrincipal, 'Closing principal', summary.closingPrincipal],
+    ['Opening balance', summary.openingBalance, 'Closing balance', summary.closingBalance],
+    ['Interest accrued', summary.interestAccrued, 'Interest paid', summary.interestPaid],
+    ['Principal invested', summary.principalInvested, 'Principal repaid', summary.principalRepaid],
+    ['Late fees', summary.lateFees, 'Total paid out', summary.totalPaid],
+    ['Interest outstanding', summary.interestOutstanding, 'TDS withheld', summary.tdsWithheld]
+  ];
+  let top = 215;
+  doc.rect(MARGIN, top, RIGHT - MARGIN, summaryRows.length * 15 + 10, { fill: '#EFF6FF' });
+  summaryRows.forEach(([leftLabel, leftValue, rightLabel, rightValue], index) => {
+    const rowTop = top + 17 + index * 15;
+    doc.text(leftLabel, MARGIN + 10, rowTop, { size: 9, color: '#374151' });
+    doc.text(signedAmount(leftValue), MARGIN + 240, rowTop, { size: 9, weight: 'bold', align: 'right' });
+    if (rightLabel) {
+      doc.text(rightLabel, MARGIN + 270, rowTop, { size: 9, color: '#374151' });
+      doc.text(signedAmount(rightValue), RIGHT - 10, rowTop, { size: 9, weight: 'bold', align: 'right' });
+    }
+  });
+  top += summaryRows.length * 15 + 30;
+
+  top = tableHeader(top);
+  doc.text('Opening balance', COLUMNS[2].x, top + 12, { size: 8, weight: 'bold' });
+  doc.text(signedAmount(summary.openingBalance), COLUMNS[5].x, top + 12, { size: 8, weight: 'bold', align: 'right' });
+  top += ROW_HEIGHT;
+
+  statement.entries.forEach(entry => {
+    if (top + ROW_HEIGHT > TABLE_BOTTOM) {
+      footer();
+      doc.addPage();
+      doc.text(`${statement.investor.name} - ${periodLabel} (continued)`, MARGIN, 50, { size: 9, color: '#6B7280' });
+      top = tableHeader(60);
+    }
+
+    const description = `${ENTRY_LABELS[entry.type]}: ${entry.description}`;
+    const values = {
+      date: formatDate(entry.date),
+      investmentId: entry.investmentId,
+      // Trimmed to the column; the CSV keeps the full text
+      description: description.length > 48 ? `${description.slice(0, 47)}...` : description,
+      credit: entry.credit ? formatAmount(entry.credit) : '',
+      debit: entry.debit ? formatAmount(entry.debit) : '',
+      balance: signedAmount(entry.balance)
+    };
+    COLUMNS.forEach(column => {
+      doc.text(values[column.key], column.x, top + 12, { size: 8, align: column.align || 'left' });
+    });
+    top += ROW_HEIGHT;
+    doc.line(MARGIN, top, RIGHT, top, { color: '#E5E7EB', width: 0.5 });
+  });
+
+  if (top + ROW_HEIGHT > TABLE_BOTTOM) {
+    footer();
+    doc.addPage();
+    top = 60;
+  }
+  doc.text('Closing balance', COLUMNS[2].x, top + 14, { size: 8, weight: 'bold' });
+  doc.text(signedAmount(summary.closingBalance), COLUMNS[5].x, top + 14, { size: 8, weight: 'bold', align: 'right' });
+  top += 40;
+
+  const holdings = statementHoldings(statement);
+  if (holdings.length > 0) {
+    if (top + 60 > TABLE_BOTTOM) {
+      footer();
+      doc.addPage();
+      top = 60;
+    }
+    doc.text('Holding details', MARGIN, top, { size: 10, weight: 'bold' });
+    top += 16;
+    holdings.forEach(({ investmentId, holding }) => {
+      const lines = [
+        `Joint holders: ${holding.jointHolders.length > 0 ? holding.jointHolders.map(holderLabel).join('; ') : 'None'}`,
+        `Nominees: ${holding.nominees.length > 0 ? holding.nominees.map(nomineeLabel).join('; ') : 'None'}`
+      ];
+      if (top + 14 + lines.length * 12 > TABLE_BOTTOM) {
+        footer();
+        doc.addPage();
+        doc.text(`${statement.investor.name} - ${periodLabel} (continued)`, MARGIN, 50, { size: 9, color: '#6B7280' });
+        top = 70;
+      }
+      doc.text(`${investmentId} - ${holding.modeLabel}`, MARGIN, top, { size: 9, weight: 'bold' });
+      top += 12;
+      lines.forEach(line => {
+        top = doc.paragraph(line, MARGIN + 10, top, RIGHT - MARGIN - 10, { size: 8, color: '#374151', lineHeight: 11 });
+      });
+      top += 6;
+    });
+  }
+  footer();
+
+  return doc.toBuffer();
+};
+
+// PDF with the company letterhead
+export const buildStatementPdf = async (statement) => {
+  const company = await loadCompany();
+  const logo = await readLogo(company.logo);
+  return renderStatementPdf(statement, company, logo);
+};
+
+// Email a statement with its PDF and CSV attached
+export const emailAccountStatement = async (statement) => {
+  const company = await loadCompany();
+  const logo = await readLogo(company.logo);
+
+  return emailService.sendAccountStatementEmail(statement.investor, statement, [
+    {
+      filename: statementFileName(statement, 'pdf'),
+      content: renderStatementPdf(statement, company, logo),
+      contentType: 'application/pdf'
+    },
+    {
+      filename: statementFileName(statement, 'csv'),
+      content: renderStatementCsv(statement),
+      contentType: 'text/csv'
+    }
+  ], company);
+};
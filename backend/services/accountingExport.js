@@ -0,0 +1,200 @@
+// backend/services/accountingExport.js - Journal entries exported for the accounting package
+// Tally gets XML vouchers it can import directly (Gateway of Tally > Import > Transactions);
+// anything else gets a flat journal CSV with one row per debit or credit line. Ledger names
+// come from Settings.accounting so entries land on the ledgers already set up in the books.
+import JournalEntry from '../models/JournalEntry.js';
+import Settings from '../models/Settings.js';
+import { ACCOUNTS, findAccount } from '../utils/chartOfAccounts.js';
+
+export class AccountingExportError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'AccountingExportError';
+    this.statusCode = 400;
+  }
+}
+
+export const EXPORT_ENTRY_TYPES = ['investment', 'interest_accrual', 'payment', 'reversal', 'prepayment_penalty'];
+
+// Tally's predefined voucher types, by journal entry type
+const VOUCHER_TYPES = {
+  investment: 'Receipt',
+  payment: 'Payment',
+  interest_accrual: 'Journal',
+  reversal: 'Journal',
+  prepayment_penalty: 'Journal'
+};
+
+const toDate = (date) => new Date(date).toISOString().split('T')[0];
+
+const csvField = (value) => {
+  const text = String(value ?? '');
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const xmlText = (value) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+const investorLedgerName = (investor) => `${investor.name} (${investor.investorId})`;
+
+// Ledger a journal line is exported to
+const ledgerNameFor = (line, entry, accounting) => {
+  if (accounting.perInvestorLedgers && line.account === ACCOUNTS.INVESTOR_PRINCIPAL && entry.investor) {
+    return investorLedgerName(entry.investor);
+  }
+  return accounting.ledgerNames[line.account];
+};
+
+const narrationFor = (entry) => [
+  entry.description,
+  entry.investor && `${entry.investor.name} (${entry.investor.investorId})`,
+  entry.payment?.referenceNumber && `Ref ${entry.payment.referenceNumber}`
+].filter(Boolean).join(' - ');
+
+export const loadExportEntries = async ({ from, to, types = EXPORT_ENTRY_TYPES }) => {
+  if (from > to) {
+    throw new AccountingExportError('Export period ends before it starts');
+  }
+
+  return JournalEntry.find({
+    date: { $gte: from, $lte: to },
+    type: { $in: types }
+  })
+    .sort({ date: 1, entryNumber: 1 })
+    .populate('investor', 'investorId name')
+    .populate('investment', 'investmentId')
+    .populate('payment', 'paymentId referenceNumber paymentMethod');
+};
+
+export const renderJournalCsv = (entries, accounting) => {
+  const header = 'Date,Entry Number,Voucher Type,Entry Type,Account Code,Account,Ledger Name,Debit,Credit,Investor ID,Investor Name,Investment ID,Payment ID,Reference,Narration';
+  const rows = entries.flatMap(entry => entry.lines.map(line => [
+    toDate(entry.date),
+    entry.entryNumber,
+    VOUCHER_TYPES[entry.type],
+    entry.type,
+    line.account,
+    csvField(findAccount(line.account).name),
+    csvField(ledgerNameFor(line, entry, accounting)),
+    line.debit ? line.debit.toFixed(2) : '',
+    line.credit ? line.credit.toFixed(2) : '',
+    entry.investor?.investorId || '',
+    csvField(entry.investor?.name),
+    entry.investment?.investmentId || '',
+    entry.payment?.paymentId || '',
+    csvField(entry.payment?.referenceNumber),
+    csvField(narrationFor(entry))
+  ].join(',')));
+
+  return `${header}\n${rows.join('\n')}\n`;
+};
+
+// Tally marks debits as "deemed positive" with a negative amount, credits the other way round
+const tallyLedgerEntry = (line, entry, accounting) => {
+  const isDebit = line.debit > 0;
+  const amount = isDebit ? -line.debit : line.credit;
+  return [
+    '<ALLLEDGERENTRIES.LIST>',
+    `<LEDGERNAME>${xmlText(ledgerNameFor(line, entry, accounting))}</LEDGERNAME>`,
+    `<ISDEEMEDPOSITIVE>${isDebit ? 'Yes' : 'No'}</ISDEEMEDPOSITIVE>`,
+    `<AMOUNT>${amount.toFixed(2)}</AMOUNT>`,
+    '</ALLLEDGERENTRIES.LIST>'
+  ].join('\n');
+};
+
+const tallyVoucher = (entry, accounting) => {
+  const voucherType = VOUCHER_TYPES[entry.type];
+  return [
+    '<TALLYMESSAGE xmlns:UDF="TallySchema">',
+    `<VOUCHER VCHTYPE="${voucherType}" ACTION="Create">`,
+    `<DATE>${toDate(entry.date).replace(/-/g, '')}</DATE>`,
+    `<VOUCHERTYPENAME>${voucherType}</VOUCHERTYPENAME>`,
+    `<VOUCHERNUMBER>${entry.entryNumber}</VOUCHERNUMBER>`,
+    ...(entry.payment?.referenceNumber ? [`<REFERENCE>${xmlText(entry.payment.referenceNumber)}</REFERENCE>`] : []),
+    `<NARRATION>${xmlText(narrationFor(entry))}</NARRATION>`,
+    ...entry.lines.map(line => tallyLedgerEntry(line, entry, accounting)),
+    '</VOUCHER>',
+    '</TALLYMESSAGE>'
+  ].join('\n');
+};
+
+// Per-investor ledgers do not exist in Tally until created, so they go in ahead of the vouchers
+const tallyInvestorLedgers = (entries, accounting) => {
+  if (!accounting.perInvestorLedgers) return [];
+
+  const investors = new Map();
+  entries.forEach(entry => {
+    if (entry.investor && entry.lines.some(line => line.account === ACCOUNTS.INVESTOR_PRINCIPAL)) {
+      investors.set(String(entry.investor._id), entry.investor);
+    }
+  });
+
+  return [...investors.values()].map(investor => {
+    const name = xmlText(investorLedgerName(investor));
+    return [
+      '<TALLYMESSAGE xmlns:UDF="TallySchema">',
+      `<LEDGER NAME="${name}" ACTION="Create">`,
+      `<NAME>${name}</NAME>`,
+      `<PARENT>${xmlText(accounting.investorLedgerGroup)}</PARENT>`,
+      '</LEDGER>',
+      '</TALLYMESSAGE>'
+    ].join('\n');
+  });
+};
+
+export const renderTallyXml = (entries, accounting) => {
+  const company = accounting.tallyCompanyName
+    ? `<STATICVARIABLES>\n<SVCURRENTCOMPANY>${xmlText(accounting.tallyCompanyName)}</SVCURRENTCOMPANY>\n</STATICVARIABLES>`
+    : '';
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<ENVELOPE>',
+    '<HEADER>',
+    '<TALLYREQUEST>Import Data</TALLYREQUEST>',
+    '</HEADER>',
+    '<BODY>',
+    '<IMPORTDATA>',
+    '<REQUESTDESC>',
+    '<REPORTNAME>Vouchers</REPORTNAME>',
+    ...(company ? [company] : []),
+    '</REQUESTDESC>',
+    '<REQUESTDATA>',
+    ...tallyInvestorLedgers(entries, accounting),
+    ...entries.map(entry => tallyVoucher(entry, accounting)),
+    '</REQUESTDATA>',
+    '</IMPORTDATA>',
+    '</BODY>',
+    '</ENVELOPE>',
+    ''
+  ].join('\n');
+};
+
+// format: 'tally' (XML vouchers) or 'csv' (generic journal)
+export const buildAccountingExport = async ({ from, to, format, types }) => {
+  const [entries, accounting] = await Promise.all([
+    loadExportEntries({ from, to, types }),
+    Settings.getAccountingSettings()
+  ]);
+
+  const period = `${toDate(from)}_${toDate(to)}`;
+  if (format === 'tally') {
+    return {
+      fileName: `tally_vouchers_${period}.xml`,
+      contentType: 'application/xml',
+      count: entries.length,
+      content: renderTallyXml(entries, accounting)
+    };
+  }
+
+  return {
+    fileName: `journal_${period}.csv`,
+    contentType: 'text/csv',
+    count: entries.length,
+    content: renderJournalCsv(entries, accounting)
+  };
+};
@@ -0,0 +1,73 @@
+// backend/services/documentBranding.js - Company letterhead for generated PDF documents
+// Name, logo and address come from Settings.company; used by receipts and account statements.
+import fs from 'fs/promises';
+import Settings from '../models/Settings.js';
+import { PAGE_WIDTH } from '../utils/pdfDocument.js';
+
+export const MARGIN = 50;
+export const RIGHT = PAGE_WIDTH - MARGIN;
+
+// Amounts as Rs. with Indian digit grouping; the core PDF fonts have no rupee glyph
+export const formatAmount = (value) => `Rs. ${new Intl.NumberFormat('en-IN', {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2
+}).format(Math.abs(value))}`;
+
+export const formatDate = (date) => new Date(date).toLocaleDateString('en-IN', {
+  day: '2-digit',
+  month: 'short',
+  year: 'numeric'
+});
+
+export const loadCompany = async () => {
+  const settings = await Settings.findOne().select('company');
+  return settings?.company || { name: process.env.COMPANY_NAME || 'FinanceTracker' };
+};
+
+export const readLogo = async (logoPath) => {
+  if (!logoPath) return null;
+  try {
+    return await fs.readFile(logoPath);
+  } catch (error) {
+    console.error('Company logo could not be read:', error.message);
+    return null;
+  }
+};
+
+const companyAddressLines = (company) => {
+  const address = company.address || {};
+  return [
+    address.street,
+    [address.city, address.state, address.pincode].filter(Boolean).join(', '),
+    [company.phone, company.email].filter(Boolean).join(' | '),
+    company.taxId ? `GSTIN/PAN: ${company.taxId}` : null
+  ].filter(Boolean);
+};
+
+// Logo and company details on the left, document title and reference lines on the right.
+// Returns the top of the rule drawn under the letterhead.
+export const drawLetterhead = (doc, company, logo, { title, titleColor = '#1D4ED8', details = [] }) => {
+  let textLeft = MARGIN;
+  if (logo && doc.image(logo, MARGIN, 45, 60, 60)) {
+    textLeft = MARGIN + 72;
+  }
+  doc.text(company.name, textLeft, 62, { size: 18, weight: 'bold' });
+  companyAddressLines(company).forEach((line, index) => {
+    doc.text(line, textLeft, 78 + index * 12, { size: 9, color: '#4B5563' });
+  });
+
+  doc.text(title, RIGHT, 62, { size: 14, weight: 'bold', color: titleColor, align: 'right' });
+  details.forEach((line, index) => {
+    doc.text(line, RIGHT, 78 + index * 12, { size: 9, align: 'right' });
+  });
+
+  doc.line(MARGIN, 130, RIGHT, 130, { color: '#9CA3AF', width: 1 });
+  return 130;
+};
+
+export const drawFooter = (doc, lines) => {
+  doc.line(MARGIN, 770, RIGHT, 770);
+  lines.forEach((line, index) => {
+    doc.text(line, PAGE_WIDTH / 2, 786 + index * 12, { size: 8, color: index ? '#9CA3AF' : '#6B7280', align: 'center' });
+  });
+};
@@ -448,6 +448,106 @@ class EmailService {
     `;
   }
 
+  async sendPaymentReceiptEmail(investor, payment, attachment, company = {}) {
+    if (!this.isConfigured) {
+      console.warn('⚠️ Email service not configured, skipping payment receipt email');
+      return { success: false, message: 'Email service not configured' };
+    }
+
+    try {
+      const companyName = company.name || process.env.COMPANY_NAME || 'FinanceTracker';
+      const fromEmail = process.env.EMAIL_FROM || process.env.FROM_EMAIL || `${companyName} <${process.env.EMAIL_USER}>`;
+      const documentName = payment.reversalOf ? 'reversal voucher' : 'payment receipt';
+
+      const mailOptions = {
+        from: fromEmail,
+        to: investor.email,
+        subject: `${companyName} - ${payment.reversalOf ? 'Reversal Voucher' : 'Payment Receipt'} ${payment.paymentId}`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <h2 style="color: #3B82F6;">${companyName}</h2>
+            <p>Dear ${investor.name},</p>
+            <p>Please find attached the ${documentName} for payment <strong>${payment.paymentId}</strong>
+              of <strong>₹${Math.abs(payment.amount - (payment.tdsAmount || 0)).toLocaleString('en-IN', { minimumFractionDigits: 2 })}</strong>
+              dated ${new Date(payment.paymentDate).toLocaleDateString('en-IN')}.</p>
+            <p>Please keep it for your records. Contact us at ${company.email || process.env.COMPANY_EMAIL || 'support@financetracker.com'} if anything looks incorrect.</p>
+            <p>Best regards,<br><strong>The ${companyName} Team</strong></p>
+          </div>
+        `,
+        attachments: [attachment]
+      };
+
+      const result = await this.transporter.sendMail(mailOptions);
+      console.log(`✅ Payment receipt ${payment.paymentId} sent to ${investor.email}:`, result.messageId);
+
+      return {
+        success: true,
+        messageId: result.messageId,
+        message: 'Payment receipt emailed successfully'
+      };
+    } catch (error) {
+      console.error('❌ Failed to send payment receipt email:', error.message);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to send payment receipt email'
+      };
+    }
+  }
+
+  async sendAccountStatementEmail(investor, statement, attachments, company = {}) {
+    if (!this.isConfigured) {
+      console.warn('⚠️ Email service not configured, skipping account statement email');
+      return { success: false, message: 'Email service not configured' };
+    }
+
+    try {
+      const companyName = company.name || process.env.COMPANY_NAME || 'FinanceTracker';
+      const fromEmail = process.env.EMAIL_FROM || process.env.FROM_EMAIL || `${companyName} <${process.env.EMAIL_USER}>`;
+      const formatDate = (date) => new Date(date).toLocaleDateString('en-IN');
+      const formatAmount = (value) => `₹${value.toLocaleString('en-IN', { minimumFractionDigits: 2 })}`;
+      const period = `${formatDate(statement.period.from)} to ${formatDate(statement.period.to)}`;
+
+      const mailOptions = {
+        from: fromEmail,
+        to: investor.email,
+        subject: `${companyName} - Account Statement ${period}`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <h2 style="color: #3B82F6;">${companyName}</h2>
+            <p>Dear ${investor.name},</p>
+            <p>Please find attached your account statement for <strong>${period}</strong>.</p>
+            <table style="border-collapse: collapse; margin: 16px 0;">
+              <tr><td style="padding: 4px 16px 4px 0;">Opening balance</td><td style="text-align: right;">${formatAmount(statement.summary.openingBalance)}</td></tr>
+              <tr><td style="padding: 4px 16px 4px 0;">Interest accrued</td><td style="text-align: right;">${formatAmount(statement.summary.interestAccrued)}</td></tr>
+              <tr><td style="padding: 4px 16px 4px 0;">Total paid out</td><td style="text-align: right;">${formatAmount(statement.summary.totalPaid)}</td></tr>
+              <tr><td style="padding: 4px 16px 4px 0;"><strong>Closing balance</strong></td><td style="text-align: right;"><strong>${formatAmount(statement.summary.closingBalance)}</strong></td></tr>
+            </table>
+            <p>Contact us at ${company.email || process.env.COMPANY_EMAIL || 'support@financetracker.com'} if anything looks incorrect.</p>
+            <p>Best regards,<br><strong>The ${companyName} Team</strong></p>
+          </div>
+        `,
+        attachments
+      };
+
+      const result = await this.transporter.sendMail(mailOptions);
+      console.log(`✅ Account statement for ${investor.investorId} sent to ${investor.email}:`, result.messageId);
+
+      return {
+        success: true,
+        messageId: result.messageId,
+        message: 'Account statement emailed successfully'
+      };
+    } catch (error) {
+      console.error('❌ Failed to send account statement email:', error.message);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to send account statement email'
+      };
+    }
+  }
+
   async sendTestEmail(toEmail) {
     if (!this.isConfigured) {
       return { success: false, message: 'Email service not configured' };
@@ -0,0 +1,155 @@
+// backend/services/holdings.js - Joint holders, nominees and closure after a holder's death
+// An investment's investor is its primary holder; jointHolders name up to two more investors,
+// each with their own KYC. When a holder dies, the surviving holders take the investment over.
+// When none survives, a closure is paid to the nominees by share, through the guardian for a
+// nominee who is still a minor. Without nominees the claim is for the legal heirs to settle.
+import Investor from '../models/Investor.js';
+import { roundCurrency } from '../../shared/scheduleEngine.js';
+import { MODE_OF_OPERATION_LABELS, holdingError, isMinor } from '../../shared/holdingRules.js';
+import { assertKycVerified } from './kyc.js';
+
+export class HoldingError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'HoldingError';
+    this.statusCode = 400;
+  }
+}
+
+const HOLDER_FIELDS = 'investorId name email phone status deceased';
+
+const idOf = (value) => String(value?._id || value);
+
+// Holding fields from a request body, in the shape stored on the investment
+export const holdingInput = ({ jointHolders = [], modeOfOperation, nominees = [] }) => ({
+  jointHolders: jointHolders.map(holder => ({
+    investor: holder.investor,
+    relationship: holder.relationship?.trim() || undefined
+  })),
+  modeOfOperation: modeOfOperation || (jointHolders.length > 0 ? 'either_or_survivor' : 'single'),
+  nominees: nominees.map(nominee => ({
+    name: nominee.name?.trim(),
+    relationship: nominee.relationship?.trim(),
+    dateOfBirth: nominee.dateOfBirth,
+    sharePercent: Number(nominee.sharePercent),
+    phone: nominee.phone?.trim() || undefined,
+    address: nominee.address?.trim() || undefined,
+    guardian: isMinor(nominee.dateOfBirth) ? {
+      name: nominee.guardian?.name?.trim(),
+      relationship: nominee.guardian?.relationship?.trim() || undefined,
+      phone: nominee.guardian?.phone?.trim() || undefined,
+      address: nominee.guardian?.address?.trim() || undefined
+    } : undefined
+  }))
+});
+
+// Checks the holding rules, then that each joint holder is a living, active investor with
+// verified KYC; throws HoldingError or KycError
+export const validateHolding = async (primaryId, holding) => {
+  const error = holdingError({ investor: idOf(primaryId), ...holding });
+  if (error) {
+    throw new HoldingError(error);
+  }
+
+  const ids = holding.jointHolders.map(holder => idOf(holder.investor));
+  const investors = await Investor.find({ _id: { $in: ids } });
+  for (const id of ids) {
+    const investor = investors.find(item => String(item._id) === id);
+    if (!investor) {
+      throw new HoldingError('Joint holder not found');
+    }
+    if (investor.deceased?.dateOfDeath) {
+      throw new HoldingError(`${investor.name} is recorded as deceased and cannot be a joint holder`);
+    }
+    if (investor.status !== 'active') {
+      throw new HoldingError(`${investor.name} is not an active investor and cannot be a joint holder`);
+    }
+    await assertKycVerified(investor);
+  }
+};
+
+// Primary holder first, then the joint holders in order
+export const loadHolders = async (investment) => {
+  const ids = [investment.investor, ...(investment.jointHolders || []).map(holder => holder.investor)].map(idOf);
+  const investors = await Investor.find({ _id: { $in: ids } }).select(HOLDER_FIELDS);
+  return ids
+    .map(id => investors.find(investor => String(investor._id) === id))
+    .filter(Boolean);
+};
+
+export const deceasedHolders = (holders) => holders.filter(holder => holder.deceased?.dateOfDeath);
+
+// Who a closure is paid to when a holder has died, with `amount` split between them; null
+// while every holder is alive. The last claimant takes the rounding difference.
+export const deathClaim = (investment, holders, amount, asOf = new Date()) => {
+  const deceased = deceasedHolders(holders);
+  if (deceased.length === 0) {
+    return null;
+  }
+
+  const survivors = holders.filter(holder => !holder.deceased?.dateOfDeath);
+  let claimants;
+  if (survivors.length > 0) {
+    const share = roundCurrency(100 / survivors.length);
+    claimants = survivors.map(holder => ({
+      role: 'surviving_holder',
+      investor: holder._id,
+      name: holder.name,
+      sharePercent: share,
+      payTo: holder.name
+    }));
+  } else if ((investment.nominees || []).length > 0) {
+    claimants = investment.nominees.map(nominee => ({
+      role: 'nominee',
+      name: nominee.name,
+      sharePercent: nominee.sharePercent,
+      payTo: isMinor(nominee.dateOfBirth, asOf) && nominee.guardian?.name
+        ? `${nominee.guardian.name} (guardian of ${nominee.name})`
+        : nominee.name
+    }));
+  } else {
+    throw new HoldingError('No holder survives and no nominee is registered; the claim has to be settled with the legal heirs');
+  }
+
+  let allocated = 0;
+  claimants.forEach((claimant, index) => {
+    claimant.amount = index === claimants.length - 1
+      ? roundCurrency(amount - allocated)
+      : roundCurrency(amount * claimant.sharePercent / 100);
+    allocated = roundCurrency(allocated + claimant.amount);
+  });
+
+  return {
+    deceased: deceased.map(holder => ({
+      investor: holder._id,
+      name: holder.name,
+      dateOfDeath: holder.deceased.dateOfDeath
+    })),
+    claimants
+  };
+};
+
+// One line per claimant, for payment notes
+export const describeClaim = (claim) => claim.claimants
+  .map(claimant => `${claimant.payTo} ${claimant.sharePercent}% (${claimant.amount})`)
+  .join(', ');
+
+// Holding as printed on agreements and statements; jointHolders.investor must be populated
+export const holdingSummary = (investment) => ({
+  modeOfOperation: investment.modeOfOperation || 'single',
+  modeLabel: MODE_OF_OPERATION_LABELS[investment.modeOfOperation || 'single'],
+  jointHolders: (investment.jointHolders || []).map(holder => ({
+    investorId: holder.investor?.investorId,
+    name: holder.investor?.name,
+    relationship: holder.relationship,
+    deceased: !!holder.investor?.deceased?.dateOfDeath
+  })),
+  nominees: (investment.nominees || []).map(nominee => ({
+    name: nominee.name,
+    relationship: nominee.relationship,
+    dateOfBirth: nominee.dateOfBirth,
+    sharePercent: nominee.sharePercent,
+    minor: isMinor(nominee.dateOfBirth),
+    guardian: nominee.guardian?.name || null
+  }))
+});
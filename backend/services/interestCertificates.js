@@ -0,0 +1,301 @@
+// backend/services/interestCertificates.js - Annual interest certificates for investors' tax filing
+// A certificate covers one financial year (Settings.financial.financialYearStart): interest paid or
+// credited and TDS withheld on each investment during the year, and principal still outstanding at
+// year end. Figures come from completed payments; reversal entries carry negated amounts and cancel
+// what they reverse. Pending, failed and cancelled payments are left out, as on account statements.
+import Investment from '../models/Investment.js';
+import Investor from '../models/Investor.js';
+import Payment from '../models/Payment.js';
+import Settings from '../models/Settings.js';
+import {
+  MARGIN,
+  RIGHT,
+  drawFooter,
+  drawLetterhead,
+  formatAmount,
+  formatDate,
+  loadCompany,
+  readLogo
+} from './documentBranding.js';
+import { amountInWords } from '../utils/amountInWords.js';
+import { financialPeriodRange, financialYearOf } from '../utils/financialYear.js';
+import { maskPan } from '../utils/masking.js';
+import { createPdfDocument } from '../utils/pdfDocument.js';
+import { roundCurrency } from '../../shared/scheduleEngine.js';
+import { createZipArchive } from '../utils/zipArchive.js';
+
+export class CertificateError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'CertificateError';
+    this.statusCode = 400;
+  }
+}
+
+// Year range for a label, defaulting to the financial year before the current one: the year
+// investors file returns for
+export const resolveCertificateYear = async (financialYear) => {
+  const { financialYearStart, tdsSection } = await Settings.getTaxSettings();
+  const current = financialYearOf(new Date(), financialYearStart);
+  const label = financialYear || financialYearOf(new Date(current.start.getTime() - 1), financialYearStart).label;
+  const range = financialPeriodRange(label, financialYearStart);
+  if (!range) {
+    throw new CertificateError(`${label} is not a financial year starting in ${financialYearStart}`);
+  }
+  return { financialYear: label, ...range, tdsSection };
+};
+
+const sumBy = (payments, field) => roundCurrency(payments.reduce((total, payment) => total + (payment[field] || 0), 0));
+
+// Certificate for one investor from their investments and payments up to the end of the year
+const certificateFor = (investor, investments, payments, year) => {
+  const rows = investments
+    .map(investment => {
+      const investmentPayments = payments.filter(payment => payment.investment.equals(investment._id));
+      const duringYear = investmentPayments.filter(payment => payment.paymentDate >= year.start);
+      return {
+        investment: investment._id,
+        investmentId: investment.investmentId,
+        planName: investment.plan?.name,
+        investmentDate: investment.investmentDate,
+        interestRate: investment.interestRate,
+        principalAmount: investment.principalAmount,
+        interestCredited: sumBy(duringYear, 'interestAmount'),
+        tdsWithheld: sumBy(duringYear, 'tdsAmount'),
+        principalOutstanding: roundCurrency(investment.principalAmount - sumBy(investmentPayments, 'principalAmount'))
+      };
+    })
+    // Investments closed before the year with nothing paid during it have nothing to certify
+    .filter(row => row.interestCredited !== 0 || row.tdsWithheld !== 0 || row.principalOutstanding > 0);
+
+  const totals = {
+    interestCredited: roundCurrency(rows.reduce((total, row) => total + row.interestCredited, 0)),
+    tdsWithheld: roundCurrency(rows.reduce((total, row) => total + row.tdsWithheld, 0)),
+    principalOutstanding: roundCurrency(rows.reduce((total, row) => total + row.principalOutstanding, 0))
+  };
+
+  return {
+    certificateNumber: `IC/${year.financialYear}/${investor.investorId}`,
+    investor: {
+      _id: investor._id,
+      investorId: investor.investorId,
+      name: investor.name,
+      email: investor.email,
+      address: investor.fullAddress,
+      // Certificates are emailed and downloaded, so the PAN is masked like everywhere else
+      panNumber: maskPan(investor.kyc?.panNumber) || null
+    },
+    financialYear: year.financialYear,
+    period: { from: year.start, to: year.end },
+    tdsSection: year.tdsSection,
+    investments: rows,
+    totals: {
+      ...totals,
+      netInterest: roundCurrency(totals.interestCredited - totals.tdsWithheld)
+    },
+    generatedAt: new Date()
+  };
+};
+
+const INVESTOR_FIELDS = 'investorId name email address kyc.panNumber';
+
+const loadInvestments = (filter, year) => Investment.find({
+  ...filter,
+  investmentDate: { $lte: year.end }
+})
+  .select('investmentId investor plan principalAmount interestRate investmentDate')
+  .populate('plan', 'name')
+  .sort({ investmentDate: 1 });
+
+const loadPayments = (investments, year) => Payment.find({
+  investment: { $in: investments.map(investment => investment._id) },
+  status: { $in: ['completed', 'reversed'] },
+  awaitingVerification: { $ne: true },
+  paymentDate: { $lte: year.end }
+})
+  .select('investment interestAmount principalAmount tdsAmount paymentDate');
+
+// Interest certificate for an investor and financial year (default: the last completed year)
+export const buildInterestCertificate = async ({ investorId, financialYear }) => {
+  const year = await resolveCertificateYear(financialYear);
+  const investor = await Investor.findById(investorId).select(INVESTOR_FIELDS);
+  if (!investor) {
+    throw new CertificateError('Investor not found');
+  }
+
+  const investments = await loadInvestments({ investor: investor._id }, year);
+  const payments = await loadPayments(investments, year);
+  return certificateFor(investor, investments, payments, year);
+};
+
+// Certificates for every investor with something to certify in the year
+export const buildInterestCertificates = async ({ financialYear }) => {
+  const year = await resolveCertificateYear(financialYear);
+  const investments = await loadInvestments({}, year);
+  const payments = await loadPayments(investments, year);
+  const investors = await Investor.find({ _id: { $in: investments.map(investment => investment.investor) } })
+    .select(INVESTOR_FIELDS)
+    .sort({ investorId: 1 });
+
+  const investorOf = new Map(investments.map(investment => [String(investment._id), String(investment.investor)]));
+  return {
+    financialYear: year.financialYear,
+    certificates: investors
+      .map(investor => certificateFor(
+        investor,
+        investments.filter(investment => investment.investor.equals(investor._id)),
+        payments.filter(payment => investorOf.get(String(payment.investment)) === String(investor._id)),
+        year
+      ))
+      .filter(certificate => certificate.investments.length > 0)
+  };
+};
+
+export const certificateFileName = (certificate) =>
+  `interest_certificate_${certificate.investor.investorId}_${certificate.financialYear}.pdf`;
+
+export const certificateArchiveName = (financialYear) => `interest_certificates_${financialYear}.zip`;
+
+// Table columns: x is the left edge, or the right edge for right-aligned columns
+const COLUMNS = [
+  { key: 'investmentId', label: 'Investment', x: MARGIN + 6 },
+  { key: 'investmentDate', label: 'Invested On', x: MARGIN + 96 },
+  { key: 'interestCredited', label: 'Interest Credited', x: RIGHT - 220, align: 'right' },
+  { key: 'tdsWithheld', label: 'TDS Withheld', x: RIGHT - 120, align: 'right' },
+  { key: 'principalOutstanding', label: 'Principal O/S', x: RIGHT - 6, align: 'right' }
+];
+
+const ROW_HEIGHT = 18;
+const TABLE_BOTTOM = 700;
+
+export const renderInterestCertificate = (certificate, company, logo) => {
+  const { investor, totals } = certificate;
+  const doc = createPdfDocument({ title: `Interest Certificate ${certificate.certificateNumber}` });
+  const yearLabel = `${formatDate(certificate.period.from)} to ${formatDate(certificate.period.to)}`;
+
+  const footer = () => drawFooter(doc, [
+    'This is a computer-generated certificate and does not require a signature.',
+    `Generated on ${formatDate(certificate.generatedAt)} | Page ${doc.pageCount()}`
+  ]);
+
+  const tableHeader = (top) => {
+    doc.rect(MARGIN, top, RIGHT - MARGIN, 20);
+    COLUMNS.forEach(column => {
+      doc.text(column.label, column.x, top + 13, { size: 9, weight: 'bold', align: column.align || 'left' });
+    });
+    return top + 20;
+  };
+
+  drawLetterhead(doc, company, logo, {
+    title: 'INTEREST CERTIFICATE',
+    details: [`No. ${certificate.certificateNumber}`, `Financial Year ${certificate.financialYear}`]
+  });
+
+  doc.text('Issued To', MARGIN, 152, { size: 9, weight: 'bold', color: '#6B7280' });
+  doc.text(investor.name, MARGIN, 168, { size: 12, weight: 'bold' });
+  [
+    `Investor ID: ${investor.investorId}`,
+    `PAN: ${investor.panNumber || 'Not available'}`,
+    investor.address
+  ].filter(Boolean).forEach((line, index) => {
+    doc.text(line, MARGIN, 184 + index * 13, { size: 9, color: '#374151' });
+  });
+
+  let top = doc.paragraph(
+    `This is to certify that the following interest was paid or credited to the above investor during the financial year ${certificate.financialYear} (${yearLabel}), with tax deducted at source under section ${certificate.tdsSection} of the Income Tax Act as shown.`,
+    MARGIN,
+    240,
+    RIGHT - MARGIN,
+    { size: 10, lineHeight: 15 }
+  ) + 12;
+
+  top = tableHeader(top);
+  certificate.investments.forEach(row => {
+    if (top + ROW_HEIGHT > TABLE_BOTTOM) {
+      footer();
+      doc.addPage();
+      doc.text(`${investor.name} - FY ${certificate.financialYear} (continued)`, MARGIN, 50, { size: 9, color: '#6B7280' });
+      top = tableHeader(60);
+    }
+
+    const values = {
+      investmentId: row.investmentId,
+      investmentDate: formatDate(row.investmentDate),
+      interestCredited: formatAmount(row.interestCredited),
+      tdsWithheld: formatAmount(row.tdsWithheld),
+      principalOutstanding: formatAmount(row.principalOutstanding)
+    };
+    COLUMNS.forEach(column => {
+      doc.text(values[column.key], column.x, top + 13, { size: 9, align: column.align || 'left' });
+    });
+    top += ROW_HEIGHT;
+    doc.line(MARGIN, top, RIGHT, top, { color: '#E5E7EB', width: 0.5 });
+  });
+
+  if (top + 130 > TABLE_BOTTOM) {
+    footer();
+    doc.addPage();
+    top = 60;
+  }
+
+  doc.rect(MARGIN, top + 4, RIGHT - MARGIN, 22, { fill: '#EFF6FF' });
+  doc.text('Total', COLUMNS[0].x, top + 19, { size: 9, weight: 'bold' });
+  doc.text(formatAmount(totals.interestCredited), COLUMNS[2].x, top + 19, { size: 9, weight: 'bold', align: 'right' });
+  doc.text(formatAmount(totals.tdsWithheld), COLUMNS[3].x, top + 19, { size: 9, weight: 'bold', align: 'right' });
+  doc.text(formatAmount(totals.principalOutstanding), COLUMNS[4].x, top + 19, { size: 9, weight: 'bold', align: 'right' });
+  top += 44;
+
+  [
+    ['Gross interest paid / credited', totals.interestCredited],
+    [`Tax deducted at source (u/s ${certificate.tdsSection})`, totals.tdsWithheld],
+    ['Net interest paid', totals.netInterest],
+    [`Principal outstanding on ${formatDate(certificate.period.to)}`, totals.principalOutstanding]
+  ].forEach(([label, value]) => {
+    doc.text(label, MARGIN, top, { size: 10, color: '#374151' });
+    doc.text(formatAmount(value), RIGHT, top, { size: 10, weight: 'bold', align: 'right' });
+    top += 16;
+  });
+
+  top += 8;
+  doc.text('Interest in words', MARGIN, top, { size: 9, weight: 'bold', color: '#6B7280' });
+  top = doc.paragraph(amountInWords(totals.interestCredited), MARGIN, top + 14, RIGHT - MARGIN, { size: 10 });
+
+  if (totals.tdsWithheld) {
+    doc.paragraph(
+      'Tax deducted has been deposited with the government and will reflect in Form 26AS / AIS against the PAN above.',
+      MARGIN,
+      top + 16,
+      RIGHT - MARGIN,
+      { size: 8, color: '#6B7280' }
+    );
+  }
+
+  footer();
+  return doc.toBuffer();
+};
+
+// PDF with the company letterhead
+export const buildCertificatePdf = async (certificate) => {
+  const company = await loadCompany();
+  const logo = await readLogo(company.logo);
+  return renderInterestCertificate(certificate, company, logo);
+};
+
+// Zip of every investor's certificate for a financial year
+export const buildCertificateArchive = async ({ financialYear }) => {
+  const { financialYear: label, certificates } = await buildInterestCertificates({ financialYear });
+  if (certificates.length === 0) {
+    throw new CertificateError(`No interest to certify for ${label}`);
+  }
+
+  const company = await loadCompany();
+  const logo = await readLogo(company.logo);
+  return {
+    fileName: certificateArchiveName(label),
+    count: certificates.length,
+    content: createZipArchive(certificates.map(certificate => ({
+      name: certificateFileName(certificate),
+      content: renderInterestCertificate(certificate, company, logo)
+    })))
+  };
+};
@@ -0,0 +1,204 @@
+// backend/services/investmentAgreements.js - Investment agreement PDF with holders and nominees
+// Printed from the investment as it stands: terms copied from the plan at creation, the primary
+// and joint holders, the mode of operation and the registered nominees. PANs are masked.
+import Investment from '../models/Investment.js';
+import {
+  MARGIN,
+  RIGHT,
+  drawFooter,
+  drawLetterhead,
+  formatAmount,
+  formatDate,
+  loadCompany,
+  readLogo
+} from './documentBranding.js';
+import { holdingSummary } from './holdings.js';
+import { maskPan } from '../utils/masking.js';
+import { createPdfDocument } from '../utils/pdfDocument.js';
+
+const HOLDER_FIELDS = 'investorId name email phone address kyc.panNumber deceased';
+const PAGE_BOTTOM = 740;
+
+const RATE_BASIS_LABELS = {
+  monthly: 'per month',
+  annual_nominal: 'per annum',
+  annual_effective: 'per annum (effective)'
+};
+
+// Who gets the investment when a holder dies, as worded on the agreement
+const SURVIVORSHIP_CLAUSES = {
+  single: 'On the death of the holder, the amount due will be paid to the nominees in the shares shown, or to the legal heirs where no nominee is registered.',
+  either_or_survivor: 'Either holder may give instructions on the investment. On the death of a holder, the surviving holders continue it; on the death of all holders, the amount due is paid to the nominees.',
+  former_or_survivor: 'Only the primary holder gives instructions while alive; after the primary holder\'s death the surviving holders continue it. On the death of all holders, the amount due is paid to the nominees.',
+  jointly: 'Instructions need the signature of every holder. On the death of a holder, the surviving holders continue it; on the death of all holders, the amount due is paid to the nominees.'
+};
+
+const holderDetails = (investor, role, relationship) => ({
+  role,
+  name: investor.name,
+  investorId: investor.investorId,
+  relationship: relationship || null,
+  panNumber: maskPan(investor.kyc?.panNumber) || null,
+  address: investor.fullAddress || null,
+  deceased: !!investor.deceased?.dateOfDeath
+});
+
+// Agreement data for an investment, or null when it does not exist
+export const buildInvestmentAgreement = async (investmentId) => {
+  const investment = await Investment.findById(investmentId)
+    .populate('investor', HOLDER_FIELDS)
+    .populate('jointHolders.investor', HOLDER_FIELDS)
+    .populate('plan', 'planId name');
+  if (!investment) {
+    return null;
+  }
+
+  return {
+    investmentId: investment.investmentId,
+    planName: investment.plan?.name,
+    principalAmount: investment.principalAmount,
+    investmentDate: investment.investmentDate,
+    maturityDate: investment.maturityDate,
+    interestRate: investment.interestRate,
+    rateBasis: investment.rateBasis,
+    interestType: investment.interestType,
+    tenure: investment.tenure,
+    paymentType: investment.paymentType,
+    prematureWithdrawalPenalty: investment.prematureWithdrawalPenalty || 0,
+    holders: [
+      holderDetails(investment.investor, 'Primary holder'),
+      ...investment.jointHolders
+        .filter(holder => holder.investor)
+        .map((holder, index) => holderDetails(holder.investor, `Joint holder ${index + 1}`, holder.relationship))
+    ],
+    ...holdingSummary(investment),
+    generatedAt: new Date()
+  };
+};
+
+export const agreementFileName = (agreement) => `agreement-${agreement.investmentId}.pdf`;
+
+export const renderInvestmentAgreement = (agreement, company, logo) => {
+  const doc = createPdfDocument({ title: `Investment Agreement ${agreement.investmentId}` });
+
+  const footer = () => drawFooter(doc, [
+    `Investment ${agreement.investmentId} | Mode of operation: ${agreement.modeLabel}`,
+    `Generated on ${formatDate(agreement.generatedAt)} | Page ${doc.pageCount()}`
+  ]);
+
+  // Starts a new page when `height` more points would run into the footer
+  let top;
+  const ensureSpace = (height) => {
+    if (top + height <= PAGE_BOTTOM) return;
+    footer();
+    doc.addPage();
+    doc.text(`Investment Agreement ${agreement.investmentId} (continued)`, MARGIN, 50, { size: 9, color: '#6B7280' });
+    top = 70;
+  };
+
+  const heading = (label) => {
+    ensureSpace(40);
+    doc.text(label, MARGIN, top, { size: 11, weight: 'bold', color: '#1D4ED8' });
+    top += 16;
+  };
+
+  const row = (label, value) => {
+    ensureSpace(14);
+    doc.text(label, MARGIN, top, { size: 9, color: '#6B7280' });
+    doc.text(String(value), MARGIN + 170, top, { size: 9 });
+    top += 14;
+  };
+
+  drawLetterhead(doc, company, logo, {
+    title: 'INVESTMENT AGREEMENT',
+    details: [`No. ${agreement.investmentId}`, `Dated ${formatDate(agreement.investmentDate)}`]
+  });
+
+  top = doc.paragraph(
+    `This agreement records the investment of ${formatAmount(agreement.principalAmount)} with ${company.name} by the holders named below, on the terms set out in it.`,
+    MARGIN,
+    156,
+    RIGHT - MARGIN,
+    { size: 10, lineHeight: 15 }
+  ) + 14;
+
+  heading('Holders');
+  agreement.holders.forEach(holder => {
+    ensureSpace(60);
+    doc.text(`${holder.role}${holder.deceased ? ' (deceased)' : ''}`, MARGIN, top, { size: 9, weight: 'bold', color: '#6B7280' });
+    doc.text(holder.name, MARGIN + 170, top, { size: 10, weight: 'bold' });
+    top += 14;
+    [
+      `Investor ID: ${holder.investorId}`,
+      holder.relationship ? `Relationship to primary holder: ${holder.relationship}` : null,
+      `PAN: ${holder.panNumber || 'Not available'}`,
+      holder.address
+    ].filter(Boolean).forEach(line => {
+      doc.text(line, MARGIN + 170, top, { size: 9, color: '#374151' });
+      top += 12;
+    });
+    top += 6;
+  });
+  row('Mode of operation', agreement.modeLabel);
+  top += 10;
+
+  heading('Terms');
+  row('Plan', agreement.planName || '-');
+  row('Principal amount', formatAmount(agreement.principalAmount));
+  row('Interest rate', `${agreement.interestRate}% ${RATE_BASIS_LABELS[agreement.rateBasis] || 'per month'} (${agreement.interestType})`);
+  row('Tenure', `${agreement.tenure} months`);
+  row('Investment date', formatDate(agreement.investmentDate));
+  row('Maturity date', formatDate(agreement.maturityDate));
+  row('Payouts', agreement.paymentType === 'interestWithPrincipal' ? 'Interest with principal' : 'Interest only, principal at maturity');
+  row('Premature withdrawal', `${agreement.prematureWithdrawalPenalty}% of the principal withdrawn`);
+  top += 10;
+
+  heading('Nominees');
+  if (agreement.nominees.length === 0) {
+    ensureSpace(14);
+    doc.text('No nominee registered.', MARGIN, top, { size: 9, color: '#374151' });
+    top += 14;
+  } else {
+    ensureSpace(20);
+    doc.rect(MARGIN, top - 12, RIGHT - MARGIN, 18);
+    [['Name', MARGIN + 6], ['Relationship', MARGIN + 150], ['Date of birth', MARGIN + 250], ['Share', MARGIN + 340], ['Guardian', MARGIN + 390]]
+      .forEach(([label, x]) => doc.text(label, x, top, { size: 9, weight: 'bold' }));
+    top += 18;
+    agreement.nominees.forEach(nominee => {
+      ensureSpace(16);
+      doc.text(nominee.name, MARGIN + 6, top, { size: 9 });
+      doc.text(nominee.relationship, MARGIN + 150, top, { size: 9 });
+      doc.text(formatDate(nominee.dateOfBirth), MARGIN + 250, top, { size: 9 });
+      doc.text(`${nominee.sharePercent}%`, MARGIN + 340, top, { size: 9 });
+      doc.text(nominee.minor ? `${nominee.guardian || '-'} (minor)` : '-', MARGIN + 390, top, { size: 9 });
+      top += 6;
+      doc.line(MARGIN, top, RIGHT, top, { color: '#E5E7EB', width: 0.5 });
+      top += 10;
+    });
+  }
+  top += 10;
+
+  ensureSpace(60);
+  top = doc.paragraph(SURVIVORSHIP_CLAUSES[agreement.modeOfOperation], MARGIN, top, RIGHT - MARGIN, { size: 9, color: '#374151', lineHeight: 13 }) + 30;
+
+  // Signature lines, two to a row
+  agreement.holders.forEach((holder, index) => {
+    const x = index % 2 === 0 ? MARGIN : MARGIN + (RIGHT - MARGIN) / 2 + 10;
+    if (index % 2 === 0) ensureSpace(50);
+    doc.line(x, top, x + 200, top, { color: '#9CA3AF' });
+    doc.text(`${holder.name} (${holder.role})`, x, top + 14, { size: 9 });
+    if (index % 2 === 1 || index === agreement.holders.length - 1) top += 50;
+  });
+  ensureSpace(50);
+  doc.line(MARGIN, top, MARGIN + 200, top, { color: '#9CA3AF' });
+  doc.text(`For ${company.name}`, MARGIN, top + 14, { size: 9 });
+
+  footer();
+  return doc.toBuffer();
+};
+
+export const buildAgreementPdf = async (agreement) => {
+  const company = await loadCompany();
+  const logo = await readLogo(company.logo);
+  return renderInvestmentAgreement(agreement, company, logo);
+};
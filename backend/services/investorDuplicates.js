@@ -0,0 +1,277 @@
+// backend/services/investorDuplicates.js - Duplicate investor detection and merging
+// A match on PAN, Aadhaar or email is the same person and blocks a second record; a shared
+// phone number with a similar name is only likely, so it is shown as a warning that can be
+// confirmed past. A merge moves everything onto the surviving record and keeps the other one,
+// marked merged, for history. Journal entries are never edited: the merged investor's entries
+// stay where they were posted and its totals roll up into the survivor (services/ledger.js).
+import { runInTransaction } from '../config/database.js';
+import Investor from '../models/Investor.js';
+import Investment from '../models/Investment.js';
+import Payment from '../models/Payment.js';
+import PayoutExport from '../models/PayoutExport.js';
+import BankStatement from '../models/BankStatement.js';
+import User from '../models/User.js';
+import { blindIndex } from '../utils/fieldEncryption.js';
+import { namesSimilar } from '../utils/nameMatching.js';
+import { refreshInvestorCounters, refreshPlanCounters } from './ledger.js';
+
+export class InvestorMergeError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'InvestorMergeError';
+    this.statusCode = 400;
+  }
+}
+
+export const BLOCKING_REASONS = ['pan', 'aadhaar', 'email'];
+
+const CANDIDATE_FIELDS = 'investorId name email phone status totalInvestment activeInvestments userId createdAt kyc.panHash kyc.aadharHash';
+
+const identityOf = (investor) => ({
+  name: investor.name,
+  email: investor.email,
+  phone: investor.phone,
+  panHash: investor.kyc?.panHash,
+  aadharHash: investor.kyc?.aadharHash
+});
+
+// Why two identities look like the same person; empty when they don't
+const matchReasons = (a, b) => {
+  const reasons = [];
+  if (a.panHash && a.panHash === b.panHash) reasons.push('pan');
+  if (a.aadharHash && a.aadharHash === b.aadharHash) reasons.push('aadhaar');
+  if (a.email && a.email === b.email) reasons.push('email');
+  if (a.phone && a.phone === b.phone && namesSimilar(a.name, b.name)) reasons.push('name_phone');
+  return reasons;
+};
+
+const candidateSummary = (investor) => ({
+  _id: investor._id,
+  investorId: investor.investorId,
+  name: investor.name,
+  email: investor.email,
+  phone: investor.phone,
+  status: investor.status,
+  totalInvestment: investor.totalInvestment || 0,
+  activeInvestments: investor.activeInvestments || 0,
+  hasUserAccount: !!investor.userId,
+  createdAt: investor.createdAt
+});
+
+// Existing investors a new or edited record would duplicate. Leave out (undefined) any
+// identifier that should not be checked, e.g. one an update leaves unchanged.
+export const findDuplicates = async ({ name, email, phone, panNumber, aadharNumber }, { excludeId } = {}) => {
+  const identity = {
+    name,
+    email: email?.toLowerCase(),
+    phone,
+    panHash: blindIndex(panNumber),
+    aadharHash: blindIndex(aadharNumber)
+  };
+
+  const conditions = [];
+  if (identity.panHash) conditions.push({ 'kyc.panHash': identity.panHash });
+  if (identity.aadharHash) conditions.push({ 'kyc.aadharHash': identity.aadharHash });
+  if (identity.email) conditions.push({ email: identity.email });
+  if (identity.phone && identity.name) conditions.push({ phone: identity.phone });
+  if (conditions.length === 0) return [];
+
+  const candidates = await Investor.find({
+    ...(excludeId && { _id: { $ne: excludeId } }),
+    status: { $ne: 'merged' },
+    $or: conditions
+  }).select(CANDIDATE_FIELDS).lean();
+
+  return candidates
+    .map(candidate => ({ candidate, reasons: matchReasons(identity, identityOf(candidate)) }))
+    .filter(({ reasons }) => reasons.length > 0)
+    .map(({ candidate, reasons }) => ({
+      ...candidateSummary(candidate),
+      reasons,
+      blocking: reasons.some(reason => BLOCKING_REASONS.includes(reason))
+    }));
+};
+
+// Groups of investors that look like the same person, for the possible duplicates report.
+// Investors are bucketed by each identifier, compared pairwise within a bucket, and pairs
+// that match are joined into groups.
+export const duplicateGroups = async () => {
+  const investors = await Investor.find({ status: { $ne: 'merged' } }).select(CANDIDATE_FIELDS).lean();
+
+  const buckets = new Map();
+  const addToBucket = (key, index) => {
+    if (!buckets.has(key)) buckets.set(key, []);
+    buckets.get(key).push(index);
+  };
+  investors.forEach((investor, index) => {
+    const identity = identityOf(investor);
+    if (identity.panHash) addToBucket(`pan:${identity.panHash}`, index);
+    if (identity.aadharHash) addToBucket(`aadhaar:${identity.aadharHash}`, index);
+    if (identity.email) addToBucket(`email:${identity.email}`, index);
+    if (identity.phone) addToBucket(`phone:${identity.phone}`, index);
+  });
+
+  const parent = investors.map((_, index) => index);
+  const root = (index) => (parent[index] === index ? index : (parent[index] = root(parent[index])));
+  const groupReasons = new Map();
+
+  buckets.forEach(members => {
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const reasons = matchReasons(identityOf(investors[members[i]]), identityOf(investors[members[j]]));
+        if (reasons.length === 0) continue;
+        const [a, b] = [root(members[i]), root(members[j])];
+        const joined = new Set([...(groupReasons.get(a) || []), ...(groupReasons.get(b) || []), ...reasons]);
+        parent[b] = a;
+        groupReasons.set(a, joined);
+      }
+    }
+  });
+
+  const groups = new Map();
+  investors.forEach((investor, index) => {
+    const key = root(index);
+    if (!groupReasons.has(key)) return;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key).push(candidateSummary(investor));
+  });
+
+  return [...groups].map(([key, members]) => {
+    const reasons = [...groupReasons.get(key)];
+    return {
+      reasons,
+      blocking: reasons.some(reason => BLOCKING_REASONS.includes(reason)),
+      investors: members.sort((a, b) => new Date(a.createdAt) - new Date(b.createdAt))
+    };
+  }).sort((a, b) => (b.blocking - a.blocking) || (b.investors.length - a.investors.length));
+};
+
+// Move the source investor's investments, payments, documents and user account onto the
+// survivor, mark the source merged and record the merge in the survivor's mergeHistory, all in
+// one transaction (MongoDB must run as a replica set, see config/database.js)
+export const mergeInvestors = async (survivorId, sourceId, { reason, performedBy }) => {
+  if (String(survivorId) === String(sourceId)) {
+    throw new InvestorMergeError('Choose two different investors to merge');
+  }
+
+  let result;
+  await runInTransaction('Merging investors', async (session) => {
+    const survivor = await Investor.findById(survivorId).session(session);
+    const source = await Investor.findById(sourceId).session(session);
+    if (!survivor || !source) {
+      throw new InvestorMergeError('Investor not found');
+    }
+    if (survivor.status === 'merged' || source.status === 'merged') {
+      throw new InvestorMergeError(`${survivor.status === 'merged' ? survivor.investorId : source.investorId} has already been merged into another investor`);
+    }
+
+    const planIds = await Investment.distinct('plan', { investor: source._id }).session(session);
+    const investments = await Investment.updateMany({ investor: source._id }, { $set: { investor: survivor._id } }, { session });
+    const payments = await Payment.updateMany({ investor: source._id }, { $set: { investor: survivor._id } }, { session });
+    // Exported rows keep the investor code they were sent under; only the reference follows the merge
+    await PayoutExport.updateMany(
+      { 'rows.investor': source._id },
+      { $set: { 'rows.$[row].investor': survivor._id } },
+      { arrayFilters: [{ 'row.investor': source._id }], session }
+    );
+    await BankStatement.updateMany(
+      { 'lines.match.investor': source._id },
+      { $set: { 'lines.$[line].match.investor': survivor._id } },
+      { arrayFilters: [{ 'line.match.investor': source._id }], session }
+    );
+    // Joint holdings follow the merge. The survivor holds an investment only once, so it is
+    // dropped as a joint holder where it is now the primary holder and listed once otherwise
+    const jointHoldings = await Investment.find({ 'jointHolders.investor': { $in: [source._id, survivor._id] } })
+      .select('investor jointHolders')
+      .session(session);
+    for (const investment of jointHoldings) {
+      const seen = new Set([String(investment.investor)]);
+      const jointHolders = [];
+      investment.jointHolders.forEach(({ investor, relationship }) => {
+        const holder = investor.equals(source._id) ? survivor._id : investor;
+        if (!seen.has(String(holder))) {
+          seen.add(String(holder));
+          jointHolders.push({ investor: holder, relationship });
+        }
+      });
+
+      const changed = jointHolders.length !== investment.jointHolders.length ||
+        investment.jointHolders.some(({ investor }) => investor.equals(source._id));
+      if (changed) {
+        await Investment.updateOne({ _id: investment._id }, {
+          $set: { jointHolders, ...(jointHolders.length === 0 && { modeOfOperation: 'single' }) }
+        }, { session });
+      }
+    }
+
+    // Uploaded documents move across; KYC files stay with the source's KYC record and are
+    // listed on the survivor as documents
+    const documents = [
+      ...source.agreements.map(({ fileName, filePath, uploadDate, category, description }) => ({
+        fileName,
+        filePath,
+        uploadDate,
+        category,
+        description
+      })),
+      ...(source.kyc?.files || []).map(file => ({
+        fileName: file.originalName,
+        filePath: file.filePath,
+        uploadDate: file.uploadedAt,
+        category: 'kyc',
+        description: `${file.type} from ${source.investorId}`
+      }))
+    ];
+
+    // The survivor keeps its own login; the source's is moved over only when it has none
+    let userAccount = 'none';
+    if (source.userId && !survivor.userId) {
+      userAccount = 'moved';
+    } else if (source.userId) {
+      userAccount = 'deactivated';
+      await User.updateOne({ _id: source.userId }, { $set: { isActive: false } }, { session });
+    }
+
+    const moved = {
+      investments: investments.modifiedCount,
+      payments: payments.modifiedCount,
+      documents: documents.length,
+      userAccount
+    };
+
+    // Written directly so older records that fail current validation can still be merged
+    await Investor.updateOne({ _id: survivor._id }, {
+      ...(userAccount === 'moved' && { $set: { userId: source.userId } }),
+      $push: {
+        agreements: { $each: documents },
+        mergeHistory: {
+          investor: source._id,
+          investorId: source.investorId,
+          name: source.name,
+          reason,
+          moved,
+          performedBy,
+          performedAt: new Date()
+        }
+      }
+    }, { session });
+    await Investor.updateOne({ _id: source._id }, {
+      $set: {
+        status: 'merged',
+        mergedInto: survivor._id,
+        mergedAt: new Date(),
+        userId: null,
+        agreements: []
+      }
+    }, { session });
+    // Earlier merges into the source now roll up into the survivor
+    await Investor.updateMany({ mergedInto: source._id }, { $set: { mergedInto: survivor._id } }, { session });
+
+    await refreshInvestorCounters([survivor._id, source._id], session);
+    await refreshPlanCounters(planIds, session);
+
+    result = { survivor: survivor._id, source: source._id, sourceInvestorId: source.investorId, moved };
+  });
+
+  return result;
+};
@@ -0,0 +1,141 @@
+// backend/services/jobRunner.js - In-process scheduler for background jobs
+// Jobs are registered with a cron expression (see utils/cron.js) and run inside the
+// API process. Every run, scheduled or manual, is recorded as a JobRun. The clock and
+// the run store are injectable so schedules can be exercised locally with a fake clock.
+import JobRun from '../models/JobRun.js';
+import { logger } from '../middleware/logger.js';
+import { nextCronRun } from '../utils/cron.js';
+
+export const systemClock = {
+  now: () => new Date(),
+  setTimeout: (callback, delay) => setTimeout(callback, delay),
+  clearTimeout: (timer) => clearTimeout(timer)
+};
+
+// Long timers are split so clock changes and sleep are picked up within the hour
+const MAX_TIMER_MS = 60 * 60 * 1000;
+
+export class JobRunner {
+  constructor({ clock = systemClock, store = JobRun } = {}) {
+    this.clock = clock;
+    this.store = store;
+    this.jobs = new Map();
+    this.started = false;
+  }
+
+  register(name, { schedule, description = '', handler }) {
+    if (this.jobs.has(name)) {
+      throw new Error(`Job already registered: ${name}`);
+    }
+
+    // Validates the expression up front
+    nextCronRun(schedule, this.clock.now());
+
+    this.jobs.set(name, {
+      name,
+      schedule,
+      description,
+      handler,
+      running: false,
+      nextRunAt: null,
+      timer: null
+    });
+
+    if (this.started) this.scheduleNext(this.jobs.get(name));
+  }
+
+  start() {
+    if (this.started) return;
+    this.started = true;
+    this.jobs.forEach(job => this.scheduleNext(job));
+    logger.info('Job runner started', { jobs: [...this.jobs.keys()] });
+  }
+
+  stop() {
+    this.started = false;
+    this.jobs.forEach(job => {
+      if (job.timer) this.clock.clearTimeout(job.timer);
+      job.timer = null;
+      job.nextRunAt = null;
+    });
+  }
+
+  list() {
+    return [...this.jobs.values()].map(({ name, schedule, description, running, nextRunAt }) => ({
+      name,
+      schedule,
+      description,
+      running,
+      nextRunAt
+    }));
+  }
+
+  isRunning(name) {
+    return !!this.jobs.get(name)?.running;
+  }
+
+  scheduleNext(job) {
+    if (job.timer) this.clock.clearTimeout(job.timer);
+    job.nextRunAt = nextCronRun(job.schedule, this.clock.now());
+    this.armTimer(job);
+  }
+
+  armTimer(job) {
+    const delay = Math.max(0, job.nextRunAt - this.clock.now());
+
+    job.timer = this.clock.setTimeout(async () => {
+      job.timer = null;
+      if (!this.started) return;
+
+      if (this.clock.now() < job.nextRunAt) {
+        this.armTimer(job);
+        return;
+      }
+
+      try {
+        await this.run(job.name, { trigger: 'schedule' });
+      } catch (error) {
+        logger.warn('Scheduled job skipped', { job: job.name, reason: error.message });
+      }
+
+      if (this.started) this.scheduleNext(job);
+    }, Math.min(delay, MAX_TIMER_MS));
+  }
+
+  // Runs a job now and records the outcome. Rejects if the job is unknown or already running;
+  // handler failures are recorded on the run rather than thrown.
+  async run(name, { trigger = 'manual', triggeredBy = null } = {}) {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new Error(`Unknown job: ${name}`);
+    }
+    if (job.running) {
+      throw new Error(`Job ${name} is already running`);
+    }
+
+    job.running = true;
+    const startedAt = this.clock.now();
+    const run = await this.store.create({ job: name, trigger, startedAt, triggeredBy });
+
+    try {
+      run.summary = await job.handler({ now: startedAt, triggeredBy }) || {};
+      run.status = 'succeeded';
+    } catch (error) {
+      run.status = 'failed';
+      run.error = error.message;
+      logger.error('Job failed', { job: name, trigger, error: error.message });
+    } finally {
+      job.running = false;
+    }
+
+    run.finishedAt = this.clock.now();
+    run.durationMs = run.finishedAt - startedAt;
+    await run.save();
+
+    return run;
+  }
+}
+
+// Create and export a singleton instance
+const jobRunner = new JobRunner();
+export default jobRunner;
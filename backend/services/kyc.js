@@ -0,0 +1,195 @@
+// backend/services/kyc.js - KYC verification: document checklist, review decisions, re-KYC
+// An investor uploads every document on the checklist (Settings.kyc.requiredDocuments) and the
+// KYC is submitted for review. A reviewer approves or rejects it with a reason. A rejection
+// opens the next cycle, so the investor can replace documents and resubmit. An approval is
+// valid for Settings.kyc.validityMonths, after which it lapses to expired and re-KYC starts.
+import fs from 'fs';
+import Investor from '../models/Investor.js';
+import Settings from '../models/Settings.js';
+
+export class KycError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'KycError';
+    this.statusCode = 400;
+  }
+}
+
+// Documents with a path of their own on Investor.kyc.documents
+const LEGACY_DOCUMENT_KEYS = ['panCard', 'aadharCard', 'bankStatement', 'signature'];
+
+// Submitted and waiting on a reviewer
+export const isAwaitingReview = (kyc) =>
+  kyc?.verificationStatus === 'pending' && !!kyc.submittedAt;
+
+// Verified and not yet past its re-KYC date (the expiry job may not have run yet)
+export const isKycValid = (kyc, now = new Date()) =>
+  kyc?.verificationStatus === 'verified' && (!kyc.expiresAt || kyc.expiresAt > now);
+
+// Latest upload per checklist document
+export const buildChecklist = (kyc, requiredDocuments) => requiredDocuments.map(document => {
+  const files = (kyc?.files || []).filter(file => file.type === document.key);
+  return {
+    key: document.key,
+    label: document.label,
+    file: files[files.length - 1] || null
+  };
+});
+
+export const missingDocuments = (kyc, requiredDocuments) =>
+  buildChecklist(kyc, requiredDocuments).filter(item => !item.file);
+
+const addMonths = (date, months) => {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+};
+
+const recordReview = (kyc, action, { reason, performedBy, performedAt = new Date() }) => {
+  kyc.reviewHistory.push({ cycle: kyc.cycle, action, reason, performedBy, performedAt });
+};
+
+export const addKycDocument = async (investor, { type, file, uploadedBy }) => {
+  const { requiredDocuments } = await Settings.getKycSettings();
+  if (!requiredDocuments.some(document => document.key === type)) {
+    throw new KycError(`${type} is not on the KYC document checklist`);
+  }
+
+  const kyc = investor.kyc;
+  if (isAwaitingReview(kyc)) {
+    throw new KycError('KYC is awaiting review; documents can be changed once it is decided');
+  }
+  if (isKycValid(kyc)) {
+    throw new KycError('KYC is verified; documents can be replaced when it is due for re-KYC');
+  }
+
+  kyc.files.push({
+    type,
+    fileName: file.filename,
+    originalName: file.originalname,
+    filePath: file.path,
+    fileSize: file.size,
+    mimeType: file.mimetype,
+    cycle: kyc.cycle,
+    uploadedBy
+  });
+  if (LEGACY_DOCUMENT_KEYS.includes(type)) {
+    kyc.documents[type] = file.path;
+  }
+
+  await investor.save();
+  return kyc.files[kyc.files.length - 1];
+};
+
+// Send the current cycle's documents for review; allowed before the first review, after a
+// rejection and once an approval has expired
+export const submitKyc = async (investor, { submittedBy }) => {
+  const kyc = investor.kyc;
+  if (isAwaitingReview(kyc)) {
+    throw new KycError('KYC is already awaiting review');
+  }
+  if (isKycValid(kyc)) {
+    throw new KycError('KYC is already verified');
+  }
+
+  const { requiredDocuments } = await Settings.getKycSettings();
+  const missing = missingDocuments(kyc, requiredDocuments);
+  if (missing.length > 0) {
+    throw new KycError(`Upload ${missing.map(item => item.label).join(', ')} before submitting KYC`);
+  }
+
+  kyc.verificationStatus = 'pending';
+  kyc.submittedAt = new Date();
+  recordReview(kyc, 'submitted', { performedBy: submittedBy });
+
+  await investor.save();
+  return investor;
+};
+
+export const approveKyc = async (investor, { reason, reviewedBy }) => {
+  const kyc = investor.kyc;
+  if (!isAwaitingReview(kyc)) {
+    throw new KycError('Only KYC submitted for review can be approved');
+  }
+
+  const { validityMonths } = await Settings.getKycSettings();
+  const now = new Date();
+  kyc.verificationStatus = 'verified';
+  kyc.verifiedAt = now;
+  kyc.verifiedBy = reviewedBy;
+  kyc.expiresAt = validityMonths > 0 ? addMonths(now, validityMonths) : undefined;
+  kyc.rejectionReason = undefined;
+  recordReview(kyc, 'approved', { reason, performedBy: reviewedBy, performedAt: now });
+
+  await investor.save();
+  return investor;
+};
+
+export const rejectKyc = async (investor, { reason, reviewedBy }) => {
+  const kyc = investor.kyc;
+  if (!isAwaitingReview(kyc)) {
+    throw new KycError('Only KYC submitted for review can be rejected');
+  }
+
+  kyc.verificationStatus = 'rejected';
+  kyc.rejectionReason = reason;
+  kyc.submittedAt = undefined;
+  recordReview(kyc, 'rejected', { reason, performedBy: reviewedBy });
+  // Replacement documents belong to the next cycle
+  kyc.cycle += 1;
+
+  await investor.save();
+  return investor;
+};
+
+// A verified KYC covers the identifiers it was reviewed with. Changing PAN, Aadhaar or the
+// bank account sends it back to pending for a new cycle; the caller saves the investor.
+export const reopenKyc = (investor, { changedFields, performedBy }) => {
+  const kyc = investor.kyc;
+  if (kyc.verificationStatus !== 'verified') return false;
+
+  kyc.verificationStatus = 'pending';
+  kyc.submittedAt = undefined;
+  kyc.expiresAt = undefined;
+  recordReview(kyc, 'reopened', { reason: `Changed ${changedFields.join(', ')}`, performedBy });
+  kyc.cycle += 1;
+  return true;
+};
+
+// Lapse verified KYC past its re-KYC date; returns the number expired
+export const expireKyc = async ({ now = new Date() } = {}) => {
+  const investors = await Investor.find({
+    status: { $ne: 'merged' },
+    'kyc.verificationStatus': 'verified',
+    'kyc.expiresAt': { $lte: now }
+  });
+
+  for (const investor of investors) {
+    const kyc = investor.kyc;
+    kyc.verificationStatus = 'expired';
+    kyc.submittedAt = undefined;
+    recordReview(kyc, 'expired', { reason: 'Re-KYC due', performedAt: now });
+    kyc.cycle += 1;
+    await investor.save();
+  }
+
+  return investors.length;
+};
+
+// Gate for new investments
+export const assertKycVerified = async (investor) => {
+  const { requireVerifiedForInvestment } = await Settings.getKycSettings();
+  if (!requireVerifiedForInvestment || isKycValid(investor.kyc)) return;
+
+  const status = investor.kyc?.verificationStatus === 'verified' ? 'expired' : investor.kyc?.verificationStatus || 'pending';
+  throw new KycError(`${investor.name}'s KYC is ${status}; new investments need verified KYC`);
+};
+
+// Uploaded file for a KYC document, checked to still be on disk
+export const findKycFile = (investor, fileId) => {
+  const file = investor.kyc?.files?.id(fileId);
+  if (!file || !fs.existsSync(file.filePath)) {
+    return null;
+  }
+  return file;
+};
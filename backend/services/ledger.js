@@ -0,0 +1,503 @@
+// backend/services/ledger.js - Double-entry postings, trial balance and ledger-derived counters
+// Every money movement is journalled once (keyed by the event it records) and never edited;
+// mistakes are undone with reversing entries. Investor and plan totals are recomputed from
+// the journal after each posting rather than incremented in place.
+import mongoose from 'mongoose';
+import JournalEntry from '../models/JournalEntry.js';
+import Investment from '../models/Investment.js';
+import Investor from '../models/Investor.js';
+import Plan from '../models/Plan.js';
+import Payment from '../models/Payment.js';
+import { ACCOUNTS, CHART_OF_ACCOUNTS, findAccount, normalBalance } from '../utils/chartOfAccounts.js';
+import { paymentAllocations } from '../utils/paymentAllocation.js';
+import { roundCurrency } from '../../shared/scheduleEngine.js';
+
+export class LedgerError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'LedgerError';
+    this.statusCode = 400;
+  }
+}
+
+const refId = (value) => value?._id || value;
+
+const toObjectId = (value) => new mongoose.Types.ObjectId(String(refId(value)));
+
+// Post a balanced entry once per sourceKey. Lines with a negative amount move to the other
+// side and empty lines are dropped; returns the existing entry when the event was already posted.
+export const postEntry = async ({ lines, ...fields }, session = null) => {
+  const existing = await JournalEntry.findOne({ sourceKey: fields.sourceKey }).session(session);
+  if (existing) {
+    return existing;
+  }
+
+  const normalized = lines
+    .map(({ account, debit = 0, credit = 0 }) => {
+      const net = roundCurrency(debit - credit);
+      return { account, debit: net > 0 ? net : 0, credit: net < 0 ? -net : 0 };
+    })
+    .filter(line => line.debit > 0 || line.credit > 0);
+
+  if (normalized.length < 2) {
+    return null;
+  }
+
+  const [entry] = await JournalEntry.create([{ ...fields, lines: normalized }], { session });
+  return entry;
+};
+
+// Principal received when an investment is booked
+export const postInvestment = async (investment, { postedBy, session = null } = {}) => {
+  return postEntry({
+    date: investment.investmentDate,
+    type: 'investment',
+    description: `Principal received for ${investment.investmentId}`,
+    sourceKey: `investment:${investment._id}`,
+    investor: refId(investment.investor),
+    investment: investment._id,
+    postedBy,
+    lines: [
+      { account: ACCOUNTS.CASH, debit: investment.principalAmount },
+      { account: ACCOUNTS.INVESTOR_PRINCIPAL, credit: investment.principalAmount }
+    ]
+  }, session);
+};
+
+// Accrue the interest on schedule rows that have fallen due by asOf, plus any rows listed in
+// months (rows being paid early). A row whose interest changed since it was accrued, after a
+// restructure or prepayment, gets an adjusting entry for the difference.
+export const accrueInterest = async (investment, { asOf = new Date(), months = [], postedBy, session = null } = {}) => {
+  const rows = investment.schedule.filter(row => months.includes(row.month) || row.dueDate <= asOf);
+  if (rows.length === 0) {
+    return { posted: 0, amount: 0 };
+  }
+
+  const accrued = new Map();
+  const previous = await JournalEntry.find({ investment: investment._id, type: 'interest_accrual' }).session(session);
+  previous.forEach(entry => {
+    const line = entry.lines.find(item => item.account === ACCOUNTS.INTEREST_PAYABLE);
+    const current = accrued.get(entry.scheduleMonth) || { amount: 0, count: 0 };
+    accrued.set(entry.scheduleMonth, {
+      amount: roundCurrency(current.amount + line.credit - line.debit),
+      count: current.count + 1
+    });
+  });
+
+  let posted = 0;
+  let amount = 0;
+  for (const row of rows) {
+    const { amount: alreadyAccrued, count } = accrued.get(row.month) || { amount: 0, count: 0 };
+    const difference = roundCurrency(row.interestAmount - alreadyAccrued);
+    if (Math.abs(difference) < 0.01) continue;
+
+    const entry = await postEntry({
+      date: count === 0 && row.dueDate < asOf ? row.dueDate : asOf,
+      type: 'interest_accrual',
+      description: count === 0
+        ? `Interest accrued on ${investment.investmentId} for month ${row.month}`
+        : `Interest accrual on ${investment.investmentId} month ${row.month} adjusted to ${row.interestAmount}`,
+      sourceKey: `accrual:${investment._id}:${row.month}${count ? `:${count}` : ''}`,
+      investor: refId(investment.investor),
+      investment: investment._id,
+      scheduleMonth: row.month,
+      postedBy,
+      lines: [
+        { account: ACCOUNTS.INTEREST_EXPENSE, debit: difference },
+        { account: ACCOUNTS.INTEREST_PAYABLE, credit: difference }
+      ]
+    }, session);
+
+    if (entry) {
+      posted += 1;
+      amount = roundCurrency(amount + difference);
+    }
+  }
+
+  return { posted, amount };
+};
+
+// Payout to an investor: clears interest payable and principal, expenses late fees and
+// bonuses, and splits the money between the bank and TDS payable
+export const postPayment = async (payment, { investment, postedBy, session = null }) => {
+  await accrueInterest(investment, {
+    asOf: payment.paymentDate,
+    months: paymentAllocations(payment).map(allocation => allocation.scheduleMonth),
+    postedBy,
+    session
+  });
+
+  const debits = [
+    { account: ACCOUNTS.INTEREST_PAYABLE, debit: payment.interestAmount || 0 },
+    { account: ACCOUNTS.INVESTOR_PRINCIPAL, debit: payment.principalAmount || 0 },
+    { account: ACCOUNTS.LATE_FEE_EXPENSE, debit: payment.penaltyAmount || 0 },
+    { account: ACCOUNTS.BONUS_EXPENSE, debit: payment.bonusAmount || 0 }
+  ];
+  const gross = roundCurrency(debits.reduce((sum, line) => sum + line.debit, 0));
+  const tdsAmount = payment.tdsAmount || 0;
+
+  return postEntry({
+    date: payment.paymentDate,
+    type: 'payment',
+    description: `Payment ${payment.paymentId} on ${investment.investmentId}`,
+    sourceKey: `payment:${payment._id}`,
+    investor: refId(payment.investor),
+    investment: investment._id,
+    payment: payment._id,
+    postedBy,
+    lines: [
+      ...debits,
+      { account: ACCOUNTS.TDS_PAYABLE, credit: tdsAmount },
+      { account: ACCOUNTS.CASH, credit: roundCurrency(gross - tdsAmount) }
+    ]
+  }, session);
+};
+
+// Penalty kept back from a prepayment or closure settlement
+export const postPrepaymentPenalty = async (payment, { investment, postedBy, session = null }) => {
+  return postEntry({
+    date: payment.paymentDate,
+    type: 'prepayment_penalty',
+    description: `Prepayment penalty ${payment.paymentId} on ${investment.investmentId}`,
+    sourceKey: `payment:${payment._id}`,
+    investor: refId(payment.investor),
+    investment: investment._id,
+    payment: payment._id,
+    postedBy,
+    lines: [
+      { account: ACCOUNTS.CASH, debit: payment.penaltyAmount || payment.amount },
+      { account: ACCOUNTS.PENALTY_INCOME, credit: payment.penaltyAmount || payment.amount }
+    ]
+  }, session);
+};
+
+// Mirror a payment's entry when the payment is reversed or rolled back. Accrued interest
+// stays payable, as the payout is owed again.
+export const reversePayment = async (payment, { date = new Date(), postedBy, session = null } = {}) => {
+  const original = await JournalEntry.findOne({ sourceKey: `payment:${payment._id}` }).session(session);
+  if (!original) {
+    return null;
+  }
+
+  return postEntry({
+    date,
+    type: 'reversal',
+    description: `Reversal of ${original.entryNumber} (payment ${payment.paymentId})`,
+    sourceKey: `reversal:${payment._id}`,
+    investor: original.investor,
+    investment: original.investment,
+    payment: payment._id,
+    reverses: original._id,
+    postedBy,
+    lines: original.lines.map(line => ({ account: line.account, debit: line.credit, credit: line.debit }))
+  }, session);
+};
+
+const activeCounts = async (match, groupBy, session) => {
+  const rows = await Investment.aggregate([
+    { $match: { ...match, status: 'active' } },
+    { $group: { _id: `$${groupBy}`, count: { $sum: 1 } } }
+  ]).session(session);
+  return new Map(rows.map(row => [String(row._id), row.count]));
+};
+
+// Principal booked per investment, from the journal
+const principalByInvestment = async (investmentIds, session) => {
+  const rows = await JournalEntry.aggregate([
+    { $match: { type: 'investment', investment: { $in: investmentIds } } },
+    { $unwind: '$lines' },
+    { $match: { 'lines.account': ACCOUNTS.INVESTOR_PRINCIPAL } },
+    { $group: { _id: '$investment', amount: { $sum: { $subtract: ['$lines.credit', '$lines.debit'] } } } }
+  ]).session(session);
+  return new Map(rows.map(row => [String(row._id), roundCurrency(row.amount)]));
+};
+
+// Counter values the journal and investment statuses imply for investors. Entries posted for
+// an investor later merged into another count towards the survivor; the merged record reads zero.
+const expectedInvestorCounters = async (investorIds, session) => {
+  const ids = investorIds.map(toObjectId);
+  // Sequential: operations in one transaction cannot run in parallel
+  const merged = await Investor.find({
+    $or: [{ mergedInto: { $in: ids } }, { _id: { $in: ids }, mergedInto: { $ne: null } }]
+  }).select('mergedInto').session(session);
+  const totals = await JournalEntry.investorTotals([...ids, ...merged.map(investor => investor._id)], session);
+  const active = await activeCounts({ investor: { $in: ids } }, 'investor', session);
+
+  const mergedInto = new Map(merged.map(investor => [String(investor._id), String(investor.mergedInto)]));
+  const rolledUp = new Map();
+  totals.forEach((total, id) => {
+    const owner = mergedInto.get(id) || id;
+    const sum = rolledUp.get(owner) || { totalInvestment: 0, totalReturns: 0 };
+    rolledUp.set(owner, {
+      totalInvestment: roundCurrency(sum.totalInvestment + (total.totalInvestment || 0)),
+      totalReturns: roundCurrency(sum.totalReturns + (total.totalReturns || 0))
+    });
+  });
+
+  return new Map(ids.map(id => [String(id), {
+    totalInvestment: rolledUp.get(String(id))?.totalInvestment || 0,
+    totalReturns: rolledUp.get(String(id))?.totalReturns || 0,
+    activeInvestments: active.get(String(id)) || 0
+  }]));
+};
+
+// Counter values for plans: principal booked and distinct investors
+const expectedPlanCounters = async (planIds, session) => {
+  const ids = planIds.map(toObjectId);
+  const investments = await Investment.find({ plan: { $in: ids } }).select('plan investor').session(session);
+  const principal = await principalByInvestment(investments.map(investment => investment._id), session);
+
+  const counters = new Map(ids.map(id => [String(id), { totalInvestment: 0, investors: new Set() }]));
+  investments.forEach(investment => {
+    const counter = counters.get(String(investment.plan));
+    counter.totalInvestment = roundCurrency(counter.totalInvestment + (principal.get(String(investment._id)) || 0));
+    counter.investors.add(String(investment.investor));
+  });
+
+  return new Map([...counters].map(([id, counter]) => [id, {
+    totalInvestment: counter.totalInvestment,
+    totalInvestors: counter.investors.size
+  }]));
+};
+
+const uniqueIds = (ids) => [...new Set((Array.isArray(ids) ? ids : [ids]).filter(Boolean).map(id => String(refId(id))))];
+
+// Recompute investor totals from the journal after a posting
+export const refreshInvestorCounters = async (investorIds, session = null) => {
+  const ids = uniqueIds(investorIds);
+  if (ids.length === 0) return;
+
+  const expected = await expectedInvestorCounters(ids, session);
+  for (const [id, counters] of expected) {
+    await Investor.updateOne({ _id: id }, { $set: counters }, { session });
+  }
+};
+
+// Recompute plan totals from the journal after an investment is booked
+export const refreshPlanCounters = async (planIds, session = null) => {
+  const ids = uniqueIds(planIds);
+  if (ids.length === 0) return;
+
+  const expected = await expectedPlanCounters(ids, session);
+  for (const [id, counters] of expected) {
+    await Plan.updateOne({ _id: id }, { $set: counters }, { session });
+  }
+};
+
+// Compare stored counters with the journal. Investor and plan counters are corrected when
+// apply is set; Investment.totalPaidAmount follows the schedule, so drift there is only reported.
+export const reconcileCounters = async ({ apply = false } = {}) => {
+  const [investors, plans, investments] = await Promise.all([
+    Investor.find().select('investorId name totalInvestment totalReturns activeInvestments'),
+    Plan.find().select('planId name totalInvestment totalInvestors'),
+    Investment.find().select('investmentId totalPaidAmount')
+  ]);
+
+  const [investorCounters, planCounters, paidRows] = await Promise.all([
+    expectedInvestorCounters(investors.map(investor => investor._id), null),
+    expectedPlanCounters(plans.map(plan => plan._id), null),
+    JournalEntry.aggregate([
+      { $match: { type: { $in: ['payment', 'reversal'] } } },
+      { $unwind: '$lines' },
+      { $match: { 'lines.account': { $in: [ACCOUNTS.INTEREST_PAYABLE, ACCOUNTS.INVESTOR_PRINCIPAL] } } },
+      { $group: { _id: '$investment', amount: { $sum: { $subtract: ['$lines.debit', '$lines.credit'] } } } }
+    ])
+  ]);
+  const paidByInvestment = new Map(paidRows.map(row => [String(row._id), roundCurrency(row.amount)]));
+
+  const drifts = [];
+  const compare = (kind, record, reference, expected, fields) => {
+    const changes = {};
+    fields.forEach(field => {
+      const stored = record[field] || 0;
+      if (Math.abs(stored - expected[field]) >= 0.01) {
+        drifts.push({ kind, id: record._id, reference, name: record.name, field, stored, ledger: expected[field] });
+        changes[field] = expected[field];
+      }
+    });
+    return changes;
+  };
+
+  const updates = [];
+  investors.forEach(investor => {
+    const changes = compare('investor', investor, investor.investorId, investorCounters.get(String(investor._id)),
+      ['totalInvestment', 'totalReturns', 'activeInvestments']);
+    if (Object.keys(changes).length > 0) updates.push(Investor.updateOne({ _id: investor._id }, { $set: changes }));
+  });
+  plans.forEach(plan => {
+    const changes = compare('plan', plan, plan.planId, planCounters.get(String(plan._id)),
+      ['totalInvestment', 'totalInvestors']);
+    if (Object.keys(changes).length > 0) updates.push(Plan.updateOne({ _id: plan._id }, { $set: changes }));
+  });
+  investments.forEach(investment => {
+    compare('investment', investment, investment.investmentId,
+      { totalPaidAmount: paidByInvestment.get(String(investment._id)) || 0 }, ['totalPaidAmount']);
+  });
+
+  if (apply) {
+    await Promise.all(updates);
+  }
+
+  return {
+    checkedAt: new Date(),
+    checked: { investors: investors.length, plans: plans.length, investments: investments.length },
+    drifts,
+    corrected: apply ? updates.length : 0
+  };
+};
+
+// Journal any investments and payments recorded before the ledger existed (or missed by a
+// failed posting) and accrue interest due by asOf. Safe to run repeatedly: events already
+// posted are skipped.
+export const backfillLedger = async ({ asOf = new Date(), postedBy } = {}) => {
+  const before = await JournalEntry.countDocuments();
+  const posted = new Set(await JournalEntry.distinct('sourceKey', { type: { $ne: 'interest_accrual' } }));
+
+  const investments = await Investment.find().select('investmentId investor investmentDate principalAmount schedule timeline.metadata');
+  for (const investment of investments) {
+    if (!posted.has(`investment:${investment._id}`)) {
+      await postInvestment(investment, { postedBy });
+    }
+
+    const prepaymentIds = new Set(investment.timeline.flatMap(entry => entry.metadata?.paymentIds || []));
+    const payments = await Payment.find({
+      investment: investment._id,
+      status: { $in: ['completed', 'reversed'] },
+      reversalOf: null,
+      awaitingVerification: { $ne: true }
+    }).sort({ paymentDate: 1 });
+
+    for (const payment of payments) {
+      if (!posted.has(`payment:${payment._id}`)) {
+        if (payment.type === 'penalty' && prepaymentIds.has(payment.paymentId)) {
+          await postPrepaymentPenalty(payment, { investment, postedBy });
+        } else {
+          await postPayment(payment, { investment, postedBy });
+        }
+      }
+      if (payment.status === 'reversed' && !posted.has(`reversal:${payment._id}`)) {
+        await reversePayment(payment, { date: payment.reversal?.reversedAt || payment.updatedAt, postedBy });
+      }
+    }
+
+    await accrueInterest(investment, { asOf, postedBy });
+  }
+
+  return {
+    investments: investments.length,
+    entriesPosted: (await JournalEntry.countDocuments()) - before
+  };
+};
+
+// Debit/credit totals per account, optionally up to a date
+export const getTrialBalance = async ({ asOf } = {}) => {
+  const rows = await JournalEntry.aggregate([
+    ...(asOf ? [{ $match: { date: { $lte: asOf } } }] : []),
+    { $unwind: '$lines' },
+    { $group: { _id: '$lines.account', debit: { $sum: '$lines.debit' }, credit: { $sum: '$lines.credit' } } }
+  ]);
+  const totals = new Map(rows.map(row => [row._id, row]));
+
+  const accounts = CHART_OF_ACCOUNTS.map(account => {
+    const debit = roundCurrency(totals.get(account.code)?.debit || 0);
+    const credit = roundCurrency(totals.get(account.code)?.credit || 0);
+    const net = roundCurrency(debit - credit);
+    return {
+      ...account,
+      debit,
+      credit,
+      balance: roundCurrency(normalBalance(account.code, debit, credit)),
+      debitBalance: net > 0 ? net : 0,
+      creditBalance: net < 0 ? -net : 0
+    };
+  });
+
+  const debitTotal = roundCurrency(accounts.reduce((sum, account) => sum + account.debitBalance, 0));
+  const creditTotal = roundCurrency(accounts.reduce((sum, account) => sum + account.creditBalance, 0));
+
+  return {
+    asOf: asOf || new Date(),
+    accounts,
+    totals: { debit: debitTotal, credit: creditTotal },
+    balanced: Math.abs(debitTotal - creditTotal) < 0.01
+  };
+};
+
+// Net movement (debit - credit) on one account across the entries matched
+const accountMovement = async (code, match, pipeline = []) => {
+  const [row] = await JournalEntry.aggregate([
+    { $match: match },
+    ...pipeline,
+    { $unwind: '$lines' },
+    { $match: { 'lines.account': code } },
+    { $group: { _id: null, debit: { $sum: '$lines.debit' }, credit: { $sum: '$lines.credit' } } }
+  ]);
+  return row ? normalBalance(code, row.debit, row.credit) : 0;
+};
+
+// Entries on one account with a running balance, oldest first
+export const getAccountLedger = async (code, { from, to, investor, investment, page = 1, limit = 50 } = {}) => {
+  const account = findAccount(code);
+  if (!account) {
+    throw new LedgerError(`Unknown ledger account ${code}`);
+  }
+
+  const scope = {
+    'lines.account': code,
+    ...(investor && { investor: toObjectId(investor) }),
+    ...(investment && { investment: toObjectId(investment) })
+  };
+  const range = {
+    ...scope,
+    ...((from || to) && { date: { ...(from && { $gte: from }), ...(to && { $lte: to }) } })
+  };
+  const sort = { date: 1, entryNumber: 1 };
+  const skip = (page - 1) * limit;
+
+  const [openingBalance, periodMovement, carried, total, entries] = await Promise.all([
+    from ? accountMovement(code, { ...scope, date: { $lt: from } }) : 0,
+    accountMovement(code, range),
+    skip > 0 ? accountMovement(code, range, [{ $sort: sort }, { $limit: skip }]) : 0,
+    JournalEntry.countDocuments(range),
+    JournalEntry.find(range)
+      .sort(sort)
+      .skip(skip)
+      .limit(limit)
+      .populate('investor', 'investorId name')
+      .populate('investment', 'investmentId')
+  ]);
+
+  let balance = openingBalance + carried;
+  const rows = entries.map(entry => {
+    const lines = entry.lines.filter(line => line.account === code);
+    const debit = roundCurrency(lines.reduce((sum, line) => sum + line.debit, 0));
+    const credit = roundCurrency(lines.reduce((sum, line) => sum + line.credit, 0));
+    balance += normalBalance(code, debit, credit);
+    return {
+      _id: entry._id,
+      entryNumber: entry.entryNumber,
+      date: entry.date,
+      type: entry.type,
+      description: entry.description,
+      investor: entry.investor,
+      investment: entry.investment,
+      debit,
+      credit,
+      balance: roundCurrency(balance)
+    };
+  });
+
+  return {
+    account,
+    period: { from: from || null, to: to || null },
+    openingBalance: roundCurrency(openingBalance),
+    closingBalance: roundCurrency(openingBalance + periodMovement),
+    entries: rows,
+    pagination: {
+      current: page,
+      pages: Math.ceil(total / limit),
+      total,
+      limit
+    }
+  };
+};
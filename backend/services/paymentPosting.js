@@ -0,0 +1,285 @@
+// backend/services/paymentPosting.js - Apply recorded payments to investments
+// Shared by manual payment entry, maker-checker approval and bank reconciliation so a
+// payment touches the schedule, timeline, ledger and investor totals the same way whichever
+// route recorded it.
+import Payment from '../models/Payment.js';
+import Investment from '../models/Investment.js';
+import Settings from '../models/Settings.js';
+import { resolveLateFeePolicy } from '../utils/lateFees.js';
+import { allocatePayment, paymentAllocations, resolveWaterfall, rowOutstanding } from '../utils/paymentAllocation.js';
+import { roundCurrency } from '../../shared/scheduleEngine.js';
+import { withholdingForPayment } from './tds.js';
+import { postPayment, refreshInvestorCounters, reversePayment } from './ledger.js';
+
+// Investments that take payments; a defaulted one still owes the payouts that defaulted it
+export const PAYABLE_STATUSES = ['active', 'defaulted'];
+
+// Load a payable investment with late fees accrued up to the payment date
+export const loadPayableInvestment = async (investmentId, paymentDate, session = null) => {
+  const investment = await Investment.findById(investmentId).populate('investor').session(session);
+  if (!investment) {
+    return { status: 404, message: 'Investment not found' };
+  }
+
+  if (!PAYABLE_STATUSES.includes(investment.status)) {
+    return { status: 400, message: `Cannot record payment for a ${investment.status} investment` };
+  }
+
+  const lateFeePolicy = resolveLateFeePolicy(investment, await Settings.getLateFeeSettings());
+  investment.accrueLateFees(lateFeePolicy, paymentDate);
+
+  return { investment };
+};
+
+// Apply a recorded payment to the investment schedule, the ledger and the investment/investor totals
+export const settlePayment = async (payment, investment, performedBy) => {
+  const allocations = paymentAllocations(payment);
+  const scheduleMonths = allocations.map(allocation => allocation.scheduleMonth);
+
+  // Late fee written off with the payment
+  if (payment.penaltyWaived > 0) {
+    const waivedRow = investment.schedule.find(row => row.month === payment.scheduleMonth);
+    waivedRow.penaltyWaived = roundCurrency((waivedRow.penaltyWaived || 0) + payment.penaltyWaived);
+  }
+
+  // Update investment schedule; late fees are tracked apart from the scheduled amount
+  const rowChanges = investment.applyAllocations(allocations, payment.paymentDate);
+
+  // A defaulted investment returns to active once no payout that has fallen due is unpaid;
+  // the overdue sweep defaults it again if it falls behind
+  const now = new Date();
+  const stillOverdue = investment.schedule.some(row => row.status !== 'paid' && row.dueDate < now);
+  if (investment.status === 'defaulted' && !stillOverdue) {
+    investment.status = 'active';
+    investment.timeline.push({
+      type: 'status_changed',
+      description: `Investment reinstated: overdue payouts settled by payment ${payment.paymentId}`,
+      performedBy,
+      metadata: {
+        oldStatus: 'defaulted',
+        newStatus: 'active',
+        paymentId: payment.paymentId
+      }
+    });
+  }
+
+  // Update investment totals
+  investment.updatePaymentStatus();
+
+  // Add automatic timeline entry - Payment Received
+  const { documents, referenceNumber } = payment;
+  let timelineDescription = `Payment received: ${payment.paymentMethod.toUpperCase()} - ${scheduleMonths.length > 1 ? 'Months' : 'Month'} ${scheduleMonths.join(', ')}`;
+  if (referenceNumber) timelineDescription += ` (Ref: ${referenceNumber})`;
+  if (documents.length > 0) timelineDescription += ` with ${documents.length} document(s)`;
+  
+  await investment.addTimelineEntry(
+    'payment_received',
+    timelineDescription,
+    performedBy,
+    payment.amount,
+    {
+      paymentId: payment.paymentId,
+      scheduleMonth: scheduleMonths[0],
+      scheduleMonths,
+      paymentMethod: payment.paymentMethod,
+      referenceNumber,
+      documentsUploaded: documents.length,
+      documentTypes: documents.map(d => d.category),
+      interestAmount: payment.interestAmount,
+      principalAmount: payment.principalAmount,
+      oldScheduleStatus: rowChanges[0].oldStatus,
+      newScheduleStatus: rowChanges[0].newStatus,
+      scheduleChanges: rowChanges,
+      breakdown: {
+        interest: payment.interestAmount,
+        principal: payment.principalAmount,
+        penalty: payment.penaltyAmount,
+        bonus: payment.bonusAmount
+      },
+      penaltyWaived: payment.penaltyWaived,
+      ...(payment.verifiedBy && { verifiedBy: payment.verifiedBy })
+    }
+  );
+
+  // Add document upload timeline entries if documents were uploaded
+  if (documents.length > 0) {
+    await investment.addTimelineEntry(
+      'document_uploaded',
+      `Payment documents uploaded: ${documents.map(d => d.originalName).join(', ')}`,
+      performedBy,
+      0,
+      {
+        paymentId: payment.paymentId,
+        documentCount: documents.length,
+        documentDetails: documents.map(d => ({
+          category: d.category,
+          fileName: d.originalName,
+          fileSize: d.fileSize
+        }))
+      }
+    );
+  }
+
+  await investment.save();
+
+  // Journal the payout and rederive the investor totals from the ledger
+  const session = investment.$session();
+  await postPayment(payment, { investment, postedBy: performedBy, session });
+  await refreshInvestorCounters(payment.investor, session);
+};
+
+// Undo a settled payment: reopen the schedule rows it paid (and any late fee waived with it),
+// reopen a completed investment and post a reversing ledger entry
+export const unwindPayment = async (payment, investment, performedBy, {
+  description,
+  reopenReason = `payment ${payment.paymentId} was reversed`,
+  metadata = {},
+  now = new Date()
+}) => {
+  const rowChanges = investment.reverseAllocations(paymentAllocations(payment), now);
+  if (payment.penaltyWaived > 0) {
+    const waivedRow = investment.schedule.find(row => row.month === payment.scheduleMonth);
+    waivedRow.penaltyWaived = roundCurrency(Math.max(0, (waivedRow.penaltyWaived || 0) - payment.penaltyWaived));
+  }
+
+  const oldInvestmentStatus = investment.status;
+  investment.updatePaymentStatus();
+
+  // A payment that completed the investment reopens it once unwound
+  const reopened = oldInvestmentStatus === 'completed' && investment.remainingAmount > 0;
+  if (reopened) {
+    investment.status = 'active';
+    investment.timeline.push({
+      type: 'status_changed',
+      description: `Investment reopened: ${reopenReason}`,
+      performedBy,
+      metadata: {
+        oldStatus: 'completed',
+        newStatus: 'active',
+        paymentId: payment.paymentId
+      }
+    });
+  }
+
+  investment.timeline.push({
+    type: 'payment_reversed',
+    description,
+    amount: payment.amount,
+    performedBy,
+    metadata: {
+      paymentId: payment.paymentId,
+      ...metadata,
+      scheduleChanges: rowChanges,
+      penaltyWaiverRestored: payment.penaltyWaived || 0
+    }
+  });
+
+  await investment.save();
+
+  const session = investment.$session();
+  await reversePayment(payment, { date: now, postedBy: performedBy, session });
+  await refreshInvestorCounters(payment.investor, session);
+
+  return { rowChanges, reopened };
+};
+
+// Record a payment against one schedule month, split by the investment's waterfall.
+// Without an amount the row is settled in full, late fees included. A cashAmount (money that
+// actually left the bank, net of TDS) settles the row in full when it matches the full payout
+// less its TDS, and is otherwise taken as the gross amount of a part payment.
+// Honours maker-checker: above the threshold the payment is left awaiting verification.
+export const recordSchedulePayment = async ({
+  investmentId,
+  scheduleMonth,
+  amount,
+  cashAmount,
+  paymentDate,
+  paymentMethod = 'bank_transfer',
+  referenceNumber,
+  notes,
+  bankReconciliation,
+  batchId,
+  processedBy,
+  session = null
+}) => {
+  const { investment, status, message } = await loadPayableInvestment(investmentId, paymentDate, session);
+  if (!investment) {
+    return { status, message };
+  }
+
+  const row = investment.schedule.find(item => item.month === scheduleMonth);
+  if (!row) {
+    return { status: 400, message: `Schedule month ${scheduleMonth} not found in investment schedule` };
+  }
+
+  if (amount === undefined) {
+    const owed = rowOutstanding(row);
+    amount = roundCurrency(owed.penalty + owed.interest + owed.principal);
+    if (amount <= 0) {
+      return { status: 400, message: `Schedule month ${scheduleMonth} has nothing outstanding` };
+    }
+
+    if (cashAmount !== undefined) {
+      const { tdsAmount } = await withholdingForPayment({
+        investor: investment.investor,
+        interestAmount: owed.interest,
+        paymentDate,
+        amount,
+        session
+      });
+      if (Math.abs(cashAmount - (amount - tdsAmount)) > 0.01) {
+        amount = cashAmount;
+      }
+    }
+  }
+
+  const { allocations, totals, unallocated } = allocatePayment([row], amount, resolveWaterfall(investment));
+  if (unallocated > 0.01) {
+    return { status: 400, message: `Amount exceeds the ${roundCurrency(amount - unallocated)} outstanding on schedule month ${scheduleMonth}` };
+  }
+
+  const verificationRules = await Settings.getVerificationRules();
+  const awaitingVerification = verificationRules.makerCheckerEnabled &&
+    amount > verificationRules.verificationThreshold;
+
+  const withholding = await withholdingForPayment({
+    investor: investment.investor,
+    interestAmount: totals.interest,
+    paymentDate,
+    amount,
+    session
+  });
+
+  const [payment] = await Payment.create([{
+    investment: investment._id,
+    investor: investment.investor._id,
+    scheduleMonth,
+    allocations,
+    amount,
+    paymentDate,
+    paymentMethod,
+    referenceNumber,
+    type: 'mixed',
+    status: awaitingVerification ? 'pending' : 'completed',
+    awaitingVerification,
+    interestAmount: totals.interest,
+    principalAmount: totals.principal,
+    penaltyAmount: totals.penalty,
+    ...withholding,
+    notes,
+    bankReconciliation,
+    batchId,
+    processedBy,
+    auditLog: [{
+      action: 'created',
+      performedBy: processedBy,
+      details: { source: batchId ? 'payout_run' : bankReconciliation ? 'bank_reconciliation' : 'manual', batchId }
+    }]
+  }], { session });
+
+  if (!awaitingVerification) {
+    await settlePayment(payment, investment, processedBy);
+  }
+
+  return { payment };
+};
@@ -0,0 +1,235 @@
+// backend/services/paymentReceipts.js - Generated payment receipts / reversal vouchers (PDF)
+// A receipt is rendered once the payment is completed (or when a reversal is booked) and attached
+// to the payment's documents as category `receipt` with `generated: true`, so it sits alongside
+// anything uploaded by hand. Regenerating replaces the previous generated copy.
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import Payment from '../models/Payment.js';
+import emailService from './emailService.js';
+import {
+  MARGIN,
+  RIGHT,
+  drawFooter,
+  drawLetterhead,
+  formatAmount,
+  formatDate,
+  loadCompany,
+  readLogo
+} from './documentBranding.js';
+import { amountInWords } from '../utils/amountInWords.js';
+import { maskAccount } from '../utils/masking.js';
+import { PAGE_WIDTH, createPdfDocument } from '../utils/pdfDocument.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const RECEIPT_DIRECTORY = path.join(__dirname, '../uploads/receipts');
+
+const METHOD_LABELS = {
+  cash: 'Cash',
+  cheque: 'Cheque',
+  bank_transfer: 'Bank Transfer',
+  upi: 'UPI',
+  card: 'Card',
+  other: 'Other'
+};
+
+export const isReceiptable = (payment) => ['completed', 'reversed'].includes(payment.status) && !payment.awaitingVerification;
+
+export const findGeneratedReceipt = (payment) => payment.documents
+  .filter(document => document.category === 'receipt' && document.generated)
+  .pop() || null;
+
+// Render the receipt for a payment populated with investor, investment (and its plan) and reversalOf
+export const renderPaymentReceipt = (payment, company, logo) => {
+  const isVoucher = !!payment.reversalOf;
+  const title = isVoucher ? 'REVERSAL VOUCHER' : 'PAYMENT RECEIPT';
+  const doc = createPdfDocument({ title: `${title} ${payment.paymentId}` });
+
+  drawLetterhead(doc, company, logo, {
+    title,
+    titleColor: isVoucher ? '#B91C1C' : '#1D4ED8',
+    details: [`No. ${payment.paymentId}`, `Date: ${formatDate(payment.paymentDate)}`]
+  });
+
+  // Parties
+  const investor = payment.investor || {};
+  const investment = payment.investment || {};
+  const bank = investor.kyc?.bankDetails || {};
+
+  doc.text(isVoucher ? 'Reversed For' : 'Paid To', MARGIN, 152, { size: 9, weight: 'bold', color: '#6B7280' });
+  doc.text(investor.name, MARGIN, 168, { size: 12, weight: 'bold' });
+  [
+    `Investor ID: ${investor.investorId || '-'}`,
+    investor.email,
+    investor.phone,
+    bank.bankName ? `${bank.bankName} A/c ${maskAccount(bank.accountNumber) || '-'}` : null
+  ].filter(Boolean).forEach((line, index) => {
+    doc.text(line, MARGIN, 184 + index * 13, { size: 9, color: '#374151' });
+  });
+
+  const column = PAGE_WIDTH / 2 + 20;
+  doc.text('Investment', column, 152, { size: 9, weight: 'bold', color: '#6B7280' });
+  doc.text(investment.investmentId || '-', column, 168, { size: 12, weight: 'bold' });
+  [
+    investment.plan?.name ? `Plan: ${investment.plan.name}` : null,
+    `Schedule month: ${payment.allocations?.length > 1
+      ? payment.allocations.map(allocation => allocation.scheduleMonth).join(', ')
+      : payment.scheduleMonth}`,
+    isVoucher && payment.reversalOf?.paymentId ? `Reverses payment: ${payment.reversalOf.paymentId}` : null
+  ].filter(Boolean).forEach((line, index) => {
+    doc.text(line, column, 184 + index * 13, { size: 9, color: '#374151' });
+  });
+
+  // Breakdown
+  let top = 260;
+  doc.rect(MARGIN, top, RIGHT - MARGIN, 22);
+  doc.text('Description', MARGIN + 10, top + 15, { size: 9, weight: 'bold' });
+  doc.text('Amount', RIGHT - 10, top + 15, { size: 9, weight: 'bold', align: 'right' });
+  top += 22;
+
+  [
+    ['Interest', payment.interestAmount],
+    ['Principal', payment.principalAmount],
+    ['Late fee / penalty', payment.penaltyAmount],
+    ['Bonus', payment.bonusAmount]
+  ].forEach(([label, value]) => {
+    doc.text(label, MARGIN + 10, top + 16, { size: 10 });
+    doc.text(formatAmount(value || 0), RIGHT - 10, top + 16, { size: 10, align: 'right' });
+    top += 24;
+    doc.line(MARGIN, top, RIGHT, top);
+  });
+
+  // TDS is withheld from the interest, so the investor receives the gross less the tax
+  const netAmount = payment.amount - (payment.tdsAmount || 0);
+  if (payment.tdsAmount) {
+    doc.text(`Less: TDS u/s ${payment.tds?.section || '194A'} @ ${payment.tds?.rate ?? 0}%`, MARGIN + 10, top + 16, { size: 10 });
+    doc.text(`- ${formatAmount(payment.tdsAmount)}`, RIGHT - 10, top + 16, { size: 10, align: 'right' });
+    top += 24;
+    doc.line(MARGIN, top, RIGHT, top);
+  }
+
+  if (payment.penaltyWaived > 0) {
+    doc.text(`Late fee waived (not charged): ${formatAmount(payment.penaltyWaived)}`, MARGIN + 10, top + 14, { size: 8, color: '#6B7280' });
+    top += 18;
+  }
+
+  doc.rect(MARGIN, top + 4, RIGHT - MARGIN, 26, { fill: '#EFF6FF' });
+  doc.text(isVoucher ? 'Total Reversed' : payment.tdsAmount ? 'Net Paid' : 'Total Paid', MARGIN + 10, top + 21, { size: 11, weight: 'bold' });
+  doc.text(formatAmount(netAmount), RIGHT - 10, top + 21, { size: 11, weight: 'bold', align: 'right' });
+  top += 48;
+
+  doc.text('Amount in words', MARGIN, top, { size: 9, weight: 'bold', color: '#6B7280' });
+  top = doc.paragraph(amountInWords(netAmount), MARGIN, top + 14, RIGHT - MARGIN, { size: 10 });
+
+  // Payment details
+  top += 16;
+  doc.text('Payment Details', MARGIN, top, { size: 9, weight: 'bold', color: '#6B7280' });
+  top += 6;
+  [
+    ['Payment method', METHOD_LABELS[payment.paymentMethod] || payment.paymentMethod],
+    ['Reference', payment.referenceNumber || '-'],
+    ['Payment date', formatDate(payment.paymentDate)],
+    ['Status', payment.status.charAt(0).toUpperCase() + payment.status.slice(1)],
+    payment.batchId ? ['Payout run', payment.batchId] : null,
+    payment.reversal?.reason ? ['Reversal reason', payment.reversal.reason] : null,
+    payment.notes ? ['Notes', payment.notes] : null
+  ].filter(Boolean).forEach(([label, value]) => {
+    doc.text(label, MARGIN, top + 14, { size: 9, color: '#6B7280' });
+    // Long notes wrap; the next row starts below the last wrapped line
+    top = doc.paragraph(value, MARGIN + 120, top + 14, RIGHT - MARGIN - 120, { size: 9, lineHeight: 14 }) - 14;
+  });
+
+  drawFooter(doc, [
+    'This is a computer-generated document and does not require a signature.',
+    `Generated on ${formatDate(new Date())}`
+  ]);
+
+  return doc.toBuffer();
+};
+
+const populateForReceipt = (payment) => payment.populate([
+  { path: 'investor', select: 'investorId name email phone kyc.bankDetails' },
+  { path: 'investment', select: 'investmentId plan', populate: { path: 'plan', select: 'name' } },
+  { path: 'reversalOf', select: 'paymentId' }
+]);
+
+// Render and attach the receipt, replacing an earlier generated copy; returns the document entry
+export const generatePaymentReceipt = async (paymentId, generatedBy, { company } = {}) => {
+  const payment = await Payment.findById(paymentId);
+  if (!payment) {
+    throw new Error('Payment not found');
+  }
+
+  await populateForReceipt(payment);
+  const companyDetails = company || await loadCompany();
+  const logo = await readLogo(companyDetails.logo);
+  const content = renderPaymentReceipt(payment, companyDetails, logo);
+
+  await fs.mkdir(RECEIPT_DIRECTORY, { recursive: true });
+  const fileName = `receipt-${payment.paymentId}-${Date.now()}.pdf`;
+  const filePath = path.join(RECEIPT_DIRECTORY, fileName);
+  await fs.writeFile(filePath, content);
+
+  // Work on an unpopulated copy so the save does not depopulate anything the caller holds
+  const target = await Payment.findById(payment._id);
+  const previous = findGeneratedReceipt(target);
+  if (previous) {
+    target.documents.pull(previous._id);
+    await fs.unlink(previous.filePath).catch(() => {});
+  }
+
+  await target.addDocument({
+    category: 'receipt',
+    fileName,
+    originalName: `${payment.reversalOf ? 'Voucher' : 'Receipt'}-${payment.paymentId}.pdf`,
+    filePath,
+    fileSize: content.length,
+    mimeType: 'application/pdf',
+    description: payment.reversalOf ? 'Generated reversal voucher' : 'Generated payment receipt',
+    generated: true
+  }, generatedBy);
+
+  return findGeneratedReceipt(target);
+};
+
+// Generated receipt for a payment, rendered now if it is missing (or its file has gone)
+export const ensurePaymentReceipt = async (payment, generatedBy) => {
+  const existing = findGeneratedReceipt(payment);
+  if (existing) {
+    try {
+      await fs.access(existing.filePath);
+      return existing;
+    } catch {
+      // Fall through and regenerate
+    }
+  }
+  return generatePaymentReceipt(payment._id, generatedBy);
+};
+
+// Best effort after payments are recorded: a failed receipt never fails the payment itself
+export const attachReceipts = async (paymentIds, generatedBy) => {
+  if (!paymentIds.length) return;
+  const company = await loadCompany().catch(() => undefined);
+
+  for (const paymentId of paymentIds) {
+    try {
+      await generatePaymentReceipt(paymentId, generatedBy, { company });
+    } catch (error) {
+      console.error(`Receipt generation failed for payment ${paymentId}:`, error.message);
+    }
+  }
+};
+
+export const emailPaymentReceipt = async (payment, sentBy) => {
+  const receipt = await ensurePaymentReceipt(payment, sentBy);
+  await populateForReceipt(payment);
+  const company = await loadCompany();
+
+  return emailService.sendPaymentReceiptEmail(payment.investor, payment, {
+    filename: receipt.originalName,
+    path: receipt.filePath,
+    contentType: 'application/pdf'
+  }, company);
+};
@@ -0,0 +1,184 @@
+// backend/services/payoutFiles.js - Bank bulk-payment files for due schedule rows
+// Files are built from the same due rows as payout runs (services/payoutRuns.js). Every row gets a
+// reference that is written into the file; the bank echoes it back in the statement narration, which
+// lets the statement import match the debit to its schedule row.
+import PayoutExport from '../models/PayoutExport.js';
+import { listDueRows } from './payoutRuns.js';
+import { estimateWithholding } from './tds.js';
+import {
+  BANK_FILE_FORMATS,
+  buildBankFile,
+  resolveTransferMode,
+  validatePayoutRow
+} from '../utils/bankFileFormats.js';
+import { roundCurrency } from '../../shared/scheduleEngine.js';
+
+export class PayoutFileError extends Error {
+  constructor(message, rowErrors = []) {
+    super(message);
+    this.name = 'PayoutFileError';
+    this.statusCode = 400;
+    this.rowErrors = rowErrors;
+  }
+}
+
+const rowKey = (investmentId, scheduleMonth) => `${investmentId}:${scheduleMonth}`;
+
+const estimateRowWithholding = (dueRows, paymentDate) => estimateWithholding(dueRows.map(row => ({
+  investor: row.investor._id,
+  interestAmount: row.interestAmount,
+  amount: row.amount,
+  date: paymentDate
+})));
+
+// The bank transfers the due amount less the TDS that will be withheld from its interest
+const toPayoutRow = (dueRow, transferMode, tdsAmount = 0) => {
+  const amount = roundCurrency(dueRow.amount - tdsAmount);
+  const row = {
+    investment: dueRow.investment,
+    investor: dueRow.investor._id,
+    investmentId: dueRow.investmentId,
+    investorId: dueRow.investor.investorId,
+    scheduleMonth: dueRow.scheduleMonth,
+    dueDate: dueRow.dueDate,
+    amount,
+    tdsAmount,
+    beneficiaryName: dueRow.investor.name,
+    accountNumber: (dueRow.investor.accountNumber || '').replace(/\s/g, ''),
+    ifscCode: (dueRow.investor.ifscCode || '').trim().toUpperCase(),
+    bankName: dueRow.investor.bankName,
+    transferMode: resolveTransferMode(amount, transferMode)
+  };
+  return { ...row, errors: validatePayoutRow(row) };
+};
+
+// Banks echo the narration on the statement; it carries the reference for matching
+const narrationFor = (row) => `${row.reference} ${row.investmentId} M${row.scheduleMonth}`;
+
+export const listBankFileFormats = () => Object.entries(BANK_FILE_FORMATS)
+  .map(([key, format]) => ({ key, label: format.label, extension: format.extension }));
+
+// Latest exported reference for each schedule row, keyed by `${investment}:${scheduleMonth}`
+export const exportReferences = async (investmentIds) => {
+  const references = new Map();
+  if (!investmentIds.length) return references;
+
+  const exports = await PayoutExport.find({ 'rows.investment': { $in: investmentIds } })
+    .select('exportId rows.investment rows.scheduleMonth rows.reference createdAt')
+    .sort({ createdAt: 1 });
+
+  exports.forEach(payoutExport => {
+    payoutExport.rows.forEach(row => {
+      references.set(rowKey(row.investment, row.scheduleMonth), {
+        reference: row.reference,
+        exportId: payoutExport.exportId
+      });
+    });
+  });
+  return references;
+};
+
+// Due rows with bank details and the problems that would block them from a file
+export const previewPayoutFile = async ({ dueFrom, dueTo, paymentDate, transferMode = 'auto' }) => {
+  const dueRows = await listDueRows({ dueFrom, dueTo, paymentDate });
+  const references = await exportReferences([...new Set(dueRows.map(row => row.investment))]);
+  const withholding = await estimateRowWithholding(dueRows, paymentDate);
+
+  return dueRows.map((dueRow, index) => ({
+    ...toPayoutRow(dueRow, transferMode, withholding[index]),
+    previousExport: references.get(rowKey(dueRow.investment, dueRow.scheduleMonth))?.exportId || null
+  }));
+};
+
+// Record the export; every selected row must be due in the range and pass validation
+export const generatePayoutFile = async ({
+  dueFrom,
+  dueTo,
+  paymentDate,
+  format,
+  transferMode = 'auto',
+  debitAccount,
+  rows
+}, performedBy) => {
+  if (!BANK_FILE_FORMATS[format]) {
+    throw new PayoutFileError(`Unknown bank file format: ${format}`);
+  }
+
+  const dueRows = await listDueRows({ dueFrom, dueTo, paymentDate });
+  const dueByKey = new Map(dueRows.map(row => [rowKey(row.investment, row.scheduleMonth), row]));
+
+  const selectedDue = [];
+  const seen = new Set();
+  rows.forEach(({ investment, scheduleMonth }) => {
+    const key = rowKey(investment, scheduleMonth);
+    if (seen.has(key)) {
+      throw new PayoutFileError(`Schedule month ${scheduleMonth} of investment ${investment} is selected twice`);
+    }
+    if (!dueByKey.has(key)) {
+      throw new PayoutFileError(`Schedule month ${scheduleMonth} of investment ${investment} is not due in the selected range`);
+    }
+    seen.add(key);
+    selectedDue.push(dueByKey.get(key));
+  });
+
+  // Only the rows going into the file count towards each investor's threshold
+  const withholding = await estimateRowWithholding(selectedDue, paymentDate);
+  const selected = selectedDue.map((dueRow, index) => toPayoutRow(dueRow, transferMode, withholding[index]));
+
+  const rowErrors = selected
+    .filter(row => row.errors.length)
+    .map(row => ({ investmentId: row.investmentId, scheduleMonth: row.scheduleMonth, errors: row.errors }));
+  if (rowErrors.length) {
+    throw new PayoutFileError(`${rowErrors.length} selected row(s) have invalid bank details`, rowErrors);
+  }
+
+  const payoutExport = new PayoutExport({
+    format,
+    dueFrom,
+    dueTo,
+    paymentDate,
+    transferMode,
+    debitAccount,
+    excludedCount: dueRows.length - selected.length,
+    createdBy: performedBy
+  });
+  // Saved once first so the generated export ID can prefix the row references
+  await payoutExport.save();
+
+  payoutExport.rows = selected.map(({ errors, ...row }, index) => ({
+    ...row,
+    reference: `${payoutExport.exportId}-${String(index + 1).padStart(4, '0')}`
+  }));
+  payoutExport.totals = {
+    count: selected.length,
+    amount: roundCurrency(selected.reduce((total, row) => total + row.amount, 0))
+  };
+  payoutExport.fileName = `${payoutExport.exportId}_${format}.${BANK_FILE_FORMATS[format].extension}`;
+  await payoutExport.save();
+
+  return payoutExport;
+};
+
+export const renderPayoutFile = (payoutExport) => {
+  const rows = payoutExport.rows.map(row => ({
+    reference: row.reference,
+    beneficiaryName: row.beneficiaryName,
+    accountNumber: row.accountNumber,
+    ifscCode: row.ifscCode,
+    bankName: row.bankName,
+    amount: row.amount,
+    transferMode: row.transferMode,
+    investorId: row.investorId,
+    investmentId: row.investmentId,
+    scheduleMonth: row.scheduleMonth,
+    narration: narrationFor(row)
+  }));
+
+  return {
+    fileName: payoutExport.fileName,
+    content: buildBankFile(payoutExport.format, rows, {
+      paymentDate: payoutExport.paymentDate,
+      debitAccount: payoutExport.debitAccount
+    })
+  };
+};
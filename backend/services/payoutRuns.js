@@ -0,0 +1,220 @@
+// backend/services/payoutRuns.js - Payout runs: pay every due schedule row in a date range as one batch
+// A run is posted in a single transaction, so either every payment in it is recorded or none is
+// (MongoDB must run as a replica set, see config/database.js).
+// It can be rolled back as a whole until one of its payments has been verified, reconciled
+// against a bank statement or reversed on its own.
+import { runInTransaction } from '../config/database.js';
+import Investment from '../models/Investment.js';
+import Payment from '../models/Payment.js';
+import PayoutBatch from '../models/PayoutBatch.js';
+import Settings from '../models/Settings.js';
+import { PAYABLE_STATUSES, recordSchedulePayment, unwindPayment } from './paymentPosting.js';
+import { resolveLateFeePolicy } from '../utils/lateFees.js';
+import { rowOutstanding } from '../utils/paymentAllocation.js';
+import { roundCurrency } from '../../shared/scheduleEngine.js';
+
+export class PayoutRunError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'PayoutRunError';
+    this.statusCode = 400;
+  }
+}
+
+const DUE_STATUSES = ['pending', 'overdue', 'partial'];
+
+const rowKey = (investmentId, scheduleMonth) => `${investmentId}:${scheduleMonth}`;
+
+// Request dates: the due range covers whole days, payment date defaults to today
+export const parseDueRange = ({ dueFrom, dueTo, paymentDate }) => {
+  const end = new Date(dueTo);
+  end.setUTCHours(23, 59, 59, 999);
+  return {
+    dueFrom: new Date(dueFrom),
+    dueTo: end,
+    paymentDate: paymentDate ? new Date(paymentDate) : new Date()
+  };
+};
+
+// Unpaid rows due between dueFrom and dueTo on payable investments, with late fees accrued to the payment date
+export const listDueRows = async ({ dueFrom, dueTo, paymentDate }) => {
+  const investments = await Investment.find({
+    status: { $in: PAYABLE_STATUSES },
+    schedule: { $elemMatch: { status: { $in: DUE_STATUSES }, dueDate: { $gte: dueFrom, $lte: dueTo } } }
+  })
+    .select('investmentId investor schedule lateFeeType lateFeeRate')
+    .populate('investor', 'investorId name kyc.bankDetails');
+
+  const lateFeeSettings = await Settings.getLateFeeSettings();
+  const rows = [];
+
+  investments.forEach(investment => {
+    // Accrued in memory only; the fee is persisted when the payment is recorded
+    investment.accrueLateFees(resolveLateFeePolicy(investment, lateFeeSettings), paymentDate);
+
+    investment.schedule
+      .filter(row => DUE_STATUSES.includes(row.status) && row.dueDate >= dueFrom && row.dueDate <= dueTo)
+      .forEach(row => {
+        const owed = rowOutstanding(row);
+        const amount = roundCurrency(owed.penalty + owed.interest + owed.principal);
+        if (amount <= 0) return;
+
+        rows.push({
+          investment: investment._id,
+          investmentId: investment.investmentId,
+          investor: {
+            _id: investment.investor._id,
+            investorId: investment.investor.investorId,
+            name: investment.investor.name,
+            bankName: investment.investor.kyc?.bankDetails?.bankName,
+            accountNumber: investment.investor.kyc?.bankDetails?.accountNumber,
+            ifscCode: investment.investor.kyc?.bankDetails?.ifscCode
+          },
+          scheduleMonth: row.month,
+          dueDate: row.dueDate,
+          status: row.status,
+          interestAmount: owed.interest,
+          principalAmount: owed.principal,
+          penaltyAmount: owed.penalty,
+          amount
+        });
+      });
+  });
+
+  return rows.sort((a, b) => a.dueDate - b.dueDate || a.investmentId.localeCompare(b.investmentId));
+};
+
+// Record a payment for each selected row; rows in the range but not selected are counted as excluded
+export const postPayoutRun = async ({
+  dueFrom,
+  dueTo,
+  paymentDate,
+  paymentMethod,
+  referenceNumber,
+  notes,
+  rows
+}, performedBy) => {
+  const dueRows = await listDueRows({ dueFrom, dueTo, paymentDate });
+  const dueByKey = new Map(dueRows.map(row => [rowKey(row.investment, row.scheduleMonth), row]));
+
+  const selected = [];
+  const seen = new Set();
+  rows.forEach(({ investment, scheduleMonth }) => {
+    const key = rowKey(investment, scheduleMonth);
+    if (seen.has(key)) {
+      throw new PayoutRunError(`Schedule month ${scheduleMonth} of investment ${investment} is selected twice`);
+    }
+    if (!dueByKey.has(key)) {
+      throw new PayoutRunError(`Schedule month ${scheduleMonth} of investment ${investment} is not due in the selected range`);
+    }
+    seen.add(key);
+    selected.push(dueByKey.get(key));
+  });
+
+  let batch;
+  await runInTransaction('Posting a payout run', async (session) => {
+    batch = new PayoutBatch({
+      dueFrom,
+      dueTo,
+      paymentDate,
+      paymentMethod,
+      referenceNumber,
+      notes,
+      excludedCount: dueRows.length - selected.length,
+      createdBy: performedBy
+    });
+    await batch.save({ session });
+
+    // One at a time - rows of the same investment settle against the same document
+    const payments = [];
+    for (const row of selected) {
+      const result = await recordSchedulePayment({
+        investmentId: row.investment,
+        scheduleMonth: row.scheduleMonth,
+        paymentDate,
+        paymentMethod,
+        referenceNumber,
+        notes: notes || `Payout run ${batch.batchId}`,
+        batchId: batch.batchId,
+        processedBy: performedBy,
+        session
+      });
+      if (!result.payment) {
+        throw new PayoutRunError(`${row.investmentId} month ${row.scheduleMonth}: ${result.message}`);
+      }
+      payments.push(result.payment);
+    }
+
+    const sum = (field) => roundCurrency(payments.reduce((total, payment) => total + payment[field], 0));
+    batch.payments = payments.map(payment => payment._id);
+    batch.totals = {
+      count: payments.length,
+      amount: sum('amount'),
+      interest: sum('interestAmount'),
+      principal: sum('principalAmount'),
+      penalty: sum('penaltyAmount'),
+      awaitingVerification: payments.filter(payment => payment.awaitingVerification).length
+    };
+    await batch.save();
+  });
+
+  return batch;
+};
+
+// Cancel every payment in the run; settled ones are unwound from the schedule and investor totals
+export const rollbackPayoutRun = async (batch, reason, performedBy) => {
+  if (batch.status === 'rolled_back') {
+    throw new PayoutRunError(`Payout run ${batch.batchId} has already been rolled back`);
+  }
+
+  const payments = await Payment.find({ _id: { $in: batch.payments } });
+  payments.forEach(payment => {
+    if (payment.verifiedBy) {
+      throw new PayoutRunError(`Payment ${payment.paymentId} has been verified; reverse it individually instead`);
+    }
+    if (payment.bankReconciliation?.statement) {
+      throw new PayoutRunError(`Payment ${payment.paymentId} has been reconciled against a bank statement`);
+    }
+    if (!['pending', 'completed'].includes(payment.status)) {
+      throw new PayoutRunError(`Payment ${payment.paymentId} is ${payment.status} and cannot be rolled back`);
+    }
+  });
+
+  const description = `Payout run ${batch.batchId} rolled back: ${reason}`;
+  const now = new Date();
+
+  await runInTransaction('Rolling back a payout run', async (session) => {
+    const investments = new Map();
+
+    for (const { _id } of payments) {
+      const payment = await Payment.findById(_id).session(session);
+
+      if (payment.status === 'completed') {
+        const investmentKey = payment.investment.toString();
+        if (!investments.has(investmentKey)) {
+          investments.set(investmentKey, await Investment.findById(payment.investment).session(session));
+        }
+
+        await unwindPayment(payment, investments.get(investmentKey), performedBy, {
+          description,
+          reopenReason: `payout run ${batch.batchId} was rolled back`,
+          metadata: { batchId: batch.batchId, reason },
+          now
+        });
+      }
+
+      payment.awaitingVerification = false;
+      await payment.updateStatus('cancelled', performedBy, description);
+    }
+
+    batch.status = 'rolled_back';
+    batch.rollback = {
+      reason,
+      rolledBackAt: now,
+      rolledBackBy: performedBy
+    };
+    await batch.save({ session });
+  });
+
+  return batch;
+};
@@ -0,0 +1,155 @@
+// backend/services/prepayments.js - Settle partial prepayments and premature closures
+// A prepayment is recorded as a settlement payment carrying its input. Under maker-checker
+// the payment waits for a second user like any other; the schedule is only re-cut, the
+// penalty charged and the ledger posted once it is settled here.
+import { runInTransaction } from '../config/database.js';
+import Payment from '../models/Payment.js';
+import Plan from '../models/Plan.js';
+import { calculatePrepayment, validatePrepayment } from '../utils/prepayment.js';
+import { roundCurrency } from '../../shared/scheduleEngine.js';
+import { HoldingError, deathClaim, deceasedHolders, describeClaim } from './holdings.js';
+import { postPayment, postPrepaymentPenalty, refreshInvestorCounters } from './ledger.js';
+
+export class PrepaymentError extends Error {
+  constructor(message, statusCode = 409) {
+    super(message);
+    this.name = 'PrepaymentError';
+    this.statusCode = statusCode;
+  }
+}
+
+// Penalty copied at creation; investments created before it was recorded use the plan's current value.
+// A closure after a holder's death carries no penalty.
+export const resolvePrepaymentInput = async (investment, body, holders) => {
+  let penaltyPercentage = investment.prematureWithdrawalPenalty;
+  if (penaltyPercentage === undefined || penaltyPercentage === null) {
+    const plan = await Plan.findById(investment.plan).select('prematureWithdrawalPenalty');
+    penaltyPercentage = plan?.prematureWithdrawalPenalty || 0;
+  }
+
+  const foreclose = body.foreclose === true || body.foreclose === 'true';
+  const deathClosure = foreclose && deceasedHolders(holders).length > 0;
+  return {
+    foreclose,
+    amount: parseFloat(body.amount) || 0,
+    date: body.date ? new Date(body.date) : new Date(),
+    mode: body.mode || 'reduce_instalment',
+    penaltyPercentage: body.waivePenalty === true || deathClosure ? 0 : penaltyPercentage
+  };
+};
+
+// Who a closure is paid to after a holder's death (null otherwise). With no holder left alive,
+// only a full closure can settle the investment.
+export const resolveDeathClaim = (investment, holders, input, amount) => {
+  if (!input.foreclose) {
+    if (deceasedHolders(holders).length === holders.length) {
+      throw new HoldingError('Every holder is recorded as deceased; close the investment to settle the claim');
+    }
+    return null;
+  }
+  return deathClaim(investment, holders, amount, input.date);
+};
+
+export const prepaymentLabel = (input, claim) => {
+  if (claim) {
+    return `Closure on the death of ${claim.deceased.map(holder => holder.name).join(', ')}, paid to ${describeClaim(claim)}`;
+  }
+  return input.foreclose ? 'Premature closure' : 'Principal prepayment';
+};
+
+// Apply a recorded settlement payment: charge the penalty, re-cut the schedule, record any
+// death claim and journal both payments. The settlement is worked out again from the
+// investment as it stands now, and refused if it no longer matches what was recorded.
+// A refusal is returned before anything is written; writes join the investment's session.
+export const settlePrepayment = async (payment, investment, holders, performedBy) => {
+  const input = payment.prepayment;
+  const prepaymentError = validatePrepayment(investment, input);
+  if (prepaymentError) {
+    return { status: 409, message: `${prepaymentError}; reject and record the prepayment again` };
+  }
+
+  const settlement = calculatePrepayment(investment, input);
+  if (Math.abs(roundCurrency(settlement.principal + settlement.interest) - payment.amount) > 0.01 ||
+    Math.abs(settlement.interest - payment.interestAmount) > 0.01) {
+    return { status: 409, message: `The settlement for payment ${payment.paymentId} has changed since it was recorded; reject and record the prepayment again` };
+  }
+
+  let claim;
+  try {
+    claim = resolveDeathClaim(investment, holders, input, roundCurrency(payment.amount - (payment.tdsAmount || 0)));
+  } catch (error) {
+    if (error instanceof HoldingError) {
+      return { status: 409, message: error.message };
+    }
+    throw error;
+  }
+
+  const session = investment.$session();
+  const payments = [payment];
+  if (settlement.penalty > 0) {
+    const [penaltyPayment] = await Payment.create([{
+      investment: investment._id,
+      investor: payment.investor,
+      scheduleMonth: settlement.scheduleMonth,
+      amount: settlement.penalty,
+      paymentDate: settlement.settlementDate,
+      paymentMethod: payment.paymentMethod,
+      referenceNumber: payment.referenceNumber,
+      type: 'penalty',
+      penaltyAmount: settlement.penalty,
+      deductedFrom: payment._id,
+      notes: `${prepaymentLabel(input, claim)} penalty at ${input.penaltyPercentage}% of principal withdrawn, deducted from the settlement`,
+      processedBy: payment.processedBy,
+      ...(payment.verifiedBy && { verifiedBy: payment.verifiedBy, verifiedAt: new Date() })
+    }], { session });
+    payments.push(penaltyPayment);
+  }
+
+  investment.applyPrepayment(settlement, input, performedBy, payments.map(item => item.paymentId));
+  if (claim) {
+    investment.deathClaim = {
+      ...claim,
+      paymentIds: payments.map(item => item._id),
+      settledAt: settlement.settlementDate,
+      settledBy: performedBy
+    };
+  }
+  await investment.save();
+
+  // Journal against the re-cut schedule, so the settlement row's interest is what gets accrued
+  await postPayment(payment, { investment, postedBy: performedBy, session });
+  if (payments[1]) {
+    await postPrepaymentPenalty(payments[1], { investment, postedBy: performedBy, session });
+  }
+  await refreshInvestorCounters(investment.investor, session);
+
+  return { settlement, payments };
+};
+
+// Approve a settlement payment held for maker-checker: settle it and complete the payment in one
+// transaction, so a settlement refused or failing part-way writes nothing and the payment can be
+// handed back to the queue. A refusal is returned as { status, message }.
+export const approvePrepayment = async (payment, investment, holders, user, notes) => {
+  try {
+    return await runInTransaction('Approving a prepayment', async (session) => {
+      investment.$session(session);
+      payment.$session(session);
+      payment.verifiedBy = user._id;
+      const result = await settlePrepayment(payment, investment, holders, user._id);
+      if (result.status) {
+        throw new PrepaymentError(result.message, result.status);
+      }
+      await payment.recordVerificationDecision('approve', user._id, notes);
+      return result;
+    });
+  } catch (error) {
+    payment.verifiedBy = undefined;
+    if (error instanceof PrepaymentError) {
+      return { status: error.statusCode, message: error.message };
+    }
+    throw error;
+  } finally {
+    investment.$session(null);
+    payment.$session(null);
+  }
+};
@@ -0,0 +1,40 @@
+// backend/services/sensitiveData.js - Re-sealing encrypted identifiers after a key rotation
+// Once a new key is put first in FIELD_ENCRYPTION_KEYS, values sealed under older keys, and values
+// stored before encryption was introduced, are re-sealed under it and their blind indexes filled
+// in. A retired key can be dropped from the ring after a run that re-seals nothing.
+import Investor from '../models/Investor.js';
+import PayoutExport from '../models/PayoutExport.js';
+import { needsResealing } from '../utils/fieldEncryption.js';
+
+const INVESTOR_PATHS = ['kyc.panNumber', 'kyc.aadharNumber', 'kyc.bankDetails.accountNumber'];
+
+const storedValue = (doc, path) => doc.get(path, null, { getters: false });
+
+// Reading through the getter opens the value and assigning it back seals it under the active key.
+// Saved without validation so older records with other problems are still re-sealed.
+export const resealSensitiveFields = async () => {
+  let investorsResealed = 0;
+  for await (const investor of Investor.find().cursor()) {
+    const stale = INVESTOR_PATHS.filter(path => needsResealing(storedValue(investor, path)));
+    const missingIndex = investor.kyc?.panNumber && !investor.kyc.panHash;
+    if (!stale.length && !missingIndex) continue;
+
+    stale.forEach(path => investor.set(path, investor.get(path)));
+    await investor.save({ validateBeforeSave: false });
+    investorsResealed++;
+  }
+
+  let payoutExportsResealed = 0;
+  for await (const payoutExport of PayoutExport.find({ 'rows.0': { $exists: true } }).cursor()) {
+    const staleRows = payoutExport.rows.filter(row => needsResealing(storedValue(row, 'accountNumber')));
+    if (!staleRows.length) continue;
+
+    staleRows.forEach(row => {
+      row.accountNumber = row.accountNumber;
+    });
+    await payoutExport.save({ validateBeforeSave: false });
+    payoutExportsResealed++;
+  }
+
+  return { investorsResealed, payoutExportsResealed };
+};
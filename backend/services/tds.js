@@ -0,0 +1,318 @@
+// backend/services/tds.js - Tax deducted at source on interest payouts
+// Only the interest component is taxed. Nothing is withheld while an investor's interest for the
+// financial year stays within the threshold; once it goes over, tax is due on the whole year's
+// interest, so the payment that crosses the threshold also withholds what was skipped earlier.
+// Without a verified PAN the higher no-PAN rate applies and Form 15G/15H is not accepted.
+import mongoose from 'mongoose';
+import Investor from '../models/Investor.js';
+import Payment from '../models/Payment.js';
+import Settings from '../models/Settings.js';
+import { financialPeriodRange, financialQuarterOf, financialYearOf } from '../utils/financialYear.js';
+import { roundCurrency } from '../../shared/scheduleEngine.js';
+
+export class TaxError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'TaxError';
+    this.statusCode = 400;
+  }
+}
+
+// Used for years before the first configured entry
+export const DEFAULT_TDS_RATE = {
+  rate: 10,
+  noPanRate: 20,
+  threshold: 5000
+};
+
+// Rates for a financial year: its own entry, else the latest earlier year configured
+export const resolveTdsRate = (tdsRates, financialYear) => tdsRates
+  .filter(entry => entry.financialYear <= financialYear)
+  .sort((a, b) => b.financialYear.localeCompare(a.financialYear))[0] || DEFAULT_TDS_RATE;
+
+export const hasVerifiedPan = (investor) =>
+  !!investor.kyc?.panNumber && investor.kyc.verificationStatus === 'verified';
+
+export const exemptionFor = (investor, financialYear) =>
+  (investor.taxExemptions || []).find(exemption => exemption.financialYear === financialYear) || null;
+
+// Withholding on one payment's interest, given the interest and TDS already booked for the
+// investor in the same financial year. Returns the Payment fields { tdsAmount, tds }.
+export const calculateWithholding = ({ taxSettings, investor, interestAmount, paymentDate, yearToDate, maxAmount }) => {
+  if (!taxSettings.tdsEnabled || interestAmount <= 0) {
+    return { tdsAmount: 0 };
+  }
+
+  const financialYear = financialYearOf(paymentDate, taxSettings.financialYearStart).label;
+  const base = {
+    financialYear,
+    quarter: financialQuarterOf(paymentDate, taxSettings.financialYearStart),
+    section: taxSettings.tdsSection
+  };
+
+  const panVerified = hasVerifiedPan(investor);
+  const exemption = panVerified ? exemptionFor(investor, financialYear) : null;
+  if (exemption) {
+    return { tdsAmount: 0, tds: { ...base, rate: 0, basis: 'exempt', exemptionForm: exemption.form } };
+  }
+
+  const rule = resolveTdsRate(taxSettings.tdsRates, financialYear);
+  const rate = panVerified ? rule.rate : rule.noPanRate;
+  const yearInterest = roundCurrency(yearToDate.interest + interestAmount);
+  if (yearInterest <= rule.threshold) {
+    return { tdsAmount: 0, tds: { ...base, rate, basis: 'below_threshold' } };
+  }
+
+  // TDS is rounded to the nearest rupee
+  const due = Math.round(yearInterest * rate / 100) - yearToDate.tds;
+  return {
+    tdsAmount: roundCurrency(Math.min(Math.max(0, due), maxAmount)),
+    tds: { ...base, rate, basis: panVerified ? 'standard' : 'no_pan' }
+  };
+};
+
+// Interest and TDS booked for an investor in the financial year containing `date`. Pending
+// payments count (they will be paid); reversal entries carry negated amounts and cancel out.
+const loadYearToDate = async (investorId, taxSettings, date, session = null) => {
+  const { start, end } = financialYearOf(date, taxSettings.financialYearStart);
+  const [totals] = await Payment.aggregate([
+    {
+      $match: {
+        investor: new mongoose.Types.ObjectId(String(investorId)),
+        paymentDate: { $gte: start, $lte: end },
+        status: { $in: ['pending', 'completed', 'reversed'] }
+      }
+    },
+    {
+      $group: {
+        _id: null,
+        interest: { $sum: '$interestAmount' },
+        tds: { $sum: '$tdsAmount' }
+      }
+    }
+  ]).session(session);
+
+  return {
+    interest: roundCurrency(totals?.interest || 0),
+    tds: roundCurrency(totals?.tds || 0)
+  };
+};
+
+const loadTaxInvestor = (investor, session) => (investor.kyc && investor.taxExemptions
+  ? investor
+  : Investor.findById(investor._id || investor).select('kyc taxExemptions').session(session));
+
+// TDS fields for a payment about to be recorded
+export const withholdingForPayment = async ({ investor, interestAmount, paymentDate, amount, session = null }) => {
+  const taxSettings = await Settings.getTaxSettings();
+  if (!taxSettings.tdsEnabled || interestAmount <= 0) {
+    return { tdsAmount: 0 };
+  }
+
+  const taxInvestor = await loadTaxInvestor(investor, session);
+  const yearToDate = await loadYearToDate(taxInvestor._id, taxSettings, paymentDate, session);
+  return calculateWithholding({
+    taxSettings,
+    investor: taxInvestor,
+    interestAmount,
+    paymentDate,
+    yearToDate,
+    maxAmount: amount
+  });
+};
+
+// Expected TDS on due rows that are about to be paid ({ investor, interestAmount, amount, date }),
+// taken in order so rows for the same investor and year build on each other
+export const estimateWithholding = async (rows) => {
+  const taxSettings = await Settings.getTaxSettings();
+  if (!taxSettings.tdsEnabled) {
+    return rows.map(() => 0);
+  }
+
+  const investorIds = [...new Set(rows.map(row => String(row.investor)))];
+  const investors = new Map((await Investor.find({ _id: { $in: investorIds } }).select('kyc taxExemptions'))
+    .map(investor => [String(investor._id), investor]));
+
+  const running = new Map();
+  const estimates = [];
+  for (const row of rows) {
+    const investor = investors.get(String(row.investor));
+    if (!investor || row.interestAmount <= 0) {
+      estimates.push(0);
+      continue;
+    }
+
+    const key = `${row.investor}:${financialYearOf(row.date, taxSettings.financialYearStart).label}`;
+    if (!running.has(key)) {
+      running.set(key, await loadYearToDate(row.investor, taxSettings, row.date));
+    }
+    const yearToDate = running.get(key);
+
+    const { tdsAmount } = calculateWithholding({
+      taxSettings,
+      investor,
+      interestAmount: row.interestAmount,
+      paymentDate: row.date,
+      yearToDate,
+      maxAmount: row.amount
+    });
+    yearToDate.interest = roundCurrency(yearToDate.interest + row.interestAmount);
+    yearToDate.tds = roundCurrency(yearToDate.tds + tdsAmount);
+    estimates.push(tdsAmount);
+  }
+
+  return estimates;
+};
+
+// Form 15G/15H for a financial year; one declaration per investor and year
+export const addTaxExemption = async (investorId, { form, financialYear, submittedAt, notes }, recordedBy) => {
+  const { financialYearStart } = await Settings.getTaxSettings();
+  if (!financialPeriodRange(financialYear, financialYearStart)) {
+    throw new TaxError(`${financialYear} is not a financial year starting in ${financialYearStart}`);
+  }
+
+  const investor = await Investor.findById(investorId);
+  if (!investor) {
+    throw new TaxError('Investor not found');
+  }
+  if (!hasVerifiedPan(investor)) {
+    throw new TaxError('Form 15G/15H needs a verified PAN');
+  }
+  const existing = exemptionFor(investor, financialYear);
+  if (existing) {
+    throw new TaxError(`A Form ${existing.form} is already on file for ${financialYear}`);
+  }
+
+  investor.taxExemptions.push({ form, financialYear, submittedAt, notes, recordedBy });
+  await investor.save();
+  return investor.taxExemptions;
+};
+
+// Withdrawing a declaration affects payments recorded from now on, not TDS already decided
+export const removeTaxExemption = async (investorId, exemptionId) => {
+  const investor = await Investor.findById(investorId);
+  const exemption = investor?.taxExemptions.id(exemptionId);
+  if (!exemption) {
+    throw new TaxError('Exemption not found');
+  }
+
+  exemption.deleteOne();
+  await investor.save();
+  return investor.taxExemptions;
+};
+
+// Interest paid and TDS withheld per investor for a financial year or one of its quarters
+export const buildTdsReport = async ({ financialYear, quarter = null }) => {
+  const taxSettings = await Settings.getTaxSettings();
+  const range = financialPeriodRange(financialYear, taxSettings.financialYearStart, quarter);
+  if (!range) {
+    throw new TaxError(`${financialYear} is not a financial year starting in ${taxSettings.financialYearStart}`);
+  }
+
+  const payments = await Payment.find({
+    paymentDate: { $gte: range.start, $lte: range.end },
+    status: { $in: ['completed', 'reversed'] },
+    awaitingVerification: { $ne: true },
+    interestAmount: { $ne: 0 }
+  })
+    .select('investor interestAmount tdsAmount tds paymentDate')
+    .populate('investor', 'investorId name kyc.panNumber kyc.verificationStatus')
+    .sort({ paymentDate: 1 });
+
+  const rows = new Map();
+  payments.forEach(payment => {
+    const key = String(payment.investor._id);
+    if (!rows.has(key)) {
+      rows.set(key, {
+        investor: payment.investor._id,
+        investorId: payment.investor.investorId,
+        name: payment.investor.name,
+        panNumber: payment.investor.kyc?.panNumber || null,
+        panVerified: hasVerifiedPan(payment.investor),
+        payments: 0,
+        interestPaid: 0,
+        tdsWithheld: 0,
+        rates: new Set(),
+        bases: new Set(),
+        exemptionForm: null
+      });
+    }
+
+    const row = rows.get(key);
+    row.payments += 1;
+    row.interestPaid = roundCurrency(row.interestPaid + payment.interestAmount);
+    row.tdsWithheld = roundCurrency(row.tdsWithheld + (payment.tdsAmount || 0));
+    if (payment.tds?.basis) {
+      row.bases.add(payment.tds.basis);
+      if (payment.tdsAmount) row.rates.add(payment.tds.rate);
+      if (payment.tds.exemptionForm) row.exemptionForm = payment.tds.exemptionForm;
+    }
+  });
+
+  const reportRows = [...rows.values()]
+    .map(row => ({
+      ...row,
+      netPaid: roundCurrency(row.interestPaid - row.tdsWithheld),
+      rates: [...row.rates].sort((a, b) => a - b),
+      bases: [...row.bases]
+    }))
+    .sort((a, b) => a.investorId.localeCompare(b.investorId));
+
+  return {
+    financialYear,
+    quarter,
+    section: taxSettings.tdsSection,
+    period: { from: range.start, to: range.end },
+    rows: reportRows,
+    totals: {
+      investors: reportRows.length,
+      payments: payments.length,
+      interestPaid: roundCurrency(reportRows.reduce((sum, row) => sum + row.interestPaid, 0)),
+      tdsWithheld: roundCurrency(reportRows.reduce((sum, row) => sum + row.tdsWithheld, 0)),
+      netPaid: roundCurrency(reportRows.reduce((sum, row) => sum + row.netPaid, 0))
+    }
+  };
+};
+
+const csvField = (value) => {
+  const text = String(value ?? '');
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const BASIS_LABELS = {
+  standard: 'Standard rate',
+  no_pan: 'No verified PAN',
+  exempt: 'Form 15G/15H',
+  below_threshold: 'Below threshold'
+};
+
+export const tdsReportFileName = (report) =>
+  `tds_${report.financialYear}${report.quarter ? `_Q${report.quarter}` : ''}.csv`;
+
+export const renderTdsReportCsv = (report) => {
+  const toDate = (date) => new Date(date).toISOString().split('T')[0];
+  const preamble = [
+    `TDS Report,${report.financialYear}${report.quarter ? ` Q${report.quarter}` : ''}`,
+    `Section,${report.section}`,
+    `Period,${toDate(report.period.from)} to ${toDate(report.period.to)}`
+  ].join('\n');
+
+  const header = 'Investor ID,Name,PAN,PAN Status,Payments,Interest Paid,TDS Rate (%),TDS Withheld,Net Paid,Basis,Exemption Form';
+  const rows = report.rows.map(row => [
+    row.investorId,
+    csvField(row.name),
+    row.panNumber || '',
+    row.panVerified ? 'Verified' : 'Not verified',
+    row.payments,
+    row.interestPaid,
+    row.rates.join('/'),
+    row.tdsWithheld,
+    row.netPaid,
+    csvField(row.bases.map(basis => BASIS_LABELS[basis]).join('; ')),
+    row.exemptionForm || ''
+  ].join(','));
+
+  const totals = `Total,,,,${report.totals.payments},${report.totals.interestPaid},,${report.totals.tdsWithheld},${report.totals.netPaid},,`;
+
+  return `${preamble}\n\n${header}\n${rows.join('\n')}\n${totals}\n`;
+};
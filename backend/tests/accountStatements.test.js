@@ -0,0 +1,116 @@
+// backend/tests/accountStatements.test.js - Investor account statements
+// The model queries are replaced by the investment and payments below. The investment is the
+// interest-only one from tests/fixtures/investments.js, closed on 16 April 2024 after three payouts.
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import Investment from '../models/Investment.js';
+import Investor from '../models/Investor.js';
+import Payment from '../models/Payment.js';
+import { buildAccountStatement } from '../services/accountStatements.js';
+import { calculatePrepayment } from '../utils/prepayment.js';
+import { interestOnlyPlan, investmentFor } from './fixtures/investments.js';
+
+const objectId = () => new mongoose.Types.ObjectId();
+const day = (date) => new Date(`${date}T00:00:00.000Z`);
+
+const investor = { _id: objectId(), investorId: 'INV000001', name: 'Rajesh Kumar', email: 'rajesh@example.com' };
+
+const closedInvestment = (penaltyPercentage) => {
+  const investment = {
+    ...investmentFor(interestOnlyPlan, { paidRows: 3 }),
+    _id: objectId(),
+    investmentId: 'IVT000001',
+    investor: investor._id,
+    investmentDate: day('2024-01-01'),
+    plan: { name: 'Monthly Income' }
+  };
+  const input = { foreclose: true, date: day('2024-04-16'), penaltyPercentage };
+  const settlement = calculatePrepayment(investment, input);
+  return { investment: { ...investment, schedule: settlement.schedule, status: 'closed' }, input, settlement };
+};
+
+const payout = (investment, fields) => ({
+  _id: objectId(),
+  investment: investment._id,
+  paymentMethod: 'bank_transfer',
+  interestAmount: 0,
+  principalAmount: 0,
+  penaltyAmount: 0,
+  bonusAmount: 0,
+  tdsAmount: 0,
+  reversalOf: null,
+  deductedFrom: null,
+  prepayment: null,
+  ...fields
+});
+
+// Three monthly payouts of 1500, then the closure settlement and its penalty, if any
+const paymentsFor = ({ investment, input, settlement }) => {
+  const payments = [1, 2, 3].map(month => payout(investment, {
+    paymentId: `PAY00000${month}`,
+    paymentDate: investment.schedule[month - 1].dueDate,
+    amount: 1500,
+    interestAmount: 1500
+  }));
+  const closure = payout(investment, {
+    paymentId: 'PAY000004',
+    paymentDate: settlement.settlementDate,
+    amount: settlement.principal + settlement.interest,
+    interestAmount: settlement.interest,
+    principalAmount: settlement.principal,
+    prepayment: input
+  });
+  payments.push(closure);
+  if (settlement.penalty > 0) {
+    payments.push(payout(investment, {
+      paymentId: 'PAY000005',
+      paymentDate: settlement.settlementDate,
+      amount: settlement.penalty,
+      penaltyAmount: settlement.penalty,
+      type: 'penalty',
+      deductedFrom: closure._id
+    }));
+  }
+  return payments;
+};
+
+const statementFor = async (closed) => {
+  const payments = paymentsFor(closed);
+  const query = { select: () => query, populate: () => query, sort: async () => [closed.investment] };
+  mock.method(Investor, 'findById', () => ({ select: async () => investor }));
+  mock.method(Investment, 'find', () => query);
+  mock.method(Payment, 'find', () => ({ select: () => ({ sort: async () => payments }) }));
+  return buildAccountStatement({ investorId: investor._id, from: day('2024-01-01'), to: day('2024-12-31') });
+};
+
+test('statements: a closure penalty is one debit and the settlement shows what was paid out', async () => {
+  const statement = await statementFor(closedInvestment(2));
+
+  const closing = statement.entries.slice(-2);
+  assert.deepEqual(closing.map(({ type, reference, credit, debit }) => ({ type, reference, credit, debit })), [
+    { type: 'payment', reference: 'PAY000004', credit: 0, debit: 98750 },
+    { type: 'closure_penalty', reference: 'PAY000005', credit: 0, debit: 2000 }
+  ]);
+  assert.match(closing[0].description, /\(penalty 2000 kept back\)$/);
+  assert.equal(closing[1].description, '2% of principal withdrawn, kept back from PAY000004');
+  assert.equal(statement.entries.filter(entry => entry.type === 'late_fee').length, 0);
+
+  assert.equal(statement.summary.lateFees, 0);
+  assert.equal(statement.summary.totalPaid, 103250);
+  assert.equal(statement.summary.principalRepaid, 100000);
+  assert.equal(statement.summary.interestPaid, 5250);
+  assert.equal(statement.summary.closingPrincipal, 0);
+  assert.equal(statement.summary.closingBalance, 0);
+  assert.equal(closing[1].balance, 0);
+});
+
+test('statements: a closure without a penalty is paid out in full', async () => {
+  const statement = await statementFor(closedInvestment(0));
+  const settlement = statement.entries.at(-1);
+  assert.equal(settlement.type, 'payment');
+  assert.equal(settlement.debit, 100750);
+  assert.doesNotMatch(settlement.description, /penalty/);
+  assert.equal(statement.summary.totalPaid, 105250);
+  assert.equal(statement.summary.closingBalance, 0);
+});
@@ -0,0 +1,123 @@
+// backend/tests/accountingExport.test.js - Tally XML vouchers and the journal CSV
+// Entries are plain objects shaped as loadExportEntries returns them, populated investor,
+// investment and payment included; the ledger names are the chart's defaults unless a test renames one.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ACCOUNTS, CHART_OF_ACCOUNTS } from '../utils/chartOfAccounts.js';
+import { renderJournalCsv, renderTallyXml } from '../services/accountingExport.js';
+
+const accountingSettings = (overrides = {}) => ({
+  tallyCompanyName: '',
+  ledgerNames: Object.fromEntries(CHART_OF_ACCOUNTS.map(account => [account.code, account.name])),
+  perInvestorLedgers: false,
+  investorLedgerGroup: 'Unsecured Loans',
+  ...overrides
+});
+
+const investor = { _id: 'investor-1', investorId: 'INV000001', name: 'Rajesh Kumar' };
+
+const investmentEntry = {
+  date: new Date('2024-01-01T00:00:00.000Z'),
+  entryNumber: 'JE00000001',
+  type: 'investment',
+  description: 'Investment IVT000001',
+  investor,
+  investment: { investmentId: 'IVT000001' },
+  lines: [
+    { account: ACCOUNTS.CASH, debit: 100000, credit: 0 },
+    { account: ACCOUNTS.INVESTOR_PRINCIPAL, debit: 0, credit: 100000 }
+  ]
+};
+
+// Month 1 interest with 10% TDS withheld
+const payoutEntry = {
+  date: new Date('2024-02-01T00:00:00.000Z'),
+  entryNumber: 'JE00000003',
+  type: 'payment',
+  description: 'Payment PAY000001 on IVT000001',
+  investor,
+  investment: { investmentId: 'IVT000001' },
+  payment: { paymentId: 'PAY000001', referenceNumber: 'UTR<123>&"A"' },
+  lines: [
+    { account: ACCOUNTS.INTEREST_PAYABLE, debit: 1500, credit: 0 },
+    { account: ACCOUNTS.TDS_PAYABLE, debit: 0, credit: 150 },
+    { account: ACCOUNTS.CASH, debit: 0, credit: 1350 }
+  ]
+};
+
+const ledgerEntries = (xml) => [...xml.matchAll(
+  /<ALLLEDGERENTRIES\.LIST>\n<LEDGERNAME>(.*)<\/LEDGERNAME>\n<ISDEEMEDPOSITIVE>(.*)<\/ISDEEMEDPOSITIVE>\n<AMOUNT>(.*)<\/AMOUNT>/g
+)].map(([, ledger, deemedPositive, amount]) => [ledger, deemedPositive, amount]);
+
+test('accountingExport: Tally debits are deemed positive with a negative amount, credits the other way round', () => {
+  const xml = renderTallyXml([payoutEntry], accountingSettings());
+  assert.deepEqual(ledgerEntries(xml), [
+    ['Interest Payable', 'Yes', '-1500.00'],
+    ['TDS Payable', 'No', '150.00'],
+    ['Cash / Bank', 'No', '1350.00']
+  ]);
+  assert.ok(xml.includes('<VOUCHER VCHTYPE="Payment" ACTION="Create">'));
+  assert.ok(xml.includes('<DATE>20240201</DATE>'));
+  assert.ok(xml.includes('<VOUCHERNUMBER>JE00000003</VOUCHERNUMBER>'));
+  assert.ok(!xml.includes('<STATICVARIABLES>'));
+});
+
+test('accountingExport: text in the Tally XML is escaped', () => {
+  const xml = renderTallyXml([payoutEntry], accountingSettings({
+    tallyCompanyName: 'Shah & Sons <Finance>',
+    ledgerNames: { ...accountingSettings().ledgerNames, [ACCOUNTS.CASH]: "HDFC Bank 'Current'" }
+  }));
+  assert.ok(xml.includes('<SVCURRENTCOMPANY>Shah &amp; Sons &lt;Finance&gt;</SVCURRENTCOMPANY>'));
+  assert.ok(xml.includes('<REFERENCE>UTR&lt;123&gt;&amp;&quot;A&quot;</REFERENCE>'));
+  assert.ok(xml.includes('<LEDGERNAME>HDFC Bank &apos;Current&apos;</LEDGERNAME>'));
+  assert.ok(xml.includes('<NARRATION>Payment PAY000001 on IVT000001 - Rajesh Kumar (INV000001) - Ref UTR&lt;123&gt;&amp;&quot;A&quot;</NARRATION>'));
+  assert.ok(!/UTR<|& /.test(xml));
+});
+
+test('accountingExport: per-investor ledgers are created once, ahead of the vouchers that post to them', () => {
+  const secondInvestment = { ...investmentEntry, entryNumber: 'JE00000002', date: new Date('2024-01-05T00:00:00.000Z') };
+  const settings = accountingSettings({ perInvestorLedgers: true, investorLedgerGroup: 'Deposits & Loans' });
+  const xml = renderTallyXml([investmentEntry, secondInvestment, payoutEntry], settings);
+
+  const ledgers = [...xml.matchAll(/<LEDGER NAME="(.*)" ACTION="Create">/g)].map(match => match[1]);
+  assert.deepEqual(ledgers, ['Rajesh Kumar (INV000001)']);
+  assert.ok(xml.includes('<PARENT>Deposits &amp; Loans</PARENT>'));
+  assert.ok(xml.indexOf('<LEDGER NAME=') < xml.indexOf('<VOUCHER '));
+  // Only the principal line moves to the investor's ledger
+  assert.deepEqual(ledgerEntries(xml).slice(0, 2), [
+    ['Cash / Bank', 'Yes', '-100000.00'],
+    ['Rajesh Kumar (INV000001)', 'No', '100000.00']
+  ]);
+
+  // Without the setting, no ledgers are created and principal goes to the shared ledger
+  const shared = renderTallyXml([investmentEntry], accountingSettings());
+  assert.ok(!shared.includes('<LEDGER '));
+  assert.deepEqual(ledgerEntries(shared)[1], ['Investor Principal', 'No', '100000.00']);
+});
+
+test('accountingExport: the journal CSV has one row per line, with fields holding commas or quotes quoted', () => {
+  const investorWithComma = { ...investor, name: 'Kumar, Rajesh "Raj"' };
+  const csv = renderJournalCsv([{ ...payoutEntry, investor: investorWithComma }], accountingSettings());
+  const [header, ...rows] = csv.trimEnd().split('\n');
+
+  assert.equal(header.split(',').length, 15);
+  assert.equal(rows.length, 3);
+  assert.ok(csv.endsWith('\n'));
+  assert.equal(
+    rows[0],
+    '2024-02-01,JE00000003,Payment,payment,2100,Interest Payable,Interest Payable,1500.00,,INV000001,"Kumar, Rajesh ""Raj""",IVT000001,PAY000001,"UTR<123>&""A""","Payment PAY000001 on IVT000001 - Kumar, Rajesh ""Raj"" (INV000001) - Ref UTR<123>&""A"""'
+  );
+  assert.ok(rows[1].startsWith('2024-02-01,JE00000003,Payment,payment,2200,TDS Payable,TDS Payable,,150.00,'));
+  assert.ok(rows[2].startsWith('2024-02-01,JE00000003,Payment,payment,1000,Cash / Bank,Cash / Bank,,1350.00,'));
+});
+
+test('accountingExport: the journal CSV uses the mapped and per-investor ledger names', () => {
+  const settings = accountingSettings({
+    perInvestorLedgers: true,
+    ledgerNames: { ...accountingSettings().ledgerNames, [ACCOUNTS.CASH]: 'HDFC Bank, Current A/c' }
+  });
+  const rows = renderJournalCsv([investmentEntry], settings).trimEnd().split('\n').slice(1);
+  assert.ok(rows[0].startsWith('2024-01-01,JE00000001,Receipt,investment,1000,Cash / Bank,"HDFC Bank, Current A/c",100000.00,,'));
+  assert.ok(rows[1].startsWith('2024-01-01,JE00000001,Receipt,investment,2000,Investor Principal,Rajesh Kumar (INV000001),,100000.00,'));
+  assert.equal(renderJournalCsv([], settings).split('\n').length, 3);
+});
@@ -0,0 +1,41 @@
+// backend/tests/amountInWords.test.js - Rupee amounts in words on receipts and interest certificates
+// Amounts are grouped the Indian way (thousand, lakh, crore), with paise rounded to the nearest one.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { amountInWords, numberToWords } from '../utils/amountInWords.js';
+
+test('amountInWords: whole numbers are grouped into thousands, lakhs and crores', () => {
+  assert.equal(numberToWords(15), 'Fifteen');
+  assert.equal(numberToWords(90), 'Ninety');
+  assert.equal(numberToWords(1005), 'One Thousand Five');
+  assert.equal(numberToWords(100000), 'One Lakh');
+  assert.equal(numberToWords(1250000), 'Twelve Lakh Fifty Thousand');
+  assert.equal(numberToWords(10000000), 'One Crore');
+  assert.equal(numberToWords(10000101), 'One Crore One Hundred One');
+  // Crores beyond ninety nine are themselves grouped
+  assert.equal(
+    numberToWords(1234567890),
+    'One Hundred Twenty Three Crore Forty Five Lakh Sixty Seven Thousand Eight Hundred Ninety'
+  );
+});
+
+test('amountInWords: paise follow the rupees and are left out when there are none', () => {
+  assert.equal(amountInWords(125000.5), 'Rupees One Lakh Twenty Five Thousand and Fifty Paise Only');
+  assert.equal(amountInWords(1350), 'Rupees One Thousand Three Hundred Fifty Only');
+  assert.equal(amountInWords(0.07), 'Rupees Zero and Seven Paise Only');
+  // Rounded to the paisa, so a fraction of a paisa can carry into the rupees
+  assert.equal(amountInWords(1.999), 'Rupees Two Only');
+});
+
+test('amountInWords: zero is spelt out', () => {
+  assert.equal(numberToWords(0), 'Zero');
+  assert.equal(amountInWords(0), 'Rupees Zero Only');
+});
+
+test('amountInWords: an amount just under one crore stays in lakhs', () => {
+  assert.equal(
+    amountInWords(9999999.99),
+    'Rupees Ninety Nine Lakh Ninety Nine Thousand Nine Hundred Ninety Nine and Ninety Nine Paise Only'
+  );
+  assert.equal(amountInWords(10000000.01), 'Rupees One Crore and One Paise Only');
+});
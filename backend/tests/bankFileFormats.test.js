@@ -0,0 +1,141 @@
+// backend/tests/bankFileFormats.test.js - NEFT/RTGS bulk-payment upload files
+// Pins each bank layout column by column, since a shifted or overlong field gets the whole
+// file rejected at upload, along with the row checks run before a file is generated.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  BANK_FILE_FORMATS,
+  RTGS_MINIMUM,
+  buildBankFile,
+  resolveTransferMode,
+  validatePayoutRow
+} from '../utils/bankFileFormats.js';
+import { IDENTITY_MESSAGES } from '../../shared/identityValidation.js';
+
+const row = (fields = {}) => ({
+  reference: 'PX2407000001',
+  beneficiaryName: 'Rajesh Kumar',
+  accountNumber: '50100012345678',
+  ifscCode: 'HDFC0001234',
+  bankName: 'HDFC Bank',
+  amount: 1350,
+  transferMode: 'NEFT',
+  investorId: 'INV000001',
+  investmentId: 'IVT000001',
+  scheduleMonth: 3,
+  narration: 'Interest payout month 3',
+  ...fields
+});
+
+const context = { paymentDate: new Date('2024-07-05T00:00:00.000Z'), debitAccount: '000405001234' };
+
+const fileLines = (format, rows) => buildBankFile(format, rows, context).split('\r\n');
+
+test('bank files: generic CSV has a header row and one CRLF-terminated line per payout', () => {
+  const file = buildBankFile('generic_csv', [row(), row({ reference: 'PX2407000002', amount: 250000.5, transferMode: 'RTGS' })], context);
+  assert.ok(file.endsWith('\r\n'));
+  assert.deepEqual(file.split('\r\n'), [
+    'Reference,Beneficiary Name,Account Number,IFSC Code,Bank Name,Amount,Transfer Mode,Payment Date,Investor ID,Investment ID,Narration',
+    'PX2407000001,Rajesh Kumar,50100012345678,HDFC0001234,HDFC Bank,1350.00,NEFT,05/07/2024,INV000001,IVT000001,Interest payout month 3',
+    'PX2407000002,Rajesh Kumar,50100012345678,HDFC0001234,HDFC Bank,250000.50,RTGS,05/07/2024,INV000001,IVT000001,Interest payout month 3',
+    ''
+  ]);
+});
+
+test('bank files: HDFC ENet has no header, 28 positions and single-letter transfer types', () => {
+  const [line, end] = fileLines('hdfc_enet', [row()]);
+  assert.equal(end, '');
+  const fields = line.split(',');
+  assert.equal(fields.length, 28);
+  assert.deepEqual(fields.slice(0, 5), ['N', 'INV000001', '50100012345678', '1350.00', 'Rajesh Kumar']);
+  assert.deepEqual(fields.slice(13, 15), ['PX2407000001', 'Interest payout month 3']);
+  assert.deepEqual(fields.slice(22, 26), ['05/07/2024', '', 'HDFC0001234', 'HDFC Bank']);
+  assert.deepEqual([...fields.slice(5, 13), ...fields.slice(15, 22), fields[23], ...fields.slice(26)], Array(18).fill(''));
+
+  const modes = ['NEFT', 'RTGS', 'IMPS'].map(transferMode => fileLines('hdfc_enet', [row({ transferMode })])[0][0]);
+  assert.deepEqual(modes, ['N', 'R', 'I']);
+});
+
+test('bank files: ICICI CIB carries the debit account and its own mode and date codes', () => {
+  const [header, line] = fileLines('icici_cib', [row({ transferMode: 'IMPS' })]);
+  assert.equal(header.split(',').length, 21);
+  assert.deepEqual(line.split(','), [
+    '000405001234', '50100012345678', 'Rajesh Kumar', '1350.00', 'M', '05-07-2024', 'HDFC0001234',
+    '', '', '', '', '', '', '', '',
+    'PX2407000001', 'IVT000001', '', '', '',
+    'Interest payout month 3'
+  ]);
+  assert.equal(buildBankFile('icici_cib', [row()], { paymentDate: context.paymentDate }).split('\r\n')[1].split(',')[0], '');
+});
+
+test('bank files: SBI CMP is pipe delimited with no header', () => {
+  assert.deepEqual(fileLines('sbi_cmp', [row()]), [
+    'PX2407000001|NEFT|50100012345678|HDFC0001234|Rajesh Kumar|1350.00|05/07/2024|Interest payout month 3',
+    ''
+  ]);
+});
+
+test('bank files: amounts always carry two decimals and dates are zero-padded', () => {
+  const [, line] = fileLines('generic_csv', [row({ amount: 1234.5678 })]);
+  assert.equal(line.split(',')[5], '1234.57');
+  assert.equal(fileLines('sbi_cmp', [row({ amount: 7 })])[0].split('|')[5], '7.00');
+  const january = buildBankFile('sbi_cmp', [row()], { paymentDate: new Date('2025-01-09T00:00:00.000Z') });
+  assert.equal(january.split('|')[6], '09/01/2025');
+});
+
+test('bank files: names and narrations lose punctuation and are cut to each bank\'s field length', () => {
+  const long = row({
+    beneficiaryName: "Venkata Subramanian O'Brien & Sons (HUF) Private Family Trust",
+    narration: 'Interest payout, month 3; investment IVT000001 (quarterly)',
+    reference: 'PX2407000001-RETRY-0002',
+    investorId: 'INV-2024-000001'
+  });
+
+  const generic = fileLines('generic_csv', [long])[1].split(',');
+  assert.equal(generic[1], 'Venkata Subramanian O Brien Sons HUF Private Family Trust');
+  assert.equal(generic[10], 'Interest payout month 3 investment IVT000001 quarterly');
+
+  const hdfc = fileLines('hdfc_enet', [long])[0].split(',');
+  assert.equal(hdfc[1], 'INV-2024-0000');
+  assert.equal(hdfc[4], 'Venkata Subramanian O Brien Sons HUF Pri');
+  assert.equal(hdfc[4].length, 40);
+  assert.equal(hdfc[13], 'PX2407000001-RETRY-0');
+  assert.equal(hdfc[14], 'Interest payout month 3 invest');
+
+  const icici = fileLines('icici_cib', [long])[1].split(',');
+  assert.equal(icici[2], 'Venkata Subramanian O Brien Sons');
+  assert.equal(icici[2].length, 32);
+
+  const sbi = fileLines('sbi_cmp', [long])[0].split('|');
+  assert.equal(sbi[0], 'PX2407000001-RET');
+  assert.equal(sbi[4], 'Venkata Subramanian O Brien Sons HU');
+  assert.equal(sbi[7].length, 30);
+});
+
+test('bank files: a value holding the delimiter or a quote is quoted', () => {
+  const [, line] = fileLines('generic_csv', [row({ bankName: 'Bank of "India", Fort' })]);
+  assert.ok(line.includes(',"Bank of ""India"", Fort",'));
+  assert.throws(() => buildBankFile('axis_bulk', [row()], context), /Unknown bank file format: axis_bulk/);
+  assert.deepEqual(Object.keys(BANK_FILE_FORMATS), ['generic_csv', 'hdfc_enet', 'icici_cib', 'sbi_cmp']);
+});
+
+test('bank files: transfer mode follows the request, else RTGS from the RBI minimum', () => {
+  assert.equal(resolveTransferMode(RTGS_MINIMUM - 1), 'NEFT');
+  assert.equal(resolveTransferMode(RTGS_MINIMUM), 'RTGS');
+  assert.equal(resolveTransferMode(500, 'IMPS'), 'IMPS');
+  assert.equal(resolveTransferMode(500, 'cheque'), 'NEFT');
+});
+
+test('bank files: rows the bank would reject are reported with the reason', () => {
+  assert.deepEqual(validatePayoutRow(row()), []);
+  assert.deepEqual(validatePayoutRow(row({ accountNumber: '1234-5678' })), [IDENTITY_MESSAGES.accountFormat]);
+  assert.deepEqual(validatePayoutRow(row({ accountNumber: '12345678' })), [IDENTITY_MESSAGES.accountFormat]);
+  assert.deepEqual(validatePayoutRow(row({ accountNumber: '' })), [IDENTITY_MESSAGES.accountRequired]);
+  assert.deepEqual(validatePayoutRow(row({ ifscCode: 'HDFC1001234' })), [IDENTITY_MESSAGES.ifscFormat]);
+  assert.deepEqual(validatePayoutRow(row({ ifscCode: 'hdfc0001234' })), [IDENTITY_MESSAGES.ifscFormat]);
+  assert.deepEqual(validatePayoutRow(row({ ifscCode: undefined })), [IDENTITY_MESSAGES.ifscRequired]);
+  assert.deepEqual(validatePayoutRow(row({ beneficiaryName: '&&' })), ['Beneficiary name is missing']);
+  assert.deepEqual(validatePayoutRow(row({ amount: 0 })), ['Amount must be positive']);
+  assert.deepEqual(validatePayoutRow(row({ transferMode: 'RTGS', amount: 150000 })), [`RTGS needs at least ${RTGS_MINIMUM}`]);
+  assert.equal(validatePayoutRow(row({ accountNumber: 'x', ifscCode: 'y', amount: -1 })).length, 3);
+});
@@ -0,0 +1,51 @@
+// backend/tests/cron.test.js - Cron expressions used to schedule background jobs
+// Times are local, as the job runner evaluates them (utils/cron.js). 1 January 2026 is a Thursday.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isValidCron, nextCronRun, parseCron } from '../utils/cron.js';
+
+const at = (month, day, hour, minute = 0) => new Date(2026, month - 1, day, hour, minute);
+
+const values = (set) => [...set].sort((a, b) => a - b);
+
+test('cron: steps, ranges and lists expand to the matching values', () => {
+  const cron = parseCron('*/15 9-17 1,15 * 1-5');
+  assert.deepEqual(values(cron.minute), [0, 15, 30, 45]);
+  assert.deepEqual(values(cron.hour), [9, 10, 11, 12, 13, 14, 15, 16, 17]);
+  assert.deepEqual(values(cron.day), [1, 15]);
+  assert.equal(cron.month.size, 12);
+  assert.deepEqual(values(cron.weekday), [1, 2, 3, 4, 5]);
+  assert.equal(cron.anyDay, true);
+
+  assert.deepEqual(values(parseCron('0-30/10 * * * *').minute), [0, 10, 20, 30]);
+  // A stepped single value runs from it to the end of the field
+  assert.deepEqual(values(parseCron('5/20 * * * *').minute), [5, 25, 45]);
+  assert.equal(parseCron('0 2 * * *').anyDay, false);
+});
+
+test('cron: malformed expressions are rejected', () => {
+  ['60 * * * *', '* 24 * * *', '* * 0 * *', '* * * 13 *', '* * * * 7', '*/0 * * * *', '5-1 * * * *', 'x * * * *', '* * * *', ''].forEach(expression => {
+    assert.equal(isValidCron(expression), false, expression);
+  });
+  assert.throws(() => parseCron('* * * *'), /must have 5 fields/);
+  assert.throws(() => parseCron('61 * * * *'), /Invalid cron minute field: 61/);
+});
+
+test('cron: the next run is strictly after the given time', () => {
+  assert.deepEqual(nextCronRun('30 0 * * *', at(1, 1, 0, 29)), at(1, 1, 0, 30));
+  assert.deepEqual(nextCronRun('30 0 * * *', at(1, 1, 0, 30)), at(1, 2, 0, 30));
+  assert.deepEqual(nextCronRun('*/5 * * * *', new Date(2026, 0, 1, 10, 7, 42)), at(1, 1, 10, 10));
+});
+
+test('cron: weekdays, month changes and either day field', () => {
+  // Friday morning, next weekday run is Monday
+  assert.deepEqual(nextCronRun('0 9 * * 1-5', at(1, 2, 10)), at(1, 5, 9));
+  assert.deepEqual(nextCronRun('0 0 1 3 *', at(1, 10, 12)), at(3, 1, 0));
+  // With both day fields restricted the Monday comes before the 15th
+  assert.deepEqual(nextCronRun('0 6 15 * 1', at(1, 1, 0)), at(1, 5, 6));
+  assert.deepEqual(nextCronRun('0 6 15 * *', at(1, 1, 0)), at(1, 15, 6));
+});
+
+test('cron: an expression that can never match fails instead of looping', () => {
+  assert.throws(() => nextCronRun('0 0 31 2 *', at(1, 1, 0)), /never matches/);
+});
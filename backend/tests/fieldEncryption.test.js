@@ -0,0 +1,114 @@
+// backend/tests/fieldEncryption.test.js - Sealing, key rotation and blind indexes for sensitive fields
+// The keyring is read on first use, so the keys are set here before anything is sealed. "old" stands
+// for a retired key still in the ring; values under it are sealed by hand as they were before rotation.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import {
+  blindIndex,
+  decryptField,
+  encryptField,
+  encryptedString,
+  isSealed,
+  needsResealing
+} from '../utils/fieldEncryption.js';
+
+const activeKey = crypto.randomBytes(32);
+const retiredKey = crypto.randomBytes(32);
+process.env.FIELD_ENCRYPTION_KEYS = `current:${activeKey.toString('base64')},old:${retiredKey.toString('base64')}`;
+process.env.FIELD_HASH_KEY = 'test-hash-key';
+
+const sealUnder = (keyId, key, plain) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+  return ['enc', keyId, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':');
+};
+
+test('fieldEncryption: a value round-trips under the active key and never appears in the sealed form', () => {
+  const sealed = encryptField('ABCPE1234F');
+  assert.match(sealed, /^enc:current:/);
+  assert.ok(!sealed.includes('ABCPE1234F'));
+  assert.equal(decryptField(sealed), 'ABCPE1234F');
+  // A fresh IV each time
+  assert.notEqual(encryptField('ABCPE1234F'), sealed);
+});
+
+test('fieldEncryption: empty values are left alone and plain values stored before encryption read as they are', () => {
+  assert.equal(encryptField(undefined), undefined);
+  assert.equal(encryptField(null), null);
+  assert.equal(encryptField(''), '');
+  assert.equal(decryptField('123456789012'), '123456789012');
+  assert.equal(decryptField(undefined), undefined);
+});
+
+test('fieldEncryption: a value sealed under a retired key still opens and is marked for re-sealing', () => {
+  const sealed = sealUnder('old', retiredKey, '499618123455');
+  assert.equal(decryptField(sealed), '499618123455');
+  assert.equal(needsResealing(sealed), true);
+  assert.equal(needsResealing('499618123455'), true);
+
+  const resealed = encryptField(decryptField(sealed));
+  assert.match(resealed, /^enc:current:/);
+  assert.equal(needsResealing(resealed), false);
+  assert.equal(needsResealing(''), false);
+});
+
+test('fieldEncryption: a value under a key dropped from the ring cannot be opened', () => {
+  const sealed = sealUnder('gone', crypto.randomBytes(32), '50100012345678');
+  assert.throws(() => decryptField(sealed), /"gone" is not in FIELD_ENCRYPTION_KEYS/);
+});
+
+// Change the first ciphertext character, which the authentication tag then fails
+const tamper = (sealed) => {
+  const parts = sealed.split(':');
+  parts[4] = `${parts[4][0] === 'A' ? 'B' : 'A'}${parts[4].slice(1)}`;
+  return parts.join(':');
+};
+
+test('fieldEncryption: stored values pass through, but a client-supplied "enc:" string is sealed like any other', () => {
+  const sealed = encryptField('ABCPE1234F');
+  assert.equal(encryptField(sealed), sealed);
+  assert.equal(isSealed(sealed), true);
+
+  const retired = sealUnder('old', retiredKey, 'ABCPE1234F');
+  assert.equal(encryptField(retired), retired);
+
+  const forged = [
+    'enc:plain-text',
+    'enc:current:AAAA:BBBB:CCCC',
+    sealUnder('current', crypto.randomBytes(32), 'ABCPE1234F'),
+    tamper(sealed)
+  ];
+  forged.forEach(value => {
+    assert.equal(isSealed(value), false, value);
+    const stored = encryptField(value);
+    assert.notEqual(stored, value);
+    assert.equal(decryptField(stored), value);
+  });
+});
+
+test('fieldEncryption: schema paths refuse a plain value that is itself an encrypted string', () => {
+  const path = encryptedString({ pattern: /^\d{12}$/, message: 'Aadhaar must be 12 digits' });
+  const [notSealedByClient, format] = path.validate;
+
+  assert.equal(notSealedByClient.validator(path.set('499618123455')), true);
+  assert.equal(format.validator(path.set('499618123455')), true);
+  assert.equal(notSealedByClient.validator(path.set('enc:current:AAAA:BBBB:CCCC')), false);
+  assert.equal(format.validator(path.set('4996 1812')), false);
+  assert.equal(path.get(path.set('499618123455')), '499618123455');
+
+  const normalized = encryptedString({ normalize: value => value.toUpperCase() });
+  assert.equal(normalized.get(normalized.set('abcpe1234f')), 'ABCPE1234F');
+  assert.equal(normalized.validate.length, 1);
+});
+
+test('fieldEncryption: the blind index is stable, ignores case and spacing, and differs between values', () => {
+  const index = blindIndex('ABCPE1234F');
+  assert.match(index, /^[0-9a-f]{64}$/);
+  assert.equal(blindIndex('ABCPE1234F'), index);
+  assert.equal(blindIndex('abcpe 1234f'), index);
+  assert.notEqual(blindIndex('ABCPE1234G'), index);
+  assert.equal(blindIndex(''), undefined);
+  assert.equal(blindIndex(null), undefined);
+});
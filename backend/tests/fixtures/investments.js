@@ -0,0 +1,48 @@
+// backend/tests/fixtures/investments.js - Live investments built from a plan for the schedule tests
+// The schedule comes from the engine, so any row a test leaves alone is exactly what a new
+// investment on that plan would have been given.
+import { buildSchedule, resolvePayoutTerms } from '../../../shared/scheduleEngine.js';
+
+// 1.5% a month flat on the principal, paid monthly with the principal at maturity
+export const interestOnlyPlan = {
+  interestRate: 1.5,
+  rateBasis: 'monthly',
+  interestType: 'flat',
+  tenure: 12,
+  paymentType: 'interest',
+  interestPayment: { dateOfInvestment: '2024-01-01', interestFrequency: 'monthly', principalRepaymentOption: 'fixed' }
+};
+
+// 1.5% a month on the reducing balance, with the principal repaid in equal monthly parts
+export const amortisingPlan = {
+  interestRate: 1.5,
+  rateBasis: 'monthly',
+  interestType: 'reducing',
+  tenure: 12,
+  paymentType: 'interestWithPrincipal',
+  interestWithPrincipalPayment: { dateOfInvestment: '2024-01-01', paymentFrequency: 'monthly', principalRepaymentPercentage: 100 }
+};
+
+// Invested on 1 January 2024 under the monthly convention, with the first paidRows payouts paid in full
+export const investmentFor = (plan, { principalAmount = 100000, paidRows = 0 } = {}) => {
+  const investmentDate = '2024-01-01T00:00:00.000Z';
+  const schedule = buildSchedule(plan, principalAmount, investmentDate, 'monthly');
+  schedule.slice(0, paidRows).forEach(row => {
+    row.status = 'paid';
+    row.paidAmount = row.totalAmount;
+    row.paidDate = row.dueDate;
+  });
+  const totalInterestExpected = schedule.reduce((sum, row) => sum + row.interestAmount, 0);
+  return {
+    ...plan,
+    status: 'active',
+    principalAmount,
+    investmentDate,
+    maturityDate: new Date('2025-01-01T00:00:00.000Z'),
+    dayCountConvention: 'monthly',
+    payoutTerms: resolvePayoutTerms(plan),
+    totalInterestExpected,
+    totalExpectedReturns: principalAmount + totalInterestExpected,
+    schedule
+  };
+};
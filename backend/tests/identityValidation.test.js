@@ -0,0 +1,70 @@
+// backend/tests/identityValidation.test.js - PAN, Aadhaar, IFSC, account and pincode checks
+// The module is shared with the investor form, so these also pin the messages the form shows.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  IDENTITY_MESSAGES,
+  aadhaarError,
+  bankAccountError,
+  ifscError,
+  isVerhoeffValid,
+  lookupIfsc,
+  panError,
+  pincodeError,
+  stateForPincode
+} from '../../shared/identityValidation.js';
+
+test('identity: Verhoeff accepts the right check digit and catches a changed or swapped digit', () => {
+  // 236 takes the check digit 3
+  assert.equal(isVerhoeffValid('2363'), true);
+  assert.equal(isVerhoeffValid('2364'), false);
+  assert.equal(isVerhoeffValid('234123412346'), true);
+  assert.equal(isVerhoeffValid('234123412364'), false);
+  assert.equal(isVerhoeffValid('243123412346'), false);
+});
+
+test('identity: Aadhaar must be 12 digits, not start with 0 or 1, and pass Verhoeff', () => {
+  assert.equal(aadhaarError('499618123455'), null);
+  assert.equal(aadhaarError(''), IDENTITY_MESSAGES.aadhaarRequired);
+  assert.equal(aadhaarError('4996 1812 3455'), IDENTITY_MESSAGES.aadhaarFormat);
+  assert.equal(aadhaarError('123412341234'), IDENTITY_MESSAGES.aadhaarLeadingDigit);
+  assert.equal(aadhaarError('499618123456'), IDENTITY_MESSAGES.aadhaarChecksum);
+});
+
+test('identity: PAN holder type and name initial', () => {
+  assert.equal(panError('ABCPE1234F'), null);
+  assert.equal(panError('abcpe1234f'), IDENTITY_MESSAGES.panFormat);
+  assert.equal(panError('ABCXE1234F'), IDENTITY_MESSAGES.panHolderType);
+  // Individuals may write the surname first or last
+  assert.equal(panError('ABCPE1234F', 'Ravi Eshwar'), null);
+  assert.equal(panError('ABCPE1234F', 'Eshwar Ravi'), null);
+  assert.equal(panError('ABCPE1234F', 'Dr. Ravi Kumar'), IDENTITY_MESSAGES.panNameInitial);
+  // Other holders use the first word of the name, titles aside
+  assert.equal(panError('AAACT1234F', 'The Tata Trading Company'), null);
+  assert.equal(panError('AAACT1234F', 'Reliance Retail'), IDENTITY_MESSAGES.panNameInitial);
+});
+
+test('identity: IFSC format, and the bank name from its bank code only', () => {
+  assert.equal(ifscError('HDFC0001234'), null);
+  assert.equal(ifscError('HDFC1001234'), IDENTITY_MESSAGES.ifscFormat);
+  assert.equal(ifscError(''), IDENTITY_MESSAGES.ifscRequired);
+
+  assert.deepEqual(lookupIfsc('SBIN0005943'), { bankCode: 'SBIN', bankName: 'State Bank of India', branchCode: '005943' });
+  // A well-formed code from a bank missing from the offline list is still valid
+  assert.equal(lookupIfsc('ZZZZ0001234'), null);
+  assert.equal(ifscError('ZZZZ0001234'), null);
+  assert.equal(lookupIfsc('SBIN5943'), null);
+});
+
+test('identity: bank account numbers and pincodes', () => {
+  assert.equal(bankAccountError('50100123456789'), null);
+  assert.equal(bankAccountError('12345678'), IDENTITY_MESSAGES.accountFormat);
+  assert.equal(pincodeError(''), null);
+  assert.equal(pincodeError('012345'), IDENTITY_MESSAGES.pincodeFormat);
+
+  assert.equal(stateForPincode('400001'), 'Maharashtra');
+  // Three-digit prefixes carve territories out of a circle
+  assert.equal(stateForPincode('403001'), 'Goa');
+  assert.equal(stateForPincode('744101'), 'Andaman and Nicobar Islands');
+  assert.equal(stateForPincode('990001'), null);
+});
@@ -0,0 +1,143 @@
+// backend/tests/jobRunner.test.js - Scheduling tests for the background job runner
+// The runner is driven by a fake clock whose timers only fire when the test moves time
+// forward, and runs are kept in memory instead of the JobRun collection. Times are local,
+// as cron expressions are (utils/cron.js).
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JobRunner } from '../services/jobRunner.js';
+
+const fakeClock = (start) => {
+  let now = new Date(start);
+  let timers = [];
+
+  return {
+    now: () => new Date(now),
+    setTimeout: (callback, delay) => {
+      const timer = { callback, at: now.getTime() + delay };
+      timers.push(timer);
+      return timer;
+    },
+    clearTimeout: (timer) => {
+      timers = timers.filter(item => item !== timer);
+    },
+    pendingTimers: () => timers.length,
+    // Move time forward, firing the timers that fall due on the way in order
+    async advanceTo(target) {
+      for (;;) {
+        timers.sort((a, b) => a.at - b.at);
+        const next = timers[0];
+        if (!next || next.at > target.getTime()) break;
+        timers.shift();
+        now = new Date(next.at);
+        await next.callback();
+      }
+      now = new Date(target);
+    }
+  };
+};
+
+const memoryStore = () => {
+  const runs = [];
+  return {
+    runs,
+    create: async (fields) => {
+      const run = { ...fields, save: async () => {} };
+      runs.push(run);
+      return run;
+    }
+  };
+};
+
+const setup = (start) => {
+  const clock = fakeClock(start);
+  const store = memoryStore();
+  return { clock, store, runner: new JobRunner({ clock, store }) };
+};
+
+const at = (day, hour, minute = 0) => new Date(2026, 0, day, hour, minute);
+
+test('a due job fires at its scheduled time and again at the next one', async () => {
+  const { clock, store, runner } = setup(at(1, 0));
+  runner.register('sweep', { schedule: '30 0 * * *', handler: async ({ now }) => ({ ranAt: now }) });
+  runner.start();
+
+  await clock.advanceTo(at(1, 0, 29));
+  assert.equal(store.runs.length, 0);
+
+  await clock.advanceTo(at(3, 12));
+  assert.deepEqual(store.runs.map(run => run.startedAt), [at(1, 0, 30), at(2, 0, 30), at(3, 0, 30)]);
+  assert.ok(store.runs.every(run => run.trigger === 'schedule' && run.status === 'succeeded'));
+  assert.deepEqual(store.runs[0].summary, { ranAt: at(1, 0, 30) });
+  assert.deepEqual(runner.list()[0].nextRunAt, at(4, 0, 30));
+  runner.stop();
+});
+
+test('a run far ahead is reached through hourly timers without firing early or twice', async () => {
+  const { clock, store, runner } = setup(at(1, 0));
+  runner.register('statements', { schedule: '0 6 * * *', handler: async () => ({}) });
+  runner.start();
+
+  await clock.advanceTo(at(1, 5, 59));
+  assert.equal(store.runs.length, 0);
+
+  await clock.advanceTo(at(1, 23, 59));
+  assert.deepEqual(store.runs.map(run => run.startedAt), [at(1, 6)]);
+  runner.stop();
+});
+
+test('a scheduled tick is skipped while the job is still running', async () => {
+  const { clock, store, runner } = setup(at(1, 0));
+  // The first run holds until the test finishes it; later runs return at once
+  let finish = null;
+  runner.register('export', {
+    schedule: '*/5 * * * *',
+    handler: () => (finish ? Promise.resolve({}) : new Promise(resolve => { finish = resolve; }))
+  });
+  runner.start();
+
+  const manual = runner.run('export');
+  assert.ok(runner.isRunning('export'));
+  await assert.rejects(runner.run('export'), /already running/);
+
+  await clock.advanceTo(at(1, 0, 7));
+  finish({ rows: 1 });
+  await manual;
+
+  assert.equal(store.runs.length, 1);
+  assert.equal(store.runs[0].trigger, 'manual');
+  assert.deepEqual(runner.list()[0].nextRunAt, at(1, 0, 10));
+
+  await clock.advanceTo(at(1, 0, 10));
+  assert.deepEqual(store.runs.map(run => run.trigger), ['manual', 'schedule']);
+  runner.stop();
+});
+
+test('a failed run is recorded and the job stays scheduled', async () => {
+  const { clock, store, runner } = setup(at(1, 0));
+  runner.register('reminders', {
+    schedule: '0 * * * *',
+    handler: async () => {
+      throw new Error('mail server down');
+    }
+  });
+  runner.start();
+
+  await clock.advanceTo(at(1, 2, 30));
+  assert.deepEqual(store.runs.map(run => [run.status, run.error]), [
+    ['failed', 'mail server down'],
+    ['failed', 'mail server down']
+  ]);
+  assert.equal(runner.isRunning('reminders'), false);
+  runner.stop();
+});
+
+test('nothing fires once the runner is stopped', async () => {
+  const { clock, store, runner } = setup(at(1, 0));
+  runner.register('sweep', { schedule: '30 0 * * *', handler: async () => ({}) });
+  runner.start();
+  runner.stop();
+
+  assert.equal(clock.pendingTimers(), 0);
+  await clock.advanceTo(at(3, 0));
+  assert.equal(store.runs.length, 0);
+});
@@ -0,0 +1,74 @@
+// backend/tests/lateFees.test.js - Late fee accrual on unpaid schedule rows
+// Covers the policy fallback, the grace period, the per-month (or part month) fee and
+// Investment.accrueLateFees totalling what is still owed once paid and waived fees are netted.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import Investment from '../models/Investment.js';
+import { accruedLateFee, resolveLateFeePolicy, summarizeLateFee } from '../utils/lateFees.js';
+
+const day = (date) => new Date(`${date}T00:00:00.000Z`);
+
+const row = (fields = {}) => ({
+  month: 1,
+  dueDate: day('2026-01-01'),
+  interestAmount: 1500,
+  principalAmount: 0,
+  totalAmount: 1500,
+  remainingPrincipal: 100000,
+  status: 'overdue',
+  paidAmount: 0,
+  ...fields
+});
+
+const percentage = { type: 'percentage', rate: 2, gracePeriodDays: 7 };
+
+test('late fees: the plan override wins, otherwise the company default percentage applies', () => {
+  const financial = { defaultLateFee: 2, gracePeriodDays: 5 };
+  assert.deepEqual(resolveLateFeePolicy({ lateFeeRate: null }, financial), { type: 'percentage', rate: 2, gracePeriodDays: 5 });
+  assert.deepEqual(resolveLateFeePolicy({ lateFeeType: 'flat', lateFeeRate: 100 }, financial), { type: 'flat', rate: 100, gracePeriodDays: 5 });
+  // A zero override switches the fee off rather than falling back to the default
+  assert.equal(resolveLateFeePolicy({ lateFeeRate: 0 }, financial).rate, 0);
+  assert.deepEqual(resolveLateFeePolicy(), { type: 'percentage', rate: 0, gracePeriodDays: 0 });
+});
+
+test('late fees: nothing accrues within the grace period, then a fee per month or part month', () => {
+  assert.equal(accruedLateFee(row(), percentage, day('2026-01-08')), 0);
+  assert.equal(accruedLateFee(row(), percentage, day('2026-01-09')), 30);
+  assert.equal(accruedLateFee(row(), percentage, day('2026-01-31')), 30);
+  assert.equal(accruedLateFee(row(), percentage, day('2026-02-05')), 60);
+  assert.equal(accruedLateFee(row(), { type: 'flat', rate: 250, gracePeriodDays: 7 }, day('2026-02-05')), 500);
+  assert.equal(accruedLateFee(row(), { ...percentage, rate: 0 }, day('2026-03-01')), 0);
+});
+
+test('late fees: a partial payment lowers the base but never the fee already charged', () => {
+  const partial = row({ status: 'partial', paidAmount: 1000, penaltyAccrued: 30 });
+  // 2% of the 500 still due for two months is 20, below the 30 already accrued
+  assert.equal(accruedLateFee(partial, percentage, day('2026-02-05')), 30);
+  // Four months late on 500 is 40
+  assert.equal(accruedLateFee(partial, percentage, day('2026-04-15')), 40);
+  // A settled row keeps what it accrued
+  assert.equal(accruedLateFee(row({ status: 'paid', paidAmount: 1500, penaltyAccrued: 60 }), percentage, day('2026-06-01')), 60);
+});
+
+test('late fees: the summary nets paid and waived fees', () => {
+  const summary = summarizeLateFee(row({ penaltyAccrued: 60, penaltyPaid: 20, penaltyWaived: 10 }), percentage, day('2026-02-05'));
+  assert.deepEqual(
+    { daysLate: summary.daysLate, accrued: summary.accrued, outstanding: summary.outstanding },
+    { daysLate: 35, accrued: 60, outstanding: 30 }
+  );
+});
+
+test('late fees: Investment.accrueLateFees stores each row fee and returns what is still owed', () => {
+  const investment = new Investment({
+    schedule: [
+      row({ month: 1, dueDate: day('2026-01-01'), penaltyPaid: 30 }),
+      row({ month: 2, dueDate: day('2026-02-01'), penaltyWaived: 10 }),
+      row({ month: 3, dueDate: day('2026-03-01'), status: 'pending' })
+    ]
+  });
+
+  const outstanding = investment.accrueLateFees(percentage, day('2026-03-05'));
+
+  assert.deepEqual(investment.schedule.map(item => item.penaltyAccrued), [90, 60, 0]);
+  assert.equal(outstanding, 60 + 50);
+});
@@ -0,0 +1,197 @@
+// backend/tests/ledger.test.js - Double-entry postings behind investments and payments
+// The journal is kept in memory: JournalEntry's queries are replaced by an array of entries,
+// and each entry is still validated against the model, so an unbalanced posting fails here
+// as it would against the database.
+import { beforeEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import JournalEntry from '../models/JournalEntry.js';
+import { ACCOUNTS } from '../utils/chartOfAccounts.js';
+import { getTrialBalance, postEntry, postInvestment, postPayment, reversePayment } from '../services/ledger.js';
+
+let journal = [];
+
+const withSession = (result) => ({ session: () => Promise.resolve(result) });
+
+mock.method(JournalEntry, 'findOne', (filter) => withSession(journal.find(entry => entry.sourceKey === filter.sourceKey) || null));
+mock.method(JournalEntry, 'find', (filter) => withSession(journal.filter(entry =>
+  String(entry.investment) === String(filter.investment) && entry.type === filter.type)));
+mock.method(JournalEntry, 'create', async (docs) => docs.map(doc => {
+  const entry = new JournalEntry({ ...doc, entryNumber: `JE${String(journal.length + 1).padStart(8, '0')}` });
+  const error = entry.validateSync();
+  if (error) throw error;
+  journal.push(entry);
+  return entry;
+}));
+// Only the trial balance's pipeline: an optional date cut-off, then totals per account
+mock.method(JournalEntry, 'aggregate', async (pipeline) => {
+  const asOf = pipeline.find(stage => stage.$match)?.$match.date.$lte;
+  const totals = new Map();
+  journal.filter(entry => !asOf || entry.date <= asOf).forEach(entry => entry.lines.forEach(line => {
+    const total = totals.get(line.account) || { _id: line.account, debit: 0, credit: 0 };
+    total.debit += line.debit;
+    total.credit += line.credit;
+    totals.set(line.account, total);
+  }));
+  return [...totals.values()];
+});
+
+const objectId = () => new mongoose.Types.ObjectId();
+const day = (date) => new Date(`${date}T00:00:00.000Z`);
+
+const investorId = objectId();
+const investment = {
+  _id: objectId(),
+  investmentId: 'INV000001',
+  investor: investorId,
+  investmentDate: day('2024-01-01'),
+  principalAmount: 100000,
+  schedule: [
+    { month: 1, dueDate: day('2024-02-01'), interestAmount: 1500 },
+    { month: 2, dueDate: day('2024-03-01'), interestAmount: 1500 }
+  ]
+};
+
+// Month 1 interest with 10% TDS withheld
+const interestPayout = {
+  _id: objectId(),
+  paymentId: 'PAY000001',
+  investor: investorId,
+  scheduleMonth: 1,
+  paymentDate: day('2024-02-01'),
+  amount: 1500,
+  interestAmount: 1500,
+  principalAmount: 0,
+  penaltyAmount: 0,
+  tdsAmount: 150
+};
+
+// Month 2 interest, part of the principal and a late fee
+const mixedPayout = {
+  _id: objectId(),
+  paymentId: 'PAY000002',
+  investor: investorId,
+  scheduleMonth: 2,
+  paymentDate: day('2024-03-05'),
+  amount: 9530,
+  interestAmount: 1500,
+  principalAmount: 8000,
+  penaltyAmount: 30,
+  tdsAmount: 150
+};
+
+const linesOf = (entry) => entry.lines.map(({ account, debit, credit }) => ({ account, debit, credit }));
+
+const sideTotals = (entry) => entry.lines.reduce((totals, line) => ({
+  debit: totals.debit + line.debit,
+  credit: totals.credit + line.credit
+}), { debit: 0, credit: 0 });
+
+beforeEach(() => {
+  journal = [];
+});
+
+test('ledger: booking an investment puts the principal in the bank and owes it to the investor', async () => {
+  const entry = await postInvestment(investment, {});
+  assert.equal(entry.type, 'investment');
+  assert.deepEqual(linesOf(entry), [
+    { account: ACCOUNTS.CASH, debit: 100000, credit: 0 },
+    { account: ACCOUNTS.INVESTOR_PRINCIPAL, debit: 0, credit: 100000 }
+  ]);
+});
+
+test('ledger: a payout accrues its interest, then splits the gross between the bank and TDS payable', async () => {
+  const entry = await postPayment(interestPayout, { investment });
+
+  const accrual = journal.find(item => item.type === 'interest_accrual');
+  assert.equal(accrual.scheduleMonth, 1);
+  assert.deepEqual(linesOf(accrual), [
+    { account: ACCOUNTS.INTEREST_EXPENSE, debit: 1500, credit: 0 },
+    { account: ACCOUNTS.INTEREST_PAYABLE, debit: 0, credit: 1500 }
+  ]);
+
+  assert.equal(entry.sourceKey, `payment:${interestPayout._id}`);
+  // Principal, late fee and bonus lines of zero are left out
+  assert.deepEqual(linesOf(entry), [
+    { account: ACCOUNTS.INTEREST_PAYABLE, debit: 1500, credit: 0 },
+    { account: ACCOUNTS.TDS_PAYABLE, debit: 0, credit: 150 },
+    { account: ACCOUNTS.CASH, debit: 0, credit: 1350 }
+  ]);
+  assert.deepEqual(sideTotals(entry), { debit: 1500, credit: 1500 });
+});
+
+test('ledger: a mixed payout balances across interest, principal and late fee with TDS taken out', async () => {
+  const entry = await postPayment(mixedPayout, { investment });
+  assert.deepEqual(linesOf(entry), [
+    { account: ACCOUNTS.INTEREST_PAYABLE, debit: 1500, credit: 0 },
+    { account: ACCOUNTS.INVESTOR_PRINCIPAL, debit: 8000, credit: 0 },
+    { account: ACCOUNTS.LATE_FEE_EXPENSE, debit: 30, credit: 0 },
+    { account: ACCOUNTS.TDS_PAYABLE, debit: 0, credit: 150 },
+    { account: ACCOUNTS.CASH, debit: 0, credit: 9380 }
+  ]);
+  assert.deepEqual(sideTotals(entry), { debit: 9530, credit: 9530 });
+});
+
+test('ledger: posting the same payment again returns the entry already posted', async () => {
+  const first = await postPayment(interestPayout, { investment });
+  const second = await postPayment(interestPayout, { investment });
+  assert.equal(second, first);
+  assert.equal(journal.length, 2);
+});
+
+test('ledger: reversing a payment posts its entry with every line on the other side', async () => {
+  const original = await postPayment(interestPayout, { investment });
+  const reversal = await reversePayment(interestPayout, { date: day('2024-02-10') });
+
+  assert.equal(reversal.type, 'reversal');
+  assert.equal(reversal.reverses, original._id);
+  assert.equal(reversal.sourceKey, `reversal:${interestPayout._id}`);
+  assert.match(reversal.description, new RegExp(`Reversal of ${original.entryNumber}`));
+  assert.deepEqual(linesOf(reversal), linesOf(original).map(line => ({ account: line.account, debit: line.credit, credit: line.debit })));
+
+  // The accrual stays: the interest is owed again
+  assert.equal(journal.filter(entry => entry.type === 'interest_accrual').length, 1);
+  assert.equal(await reversePayment(interestPayout), reversal);
+  assert.equal(await reversePayment({ ...interestPayout, _id: objectId() }), null);
+});
+
+test('ledger: an entry whose sides do not balance is refused', async () => {
+  await assert.rejects(postEntry({
+    date: day('2024-01-01'),
+    type: 'payment',
+    description: 'Unbalanced',
+    sourceKey: 'test:unbalanced',
+    lines: [
+      { account: ACCOUNTS.CASH, debit: 100 },
+      { account: ACCOUNTS.INVESTOR_PRINCIPAL, credit: 90 }
+    ]
+  }), /debits and credits must balance/);
+  assert.equal(journal.length, 0);
+});
+
+test('ledger: the trial balance nets to zero and each account carries what was posted to it', async () => {
+  await postInvestment(investment, {});
+  await postPayment(interestPayout, { investment });
+  await postPayment(mixedPayout, { investment });
+  await reversePayment(interestPayout, { date: day('2024-03-10') });
+
+  const trialBalance = await getTrialBalance();
+  assert.equal(trialBalance.balanced, true);
+  assert.deepEqual(trialBalance.totals, { debit: 93650, credit: 93650 });
+  const net = trialBalance.accounts.reduce((sum, account) => sum + account.debit - account.credit, 0);
+  assert.ok(Math.abs(net) < 0.005, `accounts net to ${net}`);
+
+  const balance = (code) => trialBalance.accounts.find(account => account.code === code).balance;
+  assert.equal(balance(ACCOUNTS.CASH), 90620);
+  assert.equal(balance(ACCOUNTS.INVESTOR_PRINCIPAL), 92000);
+  assert.equal(balance(ACCOUNTS.INTEREST_PAYABLE), 1500);
+  assert.equal(balance(ACCOUNTS.TDS_PAYABLE), 150);
+  assert.equal(balance(ACCOUNTS.INTEREST_EXPENSE), 3000);
+  assert.equal(balance(ACCOUNTS.LATE_FEE_EXPENSE), 30);
+
+  // By the end of February: the bank holds 98650 and 1500 of interest was expensed, against the
+  // principal owed and the 150 withheld
+  const february = await getTrialBalance({ asOf: day('2024-02-28') });
+  assert.equal(february.balanced, true);
+  assert.deepEqual(february.totals, { debit: 100150, credit: 100150 });
+});
@@ -0,0 +1,63 @@
+// backend/tests/masking.test.js - Masked identifiers shown in responses, exports and emails
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { dropMaskedValues, maskAadhaar, maskAccount, maskKycIdentity, maskPan } from '../utils/masking.js';
+
+const kyc = {
+  panNumber: 'ABCPE1234F',
+  aadharNumber: '499618123455',
+  bankDetails: {
+    accountNumber: '50100012345678',
+    ifscCode: 'HDFC0001234',
+    bankName: 'HDFC Bank',
+    branchName: 'Fort'
+  }
+};
+
+test('masking: only the last four characters of each identifier are kept', () => {
+  assert.equal(maskPan('ABCPE1234F'), 'XXXXXX234F');
+  assert.equal(maskAadhaar('499618123455'), 'XXXX-XXXX-3455');
+  assert.equal(maskAccount('50100012345678'), 'XXXX5678');
+});
+
+test('masking: spaces and dashes are ignored and missing values stay missing', () => {
+  assert.equal(maskAadhaar('4996 1812 3455'), 'XXXX-XXXX-3455');
+  assert.equal(maskAccount('5010-0012-34-5678'), 'XXXX5678');
+  assert.equal(maskPan(undefined), undefined);
+  assert.equal(maskAadhaar(''), '');
+  assert.equal(maskAccount(null), null);
+});
+
+test('masking: a kyc is masked for display with the bank name, branch and IFSC left readable', () => {
+  assert.deepEqual(maskKycIdentity(kyc), {
+    panNumber: 'XXXXXX234F',
+    aadharNumber: 'XXXX-XXXX-3455',
+    bankDetails: {
+      accountNumber: 'XXXX5678',
+      ifscCode: 'HDFC0001234',
+      bankName: 'HDFC Bank',
+      branchName: 'Fort'
+    }
+  });
+  assert.deepEqual(maskKycIdentity(undefined).bankDetails.accountNumber, undefined);
+});
+
+test('masking: masked values sent back by a form are dropped as unchanged', () => {
+  const update = dropMaskedValues({
+    panNumber: 'XXXXXX234F',
+    aadharNumber: 'XXXX-XXXX-3455',
+    bankDetails: { accountNumber: 'XXXX5678', bankName: 'HDFC Bank Ltd' }
+  }, kyc);
+
+  assert.deepEqual(update, { bankDetails: { bankName: 'HDFC Bank Ltd' } });
+});
+
+test('masking: new values, and masks that do not match the stored value, are kept', () => {
+  const changed = {
+    panNumber: 'ABCPE9876K',
+    aadharNumber: 'XXXX-XXXX-9999',
+    bankDetails: { accountNumber: 'XXXX0000' }
+  };
+  assert.deepEqual(dropMaskedValues(changed, kyc), changed);
+  assert.equal(dropMaskedValues(undefined, kyc), undefined);
+});
@@ -0,0 +1,57 @@
+// backend/tests/nameMatching.test.js - Loose name comparison behind duplicate investor warnings
+// A miss lets the same person be onboarded twice, and a false hit warns on every new investor, so
+// both sides of each rule are pinned here.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { nameTokens, namesSimilar } from '../utils/nameMatching.js';
+
+test('nameMatching: names are lower-cased and lose honorifics, punctuation and extra spacing', () => {
+  assert.deepEqual(nameTokens('  Dr. RAJESH   Kumar-Sharma '), ['rajesh', 'kumar', 'sharma']);
+  assert.deepEqual(nameTokens('Smt. Lakshmi Devi'), ['lakshmi', 'devi']);
+  assert.deepEqual(nameTokens('Shri R.K. Iyer'), ['r', 'k', 'iyer']);
+  assert.deepEqual(nameTokens('Mr'), []);
+  assert.deepEqual(nameTokens(undefined), []);
+});
+
+test('nameMatching: honorifics and case do not tell two names apart', () => {
+  assert.equal(namesSimilar('Mr. Rajesh Kumar', 'rajesh kumar'), true);
+  assert.equal(namesSimilar('Kumari Anjali Rao', 'Ms Anjali Rao'), true);
+  assert.equal(namesSimilar('Dr Priya Menon', 'Mrs. Priya Menon'), true);
+  assert.equal(namesSimilar('Sri Ram', 'Ram'), true);
+});
+
+test('nameMatching: the same words in another order are the same name', () => {
+  assert.equal(namesSimilar('Kumar Rajesh', 'Rajesh Kumar'), true);
+  assert.equal(namesSimilar('Iyer Venkata Subramanian', 'Venkata Subramanian Iyer'), true);
+});
+
+test('nameMatching: initials stand in for the words they start', () => {
+  assert.equal(namesSimilar('R. Kumar', 'Rajesh Kumar'), true);
+  assert.equal(namesSimilar('R K Iyer', 'Ramesh Krishnan Iyer'), true);
+  assert.equal(namesSimilar('Iyer R', 'Ramesh Iyer'), true);
+  assert.equal(namesSimilar('S. Kumar', 'Rajesh Kumar'), false);
+  // An initial covers one word only
+  assert.equal(namesSimilar('R R Iyer', 'Ramesh Krishnan Iyer'), false);
+});
+
+test('nameMatching: a shorter name of two or more words inside a longer one matches', () => {
+  assert.equal(namesSimilar('Anjali Rao', 'Anjali Suresh Rao'), true);
+  // A single word is too common to count as a match on its own
+  assert.equal(namesSimilar('Rajesh', 'Rajesh Kumar'), false);
+  assert.equal(namesSimilar('Anjali Rao', 'Anjali Suresh Nair'), false);
+});
+
+test('nameMatching: spellings within one edit in five are similar, and no further', () => {
+  assert.equal(namesSimilar('Rajesh Kumaar', 'Rajesh Kumar'), true);
+  assert.equal(namesSimilar('Mohammed Iqbal', 'Mohamed Ikbal'), true);
+  // "anil kumar" is ten characters: two edits is the limit, three is a different name
+  assert.equal(namesSimilar('Anil Kimor', 'Anil Kumar'), true);
+  assert.equal(namesSimilar('Anil Kimoz', 'Anil Kumar'), false);
+  assert.equal(namesSimilar('Rajesh Kumar', 'Suresh Nair'), false);
+});
+
+test('nameMatching: a name with nothing left after honorifics matches nothing', () => {
+  assert.equal(namesSimilar('Mr', 'Mr'), false);
+  assert.equal(namesSimilar('', 'Rajesh Kumar'), false);
+  assert.equal(namesSimilar(null, undefined), false);
+});
@@ -0,0 +1,104 @@
+// backend/tests/paymentAllocation.test.js - Lump-sum payments split by the plan waterfall
+// allocatePayment proposes the split; Investment.applyAllocations and reverseAllocations
+// post it to the schedule rows and take it off again.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import Investment from '../models/Investment.js';
+import { allocatePayment, overpaidAllocation, resolveWaterfall, rowOutstanding } from '../utils/paymentAllocation.js';
+
+const day = (date) => new Date(`${date}T00:00:00.000Z`);
+
+// Two overdue rows of 1000 interest + 500 principal, each with a 100 late fee, and one to come
+const schedule = () => [
+  { month: 1, dueDate: day('2026-01-01'), interestAmount: 1000, principalAmount: 500, totalAmount: 1500, remainingPrincipal: 9500, status: 'overdue', paidAmount: 0, penaltyAccrued: 100 },
+  { month: 2, dueDate: day('2026-02-01'), interestAmount: 1000, principalAmount: 500, totalAmount: 1500, remainingPrincipal: 9000, status: 'overdue', paidAmount: 0, penaltyAccrued: 100 },
+  { month: 3, dueDate: day('2026-03-01'), interestAmount: 1000, principalAmount: 500, totalAmount: 1500, remainingPrincipal: 8500, status: 'pending', paidAmount: 0 }
+];
+
+const split = (allocations) => allocations.map(allocation => [
+  allocation.scheduleMonth,
+  allocation.penaltyAmount,
+  allocation.interestAmount,
+  allocation.principalAmount
+]);
+
+test('allocation: an unknown waterfall falls back to penalty, interest, principal component first', () => {
+  assert.deepEqual(resolveWaterfall({ allocationOrder: ['interest', 'interest', 'principal'], allocationStrategy: 'fifo' }), {
+    order: ['penalty', 'interest', 'principal'],
+    strategy: 'component_first'
+  });
+});
+
+test('allocation: paid interest comes off before principal, late fees are separate', () => {
+  assert.deepEqual(rowOutstanding({ ...schedule()[0], paidAmount: 1200, penaltyPaid: 40, penaltyWaived: 10 }), {
+    penalty: 50,
+    interest: 0,
+    principal: 300
+  });
+});
+
+test('allocation: component first settles each component across the oldest rows before the next', () => {
+  const { allocations, totals, unallocated } = allocatePayment(schedule(), 2500);
+
+  assert.deepEqual(split(allocations), [
+    [1, 100, 1000, 0],
+    [2, 100, 1000, 0],
+    [3, 0, 300, 0]
+  ]);
+  assert.deepEqual(totals, { penalty: 200, interest: 2300, principal: 0 });
+  assert.equal(unallocated, 0);
+});
+
+test('allocation: row by row clears the oldest row completely first', () => {
+  const waterfall = resolveWaterfall({ allocationOrder: ['interest', 'principal', 'penalty'], allocationStrategy: 'row_by_row' });
+  const { allocations } = allocatePayment(schedule(), 2500, waterfall);
+
+  assert.deepEqual(split(allocations), [
+    [1, 100, 1000, 500],
+    [2, 0, 900, 0]
+  ]);
+});
+
+test('allocation: anything beyond the whole schedule is left unallocated', () => {
+  const { allocations, unallocated } = allocatePayment(schedule(), 5000);
+  assert.equal(allocations.length, 3);
+  assert.equal(unallocated, 300);
+});
+
+test('allocation: a payment beyond what its row owes is an overpayment, less any bonus or waived late fee', () => {
+  const rows = schedule();
+  const single = (amount, bonusAmount = 0) => [{ scheduleMonth: 1, amount, bonusAmount }];
+
+  assert.equal(overpaidAllocation(rows, single(1600)), null);
+  assert.deepEqual(overpaidAllocation(rows, single(1601)), { scheduleMonth: 1, due: 1600 });
+  assert.equal(overpaidAllocation(rows, single(1700, 100)), null);
+  // A waived late fee counts against the payment's own month only
+  assert.deepEqual(overpaidAllocation(rows, single(1600), { scheduleMonth: 1, penaltyWaived: 100 }), { scheduleMonth: 1, due: 1600 });
+  assert.equal(overpaidAllocation(rows, single(1500), { scheduleMonth: 1, penaltyWaived: 100 }), null);
+  assert.equal(overpaidAllocation(rows, single(1600), { scheduleMonth: 2, penaltyWaived: 100 }), null);
+
+  const settled = [{ ...rows[0], paidAmount: 1500, penaltyPaid: 100, status: 'paid' }, rows[1]];
+  assert.deepEqual(overpaidAllocation(settled, [{ scheduleMonth: 2, amount: 1600 }, { scheduleMonth: 1, amount: 1 }]), { scheduleMonth: 1, due: 0 });
+});
+
+test('allocation: applying marks rows partial or paid, and reversing restores them', () => {
+  const investment = new Investment({ schedule: schedule() });
+  const { allocations } = allocatePayment(investment.schedule, 2500, resolveWaterfall({ allocationStrategy: 'row_by_row' }));
+
+  const changes = investment.applyAllocations(allocations, day('2026-02-10'));
+  assert.deepEqual(changes, [
+    { scheduleMonth: 1, oldStatus: 'overdue', newStatus: 'paid' },
+    { scheduleMonth: 2, oldStatus: 'overdue', newStatus: 'partial' }
+  ]);
+  assert.deepEqual(
+    investment.schedule.slice(0, 2).map(row => [row.paidAmount, row.penaltyPaid]),
+    [[1500, 100], [800, 100]]
+  );
+  assert.deepEqual(investment.schedule[0].paidDate, day('2026-02-10'));
+
+  investment.reverseAllocations(allocations, day('2026-02-15'));
+  assert.deepEqual(
+    investment.schedule.map(row => [row.status, row.paidAmount, row.penaltyPaid, row.paidDate ?? null]),
+    [['overdue', 0, 0, null], ['overdue', 0, 0, null], ['pending', 0, 0, null]]
+  );
+});
@@ -0,0 +1,141 @@
+// backend/tests/paymentReversal.test.js - Settling a payment and unwinding it on reversal
+// The investment is the interest-only one from tests/fixtures/investments.js with the first eleven
+// payouts paid; month 12 repays the principal. Saves are stubbed and the journal is kept in
+// memory, with each entry still validated against the model.
+import { beforeEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import Investment from '../models/Investment.js';
+import Investor from '../models/Investor.js';
+import JournalEntry from '../models/JournalEntry.js';
+import Payment from '../models/Payment.js';
+import { ACCOUNTS } from '../utils/chartOfAccounts.js';
+import { settlePayment, unwindPayment } from '../services/paymentPosting.js';
+import { interestOnlyPlan, investmentFor } from './fixtures/investments.js';
+
+let journal = [];
+
+const withSession = (result) => ({ session: () => Promise.resolve(result) });
+
+mock.method(JournalEntry, 'findOne', (filter) => withSession(journal.find(entry => entry.sourceKey === filter.sourceKey) || null));
+mock.method(JournalEntry, 'find', (filter) => withSession(journal.filter(entry =>
+  String(entry.investment) === String(filter.investment) && entry.type === filter.type)));
+mock.method(JournalEntry, 'create', async (docs) => docs.map(doc => {
+  const entry = new JournalEntry({ ...doc, entryNumber: `JE${String(journal.length + 1).padStart(8, '0')}` });
+  const error = entry.validateSync();
+  if (error) throw error;
+  journal.push(entry);
+  return entry;
+}));
+// Investor counters are rederived after each posting; the values themselves are not under test here
+mock.method(JournalEntry, 'investorTotals', async () => new Map());
+mock.method(Investor, 'find', () => ({ select: () => withSession([]) }));
+mock.method(Investor, 'updateOne', async () => ({ modifiedCount: 1 }));
+mock.method(Investment, 'aggregate', () => withSession([]));
+
+const objectId = () => new mongoose.Types.ObjectId();
+const day = (date) => new Date(`${date}T00:00:00.000Z`);
+const user = objectId();
+
+const investment = () => {
+  const document = new Investment({
+    ...investmentFor(interestOnlyPlan, { paidRows: 11 }),
+    investmentId: 'IVT000001',
+    investor: objectId(),
+    plan: objectId(),
+    createdBy: user
+  });
+  document.updatePaymentStatus();
+  mock.method(document, 'save', async () => document);
+  return document;
+};
+
+const payment = (target, fields) => new Payment({
+  paymentId: `PAY${String(journal.length + 1).padStart(6, '0')}`,
+  investment: target._id,
+  investor: target.investor,
+  paymentDate: day('2025-01-01'),
+  paymentMethod: 'bank_transfer',
+  type: 'mixed',
+  processedBy: user,
+  ...fields
+});
+
+// Net debit per account across a payment's entry and its reversal
+const netByAccount = (entries) => {
+  const net = new Map();
+  entries.forEach(entry => entry.lines.forEach(line => {
+    net.set(line.account, Math.round(((net.get(line.account) || 0) + line.debit - line.credit) * 100) / 100);
+  }));
+  return net;
+};
+
+beforeEach(() => {
+  journal = [];
+});
+
+test('reversal: unwinding the payment that completed an investment reopens it and the row it paid', async () => {
+  const target = investment();
+  const final = payment(target, { scheduleMonth: 12, amount: 101500, interestAmount: 1500, principalAmount: 100000, tdsAmount: 150 });
+
+  await settlePayment(final, target, user);
+  const row = target.schedule.find(item => item.month === 12);
+  assert.equal(row.status, 'paid');
+  assert.equal(row.paidAmount, 101500);
+  assert.equal(target.status, 'completed');
+  assert.equal(target.remainingAmount, 0);
+
+  const { rowChanges, reopened } = await unwindPayment(final, target, user, {
+    description: 'Reversal of payment: returned by the bank',
+    now: day('2025-01-10')
+  });
+  assert.deepEqual(rowChanges, [{ scheduleMonth: 12, oldStatus: 'paid', newStatus: 'overdue' }]);
+  assert.equal(row.paidAmount, 0);
+  assert.equal(row.paidDate, null);
+  assert.equal(reopened, true);
+  assert.equal(target.status, 'active');
+  assert.equal(target.remainingAmount, 101500);
+  assert.equal(target.totalPaidAmount, 16500);
+  assert.match(target.timeline.at(-2).description, /Investment reopened: payment PAY\d+ was reversed/);
+  assert.equal(target.timeline.at(-1).type, 'payment_reversed');
+});
+
+test('reversal: a part-paid row goes back to what was paid before, less the late fee waived with it', async () => {
+  const target = investment();
+  const row = target.schedule.find(item => item.month === 12);
+  target.applyAllocations([{ scheduleMonth: 12, amount: 500, penaltyAmount: 0 }], day('2024-12-20'));
+  row.penaltyWaived = 20;
+
+  const rest = payment(target, { scheduleMonth: 12, amount: 101000, interestAmount: 1000, principalAmount: 100000, penaltyWaived: 30 });
+  await settlePayment(rest, target, user);
+  assert.equal(row.status, 'paid');
+  assert.equal(row.penaltyWaived, 50);
+
+  const { reopened } = await unwindPayment(rest, target, user, { description: 'Reversal', now: day('2025-01-10') });
+  assert.equal(row.status, 'partial');
+  assert.equal(row.paidAmount, 500);
+  assert.equal(row.penaltyWaived, 20);
+  assert.equal(reopened, true);
+});
+
+test('reversal: the reversing entry cancels the payout in every account and leaves the accrual', async () => {
+  const target = investment();
+  const final = payment(target, { scheduleMonth: 12, amount: 101500, interestAmount: 1500, principalAmount: 100000, tdsAmount: 150 });
+  await settlePayment(final, target, user);
+  await unwindPayment(final, target, user, { description: 'Reversal', now: day('2025-01-10') });
+
+  const posted = journal.find(entry => entry.sourceKey === `payment:${final._id}`);
+  const reversal = journal.find(entry => entry.sourceKey === `reversal:${final._id}`);
+  assert.equal(reversal.reverses, posted._id);
+  assert.deepEqual(netByAccount([posted]), new Map([
+    [ACCOUNTS.INTEREST_PAYABLE, 1500],
+    [ACCOUNTS.INVESTOR_PRINCIPAL, 100000],
+    [ACCOUNTS.TDS_PAYABLE, -150],
+    [ACCOUNTS.CASH, -101350]
+  ]));
+  assert.ok([...netByAccount([posted, reversal]).values()].every(value => value === 0));
+
+  // Month 12's interest is owed again, so its accrual stands; only the payout is reversed
+  assert.ok(journal.some(entry => entry.type === 'interest_accrual' && entry.scheduleMonth === 12));
+  assert.deepEqual(journal.filter(entry => entry.type === 'reversal'), [reversal]);
+});
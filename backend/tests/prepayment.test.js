@@ -0,0 +1,216 @@
+// backend/tests/prepayment.test.js - Partial principal prepayment and premature closure
+// Both investments come from tests/fixtures/investments.js with the first three payouts paid;
+// settling on 16 April accrues half of April on what is outstanding.
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import Investment from '../models/Investment.js';
+import JournalEntry from '../models/JournalEntry.js';
+import Payment from '../models/Payment.js';
+import { calculatePrepayment, validatePrepayment } from '../utils/prepayment.js';
+import { approvePrepayment, resolvePrepaymentInput } from '../services/prepayments.js';
+import { amortisingPlan, interestOnlyPlan, investmentFor } from './fixtures/investments.js';
+
+const MID_APRIL = '2024-04-16T00:00:00.000Z';
+
+const withPenalty = (investment) => ({ ...investment, prematureWithdrawalPenalty: 2 });
+
+// 8333.33 of principal a month, 75000 outstanding after March
+const amortising = (paidRows = 3) => withPenalty(investmentFor(amortisingPlan, { paidRows }));
+
+const interestOnly = (paidRows = 3) => withPenalty(investmentFor(interestOnlyPlan, { paidRows }));
+
+const rows = (schedule) => schedule.map(row => [row.month, row.interestAmount, row.principalAmount, row.remainingPrincipal]);
+
+test('prepayment: reducing the instalment keeps maturity and spreads what is left over the remaining payouts', () => {
+  const investment = amortising();
+  const input = { amount: 20000, date: MID_APRIL, mode: 'reduce_instalment' };
+  assert.equal(validatePrepayment(investment, input), null);
+
+  const settlement = calculatePrepayment(investment, input);
+  assert.equal(settlement.scheduleMonth, 4);
+  assert.equal(settlement.principal, 20000);
+  // Half of April on 75000
+  assert.equal(settlement.interest, 562.5);
+  assert.equal(settlement.netPayout, 20562.5);
+  assert.equal(settlement.remainingPrincipal, 55000);
+  assert.deepEqual(settlement.schedule.slice(0, 3), investment.schedule.slice(0, 3));
+  assert.equal(settlement.schedule[3].status, 'paid');
+  assert.deepEqual(rows(settlement.schedule.slice(4)), [
+    // The rest of April on 55000 rolls into May
+    [5, 1237.5, 6875, 48125],
+    [6, 721.88, 6875, 41250],
+    [7, 618.75, 6875, 34375],
+    [8, 515.63, 6875, 27500],
+    [9, 412.5, 6875, 20625],
+    [10, 309.38, 6875, 13750],
+    [11, 206.25, 6875, 6875],
+    [12, 103.13, 6875, 0]
+  ]);
+  assert.equal(settlement.terms.tenure, 12);
+  assert.equal(settlement.terms.maturityDate.toISOString().slice(0, 10), '2025-01-01');
+});
+
+test('prepayment: reducing the tenure keeps roughly the instalment and brings maturity forward', () => {
+  const investment = amortising();
+  const settlement = calculatePrepayment(investment, { amount: 20000, date: MID_APRIL, mode: 'reduce_tenure' });
+
+  // 55000 at about 8333.33 a month needs seven more payouts
+  assert.deepEqual(settlement.schedule.slice(4).map(row => row.month), [5, 6, 7, 8, 9, 10, 11]);
+  assert.ok(settlement.schedule.slice(4).every(row => row.principalAmount === 7857.14));
+  assert.equal(settlement.schedule.at(-1).remainingPrincipal, 0);
+  assert.equal(settlement.terms.tenure, 11);
+  assert.equal(settlement.terms.maturityDate.toISOString().slice(0, 10), '2024-12-01');
+  assert.equal(settlement.terms.totalInterestExpected, 8400);
+});
+
+test('prepayment: closure pays all outstanding principal with interest to date and ends the schedule', () => {
+  const investment = interestOnly();
+  const input = { foreclose: true, date: MID_APRIL };
+  assert.equal(validatePrepayment(investment, input), null);
+
+  const settlement = calculatePrepayment(investment, input);
+  assert.equal(settlement.principal, 100000);
+  assert.equal(settlement.interest, 750);
+  assert.equal(settlement.remainingPrincipal, 0);
+  assert.deepEqual(rows(settlement.schedule), [
+    [1, 1500, 0, 100000],
+    [2, 1500, 0, 100000],
+    [3, 1500, 0, 100000],
+    [4, 750, 100000, 0]
+  ]);
+  assert.equal(settlement.addedRows, 0);
+  assert.equal(settlement.removedRows, 9);
+  assert.equal(settlement.terms.maturityDate.toISOString(), MID_APRIL);
+  assert.equal(settlement.terms.totalInterestExpected, 5250);
+});
+
+test('prepayment: the penalty is charged on the principal withdrawn and kept back from the payout', () => {
+  const closure = calculatePrepayment(interestOnly(), { foreclose: true, date: MID_APRIL, penaltyPercentage: 2 });
+  assert.equal(closure.penalty, 2000);
+  assert.equal(closure.netPayout, 98750);
+
+  const partial = calculatePrepayment(amortising(), { amount: 20000, date: MID_APRIL, penaltyPercentage: 1.5 });
+  assert.equal(partial.penalty, 300);
+  assert.equal(partial.netPayout, 20262.5);
+});
+
+test('prepayment: the investment\'s penalty applies unless waived', async () => {
+  const investment = interestOnly();
+  const charged = await resolvePrepaymentInput(investment, { foreclose: 'true', date: MID_APRIL }, []);
+  assert.equal(charged.penaltyPercentage, 2);
+  assert.equal(charged.foreclose, true);
+
+  const waived = await resolvePrepaymentInput(investment, { foreclose: true, date: MID_APRIL, waivePenalty: true }, []);
+  assert.equal(waived.penaltyPercentage, 0);
+  assert.equal(calculatePrepayment(investment, waived).penalty, 0);
+
+  // A closure after a holder's death is never penalised
+  const claim = await resolvePrepaymentInput(investment, { foreclose: true, date: MID_APRIL }, [
+    { name: 'First holder', deceased: { dateOfDeath: new Date('2024-04-01') } },
+    { name: 'Second holder' }
+  ]);
+  assert.equal(claim.penaltyPercentage, 0);
+});
+
+test('prepayment: amounts of the outstanding principal or more are refused', () => {
+  const investment = amortising();
+  const message = 'Prepayment must be more than zero and less than the outstanding principal of 75000; close the investment to withdraw it all';
+  assert.equal(validatePrepayment(investment, { amount: 75000, date: MID_APRIL }), message);
+  assert.equal(validatePrepayment(investment, { amount: 80000, date: MID_APRIL }), message);
+  assert.equal(validatePrepayment(investment, { amount: 0, date: MID_APRIL }), message);
+  assert.equal(validatePrepayment(investment, { amount: 74999, date: MID_APRIL }), null);
+});
+
+test('prepayment: other refusals name what has to happen first', () => {
+  assert.equal(
+    validatePrepayment(interestOnly(), { amount: 20000, date: MID_APRIL, mode: 'reduce_tenure' }),
+    'Interest-only investments repay principal at maturity, so prepayment can only reduce the payouts'
+  );
+  assert.equal(validatePrepayment(interestOnly(2), { foreclose: true, date: MID_APRIL }), 'Settle the payouts due before the closure date first');
+  assert.equal(validatePrepayment(amortising(5), { amount: 20000, date: MID_APRIL }), 'Payouts falling after the prepayment date have already been paid');
+  assert.equal(
+    validatePrepayment(amortising(), { amount: 20000, date: '2025-02-01T00:00:00.000Z' }),
+    'Prepayment date must fall between the investment date and maturity'
+  );
+  assert.equal(validatePrepayment({ ...amortising(), status: 'completed' }, { amount: 20000, date: MID_APRIL }), 'Only active investments can be prepaid or closed');
+});
+
+// Approval under maker-checker, against a stand-in transaction that records each write with the
+// session it was made in. Every write happens inside the transaction, so one that aborts leaves nothing.
+const transactions = [];
+const approval = () => {
+  const objectId = () => new mongoose.Types.ObjectId();
+  const investment = new Investment({ ...amortising(), investmentId: 'IVT000001', investor: objectId(), plan: objectId() });
+  const input = { amount: 20000, date: new Date(MID_APRIL), mode: 'reduce_instalment', penaltyPercentage: 1.5 };
+  const payment = new Payment({
+    investment: investment._id,
+    investor: investment.investor,
+    scheduleMonth: 4,
+    amount: 20562.5,
+    interestAmount: 562.5,
+    principalAmount: 20000,
+    paymentDate: input.date,
+    paymentMethod: 'bank_transfer',
+    type: 'principal',
+    status: 'pending',
+    prepayment: input,
+    processedBy: objectId()
+  });
+  const writes = [];
+  mock.method(investment, 'save', async () => writes.push({ model: 'Investment', session: investment.$session() }));
+  mock.method(payment, 'save', async () => writes.push({ model: 'Payment', session: payment.$session() }));
+  mock.method(Payment, 'create', async (docs, { session }) => docs.map(doc => {
+    writes.push({ model: 'Payment', session });
+    return new Payment(doc);
+  }));
+  return { investment, payment, writes, holders: [{ name: 'Rajesh Kumar' }], checker: { _id: objectId() } };
+};
+
+mongoose.connection.db = { admin: () => ({ command: async () => ({ setName: 'rs0' }) }) };
+mock.method(mongoose.connection, 'transaction', async (work) => {
+  const transaction = { session: { id: transactions.length + 1 }, outcome: 'open' };
+  transactions.push(transaction);
+  try {
+    const result = await work(transaction.session);
+    transaction.outcome = 'committed';
+    return result;
+  } catch (error) {
+    transaction.outcome = 'aborted';
+    throw error;
+  }
+});
+mock.method(JournalEntry, 'findOne', () => ({ session: async () => null }));
+mock.method(JournalEntry, 'find', () => ({ session: async () => [] }));
+
+test('prepayment: an approval refused at settlement writes nothing and leaves the payment for the queue', async () => {
+  const { investment, payment, writes, holders, checker } = approval();
+  payment.amount = 20000;
+
+  const result = await approvePrepayment(payment, investment, holders, checker, 'Checked');
+  assert.equal(result.status, 409);
+  assert.match(result.message, /has changed since it was recorded/);
+  assert.deepEqual(writes, []);
+  assert.equal(transactions.at(-1).outcome, 'aborted');
+  assert.equal(payment.status, 'pending');
+  assert.equal(payment.verifiedBy, undefined);
+  assert.equal(payment.$session(), null);
+});
+
+test('prepayment: an approval failing part-way is rolled back with everything it wrote', async (t) => {
+  const { investment, payment, writes, holders, checker } = approval();
+  t.mock.method(JournalEntry, 'create', async () => {
+    throw new Error('Ledger unavailable');
+  });
+
+  await assert.rejects(approvePrepayment(payment, investment, holders, checker, 'Checked'), /Ledger unavailable/);
+  const transaction = transactions.at(-1);
+  assert.equal(transaction.outcome, 'aborted');
+  // The penalty payment and the re-cut schedule were written, in the aborted transaction only
+  assert.deepEqual(writes, [
+    { model: 'Payment', session: transaction.session },
+    { model: 'Investment', session: transaction.session }
+  ]);
+  assert.equal(payment.verifiedBy, undefined);
+  assert.equal(investment.$session(), null);
+});
@@ -0,0 +1,68 @@
+// backend/tests/reconciliation.test.js - Matching bank statement lines to recorded payments
+// Candidates are built as the reconciliation route builds them, from payments and the
+// prepayment or closure penalties kept back from them.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { keptBackBySettlement, paymentCandidate, proposeMatches, scoreMatch } from '../utils/reconciliation.js';
+
+const objectId = () => new mongoose.Types.ObjectId();
+const day = (date) => new Date(`${date}T00:00:00.000Z`);
+
+const investment = { _id: objectId(), investmentId: 'IVT000001' };
+const investor = { _id: objectId(), investorId: 'INV000001', kyc: { bankDetails: { accountNumber: '50100012345678' } } };
+
+// Closure on 16 April: 100000 of principal and 750 of interest, 75 TDS withheld and a 2% penalty kept back
+const settlement = {
+  _id: objectId(),
+  paymentId: 'PAY000004',
+  investment,
+  investor,
+  amount: 100750,
+  tdsAmount: 75,
+  paymentDate: day('2024-04-16'),
+  referenceNumber: 'UTR000123'
+};
+const penalty = { _id: objectId(), deductedFrom: settlement._id, amount: 2000 };
+
+const line = (fields) => ({
+  key: 'line:1',
+  direction: 'debit',
+  date: day('2024-04-17'),
+  reference: '',
+  description: 'NEFT INV000001',
+  ...fields
+});
+
+test('reconciliation: a settlement is matched at what the bank paid, less TDS and the penalty kept back', () => {
+  const keptBack = keptBackBySettlement([penalty]);
+  assert.equal(keptBack.get(String(settlement._id)), 2000);
+
+  const candidate = paymentCandidate(settlement, 'payment', 'debit', keptBack);
+  assert.equal(candidate.key, `payment:${settlement._id}`);
+  assert.equal(candidate.amount, 98675);
+
+  const matches = proposeMatches([line({ amount: 98675 })], [candidate]);
+  assert.equal(matches.get('line:1').candidate, candidate);
+  assert.ok(matches.get('line:1').reasons.includes('amount_exact'));
+
+  // Counted without the penalty, the settlement is 2% off and never matches
+  const gross = paymentCandidate(settlement, 'payment', 'debit');
+  assert.equal(gross.amount, 100675);
+  assert.equal(scoreMatch(line({ amount: 98675 }), gross).confidence, 0);
+});
+
+test('reconciliation: a returned settlement is matched the same way on the credit side', () => {
+  const candidate = paymentCandidate(settlement, 'return', 'credit', keptBackBySettlement([penalty]));
+  const matches = proposeMatches([line({ amount: 98675, direction: 'credit' })], [candidate]);
+  assert.equal(matches.get('line:1').candidate.key, `return:${settlement._id}`);
+  assert.equal(scoreMatch(line({ amount: 98675 }), candidate).confidence, 0);
+});
+
+test('reconciliation: penalties on one settlement add up, and other payments keep their amount', () => {
+  const keptBack = keptBackBySettlement([penalty, { deductedFrom: settlement._id, amount: 500.25 }]);
+  assert.equal(paymentCandidate(settlement, 'payment', 'debit', keptBack).amount, 98174.75);
+
+  const payout = { ...settlement, _id: objectId(), amount: 1500, tdsAmount: 150 };
+  assert.equal(paymentCandidate(payout, 'payment', 'debit', keptBack).amount, 1350);
+});
@@ -0,0 +1,184 @@
+// backend/tests/scheduleEngine.test.js - Golden-file tests for the payout schedule engine
+// The engine (shared/scheduleEngine.js) serves the Plan and Investment models and the
+// client previews. Each case below is checked against its golden file through the
+// engine, a Plan document and an Investment carrying the plan's copied terms, so all
+// three keep producing the same rows. After an intended change to the calculation,
+// regenerate the golden files with `UPDATE_GOLDEN=1 npm test` and review the diff; a case
+// without a golden file fails until one is written that way.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import Plan from '../models/Plan.js';
+import Investment from '../models/Investment.js';
+import { buildSchedule, resolvePayoutTerms, summarizeReturns } from '../../shared/scheduleEngine.js';
+import { buildAccrualPeriods } from '../../shared/interestAccrual.js';
+
+const GOLDEN_DIR = fileURLToPath(new URL('./fixtures/schedules/', import.meta.url));
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === '1';
+
+const interestPlan = (interestPayment, overrides = {}) => ({
+  interestRate: 1.5,
+  interestType: 'flat',
+  tenure: 12,
+  paymentType: 'interest',
+  interestPayment: {
+    dateOfInvestment: '2024-01-01',
+    interestFrequency: 'monthly',
+    principalRepaymentOption: 'fixed',
+    ...interestPayment
+  },
+  ...overrides
+});
+
+const amortisingPlan = (interestWithPrincipalPayment, overrides = {}) => ({
+  interestRate: 1.5,
+  interestType: 'reducing',
+  tenure: 12,
+  paymentType: 'interestWithPrincipal',
+  interestWithPrincipalPayment: {
+    dateOfInvestment: '2024-01-01',
+    paymentFrequency: 'monthly',
+    principalRepaymentPercentage: 100,
+    ...interestWithPrincipalPayment
+  },
+  ...overrides
+});
+
+const CASES = [
+  { name: 'interest-monthly-flat', plan: interestPlan({}) },
+  // Investments created before day-count conventions were recorded
+  { name: 'legacy-no-convention-mid-month', plan: interestPlan({}), investmentDate: '2024-01-15T00:00:00.000Z', dayCountConvention: null },
+  { name: 'interest-monthly-reducing', plan: interestPlan({}, { interestType: 'reducing' }) },
+  { name: 'interest-quarterly', plan: interestPlan({ interestFrequency: 'quarterly' }) },
+  { name: 'interest-half-yearly', plan: interestPlan({ interestFrequency: 'half-yearly' }, { tenure: 24 }) },
+  { name: 'interest-yearly', plan: interestPlan({ interestFrequency: 'yearly' }, { tenure: 36 }) },
+  { name: 'interest-others-every-2-months', plan: interestPlan({ interestFrequency: 'others', interestStartDate: '2024-03-01' }) },
+  {
+    name: 'interest-flexible-principal',
+    plan: interestPlan({ principalRepaymentOption: 'flexible', withdrawalAfterPercentage: 50, principalSettlementTerm: 4 }, { interestType: 'reducing' })
+  },
+  // Settlement starts in month 9 but needs 6 months: the last payout settles the rest
+  {
+    name: 'interest-flexible-principal-past-tenure',
+    plan: interestPlan({ principalRepaymentOption: 'flexible', withdrawalAfterPercentage: 75, principalSettlementTerm: 6 })
+  },
+  { name: 'amortising-monthly', plan: amortisingPlan({}) },
+  { name: 'amortising-monthly-flat', plan: amortisingPlan({}, { interestType: 'flat' }) },
+  { name: 'amortising-quarterly', plan: amortisingPlan({ paymentFrequency: 'quarterly' }) },
+  { name: 'amortising-partial-principal', plan: amortisingPlan({ principalRepaymentPercentage: 60 }) },
+  {
+    name: 'amortising-others-split-dates',
+    plan: amortisingPlan({ paymentFrequency: 'others', interestPayoutDate: '2024-02-01', principalPayoutDate: '2024-07-01' })
+  },
+  { name: 'annual-nominal-rate', plan: interestPlan({}, { interestRate: 18, rateBasis: 'annual_nominal' }) },
+  { name: 'annual-effective-rate', plan: amortisingPlan({}, { interestRate: 18, rateBasis: 'annual_effective' }) },
+  { name: 'actual-365-mid-month', plan: interestPlan({}), investmentDate: '2024-01-15T00:00:00.000Z', dayCountConvention: 'actual_365' },
+  { name: 'actual-actual-mid-month', plan: interestPlan({}), investmentDate: '2024-01-15T00:00:00.000Z', dayCountConvention: 'actual_actual' },
+  {
+    name: 'actual-actual-across-leap-year',
+    plan: interestPlan({ interestFrequency: 'quarterly' }),
+    investmentDate: '2023-11-20T00:00:00.000Z',
+    dayCountConvention: 'actual_actual'
+  },
+  { name: 'thirty-360-mid-month', plan: interestPlan({}), investmentDate: '2024-01-15T00:00:00.000Z', dayCountConvention: 'thirty_360' },
+  { name: 'monthly-convention-mid-month', plan: interestPlan({}), investmentDate: '2024-01-15T00:00:00.000Z', dayCountConvention: 'monthly' },
+  {
+    name: 'monthly-convention-quarterly-mid-month',
+    plan: interestPlan({ interestFrequency: 'quarterly' }),
+    investmentDate: '2024-01-15T00:00:00.000Z',
+    dayCountConvention: 'monthly'
+  },
+  {
+    name: 'actual-365-amortising-month-end',
+    plan: amortisingPlan({}),
+    investmentDate: '2024-01-31T00:00:00.000Z',
+    dayCountConvention: 'actual_365'
+  }
+];
+
+// Serialised as the API returns it
+const toJson = (value) => JSON.parse(JSON.stringify(value));
+
+for (const { name, plan, principalAmount = 100000, investmentDate = '2024-01-01T00:00:00.000Z', dayCountConvention = 'monthly' } of CASES) {
+  test(`schedule: ${name}`, () => {
+    const schedule = buildSchedule(plan, principalAmount, investmentDate, dayCountConvention);
+    const actual = toJson({
+      schedule,
+      returns: summarizeReturns(schedule, principalAmount, plan, investmentDate)
+    });
+
+    const goldenFile = `${GOLDEN_DIR}${name}.json`;
+    if (UPDATE_GOLDEN) {
+      writeFileSync(goldenFile, `${JSON.stringify(actual, null, 2)}\n`);
+    }
+    assert.ok(existsSync(goldenFile), `Missing golden file ${name}.json; create it with UPDATE_GOLDEN=1 npm test`);
+    assert.deepEqual(actual, JSON.parse(readFileSync(goldenFile, 'utf8')));
+
+    // A plan always schedules new investments with a convention
+    if (dayCountConvention) {
+      const planDocument = new Plan(plan);
+      assert.deepEqual(toJson(planDocument.generateSchedule(principalAmount, investmentDate, dayCountConvention)), actual.schedule);
+    }
+
+    const investment = new Investment({
+      ...plan,
+      principalAmount,
+      investmentDate,
+      payoutTerms: resolvePayoutTerms(plan),
+      dayCountConvention
+    });
+    assert.deepEqual(toJson(investment.generateSchedule()), actual.schedule);
+  });
+}
+
+test('schedule: principal is fully repaid and interest totals match the rows', () => {
+  for (const { plan, principalAmount = 100000, investmentDate = '2024-01-01T00:00:00.000Z', dayCountConvention = 'monthly' } of CASES) {
+    const schedule = buildSchedule(plan, principalAmount, investmentDate, dayCountConvention);
+    const repaid = schedule.reduce((sum, row) => sum + row.principalAmount, 0);
+    const expected = plan.paymentType === 'interest'
+      ? principalAmount
+      : principalAmount * plan.interestWithPrincipalPayment.principalRepaymentPercentage / 100;
+    assert.ok(Math.abs(repaid - expected) < 0.05, `${plan.paymentType} repaid ${repaid} of ${expected}`);
+  }
+});
+
+test('schedule: payouts fall on investment anniversaries under every convention', () => {
+  const plan = interestPlan({ interestFrequency: 'quarterly' });
+  for (const convention of ['actual_365', 'actual_actual', 'thirty_360', 'monthly']) {
+    const schedule = buildSchedule(plan, 100000, '2024-01-15T00:00:00.000Z', convention);
+    assert.deepEqual(
+      schedule.map(row => row.dueDate.toISOString().slice(0, 10)),
+      ['2024-04-15', '2024-07-15', '2024-10-15', '2025-01-15'],
+      convention
+    );
+  }
+});
+
+test('accrual: a mid-month start pro-rates the broken first and last calendar months', () => {
+  const periods = buildAccrualPeriods('2024-01-15T00:00:00.000Z', 12, 'monthly');
+  // 15-31 January is 17 of its 31 days and 1-14 February 14 of 29; the last period
+  // runs 15-31 December and 1-14 January 2025
+  assert.ok(Math.abs(periods[0].fraction - (17 / 31 + 14 / 29)) < 1e-9);
+  assert.ok(Math.abs(periods[11].fraction - (17 / 31 + 14 / 31)) < 1e-9);
+  const months = periods.reduce((sum, period) => sum + period.fraction, 0);
+  assert.ok(Math.abs(months - 12) < 1e-9, `accrued ${months} months`);
+
+  const fromFirst = buildAccrualPeriods('2024-01-01T00:00:00.000Z', 12, 'monthly');
+  assert.deepEqual(fromFirst.map(period => period.fraction), Array(12).fill(1));
+});
+
+test('schedule: the same rows whatever the local time zone', () => {
+  const engine = new URL('../../shared/scheduleEngine.js', import.meta.url).href;
+  const script = `
+    import { buildSchedule } from '${engine}';
+    const plan = ${JSON.stringify(interestPlan({ interestFrequency: 'quarterly' }))};
+    console.log(JSON.stringify(buildSchedule(plan, 100000, '2024-01-31T00:00:00.000Z', 'actual_365')));
+  `;
+  const rows = ['UTC', 'Asia/Kolkata', 'America/New_York'].map(TZ =>
+    execFileSync(process.execPath, ['--input-type=module', '-e', script], { env: { ...process.env, TZ }, encoding: 'utf8' })
+  );
+  assert.equal(rows[1], rows[0]);
+  assert.equal(rows[2], rows[0]);
+});
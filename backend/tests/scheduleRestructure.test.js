@@ -0,0 +1,81 @@
+// backend/tests/scheduleRestructure.test.js - Restructuring of live investment schedules
+// Investments come from tests/fixtures/investments.js: 100000 from 1 January 2024 for twelve
+// months at 1.5% a month.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { restructureSchedule, validateRestructure } from '../utils/scheduleRestructure.js';
+import { amortisingPlan, interestOnlyPlan, investmentFor } from './fixtures/investments.js';
+
+const interestOnly = () => investmentFor(interestOnlyPlan);
+const amortising = (paidRows) => investmentFor(amortisingPlan, { paidRows });
+
+const column = (rows, field) => rows.map(row => row[field]);
+const sum = (rows, field) => Math.round(rows.reduce((total, row) => total + row[field], 0) * 100) / 100;
+
+test('restructure: a rate change applies from the effective month and leaves earlier rows alone', () => {
+  const investment = interestOnly();
+  const changes = { effectiveFromMonth: 7, interestRate: 1.2 };
+  assert.equal(validateRestructure(investment, changes), null);
+
+  const { schedule, terms, diff } = restructureSchedule(investment, changes);
+  assert.deepEqual(schedule.slice(0, 6), investment.schedule.slice(0, 6));
+  assert.deepEqual(column(schedule, 'interestAmount'), [...Array(6).fill(1500), ...Array(6).fill(1200)]);
+  assert.equal(schedule.at(-1).principalAmount, 100000);
+  assert.equal(terms.totalInterestExpected, 16200);
+  assert.equal(terms.totalExpectedReturns, 116200);
+  assert.equal(diff.before.interestRate, 1.5);
+  assert.deepEqual(column(diff.removedRows, 'month'), [7, 8, 9, 10, 11, 12]);
+  assert.deepEqual(column(diff.addedRows, 'month'), [7, 8, 9, 10, 11, 12]);
+});
+
+test('restructure: a longer tenure adds rows and moves maturity and the principal repayment out', () => {
+  const investment = interestOnly();
+  const { schedule, terms } = restructureSchedule(investment, { effectiveFromMonth: 7, tenure: 18 });
+
+  assert.deepEqual(column(schedule, 'month'), Array.from({ length: 18 }, (_, index) => index + 1));
+  assert.deepEqual(column(schedule, 'period'), Array.from({ length: 18 }, (_, index) => index + 1));
+  assert.equal(schedule[11].principalAmount, 0);
+  assert.equal(schedule.at(-1).principalAmount, 100000);
+  assert.equal(schedule.at(-1).dueDate.toISOString().slice(0, 10), '2025-07-01');
+  assert.equal(terms.tenure, 18);
+  assert.equal(terms.maturityDate.toISOString().slice(0, 10), '2025-07-01');
+  assert.equal(terms.totalInterestExpected, 27000);
+});
+
+test('restructure: a payment holiday skips the month and rolls its interest into the next payout', () => {
+  const investment = interestOnly();
+  const changes = { effectiveFromMonth: 7, holidayMonths: [8] };
+  assert.equal(validateRestructure(investment, changes), null);
+
+  const { schedule, terms } = restructureSchedule(investment, changes);
+  assert.deepEqual(column(schedule, 'month'), [1, 2, 3, 4, 5, 6, 7, 9, 10, 11, 12]);
+  assert.equal(schedule.find(row => row.month === 9).interestAmount, 3000);
+  assert.equal(schedule.find(row => row.month === 9).periodStartMonth, 8);
+  assert.equal(terms.totalInterestExpected, 18000);
+
+  assert.match(validateRestructure(investment, { effectiveFromMonth: 7, holidayMonths: [6] }), /Holiday months must fall/);
+  assert.match(validateRestructure(investment, { effectiveFromMonth: 7, holidayMonths: [12] }), /Holiday months must fall/);
+});
+
+test('restructure: rows with a recorded payment are kept and the rest repay what is still outstanding', () => {
+  const investment = amortising(3);
+  const paidRows = structuredClone(investment.schedule.slice(0, 3));
+
+  assert.match(validateRestructure(investment, { effectiveFromMonth: 3, interestRate: 1 }), /after month 3/);
+
+  const { schedule } = restructureSchedule(investment, { effectiveFromMonth: 4, interestRate: 1 });
+  assert.deepEqual(schedule.slice(0, 3), paidRows);
+  assert.ok(schedule.slice(3).every(row => row.status === 'pending' && row.paidAmount === 0));
+  assert.ok(Math.abs(sum(schedule, 'principalAmount') - 100000) < 0.05);
+  assert.equal(schedule.at(-1).remainingPrincipal, 0);
+  // Month 4 accrues 1% on what was left after month 3
+  assert.equal(schedule[3].interestAmount, Math.round(paidRows[2].remainingPrincipal) / 100);
+});
+
+test('restructure: requests that change nothing, convert reducing to flat or fall outside the schedule are refused', () => {
+  const investment = amortising();
+  assert.equal(validateRestructure(investment, { effectiveFromMonth: 4, interestRate: 1.5 }), 'No restructuring changes requested');
+  assert.equal(validateRestructure(investment, { effectiveFromMonth: 4, interestType: 'flat' }), 'Reducing interest cannot be converted to flat');
+  assert.match(validateRestructure(investment, { effectiveFromMonth: 13, interestRate: 1 }), /on or before month 12/);
+  assert.equal(validateRestructure({ ...investment, status: 'completed' }, { effectiveFromMonth: 4, interestRate: 1 }), 'Only active investments can be restructured');
+});
@@ -0,0 +1,164 @@
+// backend/tests/statementParsers.test.js - Bank statement parsing for reconciliation
+// Each format is parsed into the same positive-amount lines with the sign in `direction`.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  StatementParseError,
+  detectStatementFormat,
+  parseCsvStatement,
+  parseMt940Statement,
+  parseOfxStatement,
+  parseStatementAmount
+} from '../utils/statementParsers.js';
+
+const day = (date) => new Date(`${date}T00:00:00.000Z`);
+
+const summary = (lines) => lines.map(line => [line.lineNo, line.date.toISOString().slice(0, 10), line.amount, line.direction, line.reference]);
+
+test('statements: amounts keep Indian grouping, brackets and Dr/Cr marks', () => {
+  assert.equal(parseStatementAmount('1,20,000.50'), 120000.5);
+  assert.equal(parseStatementAmount('(500.00)'), -500);
+  assert.equal(parseStatementAmount('₹ 250 Dr'), -250);
+  assert.equal(parseStatementAmount('250 Cr.'), 250);
+  assert.ok(Number.isNaN(parseStatementAmount('')));
+});
+
+test('statements: CSV with separate debit and credit columns', () => {
+  const csv = [
+    'Txn Date,Narration,Ref No,Debit,Credit,Balance',
+    '01/02/2026,"NEFT FROM SHARMA, RAVI",UTR001,,"25,000.00","1,25,000.00"',
+    '02/02/2026,Bank charges,CHG1,118.00,,"1,24,882.00"',
+    '02/02/2026,Closing balance,,,,"1,24,882.00"'
+  ].join('\r\n');
+
+  const { lines } = parseCsvStatement(csv, {
+    date: 'Txn Date',
+    debit: 'debit',
+    credit: 'Credit',
+    description: 'Narration',
+    reference: 'Ref No'
+  });
+
+  assert.deepEqual(summary(lines), [
+    [2, '2026-02-01', 25000, 'credit', 'UTR001'],
+    [3, '2026-02-02', 118, 'debit', 'CHG1']
+  ]);
+  assert.equal(lines[0].description, 'NEFT FROM SHARMA, RAVI');
+});
+
+test('statements: CSV with one amount column and a Dr/Cr marker, mapped by column number', () => {
+  const csv = [
+    '15-Jan-2026;5000;CR;Interest received',
+    '16-Jan-2026;(200.00);;Cheque return',
+    '17-Jan-2026;300;DR;Transfer out'
+  ].join('\n');
+
+  const { lines } = parseCsvStatement(csv, { date: 1, amount: 2, direction: 3, description: 4, dateFormat: 'DD-MMM-YYYY', hasHeader: false });
+
+  assert.deepEqual(lines.map(line => [line.lineNo, line.amount, line.direction]), [
+    [1, 5000, 'credit'],
+    [2, 200, 'debit'],
+    [3, 300, 'debit']
+  ]);
+  assert.deepEqual(lines[0].date, day('2026-01-15'));
+});
+
+test('statements: CSV mapping and date errors name the column or line', () => {
+  const csv = 'Date,Amount\n31/02/2026,100\n';
+  assert.throws(() => parseCsvStatement(csv, { date: 'Date' }), StatementParseError);
+  assert.throws(() => parseCsvStatement(csv, { date: 'Value Date', amount: 'Amount' }), /"Value Date" mapped to date was not found/);
+  assert.throws(() => parseCsvStatement(csv, { date: 'Date', amount: 'Amount' }), /^StatementParseError: Line 2: Invalid date "31\/02\/2026"/);
+});
+
+test('statements: OFX 1.x SGML without closing element tags', () => {
+  const ofx = [
+    'OFXHEADER:100',
+    'DATA:OFXSGML',
+    '',
+    '<OFX>',
+    '<BANKMSGSRSV1><STMTTRNRS><STMTRS>',
+    '<BANKACCTFROM>',
+    '<BANKID>HDFC0000001',
+    '<ACCTID>50100123456789',
+    '</BANKACCTFROM>',
+    '<BANKTRANLIST>',
+    '<STMTTRN>',
+    '<TRNTYPE>CREDIT',
+    '<DTPOSTED>20260201120000[+5.5:IST]',
+    '<TRNAMT>25000.00',
+    '<FITID>F1',
+    '<NAME>RAVI SHARMA',
+    '<MEMO>NEFT UTR001',
+    '</STMTTRN>',
+    '<STMTTRN>',
+    '<TRNTYPE>DEBIT',
+    '<DTPOSTED>20260202',
+    '<TRNAMT>-118.00',
+    '<FITID>F2',
+    '<REFNUM>CHG1',
+    '</STMTTRN>',
+    '</BANKTRANLIST>',
+    '</STMTRS></STMTTRNRS></BANKMSGSRSV1>',
+    '</OFX>'
+  ].join('\n');
+
+  const { accountNumber, lines } = parseOfxStatement(ofx);
+
+  assert.equal(accountNumber, '50100123456789');
+  assert.deepEqual(summary(lines), [
+    [1, '2026-02-01', 25000, 'credit', 'F1'],
+    [2, '2026-02-02', 118, 'debit', 'CHG1']
+  ]);
+  assert.equal(lines[0].description, 'RAVI SHARMA - NEFT UTR001');
+});
+
+test('statements: OFX 2.x XML with closing tags', () => {
+  const ofx = '<?xml version="1.0"?><OFX><BANKTRANLIST><STMTTRN><DTPOSTED>20260305</DTPOSTED>' +
+    '<TRNAMT>-50.25</TRNAMT><FITID>X9</FITID></STMTTRN></BANKTRANLIST></OFX>';
+
+  assert.deepEqual(summary(parseOfxStatement(ofx).lines), [[1, '2026-03-05', 50.25, 'debit', 'X9']]);
+  assert.throws(() => parseOfxStatement('Date,Amount'), /Not an OFX file/);
+});
+
+test('statements: MT940 credit, debit and reversal marks with their :86: narrative', () => {
+  const mt940 = [
+    ':20:STMT2601',
+    ':25:HDFC/50100123456789',
+    ':28C:1/1',
+    ':60F:C260114INR100000,00',
+    ':61:2601150115C25000,00NTRFNEFT1234//HDFC0001',
+    ':86:NEFT FROM RAVI SHARMA',
+    'INSTALMENT JAN',
+    ':61:260116RC1500,50NCHKNONREF//BNK998',
+    ':86:CHEQUE RETURNED',
+    ':61:260117RD300,NTRFREV77',
+    ':61:260118D1000,00NMSCCHG01',
+    ':62F:C260118INR122799,50',
+    '-}'
+  ].join('\r\n');
+
+  const { accountNumber, lines } = parseMt940Statement(mt940);
+
+  assert.equal(accountNumber, 'HDFC/50100123456789');
+  // RC (a credit reversed) takes money out; RD (a debit reversed) brings it back in
+  assert.deepEqual(summary(lines), [
+    [1, '2026-01-15', 25000, 'credit', 'NEFT1234'],
+    [2, '2026-01-16', 1500.5, 'debit', 'BNK998'],
+    [3, '2026-01-17', 300, 'credit', 'REV77'],
+    [4, '2026-01-18', 1000, 'debit', 'CHG01']
+  ]);
+  assert.deepEqual(lines.map(line => line.description), ['NEFT FROM RAVI SHARMA INSTALMENT JAN', 'CHEQUE RETURNED', '', '']);
+});
+
+test('statements: MT940 errors point at the bad statement line', () => {
+  assert.throws(() => parseMt940Statement(':20:X\n:25:ACC\n'), /no :61: statement lines/);
+  assert.throws(() => parseMt940Statement(':20:X\n:61:261340C100,00NTRFREF\n'), /^StatementParseError: Line 1: Invalid value date "261340"/);
+});
+
+test('statements: format is detected from the extension, then the content', () => {
+  assert.equal(detectStatementFormat('january.QFX'), 'ofx');
+  assert.equal(detectStatementFormat('january.sta'), 'mt940');
+  assert.equal(detectStatementFormat('export.txt', 'OFXHEADER:100\n<OFX>'), 'ofx');
+  assert.equal(detectStatementFormat('export.txt', ':20:REF\n:61:2601150115C1,00NTRFX'), 'mt940');
+  assert.equal(detectStatementFormat('export.txt', 'Date,Amount'), 'csv');
+});
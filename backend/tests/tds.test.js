@@ -0,0 +1,110 @@
+// backend/tests/tds.test.js - TDS withholding on interest payouts
+// calculateWithholding is given the interest and TDS already booked in the financial year, as
+// withholdingForPayment loads them, so the threshold catch-up is checked payment by payment.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_TDS_RATE, calculateWithholding, resolveTdsRate } from '../services/tds.js';
+
+const taxSettings = {
+  tdsEnabled: true,
+  tdsSection: '194A',
+  financialYearStart: 'April',
+  tdsRates: [{ financialYear: '2026-27', rate: 10, noPanRate: 20, threshold: 5000 }]
+};
+
+const verified = { kyc: { panNumber: 'ABCPE1234F', verificationStatus: 'verified' }, taxExemptions: [] };
+const withoutPan = { kyc: { verificationStatus: 'pending' }, taxExemptions: [] };
+
+const day = (date) => new Date(`${date}T00:00:00.000Z`);
+
+// Monthly interest of 1500 from April, each payment seeing the year's totals so far
+const payYear = (investor, months) => {
+  const yearToDate = { interest: 0, tds: 0 };
+  return months.map(date => {
+    const { tdsAmount, tds } = calculateWithholding({
+      taxSettings,
+      investor,
+      interestAmount: 1500,
+      paymentDate: day(date),
+      yearToDate: { ...yearToDate },
+      maxAmount: 1500
+    });
+    yearToDate.interest += 1500;
+    yearToDate.tds += tdsAmount;
+    return [tdsAmount, tds.basis];
+  });
+};
+
+test('tds: nothing is withheld until the year crosses the threshold, then the skipped tax is caught up', () => {
+  assert.deepEqual(payYear(verified, ['2026-04-30', '2026-05-31', '2026-06-30', '2026-07-31', '2026-08-31']), [
+    [0, 'below_threshold'],
+    [0, 'below_threshold'],
+    [0, 'below_threshold'],
+    // 10% of the 6000 earned so far, including the three payouts that were below the threshold
+    [600, 'standard'],
+    [150, 'standard']
+  ]);
+});
+
+test('tds: without a verified PAN the no-PAN rate applies to the catch-up', () => {
+  assert.deepEqual(payYear(withoutPan, ['2026-04-30', '2026-05-31', '2026-06-30', '2026-07-31']).at(-1), [1200, 'no_pan']);
+});
+
+test('tds: the catch-up is capped at the payment amount and carried to the next payment', () => {
+  const crossing = calculateWithholding({
+    taxSettings,
+    investor: withoutPan,
+    interestAmount: 1500,
+    paymentDate: day('2026-08-31'),
+    yearToDate: { interest: 4500, tds: 0 },
+    maxAmount: 1000
+  });
+  assert.equal(crossing.tdsAmount, 1000);
+
+  const next = calculateWithholding({
+    taxSettings,
+    investor: withoutPan,
+    interestAmount: 1500,
+    paymentDate: day('2026-09-30'),
+    yearToDate: { interest: 6000, tds: 1000 },
+    maxAmount: 1500
+  });
+  // 20% of 7500 is 1500, of which 1000 was withheld
+  assert.equal(next.tdsAmount, 500);
+});
+
+test('tds: a new financial year starts below the threshold again', () => {
+  const { tdsAmount, tds } = calculateWithholding({
+    taxSettings,
+    investor: verified,
+    interestAmount: 1500,
+    paymentDate: day('2027-04-30'),
+    yearToDate: { interest: 0, tds: 0 },
+    maxAmount: 1500
+  });
+  assert.equal(tdsAmount, 0);
+  assert.deepEqual(tds, { financialYear: '2027-28', quarter: 1, section: '194A', rate: 10, basis: 'below_threshold' });
+});
+
+test('tds: Form 15G/15H exempts the year only with a verified PAN', () => {
+  const exemptions = [{ financialYear: '2026-27', form: '15G' }];
+  const args = { taxSettings, interestAmount: 1500, paymentDate: day('2026-08-31'), yearToDate: { interest: 4500, tds: 0 }, maxAmount: 1500 };
+
+  const exempt = calculateWithholding({ ...args, investor: { ...verified, taxExemptions: exemptions } });
+  assert.equal(exempt.tdsAmount, 0);
+  assert.deepEqual([exempt.tds.basis, exempt.tds.exemptionForm], ['exempt', '15G']);
+
+  const unverified = calculateWithholding({ ...args, investor: { ...withoutPan, taxExemptions: exemptions } });
+  assert.deepEqual([unverified.tdsAmount, unverified.tds.basis], [1200, 'no_pan']);
+});
+
+test('tds: a year uses its own rates, else the latest earlier year, else the defaults', () => {
+  const rates = [
+    { financialYear: '2025-26', rate: 7.5, noPanRate: 20, threshold: 5000 },
+    { financialYear: '2027-28', rate: 10, noPanRate: 20, threshold: 10000 }
+  ];
+  assert.equal(resolveTdsRate(rates, '2026-27').rate, 7.5);
+  assert.equal(resolveTdsRate(rates, '2027-28').threshold, 10000);
+  assert.equal(resolveTdsRate(rates, '2024-25'), DEFAULT_TDS_RATE);
+  assert.deepEqual(calculateWithholding({ taxSettings: { ...taxSettings, tdsEnabled: false }, interestAmount: 1500 }), { tdsAmount: 0 });
+});
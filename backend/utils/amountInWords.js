@@ -0,0 +1,50 @@
+// backend/utils/amountInWords.js - Rupee amounts in words using the Indian numbering system
+// e.g. 125000.5 -> "Rupees One Lakh Twenty Five Thousand and Fifty Paise Only"
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const belowHundred = (n) => (n < 20 ? ONES[n] : `${TENS[Math.floor(n / 10)]} ${ONES[n % 10]}`.trim());
+
+const belowThousand = (n) => {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  return [hundreds ? `${ONES[hundreds]} Hundred` : '', rest ? belowHundred(rest) : ''].filter(Boolean).join(' ');
+};
+
+// Whole number in words: crore, lakh, thousand, hundred
+export const numberToWords = (value) => {
+  let n = Math.floor(Math.abs(value));
+  if (n === 0) return 'Zero';
+
+  const parts = [];
+  const crores = Math.floor(n / 10000000);
+  n %= 10000000;
+  if (crores) parts.push(`${numberToWords(crores)} Crore`);
+
+  const lakhs = Math.floor(n / 100000);
+  n %= 100000;
+  if (lakhs) parts.push(`${belowHundred(lakhs)} Lakh`);
+
+  const thousands = Math.floor(n / 1000);
+  n %= 1000;
+  if (thousands) parts.push(`${belowHundred(thousands)} Thousand`);
+
+  if (n) parts.push(belowThousand(n));
+
+  return parts.join(' ');
+};
+
+export const amountInWords = (amount) => {
+  const paiseTotal = Math.round(Math.abs(amount) * 100);
+  const rupees = Math.floor(paiseTotal / 100);
+  const paise = paiseTotal % 100;
+
+  const words = [`Rupees ${numberToWords(rupees)}`];
+  if (paise) words.push(`and ${belowHundred(paise)} Paise`);
+  words.push('Only');
+  return words.join(' ');
+};
@@ -0,0 +1,168 @@
+// backend/utils/bankFileFormats.js - Bank bulk-payment (NEFT/RTGS) upload file templates
+// Each template lists its columns in order; `value(row, context)` reads from a payout row:
+//   { reference, beneficiaryName, accountNumber, ifscCode, bankName, amount, transferMode,
+//     investorId, investmentId, scheduleMonth, narration }
+// context: { paymentDate, debitAccount }
+// Bank layouts approximate each bank's corporate bulk-upload template; confirm the column order
+// against the bank's current template before go-live. Adding a bank only needs a template here.
+import { roundCurrency } from '../../shared/scheduleEngine.js';
+import { bankAccountError, ifscError } from '../../shared/identityValidation.js';
+
+export const TRANSFER_MODES = ['NEFT', 'RTGS', 'IMPS'];
+
+// RBI floor for RTGS; smaller amounts go by NEFT when the mode is left to auto
+export const RTGS_MINIMUM = 200000;
+
+const pad = (value) => String(value).padStart(2, '0');
+
+const formatDate = (date, pattern) => {
+  const d = new Date(date);
+  const parts = { DD: pad(d.getUTCDate()), MM: pad(d.getUTCMonth() + 1), YYYY: String(d.getUTCFullYear()) };
+  return pattern.replace(/DD|MM|YYYY/g, token => parts[token]);
+};
+
+// Banks reject most punctuation in beneficiary names and narrations
+const sanitize = (value, maxLength) => String(value || '')
+  .replace(/[^A-Za-z0-9 .\-/]/g, ' ')
+  .replace(/\s+/g, ' ')
+  .trim()
+  .slice(0, maxLength);
+
+const amount = (value) => roundCurrency(value).toFixed(2);
+
+// Unused positions in fixed-layout templates
+const blankColumns = (count) => Array.from({ length: count }, () => ({ value: () => '' }));
+
+export const resolveTransferMode = (value, requested = 'auto') => {
+  if (TRANSFER_MODES.includes(requested)) return requested;
+  return value >= RTGS_MINIMUM ? 'RTGS' : 'NEFT';
+};
+
+// Problems that would make the bank reject the row
+export const validatePayoutRow = (row) => {
+  const errors = [];
+  if (!row.beneficiaryName || !sanitize(row.beneficiaryName, 100)) errors.push('Beneficiary name is missing');
+  const accountError = bankAccountError(row.accountNumber);
+  if (accountError) errors.push(accountError);
+  const ifscCodeError = ifscError(row.ifscCode);
+  if (ifscCodeError) errors.push(ifscCodeError);
+  if (!(row.amount > 0)) errors.push('Amount must be positive');
+  if (row.transferMode === 'RTGS' && row.amount < RTGS_MINIMUM) {
+    errors.push(`RTGS needs at least ${RTGS_MINIMUM}`);
+  }
+  return errors;
+};
+
+export const BANK_FILE_FORMATS = {
+  generic_csv: {
+    label: 'Generic CSV',
+    extension: 'csv',
+    header: true,
+    columns: [
+      { header: 'Reference', value: row => row.reference },
+      { header: 'Beneficiary Name', value: row => sanitize(row.beneficiaryName, 100) },
+      { header: 'Account Number', value: row => row.accountNumber },
+      { header: 'IFSC Code', value: row => row.ifscCode },
+      { header: 'Bank Name', value: row => row.bankName || '' },
+      { header: 'Amount', value: row => amount(row.amount) },
+      { header: 'Transfer Mode', value: row => row.transferMode },
+      { header: 'Payment Date', value: (row, context) => formatDate(context.paymentDate, 'DD/MM/YYYY') },
+      { header: 'Investor ID', value: row => row.investorId },
+      { header: 'Investment ID', value: row => row.investmentId },
+      { header: 'Narration', value: row => sanitize(row.narration, 100) }
+    ]
+  },
+  // HDFC Bank ENet bulk upload: no header row, transaction type N (NEFT) / R (RTGS) / I (IMPS)
+  hdfc_enet: {
+    label: 'HDFC Bank ENet',
+    extension: 'txt',
+    header: false,
+    columns: [
+      { value: row => ({ NEFT: 'N', RTGS: 'R', IMPS: 'I' }[row.transferMode]) },
+      { value: row => sanitize(row.investorId, 13) },
+      { value: row => row.accountNumber },
+      { value: row => amount(row.amount) },
+      { value: row => sanitize(row.beneficiaryName, 40) },
+      ...blankColumns(8),
+      { value: row => sanitize(row.reference, 20) },
+      { value: row => sanitize(row.narration, 30) },
+      ...blankColumns(7),
+      { value: (row, context) => formatDate(context.paymentDate, 'DD/MM/YYYY') },
+      ...blankColumns(1),
+      { value: row => row.ifscCode },
+      { value: row => sanitize(row.bankName, 40) },
+      ...blankColumns(2)
+    ]
+  },
+  // ICICI Bank CIB bulk payment upload
+  icici_cib: {
+    label: 'ICICI Bank CIB',
+    extension: 'csv',
+    header: true,
+    columns: [
+      { header: 'Debit Ac No', value: (row, context) => context.debitAccount || '' },
+      { header: 'Beneficiary Ac No', value: row => row.accountNumber },
+      { header: 'Beneficiary Name', value: row => sanitize(row.beneficiaryName, 32) },
+      { header: 'Amt', value: row => amount(row.amount) },
+      { header: 'Pay Mod', value: row => ({ NEFT: 'N', RTGS: 'R', IMPS: 'M' }[row.transferMode]) },
+      { header: 'Date', value: (row, context) => formatDate(context.paymentDate, 'DD-MM-YYYY') },
+      { header: 'IFSC', value: row => row.ifscCode },
+      { header: 'Payable Location', value: () => '' },
+      { header: 'Print Location', value: () => '' },
+      { header: 'Bene Mobile No.', value: () => '' },
+      { header: 'Bene Email ID', value: () => '' },
+      { header: 'Bene add1', value: () => '' },
+      { header: 'Bene add2', value: () => '' },
+      { header: 'Bene add3', value: () => '' },
+      { header: 'Bene add4', value: () => '' },
+      { header: 'Add Details 1', value: row => sanitize(row.reference, 30) },
+      { header: 'Add Details 2', value: row => sanitize(row.investmentId, 30) },
+      { header: 'Add Details 3', value: () => '' },
+      { header: 'Add Details 4', value: () => '' },
+      { header: 'Add Details 5', value: () => '' },
+      { header: 'Remarks', value: row => sanitize(row.narration, 30) }
+    ]
+  },
+  // SBI CMP (Cash Management Product) bulk upload, pipe delimited
+  sbi_cmp: {
+    label: 'SBI CMP',
+    extension: 'txt',
+    header: false,
+    delimiter: '|',
+    columns: [
+      { value: row => sanitize(row.reference, 16) },
+      { value: row => row.transferMode },
+      { value: row => row.accountNumber },
+      { value: row => row.ifscCode },
+      { value: row => sanitize(row.beneficiaryName, 35) },
+      { value: row => amount(row.amount) },
+      { value: (row, context) => formatDate(context.paymentDate, 'DD/MM/YYYY') },
+      { value: row => sanitize(row.narration, 30) }
+    ]
+  }
+};
+
+const escapeField = (value, delimiter) => {
+  const text = String(value ?? '');
+  return text.includes(delimiter) || text.includes('"') || text.includes('\n')
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+};
+
+export const buildBankFile = (formatKey, rows, context) => {
+  const format = BANK_FILE_FORMATS[formatKey];
+  if (!format) {
+    throw new Error(`Unknown bank file format: ${formatKey}`);
+  }
+
+  const delimiter = format.delimiter || ',';
+  const lines = rows.map(row => format.columns
+    .map(column => escapeField(column.value(row, context), delimiter))
+    .join(delimiter));
+
+  if (format.header) {
+    lines.unshift(format.columns.map(column => escapeField(column.header, delimiter)).join(delimiter));
+  }
+
+  return `${lines.join('\r\n')}\r\n`;
+};
@@ -0,0 +1,37 @@
+// backend/utils/chartOfAccounts.js - General ledger accounts and their normal balances
+// Assets and expenses carry a debit balance; liabilities and income carry a credit balance.
+// key names the account in Settings.accounting.ledgerNames (the ledger used in exports).
+
+export const ACCOUNTS = {
+  CASH: '1000',
+  INVESTOR_PRINCIPAL: '2000',
+  INTEREST_PAYABLE: '2100',
+  TDS_PAYABLE: '2200',
+  PENALTY_INCOME: '4000',
+  INTEREST_EXPENSE: '5000',
+  LATE_FEE_EXPENSE: '5100',
+  BONUS_EXPENSE: '5200'
+};
+
+export const CHART_OF_ACCOUNTS = [
+  { code: ACCOUNTS.CASH, key: 'cash', name: 'Cash / Bank', type: 'asset', description: 'Money received from and paid out to investors' },
+  { code: ACCOUNTS.INVESTOR_PRINCIPAL, key: 'investorPrincipal', name: 'Investor Principal', type: 'liability', description: 'Principal owed back to investors' },
+  { code: ACCOUNTS.INTEREST_PAYABLE, key: 'interestPayable', name: 'Interest Payable', type: 'liability', description: 'Interest accrued on due payouts and not yet paid' },
+  { code: ACCOUNTS.TDS_PAYABLE, key: 'tdsPayable', name: 'TDS Payable', type: 'liability', description: 'Tax withheld from interest, owed to the government' },
+  { code: ACCOUNTS.PENALTY_INCOME, key: 'penaltyIncome', name: 'Prepayment Penalty Income', type: 'income', description: 'Penalties kept on early withdrawals and closures' },
+  { code: ACCOUNTS.INTEREST_EXPENSE, key: 'interestExpense', name: 'Interest Expense', type: 'expense', description: 'Interest earned by investors' },
+  { code: ACCOUNTS.LATE_FEE_EXPENSE, key: 'lateFeeExpense', name: 'Late Fee Expense', type: 'expense', description: 'Late fees paid to investors on overdue payouts' },
+  { code: ACCOUNTS.BONUS_EXPENSE, key: 'bonusExpense', name: 'Bonus Expense', type: 'expense', description: 'Bonuses paid to investors' }
+];
+
+export const ACCOUNT_CODES = CHART_OF_ACCOUNTS.map(account => account.code);
+
+export const findAccount = (code) => CHART_OF_ACCOUNTS.find(account => account.code === code);
+
+export const isDebitNormal = (code) => ['asset', 'expense'].includes(findAccount(code)?.type);
+
+// Balance on the account's normal side: positive for a debit on asset/expense accounts,
+// positive for a credit on liability/income accounts
+export const normalBalance = (code, debit, credit) => (
+  isDebitNormal(code) ? debit - credit : credit - debit
+);
@@ -0,0 +1,91 @@
+// backend/utils/cron.js - Minimal five-field cron expressions (minute hour day month weekday)
+// Supports `*`, single values, ranges (`1-5`), lists (`1,15`) and steps (`*/15`, `0-30/10`).
+// Times are evaluated in the server's local timezone.
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'weekday', min: 0, max: 6 }
+];
+
+const parseField = (part, { name, min, max }) => {
+  const values = new Set();
+
+  part.split(',').forEach(item => {
+    const [range, stepText] = item.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    let [from, to] = range === '*' ? [min, max] : range.split('-').map(Number);
+    if (to === undefined) to = stepText === undefined ? from : max;
+
+    if (![from, to, step].every(Number.isInteger) || step < 1 || from < min || to > max || from > to) {
+      throw new Error(`Invalid cron ${name} field: ${part}`);
+    }
+
+    for (let value = from; value <= to; value += step) values.add(value);
+  });
+
+  return values;
+};
+
+export const parseCron = (expression) => {
+  const parts = String(expression).trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new Error(`Cron expression must have ${FIELDS.length} fields: ${expression}`);
+  }
+
+  const [minute, hour, day, month, weekday] = parts.map((part, index) => parseField(part, FIELDS[index]));
+  return {
+    minute,
+    hour,
+    day,
+    month,
+    weekday,
+    // Standard cron: when both day fields are restricted, either may match
+    anyDay: parts[2] !== '*' && parts[4] !== '*'
+  };
+};
+
+export const isValidCron = (expression) => {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// First matching minute strictly after `from`
+export const nextCronRun = (expression, from = new Date()) => {
+  const cron = parseCron(expression);
+  const candidate = new Date(from);
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  const limit = new Date(candidate);
+  limit.setFullYear(limit.getFullYear() + 5);
+
+  const dayMatches = (date) => {
+    const dayOfMonth = cron.day.has(date.getDate());
+    const dayOfWeek = cron.weekday.has(date.getDay());
+    return cron.anyDay ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+  };
+
+  while (candidate < limit) {
+    if (!cron.month.has(candidate.getMonth() + 1)) {
+      candidate.setMonth(candidate.getMonth() + 1, 1);
+      candidate.setHours(0, 0, 0, 0);
+    } else if (!dayMatches(candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0, 0, 0);
+    } else if (!cron.hour.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+    } else if (!cron.minute.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+    } else {
+      return candidate;
+    }
+  }
+
+  throw new Error(`Cron expression never matches: ${expression}`);
+};
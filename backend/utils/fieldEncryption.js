@@ -0,0 +1,130 @@
+// backend/utils/fieldEncryption.js - Field-level encryption for sensitive identifiers
+// Values are sealed with AES-256-GCM under the active key and stored as
+// enc:<keyId>:<iv>:<tag>:<ciphertext>. Retired keys stay in the ring so older values still open;
+// the field-key-rotation job re-seals them under the active key.
+//
+//   FIELD_ENCRYPTION_KEYS  keyId:base64 32-byte keys, comma-separated, active key first
+//   FIELD_HASH_KEY         secret for the blind indexes used for exact-match lookups
+import crypto from 'crypto';
+
+const PREFIX = 'enc';
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+let keyring = null;
+
+const deriveKey = (label) => crypto.createHash('sha256')
+  .update(`${label}:${process.env.JWT_SECRET || 'development'}`)
+  .digest();
+
+// Read lazily: the environment is loaded after modules are imported
+const loadKeyring = () => {
+  if (keyring) return keyring;
+
+  const entries = (process.env.FIELD_ENCRYPTION_KEYS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+
+  let keys;
+  if (entries.length) {
+    keys = entries.map(entry => {
+      const separator = entry.indexOf(':');
+      const id = entry.slice(0, separator);
+      const key = Buffer.from(entry.slice(separator + 1), 'base64');
+      if (separator < 1 || !KEY_ID_PATTERN.test(id) || key.length !== 32) {
+        throw new Error('FIELD_ENCRYPTION_KEYS entries must look like keyId:<base64 of 32 random bytes>');
+      }
+      return { id, key };
+    });
+  } else {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('FIELD_ENCRYPTION_KEYS must be set in production');
+    }
+    console.warn('⚠️ FIELD_ENCRYPTION_KEYS not set; sensitive fields use a development key derived from JWT_SECRET');
+    keys = [{ id: 'dev', key: deriveKey('field-encryption') }];
+  }
+
+  if (!process.env.FIELD_HASH_KEY && process.env.NODE_ENV === 'production') {
+    throw new Error('FIELD_HASH_KEY must be set in production');
+  }
+
+  keyring = {
+    active: keys[0],
+    keys: new Map(keys.map(({ id, key }) => [id, key])),
+    hashKey: process.env.FIELD_HASH_KEY || deriveKey('field-hash')
+  };
+  return keyring;
+};
+
+export const isEncrypted = (value) => typeof value === 'string' && value.startsWith(`${PREFIX}:`);
+
+// Sealed under a retired key, or never sealed at all (stored before encryption was introduced)
+export const needsResealing = (value) => {
+  if (value === undefined || value === null || value === '') return false;
+  return !isEncrypted(value) || value.split(':')[1] !== loadKeyring().active.id;
+};
+
+const unseal = (value) => {
+  const [, keyId, iv, tag, ciphertext] = value.split(':');
+  const key = loadKeyring().keys.get(keyId);
+  if (!key) {
+    throw new Error(`Field encryption key "${keyId}" is not in FIELD_ENCRYPTION_KEYS`);
+  }
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'), { authTagLength: 16 });
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+};
+
+// Sealed here: a well-formed value under a key in the ring that passes its authentication tag.
+// Anything else that merely starts with "enc:" came from outside.
+export const isSealed = (value) => {
+  if (!isEncrypted(value) || value.split(':').length !== 5) return false;
+  try {
+    unseal(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Sealed values pass through, so assigning a stored value back is harmless; anything else is
+// sealed, a client-supplied "enc:" string included, and left to the validators to reject
+export const encryptField = (value) => {
+  if (value === undefined || value === null || value === '' || isSealed(value)) return value;
+
+  const { active } = loadKeyring();
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', active.key, iv);
+  const ciphertext = Buffer.concat([cipher.update(String(value), 'utf8'), cipher.final()]);
+  return [PREFIX, active.id, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':');
+};
+
+// Plain values stored before encryption was introduced are returned as they are
+export const decryptField = (value) => (isEncrypted(value) ? unseal(value) : value);
+
+// Keyed hash for exact-match lookups on an encrypted field; case and spacing are ignored
+export const blindIndex = (value) => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const normalized = String(value).toUpperCase().replace(/\s/g, '');
+  return crypto.createHmac('sha256', loadKeyring().hashKey).update(normalized).digest('hex');
+};
+
+// Schema path for an encrypted string. Setters seal and getters open, so code reading the
+// document sees the plain value; `pattern` is checked against the plain value, and a plain
+// value that is itself an "enc:" string is refused.
+export const encryptedString = ({ pattern, message, normalize, ...options } = {}) => ({
+  type: String,
+  ...options,
+  set: (value) => encryptField(normalize && typeof value === 'string' ? normalize(value) : value),
+  get: decryptField,
+  validate: [
+    {
+      validator: (value) => !value || !isEncrypted(decryptField(value)),
+      message: 'Send the plain value, not an encrypted one'
+    },
+    ...(pattern ? [{
+      validator: (value) => !value || pattern.test(decryptField(value)),
+      message
+    }] : [])
+  ]
+});
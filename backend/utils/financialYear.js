@@ -0,0 +1,56 @@
+// backend/utils/financialYear.js - Financial years and quarters from Settings.financial.financialYearStart
+// A year starting in January is labelled by its calendar year ("2026"); any other start spans two
+// calendar years and is labelled "2026-27". Quarters are numbered 1-4 from the start of the year.
+const START_MONTHS = {
+  January: 0,
+  April: 3,
+  July: 6,
+  October: 9
+};
+
+const startMonthOf = (yearStart) => START_MONTHS[yearStart] ?? START_MONTHS.April;
+
+const labelFor = (startYear, startMonth) => (startMonth === 0
+  ? String(startYear)
+  : `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`);
+
+const rangeFor = (startYear, startMonth) => ({
+  start: new Date(Date.UTC(startYear, startMonth, 1)),
+  end: new Date(Date.UTC(startYear + 1, startMonth, 0, 23, 59, 59, 999))
+});
+
+// Financial year a date falls in: { label, start, end }
+export const financialYearOf = (date, yearStart = 'April') => {
+  const value = new Date(date);
+  const startMonth = startMonthOf(yearStart);
+  const startYear = value.getUTCMonth() >= startMonth ? value.getUTCFullYear() : value.getUTCFullYear() - 1;
+  return { label: labelFor(startYear, startMonth), ...rangeFor(startYear, startMonth) };
+};
+
+// Quarter (1-4) of its financial year that a date falls in
+export const financialQuarterOf = (date, yearStart = 'April') => {
+  const value = new Date(date);
+  const monthsIn = (value.getUTCMonth() - startMonthOf(yearStart) + 12) % 12;
+  return Math.floor(monthsIn / 3) + 1;
+};
+
+export const isFinancialYearLabel = (label) => /^\d{4}(-\d{2})?$/.test(label);
+
+// Date range of a labelled financial year, optionally narrowed to one quarter; null if the
+// label does not fit the configured start month
+export const financialPeriodRange = (label, yearStart = 'April', quarter = null) => {
+  const startMonth = startMonthOf(yearStart);
+  const startYear = parseInt(label.slice(0, 4));
+  if (!isFinancialYearLabel(label) || labelFor(startYear, startMonth) !== label) {
+    return null;
+  }
+
+  if (!quarter) {
+    return rangeFor(startYear, startMonth);
+  }
+  const firstMonth = startMonth + (quarter - 1) * 3;
+  return {
+    start: new Date(Date.UTC(startYear, firstMonth, 1)),
+    end: new Date(Date.UTC(startYear, firstMonth + 3, 0, 23, 59, 59, 999))
+  };
+};
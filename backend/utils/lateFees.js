@@ -0,0 +1,60 @@
+// backend/utils/lateFees.js - Late fee accrual on unpaid schedule rows
+// A row that is still unpaid once the grace period lapses accrues a late fee for
+// every month (or part month) since its due date: either a flat amount or a
+// percentage of the amount still due. Accrued fees are stored on the row and never
+// shrink, so a partial payment does not undo a fee that has already been charged.
+import { roundCurrency } from '../../shared/scheduleEngine.js';
+
+export const LATE_FEE_TYPES = ['flat', 'percentage'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_FEE_MONTH = 30;
+
+// Plan/investment override, otherwise Settings.financial.defaultLateFee as a percentage
+export const resolveLateFeePolicy = (source = {}, financial = {}) => {
+  const hasOverride = source.lateFeeRate !== null && source.lateFeeRate !== undefined;
+
+  return {
+    type: hasOverride ? (source.lateFeeType || 'percentage') : 'percentage',
+    rate: hasOverride ? source.lateFeeRate : (financial.defaultLateFee ?? 0),
+    gracePeriodDays: financial.gracePeriodDays ?? 0
+  };
+};
+
+export const daysLate = (row, asOf = new Date()) => {
+  return Math.max(0, Math.floor((new Date(asOf) - new Date(row.dueDate)) / DAY_MS));
+};
+
+// Fee accrued on a row as of `asOf`; rows already settled keep whatever they accrued
+export const accruedLateFee = (row, policy, asOf = new Date()) => {
+  const stored = row.penaltyAccrued || 0;
+  const late = daysLate(row, asOf);
+
+  if (row.status === 'paid' || late <= policy.gracePeriodDays || !policy.rate) {
+    return stored;
+  }
+
+  const amountDue = Math.max(0, row.totalAmount - (row.paidAmount || 0));
+  const monthlyFee = policy.type === 'flat' ? policy.rate : amountDue * policy.rate / 100;
+  const fee = monthlyFee * Math.ceil(late / DAYS_PER_FEE_MONTH);
+
+  return roundCurrency(Math.max(stored, fee));
+};
+
+export const summarizeLateFee = (row, policy, asOf = new Date()) => {
+  const accrued = accruedLateFee(row, policy, asOf);
+  const paid = row.penaltyPaid || 0;
+  const waived = row.penaltyWaived || 0;
+
+  return {
+    month: row.month,
+    period: row.period ?? row.month,
+    dueDate: row.dueDate,
+    status: row.status,
+    daysLate: daysLate(row, asOf),
+    accrued,
+    paid,
+    waived,
+    outstanding: roundCurrency(Math.max(0, accrued - paid - waived))
+  };
+};
@@ -0,0 +1,37 @@
+// backend/utils/masking.js - Masked forms of sensitive identifiers for responses, exports and emails
+// Only the last four characters are kept. Full values leave the server only where they are
+// required: bank payout files, the TDS filing export and an admin's audited reveal.
+
+const lastFour = (value) => String(value).replace(/[\s-]/g, '').slice(-4);
+
+export const maskPan = (pan) => (pan ? `XXXXXX${lastFour(pan)}` : pan);
+
+export const maskAadhaar = (aadhaar) => (aadhaar ? `XXXX-XXXX-${lastFour(aadhaar)}` : aadhaar);
+
+export const maskAccount = (accountNumber) => (accountNumber ? `XXXX${lastFour(accountNumber)}` : accountNumber);
+
+// Identity fields of an investor's kyc (plain values in), masked for display
+export const maskKycIdentity = (kyc) => ({
+  panNumber: maskPan(kyc?.panNumber),
+  aadharNumber: maskAadhaar(kyc?.aadharNumber),
+  bankDetails: {
+    accountNumber: maskAccount(kyc?.bankDetails?.accountNumber),
+    ifscCode: kyc?.bankDetails?.ifscCode,
+    bankName: kyc?.bankDetails?.bankName,
+    branchName: kyc?.bankDetails?.branchName
+  }
+});
+
+// Forms send back the masked values they were shown; those mean "unchanged" and are dropped
+export const dropMaskedValues = (kycUpdate, kyc) => {
+  if (!kycUpdate) return kycUpdate;
+  const masked = maskKycIdentity(kyc);
+  const update = { ...kycUpdate };
+  if (update.panNumber && update.panNumber === masked.panNumber) delete update.panNumber;
+  if (update.aadharNumber && update.aadharNumber === masked.aadharNumber) delete update.aadharNumber;
+  if (update.bankDetails?.accountNumber && update.bankDetails.accountNumber === masked.bankDetails.accountNumber) {
+    const { accountNumber, ...bankDetails } = update.bankDetails;
+    update.bankDetails = bankDetails;
+  }
+  return update;
+};
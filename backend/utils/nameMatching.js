@@ -0,0 +1,56 @@
+// backend/utils/nameMatching.js - Loose comparison of personal names for duplicate detection
+// Two names are similar when they have the same words in any order, when every word of the
+// shorter one (at least two words) appears in the longer one with initials standing in for
+// words, or when the whole names are within one edit in five.
+
+const HONORIFICS = new Set(['mr', 'mrs', 'ms', 'miss', 'dr', 'shri', 'sri', 'smt', 'kumari']);
+
+export const nameTokens = (name) => String(name || '')
+  .toLowerCase()
+  .replace(/[^a-z\s]/g, ' ')
+  .split(/\s+/)
+  .filter(token => token && !HONORIFICS.has(token));
+
+const editDistance = (a, b) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const tokensMatch = (a, b) => a === b
+  || (a.length === 1 && b.startsWith(a))
+  || (b.length === 1 && a.startsWith(b));
+
+export const namesSimilar = (a, b) => {
+  const left = nameTokens(a);
+  const right = nameTokens(b);
+  if (left.length === 0 || right.length === 0) return false;
+
+  const sortedLeft = [...left].sort().join(' ');
+  const sortedRight = [...right].sort().join(' ');
+  if (sortedLeft === sortedRight) return true;
+
+  const [shorter, longer] = left.length <= right.length ? [left, right] : [right, left];
+  if (shorter.length >= 2) {
+    const remaining = [...longer];
+    const covered = shorter.every(token => {
+      const index = remaining.findIndex(other => tokensMatch(token, other));
+      if (index === -1) return false;
+      remaining.splice(index, 1);
+      return true;
+    });
+    if (covered) return true;
+  }
+
+  return editDistance(sortedLeft, sortedRight) / Math.max(sortedLeft.length, sortedRight.length) <= 0.2;
+};
@@ -0,0 +1,127 @@
+// backend/utils/paymentAllocation.js - Distribute one payment across schedule rows
+// The waterfall is an order of components (penalty, interest, principal) plus a strategy:
+//   component_first - settle each component across all rows, oldest row first, before
+//                     moving on to the next component (the default)
+//   row_by_row      - settle every component of the oldest row before the next row
+import { roundCurrency } from '../../shared/scheduleEngine.js';
+
+export const ALLOCATION_COMPONENTS = ['penalty', 'interest', 'principal'];
+export const ALLOCATION_STRATEGIES = ['component_first', 'row_by_row'];
+
+const isComponentOrder = (order) =>
+  Array.isArray(order) &&
+  order.length === ALLOCATION_COMPONENTS.length &&
+  ALLOCATION_COMPONENTS.every(component => order.includes(component));
+
+// Plan/investment waterfall, falling back to penalty -> interest -> principal
+export const resolveWaterfall = (source = {}) => ({
+  order: isComponentOrder(source.allocationOrder) ? [...source.allocationOrder] : [...ALLOCATION_COMPONENTS],
+  strategy: ALLOCATION_STRATEGIES.includes(source.allocationStrategy) ? source.allocationStrategy : 'component_first'
+});
+
+export const isValidAllocationOrder = isComponentOrder;
+
+// Still owed on a row by component; paidAmount covers interest before principal
+// (as in Investment.updatePaymentStatus), late fees are tracked separately
+export const rowOutstanding = (row) => {
+  const paid = row.paidAmount || 0;
+  const interest = Math.max(0, row.interestAmount - Math.min(paid, row.interestAmount));
+
+  return {
+    penalty: roundCurrency(Math.max(0, (row.penaltyAccrued || 0) - (row.penaltyPaid || 0) - (row.penaltyWaived || 0))),
+    interest: roundCurrency(interest),
+    principal: roundCurrency(Math.max(0, row.totalAmount - paid - interest))
+  };
+};
+
+export const totalOutstanding = (schedule) => roundCurrency(schedule.reduce((sum, row) => {
+  const owed = rowOutstanding(row);
+  return sum + owed.penalty + owed.interest + owed.principal;
+}, 0));
+
+// Rows a recorded payment was applied to; payments from before allocations were
+// stored settled a single schedule month with their own breakdown
+export const paymentAllocations = (payment) => {
+  if (payment.allocations && payment.allocations.length > 0) {
+    return payment.allocations.map(allocation => ({
+      scheduleMonth: allocation.scheduleMonth,
+      penaltyAmount: allocation.penaltyAmount || 0,
+      interestAmount: allocation.interestAmount || 0,
+      principalAmount: allocation.principalAmount || 0,
+      bonusAmount: allocation.bonusAmount || 0,
+      amount: allocation.amount
+    }));
+  }
+
+  return [{
+    scheduleMonth: payment.scheduleMonth,
+    penaltyAmount: payment.penaltyAmount || 0,
+    interestAmount: payment.interestAmount || 0,
+    principalAmount: payment.principalAmount || 0,
+    bonusAmount: payment.bonusAmount || 0,
+    amount: payment.amount
+  }];
+};
+
+// First allocation paying more than its row still owes, with what the row owes, or null. A bonus
+// is paid on top of the row, and a late fee the payment waives on its own month is no longer owed.
+export const overpaidAllocation = (schedule, allocations, { scheduleMonth, penaltyWaived = 0 } = {}) => {
+  for (const allocation of allocations) {
+    const owed = rowOutstanding(schedule.find(row => row.month === allocation.scheduleMonth));
+    const due = roundCurrency(owed.penalty + owed.interest + owed.principal);
+    const waived = allocation.scheduleMonth === scheduleMonth ? penaltyWaived || 0 : 0;
+    if (allocation.amount - (allocation.bonusAmount || 0) + waived - due > 0.01) {
+      return { scheduleMonth: allocation.scheduleMonth, due };
+    }
+  }
+  return null;
+};
+
+// Proposed split of `amount`; anything left once every row is settled is returned as `unallocated`
+export const allocatePayment = (schedule, amount, waterfall = resolveWaterfall()) => {
+  const rows = [...schedule]
+    .sort((a, b) => a.month - b.month)
+    .map(row => ({ row, owed: rowOutstanding(row), applied: { penalty: 0, interest: 0, principal: 0 } }));
+
+  let remaining = roundCurrency(amount);
+
+  const apply = (entry, component) => {
+    const share = Math.min(remaining, entry.owed[component]);
+    if (share <= 0) return;
+    entry.applied[component] = roundCurrency(entry.applied[component] + share);
+    entry.owed[component] = roundCurrency(entry.owed[component] - share);
+    remaining = roundCurrency(remaining - share);
+  };
+
+  if (waterfall.strategy === 'row_by_row') {
+    rows.forEach(entry => waterfall.order.forEach(component => apply(entry, component)));
+  } else {
+    waterfall.order.forEach(component => rows.forEach(entry => apply(entry, component)));
+  }
+
+  const allocations = rows
+    .filter(({ applied }) => applied.penalty + applied.interest + applied.principal > 0)
+    .map(({ row, applied }) => ({
+      scheduleMonth: row.month,
+      period: row.period ?? row.month,
+      dueDate: row.dueDate,
+      penaltyAmount: applied.penalty,
+      interestAmount: applied.interest,
+      principalAmount: applied.principal,
+      bonusAmount: 0,
+      amount: roundCurrency(applied.penalty + applied.interest + applied.principal)
+    }));
+
+  const sum = (field) => roundCurrency(allocations.reduce((total, allocation) => total + allocation[field], 0));
+
+  return {
+    waterfall,
+    allocations,
+    totals: {
+      penalty: sum('penaltyAmount'),
+      interest: sum('interestAmount'),
+      principal: sum('principalAmount')
+    },
+    unallocated: remaining
+  };
+};
@@ -0,0 +1,256 @@
+// backend/utils/pdfDocument.js - Minimal PDF writer for generated documents
+// Supports the standard Helvetica fonts, lines, filled boxes and a JPEG or PNG (no alpha) logo,
+// which covers receipts and statements without a PDF dependency. Coordinates are in points
+// from the top-left corner of the current A4 page; text is limited to the WinAnsi (Latin-1) character set.
+import zlib from 'zlib';
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+// Advance widths (1/1000 em) for characters 32-126 from the Adobe core font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+const FONTS = {
+  regular: { resource: 'F1', baseFont: 'Helvetica', widths: HELVETICA_WIDTHS },
+  bold: { resource: 'F2', baseFont: 'Helvetica-Bold', widths: HELVETICA_BOLD_WIDTHS }
+};
+
+// Characters outside Latin-1 are replaced; the rupee sign has no glyph in the core fonts
+const toWinAnsi = (text) => String(text ?? '')
+  .replace(/₹/g, 'Rs.')
+  .replace(/[‘’]/g, "'")
+  .replace(/[“”]/g, '"')
+  .replace(/[–—]/g, '-')
+  .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+
+const escapeText = (text) => text.replace(/[\\()]/g, match => `\\${match}`);
+
+const num = (value) => Number(value.toFixed(2)).toString();
+
+const hexColor = (color) => {
+  const hex = color.replace('#', '');
+  return [0, 2, 4].map(offset => parseInt(hex.slice(offset, offset + 2), 16) / 255).map(num).join(' ');
+};
+
+export const textWidth = (text, size, weight = 'regular') => {
+  const { widths } = FONTS[weight];
+  let total = 0;
+  for (const char of toWinAnsi(text)) {
+    const code = char.charCodeAt(0);
+    total += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+  }
+  return (total * size) / 1000;
+};
+
+// Split text into lines that fit maxWidth, breaking on spaces
+export const wrapText = (text, size, maxWidth, weight = 'regular') => {
+  const lines = [];
+  let current = '';
+  String(text ?? '').split(/\s+/).filter(Boolean).forEach(word => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && textWidth(candidate, size, weight) > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+};
+
+// Image XObject for a JPEG, or a non-interlaced 8-bit grey/RGB PNG; null for anything else
+const readImage = (buffer) => {
+  if (buffer[0] === 0xFF && buffer[1] === 0xD8) {
+    let offset = 2;
+    while (offset < buffer.length) {
+      if (buffer[offset] !== 0xFF) return null;
+      const marker = buffer[offset + 1];
+      const length = buffer.readUInt16BE(offset + 2);
+      // Start-of-frame markers carry the dimensions
+      if (marker >= 0xC0 && marker <= 0xCF && ![0xC4, 0xC8, 0xCC].includes(marker)) {
+        const components = buffer[offset + 9];
+        return {
+          width: buffer.readUInt16BE(offset + 7),
+          height: buffer.readUInt16BE(offset + 5),
+          dictionary: `/ColorSpace /${components === 1 ? 'DeviceGray' : components === 4 ? 'DeviceCMYK' : 'DeviceRGB'} /BitsPerComponent 8 /Filter /DCTDecode`,
+          data: buffer
+        };
+      }
+      offset += 2 + length;
+    }
+    return null;
+  }
+
+  if (buffer.slice(0, 8).toString('hex') === '89504e470d0a1a0a') {
+    let offset = 8;
+    let header = null;
+    const chunks = [];
+    while (offset < buffer.length) {
+      const length = buffer.readUInt32BE(offset);
+      const type = buffer.toString('ascii', offset + 4, offset + 8);
+      const data = buffer.slice(offset + 8, offset + 8 + length);
+      if (type === 'IHDR') {
+        header = {
+          width: data.readUInt32BE(0),
+          height: data.readUInt32BE(4),
+          bitDepth: data[8],
+          colorType: data[9],
+          interlace: data[12]
+        };
+      } else if (type === 'IDAT') {
+        chunks.push(data);
+      }
+      offset += 12 + length;
+    }
+    if (!header || header.bitDepth !== 8 || header.interlace || ![0, 2].includes(header.colorType)) return null;
+
+    // PNG scanlines use the same predictors as PDF's FlateDecode, so the data is embedded as-is
+    const colors = header.colorType === 2 ? 3 : 1;
+    return {
+      width: header.width,
+      height: header.height,
+      dictionary: `/ColorSpace /${colors === 3 ? 'DeviceRGB' : 'DeviceGray'} /BitsPerComponent 8 /Filter /FlateDecode /DecodeParms << /Predictor 15 /Colors ${colors} /BitsPerComponent 8 /Columns ${header.width} >>`,
+      data: Buffer.concat(chunks)
+    };
+  }
+
+  return null;
+};
+
+export const createPdfDocument = ({ title } = {}) => {
+  const pageOperations = [[]];
+  let operations = pageOperations[0];
+  let image = null;
+
+  const y = (top) => num(PAGE_HEIGHT - top);
+
+  const doc = {
+    // `top` is the baseline of the text
+    text(value, x, top, { size = 10, weight = 'regular', color = '#111827', align = 'left' } = {}) {
+      const content = toWinAnsi(value);
+      const width = textWidth(content, size, weight);
+      const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+      operations.push(
+        `BT /${FONTS[weight].resource} ${num(size)} Tf ${hexColor(color)} rg ${num(left)} ${y(top)} Td (${escapeText(content)}) Tj ET`
+      );
+      return doc;
+    },
+
+    // Wrapped paragraph; returns the top of the line after the last one drawn
+    paragraph(value, x, top, maxWidth, { size = 10, weight = 'regular', color, lineHeight = size * 1.4 } = {}) {
+      const lines = wrapText(value, size, maxWidth, weight);
+      lines.forEach((line, index) => doc.text(line, x, top + index * lineHeight, { size, weight, color }));
+      return top + lines.length * lineHeight;
+    },
+
+    line(x1, top1, x2, top2, { color = '#D1D5DB', width = 0.75 } = {}) {
+      operations.push(`${hexColor(color)} RG ${num(width)} w ${num(x1)} ${y(top1)} m ${num(x2)} ${y(top2)} l S`);
+      return doc;
+    },
+
+    rect(x, top, width, height, { fill = '#F3F4F6' } = {}) {
+      operations.push(`${hexColor(fill)} rg ${num(x)} ${y(top + height)} ${num(width)} ${num(height)} re f`);
+      return doc;
+    },
+
+    addPage() {
+      operations = [];
+      pageOperations.push(operations);
+      return doc;
+    },
+
+    pageCount() {
+      return pageOperations.length;
+    },
+
+    // Draws the image scaled to fit the box; returns false when the format is not supported
+    image(buffer, x, top, maxWidth, maxHeight) {
+      const parsed = readImage(buffer);
+      if (!parsed) return false;
+      image = parsed;
+      const scale = Math.min(maxWidth / parsed.width, maxHeight / parsed.height);
+      const width = parsed.width * scale;
+      const height = parsed.height * scale;
+      operations.push(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${y(top + height)} cm /Im1 Do Q`);
+      return true;
+    },
+
+    toBuffer() {
+      const objects = [];
+      const add = (body) => {
+        objects.push(body);
+        return objects.length;
+      };
+
+      const catalog = add(null);
+      const pages = add(null);
+      const regular = add(Buffer.from(`<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS.regular.baseFont} /Encoding /WinAnsiEncoding >>`));
+      const bold = add(Buffer.from(`<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS.bold.baseFont} /Encoding /WinAnsiEncoding >>`));
+      const imageObject = image && add(Buffer.concat([
+        Buffer.from(`<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ${image.dictionary} /Length ${image.data.length} >>\nstream\n`),
+        image.data,
+        Buffer.from('\nendstream')
+      ]));
+      const info = add(Buffer.from(`<< /Title (${escapeText(toWinAnsi(title || ''))}) /Producer (FinanceTracker) >>`));
+      const resources = `<< /Font << /F1 ${regular} 0 R /F2 ${bold} 0 R >>${imageObject ? ` /XObject << /Im1 ${imageObject} 0 R >>` : ''} >>`;
+
+      const pageIds = pageOperations.map(ops => {
+        const content = zlib.deflateSync(Buffer.from(ops.join('\n'), 'latin1'));
+        const stream = add(Buffer.concat([
+          Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`),
+          content,
+          Buffer.from('\nendstream')
+        ]));
+        return add(Buffer.from(
+          `<< /Type /Page /Parent ${pages} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources ${resources} /Contents ${stream} 0 R >>`
+        ));
+      });
+      objects[catalog - 1] = Buffer.from(`<< /Type /Catalog /Pages ${pages} 0 R >>`);
+      objects[pages - 1] = Buffer.from(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+
+      const parts = [Buffer.from('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n', 'latin1')];
+      const offsets = [];
+      let length = parts[0].length;
+      objects.forEach((body, index) => {
+        const object = Buffer.concat([Buffer.from(`${index + 1} 0 obj\n`), body, Buffer.from('\nendobj\n')]);
+        offsets.push(length);
+        parts.push(object);
+        length += object.length;
+      });
+
+      const xref = [
+        'xref',
+        `0 ${objects.length + 1}`,
+        '0000000000 65535 f ',
+        ...offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n `),
+        'trailer',
+        `<< /Size ${objects.length + 1} /Root ${catalog} 0 R /Info ${info} 0 R >>`,
+        'startxref',
+        String(length),
+        '%%EOF'
+      ].join('\n');
+      parts.push(Buffer.from(`${xref}\n`));
+
+      return Buffer.concat(parts);
+    }
+  };
+
+  return doc;
+};
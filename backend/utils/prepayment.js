@@ -0,0 +1,195 @@
+// backend/utils/prepayment.js - Partial principal prepayment and premature closure
+// The settlement becomes a paid schedule row on the prepayment date carrying the
+// principal withdrawn and the interest accrued up to that day. Rows after it are
+// regenerated from the reduced principal (see utils/scheduleRestructure.js).
+import { accrualFraction, addMonths, buildAccrualPeriods } from '../../shared/interestAccrual.js';
+import { roundCurrency } from '../../shared/scheduleEngine.js';
+import { toMonthlyRate } from '../../shared/rateBasis.js';
+import { flatInterestBase, rebuildRemainingRows } from './scheduleRestructure.js';
+
+export const PREPAYMENT_MODES = ['reduce_tenure', 'reduce_instalment'];
+
+const hasPayment = (row) => row.status === 'paid' || row.status === 'partial' || row.paidAmount > 0;
+
+// Share of an accrual slice that has elapsed by `date`, in months
+const elapsedFraction = (period, date, convention) => {
+  if (convention) {
+    return accrualFraction(period.start, date, convention);
+  }
+  // Legacy anniversary slices accrue a full month each, so pro-rate by actual days
+  return accrualFraction(period.start, date, 'actual_365') / accrualFraction(period.start, period.end, 'actual_365');
+};
+
+const locateSettlement = (investment, settlementDate) => {
+  const accrualPeriods = buildAccrualPeriods(investment.investmentDate, investment.tenure, investment.dayCountConvention);
+  const index = accrualPeriods.findIndex(period => period.end > settlementDate);
+  const month = index + 1;
+  const keptRows = investment.schedule.filter(row => row.month < month);
+  const lastKept = keptRows[keptRows.length - 1];
+
+  return {
+    accrualPeriods,
+    month,
+    keptRows,
+    replacedRows: investment.schedule.filter(row => row.month >= month),
+    outstandingPrincipal: lastKept ? lastKept.remainingPrincipal : investment.principalAmount
+  };
+};
+
+// Returns an error message, or null when the prepayment can be applied
+export const validatePrepayment = (investment, { amount, date, foreclose, mode }) => {
+  const settlementDate = new Date(date);
+
+  if (investment.status !== 'active') {
+    return 'Only active investments can be prepaid or closed';
+  }
+
+  if (settlementDate < new Date(investment.investmentDate) || settlementDate >= new Date(investment.maturityDate)) {
+    return 'Prepayment date must fall between the investment date and maturity';
+  }
+
+  const { accrualPeriods, month, keptRows, replacedRows, outstandingPrincipal } = locateSettlement(investment, settlementDate);
+
+  if (replacedRows.some(hasPayment)) {
+    return 'Payouts falling after the prepayment date have already been paid';
+  }
+
+  if (foreclose) {
+    if (keptRows.some(row => row.status !== 'paid')) {
+      return 'Settle the payouts due before the closure date first';
+    }
+    return null;
+  }
+
+  if (!(amount > 0) || amount >= outstandingPrincipal) {
+    return `Prepayment must be more than zero and less than the outstanding principal of ${roundCurrency(outstandingPrincipal)}; close the investment to withdraw it all`;
+  }
+
+  if (month === accrualPeriods.length) {
+    return 'Prepayment in the final accrual period must close the investment';
+  }
+
+  if (mode === 'reduce_tenure' && investment.paymentType === 'interest') {
+    return 'Interest-only investments repay principal at maturity, so prepayment can only reduce the payouts';
+  }
+
+  return null;
+};
+
+// Accrual slices needed to repay `scheduledPrincipal` at the current instalment
+const reducedTenure = (investment, startMonth, scheduledPrincipal, instalment) => {
+  const payoutsNeeded = Math.max(1, Math.ceil(scheduledPrincipal / instalment - 1e-9));
+  const principalCadence = investment.payoutTerms?.principalCadenceMonths || 1;
+
+  for (let tenure = 1; tenure < investment.tenure; tenure++) {
+    const totalPeriods = buildAccrualPeriods(investment.investmentDate, tenure, investment.dayCountConvention).length;
+    if (totalPeriods < startMonth) continue;
+
+    let principalPayouts = 0;
+    for (let month = startMonth; month <= totalPeriods; month++) {
+      if (month % principalCadence === 0 || month === totalPeriods) principalPayouts += 1;
+    }
+    if (principalPayouts >= payoutsNeeded) return tenure;
+  }
+
+  return investment.tenure;
+};
+
+// Settlement figures and the regenerated schedule. Expects input that passed validatePrepayment().
+export const calculatePrepayment = (investment, { amount, date, foreclose = false, mode = 'reduce_instalment', penaltyPercentage = 0 }) => {
+  const settlementDate = new Date(date);
+  const convention = investment.dayCountConvention;
+  const monthlyRate = toMonthlyRate(investment.interestRate, investment.rateBasis);
+  const { accrualPeriods, month, keptRows, replacedRows, outstandingPrincipal } = locateSettlement(investment, settlementDate);
+  const currentPeriod = accrualPeriods[month - 1];
+  const flatBase = flatInterestBase(investment);
+
+  // Interest not yet carried by a kept row: everything after the last kept row that paid interest
+  const lastInterestRow = [...keptRows].reverse().find(row => row.interestAmount > 0);
+  const interestFromMonth = lastInterestRow ? lastInterestRow.month + 1 : 1;
+  const balanceFor = (sliceMonth) => {
+    const previous = [...keptRows].reverse().find(row => row.month < sliceMonth);
+    return previous ? previous.remainingPrincipal : investment.principalAmount;
+  };
+  const interestBaseFor = (sliceMonth) => (investment.interestType === 'flat' ? flatBase : balanceFor(sliceMonth));
+
+  let accruedInterest = 0;
+  for (let sliceMonth = interestFromMonth; sliceMonth < month; sliceMonth++) {
+    accruedInterest += interestBaseFor(sliceMonth) * monthlyRate * accrualPeriods[sliceMonth - 1].fraction;
+  }
+  const elapsed = elapsedFraction(currentPeriod, settlementDate, convention);
+  accruedInterest += interestBaseFor(month) * monthlyRate * elapsed;
+
+  const principal = foreclose ? outstandingPrincipal : amount;
+  const penalty = roundCurrency(principal * penaltyPercentage / 100);
+  const remainingPrincipal = outstandingPrincipal - principal;
+
+  const settlementRow = {
+    period: keptRows.length + 1,
+    month,
+    periodStartMonth: keptRows.length ? keptRows[keptRows.length - 1].month + 1 : 1,
+    dueDate: settlementDate,
+    interestAmount: roundCurrency(accruedInterest),
+    principalAmount: roundCurrency(principal),
+    totalAmount: roundCurrency(accruedInterest + principal),
+    remainingPrincipal: roundCurrency(Math.max(0, remainingPrincipal)),
+    status: 'paid',
+    paidAmount: roundCurrency(accruedInterest + principal),
+    paidDate: settlementDate
+  };
+
+  let rows = [];
+  let tenure = investment.tenure;
+
+  if (!foreclose) {
+    const revised = { ...(investment.toObject ? investment.toObject() : investment), prepaidPrincipal: (investment.prepaidPrincipal || 0) + principal };
+    // Principal still scheduled after the settlement (interest-with-principal only)
+    const lastReplaced = replacedRows[replacedRows.length - 1];
+    const scheduledPrincipal = Math.max(0, outstandingPrincipal - lastReplaced.remainingPrincipal - principal);
+
+    if (mode === 'reduce_tenure') {
+      const instalment = replacedRows.find(row => row.principalAmount > 0)?.principalAmount || scheduledPrincipal;
+      tenure = reducedTenure(investment, month + 1, scheduledPrincipal, instalment);
+    }
+
+    // The rest of the current slice accrues on the reduced principal and rolls into the next payout
+    const residualFraction = currentPeriod.fraction - elapsed;
+    const residualBase = investment.interestType === 'flat' ? flatInterestBase(revised) : remainingPrincipal;
+
+    rows = rebuildRemainingRows(revised, {
+      keptRows: [...keptRows, settlementRow],
+      terms: {
+        interestRate: investment.interestRate,
+        rateBasis: investment.rateBasis,
+        interestType: investment.interestType,
+        tenure
+      },
+      effectiveFromMonth: month + 1,
+      openingPrincipal: remainingPrincipal,
+      scheduledPrincipal,
+      openingInterest: residualBase * monthlyRate * residualFraction
+    });
+  }
+
+  const schedule = [...keptRows, settlementRow, ...rows];
+  const totalInterestExpected = roundCurrency(schedule.reduce((sum, row) => sum + row.interestAmount, 0));
+
+  return {
+    scheduleMonth: month,
+    settlementDate,
+    principal: roundCurrency(principal),
+    interest: settlementRow.interestAmount,
+    penalty,
+    netPayout: roundCurrency(settlementRow.totalAmount - penalty),
+    remainingPrincipal: settlementRow.remainingPrincipal,
+    schedule,
+    terms: {
+      tenure,
+      maturityDate: foreclose ? settlementDate : addMonths(new Date(investment.investmentDate), tenure),
+      totalInterestExpected,
+      totalExpectedReturns: roundCurrency(investment.principalAmount + totalInterestExpected)
+    },
+    removedRows: replacedRows.length,
+    addedRows: rows.length
+  };
+};
@@ -0,0 +1,115 @@
+// backend/utils/reconciliation.js - Match bank statement lines to scheduled dues and payments
+// Debit lines are matched to outstanding schedule rows (confirming one records a new payment) or
+// recorded payments not yet reconciled (confirming one links the line to it). Credit lines are
+// matched to investments funded in the period and to bank transfers the bank sent back. Each
+// pair is scored out of 1 (a line never matches a candidate flowing the other way):
+//   amount        0.50 exact (to the paisa), 0.30 within 1% - anything further never matches
+//   date          up to 0.20, falling off linearly across the date window
+//   reference     0.20 payment reference in the line, 0.15 investment/investor ID
+//   bank account  0.10 investor account number, 0.05 its last four digits
+import { roundCurrency } from '../../shared/scheduleEngine.js';
+
+export const DEFAULT_MATCH_OPTIONS = {
+  dateWindowDays: 5,
+  minConfidence: 0.5
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const normalize = (value) => String(value || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const scoreMatch = (line, candidate, options = DEFAULT_MATCH_OPTIONS) => {
+  if (candidate.direction && candidate.direction !== line.direction) {
+    return { confidence: 0, reasons: [] };
+  }
+
+  const reasons = [];
+  let score = 0;
+
+  const difference = Math.abs(line.amount - candidate.amount);
+  if (difference <= 0.01) {
+    score += 0.5;
+    reasons.push('amount_exact');
+  } else if (candidate.amount > 0 && difference / candidate.amount <= 0.01) {
+    score += 0.3;
+    reasons.push('amount_close');
+  } else {
+    return { confidence: 0, reasons: [] };
+  }
+
+  const days = Math.abs(new Date(line.date) - new Date(candidate.date)) / DAY_MS;
+  if (days <= options.dateWindowDays) {
+    score += 0.2 * (1 - days / (options.dateWindowDays + 1));
+    reasons.push('date');
+  }
+
+  const text = normalize(`${line.reference} ${line.description}`);
+  if (candidate.referenceNumber && text.includes(normalize(candidate.referenceNumber))) {
+    score += 0.2;
+    reasons.push('reference');
+  } else if ([candidate.investmentId, candidate.investorId].some(id => id && text.includes(normalize(id)))) {
+    score += 0.15;
+    reasons.push('reference');
+  }
+
+  const account = normalize(candidate.accountNumber);
+  if (account) {
+    if (normalize(line.accountNumber) === account || text.includes(account)) {
+      score += 0.1;
+      reasons.push('bank_account');
+    } else if (account.length > 4 && text.includes(account.slice(-4))) {
+      score += 0.05;
+      reasons.push('bank_account_partial');
+    }
+  }
+
+  return { confidence: roundCurrency(Math.min(1, score)), reasons };
+};
+
+// Prepayment and closure penalties by the settlement payment they were kept back from
+export const keptBackBySettlement = (penalties) => penalties.reduce((keptBack, penalty) => {
+  const key = String(penalty.deductedFrom);
+  keptBack.set(key, roundCurrency((keptBack.get(key) || 0) + penalty.amount));
+  return keptBack;
+}, new Map());
+
+// A recorded payment as the bank moved it: the amount less the TDS withheld and any penalty kept back
+export const paymentCandidate = (payment, kind, direction, keptBack = new Map()) => ({
+  key: `${kind}:${payment._id}`,
+  kind,
+  direction,
+  amount: roundCurrency(payment.amount - (payment.tdsAmount || 0) - (keptBack.get(String(payment._id)) || 0)),
+  date: payment.paymentDate,
+  payment: payment._id,
+  investment: payment.investment?._id,
+  investor: payment.investor?._id,
+  referenceNumber: payment.referenceNumber,
+  investmentId: payment.investment?.investmentId,
+  investorId: payment.investor?.investorId,
+  accountNumber: payment.investor?.kyc?.bankDetails?.accountNumber
+});
+
+// One-to-one assignment, best scoring pairs first. Returns Map(line key -> { candidate, confidence, reasons })
+export const proposeMatches = (lines, candidates, options = DEFAULT_MATCH_OPTIONS) => {
+  const pairs = [];
+  lines.forEach(line => {
+    candidates.forEach(candidate => {
+      const { confidence, reasons } = scoreMatch(line, candidate, options);
+      if (confidence >= options.minConfidence) {
+        pairs.push({ line, candidate, confidence, reasons });
+      }
+    });
+  });
+
+  pairs.sort((a, b) => b.confidence - a.confidence);
+
+  const matches = new Map();
+  const usedCandidates = new Set();
+  pairs.forEach(({ line, candidate, confidence, reasons }) => {
+    if (matches.has(line.key) || usedCandidates.has(candidate.key)) return;
+    matches.set(line.key, { candidate, confidence, reasons });
+    usedCandidates.add(candidate.key);
+  });
+
+  return matches;
+};
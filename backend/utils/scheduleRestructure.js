@@ -0,0 +1,241 @@
+// backend/utils/scheduleRestructure.js - Restructuring of live investment schedules
+// Rows before the restructure point are kept untouched (including every row with a
+// recorded payment); the remaining rows are rebuilt from the outstanding principal.
+// Accrual follows shared/scheduleEngine.js, with the revised terms applied from
+// `effectiveFromMonth` onwards.
+import { addMonths, buildAccrualPeriods } from '../../shared/interestAccrual.js';
+import { resolvePayoutTerms, roundCurrency } from '../../shared/scheduleEngine.js';
+import { toMonthlyRate } from '../../shared/rateBasis.js';
+
+const TERM_FIELDS = ['interestRate', 'rateBasis', 'interestType', 'tenure'];
+
+const hasPayment = (row) => row.status === 'paid' || row.status === 'partial' || row.paidAmount > 0;
+
+const compactRow = (row) => ({
+  month: row.month,
+  dueDate: row.dueDate,
+  interestAmount: row.interestAmount,
+  principalAmount: row.principalAmount,
+  totalAmount: row.totalAmount
+});
+
+// Terms after the restructure; a moratorium pushes maturity out by its length
+const reviseTerms = (investment, changes) => ({
+  interestRate: changes.interestRate ?? investment.interestRate,
+  rateBasis: changes.rateBasis ?? investment.rateBasis ?? 'monthly',
+  interestType: changes.interestType ?? investment.interestType,
+  tenure: (changes.tenure ?? investment.tenure) + (changes.moratoriumMonths || 0)
+});
+
+// Returns an error message, or null when the changes can be applied
+export const validateRestructure = (investment, changes) => {
+  const { effectiveFromMonth, moratoriumMonths = 0, holidayMonths = [] } = changes;
+
+  if (investment.status !== 'active') {
+    return 'Only active investments can be restructured';
+  }
+
+  const changesTerms = TERM_FIELDS.some(field => changes[field] != null && changes[field] !== investment[field]);
+  if (!changesTerms && !moratoriumMonths && !holidayMonths.length) {
+    return 'No restructuring changes requested';
+  }
+
+  if (changes.interestType === 'flat' && investment.interestType === 'reducing') {
+    return 'Reducing interest cannot be converted to flat';
+  }
+
+  const lastPaidMonth = investment.schedule.filter(hasPayment).reduce((max, row) => Math.max(max, row.month), 0);
+  if (effectiveFromMonth <= lastPaidMonth) {
+    return `Restructuring must take effect after month ${lastPaidMonth}, the last month with a recorded payment`;
+  }
+
+  const lastMonth = investment.schedule.reduce((max, row) => Math.max(max, row.month), 0);
+  if (effectiveFromMonth > lastMonth) {
+    return `Restructuring must take effect on or before month ${lastMonth}, the last scheduled month`;
+  }
+
+  const terms = reviseTerms(investment, changes);
+  const totalPeriods = buildAccrualPeriods(investment.investmentDate, terms.tenure, investment.dayCountConvention).length;
+  if (effectiveFromMonth + moratoriumMonths > totalPeriods) {
+    return 'The revised tenure must extend beyond the effective month and any moratorium';
+  }
+
+  if (holidayMonths.some(month => month < effectiveFromMonth || month >= totalPeriods)) {
+    return 'Holiday months must fall between the effective month and maturity';
+  }
+
+  return null;
+};
+
+// Flat interest runs on the original principal less anything withdrawn early
+export const flatInterestBase = (investment) => investment.principalAmount - (investment.prepaidPrincipal || 0);
+
+// Rebuild the rows after `keptRows` for the given terms. Shared by restructuring and
+// prepayment; both keep settled rows and regenerate everything after them.
+//   openingPrincipal   - principal outstanding after the kept rows
+//   scheduledPrincipal - principal the new rows must repay (interest-with-principal only)
+//   openingInterest    - interest already accrued towards the first new row
+export const rebuildRemainingRows = (investment, {
+  keptRows,
+  terms,
+  effectiveFromMonth,
+  openingPrincipal,
+  scheduledPrincipal = 0,
+  openingInterest = 0,
+  moratoriumMonths = 0,
+  holidayMonths = []
+}) => {
+  const { paymentType, principalAmount } = investment;
+  const holidays = new Set(holidayMonths);
+  const payout = investment.payoutTerms?.interestCadenceMonths ? investment.payoutTerms : resolvePayoutTerms(investment);
+  const interestCadence = payout.interestCadenceMonths || 1;
+  const principalCadence = payout.principalCadenceMonths || 1;
+  const lastKept = keptRows[keptRows.length - 1];
+  const startMonth = lastKept ? lastKept.month + 1 : 1;
+  const moratoriumEnd = effectiveFromMonth + moratoriumMonths;
+  const flatBase = flatInterestBase(investment);
+
+  const accrualPeriods = buildAccrualPeriods(investment.investmentDate, terms.tenure, investment.dayCountConvention);
+  const totalPeriods = accrualPeriods.length;
+  const currentRate = toMonthlyRate(investment.interestRate, investment.rateBasis);
+  const revisedRate = toMonthlyRate(terms.interestRate, terms.rateBasis);
+
+  const isPrincipalMonth = (month) => month >= moratoriumEnd || month < effectiveFromMonth;
+
+  let settlementStartMonth = Infinity;
+  let monthlyPrincipal = 0;
+  let principalPerPayment = 0;
+
+  if (paymentType === 'interest') {
+    if (payout.principalRepaymentOption === 'flexible') {
+      settlementStartMonth = Math.ceil(terms.tenure * payout.withdrawalAfterPercentage / 100);
+      monthlyPrincipal = principalAmount / payout.principalSettlementTerm;
+    }
+  } else {
+    let principalPayouts = 0;
+    for (let month = startMonth; month <= totalPeriods; month++) {
+      if ((month % principalCadence === 0 || month === totalPeriods) && isPrincipalMonth(month)) {
+        principalPayouts += 1;
+      }
+    }
+    principalPerPayment = scheduledPrincipal / Math.max(principalPayouts, 1);
+  }
+
+  const rows = [];
+  let remainingPrincipal = openingPrincipal;
+  let accruedInterest = openingInterest;
+  let accruedPrincipal = 0;
+  let periodStartMonth = startMonth;
+
+  accrualPeriods.slice(startMonth - 1).forEach(({ end, fraction }, index) => {
+    const month = startMonth + index;
+    const isFinalMonth = month === totalPeriods;
+    const isRevised = month >= effectiveFromMonth;
+    const interestType = isRevised ? terms.interestType : investment.interestType;
+    const monthlyRate = isRevised ? revisedRate : currentRate;
+    const outstanding = remainingPrincipal - accruedPrincipal;
+
+    accruedInterest += (interestType === 'flat' ? flatBase : remainingPrincipal) * monthlyRate * fraction;
+
+    let principalDue = 0;
+    let isPrincipalPoint = false;
+
+    if (isPrincipalMonth(month)) {
+      if (paymentType === 'interest') {
+        if (isFinalMonth) {
+          principalDue = outstanding;
+        } else if (month >= settlementStartMonth) {
+          principalDue = Math.min(monthlyPrincipal, outstanding);
+        }
+      } else if (month % principalCadence === 0 || isFinalMonth) {
+        principalDue = Math.min(principalPerPayment, outstanding);
+        isPrincipalPoint = true;
+      }
+    }
+
+    accruedPrincipal += principalDue;
+
+    // Moratorium and holiday months pay nothing; what accrued rolls into the next payout
+    const isPaymentHoliday = !isPrincipalMonth(month) || holidays.has(month);
+    if (isPaymentHoliday && !isFinalMonth) return;
+
+    const isInterestPoint = month % interestCadence === 0 || isFinalMonth;
+    if (!isInterestPoint && !(isPrincipalPoint && accruedPrincipal > 0)) return;
+
+    const interestAmount = isInterestPoint ? accruedInterest : 0;
+    remainingPrincipal -= accruedPrincipal;
+
+    rows.push({
+      period: keptRows.length + rows.length + 1,
+      month,
+      periodStartMonth,
+      dueDate: new Date(end),
+      interestAmount: roundCurrency(interestAmount),
+      principalAmount: roundCurrency(accruedPrincipal),
+      totalAmount: roundCurrency(interestAmount + accruedPrincipal),
+      remainingPrincipal: roundCurrency(Math.max(0, remainingPrincipal)),
+      status: 'pending',
+      paidAmount: 0,
+      paidDate: null
+    });
+
+    if (isInterestPoint) accruedInterest = 0;
+    accruedPrincipal = 0;
+    periodStartMonth = month + 1;
+  });
+
+  return rows;
+};
+
+// Build the restructured schedule. Expects changes that passed validateRestructure().
+export const restructureSchedule = (investment, changes) => {
+  const { effectiveFromMonth } = changes;
+  const terms = reviseTerms(investment, changes);
+  const { principalAmount } = investment;
+
+  const keptRows = investment.schedule.filter(row => row.month < effectiveFromMonth);
+  const replacedRows = investment.schedule.filter(row => row.month >= effectiveFromMonth);
+  const lastKept = keptRows[keptRows.length - 1];
+  const openingPrincipal = lastKept ? lastKept.remainingPrincipal : principalAmount;
+
+  // Principal the current schedule still owes is spread over the remaining principal points
+  const rows = rebuildRemainingRows(investment, {
+    keptRows,
+    terms,
+    effectiveFromMonth,
+    openingPrincipal,
+    scheduledPrincipal: openingPrincipal - replacedRows[replacedRows.length - 1].remainingPrincipal,
+    moratoriumMonths: changes.moratoriumMonths || 0,
+    holidayMonths: changes.holidayMonths || []
+  });
+
+  const schedule = [...keptRows, ...rows];
+  const totalInterestExpected = roundCurrency(schedule.reduce((sum, row) => sum + row.interestAmount, 0));
+
+  const before = {
+    interestRate: investment.interestRate,
+    rateBasis: investment.rateBasis,
+    interestType: investment.interestType,
+    tenure: investment.tenure,
+    maturityDate: investment.maturityDate,
+    totalInterestExpected: investment.totalInterestExpected,
+    totalExpectedReturns: investment.totalExpectedReturns
+  };
+  const after = {
+    ...terms,
+    maturityDate: addMonths(new Date(investment.investmentDate), terms.tenure),
+    totalInterestExpected,
+    totalExpectedReturns: roundCurrency(principalAmount + totalInterestExpected)
+  };
+
+  return {
+    schedule,
+    terms: after,
+    diff: {
+      before,
+      after,
+      removedRows: replacedRows.map(compactRow),
+      addedRows: rows.map(compactRow)
+    }
+  };
+};
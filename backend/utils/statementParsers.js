@@ -0,0 +1,316 @@
+// backend/utils/statementParsers.js - Parse bank statement files into transaction lines
+// Supported formats:
+//   csv   - any delimited export; columns are picked with a mapping (header name or 1-based number)
+//   ofx   - OFX/QFX 1.x (SGML) and 2.x (XML) <STMTTRN> blocks
+//   mt940 - SWIFT MT940 :61: statement lines with their :86: narrative
+// Every parser returns { accountNumber, lines: [{ lineNo, date, amount, direction, description,
+// reference, accountNumber }] } with amounts positive and the sign carried by direction.
+import { roundCurrency } from '../../shared/scheduleEngine.js';
+
+export const STATEMENT_FORMATS = ['csv', 'ofx', 'mt940'];
+export const CSV_DATE_FORMATS = ['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD', 'DD-MMM-YYYY'];
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+export class StatementParseError extends Error {
+  constructor(message, lineNo = null) {
+    super(lineNo ? `Line ${lineNo}: ${message}` : message);
+    this.name = 'StatementParseError';
+    this.lineNo = lineNo;
+  }
+}
+
+const utcDate = (year, month, day) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  const valid = date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+  return valid ? date : null;
+};
+
+// Parse a statement date in one of CSV_DATE_FORMATS; any of - / . or space separate the parts
+export const parseStatementDate = (value, format = 'DD/MM/YYYY') => {
+  const parts = String(value || '').trim().split(/[-/.\s]+/);
+  if (parts.length < 3) return null;
+
+  const toYear = (year) => (year.length === 2 ? 2000 + Number(year) : Number(year));
+
+  switch (format) {
+    case 'MM/DD/YYYY':
+      return utcDate(toYear(parts[2]), Number(parts[0]), Number(parts[1]));
+    case 'YYYY-MM-DD':
+      return utcDate(Number(parts[0]), Number(parts[1]), Number(parts[2]));
+    case 'DD-MMM-YYYY': {
+      const month = MONTHS.indexOf(parts[1].slice(0, 3).toUpperCase()) + 1;
+      return month > 0 ? utcDate(toYear(parts[2]), month, Number(parts[0])) : null;
+    }
+    default:
+      return utcDate(toYear(parts[2]), Number(parts[1]), Number(parts[0]));
+  }
+};
+
+// "1,20,000.50", "(500.00)", "₹ 250 Dr" -> signed number; NaN when there is no amount
+export const parseStatementAmount = (value) => {
+  let text = String(value ?? '').trim();
+  if (!text) return NaN;
+
+  let sign = 1;
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1);
+  }
+  if (/\bdr\.?$/i.test(text)) {
+    sign = -1;
+  }
+
+  const numeric = text.replace(/(dr|cr)\.?$/i, '').replace(/[^\d.-]/g, '');
+  if (!numeric || numeric === '-' || numeric === '.') return NaN;
+  return sign * Number(numeric);
+};
+
+// Split delimited text into rows, honouring quoted fields ("a, b" and doubled "" quotes)
+export const splitDelimited = (text, delimiter) => {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+const detectDelimiter = (text) => {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const counts = [',', ';', '\t', '|'].map(delimiter => [delimiter, firstLine.split(delimiter).length]);
+  return counts.sort((a, b) => b[1] - a[1])[0][0];
+};
+
+// Resolve a mapped column (header name, case-insensitive, or 1-based column number) to an index
+const columnIndex = (header, column) => {
+  if (column === undefined || column === null || column === '') return -1;
+  if (/^\d+$/.test(String(column))) return Number(column) - 1;
+  if (!header) return -1;
+  return header.findIndex(name => name.trim().toLowerCase() === String(column).trim().toLowerCase());
+};
+
+// mapping: { date, amount | debit + credit, direction?, description?, reference?, accountNumber?,
+//            dateFormat?, hasHeader? (default true), delimiter? }
+export const parseCsvStatement = (text, mapping = {}) => {
+  if (!mapping.date || !(mapping.amount || mapping.debit || mapping.credit)) {
+    throw new StatementParseError('CSV mapping needs a date column and an amount (or debit/credit) column');
+  }
+
+  const rows = splitDelimited(text, mapping.delimiter || detectDelimiter(text));
+  const hasHeader = mapping.hasHeader !== false;
+  const header = hasHeader ? rows[0] : null;
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+
+  const columns = {};
+  ['date', 'amount', 'debit', 'credit', 'direction', 'description', 'reference', 'accountNumber'].forEach(key => {
+    columns[key] = columnIndex(header, mapping[key]);
+    if (mapping[key] && columns[key] < 0) {
+      throw new StatementParseError(`Column "${mapping[key]}" mapped to ${key} was not found in the header`);
+    }
+  });
+
+  const cell = (row, key) => (columns[key] >= 0 ? (row[columns[key]] || '').trim() : '');
+
+  const lines = [];
+  dataRows.forEach((row, index) => {
+    const lineNo = index + (hasHeader ? 2 : 1);
+
+    let signed;
+    if (columns.amount >= 0) {
+      signed = parseStatementAmount(cell(row, 'amount'));
+      const marker = cell(row, 'direction').toUpperCase();
+      if (marker.startsWith('D')) signed = -Math.abs(signed);
+      if (marker.startsWith('C')) signed = Math.abs(signed);
+    } else {
+      const debit = parseStatementAmount(cell(row, 'debit'));
+      const credit = parseStatementAmount(cell(row, 'credit'));
+      signed = !Number.isNaN(debit) && debit !== 0 ? -Math.abs(debit) : credit;
+    }
+
+    // Rows without an amount (opening balance, totals) are skipped
+    if (Number.isNaN(signed) || signed === 0) return;
+
+    const date = parseStatementDate(cell(row, 'date'), mapping.dateFormat);
+    if (!date) {
+      throw new StatementParseError(`Invalid date "${cell(row, 'date')}"`, lineNo);
+    }
+
+    lines.push({
+      lineNo,
+      date,
+      amount: roundCurrency(Math.abs(signed)),
+      direction: signed < 0 ? 'debit' : 'credit',
+      description: cell(row, 'description'),
+      reference: cell(row, 'reference'),
+      accountNumber: cell(row, 'accountNumber')
+    });
+  });
+
+  return { accountNumber: '', lines };
+};
+
+// OFX values: <TAG>value with or without a closing tag
+const ofxValue = (block, tag) => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : '';
+};
+
+const parseOfxDate = (value) => {
+  const match = String(value).match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? utcDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+};
+
+export const parseOfxStatement = (text) => {
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+  if (blocks.length === 0 && !/<OFX>/i.test(text)) {
+    throw new StatementParseError('Not an OFX file: no <OFX> or <STMTTRN> elements found');
+  }
+
+  const accountBlock = text.match(/<BANKACCTFROM>[\s\S]*?<\/BANKACCTFROM>/i);
+  const accountNumber = accountBlock ? ofxValue(accountBlock[0], 'ACCTID') : ofxValue(text, 'ACCTID');
+
+  const lines = blocks.map((block, index) => {
+    const lineNo = index + 1;
+    const date = parseOfxDate(ofxValue(block, 'DTPOSTED'));
+    if (!date) {
+      throw new StatementParseError(`Invalid DTPOSTED "${ofxValue(block, 'DTPOSTED')}"`, lineNo);
+    }
+
+    const signed = parseStatementAmount(ofxValue(block, 'TRNAMT'));
+    if (Number.isNaN(signed)) {
+      throw new StatementParseError(`Invalid TRNAMT "${ofxValue(block, 'TRNAMT')}"`, lineNo);
+    }
+
+    const counterparty = block.match(/<BANKACCTTO>[\s\S]*?(?:<\/BANKACCTTO>|$)/i);
+
+    return {
+      lineNo,
+      date,
+      amount: roundCurrency(Math.abs(signed)),
+      direction: signed < 0 ? 'debit' : 'credit',
+      description: [ofxValue(block, 'NAME'), ofxValue(block, 'MEMO')].filter(Boolean).join(' - '),
+      reference: ofxValue(block, 'REFNUM') || ofxValue(block, 'CHECKNUM') || ofxValue(block, 'FITID'),
+      accountNumber: counterparty ? ofxValue(counterparty[0], 'ACCTID') : ''
+    };
+  }).filter(line => line.amount > 0);
+
+  return { accountNumber, lines };
+};
+
+// :61: YYMMDD [MMDD] (C|D|RC|RD) [funds code] amount(,decimals) type+code reference [//bank reference]
+const MT940_STATEMENT_LINE = /^(\d{2})(\d{2})(\d{2})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d{0,2})([A-Z])([A-Z0-9]{3})([^/\r\n]*)(?:\/\/([^\r\n]*))?/;
+
+export const parseMt940Statement = (text) => {
+  // Join continuation lines onto the field they belong to
+  const fields = [];
+  text.split(/\r?\n/).forEach(raw => {
+    const match = raw.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (match) {
+      fields.push({ tag: match[1], value: match[2] });
+    } else if (fields.length > 0 && raw.trim() && !raw.startsWith('-}') && raw.trim() !== '-') {
+      fields[fields.length - 1].value += `\n${raw}`;
+    }
+  });
+
+  if (!fields.some(field => field.tag === '61')) {
+    throw new StatementParseError('Not an MT940 file: no :61: statement lines found');
+  }
+
+  const accountField = fields.find(field => field.tag === '25');
+  const lines = [];
+
+  fields.forEach(field => {
+    if (field.tag === '61') {
+      const lineNo = lines.length + 1;
+      const match = field.value.match(MT940_STATEMENT_LINE);
+      if (!match) {
+        throw new StatementParseError(`Unrecognised :61: line "${field.value.split('\n')[0]}"`, lineNo);
+      }
+
+      const [, yy, mm, dd, , mark, , amount, , , customerReference, bankReference] = match;
+      const date = utcDate(2000 + Number(yy), Number(mm), Number(dd));
+      if (!date) {
+        throw new StatementParseError(`Invalid value date "${yy}${mm}${dd}"`, lineNo);
+      }
+
+      // RC (reversed credit) is money going out, RD (reversed debit) money coming in
+      const isDebit = mark === 'D' || mark === 'RC';
+      const reference = customerReference.trim() !== 'NONREF' ? customerReference.trim() : (bankReference || '').trim();
+
+      lines.push({
+        lineNo,
+        date,
+        amount: roundCurrency(Number(amount.replace(',', '.'))),
+        direction: isDebit ? 'debit' : 'credit',
+        description: '',
+        reference,
+        accountNumber: ''
+      });
+    } else if (field.tag === '86' && lines.length > 0 && !lines[lines.length - 1].description) {
+      lines[lines.length - 1].description = field.value.replace(/\s*\n\s*/g, ' ').trim();
+    }
+  });
+
+  return {
+    accountNumber: accountField ? accountField.value.trim() : '',
+    lines: lines.filter(line => line.amount > 0)
+  };
+};
+
+// Guess the format from the file extension, then the content
+export const detectStatementFormat = (fileName = '', text = '') => {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'ofx' || ext === 'qfx') return 'ofx';
+  if (ext === 'sta' || ext === 'mt940') return 'mt940';
+  if (ext === 'csv') return 'csv';
+  if (/<OFX>|OFXHEADER/i.test(text)) return 'ofx';
+  if (/^:20:/m.test(text) && /^:61:/m.test(text)) return 'mt940';
+  return 'csv';
+};
+
+export const parseStatement = (text, format, mapping) => {
+  switch (format) {
+    case 'ofx':
+      return parseOfxStatement(text);
+    case 'mt940':
+      return parseMt940Statement(text);
+    case 'csv':
+      return parseCsvStatement(text, mapping);
+    default:
+      throw new StatementParseError(`Unsupported statement format: ${format}`);
+  }
+};
@@ -0,0 +1,62 @@
+// shared/data/ifscBanks.js - Bank names by IFSC bank code (first four characters of the IFSC)
+// Offline subset covering the public, private, small finance and payments banks investors
+// commonly bank with. Codes not listed here are still accepted; the bank name is typed in.
+// Branches are not bundled (RBI's IFSC master lists over a lakh of them), so the branch
+// name is always typed in.
+export const IFSC_BANKS = {
+  ABHY: 'Abhyudaya Co-operative Bank',
+  AIRP: 'Airtel Payments Bank',
+  APGB: 'Andhra Pragathi Grameena Bank',
+  AUBL: 'AU Small Finance Bank',
+  BARB: 'Bank of Baroda',
+  BDBL: 'Bandhan Bank',
+  BKID: 'Bank of India',
+  CBIN: 'Central Bank of India',
+  CITI: 'Citibank',
+  CIUB: 'City Union Bank',
+  CNRB: 'Canara Bank',
+  COSB: 'Cosmos Co-operative Bank',
+  CSBK: 'CSB Bank',
+  DBSS: 'DBS Bank India',
+  DCBL: 'DCB Bank',
+  DEUT: 'Deutsche Bank',
+  DLXB: 'Dhanlaxmi Bank',
+  ESAF: 'ESAF Small Finance Bank',
+  ESFB: 'Equitas Small Finance Bank',
+  FDRL: 'Federal Bank',
+  FINO: 'Fino Payments Bank',
+  HDFC: 'HDFC Bank',
+  HSBC: 'HSBC',
+  IBKL: 'IDBI Bank',
+  ICIC: 'ICICI Bank',
+  IDFB: 'IDFC FIRST Bank',
+  IDIB: 'Indian Bank',
+  INDB: 'IndusInd Bank',
+  IOBA: 'Indian Overseas Bank',
+  IPOS: 'India Post Payments Bank',
+  JAKA: 'Jammu and Kashmir Bank',
+  JSFB: 'Jana Small Finance Bank',
+  KARB: 'Karnataka Bank',
+  KKBK: 'Kotak Mahindra Bank',
+  KVBL: 'Karur Vysya Bank',
+  KVGB: 'Karnataka Vikas Grameena Bank',
+  MAHB: 'Bank of Maharashtra',
+  NKGS: 'NKGSB Co-operative Bank',
+  PSIB: 'Punjab and Sind Bank',
+  PUNB: 'Punjab National Bank',
+  PYTM: 'Paytm Payments Bank',
+  RATN: 'RBL Bank',
+  SBIN: 'State Bank of India',
+  SCBL: 'Standard Chartered Bank',
+  SIBL: 'South Indian Bank',
+  SRCB: 'Saraswat Co-operative Bank',
+  SURY: 'Suryoday Small Finance Bank',
+  SVCB: 'SVC Co-operative Bank',
+  TMBL: 'Tamilnad Mercantile Bank',
+  UBIN: 'Union Bank of India',
+  UCBA: 'UCO Bank',
+  UJVN: 'Ujjivan Small Finance Bank',
+  UTIB: 'Axis Bank',
+  UTKS: 'Utkarsh Small Finance Bank',
+  YESB: 'Yes Bank'
+};
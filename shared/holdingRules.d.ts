@@ -0,0 +1,27 @@
+// shared/holdingRules.d.ts - Types for the shared joint holder and nominee rules
+
+export type ModeOfOperation = 'single' | 'either_or_survivor' | 'former_or_survivor' | 'jointly';
+
+export interface HoldingNomineeInput {
+  name?: string;
+  relationship?: string;
+  dateOfBirth?: string | Date;
+  sharePercent?: number | string;
+  guardian?: { name?: string };
+}
+
+export interface HoldingInput {
+  investor?: string;
+  jointHolders?: Array<{ investor?: string | { _id: string } }>;
+  modeOfOperation?: ModeOfOperation;
+  nominees?: HoldingNomineeInput[];
+}
+
+export declare const MODES_OF_OPERATION: ModeOfOperation[];
+export declare const MODE_OF_OPERATION_LABELS: Record<ModeOfOperation, string>;
+export declare const MAX_JOINT_HOLDERS: number;
+export declare const MAX_NOMINEES: number;
+export declare const AGE_OF_MAJORITY: number;
+
+export declare function isMinor(dateOfBirth?: string | Date, asOf?: string | Date): boolean;
+export declare function holdingError(holding: HoldingInput, asOf?: string | Date): string | null;
@@ -0,0 +1,65 @@
+// shared/holdingRules.js - Joint holder and nominee rules for an investment
+// Used by the investment form and the API alike. An investment has a primary holder (its
+// investor), up to two joint holders who are investors with their own KYC, and up to three
+// nominees whose shares add up to 100%. A nominee under 18 needs a guardian.
+
+export const MODES_OF_OPERATION = ['single', 'either_or_survivor', 'former_or_survivor', 'jointly'];
+
+export const MODE_OF_OPERATION_LABELS = {
+  single: 'Single',
+  either_or_survivor: 'Either or Survivor',
+  former_or_survivor: 'Former or Survivor',
+  jointly: 'Jointly'
+};
+
+export const MAX_JOINT_HOLDERS = 2;
+export const MAX_NOMINEES = 3;
+export const AGE_OF_MAJORITY = 18;
+
+export const isMinor = (dateOfBirth, asOf = new Date()) => {
+  if (!dateOfBirth) return false;
+  const majority = new Date(dateOfBirth);
+  if (Number.isNaN(majority.getTime())) return false;
+  majority.setFullYear(majority.getFullYear() + AGE_OF_MAJORITY);
+  return majority > new Date(asOf);
+};
+
+const nomineeError = (nominee, asOf) => {
+  const name = nominee.name?.trim();
+  if (!name) return 'Each nominee needs a name';
+  if (!nominee.relationship?.trim()) return `Give ${name}'s relationship to the holder`;
+  if (!nominee.dateOfBirth || Number.isNaN(new Date(nominee.dateOfBirth).getTime())) {
+    return `Give ${name}'s date of birth`;
+  }
+  if (new Date(nominee.dateOfBirth) > new Date(asOf)) return `${name}'s date of birth is in the future`;
+  const share = Number(nominee.sharePercent);
+  if (!(share > 0 && share <= 100)) return `${name}'s share must be more than 0% and at most 100%`;
+  if (isMinor(nominee.dateOfBirth, asOf) && !nominee.guardian?.name?.trim()) {
+    return `${name} is a minor: add a guardian`;
+  }
+  return null;
+};
+
+// Message for the first rule the holding breaks, or null. investor is the primary holder's id.
+export const holdingError = ({ investor, jointHolders = [], modeOfOperation = 'single', nominees = [] }, asOf = new Date()) => {
+  const holderIds = jointHolders.map(holder => String(holder.investor?._id || holder.investor || ''));
+  if (holderIds.length > MAX_JOINT_HOLDERS) return `An investment can have at most ${MAX_JOINT_HOLDERS} joint holders`;
+  if (holderIds.some(id => !id)) return 'Choose an investor for each joint holder';
+  if (investor && holderIds.includes(String(investor))) return 'The primary holder cannot also be a joint holder';
+  if (new Set(holderIds).size !== holderIds.length) return 'Each joint holder can only be added once';
+
+  if (!MODES_OF_OPERATION.includes(modeOfOperation)) return 'Invalid mode of operation';
+  if (holderIds.length === 0 && modeOfOperation !== 'single') return 'Add a joint holder, or set the mode of operation to Single';
+  if (holderIds.length > 0 && modeOfOperation === 'single') return 'Choose how the joint holding is operated';
+
+  if (nominees.length > MAX_NOMINEES) return `An investment can have at most ${MAX_NOMINEES} nominees`;
+  for (const nominee of nominees) {
+    const error = nomineeError(nominee, asOf);
+    if (error) return error;
+  }
+  if (nominees.length > 0) {
+    const total = Math.round(nominees.reduce((sum, nominee) => sum + Number(nominee.sharePercent), 0) * 100) / 100;
+    if (total !== 100) return `Nominee shares add up to ${total}%, not 100%`;
+  }
+  return null;
+};
@@ -0,0 +1,40 @@
+// shared/identityValidation.d.ts - Types for the shared identity validation module
+
+export declare const PAN_PATTERN: RegExp;
+export declare const AADHAAR_PATTERN: RegExp;
+export declare const IFSC_PATTERN: RegExp;
+export declare const BANK_ACCOUNT_PATTERN: RegExp;
+export declare const PINCODE_PATTERN: RegExp;
+
+export declare const PAN_HOLDER_TYPES: Record<string, string>;
+export declare const IDENTITY_MESSAGES: Record<
+  | 'panRequired'
+  | 'panFormat'
+  | 'panHolderType'
+  | 'panNameInitial'
+  | 'aadhaarRequired'
+  | 'aadhaarFormat'
+  | 'aadhaarLeadingDigit'
+  | 'aadhaarChecksum'
+  | 'ifscRequired'
+  | 'ifscFormat'
+  | 'accountRequired'
+  | 'accountFormat'
+  | 'pincodeFormat',
+  string
+>;
+
+export interface IfscLookup {
+  bankCode: string;
+  bankName: string;
+  branchCode: string;
+}
+
+export declare function isVerhoeffValid(digits: string): boolean;
+export declare function panError(pan?: string, name?: string): string | null;
+export declare function aadhaarError(aadhaar?: string): string | null;
+export declare function ifscError(ifsc?: string): string | null;
+export declare function bankAccountError(accountNumber?: string): string | null;
+export declare function pincodeError(pincode?: string): string | null;
+export declare function lookupIfsc(ifsc?: string): IfscLookup | null;
+export declare function stateForPincode(pincode?: string): string | null;
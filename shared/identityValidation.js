@@ -0,0 +1,145 @@
+// shared/identityValidation.js - PAN, Aadhaar, IFSC, bank account and pincode checks
+// Used by the investor form and the API validators alike, so both reject the same input with the
+// same message. Each *Error function returns the message for an invalid value, or null.
+import { IFSC_BANKS } from './data/ifscBanks.js';
+import { PINCODE_STATES_BY_PREFIX2, PINCODE_STATES_BY_PREFIX3 } from './data/pincodeStates.js';
+
+export const PAN_PATTERN = /^[A-Z]{5}[0-9]{4}[A-Z]$/;
+export const AADHAAR_PATTERN = /^\d{12}$/;
+export const IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+export const BANK_ACCOUNT_PATTERN = /^\d{9,18}$/;
+export const PINCODE_PATTERN = /^[1-9]\d{5}$/;
+
+// 4th character of a PAN: the kind of holder it was issued to
+export const PAN_HOLDER_TYPES = {
+  A: 'Association of Persons',
+  B: 'Body of Individuals',
+  C: 'Company',
+  F: 'Firm / LLP',
+  G: 'Government',
+  H: 'Hindu Undivided Family',
+  J: 'Artificial Juridical Person',
+  L: 'Local Authority',
+  P: 'Individual',
+  T: 'Trust'
+};
+
+export const IDENTITY_MESSAGES = {
+  panRequired: 'PAN is required',
+  panFormat: 'PAN must be 5 letters, 4 digits and a letter, e.g. ABCPE1234F',
+  panHolderType: '4th character of the PAN must be a valid holder type (P for individuals)',
+  panNameInitial: "5th character of the PAN must be the initial of the holder's surname",
+  aadhaarRequired: 'Aadhaar number is required',
+  aadhaarFormat: 'Aadhaar number must be 12 digits',
+  aadhaarLeadingDigit: 'Aadhaar number cannot start with 0 or 1',
+  aadhaarChecksum: 'Aadhaar number is not valid; check for a mistyped digit',
+  ifscRequired: 'IFSC code is required',
+  ifscFormat: 'IFSC must be 4 letters, a zero and 6 letters or digits, e.g. SBIN0001234',
+  accountRequired: 'Account number is required',
+  accountFormat: 'Account number must be 9 to 18 digits',
+  pincodeFormat: 'Pincode must be 6 digits and cannot start with 0'
+};
+
+// Verhoeff dihedral-group tables, as used for the Aadhaar check digit
+const VERHOEFF_MULTIPLY = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0]
+];
+
+const VERHOEFF_PERMUTE = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 7, 6, 8, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8]
+];
+
+// True when the last digit is the Verhoeff check digit of the rest
+export const isVerhoeffValid = (digits) => {
+  let check = 0;
+  const reversed = String(digits).split('').reverse();
+  reversed.forEach((digit, index) => {
+    check = VERHOEFF_MULTIPLY[check][VERHOEFF_PERMUTE[index % 8][Number(digit)]];
+  });
+  return check === 0;
+};
+
+// Letters that can stand for the holder's name in the PAN: individuals use the surname, which
+// may be written first or last; other holders use the first word of the entity's name
+const nameInitials = (name, holderType) => {
+  const words = String(name || '')
+    .toUpperCase()
+    .split(/[^A-Z]+/)
+    .filter(word => word && !['MR', 'MRS', 'MS', 'DR', 'SHRI', 'SMT', 'M', 'S', 'THE'].includes(word));
+  if (words.length === 0) return [];
+  if (holderType === 'P') {
+    return [...new Set([words[words.length - 1][0], words[0][0]])];
+  }
+  return [words[0][0]];
+};
+
+// name is optional; when given, the PAN's 5th character must match it
+export const panError = (pan, name) => {
+  if (!pan) return IDENTITY_MESSAGES.panRequired;
+  if (!PAN_PATTERN.test(pan)) return IDENTITY_MESSAGES.panFormat;
+
+  const holderType = pan[3];
+  if (!PAN_HOLDER_TYPES[holderType]) return IDENTITY_MESSAGES.panHolderType;
+
+  const initials = nameInitials(name, holderType);
+  if (initials.length > 0 && !initials.includes(pan[4])) return IDENTITY_MESSAGES.panNameInitial;
+  return null;
+};
+
+export const aadhaarError = (aadhaar) => {
+  if (!aadhaar) return IDENTITY_MESSAGES.aadhaarRequired;
+  if (!AADHAAR_PATTERN.test(aadhaar)) return IDENTITY_MESSAGES.aadhaarFormat;
+  if (aadhaar[0] === '0' || aadhaar[0] === '1') return IDENTITY_MESSAGES.aadhaarLeadingDigit;
+  if (!isVerhoeffValid(aadhaar)) return IDENTITY_MESSAGES.aadhaarChecksum;
+  return null;
+};
+
+export const ifscError = (ifsc) => {
+  if (!ifsc) return IDENTITY_MESSAGES.ifscRequired;
+  if (!IFSC_PATTERN.test(ifsc)) return IDENTITY_MESSAGES.ifscFormat;
+  return null;
+};
+
+export const bankAccountError = (accountNumber) => {
+  if (!accountNumber) return IDENTITY_MESSAGES.accountRequired;
+  if (!BANK_ACCOUNT_PATTERN.test(accountNumber)) return IDENTITY_MESSAGES.accountFormat;
+  return null;
+};
+
+// Pincode is optional on an address; only a value that is present is checked
+export const pincodeError = (pincode) => {
+  if (!pincode) return null;
+  if (!PINCODE_PATTERN.test(pincode)) return IDENTITY_MESSAGES.pincodeFormat;
+  return null;
+};
+
+// Bank for an IFSC from the offline bank-code list; null when the code is not listed.
+// Only the bank is known: the branch code is returned as is, with no branch name.
+export const lookupIfsc = (ifsc) => {
+  if (!IFSC_PATTERN.test(ifsc || '')) return null;
+  const bankCode = ifsc.slice(0, 4);
+  const bankName = IFSC_BANKS[bankCode];
+  return bankName ? { bankCode, bankName, branchCode: ifsc.slice(5) } : null;
+};
+
+// State or union territory a pincode belongs to; null when the prefix is not allotted
+export const stateForPincode = (pincode) => {
+  if (!PINCODE_PATTERN.test(pincode || '')) return null;
+  return PINCODE_STATES_BY_PREFIX3[pincode.slice(0, 3)] || PINCODE_STATES_BY_PREFIX2[pincode.slice(0, 2)] || null;
+};
@@ -0,0 +1,26 @@
+// shared/interestAccrual.d.ts - Types for the shared day-count accrual module
+
+export type DayCountConvention = 'actual_365' | 'actual_actual' | 'thirty_360' | 'monthly';
+export type InterestCalculationMethod = 'daily' | 'monthly' | 'yearly';
+
+export interface AccrualPeriod {
+  start: Date;
+  end: Date;
+  fraction: number;
+}
+
+export declare const DAY_COUNT_CONVENTIONS: DayCountConvention[];
+
+export interface DayCountSettings {
+  dayCountConvention?: DayCountConvention | null;
+  interestCalculationMethod?: InterestCalculationMethod | null;
+}
+
+export declare function resolveDayCountConvention(financial?: DayCountSettings | null): DayCountConvention;
+export declare function accrualFraction(from: Date, to: Date, convention: DayCountConvention): number;
+export declare function addMonths(date: Date, months: number): Date;
+export declare function buildAccrualPeriods(
+  investmentDate: Date | string,
+  tenure: number,
+  convention?: DayCountConvention | null
+): AccrualPeriod[];
@@ -0,0 +1,122 @@
+// shared/interestAccrual.js - Day-count conventions for interest accrual
+// Used by the API and the client schedule previews alike.
+//
+// Plan rates are quoted per month. The tenure is split into monthly periods
+// between investment anniversaries, and each period carries a `fraction`
+// expressed in months, so the interest for a period is
+// `balance * monthlyRate * fraction`. A mid-month start leaves a broken first
+// and last calendar month, which each convention pro-rates by its own day count.
+// All date arithmetic is in UTC so the API and the browser compute the same
+// periods whatever their time zone.
+
+export const DAY_COUNT_CONVENTIONS = ['actual_365', 'actual_actual', 'thirty_360', 'monthly'];
+
+// Older Settings.financial.interestCalculationMethod values -> convention
+const CALCULATION_METHOD_CONVENTIONS = {
+  daily: 'actual_365',
+  yearly: 'actual_actual',
+  monthly: 'monthly'
+};
+
+// Company default from Settings.financial: the chosen convention, else the one
+// implied by the interest calculation method set before conventions could be chosen
+export const resolveDayCountConvention = (financial) => {
+  return financial?.dayCountConvention ||
+    CALCULATION_METHOD_CONVENTIONS[financial?.interestCalculationMethod] ||
+    'actual_365';
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const utcDay = (date) => Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+// Calendar days between two dates, ignoring time of day
+const actualDays = (from, to) => Math.round((utcDay(to) - utcDay(from)) / DAY_MS);
+
+const daysInMonth = (year, month) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+const daysInYear = (year) => (daysInMonth(year, 1) === 29 ? 366 : 365);
+
+// Same day of the month `months` later, or the month end when that month is shorter
+export const addMonths = (date, months) => {
+  const result = new Date(date);
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  result.setUTCDate(Math.min(day, daysInMonth(result.getUTCFullYear(), result.getUTCMonth())));
+  return result;
+};
+
+// Actual/Actual - each day accrues 12 / (days in its year) months
+const actualActualMonths = (from, to) => {
+  let months = 0;
+  let cursor = new Date(utcDay(from));
+  const end = new Date(utcDay(to));
+  while (cursor < end) {
+    const yearEnd = new Date(Date.UTC(cursor.getUTCFullYear() + 1, 0, 1));
+    const segmentEnd = yearEnd < end ? yearEnd : end;
+    months += actualDays(cursor, segmentEnd) * 12 / daysInYear(cursor.getUTCFullYear());
+    cursor = segmentEnd;
+  }
+  return months;
+};
+
+// 30E/360 (ISDA) - every month counts as 30 days, and so does a month end
+const thirty360Day = (date) => {
+  const day = date.getUTCDate();
+  return day === daysInMonth(date.getUTCFullYear(), date.getUTCMonth()) ? 30 : Math.min(day, 30);
+};
+
+const thirty360Days = (from, to) => {
+  return (to.getUTCFullYear() - from.getUTCFullYear()) * 360 +
+    (to.getUTCMonth() - from.getUTCMonth()) * 30 +
+    (thirty360Day(to) - thirty360Day(from));
+};
+
+// Monthly - a full month per calendar month, a broken month pro-rata to its days in that month
+const calendarMonths = (from, to) => {
+  let months = 0;
+  let cursor = new Date(utcDay(from));
+  const end = new Date(utcDay(to));
+  while (cursor < end) {
+    const monthEnd = new Date(Date.UTC(cursor.getUTCFullYear(), cursor.getUTCMonth() + 1, 1));
+    const segmentEnd = monthEnd < end ? monthEnd : end;
+    months += actualDays(cursor, segmentEnd) / daysInMonth(cursor.getUTCFullYear(), cursor.getUTCMonth());
+    cursor = segmentEnd;
+  }
+  return months;
+};
+
+// Months of interest accrued from `from` to `to` under a convention
+export const accrualFraction = (from, to, convention) => {
+  switch (convention) {
+    case 'actual_365':
+      return actualDays(from, to) * 12 / 365;
+    case 'actual_actual':
+      return actualActualMonths(from, to);
+    case 'thirty_360':
+      return thirty360Days(from, to) / 30;
+    default:
+      return calendarMonths(from, to);
+  }
+};
+
+// One accrual period per month of the tenure, from one investment anniversary to
+// the next, so payouts fall due on anniversaries. The convention only decides how
+// much interest each period accrues: after a mid-month start under 'monthly', the
+// first period takes the broken rest of the starting month and the last one the
+// broken start of the maturity month. Investments created before conventions were
+// recorded accrue a full month per period.
+export const buildAccrualPeriods = (investmentDate, tenure, convention) => {
+  const start = new Date(investmentDate);
+
+  return Array.from({ length: tenure }, (_, index) => {
+    const periodStart = addMonths(start, index);
+    const periodEnd = addMonths(start, index + 1);
+    return {
+      start: periodStart,
+      end: periodEnd,
+      fraction: convention ? accrualFraction(periodStart, periodEnd, convention) : 1
+    };
+  });
+};
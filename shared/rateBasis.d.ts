@@ -0,0 +1,19 @@
+// shared/rateBasis.d.ts - Types for the shared rate basis module
+
+export type RateBasis = 'monthly' | 'annual_nominal' | 'annual_effective';
+
+export interface DatedCashflow {
+  date: Date;
+  amount: number;
+}
+
+export declare const RATE_BASES: RateBasis[];
+
+export declare function toMonthlyRate(interestRate: number, rateBasis?: RateBasis): number;
+export declare function effectiveAnnualYield(interestRate: number, rateBasis?: RateBasis): number;
+export declare function calculateXirr(cashflows: DatedCashflow[]): number | null;
+export declare function scheduleXirr(
+  schedule: Array<{ dueDate: Date | string; totalAmount: number }>,
+  principalAmount: number,
+  investmentDate: Date | string
+): number | null;
@@ -0,0 +1,83 @@
+// shared/rateBasis.js - Rate basis conversions and yield disclosure
+// Used by the API and the client alike; display labels live in src/utils/rateBasis.ts.
+
+export const RATE_BASES = ['monthly', 'annual_nominal', 'annual_effective'];
+
+// Periodic (per month) rate as a decimal, used by the accrual engine
+export const toMonthlyRate = (interestRate, rateBasis = 'monthly') => {
+  const rate = interestRate / 100;
+  switch (rateBasis) {
+    case 'annual_nominal':
+      return rate / 12;
+    case 'annual_effective':
+      return Math.pow(1 + rate, 1 / 12) - 1;
+    default:
+      return rate;
+  }
+};
+
+// Effective annual yield (%) of the contractual rate, compounded monthly
+export const effectiveAnnualYield = (interestRate, rateBasis = 'monthly') => {
+  const yieldRate = Math.pow(1 + toMonthlyRate(interestRate, rateBasis), 12) - 1;
+  return Math.round(yieldRate * 10000) / 100;
+};
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+const netPresentValue = (cashflows, rate) => {
+  const origin = cashflows[0].date.getTime();
+  return cashflows.reduce((sum, { date, amount }) => {
+    return sum + amount / Math.pow(1 + rate, (date.getTime() - origin) / YEAR_MS);
+  }, 0);
+};
+
+const netPresentValueDerivative = (cashflows, rate) => {
+  const origin = cashflows[0].date.getTime();
+  return cashflows.reduce((sum, { date, amount }) => {
+    const years = (date.getTime() - origin) / YEAR_MS;
+    return sum - years * amount / Math.pow(1 + rate, years + 1);
+  }, 0);
+};
+
+// XIRR (%) of dated cashflows: Newton-Raphson with a bisection fallback.
+// Returns null when the cashflows have no sign change.
+export const calculateXirr = (cashflows) => {
+  if (cashflows.length < 2) return null;
+  const hasOutflow = cashflows.some(flow => flow.amount < 0);
+  const hasInflow = cashflows.some(flow => flow.amount > 0);
+  if (!hasOutflow || !hasInflow) return null;
+
+  let rate = 0.1;
+  for (let iteration = 0; iteration < 50; iteration++) {
+    const value = netPresentValue(cashflows, rate);
+    const derivative = netPresentValueDerivative(cashflows, rate);
+    if (!derivative) break;
+    const next = rate - value / derivative;
+    if (!Number.isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < 1e-10) {
+      return Math.round(next * 10000) / 100;
+    }
+    rate = next;
+  }
+
+  let low = -0.9999;
+  let high = 100;
+  if (netPresentValue(cashflows, low) * netPresentValue(cashflows, high) > 0) return null;
+  for (let iteration = 0; iteration < 200; iteration++) {
+    const mid = (low + high) / 2;
+    if (netPresentValue(cashflows, low) * netPresentValue(cashflows, mid) <= 0) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return Math.round(((low + high) / 2) * 10000) / 100;
+};
+
+// Investor's XIRR for a schedule: principal out on the investment date, payouts in on due dates
+export const scheduleXirr = (schedule, principalAmount, investmentDate) => {
+  return calculateXirr([
+    { date: new Date(investmentDate), amount: -principalAmount },
+    ...schedule.map(row => ({ date: new Date(row.dueDate), amount: row.totalAmount }))
+  ]);
+};
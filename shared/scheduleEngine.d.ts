@@ -0,0 +1,84 @@
+// shared/scheduleEngine.d.ts - Types for the shared schedule engine
+
+import { DayCountConvention } from './interestAccrual.js';
+import { RateBasis } from './rateBasis.js';
+
+export type PayoutFrequency = 'monthly' | 'quarterly' | 'half-yearly' | 'yearly' | 'others';
+
+export interface PayoutTerms {
+  frequency: PayoutFrequency;
+  interestCadenceMonths: number;
+  principalCadenceMonths: number;
+  principalRepaymentOption: 'fixed' | 'flexible';
+  withdrawalAfterPercentage: number;
+  principalSettlementTerm: number;
+  principalRepaymentPercentage: number;
+}
+
+// A plan, or an investment's copy of its terms
+export interface ScheduleTerms {
+  interestRate: number;
+  rateBasis?: RateBasis;
+  interestType: 'flat' | 'reducing';
+  tenure: number;
+  paymentType: 'interest' | 'interestWithPrincipal';
+  interestPayment?: {
+    dateOfInvestment?: string | Date;
+    interestFrequency?: PayoutFrequency;
+    interestStartDate?: string | Date;
+    principalRepaymentOption?: 'fixed' | 'flexible';
+    withdrawalAfterPercentage?: number;
+    principalSettlementTerm?: number;
+  };
+  interestWithPrincipalPayment?: {
+    dateOfInvestment?: string | Date;
+    paymentFrequency?: PayoutFrequency;
+    interestPayoutDate?: string | Date;
+    principalPayoutDate?: string | Date;
+    principalRepaymentPercentage?: number;
+  };
+  payoutTerms?: PayoutTerms | null;
+  dayCountConvention?: DayCountConvention | null;
+}
+
+export interface ScheduleRow {
+  period: number;
+  month: number;
+  periodStartMonth: number;
+  dueDate: Date;
+  interestAmount: number;
+  principalAmount: number;
+  totalAmount: number;
+  remainingPrincipal: number;
+  status: 'pending';
+  paidAmount: number;
+  paidDate: null;
+}
+
+export interface ReturnsSummary {
+  totalInterest: number;
+  totalReturns: number;
+  effectiveRate: number;
+  paymentType: ScheduleTerms['paymentType'];
+  numberOfPayouts: number;
+  effectiveAnnualYield: number;
+  xirr: number | null;
+}
+
+export declare const FREQUENCY_MONTHS: Record<Exclude<PayoutFrequency, 'others'>, number>;
+
+export declare function roundCurrency(value: number): number;
+export declare function monthsBetween(from: Date | string, to: Date | string): number;
+export declare function resolvePayoutTerms(plan: ScheduleTerms): PayoutTerms;
+export declare function buildSchedule(
+  terms: ScheduleTerms,
+  principalAmount: number,
+  investmentDate: Date | string,
+  dayCountConvention?: DayCountConvention | null
+): ScheduleRow[];
+export declare function summarizeReturns(
+  schedule: ScheduleRow[],
+  principalAmount: number,
+  terms: ScheduleTerms,
+  investmentDate: Date | string
+): ReturnsSummary;
@@ -0,0 +1,170 @@
+// shared/scheduleEngine.js - Payout schedule and returns calculation
+// The one implementation behind the Plan and Investment models and the client
+// previews (src/utils/scheduleEngine.ts), so both always produce the same rows.
+// Pinned by the golden fixtures in backend/tests/fixtures/schedules.
+import { buildAccrualPeriods } from './interestAccrual.js';
+import { effectiveAnnualYield, scheduleXirr, toMonthlyRate } from './rateBasis.js';
+
+export const FREQUENCY_MONTHS = {
+  monthly: 1,
+  quarterly: 3,
+  'half-yearly': 6,
+  yearly: 12
+};
+
+export const roundCurrency = (value) => Math.round(value * 100) / 100;
+
+// Whole calendar months between two dates (a partial month does not count)
+export const monthsBetween = (from, to) => {
+  const start = new Date(from);
+  const end = new Date(to);
+  let months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + (end.getUTCMonth() - start.getUTCMonth());
+  if (end.getUTCDate() < start.getUTCDate()) {
+    months -= 1;
+  }
+  return months;
+};
+
+// For the 'others' frequency the configured payout date marks the first payout;
+// its distance from the plan's reference investment date becomes the cadence.
+const resolveCustomCadence = (referenceDate, payoutDate, tenure) => {
+  if (!referenceDate || !payoutDate) return 1;
+  const months = monthsBetween(referenceDate, payoutDate);
+  return Math.min(Math.max(months, 1), tenure);
+};
+
+const resolveCadence = (frequency, referenceDate, payoutDate, tenure) => {
+  if (frequency === 'others') {
+    return resolveCustomCadence(referenceDate, payoutDate, tenure);
+  }
+  return FREQUENCY_MONTHS[frequency] || 1;
+};
+
+// Reduce a plan's payout configuration to plain cadences so that investments can
+// keep a copy that does not depend on the plan's reference dates.
+export const resolvePayoutTerms = (plan) => {
+  const tenure = plan.tenure;
+
+  if (plan.paymentType === 'interest') {
+    const config = plan.interestPayment || {};
+    return {
+      frequency: config.interestFrequency || 'monthly',
+      interestCadenceMonths: resolveCadence(config.interestFrequency, config.dateOfInvestment, config.interestStartDate, tenure),
+      principalCadenceMonths: tenure,
+      principalRepaymentOption: config.principalRepaymentOption || 'fixed',
+      withdrawalAfterPercentage: config.withdrawalAfterPercentage || 0,
+      principalSettlementTerm: config.principalSettlementTerm || 1,
+      principalRepaymentPercentage: 100
+    };
+  }
+
+  const config = plan.interestWithPrincipalPayment || {};
+  return {
+    frequency: config.paymentFrequency || 'monthly',
+    interestCadenceMonths: resolveCadence(config.paymentFrequency, config.dateOfInvestment, config.interestPayoutDate, tenure),
+    principalCadenceMonths: resolveCadence(config.paymentFrequency, config.dateOfInvestment, config.principalPayoutDate, tenure),
+    principalRepaymentOption: 'fixed',
+    withdrawalAfterPercentage: 0,
+    principalSettlementTerm: 1,
+    principalRepaymentPercentage: config.principalRepaymentPercentage ?? 100
+  };
+};
+
+// Interest accrues per monthly accrual period (see interestAccrual.js); rows are only
+// emitted on payout months. `month` is the last period covered by the row (and is
+// what payments reference), `period` is the 1-based payout index.
+export const buildSchedule = (terms, principalAmount, investmentDate, dayCountConvention = terms.dayCountConvention) => {
+  const { interestRate, interestType, tenure, paymentType, rateBasis } = terms;
+  const payout = terms.payoutTerms?.interestCadenceMonths ? terms.payoutTerms : resolvePayoutTerms(terms);
+  const accrualPeriods = buildAccrualPeriods(investmentDate, tenure, dayCountConvention);
+  const totalPeriods = accrualPeriods.length;
+  const monthlyRate = toMonthlyRate(interestRate, rateBasis);
+  const interestCadence = payout.interestCadenceMonths || 1;
+  const principalCadence = payout.principalCadenceMonths || 1;
+
+  let settlementStartMonth = Infinity;
+  let monthlyPrincipal = 0;
+  let principalPerPayment = 0;
+
+  if (paymentType === 'interest') {
+    if (payout.principalRepaymentOption === 'flexible') {
+      settlementStartMonth = Math.ceil(tenure * payout.withdrawalAfterPercentage / 100);
+      monthlyPrincipal = principalAmount / payout.principalSettlementTerm;
+    }
+  } else {
+    const principalPayouts = Math.ceil(totalPeriods / principalCadence);
+    principalPerPayment = (principalAmount * payout.principalRepaymentPercentage / 100) / principalPayouts;
+  }
+
+  const schedule = [];
+  let remainingPrincipal = principalAmount;
+  let accruedInterest = 0;
+  let accruedPrincipal = 0;
+  let periodStartMonth = 1;
+
+  accrualPeriods.forEach(({ end, fraction }, index) => {
+    const month = index + 1;
+    const isFinalMonth = month === totalPeriods;
+    const outstanding = remainingPrincipal - accruedPrincipal;
+
+    accruedInterest += (interestType === 'flat' ? principalAmount : remainingPrincipal) * monthlyRate * fraction;
+
+    let principalDue = 0;
+    let isPrincipalPoint = false;
+
+    if (paymentType === 'interest') {
+      // The last payout settles whatever is still outstanding, including what a flexible
+      // settlement term running past the tenure has not yet repaid
+      if (isFinalMonth) {
+        principalDue = outstanding;
+      } else if (month >= settlementStartMonth) {
+        principalDue = Math.min(monthlyPrincipal, outstanding);
+      }
+    } else if (month % principalCadence === 0 || isFinalMonth) {
+      principalDue = Math.min(principalPerPayment, outstanding);
+      isPrincipalPoint = true;
+    }
+
+    accruedPrincipal += principalDue;
+
+    const isInterestPoint = month % interestCadence === 0 || isFinalMonth;
+    if (!isInterestPoint && !(isPrincipalPoint && accruedPrincipal > 0)) return;
+
+    const interestAmount = isInterestPoint ? accruedInterest : 0;
+    remainingPrincipal -= accruedPrincipal;
+
+    schedule.push({
+      period: schedule.length + 1,
+      month,
+      periodStartMonth,
+      dueDate: new Date(end),
+      interestAmount: roundCurrency(interestAmount),
+      principalAmount: roundCurrency(accruedPrincipal),
+      totalAmount: roundCurrency(interestAmount + accruedPrincipal),
+      remainingPrincipal: roundCurrency(Math.max(0, remainingPrincipal)),
+      status: 'pending',
+      paidAmount: 0,
+      paidDate: null
+    });
+
+    if (isInterestPoint) accruedInterest = 0;
+    accruedPrincipal = 0;
+    periodStartMonth = month + 1;
+  });
+
+  return schedule;
+};
+
+export const summarizeReturns = (schedule, principalAmount, terms, investmentDate) => {
+  const totalInterest = schedule.reduce((sum, row) => sum + row.interestAmount, 0);
+
+  return {
+    totalInterest: roundCurrency(totalInterest),
+    totalReturns: roundCurrency(principalAmount + totalInterest),
+    effectiveRate: roundCurrency((totalInterest / principalAmount) * 100),
+    paymentType: terms.paymentType,
+    numberOfPayouts: schedule.length,
+    effectiveAnnualYield: effectiveAnnualYield(terms.interestRate, terms.rateBasis),
+    xirr: scheduleXirr(schedule, principalAmount, investmentDate)
+  };
+};
@@ -9,10 +9,17 @@ import LoginPage from './pages/auth/LoginPage';
 import RegisterPage from './pages/auth/RegisterPage';
 import DashboardPage from './pages/DashboardPage';
 import InvestorsPage from './pages/investors/InvestorsPage';
+import KycReviewPage from './pages/investors/KycReviewPage';
+import DuplicatesPage from './pages/investors/DuplicatesPage';
 import PlansPage from './pages/plans/PlansPage';
 import InvestmentsPage from './pages/investments/InvestmentsPage';
 import PaymentsPage from './pages/payments/PaymentsPage';
+import ReconciliationPage from './pages/payments/ReconciliationPage';
+import PayoutRunPage from './pages/payments/PayoutRunPage';
+import PayoutFilePage from './pages/payments/PayoutFilePage';
 import ReportsPage from './pages/reports/ReportsPage';
+import TdsReportPage from './pages/reports/TdsReportPage';
+import StatementsPage from './pages/statements/StatementsPage';
 import SettingsPage from './pages/settings/SettingsPage';
 
 // NEW: Import the comprehensive investor view component
@@ -44,6 +51,12 @@ function App() {
                 </ProtectedRoute>
               } />
               
+              <Route path="investors/duplicates" element={
+                <ProtectedRoute roles={['admin', 'finance_manager']}>
+                  <DuplicatesPage />
+                </ProtectedRoute>
+              } />
+              
               {/* NEW: Direct route for comprehensive investor view (optional) */}
               <Route path="investors/:investorId/comprehensive" element={
                 <ProtectedRoute roles={['admin', 'finance_manager']}>
@@ -51,6 +64,12 @@ function App() {
                 </ProtectedRoute>
               } />
               
+              <Route path="kyc" element={
+                <ProtectedRoute roles={['admin', 'finance_manager']}>
+                  <KycReviewPage />
+                </ProtectedRoute>
+              } />
+              
               {/* Other existing routes */}
               <Route path="plans" element={
                 <ProtectedRoute roles={['admin', 'finance_manager']}>
@@ -59,11 +78,36 @@ function App() {
               } />
               <Route path="investments" element={<InvestmentsPage />} />
               <Route path="payments" element={<PaymentsPage />} />
+              <Route path="payments/reconciliation" element={
+                <ProtectedRoute roles={['admin', 'finance_manager']}>
+                  <ReconciliationPage />
+                </ProtectedRoute>
+              } />
+              <Route path="payments/payout-run" element={
+                <ProtectedRoute roles={['admin', 'finance_manager']}>
+                  <PayoutRunPage />
+                </ProtectedRoute>
+              } />
+              <Route path="payments/payout-files" element={
+                <ProtectedRoute roles={['admin', 'finance_manager']}>
+                  <PayoutFilePage />
+                </ProtectedRoute>
+              } />
+              <Route path="statements" element={
+                <ProtectedRoute roles={['investor']}>
+                  <StatementsPage />
+                </ProtectedRoute>
+              } />
               <Route path="reports" element={
                 <ProtectedRoute roles={['admin', 'finance_manager']}>
                   <ReportsPage />
                 </ProtectedRoute>
               } />
+              <Route path="reports/tds" element={
+                <ProtectedRoute roles={['admin', 'finance_manager']}>
+                  <TdsReportPage />
+                </ProtectedRoute>
+              } />
               <Route path="settings" element={
                 <ProtectedRoute roles={['admin']}>
                   <SettingsPage />
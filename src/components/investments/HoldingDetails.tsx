@@ -0,0 +1,236 @@
+// src/components/investments/HoldingDetails.tsx - Holders, nominees and death claim of an investment
+import React, { useState } from 'react';
+import { Download, Edit, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Button from '../common/Button';
+import Modal from '../common/Modal';
+import HoldingEditor from './HoldingEditor';
+import { investmentsService } from '../../services/investments';
+import { investorsService } from '../../services/investors';
+import { HoldingInput, Investment, Investor } from '../../types';
+import { MODE_OF_OPERATION_LABELS, holdingError, isMinor } from '../../../shared/holdingRules.js';
+import { errorMessage } from '../../utils/errors';
+
+interface HoldingDetailsProps {
+  investment: Investment;
+  canManage: boolean;
+  onUpdated?: (updatedInvestment: Investment) => void;
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 0,
+  }).format(amount);
+};
+
+const formatDate = (date: string) => {
+  return new Date(date).toLocaleDateString('en-IN');
+};
+
+const DeceasedBadge: React.FC = () => (
+  <span className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-gray-800 text-white">Deceased</span>
+);
+
+const HoldingDetails: React.FC<HoldingDetailsProps> = ({ investment, canManage, onUpdated }) => {
+  const [editing, setEditing] = useState(false);
+  const [holding, setHolding] = useState<HoldingInput | null>(null);
+  const [investors, setInvestors] = useState<Investor[]>([]);
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+
+  const jointHolders = investment.jointHolders || [];
+  const nominees = investment.nominees || [];
+  const mode = investment.modeOfOperation || 'single';
+  const anyDeceased = !!investment.investor.deceased?.dateOfDeath ||
+    jointHolders.some(holder => holder.investor.deceased?.dateOfDeath);
+  const canEdit = canManage && investment.status === 'active' && !anyDeceased;
+
+  const openEditor = async () => {
+    setHolding({
+      jointHolders: jointHolders.map(holder => ({ investor: holder.investor._id, relationship: holder.relationship || '' })),
+      modeOfOperation: mode,
+      nominees: nominees.map(nominee => ({ ...nominee, _id: undefined }))
+    });
+    setReason('');
+    setEditing(true);
+    try {
+      const response = await investorsService.getInvestors({ limit: 100, status: 'active' });
+      setInvestors(response.data || []);
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to load investors'));
+    }
+  };
+
+  const holdingProblem = holding ? holdingError({ investor: investment.investor._id, ...holding }) : null;
+
+  const handleSave = async () => {
+    if (!holding || holdingProblem) return;
+    try {
+      setSaving(true);
+      const response = await investmentsService.updateHolding(investment._id, { ...holding, reason: reason.trim() || undefined });
+      toast.success('Holding updated successfully');
+      setEditing(false);
+      if (onUpdated && response.data) {
+        onUpdated(response.data);
+      }
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to update holding'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDownloadAgreement = async () => {
+    try {
+      setDownloading(true);
+      await investmentsService.downloadAgreement(investment);
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to download agreement'));
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg border border-gray-200">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+          <Users className="h-5 w-5 mr-2" />
+          Holders & Nominees
+        </h3>
+        {canManage && (
+          <div className="flex space-x-2">
+            <Button size="sm" variant="outline" onClick={handleDownloadAgreement} loading={downloading}>
+              <Download className="h-4 w-4 mr-2" />
+              Agreement
+            </Button>
+            {canEdit && (
+              <Button size="sm" variant="outline" onClick={openEditor}>
+                <Edit className="h-4 w-4 mr-2" />
+                Edit
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <p className="text-sm text-gray-600 mb-2">
+            Mode of operation: <span className="font-medium text-gray-900">{MODE_OF_OPERATION_LABELS[mode]}</span>
+          </p>
+          <ul className="space-y-2 text-sm">
+            <li>
+              <span className="text-gray-500">Primary:</span>{' '}
+              <span className="font-medium">{investment.investor.name}</span> ({investment.investor.investorId})
+              {investment.investor.deceased?.dateOfDeath && <DeceasedBadge />}
+            </li>
+            {jointHolders.map((holder, index) => (
+              <li key={holder.investor._id}>
+                <span className="text-gray-500">Joint {index + 1}:</span>{' '}
+                <span className="font-medium">{holder.investor.name}</span> ({holder.investor.investorId})
+                {holder.relationship && <span className="text-gray-500"> · {holder.relationship}</span>}
+                {holder.investor.deceased?.dateOfDeath && <DeceasedBadge />}
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div>
+          {nominees.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">No nominee registered</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="pb-2">Nominee</th>
+                  <th className="pb-2">Date of Birth</th>
+                  <th className="pb-2 text-right">Share</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {nominees.map(nominee => (
+                  <tr key={nominee._id || nominee.name}>
+                    <td className="py-2">
+                      <div className="font-medium">{nominee.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {nominee.relationship}
+                        {isMinor(nominee.dateOfBirth) && ` · minor, guardian ${nominee.guardian?.name || '-'}`}
+                      </div>
+                    </td>
+                    <td className="py-2">{formatDate(nominee.dateOfBirth)}</td>
+                    <td className="py-2 text-right">{nominee.sharePercent}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      {anyDeceased && !investment.deathClaim && investment.status === 'active' && (
+        <p className="mt-4 text-sm text-yellow-800 bg-yellow-50 p-3 rounded-lg">
+          A holder is recorded as deceased. Close the investment from Prepay / Close to settle it with the
+          {jointHolders.length > 0 ? ' surviving holders or' : ''} nominees.
+        </p>
+      )}
+
+      {investment.deathClaim && (
+        <div className="mt-4 p-3 bg-gray-50 rounded-lg text-sm">
+          <p className="font-medium text-gray-900 mb-2">
+            Settled on the death of {investment.deathClaim.deceased.map(holder => holder.name).join(', ')}
+            {investment.deathClaim.settledAt && ` on ${formatDate(investment.deathClaim.settledAt)}`}
+          </p>
+          <ul className="space-y-1">
+            {investment.deathClaim.claimants.map(claimant => (
+              <li key={`${claimant.role}-${claimant.name}`} className="flex justify-between">
+                <span>
+                  {claimant.payTo}
+                  <span className="text-gray-500"> ({claimant.role === 'nominee' ? 'nominee' : 'surviving holder'}, {claimant.sharePercent}%)</span>
+                </span>
+                <span className="font-medium">{formatCurrency(claimant.amount)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <Modal isOpen={editing} onClose={() => setEditing(false)} title="Edit Holders & Nominees" size="lg">
+        {holding && (
+          <div className="space-y-4">
+            <HoldingEditor
+              value={holding}
+              onChange={setHolding}
+              primaryId={investment.investor._id}
+              investors={investors}
+              error={holdingProblem}
+            />
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Reason (optional)</label>
+              <input
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                maxLength={500}
+                placeholder="e.g. Nominee change requested by the investor"
+                className="block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div className="flex justify-end space-x-3">
+              <Button type="button" variant="outline" onClick={() => setEditing(false)}>
+                Cancel
+              </Button>
+              <Button type="button" onClick={handleSave} loading={saving} disabled={!!holdingProblem}>
+                Save Holding
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
+
+export default HoldingDetails;
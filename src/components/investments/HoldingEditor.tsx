@@ -0,0 +1,274 @@
+// src/components/investments/HoldingEditor.tsx - Joint holders, mode of operation and nominees of an investment
+import React from 'react';
+import { AlertTriangle, Plus, Trash2 } from 'lucide-react';
+import { Investor, HoldingInput, ModeOfOperation, Nominee } from '../../types';
+import {
+  MAX_JOINT_HOLDERS,
+  MAX_NOMINEES,
+  MODE_OF_OPERATION_LABELS,
+  MODES_OF_OPERATION,
+  isMinor
+} from '../../../shared/holdingRules.js';
+
+interface HoldingEditorProps {
+  value: HoldingInput;
+  onChange: (value: HoldingInput) => void;
+  // Primary holder; cannot also be a joint holder
+  primaryId?: string;
+  investors: Investor[];
+  // Rule the holding currently breaks (see shared/holdingRules.js)
+  error?: string | null;
+}
+
+const EMPTY_NOMINEE: Nominee = { name: '', relationship: '', dateOfBirth: '', sharePercent: 0 };
+
+const inputClass = 'block w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-blue-500 focus:border-blue-500';
+
+const kycVerified = (investor?: Investor) =>
+  investor?.kyc?.verificationStatus === 'verified' &&
+  (!investor.kyc.expiresAt || new Date(investor.kyc.expiresAt) > new Date());
+
+const HoldingEditor: React.FC<HoldingEditorProps> = ({ value, onChange, primaryId, investors, error }) => {
+  const { jointHolders, modeOfOperation, nominees } = value;
+  const candidates = investors.filter(investor => investor._id !== primaryId && investor.status === 'active' && !investor.deceased?.dateOfDeath);
+
+  // Adding the first joint holder or removing the last one switches the mode with it
+  const setJointHolders = (holders: HoldingInput['jointHolders']) => {
+    let mode = modeOfOperation;
+    if (holders.length === 0) mode = 'single';
+    else if (mode === 'single') mode = 'either_or_survivor';
+    onChange({ ...value, jointHolders: holders, modeOfOperation: mode });
+  };
+
+  const updateHolder = (index: number, changes: Partial<HoldingInput['jointHolders'][number]>) => {
+    setJointHolders(jointHolders.map((holder, i) => (i === index ? { ...holder, ...changes } : holder)));
+  };
+
+  const setNominees = (list: Nominee[]) => onChange({ ...value, nominees: list });
+
+  const updateNominee = (index: number, changes: Partial<Nominee>) => {
+    setNominees(nominees.map((nominee, i) => (i === index ? { ...nominee, ...changes } : nominee)));
+  };
+
+  const addNominee = () => {
+    // A lone nominee takes the whole share by default
+    setNominees([...nominees, { ...EMPTY_NOMINEE, sharePercent: nominees.length === 0 ? 100 : 0 }]);
+  };
+
+  const totalShare = Math.round(nominees.reduce((sum, nominee) => sum + (Number(nominee.sharePercent) || 0), 0) * 100) / 100;
+
+  return (
+    <div className="space-y-6">
+      {/* Joint holders */}
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <h4 className="text-sm font-medium text-gray-900">Joint Holders</h4>
+          {jointHolders.length < MAX_JOINT_HOLDERS && (
+            <button
+              type="button"
+              onClick={() => setJointHolders([...jointHolders, { investor: '', relationship: '' }])}
+              className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add joint holder
+            </button>
+          )}
+        </div>
+        {jointHolders.length === 0 ? (
+          <p className="text-sm text-gray-500">Held by the primary investor alone.</p>
+        ) : (
+          <div className="space-y-2">
+            {jointHolders.map((holder, index) => {
+              const selected = investors.find(investor => investor._id === holder.investor);
+              return (
+                <div key={index}>
+                  <div className="grid grid-cols-1 md:grid-cols-[2fr_1fr_auto] gap-2 items-center">
+                    <select
+                      value={holder.investor}
+                      onChange={(e) => updateHolder(index, { investor: e.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="">Select joint holder {index + 1}</option>
+                      {candidates.map(investor => (
+                        <option key={investor._id} value={investor._id}>
+                          {investor.name} ({investor.investorId})
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      value={holder.relationship || ''}
+                      onChange={(e) => updateHolder(index, { relationship: e.target.value })}
+                      placeholder="Relationship, e.g. Spouse"
+                      maxLength={50}
+                      className={inputClass}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setJointHolders(jointHolders.filter((_, i) => i !== index))}
+                      className="p-2 text-gray-400 hover:text-red-600"
+                      title="Remove joint holder"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                  {selected && !kycVerified(selected) && (
+                    <p className="flex items-center mt-1 text-xs text-red-600">
+                      <AlertTriangle className="h-3 w-3 mr-1" />
+                      {selected.name}'s KYC is not verified; each joint holder needs verified KYC.
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="mt-3">
+          <label className="block text-sm font-medium text-gray-700">Mode of Operation</label>
+          <select
+            value={modeOfOperation}
+            onChange={(e) => onChange({ ...value, modeOfOperation: e.target.value as ModeOfOperation })}
+            disabled={jointHolders.length === 0}
+            className={`${inputClass} disabled:bg-gray-100`}
+          >
+            {MODES_OF_OPERATION
+              .filter(mode => (jointHolders.length === 0) === (mode === 'single'))
+              .map(mode => (
+                <option key={mode} value={mode}>{MODE_OF_OPERATION_LABELS[mode]}</option>
+              ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Nominees */}
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <h4 className="text-sm font-medium text-gray-900">
+            Nominees
+            {nominees.length > 0 && (
+              <span className={`ml-2 text-xs font-normal ${totalShare === 100 ? 'text-green-600' : 'text-red-600'}`}>
+                {totalShare}% of 100% allocated
+              </span>
+            )}
+          </h4>
+          {nominees.length < MAX_NOMINEES && (
+            <button
+              type="button"
+              onClick={addNominee}
+              className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add nominee
+            </button>
+          )}
+        </div>
+        {nominees.length === 0 ? (
+          <p className="text-sm text-gray-500">No nominee registered.</p>
+        ) : (
+          <div className="space-y-3">
+            {nominees.map((nominee, index) => {
+              const minor = isMinor(nominee.dateOfBirth);
+              return (
+                <div key={index} className="p-3 border border-gray-200 rounded-lg space-y-2">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                    <input
+                      value={nominee.name}
+                      onChange={(e) => updateNominee(index, { name: e.target.value })}
+                      placeholder="Nominee name"
+                      maxLength={100}
+                      className={inputClass}
+                    />
+                    <input
+                      value={nominee.relationship}
+                      onChange={(e) => updateNominee(index, { relationship: e.target.value })}
+                      placeholder="Relationship"
+                      maxLength={50}
+                      className={inputClass}
+                    />
+                    <input
+                      type="date"
+                      value={nominee.dateOfBirth ? nominee.dateOfBirth.split('T')[0] : ''}
+                      onChange={(e) => updateNominee(index, { dateOfBirth: e.target.value })}
+                      title="Date of birth"
+                      className={inputClass}
+                    />
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        step="0.01"
+                        value={nominee.sharePercent}
+                        onChange={(e) => updateNominee(index, { sharePercent: Number(e.target.value) })}
+                        title="Share %"
+                        className={inputClass}
+                      />
+                      <span className="text-sm text-gray-500">%</span>
+                      <button
+                        type="button"
+                        onClick={() => setNominees(nominees.filter((_, i) => i !== index))}
+                        className="p-2 text-gray-400 hover:text-red-600"
+                        title="Remove nominee"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                    <input
+                      value={nominee.phone || ''}
+                      onChange={(e) => updateNominee(index, { phone: e.target.value })}
+                      placeholder="Phone (optional)"
+                      className={inputClass}
+                    />
+                    <input
+                      value={nominee.address || ''}
+                      onChange={(e) => updateNominee(index, { address: e.target.value })}
+                      placeholder="Address (optional)"
+                      maxLength={300}
+                      className={inputClass}
+                    />
+                  </div>
+                  {minor && (
+                    <div className="bg-yellow-50 p-2 rounded-lg">
+                      <p className="text-xs text-yellow-800 mb-2">Minor nominee: a guardian receives the share until they turn 18.</p>
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                        <input
+                          value={nominee.guardian?.name || ''}
+                          onChange={(e) => updateNominee(index, { guardian: { ...nominee.guardian, name: e.target.value } })}
+                          placeholder="Guardian name"
+                          className={inputClass}
+                        />
+                        <input
+                          value={nominee.guardian?.relationship || ''}
+                          onChange={(e) => updateNominee(index, { guardian: { ...nominee.guardian, relationship: e.target.value } })}
+                          placeholder="Relationship to nominee"
+                          className={inputClass}
+                        />
+                        <input
+                          value={nominee.guardian?.phone || ''}
+                          onChange={(e) => updateNominee(index, { guardian: { ...nominee.guardian, phone: e.target.value } })}
+                          placeholder="Guardian phone"
+                          className={inputClass}
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="flex items-start text-sm text-red-700">
+          <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HoldingEditor;
@@ -0,0 +1,40 @@
+// src/components/investments/HoldingSummary.tsx - One-line joint holders and nominees of an investment
+import React from 'react';
+import { Users } from 'lucide-react';
+import { Investment } from '../../types';
+import { MODE_OF_OPERATION_LABELS } from '../../../shared/holdingRules.js';
+
+interface HoldingSummaryProps {
+  investment: Pick<Investment, 'jointHolders' | 'modeOfOperation' | 'nominees'>;
+}
+
+const HoldingSummary: React.FC<HoldingSummaryProps> = ({ investment }) => {
+  const jointHolders = investment.jointHolders || [];
+  const nominees = investment.nominees || [];
+  if (jointHolders.length === 0 && nominees.length === 0) return null;
+
+  return (
+    <div className="flex items-start mt-3 pt-3 border-t border-gray-100 text-sm text-gray-600">
+      <Users className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0 text-gray-400" />
+      <div>
+        {jointHolders.length > 0 && (
+          <div>
+            Joint with{' '}
+            {jointHolders.map(holder => (
+              `${holder.investor?.name || 'Unknown'}${holder.investor?.deceased?.dateOfDeath ? ' (deceased)' : ''}`
+            )).join(', ')}
+            {' '}· {MODE_OF_OPERATION_LABELS[investment.modeOfOperation || 'single']}
+          </div>
+        )}
+        <div>
+          Nominees:{' '}
+          {nominees.length > 0
+            ? nominees.map(nominee => `${nominee.name} (${nominee.relationship}, ${nominee.sharePercent}%)`).join(', ')
+            : 'none registered'}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HoldingSummary;
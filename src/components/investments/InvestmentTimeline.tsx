@@ -11,7 +11,9 @@ import {
   User,
   Clock,
   Plus,
-  Send
+  Send,
+  RefreshCw,
+  RotateCcw
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import Button from '../common/Button';
@@ -23,7 +25,7 @@ import toast from 'react-hot-toast';
 interface TimelineEntry {
   _id: string;
   date: string;
-  type: 'investment_created' | 'payment_received' | 'payment_overdue' | 'document_uploaded' | 'status_changed' | 'note_added' | 'communication';
+  type: 'investment_created' | 'payment_received' | 'payment_reversed' | 'payment_overdue' | 'document_uploaded' | 'status_changed' | 'note_added' | 'communication' | 'schedule_updated';
   description: string;
   amount?: number;
   performedBy: {
@@ -100,11 +102,13 @@ const InvestmentTimeline: React.FC<InvestmentTimelineProps> = ({
     const icons = {
       investment_created: <DollarSign className="h-4 w-4" />,
       payment_received: <CheckCircle className="h-4 w-4" />,
+      payment_reversed: <RotateCcw className="h-4 w-4" />,
       payment_overdue: <AlertTriangle className="h-4 w-4" />,
       document_uploaded: <Upload className="h-4 w-4" />,
       status_changed: <FileText className="h-4 w-4" />,
       note_added: <MessageSquare className="h-4 w-4" />,
-      communication: <MessageSquare className="h-4 w-4" />
+      communication: <MessageSquare className="h-4 w-4" />,
+      schedule_updated: <RefreshCw className="h-4 w-4" />
     };
     return icons[type as keyof typeof icons] || <FileText className="h-4 w-4" />;
   };
@@ -113,11 +117,13 @@ const InvestmentTimeline: React.FC<InvestmentTimelineProps> = ({
     const colors = {
       investment_created: 'bg-blue-500 text-white',
       payment_received: 'bg-green-500 text-white',
+      payment_reversed: 'bg-red-400 text-white',
       payment_overdue: 'bg-red-500 text-white',
       document_uploaded: 'bg-purple-500 text-white',
       status_changed: 'bg-yellow-500 text-white',
       note_added: 'bg-gray-500 text-white',
-      communication: 'bg-indigo-500 text-white'
+      communication: 'bg-indigo-500 text-white',
+      schedule_updated: 'bg-orange-500 text-white'
     };
     return colors[type as keyof typeof colors] || 'bg-gray-500 text-white';
   };
@@ -258,6 +264,14 @@ const InvestmentTimeline: React.FC<InvestmentTimelineProps> = ({
                           {entry.metadata.category && (
                             <span>Category: <strong>{entry.metadata.category}</strong></span>
                           )}
+                          {entry.metadata.before && entry.metadata.after && (
+                            <span>
+                              Rate <strong>{entry.metadata.before.interestRate}%</strong> → <strong>{entry.metadata.after.interestRate}%</strong>,
+                              tenure <strong>{entry.metadata.before.tenure}</strong> → <strong>{entry.metadata.after.tenure}</strong> months,
+                              interest <strong>{formatCurrency(entry.metadata.before.totalInterestExpected)}</strong> → <strong>{formatCurrency(entry.metadata.after.totalInterestExpected)}</strong>
+                              {' '}({entry.metadata.removedRows?.length || 0} rows replaced by {entry.metadata.addedRows?.length || 0})
+                            </span>
+                          )}
                         </div>
                       </div>
                     )}
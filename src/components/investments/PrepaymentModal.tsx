@@ -0,0 +1,286 @@
+// src/components/investments/PrepaymentModal.tsx
+import React, { useState } from 'react';
+import { Calculator, Send } from 'lucide-react';
+import Button from '../common/Button';
+import Modal from '../common/Modal';
+import { investmentsService } from '../../services/investments';
+import { Investment, Payment, PrepaymentMode, PrepaymentRequest, PrepaymentSettlement } from '../../types';
+import { errorMessage } from '../../utils/errors';
+import toast from 'react-hot-toast';
+
+interface PrepaymentModalProps {
+  investment: Investment;
+  isOpen: boolean;
+  onClose: () => void;
+  onRecorded?: (updatedInvestment: Investment) => void;
+}
+
+const PrepaymentModal: React.FC<PrepaymentModalProps> = ({
+  investment,
+  isOpen,
+  onClose,
+  onRecorded
+}) => {
+  const [form, setForm] = useState({
+    foreclose: false,
+    amount: '',
+    date: new Date().toISOString().split('T')[0],
+    mode: 'reduce_instalment' as PrepaymentMode,
+    waivePenalty: false,
+    paymentMethod: 'bank_transfer' as Payment['paymentMethod'],
+    referenceNumber: '',
+    notes: ''
+  });
+  const [quote, setQuote] = useState<PrepaymentSettlement | null>(null);
+  const [quoting, setQuoting] = useState(false);
+  const [recording, setRecording] = useState(false);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-IN', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  // Changing the terms invalidates the quote
+  const updateTerms = (changes: Partial<typeof form>) => {
+    setForm(prev => ({ ...prev, ...changes }));
+    setQuote(null);
+  };
+
+  const buildRequest = (): PrepaymentRequest => ({
+    foreclose: form.foreclose,
+    amount: form.foreclose ? undefined : Number(form.amount),
+    date: form.date,
+    mode: form.mode,
+    waivePenalty: form.waivePenalty
+  });
+
+  const handleClose = () => {
+    setQuote(null);
+    onClose();
+  };
+
+  const handleQuote = async () => {
+    try {
+      setQuoting(true);
+      const response = await investmentsService.quotePrepayment(investment._id, buildRequest());
+      setQuote(response.data || null);
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to calculate settlement'));
+    } finally {
+      setQuoting(false);
+    }
+  };
+
+  const handleRecord = async () => {
+    try {
+      setRecording(true);
+      const response = await investmentsService.recordPrepayment(investment._id, {
+        ...buildRequest(),
+        paymentMethod: form.paymentMethod,
+        referenceNumber: form.referenceNumber || undefined,
+        notes: form.notes || undefined
+      });
+      toast.success(response.message || (form.foreclose ? 'Investment closed successfully' : 'Prepayment recorded successfully'));
+      handleClose();
+      if (onRecorded && response.data) {
+        onRecorded(response.data.investment);
+      }
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to record prepayment'));
+    } finally {
+      setRecording(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Prepayment / Premature Closure"
+      size="lg"
+    >
+      <div className="space-y-4">
+        <div className="flex space-x-4">
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="radio"
+              checked={!form.foreclose}
+              onChange={() => updateTerms({ foreclose: false })}
+            />
+            <span>Partial prepayment</span>
+          </label>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="radio"
+              checked={form.foreclose}
+              onChange={() => updateTerms({ foreclose: true })}
+            />
+            <span>Close investment</span>
+          </label>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          {!form.foreclose && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Principal Withdrawn (₹)</label>
+              <input
+                type="number"
+                min={0}
+                value={form.amount}
+                onChange={(e) => updateTerms({ amount: e.target.value })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="0"
+              />
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Settlement Date</label>
+            <input
+              type="date"
+              value={form.date}
+              onChange={(e) => updateTerms({ date: e.target.value })}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          {!form.foreclose && investment.paymentType === 'interestWithPrincipal' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Remaining Schedule</label>
+              <select
+                value={form.mode}
+                onChange={(e) => updateTerms({ mode: e.target.value as PrepaymentMode })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="reduce_instalment">Reduce instalment (keep maturity)</option>
+                <option value="reduce_tenure">Reduce tenure (keep instalment)</option>
+              </select>
+            </div>
+          )}
+        </div>
+
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={form.waivePenalty}
+            onChange={(e) => updateTerms({ waivePenalty: e.target.checked })}
+            className="rounded border-gray-300"
+          />
+          <span>Waive premature withdrawal penalty</span>
+        </label>
+
+        {quote && (
+          <div className="bg-gray-50 rounded-lg p-4 text-sm space-y-2">
+            <div className="flex justify-between">
+              <span className="text-gray-600">Principal</span>
+              <span className="font-medium">{formatCurrency(quote.principal)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Interest accrued to {formatDate(quote.settlementDate)}</span>
+              <span className="font-medium">{formatCurrency(quote.interest)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Penalty ({quote.penaltyPercentage}%)</span>
+              <span className="font-medium text-red-600">-{formatCurrency(quote.penalty)}</span>
+            </div>
+            <div className="flex justify-between border-t pt-2">
+              <span className="font-medium text-gray-900">Net payout</span>
+              <span className="font-bold text-gray-900">{formatCurrency(quote.netPayout)}</span>
+            </div>
+            {!quote.foreclose && (
+              <p className="text-xs text-gray-500">
+                Remaining principal {formatCurrency(quote.remainingPrincipal)}; maturity {formatDate(quote.terms.maturityDate)};
+                {' '}{quote.removedRows} upcoming payouts replaced by {quote.addedRows}
+              </p>
+            )}
+            {quote.deathClaim && (
+              <div className="border-t pt-2">
+                <p className="font-medium text-gray-900">
+                  Closure on the death of {quote.deathClaim.deceased.map(holder => holder.name).join(', ')}: no penalty, paid to
+                </p>
+                {quote.deathClaim.claimants.map(claimant => (
+                  <div key={`${claimant.role}-${claimant.name}`} className="flex justify-between">
+                    <span className="text-gray-600">
+                      {claimant.payTo} ({claimant.role === 'nominee' ? 'nominee' : 'surviving holder'}, {claimant.sharePercent}%)
+                    </span>
+                    <span className="font-medium">{formatCurrency(claimant.amount)}</span>
+                  </div>
+                ))}
+                <p className="text-xs text-gray-500">Shares are of the payout before TDS; the recorded split is after it.</p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {quote && (
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Payment Method</label>
+              <select
+                value={form.paymentMethod}
+                onChange={(e) => setForm(prev => ({ ...prev, paymentMethod: e.target.value as Payment['paymentMethod'] }))}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="bank_transfer">Bank Transfer</option>
+                <option value="cheque">Cheque</option>
+                <option value="upi">UPI</option>
+                <option value="cash">Cash</option>
+                <option value="card">Card</option>
+                <option value="other">Other</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Reference Number</label>
+              <input
+                type="text"
+                value={form.referenceNumber}
+                onChange={(e) => setForm(prev => ({ ...prev, referenceNumber: e.target.value }))}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+              <textarea
+                value={form.notes}
+                onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+                rows={2}
+                maxLength={500}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4 border-t">
+          <Button variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button variant="outline" onClick={handleQuote} loading={quoting}>
+            <Calculator className="h-4 w-4 mr-2" />
+            Calculate
+          </Button>
+          <Button
+            variant={form.foreclose ? 'danger' : 'primary'}
+            onClick={handleRecord}
+            loading={recording}
+            disabled={!quote}
+          >
+            <Send className="h-4 w-4 mr-2" />
+            {form.foreclose ? 'Close Investment' : 'Record Prepayment'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default PrepaymentModal;
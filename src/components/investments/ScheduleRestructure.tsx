@@ -0,0 +1,420 @@
+// src/components/investments/ScheduleRestructure.tsx
+import React, { useCallback, useState, useEffect } from 'react';
+import {
+  RefreshCw,
+  CheckCircle,
+  XCircle,
+  Clock,
+  Eye,
+  Send
+} from 'lucide-react';
+import Button from '../common/Button';
+import Modal from '../common/Modal';
+import { investmentsService } from '../../services/investments';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  Investment,
+  RateBasis,
+  ScheduleRestructureChanges,
+  ScheduleRestructureDiff,
+  ScheduleRestructureRequest
+} from '../../types';
+import { RATE_BASIS_LABELS, formatContractualRate } from '../../utils/rateBasis';
+import { errorMessage } from '../../utils/errors';
+import toast from 'react-hot-toast';
+
+interface ScheduleRestructureProps {
+  investment: Investment;
+  isEditable?: boolean;
+  onRestructured?: (updatedInvestment: Investment) => void;
+}
+
+interface RestructureForm {
+  effectiveFromMonth: number;
+  interestRate: string;
+  rateBasis: RateBasis;
+  convertToReducing: boolean;
+  tenure: string;
+  moratoriumMonths: string;
+  holidayMonths: string;
+  reason: string;
+}
+
+// Rows with a recorded payment stay as they are, so restructuring starts after the last of them
+const getFirstOpenMonth = (investment: Investment): number => {
+  const lastPaidMonth = investment.schedule
+    .filter(row => row.status === 'paid' || row.status === 'partial' || row.paidAmount > 0)
+    .reduce((max, row) => Math.max(max, row.month), 0);
+  return lastPaidMonth + 1;
+};
+
+const ScheduleRestructure: React.FC<ScheduleRestructureProps> = ({
+  investment,
+  isEditable = false,
+  onRestructured
+}) => {
+  const { user } = useAuth();
+  const [requests, setRequests] = useState<ScheduleRestructureRequest[]>([]);
+  const [showModal, setShowModal] = useState(false);
+  const [preview, setPreview] = useState<ScheduleRestructureDiff | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [reviewing, setReviewing] = useState(false);
+
+  const isAdmin = user?.role === 'admin';
+  const pendingRequest = requests.find(request => request.status === 'pending');
+  // The admin who requested a restructure cannot approve it
+  const canApprove = (request: ScheduleRestructureRequest) => {
+    const requesterId = typeof request.requestedBy === 'object' ? request.requestedBy._id : request.requestedBy;
+    return requesterId !== user?._id;
+  };
+
+  const initialForm = (): RestructureForm => ({
+    effectiveFromMonth: getFirstOpenMonth(investment),
+    interestRate: String(investment.interestRate),
+    rateBasis: investment.rateBasis || 'monthly',
+    convertToReducing: false,
+    tenure: String(investment.tenure),
+    moratoriumMonths: '0',
+    holidayMonths: '',
+    reason: ''
+  });
+
+  const [form, setForm] = useState<RestructureForm>(initialForm);
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      const response = await investmentsService.getRestructures(investment._id);
+      setRequests(response.data || []);
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to fetch restructure requests'));
+    }
+  }, [investment._id]);
+
+  useEffect(() => {
+    if (isEditable) {
+      fetchRequests();
+    }
+  }, [fetchRequests, isEditable]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-IN', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  const updateForm = (changes: Partial<RestructureForm>) => {
+    setForm(prev => ({ ...prev, ...changes }));
+    setPreview(null);
+  };
+
+  const buildChanges = (): ScheduleRestructureChanges => {
+    const changes: ScheduleRestructureChanges = {
+      effectiveFromMonth: Number(form.effectiveFromMonth),
+      moratoriumMonths: Number(form.moratoriumMonths) || 0,
+      holidayMonths: form.holidayMonths
+        .split(',')
+        .map(month => parseInt(month.trim()))
+        .filter(month => !isNaN(month))
+    };
+    if (Number(form.interestRate) !== investment.interestRate) changes.interestRate = Number(form.interestRate);
+    if (form.rateBasis !== (investment.rateBasis || 'monthly')) changes.rateBasis = form.rateBasis;
+    if (Number(form.tenure) !== investment.tenure) changes.tenure = Number(form.tenure);
+    if (form.convertToReducing) changes.interestType = 'reducing';
+    return changes;
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setPreview(null);
+    setForm(initialForm());
+  };
+
+  const handlePreview = async () => {
+    try {
+      setPreviewing(true);
+      const response = await investmentsService.previewRestructure(investment._id, buildChanges());
+      setPreview(response.data?.diff || null);
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to preview restructure'));
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!form.reason.trim()) {
+      toast.error('Please enter a reason for the restructure');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      await investmentsService.updateSchedule(investment._id, { ...buildChanges(), reason: form.reason });
+      toast.success('Restructure request submitted for approval');
+      closeModal();
+      fetchRequests();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to submit restructure request'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleApprove = async (request: ScheduleRestructureRequest) => {
+    try {
+      setReviewing(true);
+      const response = await investmentsService.approveRestructure(investment._id, request._id);
+      toast.success('Schedule restructured successfully');
+      fetchRequests();
+      if (onRestructured && response.data) {
+        onRestructured(response.data.investment);
+      }
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to approve restructure'));
+    } finally {
+      setReviewing(false);
+    }
+  };
+
+  const handleReject = async (request: ScheduleRestructureRequest) => {
+    const reviewNotes = prompt('Reason for rejecting this restructure (optional)');
+    if (reviewNotes === null) return;
+
+    try {
+      setReviewing(true);
+      await investmentsService.rejectRestructure(investment._id, request._id, reviewNotes || undefined);
+      toast.success('Restructure request rejected');
+      fetchRequests();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to reject restructure'));
+    } finally {
+      setReviewing(false);
+    }
+  };
+
+  const describeRequest = (request: ScheduleRestructureRequest) => {
+    const parts: string[] = [];
+    if (request.interestRate !== undefined || request.rateBasis) {
+      parts.push(`Rate ${formatContractualRate(request.interestRate ?? investment.interestRate, request.rateBasis || investment.rateBasis)}`);
+    }
+    if (request.tenure) parts.push(`Tenure ${request.tenure} months`);
+    if (request.moratoriumMonths) parts.push(`${request.moratoriumMonths} month moratorium`);
+    if (request.holidayMonths?.length) parts.push(`Holiday months ${request.holidayMonths.join(', ')}`);
+    if (request.interestType === 'reducing') parts.push('Convert to reducing');
+    return `${parts.join(' · ')} from month ${request.effectiveFromMonth}`;
+  };
+
+  if (!isEditable) return null;
+
+  return (
+    <div className="space-y-3">
+      {pendingRequest && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <div className="flex justify-between items-start">
+            <div>
+              <div className="flex items-center space-x-2">
+                <Clock className="h-4 w-4 text-yellow-600" />
+                <span className="text-sm font-medium text-yellow-800">Restructure awaiting approval</span>
+              </div>
+              <p className="text-sm text-yellow-700 mt-1">{describeRequest(pendingRequest)}</p>
+              <p className="text-xs text-yellow-600 mt-1">
+                {pendingRequest.reason} — requested {formatDate(pendingRequest.requestedAt)}
+                {typeof pendingRequest.requestedBy === 'object' && ` by ${pendingRequest.requestedBy.name}`}
+              </p>
+            </div>
+            {isAdmin && (
+              <div className="flex space-x-2">
+                <Button size="sm" variant="outline" onClick={() => handleReject(pendingRequest)} disabled={reviewing}>
+                  <XCircle className="h-4 w-4 mr-1" />
+                  Reject
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => handleApprove(pendingRequest)}
+                  loading={reviewing}
+                  disabled={!canApprove(pendingRequest)}
+                  title={canApprove(pendingRequest) ? undefined : 'You requested this restructure'}
+                >
+                  <CheckCircle className="h-4 w-4 mr-1" />
+                  Approve
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {investment.status === 'active' && !pendingRequest && (
+        <div className="flex justify-end">
+          <Button size="sm" variant="outline" onClick={() => setShowModal(true)}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Restructure Schedule
+          </Button>
+        </div>
+      )}
+
+      <Modal
+        isOpen={showModal}
+        onClose={closeModal}
+        title="Restructure Schedule"
+        size="lg"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Paid rows are kept as they are. Rows from the effective month onwards are recalculated
+            and the change takes effect once an admin approves it.
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Effective From Month</label>
+              <input
+                type="number"
+                min={getFirstOpenMonth(investment)}
+                value={form.effectiveFromMonth}
+                onChange={(e) => updateForm({ effectiveFromMonth: Number(e.target.value) })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Tenure (months)</label>
+              <input
+                type="number"
+                min={1}
+                value={form.tenure}
+                onChange={(e) => updateForm({ tenure: e.target.value })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Interest Rate (%)</label>
+              <input
+                type="number"
+                step="0.01"
+                min={0}
+                value={form.interestRate}
+                onChange={(e) => updateForm({ interestRate: e.target.value })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Rate Basis</label>
+              <select
+                value={form.rateBasis}
+                onChange={(e) => updateForm({ rateBasis: e.target.value as RateBasis })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {(Object.keys(RATE_BASIS_LABELS) as RateBasis[]).map(basis => (
+                  <option key={basis} value={basis}>{RATE_BASIS_LABELS[basis]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Moratorium (months)</label>
+              <input
+                type="number"
+                min={0}
+                value={form.moratoriumMonths}
+                onChange={(e) => updateForm({ moratoriumMonths: e.target.value })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">No payouts from the effective month; maturity moves out</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Holiday Months</label>
+              <input
+                type="text"
+                value={form.holidayMonths}
+                onChange={(e) => updateForm({ holidayMonths: e.target.value })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="e.g. 9, 10"
+              />
+              <p className="text-xs text-gray-500 mt-1">Skipped payouts roll into the next payout</p>
+            </div>
+          </div>
+
+          {investment.interestType === 'flat' && (
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.convertToReducing}
+                onChange={(e) => updateForm({ convertToReducing: e.target.checked })}
+                className="rounded border-gray-300"
+              />
+              <span>Convert flat interest to reducing balance</span>
+            </label>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Reason</label>
+            <textarea
+              value={form.reason}
+              onChange={(e) => setForm(prev => ({ ...prev, reason: e.target.value }))}
+              rows={2}
+              maxLength={500}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Why is this schedule being restructured?"
+            />
+          </div>
+
+          {preview && (
+            <div className="bg-gray-50 rounded-lg p-4 text-sm">
+              <div className="grid grid-cols-3 gap-2">
+                <span className="text-gray-500"></span>
+                <span className="font-medium text-gray-700">Current</span>
+                <span className="font-medium text-gray-700">Restructured</span>
+
+                <span className="text-gray-500">Rate</span>
+                <span>{formatContractualRate(preview.before.interestRate, preview.before.rateBasis)}</span>
+                <span>{formatContractualRate(preview.after.interestRate, preview.after.rateBasis)}</span>
+
+                <span className="text-gray-500">Interest Type</span>
+                <span className="capitalize">{preview.before.interestType}</span>
+                <span className="capitalize">{preview.after.interestType}</span>
+
+                <span className="text-gray-500">Maturity</span>
+                <span>{formatDate(preview.before.maturityDate)}</span>
+                <span>{formatDate(preview.after.maturityDate)}</span>
+
+                <span className="text-gray-500">Total Interest</span>
+                <span>{formatCurrency(preview.before.totalInterestExpected)}</span>
+                <span>{formatCurrency(preview.after.totalInterestExpected)}</span>
+
+                <span className="text-gray-500">Rows Replaced</span>
+                <span>{preview.removedRows.length}</span>
+                <span>{preview.addedRows.length}</span>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-4 border-t">
+            <Button variant="outline" onClick={closeModal}>
+              Cancel
+            </Button>
+            <Button variant="outline" onClick={handlePreview} loading={previewing}>
+              <Eye className="h-4 w-4 mr-2" />
+              Preview
+            </Button>
+            <Button onClick={handleSubmit} loading={submitting} disabled={!preview || !form.reason.trim()}>
+              <Send className="h-4 w-4 mr-2" />
+              Submit for Approval
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
+
+export default ScheduleRestructure;
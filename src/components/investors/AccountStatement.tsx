@@ -0,0 +1,313 @@
+// src/components/investors/AccountStatement.tsx - Account statement for a date range with PDF/CSV export
+import React, { useState } from 'react';
+import { Search, Download, FileText, Mail } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Button from '../common/Button';
+import LoadingSpinner from '../common/LoadingSpinner';
+import { statementsService } from '../../services/statements';
+import { AccountStatement as Statement, StatementEntryType, StatementFrequency, StatementParams } from '../../types';
+import { errorMessage } from '../../utils/errors';
+
+interface AccountStatementProps {
+  // Omitted for the investor's own statement; the server scopes it to their profile
+  investorId?: string;
+  investments: { _id: string; investmentId: string }[];
+  // Admin/finance manager: email the statement and set the scheduled delivery
+  canManage?: boolean;
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 2,
+  }).format(amount);
+};
+
+const formatDate = (date: string) => {
+  return new Date(date).toLocaleDateString('en-IN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+};
+
+const toInputDate = (date: Date) => date.toISOString().split('T')[0];
+
+// Defaults to the current financial year (April to March) up to today
+const financialYearStart = () => {
+  const now = new Date();
+  const year = now.getMonth() >= 3 ? now.getFullYear() : now.getFullYear() - 1;
+  return `${year}-04-01`;
+};
+
+const ENTRY_LABELS: Record<StatementEntryType, string> = {
+  investment: 'Investment',
+  interest_due: 'Interest due',
+  late_fee: 'Late fee',
+  bonus: 'Bonus',
+  payment: 'Payout',
+  prepayment_penalty: 'Prepayment penalty',
+  closure_penalty: 'Closure penalty',
+  reversal: 'Reversal'
+};
+
+const inputClass = 'mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500';
+
+const AccountStatement: React.FC<AccountStatementProps> = ({
+  investorId,
+  investments,
+  canManage = false
+}) => {
+  const [from, setFrom] = useState(financialYearStart());
+  const [to, setTo] = useState(toInputDate(new Date()));
+  const [investment, setInvestment] = useState('');
+  const [statement, setStatement] = useState<Statement | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [downloading, setDownloading] = useState<'pdf' | 'csv' | null>(null);
+  const [emailing, setEmailing] = useState(false);
+  const [frequency, setFrequency] = useState<StatementFrequency>('none');
+  const [savingFrequency, setSavingFrequency] = useState(false);
+
+  const params = (): StatementParams => ({
+    ...(investorId ? { investor: investorId } : {}),
+    ...(investment ? { investment } : {}),
+    from,
+    to
+  });
+
+  const fetchStatement = async () => {
+    if (from > to) {
+      toast.error('Statement period ends before it starts');
+      return;
+    }
+    try {
+      setLoading(true);
+      const response = await statementsService.getStatement(params());
+      setStatement(response.data || null);
+      setFrequency(response.data?.investor.statementDelivery?.frequency || 'none');
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to load statement'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDownload = async (format: 'pdf' | 'csv') => {
+    try {
+      setDownloading(format);
+      await statementsService.downloadStatement(params(), format);
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to download statement'));
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const handleEmail = async () => {
+    if (!investorId) return;
+    try {
+      setEmailing(true);
+      const response = await statementsService.emailStatement({ ...params(), investor: investorId });
+      toast.success(response.message || 'Statement emailed');
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to email statement'));
+    } finally {
+      setEmailing(false);
+    }
+  };
+
+  const handleFrequencyChange = async (value: StatementFrequency) => {
+    if (!investorId) return;
+    const previous = frequency;
+    setFrequency(value);
+    try {
+      setSavingFrequency(true);
+      const response = await statementsService.updateDelivery(investorId, value);
+      toast.success(response.message || 'Statement delivery updated');
+    } catch (error: unknown) {
+      setFrequency(previous);
+      toast.error(errorMessage(error, 'Failed to update statement delivery'));
+    } finally {
+      setSavingFrequency(false);
+    }
+  };
+
+  const summary = statement?.summary;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">From</label>
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">To</label>
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Investment</label>
+          <select value={investment} onChange={(e) => setInvestment(e.target.value)} className={inputClass}>
+            <option value="">All investments</option>
+            {investments.map(item => (
+              <option key={item._id} value={item._id}>{item.investmentId}</option>
+            ))}
+          </select>
+        </div>
+        <Button onClick={fetchStatement} loading={loading}>
+          <Search className="h-4 w-4 mr-2" />
+          View Statement
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => handleDownload('pdf')} loading={downloading === 'pdf'}>
+            <FileText className="h-4 w-4 mr-2" />
+            PDF
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleDownload('csv')} loading={downloading === 'csv'}>
+            <Download className="h-4 w-4 mr-2" />
+            CSV
+          </Button>
+          {canManage && investorId && (
+            <Button variant="outline" size="sm" onClick={handleEmail} loading={emailing}>
+              <Mail className="h-4 w-4 mr-2" />
+              Email to Investor
+            </Button>
+          )}
+        </div>
+        {canManage && investorId && statement && (
+          <div className="flex items-center space-x-2 text-sm">
+            <label className="text-gray-600">Email statements automatically</label>
+            <select
+              value={frequency}
+              onChange={(e) => handleFrequencyChange(e.target.value as StatementFrequency)}
+              disabled={savingFrequency}
+              className="border border-gray-300 rounded-lg px-2 py-1 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="none">Never</option>
+              <option value="monthly">Monthly</option>
+              <option value="quarterly">Quarterly</option>
+            </select>
+          </div>
+        )}
+      </div>
+
+      {loading && !statement ? (
+        <LoadingSpinner size="lg" />
+      ) : statement && summary ? (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: 'Opening principal', value: summary.openingPrincipal },
+              { label: 'Opening balance', value: summary.openingBalance },
+              { label: 'Closing principal', value: summary.closingPrincipal },
+              { label: 'Closing balance', value: summary.closingBalance },
+              { label: 'Interest accrued', value: summary.interestAccrued },
+              {
+                label: 'Interest paid',
+                value: summary.interestPaid,
+                note: summary.tdsWithheld ? `TDS withheld ${formatCurrency(summary.tdsWithheld)}` : undefined
+              },
+              { label: 'Late fees', value: summary.lateFees },
+              { label: 'Interest outstanding', value: summary.interestOutstanding }
+            ].map(item => (
+              <div key={item.label} className="bg-gray-50 rounded-lg p-3">
+                <p className="text-xs text-gray-500">{item.label}</p>
+                <p className="text-lg font-semibold text-gray-900">{formatCurrency(item.value)}</p>
+                {'note' in item && item.note && <p className="text-xs text-gray-500">{item.note}</p>}
+              </div>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto border rounded-lg">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Date</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Investment</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Description</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Credit</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Debit</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Balance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                <tr className="bg-blue-50 font-medium">
+                  <td className="px-4 py-2">{formatDate(statement.period.from)}</td>
+                  <td className="px-4 py-2" />
+                  <td className="px-4 py-2">Opening balance</td>
+                  <td className="px-4 py-2" />
+                  <td className="px-4 py-2" />
+                  <td className="px-4 py-2 text-right">{formatCurrency(summary.openingBalance)}</td>
+                </tr>
+                {statement.entries.map((entry, index) => (
+                  <tr key={`${entry.reference}-${entry.type}-${index}`}>
+                    <td className="px-4 py-2 whitespace-nowrap">{formatDate(entry.date)}</td>
+                    <td className="px-4 py-2 whitespace-nowrap">{entry.investmentId}</td>
+                    <td className="px-4 py-2">
+                      <span className="font-medium text-gray-900">{ENTRY_LABELS[entry.type]}</span>
+                      <span className="text-gray-500"> - {entry.description}</span>
+                    </td>
+                    <td className="px-4 py-2 text-right text-green-700">{entry.credit ? formatCurrency(entry.credit) : ''}</td>
+                    <td className="px-4 py-2 text-right text-red-700">{entry.debit ? formatCurrency(entry.debit) : ''}</td>
+                    <td className="px-4 py-2 text-right">{formatCurrency(entry.balance)}</td>
+                  </tr>
+                ))}
+                <tr className="bg-blue-50 font-medium">
+                  <td className="px-4 py-2">{formatDate(statement.period.to)}</td>
+                  <td className="px-4 py-2" />
+                  <td className="px-4 py-2">Closing balance</td>
+                  <td className="px-4 py-2" />
+                  <td className="px-4 py-2" />
+                  <td className="px-4 py-2 text-right">{formatCurrency(summary.closingBalance)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          {statement.investments.length > 1 && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-900 mb-2">By Investment</h4>
+              <div className="overflow-x-auto border rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Investment</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-500">Opening</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-500">Interest Accrued</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-500">Paid Out</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-500">Closing Principal</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-500">Closing</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {statement.investments.map(item => (
+                      <tr key={item.investment}>
+                        <td className="px-4 py-2">
+                          {item.investmentId}
+                          {item.planName && <span className="text-gray-500"> - {item.planName}</span>}
+                        </td>
+                        <td className="px-4 py-2 text-right">{formatCurrency(item.openingBalance)}</td>
+                        <td className="px-4 py-2 text-right">{formatCurrency(item.interestAccrued)}</td>
+                        <td className="px-4 py-2 text-right">{formatCurrency(item.totalPaid)}</td>
+                        <td className="px-4 py-2 text-right">{formatCurrency(item.closingPrincipal)}</td>
+                        <td className="px-4 py-2 text-right">{formatCurrency(item.closingBalance)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </>
+      ) : (
+        <p className="text-center text-gray-500 py-12">Choose a period to view the statement</p>
+      )}
+    </div>
+  );
+};
+
+export default AccountStatement;
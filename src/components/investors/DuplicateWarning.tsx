@@ -0,0 +1,77 @@
+// src/components/investors/DuplicateWarning.tsx - Existing investors a save would duplicate
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, ExternalLink } from 'lucide-react';
+import Button from '../common/Button';
+import { DuplicateConflict, DuplicateReason } from '../../types';
+
+interface DuplicateWarningProps {
+  conflict: DuplicateConflict;
+  onConfirm: () => void;
+  onCancel: () => void;
+  loading?: boolean;
+}
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  pan: 'Same PAN',
+  aadhaar: 'Same Aadhaar',
+  email: 'Same email',
+  name_phone: 'Similar name, same phone'
+};
+
+const DuplicateWarning: React.FC<DuplicateWarningProps> = ({ conflict, onConfirm, onCancel, loading = false }) => {
+  return (
+    <div className="space-y-4">
+      <div className={`flex items-start p-3 rounded-lg ${conflict.canConfirm ? 'bg-yellow-50 text-yellow-800' : 'bg-red-50 text-red-800'}`}>
+        <AlertTriangle className="h-5 w-5 mr-2 flex-shrink-0" />
+        <div className="text-sm">
+          <p className="font-medium">{conflict.message}</p>
+          <p className="mt-1">
+            {conflict.canConfirm
+              ? 'Check the records below. Save anyway only if this is a different person.'
+              : 'Update the existing record instead, or merge the records from the Possible Duplicates report.'}
+          </p>
+        </div>
+      </div>
+
+      <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+        {conflict.duplicates.map(duplicate => (
+          <li key={duplicate._id} className="p-3 text-sm">
+            <div className="flex items-center justify-between">
+              <Link
+                to={`/investors/${duplicate._id}/comprehensive`}
+                target="_blank"
+                className="inline-flex items-center font-medium text-blue-600 hover:text-blue-800"
+              >
+                {duplicate.name} ({duplicate.investorId})
+                <ExternalLink className="h-3 w-3 ml-1" />
+              </Link>
+              <span className="text-gray-500 capitalize">{duplicate.status}</span>
+            </div>
+            <div className="text-gray-500 mt-1">{duplicate.email} · {duplicate.phone}</div>
+            <div className="flex flex-wrap gap-1 mt-2">
+              {(duplicate.reasons || []).map(reason => (
+                <span key={reason} className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">
+                  {REASON_LABELS[reason]}
+                </span>
+              ))}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex justify-end space-x-3">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Back to Form
+        </Button>
+        {conflict.canConfirm && (
+          <Button type="button" onClick={onConfirm} loading={loading}>
+            Save Anyway
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateWarning;
@@ -0,0 +1,151 @@
+// src/components/investors/InterestCertificate.tsx - Yearly interest certificate for tax filing
+import React, { useEffect, useState } from 'react';
+import { Download, Search } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Button from '../common/Button';
+import LoadingSpinner from '../common/LoadingSpinner';
+import { certificatesService } from '../../services/certificates';
+import { InterestCertificate as InterestCertificateData } from '../../types';
+import { errorMessage } from '../../utils/errors';
+
+interface InterestCertificateProps {
+  // Omitted for the investor's own certificate; the server scopes it to the signed-in investor
+  investorId?: string;
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 0,
+  }).format(amount);
+};
+
+const formatDate = (date: string) => {
+  return new Date(date).toLocaleDateString('en-IN');
+};
+
+const inputClass = 'mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500';
+
+const InterestCertificate: React.FC<InterestCertificateProps> = ({ investorId }) => {
+  const [financialYear, setFinancialYear] = useState('');
+  const [certificate, setCertificate] = useState<InterestCertificateData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  // Year last asked for; undefined lets the server pick the last completed one
+  const [requestedYear, setRequestedYear] = useState<string | undefined>();
+
+  useEffect(() => {
+    const fetchCertificate = async () => {
+      try {
+        setLoading(true);
+        const response = await certificatesService.getInterestCertificate({
+          investor: investorId,
+          financialYear: requestedYear
+        });
+        setCertificate(response.data || null);
+        if (response.data) {
+          setFinancialYear(response.data.financialYear);
+        }
+      } catch (error: unknown) {
+        toast.error(errorMessage(error, 'Failed to load interest certificate'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCertificate();
+  }, [investorId, requestedYear]);
+
+  const handleDownload = async () => {
+    if (!certificate) return;
+    try {
+      setDownloading(true);
+      await certificatesService.downloadInterestCertificate(certificate);
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to download interest certificate'));
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Financial Year</label>
+          <input
+            value={financialYear}
+            onChange={(e) => setFinancialYear(e.target.value)}
+            placeholder="2025-26"
+            className={inputClass}
+          />
+        </div>
+        <Button variant="outline" onClick={() => setRequestedYear(financialYear || undefined)} loading={loading}>
+          <Search className="h-4 w-4 mr-2" />
+          Show
+        </Button>
+        <Button onClick={handleDownload} loading={downloading} disabled={!certificate || certificate.investments.length === 0}>
+          <Download className="h-4 w-4 mr-2" />
+          Download PDF
+        </Button>
+      </div>
+
+      {loading && !certificate ? (
+        <LoadingSpinner size="lg" />
+      ) : certificate && (
+        certificate.investments.length === 0 ? (
+          <p className="text-sm text-gray-500">No interest was paid or credited in {certificate.financialYear}.</p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              {formatDate(certificate.period.from)} to {formatDate(certificate.period.to)} · TDS under section {certificate.tdsSection}
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: 'Interest credited', value: certificate.totals.interestCredited },
+                { label: 'TDS withheld', value: certificate.totals.tdsWithheld },
+                { label: 'Net interest', value: certificate.totals.netInterest },
+                { label: 'Principal outstanding', value: certificate.totals.principalOutstanding }
+              ].map(item => (
+                <div key={item.label} className="bg-gray-50 rounded-lg p-3">
+                  <p className="text-xs text-gray-500">{item.label}</p>
+                  <p className="text-lg font-semibold text-gray-900">{formatCurrency(item.value)}</p>
+                </div>
+              ))}
+            </div>
+            <div className="overflow-x-auto border rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Investment</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Invested On</th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-500">Interest Credited</th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-500">TDS Withheld</th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-500">Principal Outstanding</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {certificate.investments.map(row => (
+                    <tr key={row.investment}>
+                      <td className="px-4 py-2">
+                        <div className="font-medium text-gray-900">{row.investmentId}</div>
+                        {row.planName && <div className="text-xs text-gray-500">{row.planName}</div>}
+                      </td>
+                      <td className="px-4 py-2">{formatDate(row.investmentDate)}</td>
+                      <td className="px-4 py-2 text-right">{formatCurrency(row.interestCredited)}</td>
+                      <td className="px-4 py-2 text-right">{formatCurrency(row.tdsWithheld)}</td>
+                      <td className="px-4 py-2 text-right">{formatCurrency(row.principalOutstanding)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )
+      )}
+    </div>
+  );
+};
+
+export default InterestCertificate;
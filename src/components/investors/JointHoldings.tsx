@@ -0,0 +1,64 @@
+// src/components/investors/JointHoldings.tsx - Investments the investor holds jointly with another investor
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { JointHolding } from '../../types';
+import { MODE_OF_OPERATION_LABELS } from '../../../shared/holdingRules.js';
+
+interface JointHoldingsProps {
+  holdings: JointHolding[];
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 0,
+  }).format(amount);
+};
+
+const formatDate = (date: string) => {
+  return new Date(date).toLocaleDateString('en-IN');
+};
+
+const JointHoldings: React.FC<JointHoldingsProps> = ({ holdings }) => {
+  if (holdings.length === 0) return null;
+
+  return (
+    <div className="mt-8">
+      <h4 className="text-md font-semibold text-gray-900 mb-3">Held Jointly</h4>
+      <div className="border border-gray-200 rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Investment</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Primary Holder</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Mode</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Principal</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Maturity</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {holdings.map(holding => (
+              <tr key={holding._id}>
+                <td className="px-4 py-2 font-medium text-blue-600">{holding.investmentId}</td>
+                <td className="px-4 py-2">
+                  <Link to={`/investors/${holding.investor._id}/comprehensive`} className="text-blue-600 hover:text-blue-800">
+                    {holding.investor.name}
+                  </Link>
+                  <span className="text-gray-500"> ({holding.investor.investorId})</span>
+                </td>
+                <td className="px-4 py-2">{MODE_OF_OPERATION_LABELS[holding.modeOfOperation]}</td>
+                <td className="px-4 py-2 text-right">{formatCurrency(holding.principalAmount)}</td>
+                <td className="px-4 py-2">{formatDate(holding.maturityDate)}</td>
+                <td className="px-4 py-2 capitalize">{holding.status}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default JointHoldings;
@@ -0,0 +1,80 @@
+// src/components/investors/KycDocumentPreview.tsx - Inline preview of an uploaded KYC document
+import React, { useEffect, useState } from 'react';
+import { Download, FileText } from 'lucide-react';
+import LoadingSpinner from '../common/LoadingSpinner';
+import { kycService } from '../../services/kyc';
+import { KycFile } from '../../types';
+
+interface KycDocumentPreviewProps {
+  investorId: string;
+  file: KycFile;
+  className?: string;
+}
+
+const KycDocumentPreview: React.FC<KycDocumentPreviewProps> = ({ investorId, file, className = 'h-96' }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    const fetchDocument = async () => {
+      try {
+        const blob = await kycService.getDocument(investorId, file._id);
+        if (cancelled) return;
+        objectUrl = window.URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      } catch {
+        if (!cancelled) setFailed(true);
+      }
+    };
+
+    fetchDocument();
+    return () => {
+      cancelled = true;
+      if (objectUrl) window.URL.revokeObjectURL(objectUrl);
+    };
+  }, [investorId, file._id]);
+
+  if (failed) {
+    return (
+      <div className={`flex items-center justify-center bg-gray-50 rounded-lg text-sm text-red-600 ${className}`}>
+        Could not load {file.originalName}
+      </div>
+    );
+  }
+
+  if (!url) {
+    return (
+      <div className={`flex items-center justify-center bg-gray-50 rounded-lg ${className}`}>
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (file.mimeType?.startsWith('image/')) {
+    return (
+      <div className={`bg-gray-50 rounded-lg overflow-auto ${className}`}>
+        <img src={url} alt={file.originalName} className="w-full object-contain" />
+      </div>
+    );
+  }
+
+  if (file.mimeType === 'application/pdf') {
+    return <iframe src={url} title={file.originalName} className={`w-full rounded-lg border border-gray-200 ${className}`} />;
+  }
+
+  // Word documents cannot be shown inline
+  return (
+    <div className={`flex flex-col items-center justify-center bg-gray-50 rounded-lg ${className}`}>
+      <FileText className="h-10 w-10 text-gray-400 mb-2" />
+      <a href={url} download={file.originalName} className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800">
+        <Download className="h-4 w-4 mr-1" />
+        {file.originalName}
+      </a>
+    </div>
+  );
+};
+
+export default KycDocumentPreview;
@@ -0,0 +1,203 @@
+// src/components/investors/KycDocuments.tsx - KYC checklist uploads, submission and review history
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle, Eye, Send, Upload } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Button from '../common/Button';
+import LoadingSpinner from '../common/LoadingSpinner';
+import Modal from '../common/Modal';
+import KycDocumentPreview from './KycDocumentPreview';
+import KycStatusBadge from './KycStatusBadge';
+import { kycService } from '../../services/kyc';
+import { KycDetails, KycFile } from '../../types';
+import { errorMessage } from '../../utils/errors';
+
+interface KycDocumentsProps {
+  investorId: string;
+}
+
+const formatDate = (date: string) => {
+  return new Date(date).toLocaleDateString('en-IN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+};
+
+const ACTION_LABELS = {
+  submitted: 'Submitted for review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  expired: 'Expired',
+  reopened: 'Reopened: identity or bank details changed'
+};
+
+const KycDocuments: React.FC<KycDocumentsProps> = ({ investorId }) => {
+  const [kyc, setKyc] = useState<KycDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [uploadingType, setUploadingType] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [previewFile, setPreviewFile] = useState<KycFile | null>(null);
+
+  useEffect(() => {
+    const fetchKyc = async () => {
+      try {
+        setLoading(true);
+        const response = await kycService.getKyc(investorId);
+        setKyc(response.data || null);
+      } catch (error: unknown) {
+        toast.error(errorMessage(error, 'Failed to load KYC'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchKyc();
+  }, [investorId]);
+
+  const handleUpload = async (type: string, file?: File) => {
+    if (!file) return;
+    try {
+      setUploadingType(type);
+      const response = await kycService.uploadDocument(investorId, type, file);
+      setKyc(response.data || null);
+      toast.success(response.message || 'Document uploaded');
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to upload document'));
+    } finally {
+      setUploadingType(null);
+    }
+  };
+
+  const handleSubmit = async () => {
+    try {
+      setSubmitting(true);
+      const response = await kycService.submit(investorId);
+      setKyc(response.data || null);
+      toast.success(response.message || 'KYC submitted for review');
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to submit KYC'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner size="lg" />;
+  }
+
+  if (!kyc) {
+    return <p className="text-sm text-gray-500">KYC details are not available.</p>;
+  }
+
+  const awaitingReview = kyc.verificationStatus === 'pending' && !!kyc.submittedAt;
+  const isValid = kyc.verificationStatus === 'verified' && (!kyc.expiresAt || new Date(kyc.expiresAt) > new Date());
+  const canChange = !awaitingReview && !isValid;
+  const complete = kyc.checklist.every(item => item.file);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+        <KycStatusBadge kyc={kyc} />
+        <span>Cycle {kyc.cycle}</span>
+        {kyc.verifiedAt && kyc.verificationStatus === 'verified' && <span>Verified {formatDate(kyc.verifiedAt)}</span>}
+        {kyc.expiresAt && <span>Re-KYC due {formatDate(kyc.expiresAt)}</span>}
+      </div>
+
+      {kyc.verificationStatus === 'rejected' && kyc.rejectionReason && (
+        <div className="flex items-start p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+          <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          Rejected: {kyc.rejectionReason}. Replace the documents concerned and submit again.
+        </div>
+      )}
+      {kyc.verificationStatus === 'expired' && (
+        <div className="flex items-start p-3 bg-orange-50 border border-orange-200 rounded-lg text-sm text-orange-800">
+          <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          KYC has expired. New investments are blocked until fresh documents are submitted and approved.
+        </div>
+      )}
+
+      <div className="border rounded-lg divide-y divide-gray-100">
+        {kyc.checklist.map(item => (
+          <div key={item.key} className="flex flex-wrap items-center justify-between gap-3 px-4 py-3">
+            <div className="flex items-center">
+              {item.file ? (
+                <CheckCircle className="h-5 w-5 text-green-500 mr-3" />
+              ) : (
+                <AlertTriangle className="h-5 w-5 text-yellow-500 mr-3" />
+              )}
+              <div>
+                <p className="text-sm font-medium text-gray-900">{item.label}</p>
+                <p className="text-xs text-gray-500">
+                  {item.file
+                    ? `${item.file.originalName} · uploaded ${formatDate(item.file.uploadedAt)}${item.file.cycle !== kyc.cycle ? ` (cycle ${item.file.cycle})` : ''}`
+                    : 'Not uploaded'}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              {item.file && (
+                <Button variant="outline" size="sm" onClick={() => setPreviewFile(item.file)}>
+                  <Eye className="h-4 w-4" />
+                </Button>
+              )}
+              {canChange && (
+                <label className={`inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 cursor-pointer ${uploadingType ? 'opacity-50 pointer-events-none' : ''}`}>
+                  {uploadingType === item.key ? <LoadingSpinner size="sm" className="mr-2" /> : <Upload className="h-4 w-4 mr-2" />}
+                  {item.file ? 'Replace' : 'Upload'}
+                  <input
+                    type="file"
+                    accept=".pdf,.jpg,.jpeg,.png,.doc,.docx"
+                    className="hidden"
+                    onChange={(e) => {
+                      handleUpload(item.key, e.target.files?.[0]);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {canChange && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-500">
+            {complete ? 'Every required document is uploaded.' : 'Upload every document on the checklist to submit KYC.'}
+          </p>
+          <Button onClick={handleSubmit} loading={submitting} disabled={!complete}>
+            <Send className="h-4 w-4 mr-2" />
+            Submit for Review
+          </Button>
+        </div>
+      )}
+
+      {kyc.reviewHistory.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-3">Review History</h4>
+          <ul className="space-y-2 text-sm">
+            {kyc.reviewHistory.map(event => (
+              <li key={event._id} className="flex flex-wrap gap-x-2 text-gray-600">
+                <span className="text-gray-900 font-medium">{ACTION_LABELS[event.action]}</span>
+                <span>· cycle {event.cycle} · {formatDate(event.performedAt)}</span>
+                {event.performedBy && <span>by {event.performedBy.name}</span>}
+                {event.reason && <span className="w-full text-gray-500">{event.reason}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <Modal
+        isOpen={!!previewFile}
+        onClose={() => setPreviewFile(null)}
+        title={previewFile?.originalName || 'Document'}
+        size="xl"
+      >
+        {previewFile && <KycDocumentPreview investorId={investorId} file={previewFile} className="h-[70vh]" />}
+      </Modal>
+    </div>
+  );
+};
+
+export default KycDocuments;
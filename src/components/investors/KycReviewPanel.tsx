@@ -0,0 +1,204 @@
+// src/components/investors/KycReviewPanel.tsx - Side-by-side KYC documents with the approve/reject decision
+import React, { useEffect, useState } from 'react';
+import { CheckCircle, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Button from '../common/Button';
+import LoadingSpinner from '../common/LoadingSpinner';
+import KycDocumentPreview from './KycDocumentPreview';
+import KycStatusBadge from './KycStatusBadge';
+import RevealableValue from './RevealableValue';
+import { useAuth } from '../../contexts/AuthContext';
+import { kycService } from '../../services/kyc';
+import { KycDetails } from '../../types';
+import { errorMessage } from '../../utils/errors';
+
+interface KycReviewPanelProps {
+  investorId: string;
+  onDecided: () => void;
+}
+
+const formatDate = (date: string) => {
+  return new Date(date).toLocaleDateString('en-IN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+};
+
+const KycReviewPanel: React.FC<KycReviewPanelProps> = ({ investorId, onDecided }) => {
+  const { user } = useAuth();
+  const [kyc, setKyc] = useState<KycDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [reason, setReason] = useState('');
+  const [deciding, setDeciding] = useState<'verified' | 'rejected' | null>(null);
+
+  useEffect(() => {
+    const fetchKyc = async () => {
+      try {
+        setLoading(true);
+        const response = await kycService.getKyc(investorId);
+        setKyc(response.data || null);
+      } catch (error: unknown) {
+        toast.error(errorMessage(error, 'Failed to load KYC'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchKyc();
+  }, [investorId]);
+
+  const handleDecision = async (status: 'verified' | 'rejected') => {
+    if (!reason.trim()) {
+      toast.error(status === 'verified' ? 'Add a note on what was checked' : 'Give the reason for rejecting');
+      return;
+    }
+    try {
+      setDeciding(status);
+      const response = await kycService.decide(investorId, status, reason.trim());
+      setKyc(response.data || null);
+      setReason('');
+      toast.success(response.message || 'KYC updated');
+      onDecided();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to record decision'));
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!kyc) {
+    return <p className="p-6 text-sm text-gray-500">KYC details are not available.</p>;
+  }
+
+  const { investor } = kyc;
+  const awaitingReview = kyc.verificationStatus === 'pending' && !!kyc.submittedAt;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">{investor.name}</h2>
+          <p className="text-sm text-gray-500">{investor.investorId} · {investor.email} · {investor.phone}</p>
+        </div>
+        <div className="text-right text-sm text-gray-600 space-y-1">
+          <KycStatusBadge kyc={kyc} />
+          <div>Cycle {kyc.cycle}{kyc.submittedAt && ` · submitted ${formatDate(kyc.submittedAt)}`}</div>
+          {kyc.expiresAt && <div>Re-KYC due {formatDate(kyc.expiresAt)}</div>}
+        </div>
+      </div>
+
+      {/* Declared details, to check against the documents */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-4 bg-gray-50 rounded-lg text-sm">
+        <div>
+          <p className="text-gray-500">PAN</p>
+          <RevealableValue
+            investorId={investor._id}
+            field="panNumber"
+            value={investor.panNumber}
+            canReveal={user?.role === 'admin'}
+            className="font-medium text-gray-900"
+          />
+        </div>
+        <div>
+          <p className="text-gray-500">Aadhaar</p>
+          <RevealableValue
+            investorId={investor._id}
+            field="aadharNumber"
+            value={investor.aadharNumber}
+            canReveal={user?.role === 'admin'}
+            className="font-medium text-gray-900"
+          />
+        </div>
+        <div>
+          <p className="text-gray-500">Bank Account</p>
+          <RevealableValue
+            investorId={investor._id}
+            field="accountNumber"
+            value={investor.bankDetails?.accountNumber}
+            canReveal={user?.role === 'admin'}
+            className="font-medium text-gray-900"
+          />
+          <p className="text-xs text-gray-500">{investor.bankDetails?.bankName}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">IFSC</p>
+          <p className="font-medium text-gray-900">{investor.bankDetails?.ifscCode || '-'}</p>
+          <p className="text-xs text-gray-500">{investor.bankDetails?.branchName}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {kyc.checklist.map(item => (
+          <div key={item.key} className="border border-gray-200 rounded-lg p-3">
+            <div className="flex items-center justify-between mb-2 text-sm">
+              <span className="font-medium text-gray-900">{item.label}</span>
+              {item.file && (
+                <span className="text-xs text-gray-500">
+                  {item.file.cycle === kyc.cycle ? 'New this cycle' : `From cycle ${item.file.cycle}`}
+                </span>
+              )}
+            </div>
+            {item.file ? (
+              <KycDocumentPreview investorId={investor._id} file={item.file} className="h-80" />
+            ) : (
+              <div className="flex items-center justify-center h-80 bg-gray-50 rounded-lg text-sm text-gray-500">
+                Not uploaded
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {awaitingReview && (
+        <div className="space-y-3">
+          <label className="block text-sm font-medium text-gray-700">Reason</label>
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={3}
+            maxLength={500}
+            placeholder="What was checked, or what the investor needs to correct"
+            className="block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <div className="flex justify-end space-x-3">
+            <Button variant="danger" onClick={() => handleDecision('rejected')} loading={deciding === 'rejected'} disabled={!!deciding}>
+              <XCircle className="h-4 w-4 mr-2" />
+              Reject
+            </Button>
+            <Button onClick={() => handleDecision('verified')} loading={deciding === 'verified'} disabled={!!deciding}>
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Approve
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {kyc.reviewHistory.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 mb-3">Review History</h3>
+          <ul className="space-y-2 text-sm">
+            {kyc.reviewHistory.map(event => (
+              <li key={event._id} className="text-gray-600">
+                <span className="font-medium text-gray-900 capitalize">{event.action}</span>
+                {' '}· cycle {event.cycle} · {formatDate(event.performedAt)}
+                {event.performedBy && ` by ${event.performedBy.name}`}
+                {event.reason && <div className="text-gray-500">{event.reason}</div>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KycReviewPanel;
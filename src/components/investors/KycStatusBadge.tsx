@@ -0,0 +1,30 @@
+// src/components/investors/KycStatusBadge.tsx - KYC stage as a coloured badge
+import React from 'react';
+import { KycStatus } from '../../types';
+
+interface KycStatusBadgeProps {
+  // Pending KYC with submittedAt set has been sent for review
+  kyc?: { verificationStatus?: KycStatus; submittedAt?: string };
+}
+
+const KycStatusBadge: React.FC<KycStatusBadgeProps> = ({ kyc }) => {
+  const styles: Record<string, { label: string; className: string }> = {
+    documents: { label: 'Awaiting Documents', className: 'bg-gray-100 text-gray-800' },
+    review: { label: 'Awaiting Review', className: 'bg-yellow-100 text-yellow-800' },
+    verified: { label: 'Verified', className: 'bg-green-100 text-green-800' },
+    rejected: { label: 'Rejected', className: 'bg-red-100 text-red-800' },
+    expired: { label: 'Re-KYC Due', className: 'bg-orange-100 text-orange-800' }
+  };
+
+  const status = kyc?.verificationStatus || 'pending';
+  const stage = status === 'pending' ? (kyc?.submittedAt ? 'review' : 'documents') : status;
+  const style = styles[stage] || styles.documents;
+
+  return (
+    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${style.className}`}>
+      {style.label}
+    </span>
+  );
+};
+
+export default KycStatusBadge;
@@ -0,0 +1,145 @@
+// src/components/investors/MergeInvestorsModal.tsx - Admin merge of one duplicate investor into another
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import Button from '../common/Button';
+import Modal from '../common/Modal';
+import { investorsService } from '../../services/investors';
+import { DuplicateCandidate } from '../../types';
+import { errorMessage } from '../../utils/errors';
+
+interface MergeInvestorsModalProps {
+  isOpen: boolean;
+  investors: DuplicateCandidate[];
+  onClose: () => void;
+  onMerged: () => void;
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 0,
+  }).format(amount);
+};
+
+const inputClass = 'block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500';
+
+const MergeInvestorsModal: React.FC<MergeInvestorsModalProps> = ({ isOpen, investors, onClose, onMerged }) => {
+  const [survivorId, setSurvivorId] = useState('');
+  const [sourceId, setSourceId] = useState('');
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  // Default to keeping the oldest record and merging the next one into it
+  useEffect(() => {
+    if (!isOpen) return;
+    setSurvivorId(investors[0]?._id || '');
+    setSourceId(investors[1]?._id || '');
+    setReason('');
+  }, [isOpen, investors]);
+
+  const handleSurvivorChange = (id: string) => {
+    setSurvivorId(id);
+    if (id === sourceId) {
+      setSourceId(investors.find(investor => investor._id !== id)?._id || '');
+    }
+  };
+
+  const survivor = investors.find(investor => investor._id === survivorId);
+  const source = investors.find(investor => investor._id === sourceId);
+
+  const handleMerge = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!survivor || !source) return;
+    if (!reason.trim()) {
+      toast.error('Give the reason for the merge');
+      return;
+    }
+    if (!window.confirm(`Merge ${source.investorId} into ${survivor.investorId}? This cannot be undone.`)) return;
+
+    try {
+      setLoading(true);
+      const response = await investorsService.mergeInvestors(survivor._id, source._id, reason.trim());
+      toast.success(response.message || 'Investors merged');
+      onMerged();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to merge investors'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Merge Investors" size="lg">
+      <form onSubmit={handleMerge} className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Keep this record</label>
+          <div className="space-y-2">
+            {investors.map(investor => (
+              <label key={investor._id} className="flex items-start p-3 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50">
+                <input
+                  type="radio"
+                  name="survivor"
+                  checked={survivorId === investor._id}
+                  onChange={() => handleSurvivorChange(investor._id)}
+                  className="mt-1 mr-3"
+                />
+                <div className="text-sm">
+                  <div className="font-medium text-gray-900">{investor.name} ({investor.investorId})</div>
+                  <div className="text-gray-500">
+                    {investor.email} · {investor.phone} · {formatCurrency(investor.totalInvestment)} invested
+                    {investor.hasUserAccount && ' · has login'}
+                  </div>
+                </div>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Merge into it</label>
+          <select value={sourceId} onChange={(e) => setSourceId(e.target.value)} className={inputClass}>
+            {investors.filter(investor => investor._id !== survivorId).map(investor => (
+              <option key={investor._id} value={investor._id}>
+                {investor.name} ({investor.investorId})
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {survivor && source && (
+          <p className="text-sm text-gray-600 bg-gray-50 p-3 rounded-lg">
+            Investments, payments and documents of {source.investorId} move to {survivor.investorId} and its totals
+            are recomputed. {source.hasUserAccount && (survivor.hasUserAccount
+              ? `${source.investorId}'s login is deactivated, as ${survivor.investorId} already has one. `
+              : `${source.investorId}'s login moves across. `)}
+            {source.investorId} is kept, marked merged.
+          </p>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Reason</label>
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={3}
+            maxLength={500}
+            placeholder="Why these records are the same investor"
+            className={inputClass}
+          />
+        </div>
+
+        <div className="flex justify-end space-x-3">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="danger" loading={loading} disabled={!survivor || !source}>
+            Merge
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default MergeInvestorsModal;
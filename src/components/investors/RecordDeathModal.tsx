@@ -0,0 +1,93 @@
+// src/components/investors/RecordDeathModal.tsx - Admin record of an investor's death
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import Button from '../common/Button';
+import Modal from '../common/Modal';
+import { investorsService } from '../../services/investors';
+import { errorMessage } from '../../utils/errors';
+
+interface RecordDeathModalProps {
+  isOpen: boolean;
+  investorId: string;
+  investorName: string;
+  onClose: () => void;
+  onRecorded: () => void;
+}
+
+const inputClass = 'mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500';
+
+const RecordDeathModal: React.FC<RecordDeathModalProps> = ({ isOpen, investorId, investorName, onClose, onRecorded }) => {
+  const [dateOfDeath, setDateOfDeath] = useState('');
+  const [reference, setReference] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setDateOfDeath('');
+    setReference('');
+  }, [isOpen]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!dateOfDeath || !reference.trim()) {
+      toast.error('Give the date of death and the death certificate reference');
+      return;
+    }
+    if (!window.confirm(`Record the death of ${investorName}? Their record and login will be deactivated.`)) return;
+
+    try {
+      setLoading(true);
+      const response = await investorsService.recordDeath(investorId, { dateOfDeath, reference: reference.trim() });
+      const flagged = response.data?.investmentsFlagged || 0;
+      toast.success(flagged > 0
+        ? `Death recorded; ${flagged} active investment(s) to be closed to survivors or nominees`
+        : 'Death recorded');
+      onRecorded();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to record death'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Record Death of Investor" size="md">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <p className="text-sm text-gray-600 bg-gray-50 p-3 rounded-lg">
+          {investorName} is marked deceased and deactivated, and their login is disabled. Investments they hold stay
+          active until closed: jointly held ones go to the surviving holders, the rest to the registered nominees.
+        </p>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Date of Death</label>
+          <input
+            type="date"
+            value={dateOfDeath}
+            max={new Date().toISOString().split('T')[0]}
+            onChange={(e) => setDateOfDeath(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Death Certificate Reference</label>
+          <input
+            value={reference}
+            onChange={(e) => setReference(e.target.value)}
+            maxLength={200}
+            placeholder="Certificate or registration number"
+            className={inputClass}
+          />
+        </div>
+        <div className="flex justify-end space-x-3">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="danger" loading={loading}>
+            Record Death
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default RecordDeathModal;
@@ -0,0 +1,96 @@
+// src/components/investors/RevealableValue.tsx - Masked identifier with an audited reveal for admins
+import React, { useState } from 'react';
+import { Eye, EyeOff } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Button from '../common/Button';
+import Modal from '../common/Modal';
+import { investorsService } from '../../services/investors';
+import { SensitiveField } from '../../types';
+import { errorMessage } from '../../utils/errors';
+
+interface RevealableValueProps {
+  investorId: string;
+  field: SensitiveField;
+  value?: string;
+  canReveal: boolean;
+  className?: string;
+  onRevealed?: () => void;
+}
+
+const FIELD_LABELS: Record<SensitiveField, string> = {
+  panNumber: 'PAN',
+  aadharNumber: 'Aadhaar number',
+  accountNumber: 'account number'
+};
+
+const RevealableValue: React.FC<RevealableValueProps> = ({ investorId, field, value, canReveal, className = '', onRevealed }) => {
+  const [revealed, setRevealed] = useState<string | null>(null);
+  const [showPrompt, setShowPrompt] = useState(false);
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleReveal = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) {
+      toast.error('Give the reason for revealing');
+      return;
+    }
+    try {
+      setLoading(true);
+      const response = await investorsService.revealIdentifier(investorId, field, reason.trim());
+      setRevealed(response.data?.value || null);
+      setShowPrompt(false);
+      setReason('');
+      onRevealed?.();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to reveal'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!value) {
+    return <span className={className}>Not provided</span>;
+  }
+
+  return (
+    <span className={`inline-flex items-center gap-2 ${className}`}>
+      <span className="font-mono">{revealed || value}</span>
+      {canReveal && (
+        revealed ? (
+          <button type="button" onClick={() => setRevealed(null)} title="Hide" className="text-gray-400 hover:text-gray-600">
+            <EyeOff className="h-4 w-4" />
+          </button>
+        ) : (
+          <button type="button" onClick={() => setShowPrompt(true)} title="Reveal" className="text-gray-400 hover:text-gray-600">
+            <Eye className="h-4 w-4" />
+          </button>
+        )
+      )}
+
+      <Modal isOpen={showPrompt} onClose={() => setShowPrompt(false)} title={`Reveal ${FIELD_LABELS[field]}`} size="sm">
+        <form onSubmit={handleReveal} className="space-y-4">
+          <p className="text-sm text-gray-600">Reveals are recorded in the investor's access log with your name and reason.</p>
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={3}
+            maxLength={200}
+            placeholder="Why the full value is needed"
+            className="block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <div className="flex justify-end space-x-3">
+            <Button type="button" variant="outline" onClick={() => setShowPrompt(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" loading={loading}>
+              Reveal
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </span>
+  );
+};
+
+export default RevealableValue;
@@ -0,0 +1,61 @@
+// src/components/investors/SensitiveAccessLog.tsx - Who revealed an investor's masked identifiers, and why
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import LoadingSpinner from '../common/LoadingSpinner';
+import { investorsService } from '../../services/investors';
+import { SensitiveAccessEntry, SensitiveField } from '../../types';
+import { errorMessage } from '../../utils/errors';
+
+interface SensitiveAccessLogProps {
+  investorId: string;
+}
+
+const FIELD_LABELS: Record<SensitiveField, string> = {
+  panNumber: 'PAN',
+  aadharNumber: 'Aadhaar',
+  accountNumber: 'Account number'
+};
+
+const SensitiveAccessLog: React.FC<SensitiveAccessLogProps> = ({ investorId }) => {
+  const [entries, setEntries] = useState<SensitiveAccessEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchLog = async () => {
+      try {
+        setLoading(true);
+        const response = await investorsService.getSensitiveAccessLog(investorId);
+        setEntries(response.data || []);
+      } catch (error: unknown) {
+        toast.error(errorMessage(error, 'Failed to load access log'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchLog();
+  }, [investorId]);
+
+  if (loading) {
+    return <LoadingSpinner size="sm" />;
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500">No identifiers have been revealed.</p>;
+  }
+
+  return (
+    <ul className="space-y-2 text-sm">
+      {entries.map(entry => (
+        <li key={entry._id} className="text-gray-600">
+          <span className="font-medium text-gray-900">{FIELD_LABELS[entry.field]}</span>
+          {' '}· {new Date(entry.performedAt).toLocaleString('en-IN')}
+          {entry.performedBy && ` by ${entry.performedBy.name}`}
+          <div className="text-gray-500">{entry.reason}</div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default SensitiveAccessLog;
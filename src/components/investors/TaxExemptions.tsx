@@ -0,0 +1,193 @@
+// src/components/investors/TaxExemptions.tsx - Form 15G/15H declarations that waive TDS for a year
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2, AlertTriangle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Button from '../common/Button';
+import LoadingSpinner from '../common/LoadingSpinner';
+import { taxService } from '../../services/tax';
+import { TaxExemption } from '../../types';
+import { errorMessage } from '../../utils/errors';
+
+interface TaxExemptionsProps {
+  investorId: string;
+}
+
+const formatDate = (date: string) => {
+  return new Date(date).toLocaleDateString('en-IN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+};
+
+const inputClass = 'mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500';
+
+const TaxExemptions: React.FC<TaxExemptionsProps> = ({ investorId }) => {
+  const [exemptions, setExemptions] = useState<TaxExemption[]>([]);
+  const [panVerified, setPanVerified] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    form: '15G' as TaxExemption['form'],
+    financialYear: '',
+    submittedAt: new Date().toISOString().split('T')[0],
+    notes: ''
+  });
+
+  useEffect(() => {
+    const fetchExemptions = async () => {
+      try {
+        setLoading(true);
+        const response = await taxService.getExemptions(investorId);
+        setExemptions(response.data?.exemptions || []);
+        setPanVerified(response.data?.panVerified ?? true);
+        setForm(current => ({ ...current, financialYear: response.data?.currentFinancialYear || '' }));
+      } catch (error: unknown) {
+        toast.error(errorMessage(error, 'Failed to load tax exemptions'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchExemptions();
+  }, [investorId]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      const response = await taxService.addExemption(investorId, {
+        ...form,
+        notes: form.notes || undefined
+      });
+      setExemptions(response.data || []);
+      setForm(current => ({ ...current, notes: '' }));
+      toast.success(response.message || 'Exemption recorded');
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to record exemption'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (exemption: TaxExemption) => {
+    if (!window.confirm(`Withdraw Form ${exemption.form} for ${exemption.financialYear}? Later interest payouts will have TDS withheld.`)) {
+      return;
+    }
+    try {
+      setRemovingId(exemption._id);
+      const response = await taxService.removeExemption(investorId, exemption._id);
+      setExemptions(response.data || []);
+      toast.success(response.message || 'Exemption withdrawn');
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to withdraw exemption'));
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner size="lg" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {!panVerified && (
+        <div className="flex items-start p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          PAN is missing or not verified: interest payouts have TDS withheld at the higher no-PAN rate and Form 15G/15H cannot be accepted.
+        </div>
+      )}
+
+      {exemptions.length === 0 ? (
+        <p className="text-sm text-gray-500">No Form 15G/15H on file.</p>
+      ) : (
+        <div className="overflow-x-auto border rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Financial Year</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Form</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Submitted</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Notes</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {exemptions.map(exemption => (
+                <tr key={exemption._id}>
+                  <td className="px-4 py-2 font-medium text-gray-900">{exemption.financialYear}</td>
+                  <td className="px-4 py-2">Form {exemption.form}</td>
+                  <td className="px-4 py-2">{formatDate(exemption.submittedAt)}</td>
+                  <td className="px-4 py-2 text-gray-500">{exemption.notes || '-'}</td>
+                  <td className="px-4 py-2 text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRemove(exemption)}
+                      loading={removingId === exemption._id}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {panVerified && (
+        <form onSubmit={handleAdd} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Form</label>
+            <select
+              value={form.form}
+              onChange={(e) => setForm({ ...form, form: e.target.value as TaxExemption['form'] })}
+              className={inputClass}
+            >
+              <option value="15G">15G (below 60)</option>
+              <option value="15H">15H (60 and above)</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Financial Year</label>
+            <input
+              value={form.financialYear}
+              onChange={(e) => setForm({ ...form, financialYear: e.target.value })}
+              className={inputClass}
+              placeholder="2026-27"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Submitted On</label>
+            <input
+              type="date"
+              value={form.submittedAt}
+              onChange={(e) => setForm({ ...form, submittedAt: e.target.value })}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Notes</label>
+            <input
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              className={inputClass}
+              maxLength={500}
+            />
+          </div>
+          <Button type="submit" loading={saving}>
+            <Plus className="h-4 w-4 mr-2" />
+            Record Form
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default TaxExemptions;
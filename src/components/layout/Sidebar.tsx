@@ -10,6 +10,8 @@ import {
   Settings, 
   LogOut,
   Building,
+  ScrollText,
+  ShieldCheck,
   X
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
@@ -32,9 +34,11 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, setIsOpen }) => {
   const menuItems = [
     { icon: Home, label: 'Dashboard', path: '/dashboard', roles: ['admin', 'finance_manager', 'investor'] },
     { icon: Users, label: 'Investors', path: '/investors', roles: ['admin', 'finance_manager'] },
+    { icon: ShieldCheck, label: 'KYC Review', path: '/kyc', roles: ['admin', 'finance_manager'] },
     { icon: FileText, label: 'Plans', path: '/plans', roles: ['admin', 'finance_manager'] },
     { icon: TrendingUp, label: 'Investments', path: '/investments', roles: ['admin', 'finance_manager', 'investor'] },
     { icon: CreditCard, label: 'Payments', path: '/payments', roles: ['admin', 'finance_manager', 'investor'] },
+    { icon: ScrollText, label: 'Statement', path: '/statements', roles: ['investor'] },
     { icon: BarChart3, label: 'Reports', path: '/reports', roles: ['admin', 'finance_manager'] },
     { icon: Settings, label: 'Settings', path: '/settings', roles: ['admin'] },
   ];
@@ -0,0 +1,82 @@
+// src/components/plans/SchedulePreview.tsx - Read-only amortization table for schedule previews
+import React from 'react';
+import { PaymentSchedule } from '../../types';
+import { summarizeSchedule } from '../../utils/scheduleEngine';
+
+interface SchedulePreviewProps {
+  schedule: PaymentSchedule[];
+  maxHeightClass?: string;
+}
+
+const SchedulePreview: React.FC<SchedulePreviewProps> = ({ schedule, maxHeightClass = 'max-h-80' }) => {
+  const totals = summarizeSchedule(schedule);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-IN', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  const formatCoverage = (row: PaymentSchedule) => {
+    const start = row.periodStartMonth ?? row.month;
+    return start === row.month ? `Month ${row.month}` : `Months ${start}-${row.month}`;
+  };
+
+  if (schedule.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`overflow-auto bg-white rounded-lg border border-gray-200 ${maxHeightClass}`}>
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50 sticky top-0">
+          <tr>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payout</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Due Date</th>
+            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Interest</th>
+            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Principal</th>
+            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Outstanding</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {schedule.map((row) => (
+            <tr key={row.month} className="hover:bg-gray-50">
+              <td className="px-4 py-2">
+                <div className="font-medium text-gray-900">#{row.period ?? row.month}</div>
+                <div className="text-xs text-gray-500">{formatCoverage(row)}</div>
+              </td>
+              <td className="px-4 py-2 text-gray-700">{formatDate(row.dueDate)}</td>
+              <td className="px-4 py-2 text-right text-gray-900">{formatCurrency(row.interestAmount)}</td>
+              <td className="px-4 py-2 text-right text-gray-900">{formatCurrency(row.principalAmount)}</td>
+              <td className="px-4 py-2 text-right font-medium text-gray-900">{formatCurrency(row.totalAmount)}</td>
+              <td className="px-4 py-2 text-right text-gray-600">{formatCurrency(row.remainingPrincipal)}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot className="bg-gray-50 font-semibold">
+          <tr>
+            <td className="px-4 py-2 text-gray-900" colSpan={2}>Total</td>
+            <td className="px-4 py-2 text-right text-blue-600">{formatCurrency(totals.interest)}</td>
+            <td className="px-4 py-2 text-right text-gray-900">{formatCurrency(totals.principal)}</td>
+            <td className="px-4 py-2 text-right text-green-600">{formatCurrency(totals.total)}</td>
+            <td className="px-4 py-2" />
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+};
+
+export default SchedulePreview;
@@ -0,0 +1,153 @@
+// src/components/reports/AccountLedger.tsx - Entries posted to one ledger account with a running balance
+import React, { useEffect, useState } from 'react';
+import { Search } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Button from '../common/Button';
+import LoadingSpinner from '../common/LoadingSpinner';
+import { ledgerService } from '../../services/ledger';
+import { AccountLedger as AccountLedgerData, JournalEntryType } from '../../types';
+import { errorMessage } from '../../utils/errors';
+
+interface AccountLedgerProps {
+  // Remount (key on the code) to start a new account from page 1
+  accountCode: string;
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 0,
+  }).format(amount);
+};
+
+const formatDate = (date: string) => {
+  return new Date(date).toLocaleDateString('en-IN');
+};
+
+const ENTRY_TYPE_LABELS: Record<JournalEntryType, string> = {
+  investment: 'Investment',
+  interest_accrual: 'Accrual',
+  payment: 'Payment',
+  reversal: 'Reversal',
+  prepayment_penalty: 'Penalty'
+};
+
+const inputClass = 'mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500';
+
+const AccountLedger: React.FC<AccountLedgerProps> = ({ accountCode }) => {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  // Period last asked for; applied together so typing a date does not refetch
+  const [period, setPeriod] = useState<{ from?: string; to?: string }>({});
+  const [page, setPage] = useState(1);
+  const [ledger, setLedger] = useState<AccountLedgerData | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const fetchLedger = async () => {
+      try {
+        setLoading(true);
+        const response = await ledgerService.getAccountLedger(accountCode, { ...period, page, limit: 25 });
+        setLedger(response.data || null);
+      } catch (error: unknown) {
+        toast.error(errorMessage(error, 'Failed to load account ledger'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchLedger();
+  }, [accountCode, period, page]);
+
+  const handleShow = () => {
+    setPage(1);
+    setPeriod({ from: from || undefined, to: to || undefined });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">From</label>
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">To</label>
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+        </div>
+        <Button variant="outline" onClick={handleShow} loading={loading}>
+          <Search className="h-4 w-4 mr-2" />
+          Show
+        </Button>
+      </div>
+
+      {loading && !ledger ? (
+        <LoadingSpinner size="lg" />
+      ) : ledger && (
+        <>
+          <p className="text-sm text-gray-600">
+            {ledger.account.code} {ledger.account.name} · Opening {formatCurrency(ledger.openingBalance)} · Closing {formatCurrency(ledger.closingBalance)}
+          </p>
+          {ledger.entries.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing was posted to this account in the period.</p>
+          ) : (
+            <div className="overflow-x-auto border rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Date</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Entry</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Description</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Investor</th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-500">Debit</th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-500">Credit</th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-500">Balance</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {ledger.entries.map(entry => (
+                    <tr key={entry._id}>
+                      <td className="px-4 py-2 whitespace-nowrap">{formatDate(entry.date)}</td>
+                      <td className="px-4 py-2 whitespace-nowrap">
+                        <div className="font-mono text-gray-900">{entry.entryNumber}</div>
+                        <div className="text-xs text-gray-500">{ENTRY_TYPE_LABELS[entry.type]}</div>
+                      </td>
+                      <td className="px-4 py-2 text-gray-700">{entry.description}</td>
+                      <td className="px-4 py-2 whitespace-nowrap">
+                        {entry.investor ? (
+                          <>
+                            <div className="text-gray-900">{entry.investor.name}</div>
+                            <div className="text-xs text-gray-500">{entry.investor.investorId}</div>
+                          </>
+                        ) : '-'}
+                      </td>
+                      <td className="px-4 py-2 text-right">{entry.debit ? formatCurrency(entry.debit) : '-'}</td>
+                      <td className="px-4 py-2 text-right">{entry.credit ? formatCurrency(entry.credit) : '-'}</td>
+                      <td className="px-4 py-2 text-right font-medium">{formatCurrency(entry.balance)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {ledger.pagination.pages > 1 && (
+            <div className="flex items-center justify-between text-sm text-gray-600">
+              <span>Page {ledger.pagination.current} of {ledger.pagination.pages} · {ledger.pagination.total} entries</span>
+              <div className="flex space-x-2">
+                <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1 || loading}>
+                  Previous
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= ledger.pagination.pages || loading}>
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AccountLedger;
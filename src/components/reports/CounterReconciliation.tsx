@@ -0,0 +1,105 @@
+// src/components/reports/CounterReconciliation.tsx - Stored totals that disagree with the ledger
+import React, { useState } from 'react';
+import { RefreshCw, Scale } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Button from '../common/Button';
+import { useAuth } from '../../contexts/AuthContext';
+import { ledgerService } from '../../services/ledger';
+import { CounterReconciliation as CounterReconciliationData } from '../../types';
+import { errorMessage } from '../../utils/errors';
+
+const formatNumber = (value: number) => {
+  return new Intl.NumberFormat('en-IN', { maximumFractionDigits: 2 }).format(value);
+};
+
+const CounterReconciliation: React.FC = () => {
+  const { user } = useAuth();
+  const [result, setResult] = useState<CounterReconciliationData | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  const handleCheck = async () => {
+    try {
+      setChecking(true);
+      const response = await ledgerService.getReconciliation();
+      setResult(response.data || null);
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to check totals against the ledger'));
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleApply = async () => {
+    try {
+      setApplying(true);
+      const response = await ledgerService.applyReconciliation();
+      toast.success(response.message || 'Totals corrected from the ledger');
+      // Re-check so only drift that cannot be corrected (investment totals) remains listed
+      const refreshed = await ledgerService.getReconciliation();
+      setResult(refreshed.data || null);
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to correct totals'));
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const correctable = result?.drifts.some(drift => drift.kind !== 'investment');
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <Button variant="outline" onClick={handleCheck} loading={checking}>
+          <Scale className="h-4 w-4 mr-2" />
+          Check Totals
+        </Button>
+        {user?.role === 'admin' && correctable && (
+          <Button onClick={handleApply} loading={applying}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Correct From Ledger
+          </Button>
+        )}
+        {result && (
+          <span className="text-sm text-gray-600">
+            Checked {result.checked.investors} investors, {result.checked.plans} plans and {result.checked.investments} investments
+          </span>
+        )}
+      </div>
+
+      {result && (
+        result.drifts.length === 0 ? (
+          <p className="text-sm text-green-700">Every stored total matches the ledger.</p>
+        ) : (
+          <div className="overflow-x-auto border rounded-lg">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Record</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Field</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Stored</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Ledger</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {result.drifts.map(drift => (
+                  <tr key={`${drift.id}-${drift.field}`}>
+                    <td className="px-4 py-2">
+                      <div className="text-gray-900">{drift.reference}{drift.name ? ` · ${drift.name}` : ''}</div>
+                      <div className="text-xs text-gray-500 capitalize">{drift.kind}</div>
+                    </td>
+                    <td className="px-4 py-2 font-mono text-gray-700">{drift.field}</td>
+                    <td className="px-4 py-2 text-right">{formatNumber(drift.stored)}</td>
+                    <td className="px-4 py-2 text-right">{formatNumber(drift.ledger)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default CounterReconciliation;
@@ -0,0 +1,81 @@
+// src/components/reports/LedgerExport.tsx - Journal entries for a period as Tally XML or journal CSV
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Button from '../common/Button';
+import { ledgerService } from '../../services/ledger';
+import { AccountingExportFormat, JournalEntryType } from '../../types';
+import { errorMessage } from '../../utils/errors';
+
+const toInputDate = (date: Date) => date.toISOString().split('T')[0];
+
+// Cash movements only; accruals are left out for books kept on a cash basis
+const CASH_ENTRY_TYPES: JournalEntryType[] = ['investment', 'payment', 'reversal', 'prepayment_penalty'];
+
+const inputClass = 'mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500';
+
+const LedgerExport: React.FC = () => {
+  const today = new Date();
+  const [from, setFrom] = useState(toInputDate(new Date(today.getFullYear(), today.getMonth(), 1)));
+  const [to, setTo] = useState(toInputDate(today));
+  const [includeAccruals, setIncludeAccruals] = useState(true);
+  const [downloading, setDownloading] = useState<AccountingExportFormat | null>(null);
+
+  const handleDownload = async (format: AccountingExportFormat) => {
+    if (!from || !to) {
+      toast.error('Choose the period to export');
+      return;
+    }
+    try {
+      setDownloading(format);
+      await ledgerService.downloadExport({
+        from,
+        to,
+        format,
+        types: includeAccruals ? undefined : CASH_ENTRY_TYPES
+      });
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to export journal entries'));
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">From</label>
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">To</label>
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+        </div>
+        <label className="flex items-center text-sm text-gray-700 pb-2">
+          <input
+            type="checkbox"
+            checked={includeAccruals}
+            onChange={(e) => setIncludeAccruals(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 mr-2"
+          />
+          Include interest accruals
+        </label>
+        <Button variant="outline" onClick={() => handleDownload('tally')} loading={downloading === 'tally'}>
+          <Download className="h-4 w-4 mr-2" />
+          Tally XML
+        </Button>
+        <Button variant="outline" onClick={() => handleDownload('csv')} loading={downloading === 'csv'}>
+          <Download className="h-4 w-4 mr-2" />
+          Journal CSV
+        </Button>
+      </div>
+      <p className="text-xs text-gray-500">
+        Ledger names come from Settings &gt; Accounting. Import the XML in Tally under Import &gt; Transactions;
+        vouchers are numbered by journal entry, so export each period once.
+      </p>
+    </div>
+  );
+};
+
+export default LedgerExport;
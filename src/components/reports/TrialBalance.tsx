@@ -0,0 +1,118 @@
+// src/components/reports/TrialBalance.tsx - Debit and credit balances per ledger account
+import React, { useEffect, useState } from 'react';
+import { CheckCircle, AlertTriangle, Search } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Button from '../common/Button';
+import LoadingSpinner from '../common/LoadingSpinner';
+import { ledgerService } from '../../services/ledger';
+import { TrialBalance as TrialBalanceData } from '../../types';
+import { errorMessage } from '../../utils/errors';
+
+interface TrialBalanceProps {
+  selectedAccount?: string;
+  onSelectAccount: (code: string) => void;
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 0,
+  }).format(amount);
+};
+
+const inputClass = 'mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500';
+
+const TrialBalance: React.FC<TrialBalanceProps> = ({ selectedAccount, onSelectAccount }) => {
+  const [asOf, setAsOf] = useState('');
+  // Date last asked for; undefined means everything posted so far
+  const [requestedAsOf, setRequestedAsOf] = useState<string | undefined>();
+  const [trialBalance, setTrialBalance] = useState<TrialBalanceData | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const fetchTrialBalance = async () => {
+      try {
+        setLoading(true);
+        const response = await ledgerService.getTrialBalance(requestedAsOf);
+        setTrialBalance(response.data || null);
+      } catch (error: unknown) {
+        toast.error(errorMessage(error, 'Failed to load trial balance'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTrialBalance();
+  }, [requestedAsOf]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">As of</label>
+          <input type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} className={inputClass} />
+        </div>
+        <Button variant="outline" onClick={() => setRequestedAsOf(asOf || undefined)} loading={loading}>
+          <Search className="h-4 w-4 mr-2" />
+          Show
+        </Button>
+        {trialBalance && (
+          trialBalance.balanced ? (
+            <span className="inline-flex items-center text-sm text-green-700">
+              <CheckCircle className="h-4 w-4 mr-1" />
+              Debits equal credits
+            </span>
+          ) : (
+            <span className="inline-flex items-center text-sm text-red-700">
+              <AlertTriangle className="h-4 w-4 mr-1" />
+              Out of balance by {formatCurrency(Math.abs(trialBalance.totals.debit - trialBalance.totals.credit))}
+            </span>
+          )
+        )}
+      </div>
+
+      {loading && !trialBalance ? (
+        <LoadingSpinner size="lg" />
+      ) : trialBalance && (
+        <div className="overflow-x-auto border rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Code</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Account</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Type</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">Debit</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">Credit</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {trialBalance.accounts.map(account => (
+                <tr
+                  key={account.code}
+                  onClick={() => onSelectAccount(account.code)}
+                  className={`cursor-pointer hover:bg-gray-50 ${selectedAccount === account.code ? 'bg-blue-50' : ''}`}
+                >
+                  <td className="px-4 py-2 font-mono text-gray-700">{account.code}</td>
+                  <td className="px-4 py-2 text-gray-900">{account.name}</td>
+                  <td className="px-4 py-2 capitalize text-gray-500">{account.type}</td>
+                  <td className="px-4 py-2 text-right">{account.debitBalance ? formatCurrency(account.debitBalance) : '-'}</td>
+                  <td className="px-4 py-2 text-right">{account.creditBalance ? formatCurrency(account.creditBalance) : '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="bg-gray-50">
+              <tr className="font-medium text-gray-900">
+                <td className="px-4 py-2" colSpan={3}>Total</td>
+                <td className="px-4 py-2 text-right">{formatCurrency(trialBalance.totals.debit)}</td>
+                <td className="px-4 py-2 text-right">{formatCurrency(trialBalance.totals.credit)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrialBalance;
@@ -0,0 +1,193 @@
+// src/components/settings/BackgroundJobs.tsx - Background job status, history and manual runs
+import React, { useState, useEffect } from 'react';
+import { Play, RefreshCw, CheckCircle, XCircle, Clock } from 'lucide-react';
+import Button from '../common/Button';
+import LoadingSpinner from '../common/LoadingSpinner';
+import { jobsService } from '../../services/jobs';
+import { JobInfo, JobRun } from '../../types';
+import { errorMessage } from '../../utils/errors';
+import toast from 'react-hot-toast';
+
+const formatDateTime = (date?: string | null) => {
+  if (!date) return '-';
+  return new Date(date).toLocaleString('en-IN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+// "rowsMarkedOverdue" -> "Rows marked overdue"
+const formatSummaryKey = (key: string) => {
+  const words = key.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const RunStatus: React.FC<{ status: JobRun['status'] }> = ({ status }) => {
+  if (status === 'succeeded') {
+    return <span className="inline-flex items-center text-green-700"><CheckCircle className="h-4 w-4 mr-1" />Succeeded</span>;
+  }
+  if (status === 'failed') {
+    return <span className="inline-flex items-center text-red-700"><XCircle className="h-4 w-4 mr-1" />Failed</span>;
+  }
+  return <span className="inline-flex items-center text-blue-700"><Clock className="h-4 w-4 mr-1" />Running</span>;
+};
+
+const BackgroundJobs: React.FC = () => {
+  const [jobs, setJobs] = useState<JobInfo[]>([]);
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [runningJob, setRunningJob] = useState<string | null>(null);
+
+  const fetchJobs = async () => {
+    try {
+      setLoading(true);
+      const [jobsResponse, runsResponse] = await Promise.all([
+        jobsService.getJobs(),
+        jobsService.getRuns({ limit: 20 })
+      ]);
+      setJobs(jobsResponse.data || []);
+      setRuns(runsResponse.data || []);
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to load background jobs'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchJobs();
+  }, []);
+
+  const handleRun = async (name: string) => {
+    try {
+      setRunningJob(name);
+      const response = await jobsService.runJob(name);
+      if (response.success) {
+        toast.success(response.message || 'Job completed successfully');
+      } else {
+        toast.error(response.message || 'Job failed');
+      }
+      await fetchJobs();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to run job'));
+    } finally {
+      setRunningJob(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-32">
+        <LoadingSpinner size="md" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-lg font-medium text-gray-900">Background Jobs</h3>
+          <Button variant="outline" size="sm" onClick={fetchJobs}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+
+        {jobs.length === 0 ? (
+          <p className="text-sm text-gray-500">No background jobs are registered. Jobs may be disabled on this server.</p>
+        ) : (
+          <div className="space-y-4">
+            {jobs.map((job) => (
+              <div key={job.name} className="p-4 border border-gray-200 rounded-lg">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-900">{job.name}</h4>
+                    <p className="text-sm text-gray-500">{job.description}</p>
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => handleRun(job.name)}
+                    loading={runningJob === job.name}
+                    disabled={job.running || (runningJob !== null && runningJob !== job.name)}
+                  >
+                    <Play className="h-4 w-4 mr-2" />
+                    Run Now
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mt-4">
+                  <div>
+                    <span className="text-gray-500">Schedule:</span>
+                    <div className="font-mono">{job.schedule}</div>
+                  </div>
+                  <div>
+                    <span className="text-gray-500">Next Run:</span>
+                    <div>{formatDateTime(job.nextRunAt)}</div>
+                  </div>
+                  <div>
+                    <span className="text-gray-500">Last Run:</span>
+                    <div>{formatDateTime(job.lastRun?.startedAt)}</div>
+                  </div>
+                  <div>
+                    <span className="text-gray-500">Last Result:</span>
+                    <div>{job.running ? <RunStatus status="running" /> : job.lastRun ? <RunStatus status={job.lastRun.status} /> : '-'}</div>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Run History</h3>
+        {runs.length === 0 ? (
+          <p className="text-sm text-gray-500">No runs recorded yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Job</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Started</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Trigger</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Status</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Result</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {runs.map((run) => (
+                  <tr key={run._id}>
+                    <td className="px-4 py-2 text-gray-900">{run.job}</td>
+                    <td className="px-4 py-2 text-gray-600">
+                      {formatDateTime(run.startedAt)}
+                      {run.durationMs != null && <span className="text-xs text-gray-400 ml-1">({(run.durationMs / 1000).toFixed(1)}s)</span>}
+                    </td>
+                    <td className="px-4 py-2 text-gray-600">
+                      {run.trigger === 'manual' ? `Manual${run.triggeredBy ? ` (${run.triggeredBy.name})` : ''}` : 'Scheduled'}
+                    </td>
+                    <td className="px-4 py-2"><RunStatus status={run.status} /></td>
+                    <td className="px-4 py-2 text-gray-600">
+                      {run.error ? (
+                        <span className="text-red-600">{run.error}</span>
+                      ) : (
+                        Object.entries(run.summary || {}).map(([key, value]) => (
+                          <div key={key} className="text-xs">{formatSummaryKey(key)}: {value}</div>
+                        ))
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BackgroundJobs;
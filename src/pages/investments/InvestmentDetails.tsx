@@ -14,15 +14,21 @@ import {
   Download,
   Trash2,
   Plus,
-  Eye
+  Eye,
+  LogOut
 } from 'lucide-react';
 import { motion } from 'framer-motion';
 import Button from '../../components/common/Button';
 import DocumentManager from '../../components/investments/DocumentManager';
 import InvestmentTimeline from '../../components/investments/InvestmentTimeline';
+import ScheduleRestructure from '../../components/investments/ScheduleRestructure';
+import PrepaymentModal from '../../components/investments/PrepaymentModal';
+import HoldingDetails from '../../components/investments/HoldingDetails';
 import { Investment } from '../../types';
 import { useAuth } from '../../contexts/AuthContext';
 import { investmentsService } from '../../services/investments';
+import { DAY_COUNT_CONVENTION_LABELS } from '../../utils/interestAccrual';
+import { effectiveAnnualYield, formatContractualRate, scheduleXirr } from '../../utils/rateBasis';
 import toast from 'react-hot-toast';
 
 interface InvestmentDetailsProps {
@@ -39,6 +45,7 @@ const InvestmentDetails: React.FC<InvestmentDetailsProps> = ({
   const { user } = useAuth();
   const [activeTab, setActiveTab] = useState<'overview' | 'schedule' | 'documents' | 'timeline'>('overview');
   const [isEditing, setIsEditing] = useState(false);
+  const [showPrepayment, setShowPrepayment] = useState(false);
   const [editData, setEditData] = useState({
     status: investment.status,
     notes: investment.notes || ''
@@ -47,6 +54,8 @@ const InvestmentDetails: React.FC<InvestmentDetailsProps> = ({
   // Check if user can manage (admin/finance_manager)
   const canManage = user?.role === 'admin' || user?.role === 'finance_manager';
 
+  const scheduledXirr = scheduleXirr(investment.schedule, investment.principalAmount, investment.investmentDate);
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-IN', {
       style: 'currency',
@@ -152,6 +161,17 @@ const InvestmentDetails: React.FC<InvestmentDetailsProps> = ({
           </div>
           
           <div className="flex items-center space-x-3">
+            {canManage && !isEditing && investment.status === 'active' && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowPrepayment(true)}
+                className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                Prepay / Close
+              </Button>
+            )}
             {canManage && !isEditing && (
               <Button
                 variant="outline"
@@ -328,12 +348,30 @@ const InvestmentDetails: React.FC<InvestmentDetailsProps> = ({
                     </div>
                     <div className="flex justify-between items-center py-2 border-b border-gray-100">
                       <span className="text-gray-600">Interest Rate:</span>
-                      <span className="font-medium text-green-600">{investment.interestRate}% per month</span>
+                      <span className="font-medium text-green-600">
+                        {formatContractualRate(investment.interestRate, investment.rateBasis)}
+                      </span>
+                    </div>
+                    <div className="flex justify-between items-center py-2 border-b border-gray-100">
+                      <span className="text-gray-600">Effective Annual Yield:</span>
+                      <span className="font-medium">{effectiveAnnualYield(investment.interestRate, investment.rateBasis)}%</span>
+                    </div>
+                    <div className="flex justify-between items-center py-2 border-b border-gray-100">
+                      <span className="text-gray-600">XIRR (as scheduled):</span>
+                      <span className="font-medium">{scheduledXirr !== null ? `${scheduledXirr}%` : 'N/A'}</span>
                     </div>
                     <div className="flex justify-between items-center py-2 border-b border-gray-100">
                       <span className="text-gray-600">Interest Type:</span>
                       <span className="font-medium capitalize">{investment.interestType}</span>
                     </div>
+                    <div className="flex justify-between items-center py-2 border-b border-gray-100">
+                      <span className="text-gray-600">Interest Accrual:</span>
+                      <span className="font-medium">
+                        {investment.dayCountConvention
+                          ? DAY_COUNT_CONVENTION_LABELS[investment.dayCountConvention]
+                          : 'Monthly (anniversary)'}
+                      </span>
+                    </div>
                     <div className="flex justify-between items-center py-2 border-b border-gray-100">
                       <span className="text-gray-600">Tenure:</span>
                       <span className="font-medium">{investment.tenure} months</span>
@@ -408,6 +446,9 @@ const InvestmentDetails: React.FC<InvestmentDetailsProps> = ({
                 </div>
               </div>
 
+              {/* Holders & Nominees */}
+              <HoldingDetails investment={investment} canManage={canManage} onUpdated={onUpdate} />
+
               {/* Notes Section */}
               <div className="bg-white p-6 rounded-lg border border-gray-200">
                 <h3 className="text-lg font-semibold text-gray-900 mb-4">Notes</h3>
@@ -445,13 +486,19 @@ const InvestmentDetails: React.FC<InvestmentDetailsProps> = ({
                   {investment.schedule.length} total payments
                 </div>
               </div>
+
+              <ScheduleRestructure
+                investment={investment}
+                isEditable={canManage}
+                onRestructured={onUpdate}
+              />
               
               <div className="overflow-x-auto bg-white rounded-lg border border-gray-200">
                 <table className="min-w-full divide-y divide-gray-200">
                   <thead className="bg-gray-50">
                     <tr>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Month
+                        Payout
                       </th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Due Date
@@ -480,7 +527,12 @@ const InvestmentDetails: React.FC<InvestmentDetailsProps> = ({
                     {investment.schedule.map((payment, index) => (
                       <tr key={index} className="hover:bg-gray-50 transition-colors">
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                          #{payment.month}
+                          #{payment.period ?? payment.month}
+                          {payment.periodStartMonth !== undefined && payment.periodStartMonth !== payment.month && (
+                            <div className="text-xs font-normal text-gray-500">
+                              Months {payment.periodStartMonth}-{payment.month}
+                            </div>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                           {formatDate(payment.dueDate)}
@@ -539,6 +591,13 @@ const InvestmentDetails: React.FC<InvestmentDetailsProps> = ({
         </div>
       </motion.div>
 
+      <PrepaymentModal
+        investment={investment}
+        isOpen={showPrepayment}
+        onClose={() => setShowPrepayment(false)}
+        onRecorded={onUpdate}
+      />
+
       {/* Action Buttons */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -1,13 +1,19 @@
 // src/pages/investments/InvestmentForm.tsx - Updated for new plan structure
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useForm, useWatch } from 'react-hook-form';
-import { AlertTriangle, CheckCircle, Info, Calculator, Calendar } from 'lucide-react';
+import { AlertTriangle, CheckCircle, Calculator, Calendar, Users } from 'lucide-react';
 import Button from '../../components/common/Button';
 import LoadingSpinner from '../../components/common/LoadingSpinner';
+import SchedulePreview from '../../components/plans/SchedulePreview';
+import HoldingEditor from '../../components/investments/HoldingEditor';
 import { investorsService } from '../../services/investors';
 import { plansService } from '../../services/plans';
-import { investmentsService } from '../../services/investments';
-import { Investor, Plan, CalculationResult } from '../../types';
+import { settingsService } from '../../services/settings';
+import { DayCountConvention, HoldingInput, Investor, Plan } from '../../types';
+import { buildCalculationResult, generateSchedule } from '../../utils/scheduleEngine';
+import { DAY_COUNT_CONVENTION_LABELS, resolveDayCountConvention } from '../../utils/interestAccrual';
+import { effectiveAnnualYield, formatContractualRate } from '../../utils/rateBasis';
+import { holdingError } from '../../../shared/holdingRules.js';
 import toast from 'react-hot-toast';
 
 interface InvestmentFormProps {
@@ -27,9 +33,11 @@ const InvestmentForm: React.FC<InvestmentFormProps> = ({ onSubmit, onCancel }) =
   const [investors, setInvestors] = useState<Investor[]>([]);
   const [plans, setPlans] = useState<Plan[]>([]);
   const [selectedPlan, setSelectedPlan] = useState<Plan | null>(null);
-  const [calculationResult, setCalculationResult] = useState<CalculationResult | null>(null);
+  const [companyConvention, setCompanyConvention] = useState<DayCountConvention>();
+  const [requireVerifiedKyc, setRequireVerifiedKyc] = useState(true);
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [holding, setHolding] = useState<HoldingInput>({ jointHolders: [], modeOfOperation: 'single', nominees: [] });
   const [loading, setLoading] = useState(true);
-  const [calculating, setCalculating] = useState(false);
 
   const {
     register,
@@ -48,17 +56,21 @@ const InvestmentForm: React.FC<InvestmentFormProps> = ({ onSubmit, onCancel }) =
   const watchPlan = useWatch({ control, name: 'plan' });
   const watchPrincipalAmount = useWatch({ control, name: 'principalAmount' });
   const watchInvestor = useWatch({ control, name: 'investor' });
+  const watchInvestmentDate = useWatch({ control, name: 'investmentDate' });
 
   useEffect(() => {
     const fetchData = async () => {
       try {
-        const [investorsResponse, plansResponse] = await Promise.all([
+        const [investorsResponse, plansResponse, settingsResponse] = await Promise.all([
           investorsService.getInvestors({ limit: 100 }),
-          plansService.getActivePlans()
+          plansService.getActivePlans(),
+          settingsService.getSettings().catch(() => null)
         ]);
         
         setInvestors(investorsResponse.data || []);
         setPlans(plansResponse.data || []);
+        setCompanyConvention(resolveDayCountConvention(settingsResponse?.data?.financial));
+        setRequireVerifiedKyc(settingsResponse?.data?.kyc?.requireVerifiedForInvestment ?? true);
       } catch (error: any) {
         toast.error('Failed to load form data');
       } finally {
@@ -73,40 +85,33 @@ const InvestmentForm: React.FC<InvestmentFormProps> = ({ onSubmit, onCancel }) =
     if (watchPlan) {
       const plan = plans.find(p => p._id === watchPlan);
       setSelectedPlan(plan || null);
-      // Clear calculation when plan changes
-      setCalculationResult(null);
     } else {
       setSelectedPlan(null);
-      setCalculationResult(null);
     }
   }, [watchPlan, plans]);
 
-  // Auto-calculate when both plan and amount are selected
-  useEffect(() => {
-    if (selectedPlan && watchPrincipalAmount && watchPrincipalAmount >= selectedPlan.minInvestment) {
-      calculateReturns();
-    } else {
-      setCalculationResult(null);
-    }
-  }, [selectedPlan, watchPrincipalAmount]);
-
-  const calculateReturns = async () => {
-    if (!selectedPlan || !watchPrincipalAmount) return;
-
-    try {
-      setCalculating(true);
-      const response = await investmentsService.calculateReturns({
-        planId: selectedPlan._id,
-        principalAmount: watchPrincipalAmount
-      });
-      setCalculationResult(response.data);
-    } catch (error: any) {
-      console.warn('Calculation failed:', error);
-      // Don't show error toast for calculation failures as they're not critical
-    } finally {
-      setCalculating(false);
-    }
-  };
+  // Calculated locally with the shared schedule engine whenever plan or amount changes
+  const principalAmount = Number(watchPrincipalAmount);
+  const isValidAmount = !!selectedPlan &&
+    principalAmount >= selectedPlan.minInvestment &&
+    principalAmount <= selectedPlan.maxInvestment;
+
+  // Same convention the server records on the investment at creation
+  const dayCountConvention = selectedPlan?.dayCountConvention || companyConvention || resolveDayCountConvention();
+
+  const calculationResult = useMemo(
+    () => (selectedPlan && isValidAmount
+      ? buildCalculationResult(selectedPlan, principalAmount, watchInvestmentDate || new Date(), dayCountConvention)
+      : null),
+    [selectedPlan, principalAmount, watchInvestmentDate, dayCountConvention, isValidAmount]
+  );
+
+  const schedulePreview = useMemo(
+    () => (selectedPlan && isValidAmount
+      ? generateSchedule(selectedPlan, principalAmount, watchInvestmentDate || new Date(), dayCountConvention)
+      : []),
+    [selectedPlan, principalAmount, watchInvestmentDate, dayCountConvention, isValidAmount]
+  );
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-IN', {
@@ -116,6 +121,9 @@ const InvestmentForm: React.FC<InvestmentFormProps> = ({ onSubmit, onCancel }) =
     }).format(amount);
   };
 
+  // Same rules the server applies to joint holders and nominees
+  const holdingProblem = holdingError({ investor: watchInvestor, ...holding });
+
   const getSelectedInvestor = () => {
     return investors.find(inv => inv._id === watchInvestor);
   };
@@ -155,9 +163,15 @@ const InvestmentForm: React.FC<InvestmentFormProps> = ({ onSubmit, onCancel }) =
       return;
     }
 
-    // Submit with calculation data
+    if (holdingProblem) {
+      toast.error(holdingProblem);
+      return;
+    }
+
+    // Submit with calculation data and the holding
     onSubmit({
       ...data,
+      ...holding,
       calculationResult
     });
   };
@@ -171,6 +185,11 @@ const InvestmentForm: React.FC<InvestmentFormProps> = ({ onSubmit, onCancel }) =
   }
 
   const selectedInvestor = getSelectedInvestor();
+  // Mirrors the server rule: new investments need KYC that is verified and not past re-KYC
+  const kycBlocked = requireVerifiedKyc && !!selectedInvestor && !(
+    selectedInvestor.kyc?.verificationStatus === 'verified' &&
+    (!selectedInvestor.kyc.expiresAt || new Date(selectedInvestor.kyc.expiresAt) > new Date())
+  );
 
   return (
     <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-6">
@@ -203,7 +222,7 @@ const InvestmentForm: React.FC<InvestmentFormProps> = ({ onSubmit, onCancel }) =
               <option value="">Select Plan</option>
               {plans.map((plan) => (
                 <option key={plan._id} value={plan._id}>
-                  {plan.name} - {plan.interestRate}% {plan.interestType} ({getPaymentTypeLabel(plan.paymentType)})
+                  {plan.name} - {formatContractualRate(plan.interestRate, plan.rateBasis)} {plan.interestType} ({getPaymentTypeLabel(plan.paymentType)})
                 </option>
               ))}
             </select>
@@ -274,9 +293,30 @@ const InvestmentForm: React.FC<InvestmentFormProps> = ({ onSubmit, onCancel }) =
               <div className="font-medium">{selectedInvestor.activeInvestments}</div>
             </div>
           </div>
+          {kycBlocked && (
+            <div className="flex items-start mt-3 text-sm text-red-700">
+              <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+              KYC is not verified for this investor. Complete KYC review before creating an investment.
+            </div>
+          )}
         </div>
       )}
 
+      {/* Joint Holders & Nominees */}
+      <div className="p-4 rounded-lg border border-gray-200">
+        <h4 className="text-md font-medium text-gray-900 mb-3 flex items-center">
+          <Users className="h-5 w-5 mr-2" />
+          Holding & Nominees
+        </h4>
+        <HoldingEditor
+          value={holding}
+          onChange={setHolding}
+          primaryId={watchInvestor}
+          investors={investors}
+          error={holdingProblem}
+        />
+      </div>
+
       {/* Selected Plan Details */}
       {selectedPlan && (
         <div className="bg-green-50 p-4 rounded-lg border border-green-200">
@@ -284,7 +324,10 @@ const InvestmentForm: React.FC<InvestmentFormProps> = ({ onSubmit, onCancel }) =
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
             <div>
               <span className="text-green-700">Interest Rate:</span>
-              <div className="font-medium">{selectedPlan.interestRate}% per month</div>
+              <div className="font-medium">{formatContractualRate(selectedPlan.interestRate, selectedPlan.rateBasis)}</div>
+              <div className="text-xs text-green-700">
+                {effectiveAnnualYield(selectedPlan.interestRate, selectedPlan.rateBasis)}% effective annual yield
+              </div>
             </div>
             <div>
               <span className="text-green-700">Interest Type:</span>
@@ -316,43 +359,62 @@ const InvestmentForm: React.FC<InvestmentFormProps> = ({ onSubmit, onCancel }) =
           <h4 className="text-md font-medium text-purple-900 mb-3 flex items-center">
             <Calculator className="h-5 w-5 mr-2" />
             Investment Calculation
-            {calculating && <LoadingSpinner size="sm" className="ml-2" />}
           </h4>
           
           {calculationResult ? (
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <div className="bg-white p-3 rounded">
-                <div className="text-sm text-gray-600">Principal Amount</div>
-                <div className="text-lg font-bold text-purple-600">
-                  {formatCurrency(calculationResult.principalAmount)}
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="bg-white p-3 rounded">
+                  <div className="text-sm text-gray-600">Principal Amount</div>
+                  <div className="text-lg font-bold text-purple-600">
+                    {formatCurrency(calculationResult.principalAmount)}
+                  </div>
                 </div>
-              </div>
-              <div className="bg-white p-3 rounded">
-                <div className="text-sm text-gray-600">Total Interest</div>
-                <div className="text-lg font-bold text-green-600">
-                  {formatCurrency(calculationResult.calculations.totalInterest)}
+                <div className="bg-white p-3 rounded">
+                  <div className="text-sm text-gray-600">Total Interest</div>
+                  <div className="text-lg font-bold text-green-600">
+                    {formatCurrency(calculationResult.calculations.totalInterest)}
+                  </div>
                 </div>
-              </div>
-              <div className="bg-white p-3 rounded">
-                <div className="text-sm text-gray-600">Total Returns</div>
-                <div className="text-lg font-bold text-blue-600">
-                  {formatCurrency(calculationResult.calculations.totalReturns)}
+                <div className="bg-white p-3 rounded">
+                  <div className="text-sm text-gray-600">Total Returns</div>
+                  <div className="text-lg font-bold text-blue-600">
+                    {formatCurrency(calculationResult.calculations.totalReturns)}
+                  </div>
                 </div>
               </div>
+
+              <div className="text-sm text-purple-800">
+                Effective annual yield: <span className="font-medium">{calculationResult.calculations.effectiveAnnualYield}%</span>
+                {calculationResult.calculations.xirr != null && (
+                  <span className="ml-4">
+                    XIRR: <span className="font-medium">{calculationResult.calculations.xirr}%</span>
+                  </span>
+                )}
+              </div>
+
+              <div>
+                <button
+                  type="button"
+                  onClick={() => setShowSchedule(!showSchedule)}
+                  className="text-sm font-medium text-purple-700 hover:text-purple-900"
+                >
+                  {showSchedule ? 'Hide' : 'Show'} payment schedule ({schedulePreview.length} payments)
+                </button>
+                <span className="ml-3 text-xs text-gray-500">
+                  Interest accrual: {DAY_COUNT_CONVENTION_LABELS[dayCountConvention]}
+                </span>
+                {showSchedule && (
+                  <div className="mt-2">
+                    <SchedulePreview schedule={schedulePreview} maxHeightClass="max-h-64" />
+                  </div>
+                )}
+              </div>
             </div>
           ) : (
             <div className="flex items-center space-x-2 text-sm text-purple-700">
-              {calculating ? (
-                <>
-                  <Info className="h-4 w-4" />
-                  <span>Calculating returns...</span>
-                </>
-              ) : (
-                <>
-                  <AlertTriangle className="h-4 w-4" />
-                  <span>Enter a valid amount within the plan range to see calculations</span>
-                </>
-              )}
+              <AlertTriangle className="h-4 w-4" />
+              <span>Enter a valid amount within the plan range to see calculations</span>
             </div>
           )}
         </div>
@@ -440,7 +502,7 @@ const InvestmentForm: React.FC<InvestmentFormProps> = ({ onSubmit, onCancel }) =
         <Button 
           type="submit" 
           loading={isSubmitting}
-          disabled={!calculationResult || calculating}
+          disabled={!calculationResult || kycBlocked || !!holdingProblem}
         >
           Create Investment
         </Button>
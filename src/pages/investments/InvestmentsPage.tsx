@@ -7,6 +7,7 @@ import Modal from '../../components/common/Modal';
 import LoadingSpinner from '../../components/common/LoadingSpinner';
 import { investmentsService } from '../../services/investments';
 import { Investment } from '../../types';
+import { formatContractualRate } from '../../utils/rateBasis';
 import { useAuth } from '../../contexts/AuthContext';
 import toast from 'react-hot-toast';
 import InvestmentForm from './InvestmentForm';
@@ -270,7 +271,7 @@ const InvestmentsPage: React.FC = () => {
                               {investment.plan.name}
                             </div>
                             <div className="text-xs text-gray-500">
-                              {investment.plan.interestRate}% {investment.plan.interestType}
+                              {formatContractualRate(investment.interestRate, investment.rateBasis)} {investment.plan.interestType}
                             </div>
                           </div>
                         </td>
@@ -21,13 +21,28 @@ import {
   ArrowLeft,
   Trash2,
   Info,
-  Clock
+  Clock,
+  ScrollText,
+  Percent
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useForm, useWatch } from 'react-hook-form';
 import { investorsService } from '../../services/investors';
 import { plansService } from '../../services/plans';
 import { investmentsService } from '../../services/investments';
+import { formatContractualRate } from '../../utils/rateBasis';
+import { useAuth } from '../../contexts/AuthContext';
+import AccountStatement from '../../components/investors/AccountStatement';
+import TaxExemptions from '../../components/investors/TaxExemptions';
+import KycDocuments from '../../components/investors/KycDocuments';
+import KycStatusBadge from '../../components/investors/KycStatusBadge';
+import RevealableValue from '../../components/investors/RevealableValue';
+import SensitiveAccessLog from '../../components/investors/SensitiveAccessLog';
+import InterestCertificate from '../../components/investors/InterestCertificate';
+import JointHoldings from '../../components/investors/JointHoldings';
+import RecordDeathModal from '../../components/investors/RecordDeathModal';
+import HoldingSummary from '../../components/investments/HoldingSummary';
+import { InvestorDeceased, JointHolding } from '../../types';
 import toast from 'react-hot-toast';
 
 const Button = ({ children, variant = 'primary', size = 'md', loading = false, disabled = false, onClick, className = '', type = 'button' }) => {
@@ -115,6 +130,11 @@ const Modal = ({ isOpen, onClose, title, children, size = 'md' }) => {
 };
 
 const ComprehensiveInvestorView = ({ investorId, onBack }) => {
+  const { user } = useAuth();
+  const canManage = user?.role === 'admin' || user?.role === 'finance_manager';
+  const isAdmin = user?.role === 'admin';
+  // Bumped after a reveal so the access log reloads
+  const [accessLogKey, setAccessLogKey] = useState(0);
   const [investor, setInvestor] = useState(null);
   const [investments, setInvestments] = useState([]);
   const [plans, setPlans] = useState([]);
@@ -122,6 +142,12 @@ const ComprehensiveInvestorView = ({ investorId, onBack }) => {
   const [showInvestmentForm, setShowInvestmentForm] = useState(false);
   const [activeTab, setActiveTab] = useState('overview');
   const [selectedPlanOption, setSelectedPlanOption] = useState('existing'); // 'existing' or 'new'
+  const [jointHoldings, setJointHoldings] = useState<JointHolding[]>([]);
+  const [deceased, setDeceased] = useState<InvestorDeceased | null>(null);
+  const [showRecordDeath, setShowRecordDeath] = useState(false);
+  const [investorName, setInvestorName] = useState('');
+  // Bumped after recording a death so the investor reloads
+  const [refreshKey, setRefreshKey] = useState(0);
 
   // Fetch investor data
   useEffect(() => {
@@ -137,6 +163,10 @@ const ComprehensiveInvestorView = ({ investorId, onBack }) => {
         setInvestor(investorResponse.data);
         setInvestments(investmentsResponse.data || []);
         setPlans(plansResponse.data || []);
+        const profile = investorResponse.data;
+        setJointHoldings(profile?.jointHoldings || []);
+        setInvestorName(profile?.name || '');
+        setDeceased(profile?.deceased?.dateOfDeath ? profile.deceased : null);
       } catch (error) {
         console.error('Error fetching investor data:', error);
         toast.error('Failed to load investor data');
@@ -148,7 +178,7 @@ const ComprehensiveInvestorView = ({ investorId, onBack }) => {
     if (investorId) {
       fetchInvestorData();
     }
-  }, [investorId]);
+  }, [investorId, refreshKey]);
 
   const formatCurrency = (amount) => {
     const numericAmount = parseFloat(amount) || 0;
@@ -254,6 +284,19 @@ const ComprehensiveInvestorView = ({ investorId, onBack }) => {
             </div>
             <div className="flex items-center space-x-3">
               {getStatusBadge(investor.status)}
+              {deceased && (
+                <span
+                  className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-gray-800 text-white"
+                  title={deceased.dateOfDeath ? `Died ${formatDate(deceased.dateOfDeath)}` : undefined}
+                >
+                  Deceased
+                </span>
+              )}
+              {isAdmin && !deceased && (
+                <Button onClick={() => setShowRecordDeath(true)} variant="outline" size="sm">
+                  Record Death
+                </Button>
+              )}
               <Button 
                 onClick={() => setShowInvestmentForm(true)}
                 className="bg-green-600 hover:bg-green-700"
@@ -352,7 +395,9 @@ const ComprehensiveInvestorView = ({ investorId, onBack }) => {
               {[
                 { id: 'overview', label: 'Overview', icon: User },
                 { id: 'investments', label: 'Investments', icon: TrendingUp },
-                { id: 'documents', label: 'Documents', icon: FileText }
+                { id: 'documents', label: 'Documents', icon: FileText },
+                { id: 'statement', label: 'Statement', icon: ScrollText },
+                ...(canManage ? [{ id: 'tax', label: 'Tax', icon: Percent }] : [])
               ].map((tab) => (
                 <button
                   key={tab.id}
@@ -425,19 +470,28 @@ const ComprehensiveInvestorView = ({ investorId, onBack }) => {
                       <CreditCard className="h-5 w-5 text-gray-400" />
                       <div>
                         <p className="text-sm text-gray-600">PAN Number</p>
-                        <p className="font-medium">{investor.kyc?.panNumber}</p>
+                        <RevealableValue
+                          investorId={investorId}
+                          field="panNumber"
+                          value={investor.kyc?.panNumber}
+                          canReveal={isAdmin}
+                          onRevealed={() => setAccessLogKey(key => key + 1)}
+                          className="font-medium"
+                        />
                       </div>
                     </div>
                     <div className="flex items-center space-x-3">
                       <FileText className="h-5 w-5 text-gray-400" />
                       <div>
                         <p className="text-sm text-gray-600">Aadhar Number</p>
-                        <p className="font-medium">
-                          {investor.kyc?.aadharNumber ? 
-                            `****-****-${investor.kyc.aadharNumber.slice(-4)}` : 
-                            'Not provided'
-                          }
-                        </p>
+                        <RevealableValue
+                          investorId={investorId}
+                          field="aadharNumber"
+                          value={investor.kyc?.aadharNumber}
+                          canReveal={isAdmin}
+                          onRevealed={() => setAccessLogKey(key => key + 1)}
+                          className="font-medium"
+                        />
                       </div>
                     </div>
                     <div className="flex items-start space-x-3">
@@ -449,7 +503,14 @@ const ComprehensiveInvestorView = ({ investorId, onBack }) => {
                           <p className="text-sm text-gray-600">{investor.kyc?.bankDetails?.branchName}</p>
                           <p className="text-sm">IFSC: {investor.kyc?.bankDetails?.ifscCode}</p>
                           <p className="text-sm">
-                            Account: ****{investor.kyc?.bankDetails?.accountNumber?.slice(-4)}
+                            Account:{' '}
+                            <RevealableValue
+                              investorId={investorId}
+                              field="accountNumber"
+                              value={investor.kyc?.bankDetails?.accountNumber}
+                              canReveal={isAdmin}
+                              onRevealed={() => setAccessLogKey(key => key + 1)}
+                            />
                           </p>
                         </div>
                       </div>
@@ -458,11 +519,15 @@ const ComprehensiveInvestorView = ({ investorId, onBack }) => {
                       <CheckCircle className="h-5 w-5 text-green-500" />
                       <div>
                         <p className="text-sm text-gray-600">KYC Status</p>
-                        <p className="font-medium text-green-600">
-                          {investor.kyc?.verificationStatus || 'Pending'}
-                        </p>
+                        <KycStatusBadge kyc={investor.kyc} />
                       </div>
                     </div>
+                    {isAdmin && (
+                      <div>
+                        <p className="text-sm text-gray-600 mb-2">Identifier Reveals</p>
+                        <SensitiveAccessLog key={accessLogKey} investorId={investorId} />
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -534,21 +599,51 @@ const ComprehensiveInvestorView = ({ investorId, onBack }) => {
                             </Button>
                           </div>
                         </div>
+                        <HoldingSummary investment={investment} />
                       </motion.div>
                     ))}
                   </div>
                 )}
+
+                <JointHoldings holdings={jointHoldings} />
               </div>
             )}
 
             {/* Documents Tab */}
             {activeTab === 'documents' && (
               <div>
-                <h3 className="text-lg font-semibold text-gray-900 mb-6">Documents</h3>
-                <div className="text-center py-12">
-                  <FileText className="h-12 w-12 mx-auto text-gray-400 mb-4" />
-                  <p className="text-gray-500">Document management coming soon</p>
-                </div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-6">KYC Documents</h3>
+                {canManage ? (
+                  <KycDocuments investorId={investorId} />
+                ) : (
+                  <div className="text-center py-12">
+                    <FileText className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+                    <p className="text-gray-500">Document management coming soon</p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Statement Tab */}
+            {activeTab === 'statement' && (
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-6">Account Statement</h3>
+                <AccountStatement
+                  investorId={investorId}
+                  investments={investments}
+                  canManage={canManage}
+                />
+              </div>
+            )}
+
+            {/* Tax Tab */}
+            {activeTab === 'tax' && canManage && (
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-6">TDS Exemptions (Form 15G/15H)</h3>
+                <TaxExemptions investorId={investorId} />
+
+                <h3 className="text-lg font-semibold text-gray-900 mt-10 mb-6">Interest Certificate</h3>
+                <InterestCertificate investorId={investorId} />
               </div>
             )}
           </div>
@@ -569,6 +664,17 @@ const ComprehensiveInvestorView = ({ investorId, onBack }) => {
           onCancel={() => setShowInvestmentForm(false)}
         />
       </Modal>
+
+      <RecordDeathModal
+        isOpen={showRecordDeath}
+        investorId={investorId}
+        investorName={investorName}
+        onClose={() => setShowRecordDeath(false)}
+        onRecorded={() => {
+          setShowRecordDeath(false);
+          setRefreshKey(key => key + 1);
+        }}
+      />
     </div>
   );
 };
@@ -826,7 +932,7 @@ const InvestmentCreationForm = ({ investor, plans, onSubmit, onCancel }) => {
               <option value="">Select a plan</option>
               {plans.map((plan) => (
                 <option key={plan._id} value={plan._id}>
-                  {plan.name} - {plan.interestRate}% {plan.interestType} ({plan.tenure} months)
+                  {plan.name} - {formatContractualRate(plan.interestRate, plan.rateBasis)} {plan.interestType} ({plan.tenure} months)
                 </option>
               ))}
             </select>
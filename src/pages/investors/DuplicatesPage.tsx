@@ -0,0 +1,161 @@
+// src/pages/investors/DuplicatesPage.tsx - Possible duplicate investors report with the admin merge tool
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Copy, GitMerge } from 'lucide-react';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+import Button from '../../components/common/Button';
+import LoadingSpinner from '../../components/common/LoadingSpinner';
+import MergeInvestorsModal from '../../components/investors/MergeInvestorsModal';
+import { useAuth } from '../../contexts/AuthContext';
+import { investorsService } from '../../services/investors';
+import { DuplicateGroup, DuplicateReason } from '../../types';
+import { errorMessage } from '../../utils/errors';
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  pan: 'Same PAN',
+  aadhaar: 'Same Aadhaar',
+  email: 'Same email',
+  name_phone: 'Similar name, same phone'
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 0,
+  }).format(amount);
+};
+
+const formatDate = (date: string) => {
+  return new Date(date).toLocaleDateString('en-IN');
+};
+
+const DuplicatesPage: React.FC = () => {
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin';
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [mergeGroup, setMergeGroup] = useState<DuplicateGroup | null>(null);
+  // Bumped after a merge so the report reloads
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    const fetchGroups = async () => {
+      try {
+        setLoading(true);
+        const response = await investorsService.getDuplicateGroups();
+        setGroups(response.data || []);
+      } catch (error: unknown) {
+        toast.error(errorMessage(error, 'Failed to load possible duplicates'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchGroups();
+  }, [refreshKey]);
+
+  const handleMerged = () => {
+    setMergeGroup(null);
+    setRefreshKey(key => key + 1);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <Link to="/investors" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-1">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Investors
+        </Link>
+        <h1 className="text-2xl font-bold text-gray-900">Possible Duplicates</h1>
+        <p className="text-gray-600">
+          Investors sharing a PAN, Aadhaar number or email, or a phone number with a similar name
+        </p>
+      </motion.div>
+
+      {loading ? (
+        <div className="flex justify-center items-center h-40">
+          <LoadingSpinner />
+        </div>
+      ) : groups.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 text-center py-16">
+          <Copy className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+          <p className="text-gray-500">No possible duplicates found</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {groups.map(group => (
+            <div key={group.investors.map(investor => investor._id).join('-')} className="bg-white rounded-lg shadow-sm border border-gray-200">
+              <div className="flex justify-between items-center px-6 py-3 border-b border-gray-200">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${
+                    group.blocking ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                  }`}>
+                    {group.blocking ? 'Same person' : 'Likely the same'}
+                  </span>
+                  {group.reasons.map(reason => (
+                    <span key={reason} className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">
+                      {REASON_LABELS[reason]}
+                    </span>
+                  ))}
+                </div>
+                {isAdmin && (
+                  <Button size="sm" variant="outline" onClick={() => setMergeGroup(group)}>
+                    <GitMerge className="h-4 w-4 mr-2" />
+                    Merge
+                  </Button>
+                )}
+              </div>
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase">Investor</th>
+                    <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase">Contact</th>
+                    <th className="px-6 py-2 text-right text-xs font-medium text-gray-500 uppercase">Invested</th>
+                    <th className="px-6 py-2 text-right text-xs font-medium text-gray-500 uppercase">Active</th>
+                    <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase">Login</th>
+                    <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase">Created</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {group.investors.map(investor => (
+                    <tr key={investor._id}>
+                      <td className="px-6 py-3">
+                        <Link to={`/investors/${investor._id}/comprehensive`} className="font-medium text-blue-600 hover:text-blue-800">
+                          {investor.name}
+                        </Link>
+                        <div className="text-xs text-gray-500">{investor.investorId} · <span className="capitalize">{investor.status}</span></div>
+                      </td>
+                      <td className="px-6 py-3 text-gray-600">
+                        <div>{investor.email}</div>
+                        <div className="text-xs text-gray-500">{investor.phone}</div>
+                      </td>
+                      <td className="px-6 py-3 text-right text-gray-900">{formatCurrency(investor.totalInvestment)}</td>
+                      <td className="px-6 py-3 text-right text-gray-900">{investor.activeInvestments}</td>
+                      <td className="px-6 py-3 text-gray-600">{investor.hasUserAccount ? 'Yes' : 'No'}</td>
+                      <td className="px-6 py-3 text-gray-600">{formatDate(investor.createdAt)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <MergeInvestorsModal
+        isOpen={!!mergeGroup}
+        investors={mergeGroup?.investors || []}
+        onClose={() => setMergeGroup(null)}
+        onMerged={handleMerged}
+      />
+    </div>
+  );
+};
+
+export default DuplicatesPage;
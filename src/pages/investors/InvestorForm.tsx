@@ -4,6 +4,16 @@ import { useForm } from 'react-hook-form';
 import { Eye, EyeOff, CheckCircle, XCircle, User, Lock } from 'lucide-react';
 import Button from '../../components/common/Button';
 import { Investor } from '../../types';
+import {
+  PAN_HOLDER_TYPES,
+  panError,
+  aadhaarError,
+  ifscError,
+  bankAccountError,
+  pincodeError,
+  lookupIfsc,
+  stateForPincode
+} from '../../../shared/identityValidation.js';
 
 interface InvestorFormProps {
   investor?: Investor;
@@ -32,7 +42,7 @@ interface FormData {
       branchName: string;
     };
   };
-  status: 'active' | 'inactive' | 'blocked';
+  status: Investor['status'];
   // NEW: User account creation fields
   createUserAccount: boolean;
   userAccountDetails?: {
@@ -102,6 +112,7 @@ const InvestorForm: React.FC<InvestorFormProps> = ({ investor, onSubmit, onCance
   });
 
   // Watch form values
+  const watchName = watch('name');
   const watchPan = watch('kyc.panNumber');
   const watchIfsc = watch('kyc.bankDetails.ifscCode');
   const watchPassword = watch('userAccountDetails.password');
@@ -118,31 +129,34 @@ const InvestorForm: React.FC<InvestorFormProps> = ({ investor, onSubmit, onCance
     setValue('userAccountDetails.confirmPassword', password);
   };
 
-  // Validation functions
-  const validatePAN = (pan: string) => {
+  // Validation functions, shared with the API so both give the same messages
+  const validatePAN = (pan: string, name: string) => {
     if (!pan) return null;
-    const panRegex = /^[A-Z]{5}[0-9]{4}[A-Z]{1}$/;
-    const isValid = panRegex.test(pan.toUpperCase());
+    const error = panError(pan, name);
     return {
-      isValid,
-      message: isValid ? 'Valid PAN format' : 'Invalid PAN format. Example: AKDPB7458C'
+      isValid: !error,
+      message: error || `Valid PAN (${PAN_HOLDER_TYPES[pan[3]]})`
     };
   };
 
   const validateIFSC = (ifsc: string) => {
     if (!ifsc) return null;
-    const ifscRegex = /^[A-Z]{4}0[A-Z0-9]{6}$/;
-    const isValid = ifscRegex.test(ifsc.toUpperCase());
+    const error = ifscError(ifsc);
     return {
-      isValid,
-      message: isValid ? 'Valid IFSC format' : 'Invalid IFSC format. Example: SBIN0001234'
+      isValid: !error,
+      message: error || (lookupIfsc(ifsc)?.bankName ?? 'Valid IFSC format; bank code not in the offline list')
     };
   };
 
+  // Saved values on an existing investor are not re-checked, as on the API, so older records stay
+  // editable. PAN, Aadhaar and account number come back masked and are only sent on if retyped.
+  const unchanged = (value: string, saved?: string) => !!investor && value === saved;
+
   // Real-time validation
   React.useEffect(() => {
-    setPanValidation(watchPan ? validatePAN(watchPan) : null);
-  }, [watchPan]);
+    const keepsSavedPan = !!investor && watchPan === investor.kyc?.panNumber && watchName === investor.name;
+    setPanValidation(watchPan && !keepsSavedPan ? validatePAN(watchPan, watchName) : null);
+  }, [watchPan, watchName, investor]);
 
   React.useEffect(() => {
     setIfscValidation(watchIfsc ? validateIFSC(watchIfsc) : null);
@@ -154,9 +168,19 @@ const InvestorForm: React.FC<InvestorFormProps> = ({ investor, onSubmit, onCance
     setValue('kyc.panNumber', value);
   };
 
+  // A known bank code fills in the bank name; branch names are not in the offline list
   const handleIfscChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, '');
     setValue('kyc.bankDetails.ifscCode', value);
+    const bank = lookupIfsc(value);
+    if (bank) setValue('kyc.bankDetails.bankName', bank.bankName, { shouldValidate: true });
+  };
+
+  const handlePincodeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value.replace(/\D/g, '');
+    setValue('address.pincode', value);
+    const state = stateForPincode(value);
+    if (state) setValue('address.state', state);
   };
 
   const ValidationIcon: React.FC<{ validation: { isValid: boolean; message: string } | null }> = ({ validation }) => {
@@ -296,11 +320,9 @@ const InvestorForm: React.FC<InvestorFormProps> = ({ investor, onSubmit, onCance
             <label className="block text-sm font-medium text-gray-700">Pincode</label>
             <input
               {...register('address.pincode', {
-                pattern: {
-                  value: /^\d{6}$/,
-                  message: 'Pincode must be exactly 6 digits'
-                }
+                validate: value => pincodeError(value) || true
               })}
+              onChange={handlePincodeChange}
               className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
               placeholder="Enter 6-digit pincode"
               maxLength={6}
@@ -324,6 +346,11 @@ const InvestorForm: React.FC<InvestorFormProps> = ({ investor, onSubmit, onCance
       {/* KYC Information */}
       <div>
         <h3 className="text-lg font-medium text-gray-900 mb-4">KYC Information</h3>
+        {investor && (
+          <p className="-mt-2 mb-4 text-sm text-gray-500">
+            PAN, Aadhaar and account number are shown masked. Leave them as they are to keep the saved values, or type a new number to replace one.
+          </p>
+        )}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           {/* PAN Number */}
           <div>
@@ -331,18 +358,17 @@ const InvestorForm: React.FC<InvestorFormProps> = ({ investor, onSubmit, onCance
             <div className="relative">
               <input
                 {...register('kyc.panNumber', {
-                  required: 'PAN number is required',
-                  pattern: {
-                    value: /^[A-Z]{5}[0-9]{4}[A-Z]{1}$/,
-                    message: 'Invalid PAN format. Example: AKDPB7458C'
-                  }
+                  validate: (value, values) =>
+                    (unchanged(value, investor?.kyc?.panNumber) && values.name === investor?.name) ||
+                    panError(value, values.name) ||
+                    true
                 })}
                 onChange={handlePanChange}
                 className={`mt-1 block w-full border rounded-lg px-3 py-2 pr-10 focus:ring-blue-500 focus:border-blue-500 ${
                   panValidation?.isValid ? 'border-green-300' : 
                   panValidation?.isValid === false ? 'border-red-300' : 'border-gray-300'
                 }`}
-                placeholder="AKDPB7458C"
+                placeholder="ABCPE1234F"
                 maxLength={10}
                 style={{ textTransform: 'uppercase' }}
               />
@@ -366,11 +392,7 @@ const InvestorForm: React.FC<InvestorFormProps> = ({ investor, onSubmit, onCance
             <div className="relative">
               <input
                 {...register('kyc.aadharNumber', {
-                  required: 'Aadhar number is required',
-                  pattern: {
-                    value: /^\d{12}$/,
-                    message: 'Aadhar number must be exactly 12 digits'
-                  }
+                  validate: value => unchanged(value, investor?.kyc?.aadharNumber) || aadhaarError(value) || true
                 })}
                 type={showAadhar ? 'text' : 'password'}
                 className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 pr-10 focus:ring-blue-500 focus:border-blue-500"
@@ -406,11 +428,8 @@ const InvestorForm: React.FC<InvestorFormProps> = ({ investor, onSubmit, onCance
             <div className="relative">
               <input
                 {...register('kyc.bankDetails.accountNumber', {
-                  required: 'Account number is required',
-                  pattern: {
-                    value: /^\d{9,18}$/,
-                    message: 'Account number must be 9-18 digits'
-                  }
+                  validate: value =>
+                    unchanged(value, investor?.kyc?.bankDetails?.accountNumber) || bankAccountError(value) || true
                 })}
                 type={showAccount ? 'text' : 'password'}
                 className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 pr-10 focus:ring-blue-500 focus:border-blue-500"
@@ -439,11 +458,7 @@ const InvestorForm: React.FC<InvestorFormProps> = ({ investor, onSubmit, onCance
             <div className="relative">
               <input
                 {...register('kyc.bankDetails.ifscCode', {
-                  required: 'IFSC code is required',
-                  pattern: {
-                    value: /^[A-Z]{4}0[A-Z0-9]{6}$/,
-                    message: 'Invalid IFSC format. Example: SBIN0001234'
-                  }
+                  validate: value => unchanged(value, investor?.kyc?.bankDetails?.ifscCode) || ifscError(value) || true
                 })}
                 onChange={handleIfscChange}
                 className={`mt-1 block w-full border rounded-lg px-3 py-2 pr-10 focus:ring-blue-500 focus:border-blue-500 ${
@@ -493,6 +508,7 @@ const InvestorForm: React.FC<InvestorFormProps> = ({ investor, onSubmit, onCance
               className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
               placeholder="Enter branch name"
             />
+            <p className="mt-1 text-xs text-gray-500">Not filled from the IFSC; copy it from the cheque or passbook</p>
             {errors.kyc?.bankDetails?.branchName && (
               <p className="mt-1 text-sm text-red-600">{errors.kyc.bankDetails.branchName.message}</p>
             )}
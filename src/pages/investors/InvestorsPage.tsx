@@ -15,16 +15,19 @@ import {
   Clock,
   Download,
   Users,
-  TrendingUp
+  TrendingUp,
+  Copy
 } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import Button from '../../components/common/Button';
 import Modal from '../../components/common/Modal';
 import LoadingSpinner from '../../components/common/LoadingSpinner';
 import { investorsService, CreateInvestorData } from '../../services/investors';
-import { Investor } from '../../types';
+import { ApiError, DuplicateConflict, Investor } from '../../types';
 import toast from 'react-hot-toast';
 import InvestorForm from './InvestorForm';
+import DuplicateWarning from '../../components/investors/DuplicateWarning';
 import ComprehensiveInvestorView from './ComprehensiveInvestorView';
 
 interface UserAccountModalState {
@@ -34,6 +37,7 @@ interface UserAccountModalState {
 }
 
 const InvestorsPage: React.FC = () => {
+  const navigate = useNavigate();
   // Existing state
   const [investors, setInvestors] = useState<Investor[]>([]);
   const [loading, setLoading] = useState(true);
@@ -51,6 +55,12 @@ const InvestorsPage: React.FC = () => {
     type: 'create'
   });
   const [actionLoading, setActionLoading] = useState<{ [key: string]: boolean }>({});
+  // Set when a save was refused because the investor may already exist; confirm retries it
+  const [duplicateWarning, setDuplicateWarning] = useState<{
+    conflict: DuplicateConflict;
+    confirm: () => Promise<void>;
+  } | null>(null);
+  const [confirmingDuplicate, setConfirmingDuplicate] = useState(false);
 
   // NEW: State for comprehensive view
   const [currentView, setCurrentView] = useState<'list' | 'comprehensive'>('list');
@@ -96,9 +106,26 @@ const InvestorsPage: React.FC = () => {
     fetchInvestors();
   };
 
+  // A 409 listing duplicates opens the duplicate warning instead of a toast
+  const showDuplicateWarning = (error: unknown, confirm: () => Promise<void>) => {
+    if (typeof error !== 'object' || error === null) return false;
+    const { statusCode, details } = error as ApiError;
+    if (statusCode !== 409 || !Array.isArray(details?.duplicates)) return false;
+    setDuplicateWarning({ conflict: details as DuplicateConflict, confirm });
+    return true;
+  };
+
+  const handleConfirmDuplicate = async () => {
+    if (!duplicateWarning) return;
+    setConfirmingDuplicate(true);
+    await duplicateWarning.confirm();
+    setConfirmingDuplicate(false);
+  };
+
   const handleCreateInvestor = async (data: CreateInvestorData) => {
     try {
       const response = await investorsService.createInvestor(data);
+      setDuplicateWarning(null);
       
       if (response.data.userAccountCreated) {
         toast.success(
@@ -111,20 +138,23 @@ const InvestorsPage: React.FC = () => {
       setShowCreateModal(false);
       fetchInvestors();
     } catch (error: any) {
+      if (showDuplicateWarning(error, () => handleCreateInvestor({ ...data, confirmDuplicates: true }))) return;
       toast.error(error.response?.data?.message || 'Failed to create investor');
     }
   };
 
-  const handleEditInvestor = async (data: Partial<Investor>) => {
+  const handleEditInvestor = async (data: Partial<Investor> & { confirmDuplicates?: boolean }) => {
     if (!selectedInvestor) return;
     
     try {
-      await investorsService.updateInvestor(selectedInvestor._id, data);
-      toast.success('Investor updated successfully');
+      const response = await investorsService.updateInvestor(selectedInvestor._id, data);
+      setDuplicateWarning(null);
+      toast.success(response.message || 'Investor updated successfully');
       setShowEditModal(false);
       setSelectedInvestor(null);
       fetchInvestors();
     } catch (error: any) {
+      if (showDuplicateWarning(error, () => handleEditInvestor({ ...data, confirmDuplicates: true }))) return;
       toast.error(error.response?.data?.message || 'Failed to update investor');
     }
   };
@@ -195,7 +225,8 @@ const InvestorsPage: React.FC = () => {
     const classes = {
       active: 'bg-green-100 text-green-800',
       inactive: 'bg-gray-100 text-gray-800',
-      blocked: 'bg-red-100 text-red-800'
+      blocked: 'bg-red-100 text-red-800',
+      merged: 'bg-purple-100 text-purple-800'
     };
     
     return (
@@ -285,6 +316,10 @@ const InvestorsPage: React.FC = () => {
           <p className="text-gray-600">Manage investor profiles, KYC information, and user accounts</p>
         </div>
         <div className="flex space-x-3">
+          <Button variant="outline" onClick={() => navigate('/investors/duplicates')}>
+            <Copy className="h-4 w-4 mr-2" />
+            Possible Duplicates
+          </Button>
           <Button variant="outline" onClick={handleBulkCreateAccounts}>
             <UserPlus className="h-4 w-4 mr-2" />
             Bulk Create Accounts
@@ -326,6 +361,7 @@ const InvestorsPage: React.FC = () => {
               <option value="active">Active</option>
               <option value="inactive">Inactive</option>
               <option value="blocked">Blocked</option>
+              <option value="merged">Merged</option>
             </select>
             <select
               value={userAccountFilter}
@@ -462,17 +498,19 @@ const InvestorsPage: React.FC = () => {
                             </button>
                           )}
 
-                          {/* Standard Actions */}
-                          <button
-                            onClick={() => {
-                              setSelectedInvestor(investor);
-                              setShowEditModal(true);
-                            }}
-                            className="p-2 text-purple-600 hover:text-purple-900 hover:bg-purple-50 rounded transition-colors"
-                            title="Edit Investor"
-                          >
-                            <Edit className="h-4 w-4" />
-                          </button>
+                          {/* Standard Actions (merged records are kept read-only) */}
+                          {investor.status !== 'merged' && (
+                            <button
+                              onClick={() => {
+                                setSelectedInvestor(investor);
+                                setShowEditModal(true);
+                              }}
+                              className="p-2 text-purple-600 hover:text-purple-900 hover:bg-purple-50 rounded transition-colors"
+                              title="Edit Investor"
+                            >
+                              <Edit className="h-4 w-4" />
+                            </button>
+                          )}
                           <button
                             onClick={() => handleDeleteInvestor(investor)}
                             className="p-2 text-red-600 hover:text-red-900 hover:bg-red-50 rounded transition-colors"
@@ -555,6 +593,23 @@ const InvestorsPage: React.FC = () => {
         )}
       </Modal>
 
+      {/* Duplicate Warning Modal */}
+      <Modal
+        isOpen={!!duplicateWarning}
+        onClose={() => setDuplicateWarning(null)}
+        title="Possible Duplicate Investor"
+        size="lg"
+      >
+        {duplicateWarning && (
+          <DuplicateWarning
+            conflict={duplicateWarning.conflict}
+            onConfirm={handleConfirmDuplicate}
+            onCancel={() => setDuplicateWarning(null)}
+            loading={confirmingDuplicate}
+          />
+        )}
+      </Modal>
+
       {/* User Account Management Modal */}
       <Modal
         isOpen={userAccountModal.show}
@@ -0,0 +1,185 @@
+// src/pages/investors/KycReviewPage.tsx - Reviewer queue for KYC submissions and re-KYC
+import React, { useEffect, useState } from 'react';
+import { Search, ShieldCheck } from 'lucide-react';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+import LoadingSpinner from '../../components/common/LoadingSpinner';
+import KycReviewPanel from '../../components/investors/KycReviewPanel';
+import KycStatusBadge from '../../components/investors/KycStatusBadge';
+import { kycService } from '../../services/kyc';
+import { KycQueueItem, KycQueueStage } from '../../types';
+import { errorMessage } from '../../utils/errors';
+
+const STAGES: Array<{ id: KycQueueStage; label: string }> = [
+  { id: 'review', label: 'Awaiting Review' },
+  { id: 'documents', label: 'Awaiting Documents' },
+  { id: 'rejected', label: 'Rejected' },
+  { id: 'expiring', label: 'Re-KYC in 30 Days' },
+  { id: 'expired', label: 'Expired' },
+  { id: 'verified', label: 'Verified' }
+];
+
+const formatDate = (date: string) => {
+  return new Date(date).toLocaleDateString('en-IN');
+};
+
+// Date that matters for the investor's place in each stage
+const stageDate = (item: KycQueueItem, stage: KycQueueStage) => {
+  if (stage === 'review' && item.submittedAt) return `Submitted ${formatDate(item.submittedAt)}`;
+  if ((stage === 'expiring' || stage === 'expired' || stage === 'verified') && item.expiresAt) {
+    return `Re-KYC ${formatDate(item.expiresAt)}`;
+  }
+  return `${item.documentsUploaded}/${item.documentsRequired} documents`;
+};
+
+const KycReviewPage: React.FC = () => {
+  const [stage, setStage] = useState<KycQueueStage>('review');
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [page, setPage] = useState(1);
+  const [queue, setQueue] = useState<KycQueueItem[]>([]);
+  const [pages, setPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Bumped after a decision so the queue reloads
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    const fetchQueue = async () => {
+      try {
+        setLoading(true);
+        const response = await kycService.getQueue({ stage, search: query || undefined, page, limit: 20 });
+        setQueue(response.data || []);
+        setPages(response.pagination?.pages || 1);
+        setTotal(response.pagination?.total || 0);
+      } catch (error: unknown) {
+        toast.error(errorMessage(error, 'Failed to load KYC queue'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchQueue();
+  }, [stage, query, page, refreshKey]);
+
+  const handleStageChange = (next: KycQueueStage) => {
+    setStage(next);
+    setPage(1);
+    setSelectedId(null);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setQuery(search.trim());
+    setPage(1);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <h1 className="text-2xl font-bold text-gray-900">KYC Review</h1>
+        <p className="text-gray-600">Check submitted documents, approve or reject with a reason, and follow up on re-KYC</p>
+      </motion.div>
+
+      {/* Stages */}
+      <div className="flex flex-wrap gap-2">
+        {STAGES.map(item => (
+          <button
+            key={item.id}
+            onClick={() => handleStageChange(item.id)}
+            className={`px-4 py-2 text-sm font-medium rounded-lg border ${
+              stage === item.id
+                ? 'bg-blue-600 text-white border-blue-600'
+                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Queue */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <form onSubmit={handleSearch} className="p-3 border-b border-gray-200">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search name, email or ID"
+                className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </form>
+
+          {loading ? (
+            <div className="flex justify-center items-center h-40">
+              <LoadingSpinner />
+            </div>
+          ) : queue.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">No investors at this stage</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {queue.map(item => (
+                <li key={item._id}>
+                  <button
+                    onClick={() => setSelectedId(item._id)}
+                    className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${selectedId === item._id ? 'bg-blue-50' : ''}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-gray-900">{item.name}</span>
+                      <KycStatusBadge kyc={item} />
+                    </div>
+                    <div className="flex justify-between text-xs text-gray-500 mt-1">
+                      <span>{item.investorId} · cycle {item.cycle}</span>
+                      <span>{stageDate(item, stage)}</span>
+                    </div>
+                    {stage === 'rejected' && item.rejectionReason && (
+                      <p className="text-xs text-red-600 mt-1 truncate">{item.rejectionReason}</p>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {pages > 1 && (
+            <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200 text-sm text-gray-600">
+              <button disabled={page <= 1} onClick={() => setPage(page - 1)} className="disabled:opacity-50">
+                Previous
+              </button>
+              <span>Page {page} of {pages} · {total} investors</span>
+              <button disabled={page >= pages} onClick={() => setPage(page + 1)} className="disabled:opacity-50">
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Review */}
+        <div className="lg:col-span-2 bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          {selectedId ? (
+            <KycReviewPanel
+              key={selectedId}
+              investorId={selectedId}
+              onDecided={() => setRefreshKey(key => key + 1)}
+            />
+          ) : (
+            <div className="text-center py-16">
+              <ShieldCheck className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+              <p className="text-gray-500">Select an investor to review their documents</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KycReviewPage;
@@ -0,0 +1,223 @@
+// src/pages/payments/ImportStatementForm.tsx - Upload a bank statement with its CSV column mapping
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import Button from '../../components/common/Button';
+import { StatementColumnMapping, StatementDateFormat, StatementFormat } from '../../types';
+
+interface ImportStatementFormProps {
+  onSubmit: (data: ImportStatementFormData) => Promise<void>;
+  onCancel: () => void;
+}
+
+export interface ImportStatementFormData {
+  file: File;
+  format?: StatementFormat;
+  mapping?: StatementColumnMapping;
+  dateWindowDays: number;
+}
+
+interface FormValues {
+  files: FileList;
+  format: StatementFormat | '';
+  dateWindowDays: number;
+  amountMode: 'single' | 'split';
+  date: string;
+  amount: string;
+  direction: string;
+  debit: string;
+  credit: string;
+  description: string;
+  reference: string;
+  dateFormat: StatementDateFormat;
+  hasHeader: boolean;
+}
+
+const DATE_FORMATS: StatementDateFormat[] = ['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD', 'DD-MMM-YYYY'];
+
+const inputClass = 'mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500';
+
+const ImportStatementForm: React.FC<ImportStatementFormProps> = ({ onSubmit, onCancel }) => {
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors, isSubmitting }
+  } = useForm<FormValues>({
+    defaultValues: {
+      format: '',
+      dateWindowDays: 5,
+      amountMode: 'single',
+      date: 'Date',
+      amount: 'Amount',
+      direction: '',
+      debit: 'Debit',
+      credit: 'Credit',
+      description: 'Description',
+      reference: 'Reference',
+      dateFormat: 'DD/MM/YYYY',
+      hasHeader: true
+    }
+  });
+
+  const watchFiles = watch('files');
+  const watchFormat = watch('format');
+  const watchAmountMode = watch('amountMode');
+
+  const fileName = watchFiles && watchFiles.length > 0 ? watchFiles[0].name.toLowerCase() : '';
+  const isCsv = watchFormat === 'csv' || (watchFormat === '' && /\.(csv|txt)$/.test(fileName));
+
+  const submit = async (values: FormValues) => {
+    const optional = (value: string) => value.trim() || undefined;
+
+    await onSubmit({
+      file: values.files[0],
+      format: values.format || undefined,
+      dateWindowDays: Number(values.dateWindowDays),
+      mapping: isCsv
+        ? {
+            date: values.date.trim(),
+            ...(values.amountMode === 'single'
+              ? { amount: optional(values.amount), direction: optional(values.direction) }
+              : { debit: optional(values.debit), credit: optional(values.credit) }),
+            description: optional(values.description),
+            reference: optional(values.reference),
+            dateFormat: values.dateFormat,
+            hasHeader: values.hasHeader
+          }
+        : undefined
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit(submit)} className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Statement File</label>
+        <input
+          type="file"
+          accept=".csv,.ofx,.qfx,.sta,.mt940,.txt"
+          {...register('files', { validate: files => (files && files.length > 0) || 'Choose a statement file' })}
+          className="mt-1 block w-full text-sm text-gray-700"
+        />
+        {errors.files && <p className="mt-1 text-sm text-red-600">{errors.files.message}</p>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Format</label>
+          <select {...register('format')} className={inputClass}>
+            <option value="">Detect automatically</option>
+            <option value="csv">CSV</option>
+            <option value="ofx">OFX / QFX</option>
+            <option value="mt940">MT940</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Date Window (days)</label>
+          <input
+            type="number"
+            {...register('dateWindowDays', {
+              required: 'Date window is required',
+              min: { value: 0, message: 'Cannot be negative' },
+              max: { value: 30, message: 'At most 30 days' }
+            })}
+            className={inputClass}
+          />
+          {errors.dateWindowDays && <p className="mt-1 text-sm text-red-600">{errors.dateWindowDays.message}</p>}
+        </div>
+      </div>
+
+      {isCsv && (
+        <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+          <div>
+            <h4 className="text-sm font-medium text-gray-900">Column Mapping</h4>
+            <p className="text-xs text-gray-500">Header names as they appear in the file, or column numbers starting at 1</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Date Column</label>
+              <input
+                {...register('date', { validate: value => !isCsv || !!value.trim() || 'Date column is required' })}
+                className={inputClass}
+              />
+              {errors.date && <p className="mt-1 text-sm text-red-600">{errors.date.message}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Date Format</label>
+              <select {...register('dateFormat')} className={inputClass}>
+                {DATE_FORMATS.map(format => (
+                  <option key={format} value={format}>{format}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Amounts</label>
+            <select {...register('amountMode')} className={inputClass}>
+              <option value="single">One signed amount column</option>
+              <option value="split">Separate debit and credit columns</option>
+            </select>
+          </div>
+
+          {watchAmountMode === 'single' ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Amount Column</label>
+                <input
+                  {...register('amount', {
+                    validate: value => !isCsv || watchAmountMode !== 'single' || !!value.trim() || 'Amount column is required'
+                  })}
+                  className={inputClass}
+                />
+                {errors.amount && <p className="mt-1 text-sm text-red-600">{errors.amount.message}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Dr/Cr Column (optional)</label>
+                <input {...register('direction')} className={inputClass} />
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Debit Column</label>
+                <input {...register('debit')} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Credit Column</label>
+                <input {...register('credit')} className={inputClass} />
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Description Column</label>
+              <input {...register('description')} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Reference Column</label>
+              <input {...register('reference')} className={inputClass} />
+            </div>
+          </div>
+
+          <label className="flex items-center text-sm text-gray-700">
+            <input type="checkbox" {...register('hasHeader')} className="rounded border-gray-300 mr-2" />
+            First row is a header
+          </label>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" loading={isSubmitting}>
+          Import Statement
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default ImportStatementForm;
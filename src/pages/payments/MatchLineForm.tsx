@@ -0,0 +1,187 @@
+// src/pages/payments/MatchLineForm.tsx - Manually match a bank statement line to a schedule row or payment
+import React, { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import toast from 'react-hot-toast';
+import Button from '../../components/common/Button';
+import { investmentsService } from '../../services/investments';
+import { paymentsService } from '../../services/payments';
+import { Investment, Payment, StatementLine, StatementLineUpdate } from '../../types';
+import { errorMessage } from '../../utils/errors';
+
+interface MatchLineFormProps {
+  line: StatementLine;
+  onSubmit: (update: StatementLineUpdate) => Promise<void>;
+  onCancel: () => void;
+}
+
+interface FormValues {
+  kind: 'schedule' | 'payment';
+  investment: string;
+  scheduleMonth: string;
+  payment: string;
+  note: string;
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 0,
+  }).format(amount);
+};
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString('en-IN');
+
+const inputClass = 'mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500';
+
+const MatchLineForm: React.FC<MatchLineFormProps> = ({ line, onSubmit, onCancel }) => {
+  const [investments, setInvestments] = useState<Investment[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [paymentSearch, setPaymentSearch] = useState(line.reference);
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors, isSubmitting }
+  } = useForm<FormValues>({
+    defaultValues: {
+      kind: 'schedule',
+      investment: '',
+      scheduleMonth: '',
+      payment: '',
+      note: line.note || ''
+    }
+  });
+
+  const watchKind = watch('kind');
+  const watchInvestment = watch('investment');
+  const selectedInvestment = investments.find(investment => investment._id === watchInvestment);
+  const openRows = selectedInvestment
+    ? selectedInvestment.schedule.filter(row => row.status !== 'paid')
+    : [];
+
+  useEffect(() => {
+    investmentsService.getInvestments({ status: 'active', limit: 100 })
+      .then(response => setInvestments(response.data || []))
+      .catch(() => toast.error('Failed to load investments'));
+  }, []);
+
+  const searchPayments = async () => {
+    try {
+      const response = await paymentsService.getPayments({ search: paymentSearch, status: 'completed', limit: 20 });
+      setPayments(response.data || []);
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to search payments'));
+    }
+  };
+
+  const submit = async (values: FormValues) => {
+    const note = values.note.trim() || undefined;
+    await onSubmit(values.kind === 'schedule'
+      ? { action: 'match', kind: 'schedule', investment: values.investment, scheduleMonth: Number(values.scheduleMonth), note }
+      : { action: 'match', kind: 'payment', payment: values.payment, note });
+  };
+
+  return (
+    <form onSubmit={handleSubmit(submit)} className="space-y-4">
+      <div className="bg-gray-50 rounded-lg p-3 text-sm text-gray-700">
+        <p className="font-medium">
+          Line {line.lineNo} · {formatDate(line.date)} · {line.direction === 'debit' ? 'Dr' : 'Cr'} {formatCurrency(line.amount)}
+        </p>
+        <p className="text-gray-500 truncate">{line.description || line.reference || 'No narrative'}</p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Match To</label>
+        <select {...register('kind')} className={inputClass}>
+          <option value="schedule">Scheduled due - records a new payment on confirmation</option>
+          <option value="payment">Recorded payment - links the line to it</option>
+        </select>
+      </div>
+
+      {watchKind === 'schedule' ? (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Investment</label>
+            <select
+              {...register('investment', { validate: value => watchKind !== 'schedule' || !!value || 'Select an investment' })}
+              className={inputClass}
+            >
+              <option value="">Select investment</option>
+              {investments.map(investment => (
+                <option key={investment._id} value={investment._id}>
+                  {investment.investmentId} - {investment.investor.name}
+                </option>
+              ))}
+            </select>
+            {errors.investment && <p className="mt-1 text-sm text-red-600">{errors.investment.message}</p>}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Schedule Month</label>
+            <select
+              {...register('scheduleMonth', { validate: value => watchKind !== 'schedule' || !!value || 'Select a month' })}
+              className={inputClass}
+              disabled={!selectedInvestment}
+            >
+              <option value="">Select month</option>
+              {openRows.map(row => (
+                <option key={row.month} value={row.month}>
+                  Month {row.month} · {formatDate(row.dueDate)} · {formatCurrency(row.totalAmount - row.paidAmount)}
+                </option>
+              ))}
+            </select>
+            {errors.scheduleMonth && <p className="mt-1 text-sm text-red-600">{errors.scheduleMonth.message}</p>}
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">Payment</label>
+          <div className="flex gap-2">
+            <input
+              value={paymentSearch}
+              onChange={(e) => setPaymentSearch(e.target.value)}
+              placeholder="Payment ID or reference number"
+              className="flex-1 border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <Button type="button" variant="outline" onClick={searchPayments}>
+              Search
+            </Button>
+          </div>
+          <select
+            {...register('payment', { validate: value => watchKind !== 'payment' || !!value || 'Select a payment' })}
+            className={inputClass}
+          >
+            <option value="">Select payment</option>
+            {payments.map(payment => (
+              <option key={payment._id} value={payment._id}>
+                {payment.paymentId} · {formatDate(payment.paymentDate)} · {formatCurrency(payment.amount)} · {payment.investor.name}
+              </option>
+            ))}
+          </select>
+          {errors.payment && <p className="mt-1 text-sm text-red-600">{errors.payment.message}</p>}
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Note (optional)</label>
+        <input
+          {...register('note', { maxLength: { value: 500, message: 'Note cannot exceed 500 characters' } })}
+          className={inputClass}
+        />
+        {errors.note && <p className="mt-1 text-sm text-red-600">{errors.note.message}</p>}
+      </div>
+
+      <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" loading={isSubmitting}>
+          Match Line
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default MatchLineForm;
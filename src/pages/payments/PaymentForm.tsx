@@ -5,7 +5,9 @@ import { Upload, X, FileText, AlertCircle, CheckCircle } from 'lucide-react';
 import Button from '../../components/common/Button';
 import LoadingSpinner from '../../components/common/LoadingSpinner';
 import { investmentsService } from '../../services/investments';
-import { Investment } from '../../types';
+import { paymentsService } from '../../services/payments';
+import { Investment, LateFeeSummary, AllocationPreview } from '../../types';
+import { errorMessage } from '../../utils/errors';
 import toast from 'react-hot-toast';
 
 interface PaymentFormProps {
@@ -15,6 +17,7 @@ interface PaymentFormProps {
 
 interface FormData {
   investment: string;
+  lumpSum: boolean;
   scheduleMonth: number;
   amount: number;
   paymentDate: string;
@@ -24,6 +27,8 @@ interface FormData {
   principalAmount: number;
   penaltyAmount: number;
   bonusAmount: number;
+  waivePenalty: boolean;
+  penaltyWaiverReason: string;
   notes: string;
   documentCategory: 'receipt' | 'bank_statement' | 'cheque_copy' | 'upi_screenshot' | 'other';
   documentDescription: string;
@@ -40,6 +45,9 @@ const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmit, onCancel }) => {
   const [investments, setInvestments] = useState<Investment[]>([]);
   const [selectedInvestment, setSelectedInvestment] = useState<Investment | null>(null);
   const [availableMonths, setAvailableMonths] = useState<any[]>([]);
+  const [lateFees, setLateFees] = useState<LateFeeSummary | null>(null);
+  const [allocationPreview, setAllocationPreview] = useState<AllocationPreview | null>(null);
+  const [allocationError, setAllocationError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [dragActive, setDragActive] = useState(false);
@@ -54,8 +62,10 @@ const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmit, onCancel }) => {
     defaultValues: {
       paymentDate: new Date().toISOString().split('T')[0],
       paymentMethod: 'bank_transfer',
+      lumpSum: false,
       penaltyAmount: 0,
       bonusAmount: 0,
+      waivePenalty: false,
       documentCategory: 'receipt'
     }
   });
@@ -64,15 +74,19 @@ const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmit, onCancel }) => {
   const watchScheduleMonth = watch('scheduleMonth');
   const watchAmount = watch('amount');
   const watchPaymentMethod = watch('paymentMethod');
+  const watchPaymentDate = watch('paymentDate');
+  const watchWaivePenalty = watch('waivePenalty');
+  const watchLumpSum = watch('lumpSum');
 
   useEffect(() => {
     const fetchInvestments = async () => {
       try {
-        const response = await investmentsService.getInvestments({ 
-          status: 'active',
-          limit: 100 
-        });
-        setInvestments(response.data || []);
+        // Defaulted investments still take the payments that are overdue on them
+        const [active, defaulted] = await Promise.all([
+          investmentsService.getInvestments({ status: 'active', limit: 100 }),
+          investmentsService.getInvestments({ status: 'defaulted', limit: 100 })
+        ]);
+        setInvestments([...(active.data || []), ...(defaulted.data || [])]);
       } catch (error: any) {
         toast.error('Failed to load investments');
       } finally {
@@ -94,6 +108,7 @@ const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmit, onCancel }) => {
           .filter(s => ['pending', 'overdue', 'partial'].includes(s.status) || s.paidAmount < s.totalAmount)
           .map(s => ({
             month: s.month,
+            period: s.period ?? s.month,
             status: s.status,
             totalAmount: s.totalAmount,
             paidAmount: s.paidAmount || 0,
@@ -117,20 +132,67 @@ const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmit, onCancel }) => {
     }
   }, [watchInvestment, investments, setValue]);
 
+  // Late fees depend on the payment date, so refresh them whenever it changes
+  useEffect(() => {
+    if (!watchInvestment || !watchPaymentDate) {
+      setLateFees(null);
+      return;
+    }
+
+    const fetchLateFees = async () => {
+      try {
+        const response = await investmentsService.getLateFees(watchInvestment, watchPaymentDate);
+        setLateFees(response.data || null);
+      } catch {
+        setLateFees(null);
+      }
+    };
+
+    fetchLateFees();
+  }, [watchInvestment, watchPaymentDate]);
+
+  // Lump sums are split by the investment's waterfall on the server; preview it as the amount is typed
+  useEffect(() => {
+    setAllocationPreview(null);
+    setAllocationError(null);
+    if (!watchLumpSum || !watchInvestment || !watchAmount || watchAmount <= 0) {
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await paymentsService.previewAllocation({
+          investment: watchInvestment,
+          amount: watchAmount,
+          paymentDate: watchPaymentDate
+        });
+        setAllocationPreview(response.data || null);
+      } catch (error: unknown) {
+        setAllocationError(errorMessage(error, 'Failed to calculate allocation'));
+      }
+    }, 400);
+
+    return () => clearTimeout(timer);
+  }, [watchLumpSum, watchInvestment, watchAmount, watchPaymentDate]);
+
   useEffect(() => {
-    if (selectedInvestment && watchScheduleMonth) {
+    if (selectedInvestment && watchScheduleMonth && !watchLumpSum) {
       const scheduleItem = availableMonths.find(s => s.month === watchScheduleMonth);
       if (scheduleItem) {
         const remainingAmount = scheduleItem.remainingAmount;
-        setValue('amount', remainingAmount);
+        const lateFee = watchWaivePenalty
+          ? 0
+          : lateFees?.rows.find(row => row.month === watchScheduleMonth)?.outstanding || 0;
+        setValue('amount', remainingAmount + lateFee);
         
         // Calculate suggested breakdown
         const remainingInterest = Math.max(0, scheduleItem.interestAmount - Math.min(scheduleItem.paidAmount, scheduleItem.interestAmount));
         setValue('interestAmount', Math.min(remainingAmount, remainingInterest));
         setValue('principalAmount', Math.max(0, remainingAmount - remainingInterest));
+        setValue('penaltyAmount', lateFee);
       }
     }
-  }, [selectedInvestment, watchScheduleMonth, setValue, availableMonths]);
+  }, [selectedInvestment, watchScheduleMonth, watchLumpSum, setValue, availableMonths, lateFees, watchWaivePenalty]);
 
   // Auto-suggest document category based on payment method
   useEffect(() => {
@@ -210,28 +272,44 @@ const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmit, onCancel }) => {
   };
 
   const handleFormSubmit = (data: FormData) => {
-    // Validate that breakdown matches total
-    const total = (data.interestAmount || 0) + (data.principalAmount || 0) + (data.penaltyAmount || 0) + (data.bonusAmount || 0);
-    if (Math.abs(data.amount - total) > 0.01) {
-      toast.error('Amount breakdown does not match total payment amount');
-      return;
+    if (data.lumpSum) {
+      if (!allocationPreview) {
+        toast.error(allocationError || 'Wait for the allocation to be calculated');
+        return;
+      }
+    } else {
+      // Validate that breakdown matches total
+      const total = (data.interestAmount || 0) + (data.principalAmount || 0) + (data.penaltyAmount || 0) + (data.bonusAmount || 0);
+      if (Math.abs(data.amount - total) > 0.01) {
+        toast.error('Amount breakdown does not match total payment amount');
+        return;
+      }
     }
 
     // Prepare form data with files
     const formData = new FormData();
     
     // Add basic payment data - ensure numbers are properly formatted
+    // A lump sum carries no schedule month or breakdown; the server allocates it
     formData.append('investment', data.investment);
-    formData.append('scheduleMonth', data.scheduleMonth.toString());
+    if (!data.lumpSum) {
+      formData.append('scheduleMonth', data.scheduleMonth.toString());
+    }
     formData.append('amount', data.amount.toString());
     formData.append('paymentDate', data.paymentDate);
     formData.append('paymentMethod', data.paymentMethod);
     formData.append('referenceNumber', data.referenceNumber || '');
     formData.append('type', 'mixed');
-    formData.append('interestAmount', (data.interestAmount || 0).toString());
-    formData.append('principalAmount', (data.principalAmount || 0).toString());
-    formData.append('penaltyAmount', (data.penaltyAmount || 0).toString());
-    formData.append('bonusAmount', (data.bonusAmount || 0).toString());
+    if (!data.lumpSum) {
+      formData.append('interestAmount', (data.interestAmount || 0).toString());
+      formData.append('principalAmount', (data.principalAmount || 0).toString());
+      formData.append('penaltyAmount', (data.penaltyAmount || 0).toString());
+      formData.append('bonusAmount', (data.bonusAmount || 0).toString());
+    }
+    if (data.waivePenalty && !data.lumpSum) {
+      formData.append('waivePenalty', 'true');
+      formData.append('penaltyWaiverReason', data.penaltyWaiverReason);
+    }
     formData.append('notes', data.notes || '');
 
     // Add files
@@ -257,10 +335,15 @@ const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmit, onCancel }) => {
   };
 
   const getScheduleDetails = () => {
-    if (!watchScheduleMonth) return null;
+    if (!watchScheduleMonth || watchLumpSum) return null;
     return availableMonths.find(s => s.month === watchScheduleMonth);
   };
 
+  const getLateFeeDetails = () => {
+    if (!watchScheduleMonth || !lateFees) return null;
+    return lateFees.rows.find(row => row.month === watchScheduleMonth) || null;
+  };
+
   const getRequiredDocuments = () => {
     const method = watchPaymentMethod;
     const required = ['receipt'];
@@ -283,6 +366,7 @@ const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmit, onCancel }) => {
   };
 
   const scheduleDetails = getScheduleDetails();
+  const lateFeeDetails = getLateFeeDetails();
   const { required: requiredDocs, optional: optionalDocs } = getRequiredDocuments();
 
   if (loading) {
@@ -319,16 +403,16 @@ const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmit, onCancel }) => {
             <label className="block text-sm font-medium text-gray-700">Schedule Month</label>
             <select
               {...register('scheduleMonth', { 
-                required: 'Please select a schedule month',
+                validate: value => watchLumpSum || !!value || 'Please select a schedule month',
                 valueAsNumber: true 
               })}
               className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
-              disabled={!selectedInvestment || availableMonths.length === 0}
+              disabled={!selectedInvestment || availableMonths.length === 0 || watchLumpSum}
             >
               <option value="">Select Month</option>
               {availableMonths.map((scheduleItem) => (
                 <option key={scheduleItem.month} value={scheduleItem.month}>
-                  Month {scheduleItem.month} - {formatCurrency(scheduleItem.remainingAmount)} remaining
+                  Payout #{scheduleItem.period} (Month {scheduleItem.month}) - {formatCurrency(scheduleItem.remainingAmount)} remaining
                 </option>
               ))}
             </select>
@@ -336,6 +420,14 @@ const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmit, onCancel }) => {
             {selectedInvestment && availableMonths.length === 0 && (
               <p className="mt-1 text-sm text-yellow-600">No pending payments found for this investment</p>
             )}
+            <label className="mt-2 flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                {...register('lumpSum')}
+                type="checkbox"
+                className="rounded border-gray-300"
+              />
+              <span>Lump sum - allocate across outstanding months</span>
+            </label>
           </div>
 
           <div>
@@ -378,7 +470,7 @@ const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmit, onCancel }) => {
       {/* Schedule Information */}
       {scheduleDetails && (
         <div className="bg-blue-50 p-4 rounded-lg">
-          <h4 className="text-md font-medium text-blue-900 mb-3">Schedule Details - Month {scheduleDetails.month}</h4>
+          <h4 className="text-md font-medium text-blue-900 mb-3">Schedule Details - Payout #{scheduleDetails.period} (Month {scheduleDetails.month})</h4>
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
             <div>
               <span className="text-blue-700">Due Date:</span>
@@ -397,9 +489,58 @@ const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmit, onCancel }) => {
               <div className="font-medium">{formatCurrency(scheduleDetails.remainingAmount)}</div>
             </div>
           </div>
+          {lateFeeDetails && lateFeeDetails.accrued > 0 && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mt-3 pt-3 border-t border-blue-100">
+              <div>
+                <span className="text-blue-700">Days Late:</span>
+                <div className="font-medium">{lateFeeDetails.daysLate}</div>
+              </div>
+              <div>
+                <span className="text-blue-700">Late Fee Accrued:</span>
+                <div className="font-medium text-red-600">{formatCurrency(lateFeeDetails.accrued)}</div>
+              </div>
+              <div>
+                <span className="text-blue-700">Late Fee Settled:</span>
+                <div className="font-medium">{formatCurrency(lateFeeDetails.paid + lateFeeDetails.waived)}</div>
+              </div>
+              <div>
+                <span className="text-blue-700">Due incl. Late Fee:</span>
+                <div className="font-medium">{formatCurrency(scheduleDetails.remainingAmount + lateFeeDetails.outstanding)}</div>
+              </div>
+            </div>
+          )}
           <div className="mt-2 text-xs text-blue-600">
             Status: <span className="font-medium capitalize">{scheduleDetails.status}</span>
+            {lateFees && lateFeeDetails && lateFeeDetails.accrued === 0 && lateFeeDetails.daysLate > 0 && (
+              <span> · Within the {lateFees.policy.gracePeriodDays}-day grace period</span>
+            )}
           </div>
+          {lateFeeDetails && lateFeeDetails.outstanding > 0 && (
+            <div className="mt-3 space-y-2">
+              <label className="flex items-center space-x-2 text-sm text-blue-900">
+                <input
+                  {...register('waivePenalty')}
+                  type="checkbox"
+                  className="rounded border-gray-300"
+                />
+                <span>Waive late fee of {formatCurrency(lateFeeDetails.outstanding)}</span>
+              </label>
+              {watchWaivePenalty && (
+                <div>
+                  <textarea
+                    {...register('penaltyWaiverReason', {
+                      validate: value => !watchWaivePenalty || !!value?.trim() || 'A reason is required to waive the late fee'
+                    })}
+                    rows={2}
+                    maxLength={500}
+                    className="block w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="Reason for waiving the late fee"
+                  />
+                  {errors.penaltyWaiverReason && <p className="mt-1 text-sm text-red-600">{errors.penaltyWaiverReason.message}</p>}
+                </div>
+              )}
+            </div>
+          )}
         </div>
       )}
 
@@ -423,65 +564,69 @@ const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmit, onCancel }) => {
             {errors.amount && <p className="mt-1 text-sm text-red-600">{errors.amount.message}</p>}
           </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Interest Amount (₹)</label>
-            <input
-              {...register('interestAmount', {
-                min: { value: 0, message: 'Interest amount cannot be negative' },
-                valueAsNumber: true
-              })}
-              type="number"
-              step="0.01"
-              className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
-              placeholder="Interest portion"
-            />
-            {errors.interestAmount && <p className="mt-1 text-sm text-red-600">{errors.interestAmount.message}</p>}
-          </div>
+          {!watchLumpSum && (
+            <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Interest Amount (₹)</label>
+              <input
+                {...register('interestAmount', {
+                  min: { value: 0, message: 'Interest amount cannot be negative' },
+                  valueAsNumber: true
+                })}
+                type="number"
+                step="0.01"
+                className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Interest portion"
+              />
+              {errors.interestAmount && <p className="mt-1 text-sm text-red-600">{errors.interestAmount.message}</p>}
+            </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Principal Amount (₹)</label>
-            <input
-              {...register('principalAmount', {
-                min: { value: 0, message: 'Principal amount cannot be negative' },
-                valueAsNumber: true
-              })}
-              type="number"
-              step="0.01"
-              className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
-              placeholder="Principal portion"
-            />
-            {errors.principalAmount && <p className="mt-1 text-sm text-red-600">{errors.principalAmount.message}</p>}
-          </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Principal Amount (₹)</label>
+              <input
+                {...register('principalAmount', {
+                  min: { value: 0, message: 'Principal amount cannot be negative' },
+                  valueAsNumber: true
+                })}
+                type="number"
+                step="0.01"
+                className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Principal portion"
+              />
+              {errors.principalAmount && <p className="mt-1 text-sm text-red-600">{errors.principalAmount.message}</p>}
+            </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Penalty Amount (₹)</label>
-            <input
-              {...register('penaltyAmount', {
-                min: { value: 0, message: 'Penalty amount cannot be negative' },
-                valueAsNumber: true
-              })}
-              type="number"
-              step="0.01"
-              className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
-              placeholder="Penalty (if any)"
-            />
-            {errors.penaltyAmount && <p className="mt-1 text-sm text-red-600">{errors.penaltyAmount.message}</p>}
-          </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Penalty Amount (₹)</label>
+              <input
+                {...register('penaltyAmount', {
+                  min: { value: 0, message: 'Penalty amount cannot be negative' },
+                  valueAsNumber: true
+                })}
+                type="number"
+                step="0.01"
+                className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Penalty (if any)"
+              />
+              {errors.penaltyAmount && <p className="mt-1 text-sm text-red-600">{errors.penaltyAmount.message}</p>}
+            </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Bonus Amount (₹)</label>
-            <input
-              {...register('bonusAmount', {
-                min: { value: 0, message: 'Bonus amount cannot be negative' },
-                valueAsNumber: true
-              })}
-              type="number"
-              step="0.01"
-              className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
-              placeholder="Bonus (if any)"
-            />
-            {errors.bonusAmount && <p className="mt-1 text-sm text-red-600">{errors.bonusAmount.message}</p>}
-          </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Bonus Amount (₹)</label>
+              <input
+                {...register('bonusAmount', {
+                  min: { value: 0, message: 'Bonus amount cannot be negative' },
+                  valueAsNumber: true
+                })}
+                type="number"
+                step="0.01"
+                className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Bonus (if any)"
+              />
+              {errors.bonusAmount && <p className="mt-1 text-sm text-red-600">{errors.bonusAmount.message}</p>}
+            </div>
+            </>
+          )}
 
           <div className="md:col-span-2">
             <label className="block text-sm font-medium text-gray-700">Notes</label>
@@ -495,6 +640,50 @@ const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmit, onCancel }) => {
         </div>
       </div>
 
+      {/* Lump-sum allocation preview */}
+      {watchLumpSum && (allocationPreview || allocationError) && (
+        <div className="bg-blue-50 p-4 rounded-lg">
+          <h4 className="text-md font-medium text-blue-900 mb-3">Allocation</h4>
+          {allocationError ? (
+            <p className="text-sm text-red-600">{allocationError}</p>
+          ) : allocationPreview && (
+            <>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-blue-700">
+                    <th className="py-1 pr-4 font-medium">Payout</th>
+                    <th className="py-1 pr-4 font-medium">Due Date</th>
+                    <th className="py-1 pr-4 font-medium text-right">Late Fee</th>
+                    <th className="py-1 pr-4 font-medium text-right">Interest</th>
+                    <th className="py-1 pr-4 font-medium text-right">Principal</th>
+                    <th className="py-1 font-medium text-right">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {allocationPreview.allocations.map((allocation) => (
+                    <tr key={allocation.scheduleMonth} className="border-t border-blue-100">
+                      <td className="py-1 pr-4">#{allocation.period ?? allocation.scheduleMonth} (Month {allocation.scheduleMonth})</td>
+                      <td className="py-1 pr-4">{allocation.dueDate ? new Date(allocation.dueDate).toLocaleDateString() : '-'}</td>
+                      <td className="py-1 pr-4 text-right">{formatCurrency(allocation.penaltyAmount)}</td>
+                      <td className="py-1 pr-4 text-right">{formatCurrency(allocation.interestAmount)}</td>
+                      <td className="py-1 pr-4 text-right">{formatCurrency(allocation.principalAmount)}</td>
+                      <td className="py-1 text-right font-medium">{formatCurrency(allocation.amount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="mt-2 text-xs text-blue-600">
+                Order: <span className="font-medium capitalize">{allocationPreview.waterfall.order.join(' → ')}</span>
+                {' · '}
+                {allocationPreview.waterfall.strategy === 'row_by_row' ? 'oldest payout settled in full first' : 'each component settled across payouts first'}
+                {' · '}
+                Total outstanding: {formatCurrency(allocationPreview.totalOutstanding)}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
       {/* Document Upload Section */}
       <div>
         <h3 className="text-lg font-medium text-gray-900 mb-4">Payment Documents</h3>
@@ -1,5 +1,6 @@
-import React, { useState, useEffect } from 'react';
-import { Plus, Search, Eye, Upload, Download } from 'lucide-react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Plus, Search, Eye, Download, RotateCcw, CheckCircle, XCircle, Landmark, Send, FileText, Mail } from 'lucide-react';
 import { motion } from 'framer-motion';
 import Button from '../../components/common/Button';
 import Modal from '../../components/common/Modal';
@@ -9,6 +10,8 @@ import { Payment } from '../../types';
 import { useAuth } from '../../contexts/AuthContext';
 import toast from 'react-hot-toast';
 import PaymentForm from './PaymentForm';
+import ReversePaymentForm, { ReversePaymentFormData } from './ReversePaymentForm';
+import { errorMessage } from '../../utils/errors';
 
 const PaymentsPage: React.FC = () => {
   const { user } = useAuth();
@@ -19,20 +22,31 @@ const PaymentsPage: React.FC = () => {
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [reversingPayment, setReversingPayment] = useState<Payment | null>(null);
+  const [showVerificationQueue, setShowVerificationQueue] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [showRejectModal, setShowRejectModal] = useState(false);
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [deciding, setDeciding] = useState(false);
+  const [emailingId, setEmailingId] = useState<string | null>(null);
 
   const canManage = user?.role === 'admin' || user?.role === 'finance_manager';
+  const canReverse = user?.role === 'admin';
 
-  const fetchPayments = async () => {
+  const fetchPayments = useCallback(async () => {
     try {
       setLoading(true);
       const response = await paymentsService.getPayments({
         page: currentPage,
         limit: 10,
         search: searchTerm,
-        status: statusFilter
+        ...(showVerificationQueue
+          ? { status: 'pending', awaitingVerification: true }
+          : { status: statusFilter })
       });
       
       setPayments(response.data || []);
+      setSelectedIds([]);
       if (response.pagination) {
         setTotalPages(response.pagination.pages);
       }
@@ -41,16 +55,16 @@ const PaymentsPage: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [currentPage, searchTerm, statusFilter, showVerificationQueue]);
 
   useEffect(() => {
     fetchPayments();
-  }, [currentPage, searchTerm, statusFilter]);
+  }, [fetchPayments]);
 
   const handleCreatePayment = async (data: any) => {
     try {
-      await paymentsService.createPayment(data);
-      toast.success('Payment recorded successfully');
+      const response = await paymentsService.createPayment(data);
+      toast.success(response.message || 'Payment recorded successfully');
       setShowCreateModal(false);
       fetchPayments();
     } catch (error: any) {
@@ -58,12 +72,86 @@ const PaymentsPage: React.FC = () => {
     }
   };
 
+  const handleReversePayment = async (data: ReversePaymentFormData) => {
+    if (!reversingPayment) return;
+    try {
+      await paymentsService.reversePayment(reversingPayment._id, {
+        reason: data.reason,
+        kind: data.kind,
+        referenceNumber: data.referenceNumber || undefined
+      });
+      toast.success('Payment reversed successfully');
+      setReversingPayment(null);
+      fetchPayments();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to reverse payment'));
+    }
+  };
+
+  // Receipts are issued once a payment is settled; reversal entries get a voucher
+  const hasReceipt = (payment: Payment) =>
+    ['completed', 'reversed'].includes(payment.status) && !payment.awaitingVerification;
+
+  const handleDownloadReceipt = async (payment: Payment) => {
+    try {
+      await paymentsService.downloadReceipt(payment);
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to download receipt'));
+    }
+  };
+
+  const handleEmailReceipt = async (payment: Payment) => {
+    try {
+      setEmailingId(payment._id);
+      const response = await paymentsService.emailReceipt(payment._id);
+      toast.success(response.message || 'Receipt emailed');
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to email receipt'));
+    } finally {
+      setEmailingId(null);
+    }
+  };
+
+  // The user who recorded a payment cannot verify it
+  const canVerify = (payment: Payment) => payment.processedBy?._id !== user?._id;
+
+  const selectablePayments = payments.filter(canVerify);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]);
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(selectedIds.length === selectablePayments.length ? [] : selectablePayments.map(payment => payment._id));
+  };
+
+  const handleBulkDecision = async (decision: 'approve' | 'reject', notes?: string) => {
+    try {
+      setDeciding(true);
+      const response = await paymentsService.bulkVerifyPayments(selectedIds, { decision, notes });
+      const failed = response.data?.failed || [];
+      if (failed.length > 0) {
+        toast.error(`${response.message}: ${failed[0].message}`);
+      } else {
+        toast.success(response.message || 'Payments updated');
+      }
+      setShowRejectModal(false);
+      setRejectionReason('');
+      fetchPayments();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to update payments'));
+    } finally {
+      setDeciding(false);
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     const classes = {
       completed: 'bg-green-100 text-green-800',
       pending: 'bg-yellow-100 text-yellow-800',
       failed: 'bg-red-100 text-red-800',
-      cancelled: 'bg-gray-100 text-gray-800'
+      cancelled: 'bg-gray-100 text-gray-800',
+      reversed: 'bg-red-50 text-red-700'
     };
     
     return (
@@ -123,6 +211,24 @@ const PaymentsPage: React.FC = () => {
                 <Download className="h-4 w-4 mr-2" />
                 Export
               </Button>
+              <Link to="/payments/reconciliation">
+                <Button variant="outline">
+                  <Landmark className="h-4 w-4 mr-2" />
+                  Reconcile
+                </Button>
+              </Link>
+              <Link to="/payments/payout-run">
+                <Button variant="outline">
+                  <Send className="h-4 w-4 mr-2" />
+                  Payout Run
+                </Button>
+              </Link>
+              <Link to="/payments/payout-files">
+                <Button variant="outline">
+                  <FileText className="h-4 w-4 mr-2" />
+                  Bank File
+                </Button>
+              </Link>
               <Button onClick={() => setShowCreateModal(true)}>
                 <Plus className="h-4 w-4 mr-2" />
                 Record Payment
@@ -153,9 +259,21 @@ const PaymentsPage: React.FC = () => {
             </div>
           </div>
           <div className="flex gap-2">
+            {canManage && (
+              <Button
+                variant={showVerificationQueue ? 'primary' : 'outline'}
+                onClick={() => {
+                  setShowVerificationQueue(!showVerificationQueue);
+                  setCurrentPage(1);
+                }}
+              >
+                Awaiting Verification
+              </Button>
+            )}
             <select
               value={statusFilter}
               onChange={(e) => setStatusFilter(e.target.value)}
+              disabled={showVerificationQueue}
               className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
             >
               <option value="">All Status</option>
@@ -163,6 +281,7 @@ const PaymentsPage: React.FC = () => {
               <option value="pending">Pending</option>
               <option value="failed">Failed</option>
               <option value="cancelled">Cancelled</option>
+              <option value="reversed">Reversed</option>
             </select>
           </div>
         </div>
@@ -181,10 +300,50 @@ const PaymentsPage: React.FC = () => {
           </div>
         ) : (
           <>
+            {showVerificationQueue && (
+              <div className="flex justify-between items-center px-6 py-3 border-b border-gray-200 bg-yellow-50">
+                <div className="text-sm text-yellow-800">
+                  {payments.length === 0
+                    ? 'No payments are awaiting verification'
+                    : `${selectedIds.length} of ${payments.length} selected · payments you recorded must be verified by someone else`}
+                </div>
+                <div className="flex space-x-2">
+                  <Button
+                    size="sm"
+                    onClick={() => handleBulkDecision('approve')}
+                    disabled={selectedIds.length === 0 || deciding}
+                    loading={deciding && !showRejectModal}
+                  >
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="danger"
+                    onClick={() => setShowRejectModal(true)}
+                    disabled={selectedIds.length === 0 || deciding}
+                  >
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            )}
             <div className="overflow-x-auto">
               <table className="min-w-full divide-y divide-gray-200">
                 <thead className="bg-gray-50">
                   <tr>
+                    {showVerificationQueue && (
+                      <th className="px-6 py-3 text-left">
+                        <input
+                          type="checkbox"
+                          checked={selectablePayments.length > 0 && selectedIds.length === selectablePayments.length}
+                          onChange={toggleSelectAll}
+                          disabled={selectablePayments.length === 0}
+                          className="rounded border-gray-300"
+                        />
+                      </th>
+                    )}
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Payment Details
                     </th>
@@ -211,6 +370,18 @@ const PaymentsPage: React.FC = () => {
                 <tbody className="bg-white divide-y divide-gray-200">
                   {payments.map((payment) => (
                     <tr key={payment._id} className="hover:bg-gray-50">
+                      {showVerificationQueue && (
+                        <td className="px-6 py-4">
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.includes(payment._id)}
+                            onChange={() => toggleSelected(payment._id)}
+                            disabled={!canVerify(payment)}
+                            title={canVerify(payment) ? undefined : 'You recorded this payment'}
+                            className="rounded border-gray-300"
+                          />
+                        </td>
+                      )}
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div>
                           <div className="text-sm font-medium text-gray-900">
@@ -220,7 +391,9 @@ const PaymentsPage: React.FC = () => {
                             {formatDate(payment.paymentDate)}
                           </div>
                           <div className="text-xs text-gray-400">
-                            Month {payment.scheduleMonth}
+                            {payment.allocations && payment.allocations.length > 1
+                              ? `Months ${payment.allocations.map(allocation => allocation.scheduleMonth).join(', ')}`
+                              : `Month ${payment.scheduleMonth}`}
                           </div>
                         </div>
                       </td>
@@ -255,6 +428,11 @@ const PaymentsPage: React.FC = () => {
                           <div className="text-xs text-gray-500">
                             Principal: {formatCurrency(payment.principalAmount)}
                           </div>
+                          {!!payment.tdsAmount && (
+                            <div className="text-xs text-gray-500">
+                              TDS: {formatCurrency(payment.tdsAmount)} · Net: {formatCurrency(payment.amount - payment.tdsAmount)}
+                            </div>
+                          )}
                         </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
@@ -269,6 +447,19 @@ const PaymentsPage: React.FC = () => {
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         {getStatusBadge(payment.status)}
+                        {payment.reversal && (
+                          <div className="text-xs text-gray-500 mt-1 capitalize" title={payment.reversal.reason}>
+                            {payment.reversal.kind} · {formatDate(payment.reversal.reversedAt)}
+                          </div>
+                        )}
+                        {payment.reversalOf && (
+                          <div className="text-xs text-gray-500 mt-1">Compensating entry</div>
+                        )}
+                        {payment.awaitingVerification && (
+                          <div className="text-xs text-yellow-700 mt-1">
+                            Awaiting verification · by {payment.processedBy?.name}
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                         <div className="flex space-x-2">
@@ -278,14 +469,34 @@ const PaymentsPage: React.FC = () => {
                           >
                             <Eye className="h-4 w-4" />
                           </button>
-                          {payment.receipt && (
+                          {hasReceipt(payment) && (
                             <button
+                              onClick={() => handleDownloadReceipt(payment)}
                               className="text-green-600 hover:text-green-900"
-                              title="Download Receipt"
+                              title={payment.reversalOf ? 'Download voucher' : 'Download receipt'}
                             >
                               <Download className="h-4 w-4" />
                             </button>
                           )}
+                          {canManage && hasReceipt(payment) && (
+                            <button
+                              onClick={() => handleEmailReceipt(payment)}
+                              disabled={emailingId === payment._id}
+                              className="text-indigo-600 hover:text-indigo-900 disabled:opacity-50"
+                              title="Email receipt"
+                            >
+                              <Mail className="h-4 w-4" />
+                            </button>
+                          )}
+                          {canReverse && payment.status === 'completed' && !payment.reversalOf && (
+                            <button
+                              onClick={() => setReversingPayment(payment)}
+                              className="text-red-600 hover:text-red-900"
+                              title="Reverse"
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -340,6 +551,63 @@ const PaymentsPage: React.FC = () => {
           />
         </Modal>
       )}
+
+      {/* Reject Modal */}
+      {canManage && (
+        <Modal
+          isOpen={showRejectModal}
+          onClose={() => setShowRejectModal(false)}
+          title={`Reject ${selectedIds.length} Payment(s)`}
+          size="md"
+        >
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Rejected payments are cancelled and never applied to the schedule or investor totals.
+            </p>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Reason</label>
+              <textarea
+                value={rejectionReason}
+                onChange={(e) => setRejectionReason(e.target.value)}
+                rows={3}
+                maxLength={200}
+                className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Why are these payments being rejected?"
+              />
+            </div>
+            <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+              <Button type="button" variant="outline" onClick={() => setShowRejectModal(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                variant="danger"
+                onClick={() => handleBulkDecision('reject', rejectionReason.trim())}
+                disabled={!rejectionReason.trim()}
+                loading={deciding}
+              >
+                Reject
+              </Button>
+            </div>
+          </div>
+        </Modal>
+      )}
+
+      {/* Reverse Modal */}
+      {canReverse && reversingPayment && (
+        <Modal
+          isOpen={!!reversingPayment}
+          onClose={() => setReversingPayment(null)}
+          title="Reverse Payment"
+          size="md"
+        >
+          <ReversePaymentForm
+            payment={reversingPayment}
+            onSubmit={handleReversePayment}
+            onCancel={() => setReversingPayment(null)}
+          />
+        </Modal>
+      )}
     </div>
   );
 };
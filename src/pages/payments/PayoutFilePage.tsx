@@ -0,0 +1,373 @@
+// src/pages/payments/PayoutFilePage.tsx - Generate NEFT/RTGS bulk-payment files for the bank
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Search, FileText, Download, AlertTriangle } from 'lucide-react';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+import Button from '../../components/common/Button';
+import LoadingSpinner from '../../components/common/LoadingSpinner';
+import { payoutFilesService } from '../../services/payoutFiles';
+import { BankFileFormat, PayoutExport, PayoutFileRow, TransferMode } from '../../types';
+import { errorMessage } from '../../utils/errors';
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 0,
+  }).format(amount);
+};
+
+const formatDate = (date: string) => {
+  return new Date(date).toLocaleDateString('en-IN');
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const rowKey = (row: PayoutFileRow) => `${row.investment}:${row.scheduleMonth}`;
+
+const inputClass = 'mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500';
+
+const PayoutFilePage: React.FC = () => {
+  const [formats, setFormats] = useState<BankFileFormat[]>([]);
+  const [format, setFormat] = useState('generic_csv');
+  const [dueFrom, setDueFrom] = useState(today());
+  const [dueTo, setDueTo] = useState(today());
+  const [paymentDate, setPaymentDate] = useState(today());
+  const [transferMode, setTransferMode] = useState<'auto' | TransferMode>('auto');
+  const [debitAccount, setDebitAccount] = useState('');
+  const [rows, setRows] = useState<PayoutFileRow[] | null>(null);
+  const [excludedKeys, setExcludedKeys] = useState<string[]>([]);
+  const [loadingRows, setLoadingRows] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const [exports, setExports] = useState<PayoutExport[]>([]);
+  const [loadingExports, setLoadingExports] = useState(true);
+
+  const fetchExports = async () => {
+    try {
+      setLoadingExports(true);
+      const response = await payoutFilesService.getExports({ limit: 20 });
+      setExports(response.data || []);
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to fetch bank files'));
+    } finally {
+      setLoadingExports(false);
+    }
+  };
+
+  useEffect(() => {
+    payoutFilesService.getFormats()
+      .then(response => setFormats(response.data || []))
+      .catch(() => toast.error('Failed to load bank file formats'));
+    fetchExports();
+  }, []);
+
+  const loadRows = async () => {
+    try {
+      setLoadingRows(true);
+      const response = await payoutFilesService.previewRows({ dueFrom, dueTo, paymentDate, transferMode });
+      const loaded = response.data?.rows || [];
+      setRows(loaded);
+      // Rows the bank would reject start excluded
+      setExcludedKeys(loaded.filter(row => row.errors?.length).map(rowKey));
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to load due rows'));
+    } finally {
+      setLoadingRows(false);
+    }
+  };
+
+  const isValid = (row: PayoutFileRow) => !row.errors?.length;
+  const includedRows = (rows || []).filter(row => isValid(row) && !excludedKeys.includes(rowKey(row)));
+  const includedTotal = includedRows.reduce((sum, row) => sum + row.amount, 0);
+  const invalidCount = (rows || []).filter(row => !isValid(row)).length;
+
+  const toggleRow = (row: PayoutFileRow) => {
+    const key = rowKey(row);
+    setExcludedKeys(current => (current.includes(key) ? current.filter(item => item !== key) : [...current, key]));
+  };
+
+  const toggleAll = () => {
+    const validRows = (rows || []).filter(isValid);
+    setExcludedKeys(
+      includedRows.length === validRows.length
+        ? (rows || []).map(rowKey)
+        : (rows || []).filter(row => !isValid(row)).map(rowKey)
+    );
+  };
+
+  const generate = async () => {
+    if (includedRows.length === 0) return;
+
+    try {
+      setGenerating(true);
+      const response = await payoutFilesService.generateFile({
+        dueFrom,
+        dueTo,
+        paymentDate,
+        format,
+        transferMode,
+        debitAccount: debitAccount || undefined,
+        rows: includedRows.map(row => ({ investment: row.investment, scheduleMonth: row.scheduleMonth }))
+      });
+      toast.success(response.message || 'Bank file generated');
+      if (response.data) {
+        await payoutFilesService.downloadFile(response.data);
+      }
+      setRows(null);
+      setExcludedKeys([]);
+      fetchExports();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to generate bank file'));
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const download = async (payoutExport: PayoutExport) => {
+    try {
+      await payoutFilesService.downloadFile(payoutExport);
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to download bank file'));
+    }
+  };
+
+  const formatLabel = (key: string) => formats.find(item => item.key === key)?.label || key;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <Link to="/payments" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-1">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Payments
+        </Link>
+        <h1 className="text-2xl font-bold text-gray-900">Bank Payout File</h1>
+        <p className="text-gray-600">Generate a NEFT/RTGS bulk-payment upload for schedule rows falling due in a date range</p>
+      </motion.div>
+
+      {/* File parameters */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="bg-white p-4 rounded-lg shadow-sm border border-gray-200 space-y-4"
+      >
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Due From</label>
+            <input type="date" value={dueFrom} onChange={(e) => setDueFrom(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Due To</label>
+            <input type="date" value={dueTo} onChange={(e) => setDueTo(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Payment Date</label>
+            <input type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Bank Format</label>
+            <select value={format} onChange={(e) => setFormat(e.target.value)} className={inputClass}>
+              {formats.map(item => (
+                <option key={item.key} value={item.key}>{item.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Transfer Mode</label>
+            <select
+              value={transferMode}
+              onChange={(e) => setTransferMode(e.target.value as 'auto' | TransferMode)}
+              className={inputClass}
+            >
+              <option value="auto">Auto (RTGS from ₹2,00,000)</option>
+              <option value="NEFT">NEFT</option>
+              <option value="RTGS">RTGS</option>
+              <option value="IMPS">IMPS</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Debit Account</label>
+            <input
+              value={debitAccount}
+              onChange={(e) => setDebitAccount(e.target.value)}
+              placeholder="Company account to debit"
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={loadRows} loading={loadingRows} disabled={!dueFrom || !dueTo}>
+            <Search className="h-4 w-4 mr-2" />
+            Load Due Rows
+          </Button>
+        </div>
+      </motion.div>
+
+      {/* Due rows */}
+      {rows && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="flex justify-between items-center px-6 py-3 border-b border-gray-200">
+            <div className="text-sm text-gray-700">
+              {rows.length === 0
+                ? 'Nothing falls due in this range'
+                : `${includedRows.length} of ${rows.length} rows selected · ${formatCurrency(includedTotal)}`}
+              {invalidCount > 0 && (
+                <span className="ml-2 text-red-600">{invalidCount} with invalid bank details</span>
+              )}
+            </div>
+            <Button onClick={generate} loading={generating} disabled={generating || includedRows.length === 0}>
+              <FileText className="h-4 w-4 mr-2" />
+              Generate File
+            </Button>
+          </div>
+          {rows.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left">
+                      <input
+                        type="checkbox"
+                        checked={includedRows.length > 0 && includedRows.length === rows.length - invalidCount}
+                        onChange={toggleAll}
+                        className="rounded border-gray-300"
+                      />
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Due Date</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Investment</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Beneficiary</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Bank Account</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Mode</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {rows.map(row => (
+                    <tr
+                      key={rowKey(row)}
+                      className={`hover:bg-gray-50 ${!isValid(row) || excludedKeys.includes(rowKey(row)) ? 'opacity-60' : ''}`}
+                    >
+                      <td className="px-6 py-4">
+                        <input
+                          type="checkbox"
+                          checked={isValid(row) && !excludedKeys.includes(rowKey(row))}
+                          disabled={!isValid(row)}
+                          onChange={() => toggleRow(row)}
+                          className="rounded border-gray-300"
+                        />
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatDate(row.dueDate)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        <div>{row.investmentId}</div>
+                        <div className="text-xs text-gray-500">Month {row.scheduleMonth}</div>
+                        {row.previousExport && (
+                          <div className="text-xs text-yellow-700">Already in {row.previousExport}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        <div>{row.beneficiaryName}</div>
+                        <div className="text-xs text-gray-500">{row.investorId}</div>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        <div>{row.accountNumber || '-'}</div>
+                        <div className="text-xs text-gray-500">
+                          {row.ifscCode}
+                          {row.bankName && ` · ${row.bankName}`}
+                        </div>
+                        {row.errors?.map(message => (
+                          <div key={message} className="flex items-center text-xs text-red-600">
+                            <AlertTriangle className="h-3 w-3 mr-1 flex-shrink-0" />
+                            {message}
+                          </div>
+                        ))}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {row.transferMode}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {formatCurrency(row.amount)}
+                        {!!row.tdsAmount && (
+                          <div className="text-xs font-normal text-gray-500">after TDS {formatCurrency(row.tdsAmount)}</div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Past files */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="px-6 py-3 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Recent Bank Files</h3>
+        </div>
+        {loadingExports ? (
+          <div className="flex justify-center items-center h-32">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : exports.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500">No bank files generated yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">File</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Due Range</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payments</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {exports.map(payoutExport => (
+                  <tr key={payoutExport._id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      <div className="font-medium">{payoutExport.exportId}</div>
+                      <div className="text-xs text-gray-500">
+                        {formatLabel(payoutExport.format)} · Pay on {formatDate(payoutExport.paymentDate)}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatDate(payoutExport.dueFrom)} - {formatDate(payoutExport.dueTo)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      <div>{payoutExport.totals.count}</div>
+                      {payoutExport.excludedCount > 0 && (
+                        <div className="text-xs text-gray-500">{payoutExport.excludedCount} excluded</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {formatCurrency(payoutExport.totals.amount)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <button
+                        onClick={() => download(payoutExport)}
+                        className="text-blue-600 hover:text-blue-900"
+                        title="Download bank file"
+                      >
+                        <Download className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PayoutFilePage;
@@ -0,0 +1,422 @@
+// src/pages/payments/PayoutRunPage.tsx - Pay every due schedule row in a date range as one batch
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Search, Send, Download, RotateCcw } from 'lucide-react';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+import Button from '../../components/common/Button';
+import Modal from '../../components/common/Modal';
+import LoadingSpinner from '../../components/common/LoadingSpinner';
+import { paymentsService } from '../../services/payments';
+import { Payment, PayoutBatch, PayoutDueRow } from '../../types';
+import { errorMessage } from '../../utils/errors';
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 0,
+  }).format(amount);
+};
+
+const formatDate = (date: string) => {
+  return new Date(date).toLocaleDateString('en-IN');
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const rowKey = (row: PayoutDueRow) => `${row.investment}:${row.scheduleMonth}`;
+
+const inputClass = 'mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500';
+
+const PayoutRunPage: React.FC = () => {
+  const [dueFrom, setDueFrom] = useState(today());
+  const [dueTo, setDueTo] = useState(today());
+  const [paymentDate, setPaymentDate] = useState(today());
+  const [paymentMethod, setPaymentMethod] = useState<Payment['paymentMethod']>('bank_transfer');
+  const [referenceNumber, setReferenceNumber] = useState('');
+  const [notes, setNotes] = useState('');
+  const [dueRows, setDueRows] = useState<PayoutDueRow[] | null>(null);
+  const [excludedKeys, setExcludedKeys] = useState<string[]>([]);
+  const [loadingRows, setLoadingRows] = useState(false);
+  const [posting, setPosting] = useState(false);
+  const [batches, setBatches] = useState<PayoutBatch[]>([]);
+  const [loadingBatches, setLoadingBatches] = useState(true);
+  const [rollingBack, setRollingBack] = useState<PayoutBatch | null>(null);
+  const [rollbackReason, setRollbackReason] = useState('');
+  const [submittingRollback, setSubmittingRollback] = useState(false);
+
+  const fetchBatches = async () => {
+    try {
+      setLoadingBatches(true);
+      const response = await paymentsService.getPayoutBatches({ limit: 20 });
+      setBatches(response.data || []);
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to fetch payout runs'));
+    } finally {
+      setLoadingBatches(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBatches();
+  }, []);
+
+  const loadDueRows = async () => {
+    try {
+      setLoadingRows(true);
+      const response = await paymentsService.getPayoutDueRows({ dueFrom, dueTo, paymentDate });
+      setDueRows(response.data?.rows || []);
+      setExcludedKeys([]);
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to load due rows'));
+    } finally {
+      setLoadingRows(false);
+    }
+  };
+
+  const includedRows = (dueRows || []).filter(row => !excludedKeys.includes(rowKey(row)));
+  const includedTotal = includedRows.reduce((sum, row) => sum + row.amount, 0);
+
+  const toggleRow = (row: PayoutDueRow) => {
+    const key = rowKey(row);
+    setExcludedKeys(current => (current.includes(key) ? current.filter(item => item !== key) : [...current, key]));
+  };
+
+  const toggleAll = () => {
+    setExcludedKeys(excludedKeys.length === 0 ? (dueRows || []).map(rowKey) : []);
+  };
+
+  const postRun = async () => {
+    if (includedRows.length === 0) return;
+    if (!window.confirm(`Record ${includedRows.length} payments totalling ${formatCurrency(includedTotal)}?`)) return;
+
+    try {
+      setPosting(true);
+      const response = await paymentsService.createBulkPayments({
+        dueFrom,
+        dueTo,
+        paymentDate,
+        paymentMethod,
+        referenceNumber: referenceNumber || undefined,
+        notes: notes || undefined,
+        rows: includedRows.map(row => ({ investment: row.investment, scheduleMonth: row.scheduleMonth }))
+      });
+      toast.success(response.message || 'Payout run recorded');
+      setDueRows(null);
+      setExcludedKeys([]);
+      fetchBatches();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to record payout run'));
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const downloadSummary = async (batch: PayoutBatch) => {
+    try {
+      await paymentsService.downloadPayoutBatchSummary(batch.batchId);
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to download summary'));
+    }
+  };
+
+  const submitRollback = async () => {
+    if (!rollingBack || !rollbackReason.trim()) return;
+    try {
+      setSubmittingRollback(true);
+      await paymentsService.rollbackPayoutBatch(rollingBack.batchId, rollbackReason.trim());
+      toast.success(`Payout run ${rollingBack.batchId} rolled back`);
+      setRollingBack(null);
+      setRollbackReason('');
+      fetchBatches();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to roll back payout run'));
+    } finally {
+      setSubmittingRollback(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <Link to="/payments" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-1">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Payments
+        </Link>
+        <h1 className="text-2xl font-bold text-gray-900">Payout Run</h1>
+        <p className="text-gray-600">Record payments for every schedule row falling due in a date range</p>
+      </motion.div>
+
+      {/* Run parameters */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="bg-white p-4 rounded-lg shadow-sm border border-gray-200 space-y-4"
+      >
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Due From</label>
+            <input type="date" value={dueFrom} onChange={(e) => setDueFrom(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Due To</label>
+            <input type="date" value={dueTo} onChange={(e) => setDueTo(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Payment Date</label>
+            <input type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Payment Method</label>
+            <select
+              value={paymentMethod}
+              onChange={(e) => setPaymentMethod(e.target.value as Payment['paymentMethod'])}
+              className={inputClass}
+            >
+              <option value="bank_transfer">Bank Transfer</option>
+              <option value="upi">UPI</option>
+              <option value="cheque">Cheque</option>
+              <option value="cash">Cash</option>
+              <option value="card">Card</option>
+              <option value="other">Other</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Batch Reference</label>
+            <input
+              value={referenceNumber}
+              onChange={(e) => setReferenceNumber(e.target.value)}
+              placeholder="Bank batch or file reference"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Notes</label>
+            <input value={notes} onChange={(e) => setNotes(e.target.value)} maxLength={500} className={inputClass} />
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={loadDueRows} loading={loadingRows} disabled={!dueFrom || !dueTo}>
+            <Search className="h-4 w-4 mr-2" />
+            Load Due Rows
+          </Button>
+        </div>
+      </motion.div>
+
+      {/* Due rows */}
+      {dueRows && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="flex justify-between items-center px-6 py-3 border-b border-gray-200">
+            <div className="text-sm text-gray-700">
+              {dueRows.length === 0
+                ? 'Nothing falls due in this range'
+                : `${includedRows.length} of ${dueRows.length} rows selected · ${formatCurrency(includedTotal)}`}
+            </div>
+            <Button onClick={postRun} loading={posting} disabled={posting || includedRows.length === 0}>
+              <Send className="h-4 w-4 mr-2" />
+              Post Payout Run
+            </Button>
+          </div>
+          {dueRows.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left">
+                      <input
+                        type="checkbox"
+                        checked={excludedKeys.length === 0}
+                        onChange={toggleAll}
+                        className="rounded border-gray-300"
+                      />
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Due Date</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Investment</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Investor</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Bank Account</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Breakdown</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {dueRows.map(row => (
+                    <tr key={rowKey(row)} className={`hover:bg-gray-50 ${excludedKeys.includes(rowKey(row)) ? 'opacity-50' : ''}`}>
+                      <td className="px-6 py-4">
+                        <input
+                          type="checkbox"
+                          checked={!excludedKeys.includes(rowKey(row))}
+                          onChange={() => toggleRow(row)}
+                          className="rounded border-gray-300"
+                        />
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        <div>{formatDate(row.dueDate)}</div>
+                        {row.status !== 'pending' && (
+                          <div className={`text-xs ${row.status === 'overdue' ? 'text-red-600' : 'text-yellow-700'}`}>
+                            {row.status.charAt(0).toUpperCase() + row.status.slice(1)}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        <div>{row.investmentId}</div>
+                        <div className="text-xs text-gray-500">Month {row.scheduleMonth}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        <div>{row.investor.name}</div>
+                        <div className="text-xs text-gray-500">{row.investor.investorId}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        <div>{row.investor.accountNumber || '-'}</div>
+                        <div className="text-xs text-gray-500">{row.investor.ifscCode}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-xs text-gray-500">
+                        <div>Interest: {formatCurrency(row.interestAmount)}</div>
+                        {row.principalAmount > 0 && <div>Principal: {formatCurrency(row.principalAmount)}</div>}
+                        {row.penaltyAmount > 0 && <div className="text-red-600">Late fee: {formatCurrency(row.penaltyAmount)}</div>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {formatCurrency(row.amount)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Past runs */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="px-6 py-3 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Recent Payout Runs</h3>
+        </div>
+        {loadingBatches ? (
+          <div className="flex justify-center items-center h-32">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : batches.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500">No payout runs recorded yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Batch</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Due Range</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payments</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {batches.map(batch => (
+                  <tr key={batch._id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      <div className="font-medium">{batch.batchId}</div>
+                      <div className="text-xs text-gray-500">
+                        {formatDate(batch.paymentDate)} · {batch.paymentMethod.replace('_', ' ').toUpperCase()}
+                        {batch.referenceNumber && ` · ${batch.referenceNumber}`}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatDate(batch.dueFrom)} - {formatDate(batch.dueTo)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      <div>{batch.totals.count}</div>
+                      <div className="text-xs text-gray-500">
+                        {batch.totals.awaitingVerification > 0 && `${batch.totals.awaitingVerification} awaiting verification`}
+                        {batch.excludedCount > 0 && ` · ${batch.excludedCount} excluded`}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {formatCurrency(batch.totals.amount)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {batch.status === 'posted' ? (
+                        <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">Posted</span>
+                      ) : (
+                        <span
+                          className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-red-50 text-red-700"
+                          title={batch.rollback?.reason}
+                        >
+                          Rolled back
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => downloadSummary(batch)}
+                          className="text-blue-600 hover:text-blue-900"
+                          title="Download summary"
+                        >
+                          <Download className="h-4 w-4" />
+                        </button>
+                        {batch.status === 'posted' && (
+                          <button
+                            onClick={() => setRollingBack(batch)}
+                            className="text-red-600 hover:text-red-900"
+                            title="Roll back payout run"
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <Modal
+        isOpen={!!rollingBack}
+        onClose={() => setRollingBack(null)}
+        title={`Roll Back ${rollingBack?.batchId || ''}`}
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700">
+            All {rollingBack?.totals.count} payments in this run will be cancelled and their schedule rows reopened.
+            This is only possible while none of them has been verified or reconciled.
+          </p>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Reason</label>
+            <textarea
+              value={rollbackReason}
+              onChange={(e) => setRollbackReason(e.target.value)}
+              rows={3}
+              maxLength={400}
+              className={inputClass}
+              placeholder="Why is this payout run being rolled back?"
+            />
+          </div>
+          <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+            <Button variant="outline" onClick={() => setRollingBack(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="danger"
+              onClick={submitRollback}
+              loading={submittingRollback}
+              disabled={!rollbackReason.trim()}
+            >
+              Roll Back
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
+
+export default PayoutRunPage;
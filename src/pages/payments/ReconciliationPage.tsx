@@ -0,0 +1,484 @@
+// src/pages/payments/ReconciliationPage.tsx - Bank statement import, proposed matches and exceptions queue
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Upload, RefreshCw, CheckCircle, Link2, EyeOff, Undo2 } from 'lucide-react';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+import Button from '../../components/common/Button';
+import Modal from '../../components/common/Modal';
+import LoadingSpinner from '../../components/common/LoadingSpinner';
+import { reconciliationService } from '../../services/reconciliation';
+import { BankStatement, ReconciliationException, StatementLine, StatementLineUpdate } from '../../types';
+import ImportStatementForm, { ImportStatementFormData } from './ImportStatementForm';
+import MatchLineForm from './MatchLineForm';
+import { errorMessage } from '../../utils/errors';
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 0,
+  }).format(amount);
+};
+
+const formatDate = (date: string) => {
+  return new Date(date).toLocaleDateString('en-IN');
+};
+
+const REASON_LABELS: Record<string, string> = {
+  amount_exact: 'Amount',
+  amount_close: 'Amount ~',
+  date: 'Date',
+  reference: 'Reference',
+  bank_account: 'Account',
+  bank_account_partial: 'Account ~'
+};
+
+const getLineStatusBadge = (status: StatementLine['status']) => {
+  const classes = {
+    proposed: 'bg-blue-100 text-blue-800',
+    unmatched: 'bg-yellow-100 text-yellow-800',
+    matched: 'bg-green-100 text-green-800',
+    ignored: 'bg-gray-100 text-gray-800'
+  };
+
+  return (
+    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${classes[status]}`}>
+      {status.charAt(0).toUpperCase() + status.slice(1)}
+    </span>
+  );
+};
+
+const describeMatch = (line: StatementLine) => {
+  const match = line.match;
+  if (!match) return null;
+
+  if (match.kind === 'payment') {
+    return `Payment ${match.payment?.paymentId || ''}`;
+  }
+  if (match.kind === 'return') {
+    return `Returned payment ${match.payment?.paymentId || ''}`;
+  }
+  if (match.kind === 'investment') {
+    return `Investment ${match.investment?.investmentId || ''}${match.investor ? ` · ${match.investor.name}` : ''}`;
+  }
+  return `${match.investment?.investmentId || ''} · Month ${match.scheduleMonth}${match.investor ? ` · ${match.investor.name}` : ''}`;
+};
+
+const ReconciliationPage: React.FC = () => {
+  const [view, setView] = useState<'statements' | 'exceptions'>('statements');
+  const [statements, setStatements] = useState<BankStatement[]>([]);
+  const [statement, setStatement] = useState<BankStatement | null>(null);
+  const [exceptions, setExceptions] = useState<ReconciliationException[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [selectedLineIds, setSelectedLineIds] = useState<string[]>([]);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [matchingLine, setMatchingLine] = useState<{ statementId: string; line: StatementLine } | null>(null);
+
+  const fetchStatements = async () => {
+    try {
+      setLoading(true);
+      const response = await reconciliationService.getStatements({ limit: 50 });
+      setStatements(response.data || []);
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to fetch statements'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchExceptions = async () => {
+    try {
+      setLoading(true);
+      const response = await reconciliationService.getExceptions({ limit: 100 });
+      setExceptions(response.data || []);
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to fetch exceptions'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (view === 'statements') {
+      fetchStatements();
+    } else {
+      fetchExceptions();
+    }
+  }, [view]);
+
+  const showStatement = (updated?: BankStatement) => {
+    if (!updated) return;
+    setStatement(updated);
+    setSelectedLineIds([]);
+    setStatements(current => current.map(item => (item._id === updated._id ? { ...item, summary: updated.summary } : item)));
+  };
+
+  const openStatement = async (id: string) => {
+    try {
+      const response = await reconciliationService.getStatement(id);
+      showStatement(response.data);
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to load statement'));
+    }
+  };
+
+  const handleImport = async (data: ImportStatementFormData) => {
+    try {
+      const response = await reconciliationService.importStatement(data);
+      toast.success(response.message || 'Statement imported');
+      setShowImportModal(false);
+      setView('statements');
+      await fetchStatements();
+      showStatement(response.data);
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to import statement'));
+    }
+  };
+
+  const handleRematch = async () => {
+    if (!statement) return;
+    try {
+      setBusy(true);
+      const response = await reconciliationService.rematchStatement(statement._id);
+      toast.success(response.message || 'Matching refreshed');
+      showStatement(response.data);
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to rematch statement'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleConfirm = async (lineIds?: string[]) => {
+    if (!statement) return;
+    try {
+      setBusy(true);
+      const response = await reconciliationService.confirmMatches(statement._id, lineIds);
+      const results = response.data?.results;
+      if (results && results.failed.length > 0) {
+        toast.error(`${results.failed.length} line(s) could not be confirmed and were moved to exceptions`);
+      }
+      if (results && results.confirmed.length > 0) {
+        toast.success(`${results.confirmed.length} line(s) reconciled`);
+      }
+      showStatement(response.data?.statement);
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to confirm matches'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleLineUpdate = async (statementId: string, lineId: string, update: StatementLineUpdate) => {
+    try {
+      const response = await reconciliationService.updateLine(statementId, lineId, update);
+      if (statement && statement._id === statementId) {
+        showStatement(response.data);
+      }
+      if (view === 'exceptions') {
+        await fetchExceptions();
+      }
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to update line'));
+    }
+  };
+
+  const handleMatchSubmit = async (update: StatementLineUpdate) => {
+    if (!matchingLine) return;
+    await handleLineUpdate(matchingLine.statementId, matchingLine.line._id, update);
+    setMatchingLine(null);
+  };
+
+  const proposedLines = statement?.lines?.filter(line => line.status === 'proposed') || [];
+
+  const toggleLine = (id: string) => {
+    setSelectedLineIds(current => (current.includes(id) ? current.filter(item => item !== id) : [...current, id]));
+  };
+
+  const toggleAllProposed = () => {
+    setSelectedLineIds(selectedLineIds.length === proposedLines.length ? [] : proposedLines.map(line => line._id));
+  };
+
+  const renderLineActions = (statementId: string, line: StatementLine) => (
+    <div className="flex space-x-2">
+      {(line.status === 'unmatched' || line.status === 'proposed') && (
+        <button
+          onClick={() => setMatchingLine({ statementId, line })}
+          className="text-blue-600 hover:text-blue-900"
+          title="Match manually"
+        >
+          <Link2 className="h-4 w-4" />
+        </button>
+      )}
+      {line.status === 'proposed' && (
+        <button
+          onClick={() => handleLineUpdate(statementId, line._id, { action: 'unmatch' })}
+          className="text-yellow-600 hover:text-yellow-900"
+          title="Reject proposed match"
+        >
+          <Undo2 className="h-4 w-4" />
+        </button>
+      )}
+      {(line.status === 'unmatched' || line.status === 'proposed') && (
+        <button
+          onClick={() => handleLineUpdate(statementId, line._id, { action: 'ignore' })}
+          className="text-gray-500 hover:text-gray-800"
+          title="Ignore line"
+        >
+          <EyeOff className="h-4 w-4" />
+        </button>
+      )}
+      {line.status === 'ignored' && (
+        <button
+          onClick={() => handleLineUpdate(statementId, line._id, { action: 'unmatch' })}
+          className="text-gray-500 hover:text-gray-800"
+          title="Restore line"
+        >
+          <Undo2 className="h-4 w-4" />
+        </button>
+      )}
+    </div>
+  );
+
+  const renderLineDetails = (line: StatementLine) => (
+    <>
+      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+        <div>{formatDate(line.date)}</div>
+        <div className="text-xs text-gray-500">Line {line.lineNo}</div>
+      </td>
+      <td className="px-6 py-4 text-sm text-gray-900 max-w-xs">
+        <div className="truncate" title={line.description}>{line.description || '-'}</div>
+        {line.reference && <div className="text-xs text-gray-500 truncate">Ref: {line.reference}</div>}
+      </td>
+      <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${line.direction === 'debit' ? 'text-red-700' : 'text-green-700'}`}>
+        {line.direction === 'debit' ? 'Dr' : 'Cr'} {formatCurrency(line.amount)}
+      </td>
+    </>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex justify-between items-center"
+      >
+        <div>
+          <Link to="/payments" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-1">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Payments
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900">Bank Reconciliation</h1>
+          <p className="text-gray-600">Match bank statement lines to scheduled payouts and recorded payments</p>
+        </div>
+        <Button onClick={() => setShowImportModal(true)}>
+          <Upload className="h-4 w-4 mr-2" />
+          Import Statement
+        </Button>
+      </motion.div>
+
+      <div className="flex space-x-2">
+        <Button variant={view === 'statements' ? 'primary' : 'outline'} onClick={() => setView('statements')}>
+          Statements
+        </Button>
+        <Button variant={view === 'exceptions' ? 'primary' : 'outline'} onClick={() => setView('exceptions')}>
+          Exceptions
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : view === 'statements' ? (
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          {/* Statement list */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 divide-y divide-gray-200 h-fit">
+            {statements.length === 0 ? (
+              <p className="p-4 text-sm text-gray-500">No statements imported yet</p>
+            ) : (
+              statements.map(item => (
+                <button
+                  key={item._id}
+                  onClick={() => openStatement(item._id)}
+                  className={`w-full text-left p-4 hover:bg-gray-50 ${statement?._id === item._id ? 'bg-blue-50' : ''}`}
+                >
+                  <div className="text-sm font-medium text-gray-900">{item.statementId}</div>
+                  <div className="text-xs text-gray-500 truncate">{item.originalName}</div>
+                  <div className="text-xs text-gray-500">
+                    {formatDate(item.periodStart)} - {formatDate(item.periodEnd)} · {item.format.toUpperCase()}
+                  </div>
+                  <div className="text-xs mt-1">
+                    <span className="text-green-700">{item.summary.matched} matched</span>
+                    {' · '}
+                    <span className="text-blue-700">{item.summary.proposed} proposed</span>
+                    {' · '}
+                    <span className="text-yellow-700">{item.summary.unmatched} open</span>
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+
+          {/* Statement lines */}
+          <div className="lg:col-span-3 bg-white rounded-lg shadow-sm border border-gray-200">
+            {!statement ? (
+              <p className="p-6 text-sm text-gray-500">Select a statement to review its lines</p>
+            ) : (
+              <>
+                <div className="flex justify-between items-center px-6 py-3 border-b border-gray-200">
+                  <div className="text-sm text-gray-700">
+                    <span className="font-medium">{statement.statementId}</span>
+                    {statement.accountNumber && ` · A/c ${statement.accountNumber}`}
+                    {` · ±${statement.dateWindowDays} days · ${selectedLineIds.length} of ${proposedLines.length} proposed selected`}
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button size="sm" variant="outline" onClick={handleRematch} disabled={busy}>
+                      <RefreshCw className="h-4 w-4 mr-2" />
+                      Rematch
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => handleConfirm(selectedLineIds)}
+                      disabled={busy || selectedLineIds.length === 0}
+                      loading={busy}
+                    >
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      Confirm Selected
+                    </Button>
+                  </div>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left">
+                          <input
+                            type="checkbox"
+                            checked={proposedLines.length > 0 && selectedLineIds.length === proposedLines.length}
+                            onChange={toggleAllProposed}
+                            disabled={proposedLines.length === 0}
+                            className="rounded border-gray-300"
+                          />
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Narrative</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Match</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {(statement.lines || []).map(line => (
+                        <tr key={line._id} className="hover:bg-gray-50">
+                          <td className="px-6 py-4">
+                            <input
+                              type="checkbox"
+                              checked={selectedLineIds.includes(line._id)}
+                              onChange={() => toggleLine(line._id)}
+                              disabled={line.status !== 'proposed'}
+                              className="rounded border-gray-300"
+                            />
+                          </td>
+                          {renderLineDetails(line)}
+                          <td className="px-6 py-4 text-sm text-gray-900">
+                            {line.status === 'matched' && line.payment ? (
+                              <div>
+                                {line.payment.paymentId}
+                                {line.payment.awaitingVerification && (
+                                  <div className="text-xs text-yellow-700">Awaiting verification</div>
+                                )}
+                              </div>
+                            ) : line.match ? (
+                              <div>
+                                <div>{describeMatch(line)}</div>
+                                <div className="text-xs text-gray-500">
+                                  {line.match.manual
+                                    ? 'Manual match'
+                                    : `${Math.round((line.match.confidence || 0) * 100)}% · ${line.match.reasons.map(reason => REASON_LABELS[reason] || reason).join(', ')}`}
+                                </div>
+                              </div>
+                            ) : (
+                              <span className="text-xs text-gray-500">{line.note || '-'}</span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">{getLineStatusBadge(line.status)}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">{renderLineActions(statement._id, line)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      ) : (
+        /* Exceptions queue */
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          {exceptions.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">No unmatched statement lines</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Statement</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Narrative</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Note</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {exceptions.map(({ statement: source, line }) => (
+                    <tr key={line._id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{source.statementId}</td>
+                      {renderLineDetails(line)}
+                      <td className="px-6 py-4 text-xs text-gray-500">{line.note || '-'}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">{renderLineActions(source._id, line)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      <Modal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        title="Import Bank Statement"
+        size="lg"
+      >
+        <ImportStatementForm
+          onSubmit={handleImport}
+          onCancel={() => setShowImportModal(false)}
+        />
+      </Modal>
+
+      <Modal
+        isOpen={!!matchingLine}
+        onClose={() => setMatchingLine(null)}
+        title="Match Statement Line"
+        size="lg"
+      >
+        {matchingLine && (
+          <MatchLineForm
+            line={matchingLine.line}
+            onSubmit={handleMatchSubmit}
+            onCancel={() => setMatchingLine(null)}
+          />
+        )}
+      </Modal>
+    </div>
+  );
+};
+
+export default ReconciliationPage;
@@ -0,0 +1,114 @@
+// src/pages/payments/ReversePaymentForm.tsx - Reverse, cancel or refund a completed payment
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { AlertTriangle } from 'lucide-react';
+import Button from '../../components/common/Button';
+import { Payment, PaymentReversalKind } from '../../types';
+
+interface ReversePaymentFormProps {
+  payment: Payment;
+  onSubmit: (data: ReversePaymentFormData) => Promise<void>;
+  onCancel: () => void;
+}
+
+export interface ReversePaymentFormData {
+  kind: PaymentReversalKind;
+  reason: string;
+  referenceNumber: string;
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 0,
+  }).format(amount);
+};
+
+const ReversePaymentForm: React.FC<ReversePaymentFormProps> = ({ payment, onSubmit, onCancel }) => {
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors, isSubmitting }
+  } = useForm<ReversePaymentFormData>({
+    defaultValues: {
+      kind: 'reversal',
+      reason: '',
+      referenceNumber: ''
+    }
+  });
+
+  const watchKind = watch('kind');
+  const months = payment.allocations && payment.allocations.length > 0
+    ? payment.allocations.map(allocation => allocation.scheduleMonth)
+    : [payment.scheduleMonth];
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <div className="flex items-start">
+          <AlertTriangle className="h-5 w-5 text-red-600 mt-0.5 mr-2" />
+          <div className="text-sm text-red-800">
+            <p className="font-medium">
+              {payment.paymentId} - {formatCurrency(payment.amount)} to {payment.investor.name}
+            </p>
+            <p className="mt-1">
+              A compensating entry will be recorded, {months.length > 1 ? 'months' : 'month'} {months.join(', ')} will
+              be reopened and the investment and investor totals reduced by {formatCurrency(payment.amount)}.
+              This cannot be undone.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Type</label>
+        <select
+          {...register('kind')}
+          className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="reversal">Reversal - recorded in error</option>
+          <option value="cancellation">Cancellation - payout did not go through</option>
+          <option value="refund">Refund - investor returned the money</option>
+        </select>
+      </div>
+
+      {watchKind === 'refund' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Refund Reference</label>
+          <input
+            {...register('referenceNumber')}
+            className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+            placeholder="Transaction reference of the returned amount"
+          />
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Reason</label>
+        <textarea
+          {...register('reason', {
+            validate: value => !!value.trim() || 'A reason is required to reverse a payment',
+            maxLength: { value: 400, message: 'Reason cannot exceed 400 characters' }
+          })}
+          rows={3}
+          className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+          placeholder="Why is this payment being reversed?"
+        />
+        {errors.reason && <p className="mt-1 text-sm text-red-600">{errors.reason.message}</p>}
+      </div>
+
+      <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" variant="danger" loading={isSubmitting}>
+          Reverse Payment
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default ReversePaymentForm;
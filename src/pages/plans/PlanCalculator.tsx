@@ -1,10 +1,17 @@
-import React, { useState } from 'react';
-import { useForm } from 'react-hook-form';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useForm, useWatch } from 'react-hook-form';
 import { Calculator, TrendingUp } from 'lucide-react';
 import Button from '../../components/common/Button';
-import { Plan } from '../../types';
-import { plansService } from '../../services/plans';
-import toast from 'react-hot-toast';
+import SchedulePreview from '../../components/plans/SchedulePreview';
+import { settingsService } from '../../services/settings';
+import { Plan, DayCountConvention } from '../../types';
+import {
+  buildCalculationResult,
+  generateSchedule,
+  getPayoutFrequency
+} from '../../utils/scheduleEngine';
+import { DAY_COUNT_CONVENTION_LABELS, resolveDayCountConvention } from '../../utils/interestAccrual';
+import { effectiveAnnualYield, formatContractualRate } from '../../utils/rateBasis';
 
 interface PlanCalculatorProps {
   plan: Plan;
@@ -13,44 +20,49 @@ interface PlanCalculatorProps {
 
 interface CalculatorForm {
   principalAmount: number;
-}
-
-interface CalculationResult {
-  principalAmount: number;
-  plan: {
-    name: string;
-    interestType: string;
-    interestRate: number;
-    tenure: number;
-  };
-  calculations: {
-    totalInterest: number;
-    totalReturns: number;
-    effectiveRate: number;
-  };
+  investmentDate: string;
 }
 
 const PlanCalculator: React.FC<PlanCalculatorProps> = ({ plan, onClose }) => {
-  const [result, setResult] = useState<CalculationResult | null>(null);
-  const [loading, setLoading] = useState(false);
+  const [companyConvention, setCompanyConvention] = useState<DayCountConvention>();
 
   const {
     register,
-    handleSubmit,
+    control,
     formState: { errors }
-  } = useForm<CalculatorForm>();
-
-  const calculateReturns = async (data: CalculatorForm) => {
-    try {
-      setLoading(true);
-      const response = await plansService.calculateReturns(plan._id, data.principalAmount);
-      setResult(response.data);
-    } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Failed to calculate returns');
-    } finally {
-      setLoading(false);
+  } = useForm<CalculatorForm>({
+    mode: 'onChange',
+    defaultValues: {
+      investmentDate: new Date().toISOString().split('T')[0]
     }
-  };
+  });
+
+  const principalAmount = Number(useWatch({ control, name: 'principalAmount' }));
+  const investmentDate = useWatch({ control, name: 'investmentDate' });
+
+  const isValidAmount = principalAmount >= plan.minInvestment && principalAmount <= plan.maxInvestment;
+
+  useEffect(() => {
+    settingsService.getSettings()
+      .then(response => setCompanyConvention(resolveDayCountConvention(response.data?.financial)))
+      .catch(() => setCompanyConvention(undefined));
+  }, []);
+
+  // Plan override wins over the company-wide convention
+  const dayCountConvention = plan.dayCountConvention || companyConvention || resolveDayCountConvention();
+
+  // Calculated locally with the shared schedule engine - no API round-trip
+  const result = useMemo(
+    () => (isValidAmount
+      ? buildCalculationResult(plan, principalAmount, investmentDate || new Date(), dayCountConvention)
+      : null),
+    [plan, principalAmount, investmentDate, dayCountConvention, isValidAmount]
+  );
+
+  const schedule = useMemo(
+    () => (isValidAmount ? generateSchedule(plan, principalAmount, investmentDate || new Date(), dayCountConvention) : []),
+    [plan, principalAmount, investmentDate, dayCountConvention, isValidAmount]
+  );
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-IN', {
@@ -72,7 +84,11 @@ const PlanCalculator: React.FC<PlanCalculatorProps> = ({ plan, onClose }) => {
         <div className="grid grid-cols-2 gap-4 text-sm">
           <div>
             <span className="text-blue-700">Interest Rate:</span>
-            <span className="ml-2 font-medium">{plan.interestRate}% per month</span>
+            <span className="ml-2 font-medium">{formatContractualRate(plan.interestRate, plan.rateBasis)}</span>
+          </div>
+          <div>
+            <span className="text-blue-700">Effective Annual Yield:</span>
+            <span className="ml-2 font-medium">{effectiveAnnualYield(plan.interestRate, plan.rateBasis)}%</span>
           </div>
           <div>
             <span className="text-blue-700">Interest Type:</span>
@@ -84,13 +100,17 @@ const PlanCalculator: React.FC<PlanCalculatorProps> = ({ plan, onClose }) => {
           </div>
           <div>
             <span className="text-blue-700">Payout:</span>
-            <span className="ml-2 font-medium capitalize">{plan.interestPayoutFrequency}</span>
+            <span className="ml-2 font-medium capitalize">{getPayoutFrequency(plan) || 'Not configured'}</span>
+          </div>
+          <div>
+            <span className="text-blue-700">Interest Accrual:</span>
+            <span className="ml-2 font-medium">{DAY_COUNT_CONVENTION_LABELS[dayCountConvention]}</span>
           </div>
         </div>
       </div>
 
       {/* Calculator Form */}
-      <form onSubmit={handleSubmit(calculateReturns)} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
             Investment Amount (₹)
@@ -119,11 +139,27 @@ const PlanCalculator: React.FC<PlanCalculatorProps> = ({ plan, onClose }) => {
           </p>
         </div>
 
-        <Button type="submit" loading={loading} className="w-full">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Investment Date
+          </label>
+          <input
+            {...register('investmentDate')}
+            type="date"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+          />
+          <p className="mt-1 text-sm text-gray-500">
+            Used to project due dates in the schedule
+          </p>
+        </div>
+      </div>
+
+      {!result && (
+        <div className="flex items-center text-sm text-gray-500">
           <Calculator className="h-4 w-4 mr-2" />
-          Calculate Returns
-        </Button>
-      </form>
+          Enter an amount within the plan range to see returns and the full schedule
+        </div>
+      )}
 
       {/* Results */}
       {result && (
@@ -183,12 +219,28 @@ const PlanCalculator: React.FC<PlanCalculatorProps> = ({ plan, onClose }) => {
                   {formatPercentage((result.calculations.totalInterest / result.principalAmount) * 100)}
                 </span>
               </div>
+              <div>
+                <span className="text-gray-600">XIRR:</span>
+                <span className="ml-2 font-medium">
+                  {result.calculations.xirr != null ? formatPercentage(result.calculations.xirr) : 'N/A'}
+                </span>
+              </div>
               <div>
                 <span className="text-gray-600">Maturity Period:</span>
-                <span className="ml-2 font-medium">{result.plan.tenure} months</span>
+                <span className="ml-2 font-medium">
+                  {result.plan.tenure} months ({result.calculations.numberOfPayouts} payouts)
+                </span>
               </div>
             </div>
           </div>
+
+          {/* Amortization Schedule */}
+          <div className="mt-6">
+            <h4 className="font-semibold text-gray-900 mb-2">
+              Payment Schedule ({schedule.length} payments)
+            </h4>
+            <SchedulePreview schedule={schedule} />
+          </div>
         </div>
       )}
 
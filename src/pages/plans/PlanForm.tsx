@@ -3,7 +3,19 @@ import React, { useState } from 'react';
 import { useForm, useWatch } from 'react-hook-form';
 import { Info, AlertTriangle, CheckCircle } from 'lucide-react';
 import Button from '../../components/common/Button';
-import { Plan } from '../../types';
+import { Plan, DayCountConvention, LateFeeType, RateBasis, AllocationStrategy } from '../../types';
+import { DAY_COUNT_CONVENTION_LABELS } from '../../utils/interestAccrual';
+import { effectiveAnnualYield, formatContractualRate } from '../../utils/rateBasis';
+
+// Waterfall orders offered for lump-sum payments, stored on the plan as an array
+const ALLOCATION_ORDERS = [
+  { value: 'penalty,interest,principal', label: 'Late fee → Interest → Principal' },
+  { value: 'interest,penalty,principal', label: 'Interest → Late fee → Principal' },
+  { value: 'interest,principal,penalty', label: 'Interest → Principal → Late fee' },
+  { value: 'penalty,principal,interest', label: 'Late fee → Principal → Interest' },
+  { value: 'principal,interest,penalty', label: 'Principal → Interest → Late fee' },
+  { value: 'principal,penalty,interest', label: 'Principal → Late fee → Interest' }
+];
 
 interface PlanFormProps {
   plan?: Plan;
@@ -15,6 +27,7 @@ interface FormData {
   name: string;
   description: string;
   interestRate: number;
+  rateBasis: RateBasis;
   interestType: 'flat' | 'reducing';
   tenure: number;
   minInvestment: number;
@@ -22,6 +35,12 @@ interface FormData {
   isActive: boolean;
   features: string[];
   riskLevel: 'low' | 'medium' | 'high';
+  dayCountConvention: DayCountConvention | '';
+  prematureWithdrawalPenalty: number;
+  lateFeeType: LateFeeType | '';
+  lateFeeRate: number;
+  allocationOrder: string;
+  allocationStrategy: AllocationStrategy;
   
   // Payment Type Selection
   paymentType: 'interest' | 'interestWithPrincipal';
@@ -65,6 +84,7 @@ const PlanForm: React.FC<PlanFormProps> = ({ plan, onSubmit, onCancel }) => {
       name: plan.name,
       description: plan.description || '',
       interestRate: plan.interestRate,
+      rateBasis: plan.rateBasis || 'monthly',
       interestType: plan.interestType,
       tenure: plan.tenure,
       minInvestment: plan.minInvestment,
@@ -72,14 +92,27 @@ const PlanForm: React.FC<PlanFormProps> = ({ plan, onSubmit, onCancel }) => {
       isActive: plan.isActive,
       features: plan.features || [],
       riskLevel: plan.riskLevel,
+      dayCountConvention: plan.dayCountConvention || '',
+      prematureWithdrawalPenalty: plan.prematureWithdrawalPenalty ?? 0,
+      lateFeeType: plan.lateFeeRate != null ? (plan.lateFeeType || 'percentage') : '',
+      lateFeeRate: plan.lateFeeRate ?? 0,
+      allocationOrder: (plan.allocationOrder || ['penalty', 'interest', 'principal']).join(','),
+      allocationStrategy: plan.allocationStrategy || 'component_first',
       paymentType: plan.paymentType,
       interestPayment: plan.interestPayment,
       interestWithPrincipalPayment: plan.interestWithPrincipalPayment
     } : {
       interestType: 'flat',
+      rateBasis: 'monthly',
       isActive: true,
       features: [],
       riskLevel: 'medium',
+      dayCountConvention: '',
+      prematureWithdrawalPenalty: 0,
+      lateFeeType: '',
+      lateFeeRate: 0,
+      allocationOrder: 'penalty,interest,principal',
+      allocationStrategy: 'component_first',
       paymentType: 'interest',
       interestPayment: {
         dateOfInvestment: new Date().toISOString().split('T')[0],
@@ -95,6 +128,9 @@ const PlanForm: React.FC<PlanFormProps> = ({ plan, onSubmit, onCancel }) => {
   const watchIWPFrequency = useWatch({ control, name: 'interestWithPrincipalPayment.paymentFrequency' });
   const watchPrincipalOption = useWatch({ control, name: 'interestPayment.principalRepaymentOption' });
   const watchTenure = watch('tenure');
+  const watchInterestRate = Number(watch('interestRate')) || 0;
+  const watchRateBasis = watch('rateBasis');
+  const watchLateFeeType = watch('lateFeeType');
   const watchMinInvestment = watch('minInvestment');
   const watchMaxInvestment = watch('maxInvestment');
 
@@ -102,7 +138,13 @@ const PlanForm: React.FC<PlanFormProps> = ({ plan, onSubmit, onCancel }) => {
     // Process features
     const processedData = {
       ...data,
-      features: featuresInput.split(',').map(f => f.trim()).filter(f => f)
+      features: featuresInput.split(',').map(f => f.trim()).filter(f => f),
+      // Empty selection falls back to the company-wide convention
+      dayCountConvention: data.dayCountConvention || null,
+      // No late fee type means the company default late fee applies
+      lateFeeType: data.lateFeeType || null,
+      lateFeeRate: data.lateFeeType ? data.lateFeeRate : null,
+      allocationOrder: data.allocationOrder.split(',')
     };
 
     // Clean up payment configurations based on payment type
@@ -195,19 +237,32 @@ const PlanForm: React.FC<PlanFormProps> = ({ plan, onSubmit, onCancel }) => {
           </div>
 
           <div>
-            <label className="block text-sm font-medium text-gray-700">Interest Rate (% per month) *</label>
-            <input
-              {...register('interestRate', {
-                required: 'Interest rate is required',
-                min: { value: 0, message: 'Interest rate must be positive' },
-                max: { value: 100, message: 'Interest rate cannot exceed 100%' }
-              })}
-              type="number"
-              step="0.1"
-              className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
-              placeholder="2.5"
-            />
+            <label className="block text-sm font-medium text-gray-700">Interest Rate (%) *</label>
+            <div className="mt-1 flex space-x-2">
+              <input
+                {...register('interestRate', {
+                  required: 'Interest rate is required',
+                  min: { value: 0, message: 'Interest rate must be positive' },
+                  max: { value: 100, message: 'Interest rate cannot exceed 100%' }
+                })}
+                type="number"
+                step="0.1"
+                className="block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="2.5"
+              />
+              <select
+                {...register('rateBasis')}
+                className="block border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="monthly">per month</option>
+                <option value="annual_nominal">p.a. nominal</option>
+                <option value="annual_effective">p.a. effective</option>
+              </select>
+            </div>
             {errors.interestRate && <p className="mt-1 text-sm text-red-600">{errors.interestRate.message}</p>}
+            <p className="mt-1 text-xs text-gray-500">
+              Effective annual yield: {effectiveAnnualYield(watchInterestRate, watchRateBasis)}%
+            </p>
           </div>
 
           <div>
@@ -249,6 +304,93 @@ const PlanForm: React.FC<PlanFormProps> = ({ plan, onSubmit, onCancel }) => {
             </select>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Interest Accrual</label>
+            <select
+              {...register('dayCountConvention')}
+              className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Company default</option>
+              {Object.entries(DAY_COUNT_CONVENTION_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">Applies to investments created after the change</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Premature Withdrawal Penalty (%)</label>
+            <input
+              {...register('prematureWithdrawalPenalty', {
+                valueAsNumber: true,
+                min: { value: 0, message: 'Penalty cannot be negative' },
+                max: { value: 100, message: 'Penalty cannot exceed 100%' }
+              })}
+              type="number"
+              step="0.01"
+              className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="0"
+            />
+            {errors.prematureWithdrawalPenalty && <p className="mt-1 text-sm text-red-600">{errors.prematureWithdrawalPenalty.message}</p>}
+            <p className="mt-1 text-xs text-gray-500">Share of principal withdrawn before maturity that is retained</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Late Fee</label>
+            <select
+              {...register('lateFeeType')}
+              className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Company default</option>
+              <option value="percentage">Percentage of amount due per month</option>
+              <option value="flat">Flat amount per month</option>
+            </select>
+            <p className="mt-1 text-xs text-gray-500">Charged on payouts still unpaid after the grace period</p>
+          </div>
+
+          {watchLateFeeType && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Late Fee {watchLateFeeType === 'flat' ? '(₹ per month)' : '(% per month)'}
+              </label>
+              <input
+                {...register('lateFeeRate', {
+                  valueAsNumber: true,
+                  min: { value: 0, message: 'Late fee cannot be negative' }
+                })}
+                type="number"
+                step="0.01"
+                className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="0"
+              />
+              {errors.lateFeeRate && <p className="mt-1 text-sm text-red-600">{errors.lateFeeRate.message}</p>}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Lump-sum Allocation Order</label>
+            <select
+              {...register('allocationOrder')}
+              className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {ALLOCATION_ORDERS.map(order => (
+                <option key={order.value} value={order.value}>{order.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Lump-sum Allocation Strategy</label>
+            <select
+              {...register('allocationStrategy')}
+              className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="component_first">Each component across all payouts, oldest first</option>
+              <option value="row_by_row">Oldest payout in full before the next</option>
+            </select>
+            <p className="mt-1 text-xs text-gray-500">How a payment not tied to one payout is spread over outstanding payouts</p>
+          </div>
+
           <div>
             <label className="flex items-center">
               <input
@@ -595,7 +737,7 @@ const PlanForm: React.FC<PlanFormProps> = ({ plan, onSubmit, onCancel }) => {
           </div>
           <div>
             <span className="text-gray-600">Interest Rate:</span>
-            <div className="font-medium">{watch('interestRate') || 0}% per month</div>
+            <div className="font-medium">{formatContractualRate(watchInterestRate, watchRateBasis)}</div>
           </div>
           <div>
             <span className="text-gray-600">Tenure:</span>
@@ -7,6 +7,7 @@ import Modal from '../../components/common/Modal';
 import LoadingSpinner from '../../components/common/LoadingSpinner';
 import { plansService } from '../../services/plans';
 import { Plan } from '../../types';
+import { effectiveAnnualYield, formatContractualRate } from '../../utils/rateBasis';
 import toast from 'react-hot-toast';
 import PlanForm from './PlanForm';
 import PlanCalculator from './PlanCalculator';
@@ -302,7 +303,10 @@ const PlansPage: React.FC = () => {
                         <div className="space-y-1">
                           {getPaymentTypeBadge(plan.paymentType)}
                           <div className="text-sm text-gray-900">
-                            {plan.interestRate}% {plan.interestType}
+                            {formatContractualRate(plan.interestRate, plan.rateBasis)} <span className="capitalize">{plan.interestType}</span>
+                          </div>
+                          <div className="text-xs text-green-600">
+                            {effectiveAnnualYield(plan.interestRate, plan.rateBasis)}% effective annual yield
                           </div>
                           <div className="text-xs text-gray-500">
                             {getPaymentFrequency(plan)} payments
@@ -466,7 +470,7 @@ const PlansPage: React.FC = () => {
           setSelectedPlan(null);
         }}
         title="Investment Calculator"
-        size="lg"
+        size="xl"
       >
         {selectedPlan && (
           <PlanCalculator
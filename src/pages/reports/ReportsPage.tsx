@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { Download, FileText, TrendingUp, Users, DollarSign } from 'lucide-react';
+import { Download, FileText, TrendingUp, Users, DollarSign, Percent } from 'lucide-react';
+import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import {
   BarChart,
@@ -18,6 +19,10 @@ import {
 import Button from '../../components/common/Button';
 import LoadingSpinner from '../../components/common/LoadingSpinner';
 import StatCard from '../../components/common/StatCard';
+import TrialBalance from '../../components/reports/TrialBalance';
+import AccountLedger from '../../components/reports/AccountLedger';
+import CounterReconciliation from '../../components/reports/CounterReconciliation';
+import LedgerExport from '../../components/reports/LedgerExport';
 import { reportsService } from '../../services/reports';
 import toast from 'react-hot-toast';
 
@@ -28,6 +33,7 @@ const ReportsPage: React.FC = () => {
   const [planPerformance, setPlanPerformance] = useState<any[]>([]);
   const [paymentAnalysis, setPaymentAnalysis] = useState<any>(null);
   const [overduePayments, setOverduePayments] = useState<any[]>([]);
+  const [ledgerAccount, setLedgerAccount] = useState('1000');
 
   useEffect(() => {
     const fetchReportsData = async () => {
@@ -110,6 +116,12 @@ const ReportsPage: React.FC = () => {
           <p className="text-gray-600">Comprehensive insights into your investment portfolio</p>
         </div>
         <div className="flex space-x-3">
+          <Link to="/reports/tds">
+            <Button variant="outline">
+              <Percent className="h-4 w-4 mr-2" />
+              TDS Report
+            </Button>
+          </Link>
           <Button variant="outline" onClick={() => handleExport('investors')}>
             <Download className="h-4 w-4 mr-2" />
             Export Investors
@@ -392,7 +404,7 @@ const ReportsPage: React.FC = () => {
                           {payment.investmentId}
                         </div>
                         <div className="text-sm text-gray-500">
-                          Month {payment.month}
+                          {payment.period ? `Payout #${payment.period} · ` : ''}Month {payment.month}
                         </div>
                       </div>
                     </td>
@@ -424,6 +436,39 @@ const ReportsPage: React.FC = () => {
           </div>
         </motion.div>
       )}
+
+      {/* General Ledger */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.8 }}
+        className="bg-white rounded-lg shadow-sm border border-gray-200"
+      >
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">General Ledger</h3>
+          <p className="text-sm text-gray-600">Select an account in the trial balance to see its entries</p>
+        </div>
+        <div className="p-6 space-y-8">
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            <div>
+              <h4 className="text-sm font-semibold text-gray-900 mb-3">Trial Balance</h4>
+              <TrialBalance selectedAccount={ledgerAccount} onSelectAccount={setLedgerAccount} />
+            </div>
+            <div>
+              <h4 className="text-sm font-semibold text-gray-900 mb-3">Account Ledger</h4>
+              <AccountLedger key={ledgerAccount} accountCode={ledgerAccount} />
+            </div>
+          </div>
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900 mb-3">Export to Accounting</h4>
+            <LedgerExport />
+          </div>
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900 mb-3">Totals vs Ledger</h4>
+            <CounterReconciliation />
+          </div>
+        </div>
+      </motion.div>
     </div>
   );
 };
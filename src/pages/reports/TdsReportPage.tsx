@@ -0,0 +1,239 @@
+// src/pages/reports/TdsReportPage.tsx - Interest paid and TDS withheld per investor, for quarterly returns
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Download, FileArchive, Search } from 'lucide-react';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+import Button from '../../components/common/Button';
+import LoadingSpinner from '../../components/common/LoadingSpinner';
+import { certificatesService } from '../../services/certificates';
+import { taxService } from '../../services/tax';
+import { TdsBasis, TdsReport } from '../../types';
+import { errorMessage } from '../../utils/errors';
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 0,
+  }).format(amount);
+};
+
+const formatDate = (date: string) => {
+  return new Date(date).toLocaleDateString('en-IN');
+};
+
+const BASIS_LABELS: Record<TdsBasis, string> = {
+  standard: 'Standard rate',
+  no_pan: 'No verified PAN',
+  exempt: 'Form 15G/15H',
+  below_threshold: 'Below threshold'
+};
+
+const inputClass = 'mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500';
+
+const TdsReportPage: React.FC = () => {
+  const [financialYear, setFinancialYear] = useState('');
+  const [quarter, setQuarter] = useState('');
+  const [report, setReport] = useState<TdsReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [downloadingCertificates, setDownloadingCertificates] = useState(false);
+
+  // Without a financial year the server reports the one in progress
+  const fetchReport = async (params: { financialYear?: string; quarter?: number } = {}) => {
+    try {
+      setLoading(true);
+      const response = await taxService.getTdsReport(params);
+      setReport(response.data || null);
+      if (response.data) {
+        setFinancialYear(response.data.financialYear);
+      }
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to load TDS report'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReport();
+  }, []);
+
+  const handleDownload = async () => {
+    if (!report) return;
+    try {
+      setDownloading(true);
+      await taxService.downloadTdsReport({
+        financialYear: report.financialYear,
+        quarter: report.quarter || undefined
+      });
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to download TDS report'));
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  // Every investor's interest certificate for the year shown, as one zip
+  const handleDownloadCertificates = async () => {
+    if (!report) return;
+    try {
+      setDownloadingCertificates(true);
+      await certificatesService.downloadCertificateArchive(report.financialYear);
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Failed to download interest certificates'));
+    } finally {
+      setDownloadingCertificates(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex justify-between items-end"
+      >
+        <div>
+          <Link to="/reports" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-1">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Reports
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900">TDS Report</h1>
+          <p className="text-gray-600">Interest paid and tax withheld per investor, for TDS returns and Form 16A</p>
+        </div>
+        <div className="flex space-x-3">
+          <Button
+            variant="outline"
+            onClick={handleDownloadCertificates}
+            loading={downloadingCertificates}
+            disabled={!report || report.rows.length === 0}
+          >
+            <FileArchive className="h-4 w-4 mr-2" />
+            Interest Certificates
+          </Button>
+          <Button variant="outline" onClick={handleDownload} loading={downloading} disabled={!report || report.rows.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Download CSV
+          </Button>
+        </div>
+      </motion.div>
+
+      {/* Period */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="bg-white p-4 rounded-lg shadow-sm border border-gray-200"
+      >
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Financial Year</label>
+            <input
+              value={financialYear}
+              onChange={(e) => setFinancialYear(e.target.value)}
+              placeholder="2026-27"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Quarter</label>
+            <select value={quarter} onChange={(e) => setQuarter(e.target.value)} className={inputClass}>
+              <option value="">Whole year</option>
+              <option value="1">Q1</option>
+              <option value="2">Q2</option>
+              <option value="3">Q3</option>
+              <option value="4">Q4</option>
+            </select>
+          </div>
+          <div className="flex justify-end">
+            <Button
+              variant="outline"
+              onClick={() => fetchReport({
+                financialYear: financialYear || undefined,
+                quarter: quarter ? parseInt(quarter) : undefined
+              })}
+              loading={loading}
+            >
+              <Search className="h-4 w-4 mr-2" />
+              Show Report
+            </Button>
+          </div>
+        </div>
+      </motion.div>
+
+      {loading && !report ? (
+        <div className="flex justify-center items-center h-64">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : report && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="px-6 py-3 border-b border-gray-200 text-sm text-gray-700">
+            Section {report.section} · {formatDate(report.period.from)} to {formatDate(report.period.to)} ·{' '}
+            {report.totals.investors} investors · {formatCurrency(report.totals.tdsWithheld)} withheld
+          </div>
+          {report.rows.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">No interest was paid in this period</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Investor</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">PAN</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Payments</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Interest Paid</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Rate</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">TDS Withheld</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Net Paid</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Basis</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {report.rows.map(row => (
+                    <tr key={row.investor} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        <div>{row.name}</div>
+                        <div className="text-xs text-gray-500">{row.investorId}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        <div>{row.panNumber || '-'}</div>
+                        {!row.panVerified && <div className="text-xs text-yellow-700">Not verified</div>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{row.payments}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{formatCurrency(row.interestPaid)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {row.rates.length ? row.rates.map(rate => `${rate}%`).join(' / ') : '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium text-gray-900">{formatCurrency(row.tdsWithheld)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{formatCurrency(row.netPaid)}</td>
+                      <td className="px-6 py-4 text-sm text-gray-500">
+                        {row.bases.map(basis => BASIS_LABELS[basis]).join(', ')}
+                        {row.exemptionForm && ` (Form ${row.exemptionForm})`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot className="bg-gray-50">
+                  <tr className="text-sm font-medium text-gray-900">
+                    <td className="px-6 py-3" colSpan={2}>Total</td>
+                    <td className="px-6 py-3 text-right">{report.totals.payments}</td>
+                    <td className="px-6 py-3 text-right">{formatCurrency(report.totals.interestPaid)}</td>
+                    <td className="px-6 py-3" />
+                    <td className="px-6 py-3 text-right">{formatCurrency(report.totals.tdsWithheld)}</td>
+                    <td className="px-6 py-3 text-right">{formatCurrency(report.totals.netPaid)}</td>
+                    <td className="px-6 py-3" />
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TdsReportPage;
@@ -1,19 +1,33 @@
 // src/pages/settings/SettingsPage.tsx - Fixed to Match Types and Services
 import React, { useState, useEffect } from 'react';
-import { Save, Upload, Building, Shield, Bell, Database, AlertCircle, CheckCircle } from 'lucide-react';
+import { Save, Upload, Building, Shield, Bell, Database, AlertCircle, CheckCircle, Clock, Percent, Plus, Trash2, BookOpen, ShieldCheck } from 'lucide-react';
 import { motion } from 'framer-motion';
-import { useForm } from 'react-hook-form';
+import { useForm, useFieldArray } from 'react-hook-form';
 import Button from '../../components/common/Button';
 import LoadingSpinner from '../../components/common/LoadingSpinner';
+import BackgroundJobs from '../../components/settings/BackgroundJobs';
 import { settingsService } from '../../services/settings';
-import { Settings } from '../../types';
+import { AccountingSettings, Settings } from '../../types';
+import { DAY_COUNT_CONVENTION_LABELS, resolveDayCountConvention } from '../../utils/interestAccrual';
 import toast from 'react-hot-toast';
 
+// Chart of accounts, with the names used when no ledger name is set
+const LEDGER_ACCOUNTS: { key: keyof AccountingSettings['ledgerNames']; code: string; name: string }[] = [
+  { key: 'cash', code: '1000', name: 'Cash / Bank' },
+  { key: 'investorPrincipal', code: '2000', name: 'Investor Principal' },
+  { key: 'interestPayable', code: '2100', name: 'Interest Payable' },
+  { key: 'tdsPayable', code: '2200', name: 'TDS Payable' },
+  { key: 'penaltyIncome', code: '4000', name: 'Prepayment Penalty Income' },
+  { key: 'interestExpense', code: '5000', name: 'Interest Expense' },
+  { key: 'lateFeeExpense', code: '5100', name: 'Late Fee Expense' },
+  { key: 'bonusExpense', code: '5200', name: 'Bonus Expense' }
+];
+
 const SettingsPage: React.FC = () => {
   const [settings, setSettings] = useState<Settings | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
-  const [activeTab, setActiveTab] = useState<'company' | 'financial' | 'notifications' | 'security' | 'backup'>('company');
+  const [activeTab, setActiveTab] = useState<'company' | 'financial' | 'tax' | 'accounting' | 'kyc' | 'notifications' | 'security' | 'backup' | 'jobs'>('company');
   const [logoUploading, setLogoUploading] = useState(false);
   const [testingEmail, setTestingEmail] = useState(false);
 
@@ -22,16 +36,34 @@ const SettingsPage: React.FC = () => {
     handleSubmit,
     reset,
     watch,
+    control,
     formState: { errors, isDirty }
   } = useForm<Settings>();
 
+  const {
+    fields: tdsRateFields,
+    append: appendTdsRate,
+    remove: removeTdsRate
+  } = useFieldArray({ control, name: 'tax.tdsRates' });
+
+  const {
+    fields: kycDocumentFields,
+    append: appendKycDocument,
+    remove: removeKycDocument
+  } = useFieldArray({ control, name: 'kyc.requiredDocuments' });
+
   useEffect(() => {
     const fetchSettings = async () => {
       try {
         setLoading(true);
         const response = await settingsService.getSettings();
-        setSettings(response.data);
-        reset(response.data);
+        // Show the convention in effect when none has been chosen yet
+        const loaded = response.data && {
+          ...response.data,
+          financial: { ...response.data.financial, dayCountConvention: resolveDayCountConvention(response.data.financial) }
+        };
+        setSettings(loaded || null);
+        reset(loaded);
       } catch (error: any) {
         console.error('Failed to load settings:', error);
         toast.error('Failed to load settings. Using defaults.');
@@ -59,8 +91,43 @@ const SettingsPage: React.FC = () => {
             currencySymbol: '₹',
             financialYearStart: 'April',
             interestCalculationMethod: 'monthly',
+            dayCountConvention: 'monthly',
             defaultLateFee: 2.0,
-            gracePeriodDays: 7
+            gracePeriodDays: 7,
+            defaultAfterDays: 90,
+            autoCompleteMatured: true,
+            makerCheckerEnabled: false,
+            verificationThreshold: 0
+          },
+          tax: {
+            tdsEnabled: false,
+            tdsSection: '194A',
+            tdsRates: []
+          },
+          accounting: {
+            tallyCompanyName: '',
+            ledgerNames: {
+              cash: '',
+              investorPrincipal: '',
+              interestPayable: '',
+              tdsPayable: '',
+              penaltyIncome: '',
+              interestExpense: '',
+              lateFeeExpense: '',
+              bonusExpense: ''
+            },
+            perInvestorLedgers: false,
+            investorLedgerGroup: 'Unsecured Loans'
+          },
+          kyc: {
+            requiredDocuments: [
+              { key: 'panCard', label: 'PAN Card' },
+              { key: 'aadharCard', label: 'Aadhaar Card' },
+              { key: 'bankStatement', label: 'Bank Statement / Cancelled Cheque' },
+              { key: 'signature', label: 'Signature' }
+            ],
+            validityMonths: 24,
+            requireVerifiedForInvestment: true
           },
           notifications: {
             emailEnabled: true,
@@ -121,6 +188,12 @@ const SettingsPage: React.FC = () => {
         changedData.company = data.company;
       } else if (activeTab === 'financial') {
         changedData.financial = data.financial;
+      } else if (activeTab === 'tax') {
+        changedData.tax = data.tax;
+      } else if (activeTab === 'accounting') {
+        changedData.accounting = data.accounting;
+      } else if (activeTab === 'kyc') {
+        changedData.kyc = data.kyc;
       } else if (activeTab === 'notifications') {
         changedData.notifications = data.notifications;
       } else if (activeTab === 'security') {
@@ -192,9 +265,13 @@ const SettingsPage: React.FC = () => {
   const tabs = [
     { id: 'company', label: 'Company', icon: Building },
     { id: 'financial', label: 'Financial', icon: Database },
+    { id: 'tax', label: 'Tax', icon: Percent },
+    { id: 'accounting', label: 'Accounting', icon: BookOpen },
+    { id: 'kyc', label: 'KYC', icon: ShieldCheck },
     { id: 'notifications', label: 'Notifications', icon: Bell },
     { id: 'security', label: 'Security', icon: Shield },
-    { id: 'backup', label: 'Backup', icon: Database }
+    { id: 'backup', label: 'Backup', icon: Database },
+    { id: 'jobs', label: 'Background Jobs', icon: Clock }
   ];
 
   if (loading) {
@@ -482,15 +559,16 @@ const SettingsPage: React.FC = () => {
                   </div>
 
                   <div>
-                    <label className="block text-sm font-medium text-gray-700">Interest Calculation Method</label>
+                    <label className="block text-sm font-medium text-gray-700">Interest Accrual</label>
                     <select
-                      {...register('financial.interestCalculationMethod')}
+                      {...register('financial.dayCountConvention')}
                       className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
                     >
-                      <option value="daily">Daily</option>
-                      <option value="monthly">Monthly</option>
-                      <option value="yearly">Yearly</option>
+                      {Object.entries(DAY_COUNT_CONVENTION_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
                     </select>
+                    <p className="mt-1 text-xs text-gray-500">Plans can override it; applies to investments created after the change</p>
                   </div>
 
                   <div>
@@ -509,6 +587,7 @@ const SettingsPage: React.FC = () => {
                     {errors.financial?.defaultLateFee && (
                       <p className="mt-1 text-sm text-red-600">{errors.financial.defaultLateFee.message}</p>
                     )}
+                    <p className="mt-1 text-xs text-gray-500">Per month late, on the amount due; plans can set their own late fee</p>
                   </div>
 
                   <div>
@@ -527,6 +606,320 @@ const SettingsPage: React.FC = () => {
                       <p className="mt-1 text-sm text-red-600">{errors.financial.gracePeriodDays.message}</p>
                     )}
                   </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Mark Defaulted After (Days Overdue)</label>
+                    <input
+                      {...register('financial.defaultAfterDays', { 
+                        min: { value: 0, message: 'Days cannot be negative' },
+                        max: { value: 365, message: 'Days cannot exceed 365' },
+                        valueAsNumber: true 
+                      })}
+                      type="number"
+                      className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                      placeholder="90"
+                    />
+                    {errors.financial?.defaultAfterDays && (
+                      <p className="mt-1 text-sm text-red-600">{errors.financial.defaultAfterDays.message}</p>
+                    )}
+                    <p className="mt-1 text-xs text-gray-500">Applied by the nightly overdue sweep; 0 never marks investments defaulted</p>
+                  </div>
+
+                  <div className="flex items-center">
+                    <input
+                      {...register('financial.autoCompleteMatured')}
+                      type="checkbox"
+                      className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                    />
+                    <label className="ml-2 text-sm text-gray-700">Complete matured investments once every payout is settled</label>
+                  </div>
+
+                  <div className="flex items-center">
+                    <input
+                      {...register('financial.makerCheckerEnabled')}
+                      type="checkbox"
+                      className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                    />
+                    <label className="ml-2 text-sm text-gray-700">Require a second user to verify payments (maker-checker)</label>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Verify Payments Above (₹)</label>
+                    <input
+                      {...register('financial.verificationThreshold', { 
+                        min: { value: 0, message: 'Threshold cannot be negative' },
+                        valueAsNumber: true 
+                      })}
+                      type="number"
+                      className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                      placeholder="0"
+                    />
+                    {errors.financial?.verificationThreshold && (
+                      <p className="mt-1 text-sm text-red-600">{errors.financial.verificationThreshold.message}</p>
+                    )}
+                    <p className="mt-1 text-xs text-gray-500">Payments above this amount stay pending until verified; 0 applies to every payment</p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Tax Settings */}
+            {activeTab === 'tax' && (
+              <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+                <h3 className="text-lg font-medium text-gray-900 mb-6">Tax Deducted at Source</h3>
+                <div className="space-y-6">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="flex items-center">
+                      <input
+                        {...register('tax.tdsEnabled')}
+                        type="checkbox"
+                        className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                      />
+                      <label className="ml-2 text-sm text-gray-700">Withhold TDS on interest payouts</label>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Section</label>
+                      <input
+                        {...register('tax.tdsSection', { required: 'Section is required' })}
+                        className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="194A"
+                      />
+                      {errors.tax?.tdsSection && (
+                        <p className="mt-1 text-sm text-red-600">{errors.tax.tdsSection.message}</p>
+                      )}
+                    </div>
+                  </div>
+
+                  <div>
+                    <div className="flex justify-between items-center mb-2">
+                      <h4 className="text-sm font-medium text-gray-900">Rates by Financial Year</h4>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => appendTdsRate({ financialYear: '', rate: 10, noPanRate: 20, threshold: 5000 })}
+                      >
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add Year
+                      </Button>
+                    </div>
+                    <p className="text-xs text-gray-500 mb-3">
+                      A year without its own entry uses the latest earlier one (10% / 20% without PAN above ₹5,000 if none is set).
+                      Tax applies to the whole year's interest once it crosses the threshold.
+                    </p>
+
+                    {tdsRateFields.length === 0 ? (
+                      <p className="text-sm text-gray-500">No rates configured.</p>
+                    ) : (
+                      <div className="space-y-3">
+                        {tdsRateFields.map((field, index) => (
+                          <div key={field.id} className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+                            <div>
+                              <label className="block text-xs font-medium text-gray-700">Financial Year</label>
+                              <input
+                                {...register(`tax.tdsRates.${index}.financialYear` as const, {
+                                  required: 'Required',
+                                  pattern: { value: /^\d{4}(-\d{2})?$/, message: 'Use 2026-27' }
+                                })}
+                                className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                                placeholder="2026-27"
+                              />
+                              {errors.tax?.tdsRates?.[index]?.financialYear && (
+                                <p className="mt-1 text-xs text-red-600">{errors.tax.tdsRates[index]?.financialYear?.message}</p>
+                              )}
+                            </div>
+                            <div>
+                              <label className="block text-xs font-medium text-gray-700">Rate (%)</label>
+                              <input
+                                {...register(`tax.tdsRates.${index}.rate` as const, { min: 0, max: 100, valueAsNumber: true })}
+                                type="number"
+                                step="0.01"
+                                className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-xs font-medium text-gray-700">Without PAN (%)</label>
+                              <input
+                                {...register(`tax.tdsRates.${index}.noPanRate` as const, { min: 0, max: 100, valueAsNumber: true })}
+                                type="number"
+                                step="0.01"
+                                className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-xs font-medium text-gray-700">Threshold (₹ / year)</label>
+                              <input
+                                {...register(`tax.tdsRates.${index}.threshold` as const, { min: 0, valueAsNumber: true })}
+                                type="number"
+                                className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                              />
+                            </div>
+                            <div>
+                              <Button type="button" variant="outline" size="sm" onClick={() => removeTdsRate(index)}>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Accounting Export Settings */}
+            {activeTab === 'accounting' && (
+              <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+                <h3 className="text-lg font-medium text-gray-900 mb-6">Accounting Export</h3>
+                <div className="space-y-6">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Tally Company Name</label>
+                      <input
+                        {...register('accounting.tallyCompanyName')}
+                        className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="Company open in Tally"
+                      />
+                      <p className="mt-1 text-xs text-gray-500">Leave blank to import into whichever company is open</p>
+                    </div>
+                  </div>
+
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-900 mb-2">Ledger Names</h4>
+                    <p className="text-xs text-gray-500 mb-3">
+                      Exported entries are posted to these ledgers, which must already exist in Tally. A blank name uses the account name.
+                    </p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {LEDGER_ACCOUNTS.map(account => (
+                        <div key={account.key}>
+                          <label className="block text-sm font-medium text-gray-700">
+                            {account.code} {account.name}
+                          </label>
+                          <input
+                            {...register(`accounting.ledgerNames.${account.key}` as const)}
+                            className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                            placeholder={account.name}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="flex items-center">
+                      <input
+                        {...register('accounting.perInvestorLedgers')}
+                        type="checkbox"
+                        className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                      />
+                      <label className="ml-2 text-sm text-gray-700">Keep a principal ledger per investor</label>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Investor Ledger Group</label>
+                      <input
+                        {...register('accounting.investorLedgerGroup', { required: 'Group is required' })}
+                        className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="Unsecured Loans"
+                      />
+                      {errors.accounting?.investorLedgerGroup && (
+                        <p className="mt-1 text-sm text-red-600">{errors.accounting.investorLedgerGroup.message}</p>
+                      )}
+                      <p className="mt-1 text-xs text-gray-500">Per-investor ledgers are created under this Tally group</p>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* KYC Settings */}
+            {activeTab === 'kyc' && (
+              <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+                <h3 className="text-lg font-medium text-gray-900 mb-6">KYC Verification</h3>
+                <div className="space-y-6">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Re-KYC After (months)</label>
+                      <input
+                        {...register('kyc.validityMonths', { min: 0, max: 120, valueAsNumber: true })}
+                        type="number"
+                        className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      <p className="mt-1 text-xs text-gray-500">Verified KYC expires this long after approval; 0 never expires</p>
+                    </div>
+
+                    <div className="flex items-center">
+                      <input
+                        {...register('kyc.requireVerifiedForInvestment')}
+                        type="checkbox"
+                        className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                      />
+                      <label className="ml-2 text-sm text-gray-700">Only allow new investments for investors with verified KYC</label>
+                    </div>
+                  </div>
+
+                  <div>
+                    <div className="flex justify-between items-center mb-2">
+                      <h4 className="text-sm font-medium text-gray-900">Required Documents</h4>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => appendKycDocument({ key: '', label: '' })}
+                      >
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add Document
+                      </Button>
+                    </div>
+                    <p className="text-xs text-gray-500 mb-3">
+                      Every document must be uploaded before KYC can be sent for review. Keys are stored on uploads, so keep them once in use.
+                    </p>
+
+                    <div className="space-y-3">
+                      {kycDocumentFields.map((field, index) => (
+                        <div key={field.id} className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+                          <div>
+                            <label className="block text-xs font-medium text-gray-700">Key</label>
+                            <input
+                              {...register(`kyc.requiredDocuments.${index}.key` as const, {
+                                required: 'Required',
+                                pattern: { value: /^[a-zA-Z][a-zA-Z0-9_]*$/, message: 'Letters, digits or _' }
+                              })}
+                              className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                              placeholder="passportPhoto"
+                            />
+                            {errors.kyc?.requiredDocuments?.[index]?.key && (
+                              <p className="mt-1 text-xs text-red-600">{errors.kyc.requiredDocuments[index]?.key?.message}</p>
+                            )}
+                          </div>
+                          <div className="md:col-span-3">
+                            <label className="block text-xs font-medium text-gray-700">Label</label>
+                            <input
+                              {...register(`kyc.requiredDocuments.${index}.label` as const, { required: 'Required' })}
+                              className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                              placeholder="Passport Photo"
+                            />
+                            {errors.kyc?.requiredDocuments?.[index]?.label && (
+                              <p className="mt-1 text-xs text-red-600">{errors.kyc.requiredDocuments[index]?.label?.message}</p>
+                            )}
+                          </div>
+                          <div>
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              onClick={() => removeKycDocument(index)}
+                              disabled={kycDocumentFields.length <= 1}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
                 </div>
               </div>
             )}
@@ -843,28 +1236,33 @@ const SettingsPage: React.FC = () => {
             )}
 
             {/* Save Button */}
-            <div className="flex justify-end space-x-3">
-              <Button 
-                type="button" 
-                variant="outline"
-                onClick={() => {
-                  reset(settings);
-                  toast.info('Changes discarded');
-                }}
-                disabled={!isDirty}
-              >
-                Discard Changes
-              </Button>
-              <Button 
-                type="submit" 
-                loading={saving}
-                disabled={!isDirty}
-              >
-                <Save className="h-4 w-4 mr-2" />
-                Save Settings
-              </Button>
-            </div>
+            {activeTab !== 'jobs' && (
+              <div className="flex justify-end space-x-3">
+                <Button 
+                  type="button" 
+                  variant="outline"
+                  onClick={() => {
+                    reset(settings);
+                    toast.info('Changes discarded');
+                  }}
+                  disabled={!isDirty}
+                >
+                  Discard Changes
+                </Button>
+                <Button 
+                  type="submit" 
+                  loading={saving}
+                  disabled={!isDirty}
+                >
+                  <Save className="h-4 w-4 mr-2" />
+                  Save Settings
+                </Button>
+              </div>
+            )}
           </form>
+
+          {/* Jobs are managed through their own API, outside the settings form */}
+          {activeTab === 'jobs' && <BackgroundJobs />}
         </motion.div>
       </div>
     </div>
@@ -0,0 +1,52 @@
+// src/pages/statements/StatementsPage.tsx - Investor's own account statement and interest certificates
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+import AccountStatement from '../../components/investors/AccountStatement';
+import InterestCertificate from '../../components/investors/InterestCertificate';
+import { investmentsService } from '../../services/investments';
+import { Investment } from '../../types';
+
+const StatementsPage: React.FC = () => {
+  const [investments, setInvestments] = useState<Investment[]>([]);
+
+  useEffect(() => {
+    investmentsService.getInvestments({ limit: 100 })
+      .then(response => setInvestments(response.data || []))
+      .catch(() => toast.error('Failed to load investments'));
+  }, []);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <h1 className="text-2xl font-bold text-gray-900">Account Statement</h1>
+        <p className="text-gray-600">Investments, interest and payouts on your account for any period</p>
+      </motion.div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="bg-white p-6 rounded-lg shadow-sm border border-gray-200"
+      >
+        <AccountStatement investments={investments} />
+      </motion.div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2 }}
+        className="bg-white p-6 rounded-lg shadow-sm border border-gray-200"
+      >
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Interest Certificate</h3>
+        <InterestCertificate />
+      </motion.div>
+    </div>
+  );
+};
+
+export default StatementsPage;
@@ -0,0 +1,25 @@
+// src/services/certificates.ts - Annual interest certificates
+import api from './api';
+import { ApiResponse, InterestCertificate } from '../types';
+
+type CertificateParams = { investor?: string; financialYear?: string };
+
+export const certificatesService = {
+  async getInterestCertificate(params: CertificateParams): Promise<ApiResponse<InterestCertificate>> {
+    return api.get('/certificates/interest', { params });
+  },
+
+  async downloadInterestCertificate(certificate: InterestCertificate): Promise<Blob> {
+    return api.download(
+      '/certificates/interest',
+      `interest_certificate_${certificate.investor.investorId}_${certificate.financialYear}.pdf`,
+      { params: { investor: certificate.investor._id, financialYear: certificate.financialYear, format: 'pdf' } }
+    );
+  },
+
+  async downloadCertificateArchive(financialYear: string): Promise<Blob> {
+    return api.download('/certificates/interest/archive', `interest_certificates_${financialYear}.zip`, {
+      params: { financialYear }
+    });
+  }
+};
@@ -1,6 +1,20 @@
 // src/services/investments.ts - Updated Investments Service
 import api from './api';
-import { Investment, ApiResponse, PaginationParams, CalculationResult } from '../types';
+import {
+  Investment,
+  ApiResponse,
+  PaginationParams,
+  CalculationResult,
+  HoldingInput,
+  LateFeeSummary,
+  Payment,
+  PaymentSchedule,
+  PrepaymentRequest,
+  PrepaymentSettlement,
+  ScheduleRestructureChanges,
+  ScheduleRestructureDiff,
+  ScheduleRestructureRequest
+} from '../types';
 
 export const investmentsService = {
   // ================================
@@ -28,7 +42,7 @@ export const investmentsService = {
     principalAmount: number;
     investmentDate?: string;
     notes?: string;
-  }): Promise<ApiResponse<Investment>> {
+  } & Partial<HoldingInput>): Promise<ApiResponse<Investment>> {
     return api.post('/investments', data);
   },
 
@@ -42,6 +56,18 @@ export const investmentsService = {
     return api.put(`/investments/${id}`, data);
   },
 
+  // ================================
+  // HOLDING (joint holders & nominees)
+  // ================================
+
+  async updateHolding(id: string, data: HoldingInput & { reason?: string }): Promise<ApiResponse<Investment>> {
+    return api.put(`/investments/${id}/holding`, data);
+  },
+
+  async downloadAgreement(investment: Pick<Investment, '_id' | 'investmentId'>) {
+    return api.download(`/investments/${investment._id}/agreement`, `agreement-${investment.investmentId}.pdf`);
+  },
+
   // ================================
   // CALCULATION METHODS
   // ================================
@@ -71,16 +97,65 @@ export const investmentsService = {
     return api.get(`/investments/${id}/schedule`);
   },
 
+  // Late fees accrued as of a date (defaults to today); nothing is saved
+  async getLateFees(id: string, asOf?: string): Promise<ApiResponse<LateFeeSummary>> {
+    return api.get(`/investments/${id}/late-fees`, { params: asOf ? { asOf } : undefined });
+  },
+
+  async previewRestructure(
+    id: string,
+    changes: ScheduleRestructureChanges
+  ): Promise<ApiResponse<{ schedule: PaymentSchedule[]; diff: ScheduleRestructureDiff }>> {
+    return api.post(`/investments/${id}/schedule/preview`, changes);
+  },
+
+  // Raises a restructure request; the schedule only changes once an admin approves it
   async updateSchedule(
     id: string,
-    scheduleUpdates: Array<{
-      month: number;
-      dueDate?: string;
-      amount?: number;
+    changes: ScheduleRestructureChanges & { reason: string }
+  ): Promise<ApiResponse<{ request: ScheduleRestructureRequest; diff: ScheduleRestructureDiff }>> {
+    return api.put(`/investments/${id}/schedule`, changes);
+  },
+
+  async getRestructures(id: string): Promise<ApiResponse<ScheduleRestructureRequest[]>> {
+    return api.get(`/investments/${id}/restructures`);
+  },
+
+  async approveRestructure(
+    id: string,
+    requestId: string
+  ): Promise<ApiResponse<{ investment: Investment; diff: ScheduleRestructureDiff }>> {
+    return api.post(`/investments/${id}/restructures/${requestId}/approve`);
+  },
+
+  async rejectRestructure(
+    id: string,
+    requestId: string,
+    reviewNotes?: string
+  ): Promise<ApiResponse<ScheduleRestructureRequest>> {
+    return api.post(`/investments/${id}/restructures/${requestId}/reject`, { reviewNotes });
+  },
+
+  // ================================
+  // PREPAYMENT & PREMATURE CLOSURE
+  // ================================
+
+  async quotePrepayment(
+    id: string,
+    data: PrepaymentRequest
+  ): Promise<ApiResponse<PrepaymentSettlement & { schedule: PaymentSchedule[] }>> {
+    return api.post(`/investments/${id}/prepayment/quote`, data);
+  },
+
+  async recordPrepayment(
+    id: string,
+    data: PrepaymentRequest & {
+      paymentMethod: Payment['paymentMethod'];
+      referenceNumber?: string;
       notes?: string;
-    }>
-  ): Promise<ApiResponse<any>> {
-    return api.put(`/investments/${id}/schedule`, { scheduleUpdates });
+    }
+  ): Promise<ApiResponse<{ investment: Investment; settlement: PrepaymentSettlement; payments: Payment[] }>> {
+    return api.post(`/investments/${id}/prepayment`, data);
   },
 
   // ================================
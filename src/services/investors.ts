@@ -1,6 +1,15 @@
 // src/services/investors.ts - Complete Enhanced Investors Service
 import api from './api';
-import { Investor, ApiResponse, PaginationParams } from '../types';
+import {
+  Investor,
+  ApiResponse,
+  PaginationParams,
+  SensitiveAccessEntry,
+  SensitiveField,
+  DuplicateGroup,
+  InvestorMergeEntry,
+  JointHolding
+} from '../types';
 
 export interface CreateInvestorData extends Partial<Investor> {
   // User account creation fields
@@ -11,6 +20,8 @@ export interface CreateInvestorData extends Partial<Investor> {
     sendCredentials?: boolean;
     temporaryPassword?: boolean;
   };
+  // Save even though likely (not exact) duplicates were found
+  confirmDuplicates?: boolean;
 }
 
 export interface UserAccountCreationResult {
@@ -66,6 +77,7 @@ export const investorsService = {
   // Get single investor with detailed information
   async getInvestor(id: string): Promise<ApiResponse<Investor & {
     investments: any[];
+    jointHoldings: JointHolding[];
     paymentSummary: {
       totalAmount: number;
       totalInterest: number;
@@ -82,7 +94,7 @@ export const investorsService = {
   },
 
   // Update investor
-  async updateInvestor(id: string, data: Partial<Investor>): Promise<ApiResponse<Investor>> {
+  async updateInvestor(id: string, data: Partial<Investor> & { confirmDuplicates?: boolean }): Promise<ApiResponse<Investor>> {
     return api.put(`/investors/${id}`, data);
   },
 
@@ -304,18 +316,58 @@ export const investorsService = {
   // KYC & COMPLIANCE
   // ================================
 
-  // Update KYC status
+  // Approve or reject KYC awaiting review (see kycService for the full workflow)
   async updateKYCStatus(
     investorId: string,
     kycUpdate: {
-      status: 'pending' | 'verified' | 'rejected';
-      verifiedBy?: string;
-      verificationDate?: string;
-      notes?: string;
-      documents?: string[];
+      status: 'verified' | 'rejected';
+      reason: string;
     }
   ): Promise<ApiResponse<any>> {
-    return api.put(`/investors/${investorId}/kyc-status`, kycUpdate);
+    return api.put(`/kyc/${investorId}/status`, kycUpdate);
+  },
+
+  // Full value of a masked identifier (admin only); the reveal is logged with the reason
+  async revealIdentifier(
+    investorId: string,
+    field: SensitiveField,
+    reason: string
+  ): Promise<ApiResponse<{ field: SensitiveField; value: string }>> {
+    return api.post(`/investors/${investorId}/reveal`, { field, reason });
+  },
+
+  async getSensitiveAccessLog(investorId: string): Promise<ApiResponse<SensitiveAccessEntry[]>> {
+    return api.get(`/investors/${investorId}/access-log`);
+  },
+
+  // ================================
+  // DUPLICATES
+  // ================================
+
+  // Groups of investors that look like the same person
+  async getDuplicateGroups(): Promise<ApiResponse<DuplicateGroup[]>> {
+    return api.get('/investors/duplicates');
+  },
+
+  // Merge sourceId into survivorId (admin only); the source is kept, marked merged
+  async mergeInvestors(
+    survivorId: string,
+    sourceId: string,
+    reason: string
+  ): Promise<ApiResponse<{ investor: Investor; moved: InvestorMergeEntry['moved'] }>> {
+    return api.post(`/investors/${survivorId}/merge`, { sourceId, reason });
+  },
+
+  // ================================
+  // DEATH OF AN INVESTOR
+  // ================================
+
+  // Admin only: deactivates the investor and flags their investments for closure to survivors or nominees
+  async recordDeath(
+    investorId: string,
+    data: { dateOfDeath: string; reference: string }
+  ): Promise<ApiResponse<{ investor: Investor; investmentsFlagged: number }>> {
+    return api.post(`/investors/${investorId}/death`, data);
   },
 
   // Get compliance status
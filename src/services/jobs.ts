@@ -0,0 +1,17 @@
+// src/services/jobs.ts - Background job status and manual triggers (admin only)
+import api from './api';
+import { ApiResponse, JobInfo, JobRun, PaginationParams } from '../types';
+
+export const jobsService = {
+  async getJobs(): Promise<ApiResponse<JobInfo[]>> {
+    return api.get('/jobs');
+  },
+
+  async getRuns(params?: PaginationParams & { job?: string }): Promise<ApiResponse<JobRun[]>> {
+    return api.get('/jobs/runs', { params });
+  },
+
+  async runJob(name: string): Promise<ApiResponse<JobRun>> {
+    return api.post(`/jobs/${name}/run`);
+  }
+};
\ No newline at end of file
@@ -0,0 +1,35 @@
+// src/services/kyc.ts - KYC documents, submission and the reviewer queue
+import api from './api';
+import { ApiResponse, KycDetails, KycQueueItem, KycQueueStage } from '../types';
+
+export const kycService = {
+  async getQueue(params: {
+    stage?: KycQueueStage;
+    search?: string;
+    page?: number;
+    limit?: number;
+  } = {}): Promise<ApiResponse<KycQueueItem[]>> {
+    return api.get('/kyc/queue', { params });
+  },
+
+  async getKyc(investorId: string): Promise<ApiResponse<KycDetails>> {
+    return api.get(`/kyc/${investorId}`);
+  },
+
+  async uploadDocument(investorId: string, type: string, file: File): Promise<ApiResponse<KycDetails>> {
+    return api.upload(`/kyc/${investorId}/documents`, file, { type });
+  },
+
+  // Blob with the stored content type, for previews
+  async getDocument(investorId: string, fileId: string): Promise<Blob> {
+    return api.download(`/kyc/${investorId}/documents/${fileId}`);
+  },
+
+  async submit(investorId: string): Promise<ApiResponse<KycDetails>> {
+    return api.post(`/kyc/${investorId}/submit`);
+  },
+
+  async decide(investorId: string, status: 'verified' | 'rejected', reason: string): Promise<ApiResponse<KycDetails>> {
+    return api.put(`/kyc/${investorId}/status`, { status, reason });
+  }
+};
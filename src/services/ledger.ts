@@ -0,0 +1,56 @@
+// src/services/ledger.ts - General ledger: trial balance, account ledgers, counter reconciliation, exports
+import api from './api';
+import {
+  AccountingExportFormat,
+  AccountLedger,
+  ApiResponse,
+  CounterReconciliation,
+  JournalEntryType,
+  LedgerAccount,
+  TrialBalance
+} from '../types';
+
+type AccountLedgerParams = {
+  from?: string;
+  to?: string;
+  investor?: string;
+  investment?: string;
+  page?: number;
+  limit?: number;
+};
+
+export const ledgerService = {
+  async getAccounts(): Promise<ApiResponse<LedgerAccount[]>> {
+    return api.get('/ledger/accounts');
+  },
+
+  async getTrialBalance(asOf?: string): Promise<ApiResponse<TrialBalance>> {
+    return api.get('/ledger/trial-balance', { params: { asOf } });
+  },
+
+  async getAccountLedger(code: string, params: AccountLedgerParams = {}): Promise<ApiResponse<AccountLedger>> {
+    return api.get(`/ledger/accounts/${code}/entries`, { params });
+  },
+
+  async downloadExport(params: {
+    from: string;
+    to: string;
+    format: AccountingExportFormat;
+    types?: JournalEntryType[];
+  }): Promise<Blob> {
+    const fileName = params.format === 'tally'
+      ? `tally_vouchers_${params.from}_${params.to}.xml`
+      : `journal_${params.from}_${params.to}.csv`;
+    return api.download('/ledger/export', fileName, {
+      params: { ...params, types: params.types?.join(',') }
+    });
+  },
+
+  async getReconciliation(): Promise<ApiResponse<CounterReconciliation>> {
+    return api.get('/ledger/reconciliation');
+  },
+
+  async applyReconciliation(): Promise<ApiResponse<CounterReconciliation>> {
+    return api.post('/ledger/reconciliation');
+  }
+};
@@ -1,6 +1,17 @@
 // src/services/payments.ts - Complete Payment Services with Document Support
 import api from './api';
-import { Payment, ApiResponse, PaginationParams } from '../types';
+import {
+  Payment,
+  ApiResponse,
+  PaginationParams,
+  AllocationPreview,
+  PaymentReversalKind,
+  VerificationDecision,
+  BulkVerificationResult,
+  PayoutDueRow,
+  PayoutRunRequest,
+  PayoutBatch
+} from '../types';
 
 export const paymentsService = {
   // Get all payments
@@ -23,17 +34,38 @@ export const paymentsService = {
     return api.post('/payments', data);
   },
 
+  // Proposed split of a lump-sum payment across the schedule
+  async previewAllocation(data: {
+    investment: string;
+    amount: number;
+    paymentDate?: string;
+  }): Promise<ApiResponse<AllocationPreview>> {
+    return api.post('/payments/allocation/preview', data);
+  },
+
   // Update payment
-  async updatePayment(id: string, data: Partial<Payment>): Promise<ApiResponse<Payment>> {
+  async updatePayment(
+    id: string,
+    data: Partial<Pick<Payment, 'notes' | 'referenceNumber' | 'paymentMethod'>> & {
+      status?: 'pending' | 'failed' | 'cancelled';
+    }
+  ): Promise<ApiResponse<Payment>> {
     return api.put(`/payments/${id}`, data);
   },
 
-  // Verify payment
-  async verifyPayment(id: string, data: { notes?: string }): Promise<ApiResponse<Payment>> {
-    return api.put(`/payments/${id}`, { 
-      verifiedBy: 'current_user', // Will be set by backend from token
-      ...data 
-    });
+  // Maker-checker: approve or reject a payment awaiting verification
+  async verifyPayment(
+    id: string,
+    data: { decision?: VerificationDecision; notes?: string }
+  ): Promise<ApiResponse<Payment>> {
+    return api.post(`/payments/${id}/verify`, data);
+  },
+
+  async bulkVerifyPayments(
+    paymentIds: string[],
+    data: { decision: VerificationDecision; notes?: string }
+  ): Promise<ApiResponse<BulkVerificationResult>> {
+    return api.post('/payments/verification/bulk', { paymentIds, ...data });
   },
 
   // Document Management Methods
@@ -76,6 +108,16 @@ export const paymentsService = {
     return response.data;
   },
 
+  // Generated receipt / reversal voucher PDF
+  async downloadReceipt(payment: Pick<Payment, '_id' | 'paymentId' | 'reversalOf'>): Promise<Blob> {
+    const prefix = payment.reversalOf ? 'Voucher' : 'Receipt';
+    return api.download(`/payments/${payment._id}/receipt`, `${prefix}-${payment.paymentId}.pdf`);
+  },
+
+  async emailReceipt(id: string): Promise<ApiResponse<void>> {
+    return api.post(`/payments/${id}/receipt/email`);
+  },
+
   // Legacy receipt upload (for backward compatibility)
   async uploadReceipt(id: string, file: File): Promise<ApiResponse<any>> {
     const formData = new FormData();
@@ -87,12 +129,33 @@ export const paymentsService = {
     });
   },
 
-  // Bulk payment operations
-  async createBulkPayments(payments: any[], options?: { batchId?: string }): Promise<ApiResponse<any>> {
-    return api.post('/payments/bulk', { 
-      payments, 
-      batchId: options?.batchId || Date.now().toString()
-    });
+  // Payout runs - bulk payments for every due row in a date range
+  async getPayoutDueRows(params: {
+    dueFrom: string;
+    dueTo: string;
+    paymentDate?: string;
+  }): Promise<ApiResponse<{ rows: PayoutDueRow[]; totals: { count: number; amount: number } }>> {
+    return api.get('/payments/bulk/due', { params });
+  },
+
+  async createBulkPayments(data: PayoutRunRequest): Promise<ApiResponse<PayoutBatch>> {
+    return api.post('/payments/bulk', data);
+  },
+
+  async getPayoutBatches(params?: PaginationParams): Promise<ApiResponse<PayoutBatch[]>> {
+    return api.get('/payments/batches', { params });
+  },
+
+  async getPayoutBatch(batchId: string): Promise<ApiResponse<PayoutBatch>> {
+    return api.get(`/payments/batches/${batchId}`);
+  },
+
+  async downloadPayoutBatchSummary(batchId: string): Promise<Blob> {
+    return api.download(`/payments/batches/${batchId}/summary`, `payout_run_${batchId}.csv`);
+  },
+
+  async rollbackPayoutBatch(batchId: string, reason: string): Promise<ApiResponse<PayoutBatch>> {
+    return api.post(`/payments/batches/${batchId}/rollback`, { reason });
   },
 
   async bulkUpdatePayments(paymentIds: string[], updates: Partial<Payment>): Promise<ApiResponse<any>> {
@@ -130,29 +193,6 @@ export const paymentsService = {
     return api.post('/payments/reminders', { investmentId, scheduleMonth });
   },
 
-  // Payment reconciliation
-  async reconcilePayments(data: {
-    bankStatementFile?: File;
-    reconciliationDate: string;
-    paymentIds?: string[];
-  }): Promise<ApiResponse<any>> {
-    const formData = new FormData();
-    
-    if (data.bankStatementFile) {
-      formData.append('bankStatement', data.bankStatementFile);
-    }
-    
-    formData.append('reconciliationDate', data.reconciliationDate);
-    
-    if (data.paymentIds) {
-      data.paymentIds.forEach(id => formData.append('paymentIds[]', id));
-    }
-
-    return api.post('/payments/reconciliation', formData, {
-      headers: { 'Content-Type': 'multipart/form-data' }
-    });
-  },
-
   // Payment reports
   async generatePaymentReport(params: {
     type: 'summary' | 'detailed' | 'reconciliation';
@@ -339,13 +379,16 @@ export const paymentsService = {
     return api.get('/payments/compliance', { params });
   },
 
-  // Payment reversal
+  // Payment reversal - records a compensating entry and unwinds the schedule
   async reversePayment(
     id: string,
-    reason: string,
-    approvalCode?: string
-  ): Promise<ApiResponse<any>> {
-    return api.post(`/payments/${id}/reverse`, { reason, approvalCode });
+    data: {
+      reason: string;
+      kind?: PaymentReversalKind;
+      referenceNumber?: string;
+    }
+  ): Promise<ApiResponse<{ payment: Payment; reversal: Payment }>> {
+    return api.post(`/payments/${id}/reverse`, data);
   },
 
   // Payment disputes
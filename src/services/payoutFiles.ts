@@ -0,0 +1,45 @@
+// src/services/payoutFiles.ts - Bank bulk-payment (NEFT/RTGS) files for due schedule rows
+import api from './api';
+import {
+  ApiResponse,
+  BankFileFormat,
+  PaginationParams,
+  PayoutExport,
+  PayoutFileRequest,
+  PayoutFileRow,
+  TransferMode
+} from '../types';
+
+export const payoutFilesService = {
+  async getFormats(): Promise<ApiResponse<BankFileFormat[]>> {
+    return api.get('/payout-files/formats');
+  },
+
+  async previewRows(params: {
+    dueFrom: string;
+    dueTo: string;
+    paymentDate?: string;
+    transferMode?: 'auto' | TransferMode;
+  }): Promise<ApiResponse<{
+    rows: PayoutFileRow[];
+    totals: { count: number; amount: number; valid: number; invalid: number };
+  }>> {
+    return api.get('/payout-files/preview', { params });
+  },
+
+  async generateFile(data: PayoutFileRequest): Promise<ApiResponse<PayoutExport>> {
+    return api.post('/payout-files', data);
+  },
+
+  async getExports(params?: PaginationParams): Promise<ApiResponse<PayoutExport[]>> {
+    return api.get('/payout-files', { params });
+  },
+
+  async getExport(exportId: string): Promise<ApiResponse<PayoutExport>> {
+    return api.get(`/payout-files/${exportId}`);
+  },
+
+  async downloadFile(payoutExport: Pick<PayoutExport, 'exportId' | 'fileName'>): Promise<Blob> {
+    return api.download(`/payout-files/${payoutExport.exportId}/download`, payoutExport.fileName);
+  }
+};
@@ -0,0 +1,57 @@
+// src/services/reconciliation.ts - Bank statement import and reconciliation against scheduled dues
+import api from './api';
+import {
+  ApiResponse,
+  BankStatement,
+  PaginationParams,
+  ReconciliationException,
+  StatementColumnMapping,
+  StatementConfirmResult,
+  StatementFormat,
+  StatementLineUpdate
+} from '../types';
+
+export const reconciliationService = {
+  async importStatement(data: {
+    file: File;
+    format?: StatementFormat;
+    mapping?: StatementColumnMapping;
+    dateWindowDays?: number;
+  }): Promise<ApiResponse<BankStatement>> {
+    const formData = new FormData();
+    formData.append('statement', data.file);
+
+    if (data.format) formData.append('format', data.format);
+    if (data.mapping) formData.append('mapping', JSON.stringify(data.mapping));
+    if (data.dateWindowDays !== undefined) formData.append('dateWindowDays', data.dateWindowDays.toString());
+
+    return api.post('/reconciliation/statements', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' }
+    });
+  },
+
+  async getStatements(params?: PaginationParams): Promise<ApiResponse<BankStatement[]>> {
+    return api.get('/reconciliation/statements', { params });
+  },
+
+  async getStatement(id: string): Promise<ApiResponse<BankStatement>> {
+    return api.get(`/reconciliation/statements/${id}`);
+  },
+
+  async rematchStatement(id: string): Promise<ApiResponse<BankStatement>> {
+    return api.post(`/reconciliation/statements/${id}/rematch`);
+  },
+
+  // Without lineIds every proposed line is confirmed
+  async confirmMatches(id: string, lineIds?: string[]): Promise<ApiResponse<StatementConfirmResult>> {
+    return api.post(`/reconciliation/statements/${id}/confirm`, lineIds ? { lineIds } : {});
+  },
+
+  async updateLine(id: string, lineId: string, update: StatementLineUpdate): Promise<ApiResponse<BankStatement>> {
+    return api.put(`/reconciliation/statements/${id}/lines/${lineId}`, update);
+  },
+
+  async getExceptions(params?: PaginationParams): Promise<ApiResponse<ReconciliationException[]>> {
+    return api.get('/reconciliation/exceptions', { params });
+  }
+};
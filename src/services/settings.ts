@@ -1,6 +1,6 @@
 // src/services/settings.ts - Enhanced Settings Service
 import api from './api';
-import { Settings, ApiResponse } from '../types';
+import { Settings, ApiResponse, DayCountConvention } from '../types';
 
 export const settingsService = {
   // ================================
@@ -67,6 +67,7 @@ export const settingsService = {
     currencySymbol?: string;
     financialYearStart?: 'January' | 'April' | 'July' | 'October';
     interestCalculationMethod?: 'daily' | 'monthly' | 'yearly';
+    dayCountConvention?: DayCountConvention;
     defaultLateFee?: number;
     gracePeriodDays?: number;
   }): Promise<ApiResponse<Settings>> {
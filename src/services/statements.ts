@@ -0,0 +1,27 @@
+// src/services/statements.ts - Investor account statements
+import api from './api';
+import { AccountStatement, ApiResponse, StatementFrequency, StatementParams } from '../types';
+
+const fileName = (params: StatementParams, extension: string) =>
+  `statement_${params.from}_${params.to}.${extension}`;
+
+export const statementsService = {
+  async getStatement(params: StatementParams): Promise<ApiResponse<AccountStatement>> {
+    return api.get('/statements', { params });
+  },
+
+  async downloadStatement(params: StatementParams, format: 'pdf' | 'csv'): Promise<Blob> {
+    return api.download('/statements', fileName(params, format), { params: { ...params, format } });
+  },
+
+  async emailStatement(params: StatementParams & { investor: string }): Promise<ApiResponse<void>> {
+    return api.post('/statements/email', params);
+  },
+
+  async updateDelivery(investorId: string, frequency: StatementFrequency): Promise<ApiResponse<{
+    frequency: StatementFrequency;
+    lastPeriodEnd?: string;
+  }>> {
+    return api.put(`/statements/delivery/${investorId}`, { frequency });
+  }
+};
@@ -0,0 +1,37 @@
+// src/services/tax.ts - TDS report and Form 15G/15H exemptions
+import api from './api';
+import { ApiResponse, TaxExemption, TdsReport } from '../types';
+
+type TdsReportParams = { financialYear?: string; quarter?: number };
+
+export const taxService = {
+  async getTdsReport(params: TdsReportParams): Promise<ApiResponse<TdsReport>> {
+    return api.get('/tax/tds-report', { params });
+  },
+
+  async downloadTdsReport(params: TdsReportParams & { financialYear: string }): Promise<Blob> {
+    const fileName = `tds_${params.financialYear}${params.quarter ? `_Q${params.quarter}` : ''}.csv`;
+    return api.download('/tax/tds-report', fileName, { params: { ...params, format: 'csv' } });
+  },
+
+  async getExemptions(investorId: string): Promise<ApiResponse<{
+    exemptions: TaxExemption[];
+    panVerified: boolean;
+    currentFinancialYear: string;
+  }>> {
+    return api.get(`/tax/exemptions/${investorId}`);
+  },
+
+  async addExemption(investorId: string, data: {
+    form: TaxExemption['form'];
+    financialYear: string;
+    submittedAt: string;
+    notes?: string;
+  }): Promise<ApiResponse<TaxExemption[]>> {
+    return api.post(`/tax/exemptions/${investorId}`, data);
+  },
+
+  async removeExemption(investorId: string, exemptionId: string): Promise<ApiResponse<TaxExemption[]>> {
+    return api.delete(`/tax/exemptions/${investorId}/${exemptionId}`);
+  }
+};
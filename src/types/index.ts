@@ -53,6 +53,8 @@ export interface InvestorAddress {
   country: string;
 }
 
+// panNumber, aadharNumber and accountNumber arrive masked (e.g. XXXX-XXXX-1234); admins reveal
+// the full value through investorsService.revealIdentifier
 export interface InvestorKYC {
   panNumber: string;
   aadharNumber: string;
@@ -68,9 +70,72 @@ export interface InvestorKYC {
     bankStatement?: string;
     signature?: string;
   };
-  verificationStatus: 'pending' | 'verified' | 'rejected';
+  files?: KycFile[];
+  verificationStatus: KycStatus;
+  cycle?: number;
+  submittedAt?: string;
   verifiedAt?: string;
   verifiedBy?: string;
+  expiresAt?: string;
+  rejectionReason?: string;
+  reviewHistory?: KycReviewEvent[];
+}
+
+export type SensitiveField = 'panNumber' | 'aadharNumber' | 'accountNumber';
+
+export interface SensitiveAccessEntry {
+  _id: string;
+  field: SensitiveField;
+  reason: string;
+  performedBy?: { _id: string; name: string; email: string };
+  performedAt: string;
+}
+
+export type DuplicateReason = 'pan' | 'aadhaar' | 'email' | 'name_phone';
+
+// An existing investor a new or edited record may duplicate
+export interface DuplicateCandidate {
+  _id: string;
+  investorId: string;
+  name: string;
+  email: string;
+  phone: string;
+  status: Investor['status'];
+  totalInvestment: number;
+  activeInvestments: number;
+  hasUserAccount: boolean;
+  createdAt: string;
+  reasons?: DuplicateReason[];
+  blocking?: boolean;
+}
+
+// 409 response when a save would duplicate other investors; canConfirm when only likely matches
+export interface DuplicateConflict {
+  message: string;
+  duplicates: DuplicateCandidate[];
+  canConfirm: boolean;
+}
+
+export interface DuplicateGroup {
+  reasons: DuplicateReason[];
+  blocking: boolean;
+  investors: DuplicateCandidate[];
+}
+
+export interface InvestorMergeEntry {
+  _id: string;
+  investor: string;
+  investorId: string;
+  name: string;
+  reason: string;
+  moved: {
+    investments: number;
+    payments: number;
+    documents: number;
+    userAccount: 'none' | 'moved' | 'deactivated';
+  };
+  performedBy?: string;
+  performedAt: string;
 }
 
 export interface InvestorAgreement {
@@ -81,6 +146,13 @@ export interface InvestorAgreement {
   description?: string;
 }
 
+export interface InvestorDeceased {
+  dateOfDeath?: string;
+  reference?: string;
+  recordedBy?: string;
+  recordedAt?: string;
+}
+
 export interface Investor {
   _id: string;
   investorId: string;
@@ -93,7 +165,11 @@ export interface Investor {
   totalInvestment: number;
   activeInvestments: number;
   totalReturns: number;
-  status: 'active' | 'inactive' | 'blocked';
+  status: 'active' | 'inactive' | 'blocked' | 'merged';
+  mergedInto?: string | null;
+  mergedAt?: string;
+  mergeHistory?: InvestorMergeEntry[];
+  deceased?: InvestorDeceased;
   riskProfile: 'conservative' | 'moderate' | 'aggressive';
   investmentExperience: 'beginner' | 'intermediate' | 'expert';
   preferredContactMethod: 'email' | 'phone' | 'sms';
@@ -101,6 +177,11 @@ export interface Investor {
   tags: string[];
   lastContactDate?: string;
   nextFollowUpDate?: string;
+  taxExemptions?: TaxExemption[];
+  statementDelivery?: {
+    frequency: StatementFrequency;
+    lastPeriodEnd?: string;
+  };
   userId?: string;
   createdBy: string;
   createdAt: string;
@@ -130,6 +211,15 @@ export interface InterestWithPrincipalPaymentConfig {
   principalPayoutDate?: string;
 }
 
+// Company setting from before conventions could be chosen: daily = Actual/365,
+// monthly = rate per month, yearly = Actual/Actual
+export type InterestCalculationMethod = 'daily' | 'monthly' | 'yearly';
+
+export type DayCountConvention = 'actual_365' | 'actual_actual' | 'thirty_360' | 'monthly';
+
+// How a plan's interestRate is quoted
+export type RateBasis = 'monthly' | 'annual_nominal' | 'annual_effective';
+
 export interface Plan {
   _id: string;
   planId: string;
@@ -138,11 +228,22 @@ export interface Plan {
   
   // Basic Plan Configuration
   interestRate: number;
+  rateBasis?: RateBasis;
   interestType: 'flat' | 'reducing';
   tenure: number;
   minInvestment: number;
   maxInvestment: number;
   
+  // Overrides the company day-count convention when set
+  dayCountConvention?: DayCountConvention | null;
+  prematureWithdrawalPenalty?: number;
+  // Late fee override; a null rate uses the company default late fee (%)
+  lateFeeType?: LateFeeType | null;
+  lateFeeRate?: number | null;
+  // Order a lump-sum payment settles components in, across the schedule
+  allocationOrder?: AllocationComponent[];
+  allocationStrategy?: AllocationStrategy;
+  
   // Payment Type Selection (matches backend)
   paymentType: 'interest' | 'interestWithPrincipal';
   
@@ -167,7 +268,9 @@ export interface Plan {
 // ================================
 
 export interface PaymentSchedule {
+  period?: number;
   month: number;
+  periodStartMonth?: number;
   dueDate: string;
   interestAmount: number;
   principalAmount: number;
@@ -176,6 +279,9 @@ export interface PaymentSchedule {
   status: 'pending' | 'paid' | 'overdue' | 'partial';
   paidAmount: number;
   paidDate?: string;
+  penaltyAccrued?: number;
+  penaltyPaid?: number;
+  penaltyWaived?: number;
 }
 
 export interface InvestmentDocument {
@@ -199,7 +305,7 @@ export interface InvestmentDocument {
 export interface TimelineEntry {
   _id: string;
   date: string;
-  type: 'investment_created' | 'payment_received' | 'payment_overdue' | 'document_uploaded' | 'status_changed' | 'note_added' | 'schedule_updated';
+  type: 'investment_created' | 'payment_received' | 'payment_reversed' | 'payment_overdue' | 'document_uploaded' | 'status_changed' | 'note_added' | 'schedule_updated';
   description: string;
   amount: number;
   performedBy: {
@@ -210,6 +316,216 @@ export interface TimelineEntry {
   metadata: any;
 }
 
+export interface PayoutTerms {
+  frequency: 'monthly' | 'quarterly' | 'half-yearly' | 'yearly' | 'others';
+  interestCadenceMonths: number;
+  principalCadenceMonths: number;
+  principalRepaymentOption: 'fixed' | 'flexible';
+  withdrawalAfterPercentage: number;
+  principalSettlementTerm: number;
+  principalRepaymentPercentage: number;
+}
+
+export interface ScheduleRestructureChanges {
+  effectiveFromMonth: number;
+  interestRate?: number;
+  rateBasis?: RateBasis;
+  interestType?: 'flat' | 'reducing';
+  tenure?: number;
+  moratoriumMonths?: number;
+  holidayMonths?: number[];
+}
+
+export interface ScheduleRestructureRequest extends ScheduleRestructureChanges {
+  _id: string;
+  reason: string;
+  status: 'pending' | 'approved' | 'rejected';
+  requestedBy: string | { _id: string; name: string; email: string };
+  requestedAt: string;
+  reviewedBy?: string | { _id: string; name: string; email: string };
+  reviewedAt?: string;
+  reviewNotes?: string;
+}
+
+export interface ScheduleRestructureTerms {
+  interestRate: number;
+  rateBasis?: RateBasis;
+  interestType: 'flat' | 'reducing';
+  tenure: number;
+  maturityDate: string;
+  totalInterestExpected: number;
+  totalExpectedReturns: number;
+}
+
+export interface ScheduleRestructureDiff {
+  before: ScheduleRestructureTerms;
+  after: ScheduleRestructureTerms;
+  removedRows: Array<Pick<PaymentSchedule, 'month' | 'dueDate' | 'interestAmount' | 'principalAmount' | 'totalAmount'>>;
+  addedRows: Array<Pick<PaymentSchedule, 'month' | 'dueDate' | 'interestAmount' | 'principalAmount' | 'totalAmount'>>;
+}
+
+export type PrepaymentMode = 'reduce_tenure' | 'reduce_instalment';
+
+export interface PrepaymentRequest {
+  foreclose?: boolean;
+  amount?: number;
+  date?: string;
+  mode?: PrepaymentMode;
+  waivePenalty?: boolean;
+}
+
+export interface PrepaymentSettlement {
+  foreclose: boolean;
+  mode: PrepaymentMode;
+  scheduleMonth: number;
+  settlementDate: string;
+  principal: number;
+  interest: number;
+  penalty: number;
+  penaltyPercentage: number;
+  netPayout: number;
+  remainingPrincipal: number;
+  terms: {
+    tenure: number;
+    maturityDate: string;
+    totalInterestExpected: number;
+    totalExpectedReturns: number;
+  };
+  removedRows: number;
+  addedRows: number;
+  // Quotes only: who a closure is paid to after a holder's death
+  deathClaim?: DeathClaim | null;
+}
+
+export type LateFeeType = 'flat' | 'percentage';
+
+// ================================
+// HOLDING TYPES (joint holders & nominees)
+// ================================
+
+export type ModeOfOperation = 'single' | 'either_or_survivor' | 'former_or_survivor' | 'jointly';
+
+export interface JointHolder {
+  investor: {
+    _id: string;
+    investorId: string;
+    name: string;
+    email?: string;
+    phone?: string;
+    status?: Investor['status'];
+    deceased?: InvestorDeceased;
+  };
+  relationship?: string;
+}
+
+export interface NomineeGuardian {
+  name?: string;
+  relationship?: string;
+  phone?: string;
+  address?: string;
+}
+
+export interface Nominee {
+  _id?: string;
+  name: string;
+  relationship: string;
+  dateOfBirth: string;
+  sharePercent: number;
+  phone?: string;
+  address?: string;
+  guardian?: NomineeGuardian;
+}
+
+// Holding as sent to the API: joint holders by investor id
+export interface HoldingInput {
+  jointHolders: Array<{ investor: string; relationship?: string }>;
+  modeOfOperation: ModeOfOperation;
+  nominees: Nominee[];
+}
+
+export interface DeathClaimant {
+  role: 'surviving_holder' | 'nominee';
+  investor?: string;
+  name: string;
+  sharePercent: number;
+  amount: number;
+  payTo: string;
+}
+
+export interface DeathClaim {
+  deceased: Array<{ investor: string; name: string; dateOfDeath: string }>;
+  claimants: DeathClaimant[];
+  paymentIds?: string[];
+  settledAt?: string;
+  settledBy?: string;
+}
+
+// Investment an investor holds as a joint holder (GET /api/investors/:id)
+export interface JointHolding {
+  _id: string;
+  investmentId: string;
+  investor: { _id: string; investorId: string; name: string };
+  principalAmount: number;
+  status: Investment['status'];
+  modeOfOperation: ModeOfOperation;
+  investmentDate: string;
+  maturityDate: string;
+}
+
+export interface LateFeePolicy {
+  type: LateFeeType;
+  rate: number;
+  gracePeriodDays: number;
+}
+
+export interface LateFeeRow {
+  month: number;
+  period: number;
+  dueDate: string;
+  status: PaymentSchedule['status'];
+  daysLate: number;
+  accrued: number;
+  paid: number;
+  waived: number;
+  outstanding: number;
+}
+
+export interface LateFeeSummary {
+  asOf: string;
+  policy: LateFeePolicy;
+  rows: LateFeeRow[];
+  totalOutstanding: number;
+}
+
+export type AllocationComponent = 'penalty' | 'interest' | 'principal';
+export type AllocationStrategy = 'component_first' | 'row_by_row';
+
+export interface PaymentAllocation {
+  scheduleMonth: number;
+  period?: number;
+  dueDate?: string;
+  penaltyAmount: number;
+  interestAmount: number;
+  principalAmount: number;
+  bonusAmount: number;
+  amount: number;
+}
+
+export interface AllocationPreview {
+  waterfall: {
+    order: AllocationComponent[];
+    strategy: AllocationStrategy;
+  };
+  allocations: PaymentAllocation[];
+  totals: {
+    penalty: number;
+    interest: number;
+    principal: number;
+  };
+  unallocated: number;
+  totalOutstanding: number;
+}
+
 export interface RiskAssessment {
   score: number;
   factors: string[];
@@ -226,6 +542,8 @@ export interface Investment {
     email: string;
     phone: string;
     address?: InvestorAddress;
+    status?: Investor['status'];
+    deceased?: InvestorDeceased;
   };
   plan: {
     _id: string;
@@ -234,8 +552,15 @@ export interface Investment {
     paymentType: 'interest' | 'interestWithPrincipal';
     interestType: string;
     interestRate: number;
+    rateBasis?: RateBasis;
     tenure: number;
   };
+
+  // Holding: investor above is the primary holder
+  jointHolders?: JointHolder[];
+  modeOfOperation?: ModeOfOperation;
+  nominees?: Nominee[];
+  deathClaim?: DeathClaim | null;
   
   // Basic Investment Details
   principalAmount: number;
@@ -245,9 +570,19 @@ export interface Investment {
   
   // Financial Details (copied from plan for historical record)
   interestRate: number;
+  rateBasis?: RateBasis;
   interestType: 'flat' | 'reducing';
   tenure: number;
   paymentType: 'interest' | 'interestWithPrincipal';
+  payoutTerms?: PayoutTerms;
+  dayCountConvention?: DayCountConvention;
+  prematureWithdrawalPenalty?: number;
+  lateFeeType?: LateFeeType | null;
+  lateFeeRate?: number | null;
+  allocationOrder?: AllocationComponent[];
+  allocationStrategy?: AllocationStrategy;
+  prepaidPrincipal?: number;
+  closureDate?: string | null;
   
   // Calculated Fields
   totalExpectedReturns: number;
@@ -259,6 +594,7 @@ export interface Investment {
   
   // Payment Schedule
   schedule: PaymentSchedule[];
+  restructures?: ScheduleRestructureRequest[];
   
   // Document management
   documents: InvestmentDocument[];
@@ -295,10 +631,12 @@ export interface PaymentDocument {
     email: string;
   };
   description?: string;
+  // Rendered by the system rather than uploaded
+  generated?: boolean;
 }
 
 export interface PaymentAuditEntry {
-  action: 'created' | 'updated' | 'verified' | 'document_added' | 'document_removed' | 'status_changed';
+  action: 'created' | 'updated' | 'verified' | 'document_added' | 'document_removed' | 'status_changed' | 'penalty_waived' | 'reversed';
   performedBy: {
     _id: string;
     name: string;
@@ -308,6 +646,14 @@ export interface PaymentAuditEntry {
   details: any;
 }
 
+export type PaymentReversalKind = 'reversal' | 'cancellation' | 'refund';
+export type VerificationDecision = 'approve' | 'reject';
+
+export interface BulkVerificationResult {
+  succeeded: string[];
+  failed: { id: string; message: string }[];
+}
+
 export interface Payment {
   _id: string;
   paymentId: string;
@@ -326,18 +672,40 @@ export interface Payment {
     address?: InvestorAddress;
   };
   scheduleMonth: number;
+  allocations?: PaymentAllocation[];
   amount: number;
   paymentDate: string;
   paymentMethod: 'cash' | 'cheque' | 'bank_transfer' | 'upi' | 'card' | 'other';
   referenceNumber?: string;
-  status: 'pending' | 'completed' | 'failed' | 'cancelled';
-  type: 'interest' | 'principal' | 'mixed' | 'penalty' | 'bonus';
+  status: 'pending' | 'completed' | 'failed' | 'cancelled' | 'reversed';
+  type: 'interest' | 'principal' | 'mixed' | 'penalty' | 'bonus' | 'reversal';
   interestAmount: number;
   principalAmount: number;
   penaltyAmount: number;
   bonusAmount: number;
+  penaltyWaived?: number;
+  // Tax withheld from the interest; the investor receives amount - tdsAmount
+  tdsAmount?: number;
+  tds?: PaymentTds;
   notes?: string;
   
+  // Compensating entry: the payment it reverses
+  reversalOf?: string | null;
+  // Prepayment or closure penalty: the settlement payment it was kept back from
+  deductedFrom?: string | null;
+  // Original payment: how and why it was reversed
+  reversal?: {
+    kind: PaymentReversalKind;
+    reason: string;
+    reversedAt: string;
+    reversedBy?: {
+      _id: string;
+      name: string;
+      email: string;
+    };
+    reversalPayment: string;
+  };
+  
   // Enhanced document support - multiple documents per payment
   documents: PaymentDocument[];
   
@@ -359,6 +727,25 @@ export interface Payment {
     email: string;
   };
   verifiedAt?: string;
+  // Recorded under maker-checker and not yet applied to the schedule
+  awaitingVerification?: boolean;
+  // Payout run that recorded this payment
+  batchId?: string | null;
+  // Bank statement line this payment was reconciled against
+  bankReconciliation?: {
+    statement: string;
+    lineId: string;
+    reconciledAt: string;
+    reconciledBy: string;
+  };
+  // Prepayment or closure this settlement payment records
+  prepayment?: {
+    foreclose: boolean;
+    amount: number;
+    date: string;
+    mode: PrepaymentMode;
+    penaltyPercentage: number;
+  } | null;
   
   // Additional tracking fields
   lastModifiedBy?: {
@@ -389,7 +776,8 @@ export interface InvestmentFormData {
 
 export interface PaymentFormData {
   investment: string;
-  scheduleMonth: number;
+  // Left empty for a lump sum allocated across the schedule
+  scheduleMonth?: number;
   amount: number;
   paymentDate: string;
   paymentMethod: 'cash' | 'cheque' | 'bank_transfer' | 'upi' | 'card' | 'other';
@@ -399,6 +787,8 @@ export interface PaymentFormData {
   principalAmount?: number;
   penaltyAmount?: number;
   bonusAmount?: number;
+  waivePenalty?: boolean;
+  penaltyWaiverReason?: string;
   notes?: string;
   documentCategory?: 'receipt' | 'bank_statement' | 'cheque_copy' | 'upi_screenshot' | 'other';
   documentDescription?: string;
@@ -512,9 +902,15 @@ export interface FinancialSettings {
   defaultCurrency: string;
   currencySymbol: string;
   financialYearStart: 'January' | 'April' | 'July' | 'October';
-  interestCalculationMethod: 'daily' | 'monthly' | 'yearly';
+  interestCalculationMethod: InterestCalculationMethod;
+  // Unset on companies that have not chosen one since conventions were added
+  dayCountConvention?: DayCountConvention | null;
   defaultLateFee: number;
   gracePeriodDays: number;
+  defaultAfterDays?: number;
+  autoCompleteMatured?: boolean;
+  makerCheckerEnabled?: boolean;
+  verificationThreshold?: number;
 }
 
 export interface NotificationSettings {
@@ -555,10 +951,51 @@ export interface BackupSettings {
   retentionDays: number;
 }
 
+export interface TdsRate {
+  financialYear: string;
+  rate: number;
+  noPanRate: number;
+  threshold: number;
+}
+
+export interface TaxSettings {
+  tdsEnabled: boolean;
+  tdsSection: string;
+  tdsRates: TdsRate[];
+}
+
+// Ledger names used in journal exports, keyed like the chart of accounts; blank uses the account name
+export interface AccountingSettings {
+  tallyCompanyName: string;
+  ledgerNames: {
+    cash: string;
+    investorPrincipal: string;
+    interestPayable: string;
+    tdsPayable: string;
+    penaltyIncome: string;
+    interestExpense: string;
+    lateFeeExpense: string;
+    bonusExpense: string;
+  };
+  perInvestorLedgers: boolean;
+  investorLedgerGroup: string;
+}
+
+// Documents collected for KYC and how long a verification lasts
+export interface KycSettings {
+  requiredDocuments: Array<{ key: string; label: string }>;
+  // 0 never expires
+  validityMonths: number;
+  requireVerifiedForInvestment: boolean;
+}
+
 export interface Settings {
   _id: string;
   company: CompanySettings;
   financial: FinancialSettings;
+  tax?: TaxSettings;
+  accounting?: AccountingSettings;
+  kyc?: KycSettings;
   notifications: NotificationSettings;
   security: SecuritySettings;
   backup: BackupSettings;
@@ -567,6 +1004,568 @@ export interface Settings {
   updatedAt: string;
 }
 
+// ================================
+// BACKGROUND JOB TYPES
+// ================================
+
+export interface JobRun {
+  _id: string;
+  job: string;
+  trigger: 'schedule' | 'manual';
+  status: 'running' | 'succeeded' | 'failed';
+  startedAt: string;
+  finishedAt?: string | null;
+  durationMs?: number | null;
+  summary: Record<string, number>;
+  error?: string | null;
+  triggeredBy?: {
+    _id: string;
+    name: string;
+    email: string;
+  } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface JobInfo {
+  name: string;
+  schedule: string;
+  description: string;
+  running: boolean;
+  nextRunAt: string | null;
+  lastRun: JobRun | null;
+}
+
+// ================================
+// PAYOUT RUN TYPES
+// ================================
+
+export interface PayoutDueRow {
+  investment: string;
+  investmentId: string;
+  investor: {
+    _id: string;
+    investorId: string;
+    name: string;
+    bankName?: string;
+    accountNumber?: string;
+    ifscCode?: string;
+  };
+  scheduleMonth: number;
+  dueDate: string;
+  status: PaymentSchedule['status'];
+  interestAmount: number;
+  principalAmount: number;
+  penaltyAmount: number;
+  amount: number;
+}
+
+export interface PayoutRunRequest {
+  dueFrom: string;
+  dueTo: string;
+  paymentDate?: string;
+  paymentMethod: Payment['paymentMethod'];
+  referenceNumber?: string;
+  notes?: string;
+  rows: { investment: string; scheduleMonth: number }[];
+}
+
+export interface PayoutBatch {
+  _id: string;
+  batchId: string;
+  dueFrom: string;
+  dueTo: string;
+  paymentDate: string;
+  paymentMethod: Payment['paymentMethod'];
+  referenceNumber?: string;
+  notes?: string;
+  status: 'posted' | 'rolled_back';
+  payments?: Array<Pick<Payment, '_id' | 'paymentId' | 'scheduleMonth' | 'amount' | 'interestAmount' | 'principalAmount' | 'penaltyAmount' | 'status' | 'awaitingVerification'> & {
+    investment: { _id: string; investmentId: string };
+    investor: { _id: string; investorId: string; name: string };
+    verifiedBy?: string | null;
+  }>;
+  excludedCount: number;
+  totals: {
+    count: number;
+    amount: number;
+    interest: number;
+    principal: number;
+    penalty: number;
+    awaitingVerification: number;
+  };
+  createdBy: { _id: string; name: string; email: string };
+  rollback?: {
+    reason: string;
+    rolledBackAt: string;
+    rolledBackBy?: { _id: string; name: string; email: string };
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ================================
+// BANK PAYOUT FILE TYPES
+// ================================
+
+export type TransferMode = 'NEFT' | 'RTGS' | 'IMPS';
+
+export interface BankFileFormat {
+  key: string;
+  label: string;
+  extension: string;
+}
+
+export interface PayoutFileRow {
+  investment: string;
+  investor: string;
+  investmentId: string;
+  investorId: string;
+  scheduleMonth: number;
+  dueDate: string;
+  // Transferred: the due amount less the TDS to be withheld
+  amount: number;
+  tdsAmount?: number;
+  beneficiaryName: string;
+  accountNumber: string;
+  ifscCode: string;
+  bankName?: string;
+  transferMode: TransferMode;
+  reference?: string;
+  // Preview only
+  errors?: string[];
+  previousExport?: string | null;
+}
+
+export interface PayoutFileRequest {
+  dueFrom: string;
+  dueTo: string;
+  paymentDate?: string;
+  format: string;
+  transferMode?: 'auto' | TransferMode;
+  debitAccount?: string;
+  rows: { investment: string; scheduleMonth: number }[];
+}
+
+export interface PayoutExport {
+  _id: string;
+  exportId: string;
+  format: string;
+  fileName: string;
+  dueFrom: string;
+  dueTo: string;
+  paymentDate: string;
+  transferMode: 'auto' | TransferMode;
+  debitAccount?: string;
+  rows?: PayoutFileRow[];
+  excludedCount: number;
+  totals: {
+    count: number;
+    amount: number;
+  };
+  createdBy: { _id: string; name: string; email: string };
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ================================
+// ACCOUNT STATEMENT TYPES
+// ================================
+
+export type StatementFrequency = 'none' | 'monthly' | 'quarterly';
+
+export type StatementEntryType = 'investment' | 'interest_due' | 'late_fee' | 'bonus' | 'payment' | 'prepayment_penalty' | 'closure_penalty' | 'reversal';
+
+export interface StatementEntry {
+  date: string;
+  type: StatementEntryType;
+  investmentId: string;
+  reference: string;
+  description: string;
+  credit: number;
+  debit: number;
+  balance: number;
+}
+
+export interface StatementSummary {
+  openingBalance: number;
+  openingPrincipal: number;
+  principalInvested: number;
+  principalRepaid: number;
+  interestAccrued: number;
+  interestPaid: number;
+  tdsWithheld: number;
+  lateFees: number;
+  totalPaid: number;
+  closingBalance: number;
+  closingPrincipal: number;
+  interestOutstanding: number;
+}
+
+export interface InvestmentStatementSummary extends StatementSummary {
+  investment: string;
+  investmentId: string;
+  planName?: string;
+  status: Investment['status'];
+}
+
+export interface AccountStatement {
+  investor: {
+    _id: string;
+    investorId: string;
+    name: string;
+    email: string;
+    phone: string;
+    address: string;
+    statementDelivery?: Investor['statementDelivery'];
+  };
+  investmentId: string | null;
+  period: { from: string; to: string };
+  summary: StatementSummary;
+  investments: InvestmentStatementSummary[];
+  entries: StatementEntry[];
+  generatedAt: string;
+}
+
+export interface StatementParams {
+  investor?: string;
+  investment?: string;
+  from: string;
+  to: string;
+}
+
+// ================================
+// TAX (TDS) TYPES
+// ================================
+
+export type TdsBasis = 'standard' | 'no_pan' | 'exempt' | 'below_threshold';
+
+export interface PaymentTds {
+  financialYear: string;
+  quarter: 1 | 2 | 3 | 4;
+  section: string;
+  rate: number;
+  basis: TdsBasis;
+  exemptionForm?: '15G' | '15H';
+}
+
+export interface TaxExemption {
+  _id: string;
+  form: '15G' | '15H';
+  financialYear: string;
+  submittedAt: string;
+  notes?: string;
+  recordedBy?: { _id: string; name: string; email: string };
+  recordedAt: string;
+}
+
+export interface TdsReportRow {
+  investor: string;
+  investorId: string;
+  name: string;
+  panNumber: string | null;
+  panVerified: boolean;
+  payments: number;
+  interestPaid: number;
+  tdsWithheld: number;
+  netPaid: number;
+  rates: number[];
+  bases: TdsBasis[];
+  exemptionForm: '15G' | '15H' | null;
+}
+
+export interface TdsReport {
+  financialYear: string;
+  quarter: number | null;
+  section: string;
+  period: { from: string; to: string };
+  rows: TdsReportRow[];
+  totals: {
+    investors: number;
+    payments: number;
+    interestPaid: number;
+    tdsWithheld: number;
+    netPaid: number;
+  };
+}
+
+export interface InterestCertificateRow {
+  investment: string;
+  investmentId: string;
+  planName?: string;
+  investmentDate: string;
+  interestRate: number;
+  principalAmount: number;
+  interestCredited: number;
+  tdsWithheld: number;
+  principalOutstanding: number;
+}
+
+export interface InterestCertificate {
+  certificateNumber: string;
+  investor: {
+    _id: string;
+    investorId: string;
+    name: string;
+    email: string;
+    address?: string;
+    panNumber: string | null;
+  };
+  financialYear: string;
+  period: { from: string; to: string };
+  tdsSection: string;
+  investments: InterestCertificateRow[];
+  totals: {
+    interestCredited: number;
+    tdsWithheld: number;
+    principalOutstanding: number;
+    netInterest: number;
+  };
+  generatedAt: string;
+}
+
+// ================================
+// KYC TYPES
+// ================================
+
+// pending covers both collecting documents and awaiting review (submittedAt set)
+export type KycStatus = 'pending' | 'verified' | 'rejected' | 'expired';
+
+export type KycQueueStage = 'review' | 'documents' | 'rejected' | 'expiring' | 'expired' | 'verified';
+
+export interface KycFile {
+  _id: string;
+  type: string;
+  originalName: string;
+  fileSize?: number;
+  mimeType?: string;
+  cycle: number;
+  uploadedAt: string;
+}
+
+export interface KycReviewEvent {
+  _id: string;
+  cycle: number;
+  action: 'submitted' | 'approved' | 'rejected' | 'expired' | 'reopened';
+  reason?: string;
+  performedBy?: { _id: string; name: string; email: string } | null;
+  performedAt: string;
+}
+
+export interface KycChecklistItem {
+  key: string;
+  label: string;
+  file: KycFile | null;
+}
+
+export interface KycDetails {
+  investor: {
+    _id: string;
+    investorId: string;
+    name: string;
+    email: string;
+    phone: string;
+    panNumber: string;
+    aadharNumber: string;
+    bankDetails: InvestorKYC['bankDetails'];
+  };
+  verificationStatus: KycStatus;
+  cycle: number;
+  submittedAt?: string;
+  verifiedAt?: string;
+  verifiedBy?: { _id: string; name: string; email: string } | null;
+  expiresAt?: string;
+  rejectionReason?: string;
+  checklist: KycChecklistItem[];
+  files: KycFile[];
+  reviewHistory: KycReviewEvent[];
+}
+
+export interface KycQueueItem {
+  _id: string;
+  investorId: string;
+  name: string;
+  email: string;
+  phone: string;
+  verificationStatus: KycStatus;
+  cycle: number;
+  submittedAt?: string;
+  verifiedAt?: string;
+  expiresAt?: string;
+  rejectionReason?: string;
+  documentsUploaded: number;
+  documentsRequired: number;
+}
+
+// ================================
+// GENERAL LEDGER TYPES
+// ================================
+
+export type LedgerAccountType = 'asset' | 'liability' | 'income' | 'expense';
+
+export interface LedgerAccount {
+  code: string;
+  key: keyof AccountingSettings['ledgerNames'];
+  name: string;
+  type: LedgerAccountType;
+  description: string;
+}
+
+export interface TrialBalanceRow extends LedgerAccount {
+  debit: number;
+  credit: number;
+  // On the account's normal side (debit for assets/expenses, credit for liabilities/income)
+  balance: number;
+  debitBalance: number;
+  creditBalance: number;
+}
+
+export interface TrialBalance {
+  asOf: string;
+  accounts: TrialBalanceRow[];
+  totals: { debit: number; credit: number };
+  balanced: boolean;
+}
+
+export type JournalEntryType = 'investment' | 'interest_accrual' | 'payment' | 'reversal' | 'prepayment_penalty';
+
+export type AccountingExportFormat = 'tally' | 'csv';
+
+export interface AccountLedgerEntry {
+  _id: string;
+  entryNumber: string;
+  date: string;
+  type: JournalEntryType;
+  description: string;
+  investor?: { _id: string; investorId: string; name: string } | null;
+  investment?: { _id: string; investmentId: string } | null;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export interface AccountLedger {
+  account: LedgerAccount;
+  period: { from: string | null; to: string | null };
+  openingBalance: number;
+  closingBalance: number;
+  entries: AccountLedgerEntry[];
+  pagination: {
+    current: number;
+    pages: number;
+    total: number;
+    limit: number;
+  };
+}
+
+export interface CounterDrift {
+  kind: 'investor' | 'plan' | 'investment';
+  id: string;
+  reference: string;
+  name?: string;
+  field: string;
+  stored: number;
+  ledger: number;
+}
+
+export interface CounterReconciliation {
+  checkedAt: string;
+  checked: { investors: number; plans: number; investments: number };
+  drifts: CounterDrift[];
+  corrected: number;
+}
+
+// ================================
+// BANK RECONCILIATION TYPES
+// ================================
+
+export type StatementFormat = 'csv' | 'ofx' | 'mt940';
+export type StatementDateFormat = 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD' | 'DD-MMM-YYYY';
+export type StatementLineStatus = 'proposed' | 'unmatched' | 'matched' | 'ignored';
+
+// CSV columns by header name or 1-based column number
+export interface StatementColumnMapping {
+  date: string;
+  amount?: string;
+  debit?: string;
+  credit?: string;
+  direction?: string;
+  description?: string;
+  reference?: string;
+  accountNumber?: string;
+  dateFormat?: StatementDateFormat;
+  hasHeader?: boolean;
+  delimiter?: string;
+}
+
+export interface StatementLineMatch {
+  kind: 'schedule' | 'payment' | 'investment' | 'return';
+  investment?: { _id: string; investmentId: string } | null;
+  investor?: { _id: string; investorId: string; name: string } | null;
+  scheduleMonth?: number;
+  payment?: { _id: string; paymentId: string; amount: number; paymentDate: string } | null;
+  confidence?: number | null;
+  reasons: string[];
+  manual: boolean;
+}
+
+export interface StatementLine {
+  _id: string;
+  lineNo: number;
+  date: string;
+  amount: number;
+  direction: 'credit' | 'debit';
+  description: string;
+  reference: string;
+  accountNumber: string;
+  status: StatementLineStatus;
+  match?: StatementLineMatch;
+  payment?: {
+    _id: string;
+    paymentId: string;
+    amount: number;
+    status: Payment['status'];
+    awaitingVerification?: boolean;
+  } | null;
+  note?: string;
+  resolvedBy?: { _id: string; name: string; email: string };
+  resolvedAt?: string;
+}
+
+export interface BankStatement {
+  _id: string;
+  statementId: string;
+  originalName: string;
+  format: StatementFormat;
+  accountNumber: string;
+  periodStart: string;
+  periodEnd: string;
+  dateWindowDays: number;
+  lines?: StatementLine[];
+  summary: Record<'total' | StatementLineStatus, number>;
+  uploadedBy: { _id: string; name: string; email: string };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface StatementConfirmResult {
+  statement: BankStatement;
+  results: {
+    confirmed: { lineId: string; lineNo: number; paymentId?: string; investmentId?: string }[];
+    failed: { lineId: string; lineNo: number; message: string }[];
+  };
+}
+
+export interface ReconciliationException {
+  statement: { _id: string; statementId: string; originalName: string };
+  line: StatementLine;
+}
+
+export type StatementLineUpdate =
+  | { action: 'match'; kind: 'schedule'; investment: string; scheduleMonth: number; note?: string }
+  | { action: 'match'; kind: 'payment'; payment: string; note?: string }
+  | { action: 'ignore' | 'unmatch'; note?: string };
+
 // ================================
 // API & UTILITY TYPES
 // ================================
@@ -640,6 +1639,9 @@ export interface CalculationResult {
     totalReturns: number;
     effectiveRate: number;
     paymentType: string;
+    numberOfPayouts?: number;
+    effectiveAnnualYield?: number;
+    xirr?: number | null;
   };
 }
 
@@ -0,0 +1,13 @@
+// src/utils/errors.ts - Messages for failed requests
+// services/api.ts rejects with a normalised ApiError whose details are the response body;
+// calls made straight through axios still reject with the axios error itself.
+import { ApiError } from '../types';
+
+type AxiosLikeError = { response?: { data?: { message?: unknown } } };
+
+export const errorMessage = (error: unknown, fallback: string): string => {
+  if (typeof error !== 'object' || error === null) return fallback;
+
+  const serverMessage = (error as AxiosLikeError).response?.data?.message ?? (error as ApiError).details?.message;
+  return typeof serverMessage === 'string' && serverMessage ? serverMessage : fallback;
+};
@@ -0,0 +1,12 @@
+// src/utils/interestAccrual.ts - Day-count convention labels, on top of the shared accrual module
+// The accrual itself lives in shared/interestAccrual.js, used by the API too.
+import { DayCountConvention } from '../types';
+
+export { resolveDayCountConvention } from '../../shared/interestAccrual.js';
+
+export const DAY_COUNT_CONVENTION_LABELS: Record<DayCountConvention, string> = {
+  actual_365: 'Actual/365',
+  actual_actual: 'Actual/Actual',
+  thirty_360: '30/360',
+  monthly: 'Monthly (pro-rated broken months)'
+};
@@ -0,0 +1,23 @@
+// src/utils/rateBasis.ts - Rate basis labels, on top of the shared conversions
+// The conversions and XIRR live in shared/rateBasis.js, used by the API too.
+import { RateBasis } from '../types';
+
+export { effectiveAnnualYield, scheduleXirr } from '../../shared/rateBasis.js';
+
+export const RATE_BASIS_LABELS: Record<RateBasis, string> = {
+  monthly: 'Monthly',
+  annual_nominal: 'Annual (nominal)',
+  annual_effective: 'Annual (effective)'
+};
+
+// Contractual rate as quoted, e.g. "1.5% per month" or "18% p.a. effective"
+export const formatContractualRate = (interestRate: number, rateBasis: RateBasis = 'monthly'): string => {
+  switch (rateBasis) {
+    case 'annual_nominal':
+      return `${interestRate}% p.a.`;
+    case 'annual_effective':
+      return `${interestRate}% p.a. effective`;
+    default:
+      return `${interestRate}% per month`;
+  }
+};
@@ -0,0 +1,85 @@
+// src/utils/scheduleEngine.ts - Client-side schedule & returns engine
+// Runs the same engine as the Plan and Investment models (shared/scheduleEngine.js)
+// so previews can be rendered without a round-trip to the API, shaped as the API
+// returns them.
+import { Plan, PaymentSchedule, PayoutTerms, CalculationResult, DayCountConvention } from '../types';
+import { buildSchedule, roundCurrency, summarizeReturns } from '../../shared/scheduleEngine.js';
+
+export type SchedulePlan = Pick<
+  Plan,
+  'interestRate' | 'rateBasis' | 'interestType' | 'tenure' | 'paymentType' | 'interestPayment' | 'interestWithPrincipalPayment'
+> & {
+  name?: string;
+  payoutTerms?: PayoutTerms;
+  dayCountConvention?: DayCountConvention | null;
+};
+
+export type ReturnsCalculation = CalculationResult['calculations'];
+
+export const getPayoutFrequency = (plan: SchedulePlan): string | undefined => {
+  return plan.paymentType === 'interest'
+    ? plan.interestPayment?.interestFrequency
+    : plan.interestWithPrincipalPayment?.paymentFrequency;
+};
+
+// ================================
+// SCHEDULE GENERATION
+// ================================
+
+// Rows as the API serialises them: ISO due dates and no paid date
+export const generateSchedule = (
+  plan: SchedulePlan,
+  principalAmount: number,
+  investmentDate: Date | string = new Date(),
+  dayCountConvention: DayCountConvention | null | undefined = plan.dayCountConvention
+): PaymentSchedule[] => {
+  return buildSchedule(plan, principalAmount, investmentDate, dayCountConvention).map(row => ({
+    ...row,
+    dueDate: row.dueDate.toISOString(),
+    paidDate: undefined
+  }));
+};
+
+export const summarizeSchedule = (schedule: PaymentSchedule[]) => {
+  return schedule.reduce(
+    (totals, row) => ({
+      interest: roundCurrency(totals.interest + row.interestAmount),
+      principal: roundCurrency(totals.principal + row.principalAmount),
+      total: roundCurrency(totals.total + row.totalAmount)
+    }),
+    { interest: 0, principal: 0, total: 0 }
+  );
+};
+
+// ================================
+// RETURNS CALCULATION
+// ================================
+
+// Returns are derived from the schedule so the totals always match the rows
+export const calculateExpectedReturns = (
+  plan: SchedulePlan,
+  principalAmount: number,
+  investmentDate: Date | string = new Date(),
+  dayCountConvention: DayCountConvention | null | undefined = plan.dayCountConvention
+): ReturnsCalculation => {
+  const schedule = buildSchedule(plan, principalAmount, investmentDate, dayCountConvention);
+  return summarizeReturns(schedule, principalAmount, plan, investmentDate);
+};
+
+// Same payload shape as POST /plans/:id/calculate
+export const buildCalculationResult = (
+  plan: SchedulePlan,
+  principalAmount: number,
+  investmentDate: Date | string = new Date(),
+  dayCountConvention: DayCountConvention | null | undefined = plan.dayCountConvention
+): CalculationResult => ({
+  principalAmount,
+  plan: {
+    name: plan.name || '',
+    paymentType: plan.paymentType,
+    interestType: plan.interestType,
+    interestRate: plan.interestRate,
+    tenure: plan.tenure
+  },
+  calculations: calculateExpectedReturns(plan, principalAmount, investmentDate, dayCountConvention)
+});